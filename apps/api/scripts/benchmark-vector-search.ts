@@ -0,0 +1,139 @@
+import { parseArgs } from 'node:util';
+import { db, prisma } from '@search-hub/db';
+
+/**
+ * Recall and latency of ANN search against exact search for one tenant.
+ *
+ *   pnpm benchmark:vectors --tenant <tenantId> [--queries 50] [--k 10] [--ef 40,100,200]
+ *
+ * Query vectors are sampled from the tenant's own chunks, so no embedding
+ * provider is called. The exact baseline disables index scans for its
+ * transaction; recall@k is the share of the exact top k the ANN query returned.
+ */
+
+const { values } = parseArgs({
+    options: {
+        tenant: { type: 'string' },
+        queries: { type: 'string', default: '50' },
+        k: { type: 'string', default: '10' },
+        ef: { type: 'string', default: '40,100,200' },
+    },
+});
+
+const tenantId = values.tenant;
+const queryCount = Number(values.queries);
+const k = Number(values.k);
+const efValues = values.ef.split(',').map(Number);
+
+interface Neighbour {
+    documentId: string;
+    idx: number;
+}
+
+const key = (row: Neighbour) => `${row.documentId}:${row.idx}`;
+
+function percentile(samples: number[], p: number): number {
+    const sorted = [...samples].sort((a, b) => a - b);
+    return (
+        sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))] ?? 0
+    );
+}
+
+async function exactNeighbours(vector: string, model: string) {
+    return prisma.$transaction(async (tx) => {
+        await tx.$executeRaw`SET LOCAL enable_indexscan = off`;
+        return tx.$queryRaw<Neighbour[]>`
+            SELECT "documentId", "idx"
+            FROM "DocumentChunk"
+            WHERE "tenantId" = ${tenantId} AND "embeddingModel" = ${model}
+            ORDER BY "embedding" <=> ${vector}::vector
+            LIMIT ${k}
+        `;
+    });
+}
+
+async function main() {
+    if (!tenantId || !Number.isInteger(k) || efValues.some(Number.isNaN)) {
+        throw new Error(
+            'Usage: benchmark:vectors --tenant <tenantId> [--queries 50] [--k 10] [--ef 40,100,200]'
+        );
+    }
+
+    const samples = await prisma.$queryRaw<
+        { vector: string; embeddingModel: string }[]
+    >`
+        SELECT "embedding"::text AS vector, "embeddingModel"
+        FROM "DocumentChunk"
+        WHERE "tenantId" = ${tenantId}
+        ORDER BY random()
+        LIMIT ${queryCount}
+    `;
+    if (samples.length === 0) {
+        throw new Error(`Tenant ${tenantId} has no chunks`);
+    }
+
+    const hasIndex = await db.vectorIndex.hasTenantIndex(tenantId);
+    console.log(
+        `[api/script/benchmark-vector-search] tenant=${tenantId} queries=${samples.length} k=${k} hnsw=${hasIndex}`
+    );
+
+    const exactLatencies: number[] = [];
+    const baselines: Set<string>[] = [];
+    for (const sample of samples) {
+        const startedAt = performance.now();
+        const rows = await exactNeighbours(
+            sample.vector,
+            sample.embeddingModel
+        );
+        exactLatencies.push(performance.now() - startedAt);
+        baselines.push(new Set(rows.map(key)));
+    }
+
+    const report = [
+        {
+            mode: 'exact',
+            recall: 1,
+            p50Ms: percentile(exactLatencies, 0.5).toFixed(1),
+            p95Ms: percentile(exactLatencies, 0.95).toFixed(1),
+        },
+    ];
+
+    for (const efSearch of efValues) {
+        const latencies: number[] = [];
+        let found = 0;
+        let expected = 0;
+
+        for (const [i, sample] of samples.entries()) {
+            const startedAt = performance.now();
+            const rows = await db.search.findNearestChunks(
+                tenantId,
+                JSON.parse(sample.vector) as number[],
+                k,
+                undefined,
+                { model: sample.embeddingModel, shadow: false },
+                { efSearch }
+            );
+            latencies.push(performance.now() - startedAt);
+
+            const baseline = baselines[i] ?? new Set<string>();
+            found += rows.filter((row) => baseline.has(key(row))).length;
+            expected += baseline.size;
+        }
+
+        report.push({
+            mode: `ann ef_search=${efSearch}`,
+            recall: expected === 0 ? 1 : found / expected,
+            p50Ms: percentile(latencies, 0.5).toFixed(1),
+            p95Ms: percentile(latencies, 0.95).toFixed(1),
+        });
+    }
+
+    console.table(report);
+}
+
+main()
+    .then(() => process.exit(0))
+    .catch((error: unknown) => {
+        console.error(error instanceof Error ? error.message : error);
+        process.exit(1);
+    });
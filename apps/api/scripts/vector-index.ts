@@ -0,0 +1,79 @@
+import { db } from '@search-hub/db';
+import { env } from '../src/config/env.js';
+
+/**
+ * Manage per-tenant HNSW indexes on DocumentChunk.embedding.
+ *
+ *   pnpm vector-index list               indexes + tenants above the threshold
+ *   pnpm vector-index create <tenantId>  build (or rebuild) a tenant's index
+ *   pnpm vector-index drop <tenantId>    fall back to exact search
+ *
+ * Builds use CREATE INDEX CONCURRENTLY, so writes continue meanwhile.
+ * Raise maintenance_work_mem on the server for large tenants.
+ */
+
+const [command, tenantId] = process.argv.slice(2);
+
+async function list() {
+    const [indexes, tenants] = await Promise.all([
+        db.vectorIndex.listIndexes(),
+        db.vectorIndex.countChunksByTenant(),
+    ]);
+    const indexed = new Set(indexes.map((index) => index.tenantId));
+
+    console.table(
+        indexes.map(({ name, method, tenantId, valid, sizeBytes }) => ({
+            name,
+            method,
+            tenantId: tenantId ?? '(global)',
+            valid,
+            sizeMb: (sizeBytes / 1024 / 1024).toFixed(1),
+        }))
+    );
+
+    const missing = tenants.filter(
+        (tenant) =>
+            tenant.chunks >= env.VECTOR_INDEX_TENANT_THRESHOLD &&
+            !indexed.has(tenant.tenantId)
+    );
+    if (missing.length > 0) {
+        console.log(
+            `Tenants above ${env.VECTOR_INDEX_TENANT_THRESHOLD} chunks without an index:`
+        );
+        console.table(missing);
+    }
+}
+
+async function main() {
+    switch (command) {
+        case 'list':
+            return list();
+        case 'create':
+        case 'drop': {
+            if (!tenantId) {
+                throw new Error(`Usage: vector-index ${command} <tenantId>`);
+            }
+            const startedAt = Date.now();
+            if (command === 'create') {
+                await db.vectorIndex.createTenantIndex(tenantId);
+            } else {
+                await db.vectorIndex.dropTenantIndex(tenantId);
+            }
+            console.log(
+                `[api/script/vector-index] ${command} ${db.vectorIndex.tenantIndexName(tenantId)} in ${Date.now() - startedAt}ms`
+            );
+            return;
+        }
+        default:
+            throw new Error(
+                'Usage: vector-index <list|create|drop> [tenantId]'
+            );
+    }
+}
+
+main()
+    .then(() => process.exit(0))
+    .catch((error: unknown) => {
+        console.error(error instanceof Error ? error.message : error);
+        process.exit(1);
+    });
@@ -1,11 +1,94 @@
-import { describe, test, expect, beforeAll, afterAll, vi } from 'vitest';
+import {
+    describe,
+    test,
+    expect,
+    beforeAll,
+    afterAll,
+    beforeEach,
+    afterEach,
+    vi,
+} from 'vitest';
 import request from 'supertest';
+import express from 'express';
+import { db } from '@search-hub/db';
+import {
+    HybridSearchQuery,
+    ListDigestsQuery,
+    type AppError,
+    SearchRankWeights,
+    updatedAtBucketRange,
+    WorkspaceDigestActivitySchema,
+    type QaStreamEvent,
+} from '@search-hub/schemas';
+import {
+    createBm25Reranker,
+    createLocalEmbeddingProvider,
+    createPassThroughReranker,
+    createScriptedLlmProvider,
+    detectTextSearchConfig,
+    embeddingModelId,
+    parseEmbeddingModelId,
+    type EmbeddingProvider,
+} from '@search-hub/ai';
 import { createServer } from '../app.js';
+import { tenantRoutes } from '../routes/tenants.js';
+import { errorHandlerMiddleware } from '../middleware/errorHandlerMiddleware.js';
+import type { AuthenticatedRequest } from '../middleware/authMiddleware.js';
+import { searchRoutes } from '../routes/search.js';
+import { createSearchService } from '../services/searchService.js';
+import { createSearchCache, type CacheStore } from '../lib/searchCache.js';
+import { recommendVectorIndexAction } from '../services/adminService.js';
+import { fuseRankings } from '../lib/hybridFusion.js';
+import { parseSearchQuery } from '../lib/searchQueryParser.js';
+import { CircuitBreaker } from '../lib/circuitBreaker.js';
+import { createSavedSearchService } from '../services/savedSearchService.js';
+import { createDuplicateService } from '../services/duplicateService.js';
+import { createQaService } from '../services/qaService.js';
+import { createQaThreadService } from '../services/qaThreadService.js';
+import { createDocumentService } from '../services/documentService.js';
+import { summaryQueue } from '../queue.js';
+import type { SearchService } from '../services/searchService.js';
 
 interface ErrorBody {
     error: { code: string; message?: string; requestId?: string };
 }
 
+// search routes behind a signed-in session, without the auth and rate limit stack
+function searchAppFor(service: SearchService) {
+    const app = express();
+    app.use((req, _res, next) => {
+        (req as AuthenticatedRequest).session = {
+            userId: 'user-1',
+            currentTenantId: 'tenant-1',
+        } as AuthenticatedRequest['session'];
+        next();
+    });
+    app.use('/v1', searchRoutes(service));
+    app.use(errorHandlerMiddleware);
+    return app;
+}
+
+// runs the real repositories with only the database round trip stubbed out,
+// returning the tagged template arguments of the first raw query
+async function captureRawQuery(
+    run: (repositories: typeof db) => Promise<unknown>
+): Promise<[TemplateStringsArray, ...unknown[]]> {
+    const actual =
+        await vi.importActual<typeof import('@search-hub/db')>(
+            '@search-hub/db'
+        );
+    const client = actual.prisma as unknown as { $queryRaw: unknown };
+    const queryRaw = client.$queryRaw;
+    const captured = vi.fn().mockResolvedValue([]);
+    client.$queryRaw = captured;
+    try {
+        await run(actual.db);
+    } finally {
+        client.$queryRaw = queryRaw;
+    }
+    return captured.mock.calls[0] as [TemplateStringsArray, ...unknown[]];
+}
+
 beforeAll(async () => {
     // Setup
 });
@@ -26,14 +109,60 @@ vi.mock('@search-hub/db', () => ({
             findUnique: vi.fn(),
             getById: vi.fn(),
         },
+        tenant: {
+            getSearchSettings: vi.fn(),
+            getSummaryTokenBudget: vi.fn().mockResolvedValue(null),
+            listForUser: vi.fn(),
+        },
+        tenantMembership: {
+            findMembershipByUserIdAndTenantId: vi.fn(),
+        },
+        documentIndexState: {
+            findUnique: vi.fn(),
+        },
+        search: {
+            lexicalSearchDocuments: vi.fn(),
+            lexicalSearchChunks: vi.fn().mockResolvedValue([]),
+            findNearestChunks: vi.fn().mockResolvedValue([]),
+            getAdjacentChunks: vi.fn().mockResolvedValue([]),
+            getDocumentTitlesByIds: vi.fn().mockResolvedValue([]),
+            getDocumentDetailsByIds: vi.fn().mockResolvedValue([]),
+            fuzzySearchDocuments: vi.fn().mockResolvedValue([]),
+            suggestTermCorrections: vi.fn().mockResolvedValue([]),
+            getSearchSuggestions: vi.fn(),
+            getDocumentVector: vi.fn(),
+            findRelatedDocuments: vi.fn().mockResolvedValue([]),
+            getSearchFacets: vi.fn(),
+        },
+        savedSearch: {
+            create: vi.fn(),
+        },
+        documentDuplicate: {
+            findById: vi.fn(),
+            resolve: vi.fn(),
+        },
+        qaThread: {
+            findById: vi.fn(),
+            recentMessages: vi.fn().mockResolvedValue([]),
+            appendExchange: vi.fn(),
+        },
+        workspaceDigest: {
+            listForTenant: vi.fn(),
+        },
+        tokenUsage: {
+            getDailyUsage: vi.fn().mockResolvedValue(0),
+        },
     },
 }));
 
 vi.mock('../queue.js', () => ({
     indexQueue: { add: vi.fn() },
+    reminderQueue: { add: vi.fn() },
+    summaryQueue: { add: vi.fn() },
 }));
 
-vi.mock('@search-hub/ai', () => ({
+vi.mock('@search-hub/ai', async (importOriginal) => ({
+    ...(await importOriginal<typeof import('@search-hub/ai')>()),
     createVoyageHelpers: () => ({
         search: vi.fn(),
     }),
@@ -87,3 +216,2298 @@ describe('API Server', () => {
         expect(body.error).toHaveProperty('requestId');
     });
 });
+
+describe('Lexical ranking weights', () => {
+    const service = createSearchService({
+        reranker: createPassThroughReranker(),
+    });
+
+    const titleMatch = {
+        id: 'doc-title',
+        title: 'Onboarding',
+        snippet: 'Welcome aboard',
+        score: 0.61,
+        passage: null,
+    };
+
+    test('defaults weight title above headings, lead and body', () => {
+        const weights = SearchRankWeights.parse({});
+
+        expect(weights.title).toBeGreaterThan(weights.headings);
+        expect(weights.headings).toBeGreaterThan(weights.lead);
+        expect(weights.lead).toBeGreaterThan(weights.body);
+    });
+
+    test('tenants without overrides search with the defaults', async () => {
+        vi.mocked(db.tenant.getSearchSettings).mockResolvedValueOnce(null);
+        vi.mocked(db.search.lexicalSearchDocuments).mockResolvedValueOnce({
+            items: [titleMatch],
+            total: 1,
+        });
+
+        await service.lexicalSearch({
+            tenantId: 'tenant-1',
+            q: 'onboarding',
+            limit: 10,
+            offset: 0,
+        });
+
+        expect(db.search.lexicalSearchDocuments).toHaveBeenLastCalledWith(
+            'tenant-1',
+            expect.objectContaining({ titleTerms: [] }),
+            10,
+            0,
+            undefined,
+            { title: 1, headings: 0.4, lead: 0.2, body: 0.1 },
+            'english'
+        );
+    });
+
+    test('title hits outrank body-only hits in the generated ranking SQL', async () => {
+        const [sqlParts, ...values] = await captureRawQuery((repositories) =>
+            repositories.search.lexicalSearchDocuments(
+                'tenant-1',
+                {
+                    groups: [
+                        [
+                            {
+                                value: 'onboarding',
+                                phrase: false,
+                                negated: false,
+                            },
+                        ],
+                    ],
+                    titleTerms: [],
+                },
+                10,
+                0,
+                undefined,
+                SearchRankWeights.parse({})
+            )
+        );
+        const sql = sqlParts.join('?').replace(/\s+/g, ' ');
+        // ts_rank_cd takes weights as {D, C, B, A}: body, lead, headings, title
+        expect(values[0]).toBe('{0.1,0.2,0.4,1}');
+        expect(sql).toContain('?::float4[] AS weights');
+        expect(sql).toContain(
+            'ts_rank_cd(q.weights, d."searchVector", q.query, 1 | 32) AS score'
+        );
+        expect(sql).toContain('ORDER BY score DESC');
+
+        // ts_rank_cd for a one-word query: every occurrence adds the weight of its
+        // class, 1 divides by ln(length + 1) and 32 maps the rank to rank / (rank + 1)
+        const weights = String(values[0]).slice(1, -1).split(',').map(Number);
+        const rank = (classes: string[], length: number, order = 'DCBA') => {
+            const sum = classes.reduce(
+                (total, weightClass) =>
+                    total + (weights[order.indexOf(weightClass)] ?? 0),
+                0
+            );
+            const damped = sum / Math.log(length + 1);
+            return damped / (damped + 1);
+        };
+        // "Onboarding" as the title of a short page vs. one passing mention
+        // in the body of a 300 word review
+        const titleHit = { classes: ['A'], length: 40 };
+        const bodyHit = { classes: ['D'], length: 300 };
+
+        expect(rank(titleHit.classes, titleHit.length)).toBeGreaterThan(
+            rank(bodyHit.classes, bodyHit.length)
+        );
+        // read in A..D order the same array would put the body hit first
+        expect(rank(titleHit.classes, titleHit.length, 'ABCD')).toBeLessThan(
+            rank(bodyHit.classes, bodyHit.length, 'ABCD')
+        );
+    });
+
+    test('tenant overrides are merged over the defaults', async () => {
+        vi.mocked(db.tenant.getSearchSettings).mockResolvedValueOnce({
+            searchRankWeights: { title: 0.9, body: 0.05 },
+            textSearchConfig: 'english',
+            embeddingModel: null,
+            hybridFusion: null,
+            llmModel: null,
+        });
+        vi.mocked(db.search.lexicalSearchDocuments).mockResolvedValueOnce({
+            items: [],
+            total: 0,
+        });
+
+        await service.lexicalSearch({
+            tenantId: 'tenant-1',
+            q: 'onboarding',
+            limit: 10,
+            offset: 0,
+        });
+
+        expect(db.search.lexicalSearchDocuments).toHaveBeenLastCalledWith(
+            'tenant-1',
+            expect.anything(),
+            10,
+            0,
+            undefined,
+            { title: 0.9, headings: 0.4, lead: 0.2, body: 0.05 },
+            'english'
+        );
+    });
+
+    test('invalid stored weights fall back to the defaults', async () => {
+        vi.mocked(db.tenant.getSearchSettings).mockResolvedValueOnce({
+            searchRankWeights: { title: 5 },
+            textSearchConfig: 'english',
+            embeddingModel: null,
+            hybridFusion: null,
+            llmModel: null,
+        });
+        vi.mocked(db.search.lexicalSearchDocuments).mockResolvedValueOnce({
+            items: [],
+            total: 0,
+        });
+
+        await service.lexicalSearch({
+            tenantId: 'tenant-1',
+            q: 'onboarding',
+            limit: 10,
+            offset: 0,
+        });
+
+        expect(db.search.lexicalSearchDocuments).toHaveBeenLastCalledWith(
+            'tenant-1',
+            expect.anything(),
+            10,
+            0,
+            undefined,
+            { title: 1, headings: 0.4, lead: 0.2, body: 0.1 },
+            'english'
+        );
+    });
+
+    test('title: prefix restricts terms to the title field', async () => {
+        vi.mocked(db.tenant.getSearchSettings).mockResolvedValueOnce(null);
+        vi.mocked(db.search.lexicalSearchDocuments).mockResolvedValueOnce({
+            items: [titleMatch],
+            total: 1,
+        });
+
+        await service.lexicalSearch({
+            tenantId: 'tenant-1',
+            q: 'title:onboarding',
+            limit: 10,
+            offset: 0,
+        });
+
+        expect(db.search.lexicalSearchDocuments).toHaveBeenLastCalledWith(
+            'tenant-1',
+            {
+                groups: [],
+                titleTerms: [
+                    { value: 'onboarding', phrase: false, negated: false },
+                ],
+            },
+            10,
+            0,
+            undefined,
+            expect.anything(),
+            'english'
+        );
+    });
+});
+
+describe('Search query syntax', () => {
+    const word = (value: string, negated = false) => ({
+        value,
+        phrase: false,
+        negated,
+    });
+    const phrase = (value: string, negated = false) => ({
+        value,
+        phrase: true,
+        negated,
+    });
+    // reason recorded on the INVALID_SEARCH_QUERY error, if parsing fails
+    const failureReason = (query: string) => {
+        try {
+            parseSearchQuery(query);
+        } catch (error) {
+            return (error as AppError).context.metadata?.reason;
+        }
+        return undefined;
+    };
+
+    test('bare words must all match', () => {
+        const parsed = parseSearchQuery('rate limiter');
+
+        expect(parsed.text).toEqual({
+            groups: [[word('rate')], [word('limiter')]],
+            titleTerms: [],
+        });
+        expect(parsed.plainText).toBe('rate limiter');
+    });
+
+    test('quoted text becomes a phrase', () => {
+        expect(parseSearchQuery('"rate limiter" redis').text.groups).toEqual([
+            [phrase('rate limiter')],
+            [word('redis')],
+        ]);
+    });
+
+    test('a leading dash excludes words and phrases', () => {
+        const parsed = parseSearchQuery('deploy -draft -"old api" - rollback');
+
+        expect(parsed.text.groups).toEqual([
+            [word('deploy')],
+            [word('draft', true)],
+            [phrase('old api', true)],
+            [word('rollback')],
+        ]);
+        // exclusions never reach the embedding text
+        expect(parsed.plainText).toBe('deploy rollback');
+    });
+
+    test('OR groups its neighbours into alternatives', () => {
+        expect(
+            parseSearchQuery('redis OR valkey OR "key db" cache').text.groups
+        ).toEqual([
+            [word('redis'), word('valkey'), phrase('key db')],
+            [word('cache')],
+        ]);
+    });
+
+    test.each([
+        ['or gate', [[word('or')], [word('gate')]]],
+        ['either this or', [[word('either')], [word('this')], [word('or')]]],
+        ['redis or valkey', [[word('redis')], [word('or')], [word('valkey')]]],
+    ])('lowercase or in %s is a plain word', (query, groups) => {
+        expect(parseSearchQuery(query).text.groups).toEqual(groups);
+    });
+
+    test('/search keeps the OR operator of the typed query', async () => {
+        const app = searchAppFor(
+            createSearchService({
+                embeddings: {
+                    name: 'local',
+                    model: 'test-model',
+                    dimensions: 4,
+                    embed: vi.fn().mockResolvedValue([[0.5, 0.5, 0.5, 0.5]]),
+                },
+                reranker: createPassThroughReranker(),
+            })
+        );
+        vi.mocked(db.search.lexicalSearchDocuments).mockResolvedValue({
+            items: [],
+            total: 0,
+        });
+
+        const alternatives = await request(app)
+            .get('/v1/search')
+            .query({ q: 'Redis OR Valkey' });
+        expect(alternatives.status).toBe(200);
+        expect(
+            vi.mocked(db.search.lexicalSearchDocuments).mock.lastCall?.[1]
+        ).toEqual({
+            groups: [[word('Redis'), word('Valkey')]],
+            titleTerms: [],
+        });
+
+        for (const q of ['or gate', 'either this or']) {
+            const response = await request(app).get('/v1/search').query({ q });
+            expect(response.status).toBe(200);
+        }
+        expect(
+            vi.mocked(db.search.lexicalSearchDocuments).mock.lastCall?.[1]
+        ).toEqual({
+            groups: [[word('either')], [word('this')], [word('or')]],
+            titleTerms: [],
+        });
+
+        vi.mocked(db.search.lexicalSearchDocuments).mockReset();
+    });
+
+    test('field prefixes become title terms and filters', () => {
+        const parsed = parseSearchQuery(
+            'title:"release notes" guide tag:backend TAG:infra author:"ada lovelace" after:2024-06-01 before:2025-01-01'
+        );
+
+        expect(parsed.text).toEqual({
+            groups: [[word('guide')]],
+            titleTerms: [phrase('release notes')],
+        });
+        expect(parsed.filters).toEqual({
+            tagNames: ['backend', 'infra'],
+            authorHandle: 'ada lovelace',
+            updatedAfter: new Date('2024-06-01'),
+            updatedBefore: new Date('2025-01-01'),
+        });
+        expect(parsed.plainText).toBe('guide release notes');
+    });
+
+    test('unknown prefixes are plain text', () => {
+        expect(parseSearchQuery('http://example.com').text.groups).toEqual([
+            [word('http://example.com')],
+        ]);
+    });
+
+    test.each([
+        ['"rate limiter', 'unterminated_quote'],
+        ['OR redis', 'dangling_operator'],
+        ['redis OR', 'dangling_operator'],
+        ['redis OR OR valkey', 'dangling_operator'],
+        ['redis OR tag:backend', 'dangling_operator'],
+        ['deploy tag:', 'empty_prefix_value'],
+        ['deploy -tag:backend', 'negated_filter'],
+        ['deploy before:yesterday', 'invalid_date'],
+        ['deploy after:2025-13-45', 'invalid_date'],
+        [
+            Array.from({ length: 33 }, (_, i) => `w${i}`).join(' '),
+            'too_many_terms',
+        ],
+        ['-draft', 'no_search_terms'],
+    ])('%s is rejected with %s', (query, reason) => {
+        expect(failureReason(query)).toBe(reason);
+    });
+
+    test('filters alone are rejected until a search word is added', () => {
+        expect(failureReason('tag:backend author:ada')).toBe('no_search_terms');
+        expect(failureReason('tag:backend deploy')).toBeUndefined();
+    });
+});
+
+describe('Lexical search language', () => {
+    const service = createSearchService({
+        reranker: createPassThroughReranker(),
+    });
+
+    test('queries use the tenant text search configuration', async () => {
+        vi.mocked(db.tenant.getSearchSettings).mockResolvedValueOnce({
+            searchRankWeights: null,
+            textSearchConfig: 'french',
+            embeddingModel: null,
+            hybridFusion: null,
+            llmModel: null,
+        });
+        vi.mocked(db.search.lexicalSearchDocuments).mockResolvedValueOnce({
+            items: [],
+            total: 0,
+        });
+
+        await service.lexicalSearch({
+            tenantId: 'tenant-1',
+            q: 'recherche',
+            limit: 10,
+            offset: 0,
+        });
+
+        expect(db.search.lexicalSearchDocuments).toHaveBeenLastCalledWith(
+            'tenant-1',
+            expect.anything(),
+            10,
+            0,
+            undefined,
+            expect.anything(),
+            'french'
+        );
+    });
+
+    test('unknown stored configurations fall back to simple', async () => {
+        vi.mocked(db.tenant.getSearchSettings).mockResolvedValueOnce({
+            searchRankWeights: null,
+            textSearchConfig: 'klingon',
+            embeddingModel: null,
+            hybridFusion: null,
+            llmModel: null,
+        });
+        vi.mocked(db.search.lexicalSearchDocuments).mockResolvedValueOnce({
+            items: [],
+            total: 0,
+        });
+
+        await service.lexicalSearch({
+            tenantId: 'tenant-1',
+            q: 'qapla',
+            limit: 10,
+            offset: 0,
+        });
+
+        expect(db.search.lexicalSearchDocuments).toHaveBeenLastCalledWith(
+            'tenant-1',
+            expect.anything(),
+            10,
+            0,
+            undefined,
+            expect.anything(),
+            'simple'
+        );
+    });
+
+    test('document language is detected from its text', () => {
+        expect(
+            detectTextSearchConfig(
+                "Le service de recherche indexe tous les documents de l'équipe et il est rapide pour nous. Nous utilisons ce service pour les notes qui sont dans le wiki."
+            )
+        ).toBe('french');
+        expect(
+            detectTextSearchConfig(
+                'Der Suchdienst indexiert alle Dokumente und ist sehr schnell. Wir nutzen ihn auch für die Notizen, die mit dem Team geteilt werden, und das ist nicht schlecht.'
+            )
+        ).toBe('german');
+        expect(
+            detectTextSearchConfig(
+                '搜索服务会索引工作区中的所有文档，并且速度很快。'
+            )
+        ).toBe('chinese');
+        expect(detectTextSearchConfig('release notes')).toBeNull();
+    });
+
+    test('CJK terms are compiled to the bigrams documents are indexed with', async () => {
+        const compile = async (value: string) => {
+            const [sqlParts, ...values] = await captureRawQuery(
+                (repositories) =>
+                    repositories.search.lexicalSearchDocuments(
+                        'tenant-1',
+                        {
+                            groups: [
+                                [{ value, phrase: false, negated: false }],
+                            ],
+                            titleTerms: [],
+                        },
+                        10,
+                        0
+                    )
+            );
+            const queryConfigs = values.find(
+                (item): item is { sql: string; values: unknown[] } =>
+                    typeof item === 'object' && item !== null && 'sql' in item
+            );
+            return {
+                sql: sqlParts.join('?'),
+                query: queryConfigs?.sql.replace(/\s+/g, ' '),
+                term: queryConfigs?.values[0],
+            };
+        };
+
+        // 搜索 matches inside 搜索服务的文档, which is indexed as 搜索 索服 服务 务的 的文 文档
+        const word = await compile('搜索');
+        expect(word.query).toContain(
+            '(phraseto_tsquery(c.cfg, cjk_bigrams(?)))'
+        );
+        expect(word.term).toBe('搜索');
+        // best passage lookup splits chunk text the same way
+        expect(word.sql).toContain(
+            'to_tsvector(p.cfg, cjk_bigrams(dc."content"))'
+        );
+
+        const character = await compile('搜');
+        expect(character.query).toContain('(to_tsquery(c.cfg, ?))');
+        expect(character.term).toBe('搜:*');
+
+        const latin = await compile('réseau');
+        expect(latin.query).not.toContain('cjk_bigrams');
+        expect(latin.term).toBe('réseau:*');
+    });
+
+    test.each(['搜索服务', '搜索', 'réseau'])(
+        '%s passes the short query guard and reaches the repository',
+        async (q) => {
+            vi.mocked(db.search.lexicalSearchDocuments).mockClear();
+            vi.mocked(db.search.lexicalSearchDocuments).mockResolvedValueOnce({
+                items: [],
+                total: 0,
+            });
+            const app = searchAppFor(
+                createSearchService({
+                    embeddings: {
+                        name: 'local',
+                        model: 'test-model',
+                        dimensions: 4,
+                        embed: vi
+                            .fn()
+                            .mockResolvedValue([[0.5, 0.5, 0.5, 0.5]]),
+                    },
+                    reranker: createPassThroughReranker(),
+                })
+            );
+
+            const response = await request(app).get('/v1/search').query({ q });
+
+            expect(response.status).toBe(200);
+            expect(db.search.lexicalSearchDocuments).toHaveBeenCalledWith(
+                'tenant-1',
+                {
+                    groups: [[{ value: q, phrase: false, negated: false }]],
+                    titleTerms: [],
+                },
+                expect.anything(),
+                0,
+                undefined,
+                expect.anything(),
+                'english'
+            );
+        }
+    );
+});
+
+describe('Typo tolerance', () => {
+    const service = createSearchService({
+        reranker: createPassThroughReranker(),
+    });
+
+    test('misspelled queries fall back to trigram matches with a suggestion', async () => {
+        vi.mocked(db.tenant.getSearchSettings).mockResolvedValueOnce(null);
+        vi.mocked(db.search.lexicalSearchDocuments).mockResolvedValueOnce({
+            items: [],
+            total: 0,
+        });
+        vi.mocked(db.search.fuzzySearchDocuments).mockResolvedValueOnce([
+            {
+                id: 'doc-k8s',
+                title: 'Kubernetes deployment guide',
+                snippet: 'Deploying services to kubernetes ...',
+                score: 0.64,
+                passage: null,
+            },
+        ]);
+        vi.mocked(db.search.suggestTermCorrections).mockResolvedValueOnce([
+            { term: 'kuberentes', suggestion: 'kubernetes' },
+        ]);
+
+        const response = await service.lexicalSearch({
+            tenantId: 'tenant-1',
+            q: 'Kuberentes title:deploy',
+            limit: 10,
+            offset: 0,
+        });
+
+        expect(db.search.fuzzySearchDocuments).toHaveBeenLastCalledWith(
+            'tenant-1',
+            'Kuberentes deploy',
+            10,
+            undefined,
+            []
+        );
+        expect(response.total).toBe(1);
+        expect(response.items.map((item) => item.id)).toEqual(['doc-k8s']);
+        expect(response.didYouMean).toBe('kubernetes title:deploy');
+    });
+
+    test('exclusions skip the fuzzy fallback but still get suggestions', async () => {
+        vi.mocked(db.tenant.getSearchSettings).mockResolvedValueOnce(null);
+        vi.mocked(db.search.lexicalSearchDocuments).mockResolvedValueOnce({
+            items: [],
+            total: 0,
+        });
+        vi.mocked(db.search.fuzzySearchDocuments).mockClear();
+        vi.mocked(db.search.suggestTermCorrections).mockResolvedValueOnce([
+            { term: 'kuberentes', suggestion: 'kubernetes' },
+        ]);
+
+        const response = await service.lexicalSearch({
+            tenantId: 'tenant-1',
+            q: 'kuberentes -draft',
+            limit: 10,
+            offset: 0,
+        });
+
+        expect(db.search.fuzzySearchDocuments).not.toHaveBeenCalled();
+        expect(response.didYouMean).toBe('kubernetes -draft');
+    });
+
+    test('well matched queries skip the fallback', async () => {
+        vi.mocked(db.tenant.getSearchSettings).mockResolvedValueOnce(null);
+        vi.mocked(db.search.lexicalSearchDocuments).mockResolvedValueOnce({
+            items: [],
+            total: 25,
+        });
+        vi.mocked(db.search.suggestTermCorrections).mockClear();
+
+        const response = await service.lexicalSearch({
+            tenantId: 'tenant-1',
+            q: 'kubernetes',
+            limit: 10,
+            offset: 0,
+        });
+
+        expect(db.search.suggestTermCorrections).not.toHaveBeenCalled();
+        expect(response.didYouMean).toBeUndefined();
+    });
+});
+
+describe('Search suggestions', () => {
+    const service = createSearchService({
+        reranker: createPassThroughReranker(),
+    });
+
+    test('suggest returns title, tag and recent query completions', async () => {
+        vi.mocked(db.search.getSearchSuggestions).mockResolvedValueOnce({
+            documents: [{ id: 'doc-1', title: 'Kubernetes deployment guide' }],
+            tags: [{ id: 'tag-1', name: 'kubernetes', color: null }],
+            recentQueries: ['kubernetes ingress'],
+        });
+
+        const response = await service.suggest({
+            tenantId: 'tenant-1',
+            userId: 'user-1',
+            prefix: 'kube',
+            limit: 5,
+        });
+
+        expect(db.search.getSearchSuggestions).toHaveBeenLastCalledWith(
+            'tenant-1',
+            'user-1',
+            'kube',
+            5
+        );
+        expect(response).toEqual({
+            prefix: 'kube',
+            documents: [{ id: 'doc-1', title: 'Kubernetes deployment guide' }],
+            tags: [{ id: 'tag-1', name: 'kubernetes', color: null }],
+            recentQueries: ['kubernetes ingress'],
+        });
+    });
+});
+
+describe('Result passages', () => {
+    const service = createSearchService({
+        reranker: createPassThroughReranker(),
+    });
+
+    test('hits carry the heading breadcrumb and range of the best chunk', async () => {
+        vi.mocked(db.tenant.getSearchSettings).mockResolvedValueOnce(null);
+        vi.mocked(db.search.lexicalSearchDocuments).mockResolvedValueOnce({
+            items: [
+                {
+                    id: 'doc-runbook',
+                    title: 'Runbook',
+                    snippet: 'Roll back the <mark>deployment</mark> ...',
+                    score: 0.4,
+                    passage: {
+                        idx: 3,
+                        headingPath: ['Incidents', 'Rollbacks'],
+                        startPos: 1840,
+                        endPos: 2410,
+                    },
+                },
+                {
+                    id: 'doc-notes',
+                    title: 'Release notes',
+                    snippet: 'Each <mark>deployment</mark> ...',
+                    score: 0.3,
+                    passage: {
+                        idx: 0,
+                        headingPath: [],
+                        startPos: -1,
+                        endPos: -1,
+                    },
+                },
+            ],
+            total: 3,
+        });
+
+        const response = await service.lexicalSearch({
+            tenantId: 'tenant-1',
+            q: 'deployment',
+            limit: 10,
+            offset: 0,
+        });
+
+        expect(response.items[0]?.passage).toEqual({
+            headingPath: ['Incidents', 'Rollbacks'],
+            startPos: 1840,
+            endPos: 2410,
+        });
+        // unmapped ranges keep the breadcrumb only
+        expect(response.items[1]?.passage).toEqual({ headingPath: [] });
+    });
+});
+
+describe('Embedding providers', () => {
+    const cosine = (a: number[], b: number[]) =>
+        a.reduce((sum, value, i) => sum + value * (b[i] ?? 0), 0);
+
+    test('local provider is deterministic and unit length', async () => {
+        const provider = createLocalEmbeddingProvider({ dimensions: 64 });
+
+        const [first, second] = await provider.embed([
+            'Rolling back a kubernetes deployment',
+            'Rolling back a kubernetes deployment',
+        ]);
+
+        expect(first).toHaveLength(64);
+        expect(first).toEqual(second);
+        expect(cosine(first ?? [], first ?? [])).toBeCloseTo(1, 6);
+    });
+
+    test('local provider places shared vocabulary closer together', async () => {
+        const provider = createLocalEmbeddingProvider();
+
+        const [query, related, unrelated] = await provider.embed([
+            'kubernetes deployment rollback',
+            'How to roll back a failed kubernetes deployment',
+            'Quarterly marketing budget review',
+        ]);
+
+        expect(cosine(query ?? [], related ?? [])).toBeGreaterThan(
+            cosine(query ?? [], unrelated ?? [])
+        );
+    });
+
+    test('semantic search embeds queries with the configured provider', async () => {
+        const embed = vi.fn().mockResolvedValue([[0.5, 0.5, 0.5, 0.5]]);
+        const embeddings: EmbeddingProvider = {
+            name: 'local',
+            model: 'test-model',
+            dimensions: 4,
+            embed,
+        };
+        const service = createSearchService({ embeddings });
+
+        const result = await service.semanticSearch({
+            tenantId: 'tenant-1',
+            q: 'kubernetes rollback',
+            k: 5,
+            recall_k: 5,
+        });
+
+        expect(embed).toHaveBeenCalledWith(['kubernetes rollback'], {
+            inputType: 'query',
+        });
+        expect(db.search.findNearestChunks).toHaveBeenLastCalledWith(
+            'tenant-1',
+            [0.5, 0.5, 0.5, 0.5],
+            5,
+            undefined,
+            { model: 'local:test-model:4', shadow: false },
+            { efSearch: 100 }
+        );
+        expect(result.items).toEqual([]);
+    });
+});
+
+describe('Embedding model versioning', () => {
+    test('model ids round-trip, including model names containing colons', () => {
+        const id = embeddingModelId({
+            name: 'openai',
+            model: 'nomic-embed-text:latest',
+            dimensions: 768,
+        });
+
+        expect(id).toBe('openai:nomic-embed-text:latest:768');
+        expect(parseEmbeddingModelId(id)).toEqual({
+            provider: 'openai',
+            model: 'nomic-embed-text:latest',
+            dimensions: 768,
+        });
+        expect(() => parseEmbeddingModelId('cohere:embed-v3:1024')).toThrow();
+        expect(() => parseEmbeddingModelId('voyage:voyage-3.5')).toThrow();
+    });
+
+    test('tenants cut over to another model query its shadow vectors', async () => {
+        const embed = vi.fn().mockResolvedValue([[0.5, 0.5, 0.5, 0.5]]);
+        const primary: EmbeddingProvider = {
+            name: 'local',
+            model: 'test-model',
+            dimensions: 4,
+            embed,
+        };
+        const service = createSearchService({
+            embeddings: primary,
+            reranker: createPassThroughReranker(),
+        });
+        vi.mocked(db.tenant.getSearchSettings).mockResolvedValueOnce({
+            searchRankWeights: null,
+            textSearchConfig: 'english',
+            embeddingModel: 'local:local-hash-v1:8',
+            hybridFusion: null,
+            llmModel: null,
+        });
+
+        await service.semanticSearch({
+            tenantId: 'tenant-1',
+            q: 'kubernetes rollback',
+            k: 5,
+            recall_k: 5,
+        });
+
+        expect(embed).not.toHaveBeenCalled();
+        const [, vector, , , source] =
+            vi.mocked(db.search.findNearestChunks).mock.lastCall ?? [];
+        expect(vector).toHaveLength(8);
+        expect(source).toEqual({
+            model: 'local:local-hash-v1:8',
+            shadow: true,
+        });
+    });
+});
+
+describe('Hybrid fusion', () => {
+    const lexical = [
+        { id: 'doc-a', score: 0.9 },
+        { id: 'doc-b', score: 0.2 },
+        { id: 'doc-c', score: 0.1 },
+    ];
+    const semantic = [
+        { id: 'doc-c', score: 0.95 },
+        { id: 'doc-d', score: 0.6 },
+    ];
+    const order = (scores: Map<string, number>) =>
+        [...scores.entries()].sort((a, b) => b[1] - a[1]).map(([id]) => id);
+
+    test('rrf rewards documents found by both retrievers', () => {
+        const fused = fuseRankings(lexical, semantic, {
+            mode: 'rrf',
+            alpha: 0.5,
+            rrfK: 60,
+        });
+
+        expect(order(fused)[0]).toBe('doc-c');
+        expect(fused.get('doc-a')).toBeCloseTo(1 / 61, 6);
+    });
+
+    test('alpha shifts normalized blending between lexical and semantic', () => {
+        const lexicalHeavy = fuseRankings(lexical, semantic, {
+            mode: 'minmax',
+            alpha: 0.1,
+            rrfK: 60,
+        });
+        const semanticHeavy = fuseRankings(lexical, semantic, {
+            mode: 'zscore',
+            alpha: 0.9,
+            rrfK: 60,
+        });
+
+        expect(order(lexicalHeavy)[0]).toBe('doc-a');
+        expect(order(semanticHeavy)[0]).toBe('doc-c');
+    });
+
+    test('semantic_first ranks every semantic hit above lexical-only hits', () => {
+        const fused = fuseRankings(lexical, semantic, {
+            mode: 'semantic_first',
+            alpha: 0.5,
+            rrfK: 60,
+        });
+
+        expect(order(fused)).toEqual(['doc-c', 'doc-d', 'doc-a', 'doc-b']);
+    });
+});
+
+describe('Search explain', () => {
+    test('explain reports lexical ranks, semantic chunks and final scores', async () => {
+        const service = createSearchService({
+            embeddings: {
+                name: 'local',
+                model: 'test-model',
+                dimensions: 4,
+                embed: vi.fn().mockResolvedValue([[0.5, 0.5, 0.5, 0.5]]),
+            },
+            reranker: createPassThroughReranker(),
+        });
+        vi.mocked(db.search.lexicalSearchDocuments).mockResolvedValueOnce({
+            items: [
+                {
+                    id: 'doc-runbook',
+                    title: 'Runbook',
+                    snippet: 'Roll back the <mark>deployment</mark> ...',
+                    score: 0.4,
+                    passage: null,
+                },
+            ],
+            total: 1,
+        });
+        const chunk = (
+            documentId: string,
+            idx: number,
+            similarity: number
+        ) => ({
+            documentId,
+            idx,
+            content: `chunk ${idx} of ${documentId}`,
+            headingPath: null,
+            startPos: null,
+            endPos: null,
+            distance: 1 - similarity,
+            similarity,
+        });
+        vi.mocked(db.search.findNearestChunks).mockResolvedValueOnce([
+            chunk('doc-runbook', 2, 0.9),
+            chunk('doc-notes', 0, 0.7),
+        ]);
+
+        const response = await service.hybridSearch({
+            tenantId: 'tenant-1',
+            q: 'deployment rollback',
+            limit: 10,
+            offset: 0,
+            explain: true,
+        });
+
+        expect(response.explain?.semanticStatus).toBe('used');
+        expect(response.explain?.fusion.mode).toBe('rrf');
+        const runbook = response.explain?.items.find(
+            (item) => item.id === 'doc-runbook'
+        );
+        expect(runbook?.lexical).toEqual({ rank: 1, tsRank: 0.4 });
+        expect(runbook?.semantic).toMatchObject({
+            rank: 1,
+            chunkIdx: 2,
+            passedThreshold: true,
+        });
+        expect(runbook?.finalScore).toBe(response.items[0]?.score);
+        expect(
+            response.explain?.items.find((item) => item.id === 'doc-notes')
+                ?.lexical
+        ).toBeNull();
+    });
+});
+
+describe('Search filters', () => {
+    const service = createSearchService({
+        embeddings: {
+            name: 'local',
+            model: 'test-model',
+            dimensions: 4,
+            embed: vi.fn().mockResolvedValue([[0.5, 0.5, 0.5, 0.5]]),
+        },
+        reranker: createPassThroughReranker(),
+    });
+
+    // as the routes receive them: query string values, before coercion
+    const query = HybridSearchQuery.parse({
+        q: 'deployment rollback',
+        tagIds: 'tag-1,tag-2',
+        authorId: 'user-2',
+        updatedAfter: '2026-01-01T00:00:00.000Z',
+        updatedBefore: '2026-07-01T00:00:00.000Z',
+        favoritesOnly: 'true',
+    });
+    const filterOptions = {
+        tagIds: ['tag-1', 'tag-2'],
+        authorId: 'user-2',
+        updatedAfter: new Date('2026-01-01T00:00:00.000Z'),
+        updatedBefore: new Date('2026-07-01T00:00:00.000Z'),
+        favoritedByUserId: 'user-1',
+    };
+
+    test('lexical search passes every filter to the repository', async () => {
+        vi.mocked(db.search.lexicalSearchDocuments).mockResolvedValueOnce({
+            items: [],
+            total: 0,
+        });
+
+        await service.lexicalSearch({
+            tenantId: 'tenant-1',
+            userId: 'user-1',
+            q: query.q,
+            limit: 10,
+            offset: 0,
+            filters: {
+                tagIds: query.tagIds,
+                authorId: query.authorId,
+                updatedAfter: query.updatedAfter,
+                updatedBefore: query.updatedBefore,
+                favoritesOnly: query.favoritesOnly,
+            },
+        });
+
+        expect(db.search.lexicalSearchDocuments).toHaveBeenLastCalledWith(
+            'tenant-1',
+            expect.anything(),
+            10,
+            0,
+            filterOptions,
+            expect.anything(),
+            'english'
+        );
+    });
+
+    test('the lexical endpoint applies the filters from the query string', async () => {
+        vi.mocked(db.search.lexicalSearchDocuments).mockResolvedValueOnce({
+            items: [],
+            total: 0,
+        });
+
+        const response = await request(searchAppFor(service))
+            .get('/v1/lexical-search')
+            .query({
+                q: 'deployment rollback',
+                tagIds: 'tag-1,tag-2',
+                authorId: 'user-2',
+                updatedAfter: '2026-01-01T00:00:00.000Z',
+                updatedBefore: '2026-07-01T00:00:00.000Z',
+                favoritesOnly: 'true',
+            });
+
+        expect(response.status).toBe(200);
+        expect(db.search.lexicalSearchDocuments).toHaveBeenLastCalledWith(
+            'tenant-1',
+            expect.anything(),
+            10,
+            0,
+            filterOptions,
+            expect.anything(),
+            'english'
+        );
+    });
+
+    test('hybrid search filters both the lexical and semantic halves', async () => {
+        vi.mocked(db.search.lexicalSearchDocuments).mockResolvedValueOnce({
+            items: [],
+            total: 0,
+        });
+
+        await service.hybridSearch({
+            ...query,
+            tenantId: 'tenant-1',
+            userId: 'user-1',
+        });
+
+        expect(db.search.lexicalSearchDocuments).toHaveBeenLastCalledWith(
+            'tenant-1',
+            expect.anything(),
+            10,
+            0,
+            filterOptions,
+            expect.anything(),
+            'english'
+        );
+        expect(db.search.findNearestChunks).toHaveBeenLastCalledWith(
+            'tenant-1',
+            [0.5, 0.5, 0.5, 0.5],
+            30,
+            filterOptions,
+            expect.anything(),
+            expect.anything()
+        );
+    });
+
+    test('favoritesOnly resolves to the calling user', async () => {
+        vi.mocked(db.search.lexicalSearchDocuments).mockResolvedValueOnce({
+            items: [],
+            total: 0,
+        });
+
+        await service.hybridSearch({
+            ...query,
+            tenantId: 'tenant-1',
+            userId: 'user-3',
+        });
+
+        expect(db.search.lexicalSearchDocuments).toHaveBeenLastCalledWith(
+            'tenant-1',
+            expect.anything(),
+            10,
+            0,
+            { ...filterOptions, favoritedByUserId: 'user-3' },
+            expect.anything(),
+            'english'
+        );
+    });
+
+    test('favorites of the caller are not applied unless asked for', async () => {
+        vi.mocked(db.search.lexicalSearchDocuments).mockResolvedValueOnce({
+            items: [],
+            total: 0,
+        });
+
+        await service.hybridSearch({
+            ...query,
+            favoritesOnly: false,
+            tenantId: 'tenant-1',
+            userId: 'user-1',
+        });
+
+        expect(db.search.lexicalSearchDocuments).toHaveBeenLastCalledWith(
+            'tenant-1',
+            expect.anything(),
+            10,
+            0,
+            { ...filterOptions, favoritedByUserId: undefined },
+            expect.anything(),
+            'english'
+        );
+    });
+});
+
+describe('Search facets', () => {
+    const service = createSearchService({
+        embeddings: {
+            name: 'local',
+            model: 'test-model',
+            dimensions: 4,
+            embed: vi.fn().mockResolvedValue([[0.5, 0.5, 0.5, 0.5]]),
+        },
+        reranker: createPassThroughReranker(),
+    });
+    const facets = {
+        tags: [{ id: 'tag-1', name: 'runbooks', color: null, count: 3 }],
+        creators: [{ id: 'user-2', name: 'Ada', count: 3 }],
+        updatedAt: [{ bucket: 'week' as const, count: 3 }],
+    };
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+    const chunk = (documentId: string, similarity: number) => ({
+        documentId,
+        idx: 0,
+        content: `chunk of ${documentId}`,
+        headingPath: null,
+        startPos: null,
+        endPos: null,
+        distance: 1 - similarity,
+        similarity,
+    });
+
+    test('facets are counted over the whole match, not the returned page', async () => {
+        vi.mocked(db.search.lexicalSearchDocuments).mockResolvedValueOnce({
+            items: [
+                {
+                    id: 'doc-runbook',
+                    title: 'Runbook',
+                    snippet: 'Roll back the <mark>deployment</mark> ...',
+                    score: 0.4,
+                    passage: null,
+                },
+            ],
+            total: 2,
+        });
+        vi.mocked(db.search.getSearchFacets).mockResolvedValueOnce(facets);
+
+        const response = await service.hybridSearch({
+            tenantId: 'tenant-1',
+            userId: 'user-1',
+            q: 'deployment rollback',
+            limit: 1,
+            offset: 0,
+            includeFacets: true,
+        });
+
+        expect(response.items).toHaveLength(1);
+        expect(response.facets).toEqual(facets);
+        // the repository gets the query itself, not the ids on this page
+        expect(db.search.getSearchFacets).toHaveBeenLastCalledWith(
+            'tenant-1',
+            {
+                groups: [
+                    [{ value: 'deployment', phrase: false, negated: false }],
+                    [{ value: 'rollback', phrase: false, negated: false }],
+                ],
+                titleTerms: [],
+            },
+            undefined,
+            [],
+            'english',
+            expect.anything()
+        );
+    });
+
+    test('a date facet counts exactly what selecting it returns', async () => {
+        vi.useFakeTimers({
+            now: new Date('2026-10-19T12:00:00Z'),
+            toFake: ['Date'],
+        });
+        const runbook = {
+            id: 'doc-runbook',
+            title: 'Runbook',
+            snippet: null,
+            score: 0.4,
+            passage: null,
+        };
+        vi.mocked(db.search.lexicalSearchDocuments).mockResolvedValueOnce({
+            items: [runbook],
+            total: 1,
+        });
+        vi.mocked(db.search.getSearchFacets).mockResolvedValueOnce(facets);
+
+        await service.hybridSearch({
+            tenantId: 'tenant-1',
+            userId: 'user-1',
+            q: 'deployment rollback',
+            limit: 10,
+            offset: 0,
+            includeFacets: true,
+        });
+
+        // windows are cumulative: a document edited today is in day, week, month and year
+        const ranges = vi.mocked(db.search.getSearchFacets).mock.lastCall?.[5];
+        expect(ranges).toEqual({
+            day: { updatedAfter: new Date('2026-10-18T12:00:00Z') },
+            week: { updatedAfter: new Date('2026-10-12T12:00:00Z') },
+            month: { updatedAfter: new Date('2026-09-19T12:00:00Z') },
+            year: { updatedAfter: new Date('2025-10-19T12:00:00Z') },
+            older: { updatedBefore: new Date('2025-10-19T12:00:00Z') },
+        });
+
+        // selecting the week chip sends the same window back as a filter
+        const week = updatedAtBucketRange('week');
+        vi.mocked(db.search.lexicalSearchDocuments).mockResolvedValueOnce({
+            items: [runbook],
+            total: 1,
+        });
+        await service.hybridSearch({
+            ...HybridSearchQuery.parse({
+                q: 'deployment rollback',
+                updatedAfter: week.updatedAfter?.toISOString(),
+            }),
+            tenantId: 'tenant-1',
+            userId: 'user-1',
+        });
+
+        expect(db.search.lexicalSearchDocuments).toHaveBeenLastCalledWith(
+            'tenant-1',
+            expect.anything(),
+            10,
+            0,
+            expect.objectContaining(ranges?.week),
+            expect.anything(),
+            'english'
+        );
+    });
+
+    test('semantic-only hits count towards the facets', async () => {
+        vi.mocked(db.search.lexicalSearchDocuments).mockResolvedValueOnce({
+            items: [
+                {
+                    id: 'doc-runbook',
+                    title: 'Runbook',
+                    snippet: 'Roll back the <mark>deployment</mark> ...',
+                    score: 0.4,
+                    passage: null,
+                },
+            ],
+            total: 1,
+        });
+        vi.mocked(db.search.findNearestChunks).mockResolvedValueOnce([
+            chunk('doc-runbook', 0.9),
+            chunk('doc-notes', 0.8),
+        ]);
+        vi.mocked(db.search.getSearchFacets).mockResolvedValueOnce(facets);
+
+        await service.hybridSearch({
+            tenantId: 'tenant-1',
+            userId: 'user-1',
+            q: 'deployment rollback',
+            limit: 10,
+            offset: 0,
+            includeFacets: true,
+        });
+
+        expect(db.search.getSearchFacets).toHaveBeenLastCalledWith(
+            'tenant-1',
+            expect.anything(),
+            undefined,
+            ['doc-runbook', 'doc-notes'],
+            'english',
+            expect.anything()
+        );
+    });
+
+    test('facets are only loaded when asked for', async () => {
+        vi.mocked(db.search.getSearchFacets).mockClear();
+        vi.mocked(db.search.lexicalSearchDocuments).mockResolvedValueOnce({
+            items: [
+                {
+                    id: 'doc-runbook',
+                    title: 'Runbook',
+                    snippet: null,
+                    score: 0.4,
+                    passage: null,
+                },
+            ],
+            total: 1,
+        });
+
+        const response = await service.hybridSearch({
+            tenantId: 'tenant-1',
+            userId: 'user-1',
+            q: 'deployment rollback',
+            limit: 10,
+            offset: 0,
+        });
+
+        expect(response.facets).toBeUndefined();
+        expect(db.search.getSearchFacets).not.toHaveBeenCalled();
+    });
+});
+
+describe('Vector index recommendations', () => {
+    test('tenants get an index once they reach the threshold', () => {
+        expect(
+            recommendVectorIndexAction({
+                chunkCount: 19999,
+                threshold: 20000,
+                tenantIndex: null,
+            })
+        ).toBe('ok');
+        expect(
+            recommendVectorIndexAction({
+                chunkCount: 20000,
+                threshold: 20000,
+                tenantIndex: null,
+            })
+        ).toBe('create_tenant_index');
+    });
+
+    test('indexes are only dropped well below the threshold', () => {
+        const tenantIndex = { valid: true };
+
+        expect(
+            recommendVectorIndexAction({
+                chunkCount: 15000,
+                threshold: 20000,
+                tenantIndex,
+            })
+        ).toBe('ok');
+        expect(
+            recommendVectorIndexAction({
+                chunkCount: 9000,
+                threshold: 20000,
+                tenantIndex,
+            })
+        ).toBe('drop_tenant_index');
+        expect(
+            recommendVectorIndexAction({
+                chunkCount: 50000,
+                threshold: 20000,
+                tenantIndex: { valid: false },
+            })
+        ).toBe('rebuild_invalid_index');
+    });
+});
+
+describe('Search cache', () => {
+    const createMemoryStore = (): CacheStore => {
+        const entries = new Map<string, string>();
+        return {
+            get: (key) => Promise.resolve(entries.get(key) ?? null),
+            set: (key, value) => {
+                entries.set(key, value);
+                return Promise.resolve();
+            },
+        };
+    };
+
+    test('repeated queries reuse the cached embedding unless bypassed', async () => {
+        const embed = vi.fn().mockResolvedValue([[0.25, 0.5, 0.75, 1]]);
+        const service = createSearchService({
+            embeddings: {
+                name: 'local',
+                model: 'test-model',
+                dimensions: 4,
+                embed,
+            },
+            reranker: createPassThroughReranker(),
+            cache: createSearchCache({
+                store: createMemoryStore(),
+                ttlSeconds: 60,
+            }),
+        });
+        const query = {
+            tenantId: 'tenant-1',
+            q: 'rollback',
+            k: 5,
+            recall_k: 5,
+        };
+
+        await service.semanticSearch(query);
+        await service.semanticSearch(query);
+        expect(embed).toHaveBeenCalledTimes(1);
+        expect(
+            vi.mocked(db.search.findNearestChunks).mock.lastCall?.[1]
+        ).toEqual([0.25, 0.5, 0.75, 1]);
+
+        await service.semanticSearch({ ...query, bypassCache: true });
+        expect(embed).toHaveBeenCalledTimes(2);
+    });
+
+    test('related documents reuse the document vector until the content changes', async () => {
+        const service = createSearchService({
+            embeddings: createLocalEmbeddingProvider({ dimensions: 4 }),
+            reranker: createPassThroughReranker(),
+            cache: createSearchCache({
+                store: createMemoryStore(),
+                ttlSeconds: 60,
+            }),
+        });
+        vi.mocked(db.document.findUnique).mockResolvedValue({
+            id: 'doc-1',
+            tenantId: 'tenant-1',
+            title: 'Runbook',
+            content: 'rollback steps',
+        });
+        vi.mocked(db.documentIndexState.findUnique).mockResolvedValue({
+            lastChecksum: 'checksum-1',
+        });
+        vi.mocked(db.search.getDocumentVector).mockResolvedValue([
+            0.5, 0.5, 0, 0,
+        ]);
+        vi.mocked(db.search.findRelatedDocuments).mockResolvedValue([
+            { documentId: 'doc-2', title: 'Postmortem', score: 0.8 },
+        ]);
+        const query = { tenantId: 'tenant-1', documentId: 'doc-1', limit: 5 };
+
+        await expect(service.relatedDocuments(query)).resolves.toEqual({
+            items: [{ id: 'doc-2', title: 'Postmortem', score: 0.8 }],
+            status: 'ok',
+        });
+        await service.relatedDocuments(query);
+        expect(db.search.getDocumentVector).toHaveBeenCalledTimes(1);
+
+        vi.mocked(db.documentIndexState.findUnique).mockResolvedValue({
+            lastChecksum: 'checksum-2',
+        });
+        await service.relatedDocuments(query);
+        expect(db.search.getDocumentVector).toHaveBeenCalledTimes(2);
+
+        // documents from other tenants are reported as missing
+        await expect(
+            service.relatedDocuments({ ...query, tenantId: 'tenant-2' })
+        ).resolves.toBeNull();
+    });
+
+    test('store failures are treated as misses', async () => {
+        const cache = createSearchCache({
+            store: {
+                get: () => Promise.reject(new Error('connection lost')),
+                set: () => Promise.reject(new Error('connection lost')),
+            },
+            ttlSeconds: 60,
+        });
+
+        await expect(
+            cache.setQueryEmbedding('local:test-model:4', 'rollback', [1, 0])
+        ).resolves.toBeUndefined();
+        await expect(
+            cache.getQueryEmbedding('local:test-model:4', 'rollback')
+        ).resolves.toBeNull();
+    });
+});
+
+describe('Rerankers', () => {
+    const candidate = (idx: number, content: string, similarity: number) => ({
+        documentId: `doc-${idx}`,
+        idx: 0,
+        content,
+        headingPath: null,
+        startPos: null,
+        endPos: null,
+        distance: 1 - similarity,
+        similarity,
+    });
+
+    test('bm25 promotes candidates that contain the query terms', async () => {
+        const reranker = createBm25Reranker();
+
+        const results = await reranker.rerank(
+            'rollback deployment',
+            [
+                'Quarterly planning notes',
+                'How to rollback a failed deployment',
+                'Deployment checklist',
+            ],
+            { priorScores: [0.6, 0.5, 0.5] }
+        );
+
+        expect(results.map((result) => result.index)).toEqual([1, 2, 0]);
+    });
+
+    test('failing reranker falls back to vector order without thresholds', async () => {
+        vi.mocked(db.search.findNearestChunks).mockResolvedValueOnce([
+            candidate(1, 'closest chunk', 0.2),
+            candidate(2, 'second chunk', 0.1),
+        ]);
+        vi.mocked(db.search.getDocumentTitlesByIds).mockResolvedValueOnce([
+            { id: 'doc-1', title: 'First' },
+            { id: 'doc-2', title: 'Second' },
+        ]);
+        const rerank = vi.fn().mockRejectedValue(new Error('voyage down'));
+        const service = createSearchService({
+            embeddings: createLocalEmbeddingProvider({ dimensions: 8 }),
+            reranker: { name: 'voyage', calibrated: true, rerank },
+        });
+
+        const result = await service.semanticSearch({
+            tenantId: 'tenant-1',
+            q: 'closest',
+            k: 5,
+            recall_k: 5,
+        });
+
+        expect(rerank).toHaveBeenCalled();
+        expect(result.calibrated).toBe(false);
+        expect(result.items.map((item) => item.documentId)).toEqual([
+            'doc-1',
+            'doc-2',
+        ]);
+        expect(service.isSemanticSearchAvailable()).toBe(true);
+    });
+});
+
+describe('Saved searches', () => {
+    const context = { tenantId: 'tenant-1', userId: 'user-1' };
+    const service = createSavedSearchService();
+
+    test('compiles the query and filters when saving', async () => {
+        const now = new Date('2026-01-05T00:00:00.000Z');
+        vi.mocked(db.savedSearch.create).mockResolvedValueOnce({
+            id: 'saved-1',
+            tenantId: 'tenant-1',
+            userId: 'user-1',
+            name: 'Postmortems',
+            query: 'postmortem tag:incidents',
+            filters: { favoritesOnly: true },
+            textQuery: {},
+            filterOptions: {},
+            lastRunAt: null,
+            createdAt: now,
+            updatedAt: now,
+            _count: { matches: 0 },
+        });
+
+        const savedSearch = await service.create(
+            {
+                name: 'Postmortems',
+                q: 'postmortem tag:incidents',
+                filters: { favoritesOnly: true },
+            },
+            context
+        );
+
+        const [owner, input] =
+            vi.mocked(db.savedSearch.create).mock.lastCall ?? [];
+        expect(owner).toEqual(context);
+        expect(input?.textQuery).toEqual({
+            groups: [[{ value: 'postmortem', phrase: false, negated: false }]],
+            titleTerms: [],
+        });
+        // query prefixes and request filters are merged; favorites resolve to the owner
+        expect(input?.filterOptions).toMatchObject({
+            tagNames: ['incidents'],
+            favoritedByUserId: 'user-1',
+        });
+        expect(savedSearch).toMatchObject({
+            id: 'saved-1',
+            q: 'postmortem tag:incidents',
+            newMatchCount: 0,
+            lastRunAt: null,
+        });
+    });
+
+    test('rejects invalid query syntax before saving', async () => {
+        vi.mocked(db.savedSearch.create).mockClear();
+
+        await expect(
+            service.create({ name: 'Broken', q: '"unterminated' }, context)
+        ).rejects.toMatchObject({ code: 'INVALID_SEARCH_QUERY' });
+        expect(db.savedSearch.create).not.toHaveBeenCalled();
+    });
+});
+
+describe('Duplicate documents', () => {
+    const context = { tenantId: 'tenant-1', userId: 'user-1' };
+    const service = createDuplicateService();
+    const detectedAt = new Date('2026-01-05T00:00:00.000Z');
+    const pairDocument = (id: string) => ({
+        id,
+        title: `Runbook ${id}`,
+        updatedAt: detectedAt,
+        createdBy: { name: 'Ada' },
+    });
+    const pair = {
+        id: 'dup-1',
+        tenantId: 'tenant-1',
+        documentId: 'doc-a',
+        duplicateId: 'doc-b',
+        similarity: 0.93,
+        exactMatch: false,
+        status: 'open' as const,
+        detectedAt,
+        updatedAt: detectedAt,
+        resolvedAt: null,
+        document: pairDocument('doc-a'),
+        duplicate: pairDocument('doc-b'),
+    };
+
+    test('merging archives the other document of the pair', async () => {
+        vi.mocked(db.documentDuplicate.findById)
+            .mockResolvedValueOnce(pair)
+            .mockResolvedValueOnce({
+                ...pair,
+                status: 'resolved',
+                resolvedAt: detectedAt,
+            });
+        vi.mocked(db.documentDuplicate.resolve).mockResolvedValueOnce(true);
+
+        const duplicate = await service.resolve(
+            'dup-1',
+            { action: 'merge', keepDocumentId: 'doc-b' },
+            context
+        );
+
+        expect(db.documentDuplicate.resolve).toHaveBeenCalledWith(
+            'dup-1',
+            'tenant-1',
+            {
+                keepDocumentId: 'doc-b',
+                archiveDocumentId: 'doc-a',
+                merge: true,
+                userId: 'user-1',
+            }
+        );
+        expect(duplicate.status).toBe('resolved');
+        expect(duplicate.documents.map((document) => document.id)).toEqual([
+            'doc-a',
+            'doc-b',
+        ]);
+    });
+
+    test('rejects keeping a document outside the pair', async () => {
+        vi.mocked(db.documentDuplicate.resolve).mockClear();
+        vi.mocked(db.documentDuplicate.findById).mockResolvedValueOnce(pair);
+
+        await expect(
+            service.resolve(
+                'dup-1',
+                { action: 'archive', keepDocumentId: 'doc-c' },
+                context
+            )
+        ).rejects.toMatchObject({ code: 'DUPLICATE_KEEP_INVALID' });
+        expect(db.documentDuplicate.resolve).not.toHaveBeenCalled();
+    });
+});
+
+describe('Document summaries', () => {
+    const context = { tenantId: 'tenant-1', userId: 'user-1' };
+    const service = createDocumentService();
+    const addJob = vi.spyOn(summaryQueue, 'add');
+    const document = (tenantId: string) => ({
+        id: 'doc-1',
+        tenantId,
+        title: 'Runbook',
+        content: 'Restart the worker when the queue stalls.',
+    });
+
+    test('regenerating queues a summary job that ignores the checksum', async () => {
+        vi.mocked(
+            db.tenantMembership.findMembershipByUserIdAndTenantId
+        ).mockResolvedValueOnce({ role: 'member' } as never);
+        vi.mocked(db.document.findUnique).mockResolvedValueOnce(
+            document('tenant-1')
+        );
+        addJob.mockResolvedValueOnce({
+            id: 'summary-job',
+        } as never);
+
+        const jobId = await service.queueSummaryRegeneration('doc-1', context);
+
+        expect(addJob).toHaveBeenLastCalledWith(
+            'summarize-document',
+            { tenantId: 'tenant-1', documentId: 'doc-1', force: true },
+            expect.objectContaining({ attempts: 3 })
+        );
+        expect(jobId).toBe('summary-job');
+    });
+
+    test('rejects documents from another workspace', async () => {
+        addJob.mockClear();
+        vi.mocked(
+            db.tenantMembership.findMembershipByUserIdAndTenantId
+        ).mockResolvedValueOnce({ role: 'member' } as never);
+        vi.mocked(db.document.findUnique).mockResolvedValueOnce(
+            document('tenant-2')
+        );
+
+        await expect(
+            service.queueSummaryRegeneration('doc-1', context)
+        ).rejects.toMatchObject({ code: 'DOCUMENT_NOT_FOUND' });
+        expect(addJob).not.toHaveBeenCalled();
+    });
+
+    test('is refused when the tenant budget cannot cover it', async () => {
+        addJob.mockClear();
+        vi.mocked(
+            db.tenantMembership.findMembershipByUserIdAndTenantId
+        ).mockResolvedValueOnce({ role: 'member' } as never);
+        vi.mocked(db.document.findUnique).mockResolvedValueOnce(
+            document('tenant-1')
+        );
+        // well below SUMMARY_DAILY_TOKEN_BUDGET, which the tenant overrides
+        vi.mocked(db.tenant.getSummaryTokenBudget).mockResolvedValueOnce(1000);
+        vi.mocked(db.tokenUsage.getDailyUsage).mockResolvedValueOnce(900);
+
+        await expect(
+            service.queueSummaryRegeneration('doc-1', context)
+        ).rejects.toMatchObject({
+            code: 'SUMMARY_BUDGET_EXHAUSTED',
+            statusCode: 429,
+        });
+        expect(db.tokenUsage.getDailyUsage).toHaveBeenLastCalledWith(
+            'tenant-1',
+            'summary'
+        );
+        expect(addJob).not.toHaveBeenCalled();
+    });
+
+    test('is refused when summaries are disabled for the tenant', async () => {
+        addJob.mockClear();
+        vi.mocked(
+            db.tenantMembership.findMembershipByUserIdAndTenantId
+        ).mockResolvedValueOnce({ role: 'member' } as never);
+        vi.mocked(db.document.findUnique).mockResolvedValueOnce(
+            document('tenant-1')
+        );
+        vi.mocked(db.tenant.getSummaryTokenBudget).mockResolvedValueOnce(0);
+
+        await expect(
+            service.queueSummaryRegeneration('doc-1', context)
+        ).rejects.toMatchObject({
+            code: 'SUMMARY_BUDGET_EXHAUSTED',
+            message: 'Document summaries are disabled for this workspace',
+        });
+        expect(addJob).not.toHaveBeenCalled();
+    });
+});
+
+describe('Workspace digests', () => {
+    // tenant routes behind a stand-in for the session middleware
+    const appFor = (userId: string) => {
+        const app = express();
+        app.use((req, _res, next) => {
+            (req as AuthenticatedRequest).session = {
+                userId,
+            } as AuthenticatedRequest['session'];
+            next();
+        });
+        app.use('/v1/tenants', tenantRoutes());
+        app.use(errorHandlerMiddleware);
+        return app;
+    };
+    const activity = {
+        documentsCreated: 1,
+        documentsUpdated: 2,
+        searches: 14,
+        overdueReminders: 1,
+        documents: [
+            {
+                id: 'doc-1',
+                title: 'Runbook',
+                change: 'created',
+                updatedAt: '2026-10-14T09:30:00.000Z',
+            },
+        ],
+        topSearches: [{ query: 'deploy', count: 6 }],
+        reminders: [
+            {
+                documentId: 'doc-2',
+                documentTitle: 'Release plan',
+                whenText: 'next Friday',
+                dueAt: '2026-10-09T09:00:00.000Z',
+            },
+        ],
+    };
+
+    test('non-members are refused', async () => {
+        vi.mocked(db.workspaceDigest.listForTenant).mockClear();
+        vi.mocked(db.tenant.listForUser).mockResolvedValueOnce([
+            { tenantId: 'tenant-2', tenantName: 'Other', role: 'owner' },
+        ]);
+
+        const response = await request(appFor('user-1')).get(
+            '/v1/tenants/tenant-1/digests'
+        );
+
+        expect(response.status).toBe(403);
+        expect((response.body as ErrorBody).error.code).toBe(
+            'TENANT_ACCESS_DENIED'
+        );
+        expect(db.workspaceDigest.listForTenant).not.toHaveBeenCalled();
+    });
+
+    test('members get the most recent digests', async () => {
+        vi.mocked(db.tenant.listForUser).mockResolvedValueOnce([
+            { tenantId: 'tenant-1', tenantName: 'Acme', role: 'member' },
+        ]);
+        vi.mocked(db.workspaceDigest.listForTenant).mockResolvedValueOnce([
+            {
+                id: 'digest-1',
+                tenantId: 'tenant-1',
+                periodStart: new Date('2026-10-12T00:00:00Z'),
+                periodEnd: new Date('2026-10-19T00:00:00Z'),
+                summary: 'The runbook was rewritten.',
+                activity,
+                model: 'llama-3.1-8b-instant',
+                createdAt: new Date('2026-10-19T06:00:05Z'),
+            },
+        ]);
+
+        const response = await request(appFor('user-1')).get(
+            '/v1/tenants/tenant-1/digests?limit=2'
+        );
+
+        expect(response.status).toBe(200);
+        expect(db.workspaceDigest.listForTenant).toHaveBeenLastCalledWith(
+            'tenant-1',
+            2
+        );
+        expect(response.body).toEqual({
+            digests: [
+                {
+                    id: 'digest-1',
+                    periodStart: '2026-10-12T00:00:00.000Z',
+                    periodEnd: '2026-10-19T00:00:00.000Z',
+                    summary: 'The runbook was rewritten.',
+                    activity,
+                    createdAt: '2026-10-19T06:00:05.000Z',
+                },
+            ],
+        });
+    });
+
+    test('lists the last four weeks unless asked for more', () => {
+        expect(ListDigestsQuery.parse({}).limit).toBe(4);
+        expect(ListDigestsQuery.parse({ limit: '12' }).limit).toBe(12);
+        expect(ListDigestsQuery.safeParse({ limit: '53' }).success).toBe(false);
+    });
+
+    test('stored activity round-trips through the response schema', () => {
+        expect(WorkspaceDigestActivitySchema.parse(activity)).toEqual(activity);
+        expect(
+            WorkspaceDigestActivitySchema.safeParse({
+                ...activity,
+                documents: [{ ...activity.documents[0], change: 'deleted' }],
+            }).success
+        ).toBe(false);
+    });
+});
+
+describe('Q&A streaming', () => {
+    const searchService = {
+        retrieveContextChunks: vi.fn().mockResolvedValue({
+            semanticStatus: 'used',
+            items: [
+                {
+                    documentId: 'doc-1',
+                    documentTitle: 'Binary search',
+                    idx: 0,
+                    content: 'Loop while lo < hi.',
+                    score: 0.9,
+                },
+                {
+                    documentId: 'doc-2',
+                    documentTitle: 'Sorting',
+                    idx: 0,
+                    content: 'Sort before searching.',
+                    score: 0.7,
+                },
+            ],
+        }),
+    } as unknown as SearchService;
+    const llm = createScriptedLlmProvider();
+    const service = createQaService({ searchService, llm });
+    const question = {
+        tenantId: 'tenant-1',
+        question: 'How do I search a list?',
+        k: 5,
+        recall_k: 15,
+        maxSources: 5,
+        contextTokens: 2000,
+    };
+
+    test('emits sources, answer deltas, then the cited sources', async () => {
+        llm.enqueue(['Sort it first', ' [2].']);
+
+        const events = [];
+        for await (const event of service.streamAnswer(question)) {
+            events.push(event);
+        }
+
+        expect(events.map((event) => event.type)).toEqual([
+            'sources',
+            'delta',
+            'delta',
+            'citations',
+        ]);
+        const citations = events.at(-1);
+        expect(citations).toMatchObject({
+            type: 'citations',
+            noContext: false,
+        });
+        expect(
+            citations?.type === 'citations'
+                ? citations.sources.map((source) => source.id)
+                : []
+        ).toEqual(['doc-2']);
+    });
+
+    test('maps answer sentences to supporting spans and flags the rest', async () => {
+        const chunk = (id: string, content: string) => ({
+            id,
+            idx: 0,
+            content,
+            startPos: 0,
+            endPos: content.length,
+        });
+        vi.mocked(db.search.getAdjacentChunks)
+            .mockResolvedValueOnce([
+                chunk(
+                    'chunk-1',
+                    'Loop while lo < hi. Binary search halves the search range each step.'
+                ),
+            ])
+            .mockResolvedValueOnce([
+                chunk('chunk-2', 'Sort the list before searching.'),
+            ]);
+        llm.enqueue([
+            'Sort the list before searching it [2]. ',
+            'Binary search halves the range each step [1]. ',
+            'Interpolation search beats it on uniform data [1].',
+        ]);
+
+        let citations: QaStreamEvent | undefined;
+        for await (const event of service.streamAnswer(question)) {
+            citations = event;
+        }
+
+        const claims = citations?.type === 'citations' ? citations.claims : [];
+        expect(claims.map((claim) => claim.supported)).toEqual([
+            true,
+            true,
+            false,
+        ]);
+        expect(claims[1]?.span).toMatchObject({
+            documentId: 'doc-1',
+            chunkId: 'chunk-1',
+            text: 'Binary search halves the search range each step.',
+            start: 20,
+        });
+        expect(citations).toMatchObject({ groundedness: 0.67 });
+    });
+
+    test('stops generating when the signal is aborted', async () => {
+        const controller = new AbortController();
+        llm.enqueue(['Sort', ' never sent']);
+
+        const types: string[] = [];
+        await expect(
+            (async () => {
+                for await (const event of service.streamAnswer(
+                    question,
+                    controller.signal
+                )) {
+                    types.push(event.type);
+                    if (event.type === 'delta') {
+                        controller.abort();
+                    }
+                }
+            })()
+        ).rejects.toThrow();
+        expect(types).toEqual(['sources', 'delta']);
+    });
+});
+
+describe('Q&A threads', () => {
+    const retrieveContextChunks = vi.fn().mockResolvedValue({
+        semanticStatus: 'used',
+        items: [
+            {
+                documentId: 'doc-staging',
+                documentTitle: 'Staging deploys',
+                idx: 0,
+                content: 'Staging deploys run from the release branch.',
+                score: 0.8,
+            },
+        ],
+    });
+    const llm = createScriptedLlmProvider();
+    const qaService = createQaService({
+        searchService: { retrieveContextChunks } as unknown as SearchService,
+        llm,
+    });
+    const service = createQaThreadService({ qaService });
+    const owner = { tenantId: 'tenant-1', userId: 'user-1' };
+    const createdAt = new Date('2026-10-01T10:00:00Z');
+    const message = (
+        role: 'user' | 'assistant',
+        content: string,
+        extra: { retrievalQuery?: string; citations?: unknown } = {}
+    ) => ({
+        id: `${role}-${content.length}`,
+        threadId: 'thread-1',
+        role,
+        content,
+        retrievalQuery: extra.retrievalQuery ?? null,
+        citations: extra.citations ?? null,
+        noContext: false,
+        createdAt,
+    });
+
+    test('rewrites a follow-up into a standalone retrieval query', async () => {
+        vi.mocked(db.qaThread.findById).mockResolvedValueOnce({
+            id: 'thread-1',
+            tenantId: owner.tenantId,
+            userId: owner.userId,
+            title: 'How do deploys work?',
+            createdAt,
+            updatedAt: createdAt,
+            _count: { messages: 2 },
+        });
+        vi.mocked(db.qaThread.recentMessages).mockResolvedValueOnce([
+            message('user', 'How do deploys work?'),
+            message('assistant', 'Deploys are triggered by merging to main.'),
+        ] as never);
+        vi.mocked(db.qaThread.appendExchange).mockImplementationOnce(
+            (_threadId, input) =>
+                Promise.resolve({
+                    question: message('user', input.question),
+                    answer: message('assistant', input.answer, {
+                        retrievalQuery: input.retrievalQuery,
+                        citations: input.citations,
+                    }),
+                }) as never
+        );
+        llm.enqueue(
+            'How do deploys work on staging?\n',
+            JSON.stringify({
+                answer: 'From the release branch [1].',
+                citations: [1],
+                noContext: false,
+            })
+        );
+
+        const response = await service.postMessage(
+            'thread-1',
+            {
+                question: 'and how does that apply to staging?',
+                k: 5,
+                recall_k: 15,
+                maxSources: 5,
+                contextTokens: 2000,
+            },
+            owner
+        );
+
+        expect(retrieveContextChunks).toHaveBeenLastCalledWith(
+            expect.objectContaining({ q: 'how do deploys work on staging?' })
+        );
+        const [, exchange] =
+            vi.mocked(db.qaThread.appendExchange).mock.lastCall ?? [];
+        expect(exchange).toMatchObject({
+            question: 'and how does that apply to staging?',
+            retrievalQuery: 'How do deploys work on staging?',
+        });
+        expect(response.answer.citations.map((source) => source.id)).toEqual([
+            'doc-staging',
+        ]);
+    });
+
+    test('rejects a thread the caller does not own', async () => {
+        vi.mocked(db.qaThread.findById).mockResolvedValueOnce(null);
+
+        await expect(
+            service.postMessage(
+                'missing',
+                {
+                    question: 'Anything?',
+                    k: 5,
+                    recall_k: 15,
+                    maxSources: 5,
+                    contextTokens: 2000,
+                },
+                owner
+            )
+        ).rejects.toMatchObject({ code: 'QA_THREAD_NOT_FOUND' });
+    });
+});
+
+describe('Q&A retrieval', () => {
+    const chunk = (documentId: string, content: string, score: number) => ({
+        chunkId: `${documentId}-chunk`,
+        documentId,
+        documentTitle: documentId,
+        idx: 0,
+        content,
+        headingPath: null,
+        startPos: null,
+        endPos: null,
+        score,
+    });
+
+    test('falls back to lexical chunks while the semantic breaker is open', async () => {
+        const breaker = new CircuitBreaker({
+            failureThreshold: 1,
+            resetTimeoutMs: 60_000,
+            halfOpenTimeoutMs: 60_000,
+        });
+        breaker.recordFailure();
+        const embeddings = createLocalEmbeddingProvider();
+        const embed = vi.spyOn(embeddings, 'embed');
+        const searchService = createSearchService({
+            embeddings,
+            reranker: createPassThroughReranker(),
+            breaker,
+        });
+        vi.mocked(db.tenant.getSearchSettings).mockResolvedValueOnce(null);
+        vi.mocked(db.search.lexicalSearchChunks).mockResolvedValueOnce([
+            chunk('doc-runbook', 'ERR-4012 means the token expired.', 0.4),
+            chunk('doc-faq', 'Tokens last an hour.', 0.1),
+        ]);
+
+        const result = await searchService.retrieveContextChunks({
+            tenantId: 'tenant-1',
+            q: 'what does err-4012 mean?',
+            textQuery: {
+                groups: [
+                    [{ value: 'ERR-4012', phrase: false, negated: false }],
+                ],
+                titleTerms: [],
+            },
+            k: 5,
+            recall_k: 15,
+        });
+
+        expect(result.semanticStatus).toBe('unavailable');
+        expect(embed).not.toHaveBeenCalled();
+        expect(result.items.map((item) => item.documentId)).toEqual([
+            'doc-runbook',
+            'doc-faq',
+        ]);
+    });
+
+    test('adds sources best first while they fit the token budget', async () => {
+        const long = 'x'.repeat(800); // ~200 tokens
+        const service = createQaService({
+            searchService: {
+                retrieveContextChunks: vi.fn().mockResolvedValue({
+                    semanticStatus: 'used',
+                    items: [
+                        chunk('doc-a', long, 0.9),
+                        chunk('doc-b', long, 0.8),
+                        chunk('doc-c', 'short', 0.7),
+                    ],
+                }),
+            } as unknown as SearchService,
+            llm: createScriptedLlmProvider({
+                replies: ['Context is insufficient.'],
+            }),
+        });
+
+        const sourceIds: string[] = [];
+        for await (const event of service.streamAnswer({
+            tenantId: 'tenant-1',
+            question: 'Which one?',
+            k: 5,
+            recall_k: 15,
+            maxSources: 10,
+            contextTokens: 300,
+        })) {
+            if (event.type === 'sources') {
+                sourceIds.push(...event.sources.map((source) => source.id));
+            }
+        }
+
+        expect(sourceIds).toEqual(['doc-a', 'doc-c']);
+    });
+});
+
+describe('Q&A model selection', () => {
+    test("answers with the workspace's chat model in JSON mode", async () => {
+        const llm = createScriptedLlmProvider({
+            replies: [
+                '```json\n{"answer": "Rotate keys monthly [1].", "citations": [1]}\n```',
+            ],
+        });
+        const service = createQaService({
+            searchService: {
+                retrieveContextChunks: vi.fn().mockResolvedValue({
+                    semanticStatus: 'used',
+                    items: [
+                        {
+                            documentId: 'doc-keys',
+                            documentTitle: 'Key rotation',
+                            idx: 0,
+                            content: 'Keys are rotated monthly.',
+                            score: 0.8,
+                        },
+                    ],
+                }),
+            } as unknown as SearchService,
+            llm,
+        });
+        vi.mocked(db.tenant.getSearchSettings).mockResolvedValueOnce({
+            searchRankWeights: null,
+            textSearchConfig: 'english',
+            embeddingModel: null,
+            hybridFusion: null,
+            llmModel: 'llama-3.1-8b-instant',
+        });
+
+        const response = await service.answerQuestion({
+            tenantId: 'tenant-1',
+            question: 'How often are keys rotated?',
+            k: 5,
+            recall_k: 15,
+            maxSources: 5,
+            contextTokens: 2000,
+        });
+
+        expect(llm.calls.at(-1)).toMatchObject({
+            model: 'llama-3.1-8b-instant',
+            json: true,
+        });
+        expect(response).toMatchObject({
+            answer: 'Rotate keys monthly [1].',
+            noContext: false,
+        });
+        expect(response.sources.map((source) => source.id)).toEqual([
+            'doc-keys',
+        ]);
+    });
+});
+
+describe('Chat credentials', () => {
+    const { GROQ_API_KEY, LLM_API_KEY } = process.env;
+
+    beforeEach(() => {
+        delete process.env.GROQ_API_KEY;
+        delete process.env.LLM_API_KEY;
+    });
+
+    afterEach(() => {
+        process.env.GROQ_API_KEY = GROQ_API_KEY;
+        if (LLM_API_KEY !== undefined) {
+            process.env.LLM_API_KEY = LLM_API_KEY;
+        }
+    });
+
+    test('the app boots without LLM credentials', () => {
+        expect(() => createServer()).not.toThrow();
+    });
+
+    test('Q&A reports the missing key once a question is asked', async () => {
+        const service = createQaService({
+            searchService: {
+                retrieveContextChunks: vi.fn().mockResolvedValue({
+                    semanticStatus: 'used',
+                    items: [
+                        {
+                            documentId: 'doc-keys',
+                            documentTitle: 'Key rotation',
+                            idx: 0,
+                            content: 'Keys are rotated monthly.',
+                            score: 0.8,
+                        },
+                    ],
+                }),
+            } as unknown as SearchService,
+        });
+
+        await expect(
+            service.answerQuestion({
+                tenantId: 'tenant-1',
+                question: 'How often are keys rotated?',
+                k: 5,
+                recall_k: 15,
+                maxSources: 5,
+                contextTokens: 2000,
+            })
+        ).rejects.toThrow('GROQ_API_KEY is required');
+    });
+});
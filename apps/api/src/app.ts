@@ -80,8 +80,20 @@ export function createServer(): express.Express {
     app.use('/metrics', metricsRoutes());
     app.use('/v1/auth', buildAuthRoutes());
 
-    // Rate limiter applied to all /v1 routes
-    app.use('/v1', createRateLimiter());
+    // Search-as-you-type fires on every keystroke, so it gets its own bucket
+    app.use(
+        '/v1/search/suggest',
+        createRateLimiter({
+            max: env.SUGGEST_RATE_LIMIT_MAX,
+            windowMs: env.SUGGEST_RATE_LIMIT_WINDOW_MS,
+            prefix: 'suggest-rate',
+        })
+    );
+    // Rate limiter applied to all other /v1 routes
+    app.use(
+        '/v1',
+        createRateLimiter({ skip: (req) => req.path === '/search/suggest' })
+    );
     // Tighter limiter for AI/QA routes
     app.use(
         '/v1/qa',
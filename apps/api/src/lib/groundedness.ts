@@ -0,0 +1,217 @@
+import type { QaClaim } from '@search-hub/schemas';
+import { STOPWORDS } from './stopwords.js';
+
+export interface GroundingChunk {
+    id: string;
+    documentId: string;
+    idx: number;
+    content: string;
+    startPos: number | null;
+    endPos: number | null;
+}
+
+export interface GroundingSource {
+    number: number; // how the answer cites it: [1], [2]…
+    cited: boolean;
+    chunks: GroundingChunk[];
+}
+
+export interface GroundednessResult {
+    claims: QaClaim[];
+    groundedness: number | null;
+}
+
+interface TextRange {
+    start: number;
+    end: number;
+}
+
+// share of a sentence's content words a passage must contain to support it
+export const SUPPORT_THRESHOLD = 0.5;
+
+// shorter sentences ("Yes.", headings) make no claim worth checking
+const MIN_CLAIM_TOKENS = 3;
+
+// a period only ends a sentence before whitespace, so "v1.2" stays whole;
+// citation markers after the period belong to the sentence
+const SENTENCE_END = /[.!?]+(?:\s*\[\d+\])*(?=\s|$)|\n+/g;
+const CITATION_MARKER = /\[(\d+)\]/g;
+
+function stem(word: string): string {
+    for (const suffix of ['ing', 'ed', 'es']) {
+        if (word.length > suffix.length + 3 && word.endsWith(suffix)) {
+            return word.slice(0, -suffix.length);
+        }
+    }
+    if (word.length > 3 && word.endsWith('s') && !word.endsWith('ss')) {
+        return word.slice(0, -1);
+    }
+    return word;
+}
+
+function contentTokens(text: string): Set<string> {
+    const words =
+        text
+            .replace(CITATION_MARKER, ' ')
+            .toLowerCase()
+            .match(/[\p{L}\p{N}]+/gu) ?? [];
+    return new Set(
+        words
+            .filter(
+                (word) =>
+                    (word.length > 2 || /\d/.test(word)) && !STOPWORDS.has(word)
+            )
+            .map(stem)
+    );
+}
+
+/**
+ * Sentence ranges of `text`, trimmed, skipping blank ones
+ */
+export function splitSentences(text: string): TextRange[] {
+    const ranges: TextRange[] = [];
+    let start = 0;
+
+    const push = (end: number) => {
+        let from = start;
+        let to = end;
+        while (from < to && /\s/.test(text.charAt(from))) from++;
+        while (to > from && /\s/.test(text.charAt(to - 1))) to--;
+        if (to > from) {
+            ranges.push({ start: from, end: to });
+        }
+    };
+
+    for (const match of text.matchAll(SENTENCE_END)) {
+        const end = match.index + match[0].length;
+        push(end);
+        start = end;
+    }
+    push(text.length);
+
+    return ranges;
+}
+
+interface PassageWindow extends TextRange {
+    chunk: GroundingChunk;
+    tokens: Set<string>;
+}
+
+// single sentences and adjacent pairs, since a claim may span two
+function passageWindows(chunk: GroundingChunk): PassageWindow[] {
+    const sentences = splitSentences(chunk.content);
+    const ranges = sentences.flatMap((sentence, i) => {
+        const next = sentences[i + 1];
+        return next
+            ? [sentence, { start: sentence.start, end: next.end }]
+            : [sentence];
+    });
+    return ranges.map((range) => ({
+        ...range,
+        chunk,
+        tokens: contentTokens(chunk.content.slice(range.start, range.end)),
+    }));
+}
+
+/**
+ * Sources a sentence should be checked against: those it cites inline, else
+ * every source the answer cites, else everything retrieved
+ */
+function candidateSources(
+    sentence: string,
+    sources: GroundingSource[]
+): GroundingSource[] {
+    const numbers = new Set(
+        [...sentence.matchAll(CITATION_MARKER)].map((match) => Number(match[1]))
+    );
+    const marked = sources.filter((source) => numbers.has(source.number));
+    if (marked.length > 0) {
+        return marked;
+    }
+    const cited = sources.filter((source) => source.cited);
+    return cited.length > 0 ? cited : sources;
+}
+
+/**
+ * Check each sentence of an answer against the passages it could rely on.
+ * Support is lexical: the share of the sentence's content words (lowercased,
+ * lightly stemmed, stopwords dropped) found in the best passage window. It is
+ * cheap and deterministic, and errs towards flagging paraphrases, which is the
+ * safe side for a "check this claim" hint.
+ */
+export function verifyClaims(
+    answer: string,
+    sources: GroundingSource[]
+): GroundednessResult {
+    const windows = new Map<GroundingSource, PassageWindow[]>();
+    const windowsOf = (source: GroundingSource) => {
+        let cached = windows.get(source);
+        if (!cached) {
+            cached = source.chunks.flatMap(passageWindows);
+            windows.set(source, cached);
+        }
+        return cached;
+    };
+
+    const claims: QaClaim[] = [];
+    for (const range of splitSentences(answer)) {
+        const sentence = answer.slice(range.start, range.end);
+        const tokens = contentTokens(sentence);
+        if (tokens.size < MIN_CLAIM_TOKENS) {
+            continue;
+        }
+
+        let best: { window: PassageWindow; support: number } | null = null;
+        for (const source of candidateSources(sentence, sources)) {
+            for (const window of windowsOf(source)) {
+                let shared = 0;
+                for (const token of tokens) {
+                    if (window.tokens.has(token)) shared++;
+                }
+                const support = shared / tokens.size;
+                // prefer the tighter window on ties
+                if (
+                    support > 0 &&
+                    (!best ||
+                        support > best.support ||
+                        (support === best.support &&
+                            window.end - window.start <
+                                best.window.end - best.window.start))
+                ) {
+                    best = { window, support };
+                }
+            }
+        }
+
+        const support = best ? Math.round(best.support * 100) / 100 : 0;
+        claims.push({
+            ...range,
+            supported: support >= SUPPORT_THRESHOLD,
+            support,
+            span: best
+                ? {
+                      documentId: best.window.chunk.documentId,
+                      chunkId: best.window.chunk.id,
+                      chunkIdx: best.window.chunk.idx,
+                      start: best.window.start,
+                      end: best.window.end,
+                      text: best.window.chunk.content.slice(
+                          best.window.start,
+                          best.window.end
+                      ),
+                      passageStartPos: best.window.chunk.startPos,
+                      passageEndPos: best.window.chunk.endPos,
+                  }
+                : null,
+        });
+    }
+
+    const supported = claims.filter((claim) => claim.supported).length;
+    return {
+        claims,
+        groundedness:
+            claims.length > 0
+                ? Math.round((supported / claims.length) * 100) / 100
+                : null,
+    };
+}
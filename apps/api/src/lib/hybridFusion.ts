@@ -0,0 +1,97 @@
+import type { HybridFusionMode } from '@search-hub/schemas';
+
+export interface RankedHit {
+    id: string;
+    score: number; // ts_rank for lexical hits, rerank score for semantic hits
+}
+
+export interface FusionSettings {
+    mode: HybridFusionMode;
+    alpha: number; // weight of the semantic score in minmax/zscore blending
+    rrfK: number;
+}
+
+type Normalizer = (scores: number[]) => number[];
+
+const minMax: Normalizer = (scores) => {
+    const min = Math.min(...scores);
+    const range = Math.max(...scores) - min;
+    // a single hit (or all equal) is as good as the list gets
+    return scores.map((score) => (range === 0 ? 1 : (score - min) / range));
+};
+
+const zScore: Normalizer = (scores) => {
+    const mean = scores.reduce((sum, score) => sum + score, 0) / scores.length;
+    const std = Math.sqrt(
+        scores.reduce((sum, score) => sum + (score - mean) ** 2, 0) /
+            scores.length
+    );
+    return scores.map((score) => (std === 0 ? 0 : (score - mean) / std));
+};
+
+function normalize(hits: RankedHit[], normalizer: Normalizer) {
+    const values = normalizer(hits.map((hit) => hit.score));
+    return {
+        scores: new Map(hits.map((hit, i) => [hit.id, values[i] ?? 0])),
+        // what a document absent from this list contributes
+        floor: values.length > 0 ? Math.min(...values) : 0,
+    };
+}
+
+/**
+ * Combine the lexical and semantic rankings of hybrid search into one score
+ * per document (higher is better). Both lists must be ordered best first and
+ * hold each document at most once.
+ *
+ * - rrf: sum of 1 / (rrfK + rank); ignores the raw scores
+ * - minmax / zscore: normalize each list's scores, then
+ *   alpha * semantic + (1 - alpha) * lexical. A document missing from one
+ *   list gets that list's lowest normalized score.
+ * - semantic_first: semantic hits in rerank order, then lexical-only hits
+ */
+export function fuseRankings(
+    lexical: RankedHit[],
+    semantic: RankedHit[],
+    { mode, alpha, rrfK }: FusionSettings
+): Map<string, number> {
+    const fused = new Map<string, number>();
+
+    if (mode === 'rrf') {
+        for (const list of [lexical, semantic]) {
+            list.forEach((hit, index) => {
+                fused.set(
+                    hit.id,
+                    (fused.get(hit.id) ?? 0) + 1 / (rrfK + index + 1)
+                );
+            });
+        }
+        return fused;
+    }
+
+    if (mode === 'semantic_first') {
+        // minmax puts lexical-only hits in [0, 1]; semantic hits land in [2, 3]
+        const lexicalScores = normalize(lexical, minMax).scores;
+        const semanticScores = normalize(semantic, minMax).scores;
+        for (const hit of lexical) {
+            fused.set(hit.id, lexicalScores.get(hit.id) ?? 0);
+        }
+        for (const hit of semantic) {
+            fused.set(hit.id, 2 + (semanticScores.get(hit.id) ?? 0));
+        }
+        return fused;
+    }
+
+    const normalizer = mode === 'zscore' ? zScore : minMax;
+    const lexicalNorm = normalize(lexical, normalizer);
+    const semanticNorm = normalize(semantic, normalizer);
+
+    for (const { id } of [...lexical, ...semantic]) {
+        if (fused.has(id)) continue;
+        fused.set(
+            id,
+            alpha * (semanticNorm.scores.get(id) ?? semanticNorm.floor) +
+                (1 - alpha) * (lexicalNorm.scores.get(id) ?? lexicalNorm.floor)
+        );
+    }
+    return fused;
+}
@@ -0,0 +1,207 @@
+import type { Redis } from 'ioredis';
+import type { RerankResult } from '@search-hub/ai';
+import { sha256 } from '@search-hub/schemas';
+import { metrics } from '@search-hub/observability';
+import { logger as baseLogger } from '../logger.js';
+
+const logger = baseLogger.child({ component: 'search-cache' });
+
+export interface CacheStore {
+    get(key: string): Promise<string | null>;
+    set(key: string, value: string, ttlSeconds: number): Promise<void>;
+}
+
+/**
+ * Redis-backed store. While the connection is down every lookup is a miss
+ * instead of waiting in ioredis' offline queue, so search never blocks on the cache.
+ */
+export function createRedisCacheStore(redis: Redis): CacheStore {
+    return {
+        async get(key) {
+            if (redis.status !== 'ready') return null;
+            return redis.get(key);
+        },
+        async set(key, value, ttlSeconds) {
+            if (redis.status !== 'ready') return;
+            await redis.set(key, value, 'EX', ttlSeconds);
+        },
+    };
+}
+
+export interface SearchCacheOptions {
+    bypass?: boolean; // skip the read, still store the fresh value
+}
+
+type CacheName = 'query_embedding' | 'rerank' | 'document_vector';
+
+// vectors are stored as float32; the precision loss is far below ranking noise
+function encodeVector(vector: number[]): string {
+    return Buffer.from(new Float32Array(vector).buffer).toString('base64');
+}
+
+function decodeVector(value: string): number[] {
+    const bytes = Buffer.from(value, 'base64');
+    return Array.from(
+        new Float32Array(bytes.buffer, bytes.byteOffset, bytes.byteLength / 4)
+    );
+}
+
+/**
+ * Best-effort cache for the provider calls of semantic search: query
+ * embeddings keyed by model + query text, and rerank results keyed by the
+ * reranker + the exact candidate set. Also holds document-level vectors keyed
+ * by the indexed content's checksum. Cache errors are logged and treated as misses.
+ */
+export function createSearchCache({
+    store,
+    ttlSeconds,
+}: {
+    store: CacheStore;
+    ttlSeconds: number; // 0 disables the cache
+}) {
+    const enabled = ttlSeconds > 0;
+
+    async function read<T>(
+        cache: CacheName,
+        key: string,
+        decode: (value: string) => T,
+        opts: SearchCacheOptions
+    ): Promise<T | null> {
+        if (!enabled) return null;
+
+        if (!opts.bypass) {
+            try {
+                const value = await store.get(key);
+                if (value !== null) {
+                    metrics.searchCacheHits.inc({ cache });
+                    return decode(value);
+                }
+            } catch (error) {
+                logger.warn(
+                    {
+                        cache,
+                        error:
+                            error instanceof Error
+                                ? error.message
+                                : String(error),
+                    },
+                    'search.cache.read_failed'
+                );
+            }
+        }
+
+        metrics.searchCacheMisses.inc({ cache });
+        return null;
+    }
+
+    async function write(cache: CacheName, key: string, value: string) {
+        if (!enabled) return;
+
+        try {
+            await store.set(key, value, ttlSeconds);
+        } catch (error) {
+            logger.warn(
+                {
+                    cache,
+                    error:
+                        error instanceof Error ? error.message : String(error),
+                },
+                'search.cache.write_failed'
+            );
+        }
+    }
+
+    const queryEmbeddingKey = (model: string, query: string) =>
+        `search:qemb:${model}:${sha256(query)}`;
+
+    const rerankKey = (
+        reranker: string,
+        query: string,
+        documents: string[],
+        priorScores: number[]
+    ) =>
+        `search:rerank:${reranker}:${sha256(
+            JSON.stringify([query, documents, priorScores])
+        )}`;
+
+    // a reindex with new content changes the checksum, so stale vectors are never read
+    const documentVectorKey = (
+        model: string,
+        documentId: string,
+        checksum: string
+    ) => `search:docvec:${model}:${documentId}:${checksum}`;
+
+    return {
+        getQueryEmbedding: (
+            model: string,
+            query: string,
+            opts: SearchCacheOptions = {}
+        ) =>
+            read(
+                'query_embedding',
+                queryEmbeddingKey(model, query),
+                decodeVector,
+                opts
+            ),
+
+        setQueryEmbedding: (model: string, query: string, vector: number[]) =>
+            write(
+                'query_embedding',
+                queryEmbeddingKey(model, query),
+                encodeVector(vector)
+            ),
+
+        getRerank: (
+            reranker: string,
+            query: string,
+            documents: string[],
+            priorScores: number[],
+            opts: SearchCacheOptions = {}
+        ) =>
+            read(
+                'rerank',
+                rerankKey(reranker, query, documents, priorScores),
+                (value) => JSON.parse(value) as RerankResult[],
+                opts
+            ),
+
+        setRerank: (
+            reranker: string,
+            query: string,
+            documents: string[],
+            priorScores: number[],
+            results: RerankResult[]
+        ) =>
+            write(
+                'rerank',
+                rerankKey(reranker, query, documents, priorScores),
+                JSON.stringify(results)
+            ),
+
+        getDocumentVector: (
+            model: string,
+            documentId: string,
+            checksum: string
+        ) =>
+            read(
+                'document_vector',
+                documentVectorKey(model, documentId, checksum),
+                decodeVector,
+                {}
+            ),
+
+        setDocumentVector: (
+            model: string,
+            documentId: string,
+            checksum: string,
+            vector: number[]
+        ) =>
+            write(
+                'document_vector',
+                documentVectorKey(model, documentId, checksum),
+                encodeVector(vector)
+            ),
+    };
+}
+
+export type SearchCache = ReturnType<typeof createSearchCache>;
@@ -0,0 +1,317 @@
+import { AppError } from '@search-hub/schemas';
+import type { TextQuery, TextQueryTerm } from '@search-hub/db';
+
+/**
+ * Search query syntax:
+ * - bare words:           rate limiter        (all words must match, longer words prefix-match)
+ * - quoted phrases:       "rate limiter"      (words must appear adjacent, in order)
+ * - exclusions:           -draft, -"old api"  (documents containing them are dropped)
+ * - alternatives:         redis OR valkey     (binds tighter than the implicit AND;
+ *                                              only uppercase OR, "or" is a plain word)
+ * - field prefixes:       title:onboarding, tag:backend, author:ada,
+ *                         before:2025-01-01, after:2024-06-01
+ *
+ * Prefix values may be quoted (author:"ada lovelace"). Unknown prefixes such as
+ * `http:` are treated as plain text.
+ *
+ * A query needs at least one positive word or phrase: `tag:backend` or `-draft`
+ * on their own are rejected (no_search_terms). Browsing by filters alone is
+ * what the tagIds/authorId/updatedAfter/updatedBefore request filters are for.
+ */
+
+export type SearchQueryParseErrorReason =
+    | 'unterminated_quote'
+    | 'dangling_operator'
+    | 'empty_prefix_value'
+    | 'negated_filter'
+    | 'invalid_date'
+    | 'too_many_terms'
+    | 'no_search_terms';
+
+export interface ParsedQueryFilters {
+    tagNames: string[];
+    authorHandle?: string;
+    updatedAfter?: Date;
+    updatedBefore?: Date;
+}
+
+export interface ParsedSearchQuery {
+    text: TextQuery;
+    filters: ParsedQueryFilters;
+    // positive words and phrases only, used for embeddings and short-query guards
+    plainText: string;
+}
+
+const MAX_TERMS = 32;
+
+const FIELD_PREFIXES = ['title', 'tag', 'author', 'before', 'after'] as const;
+type FieldPrefix = (typeof FIELD_PREFIXES)[number];
+
+type QueryItem =
+    | { kind: 'term'; term: TextQueryTerm; field?: 'title'; position: number }
+    | {
+          kind: 'filter';
+          field: Exclude<FieldPrefix, 'title'>;
+          value: string;
+          position: number;
+      }
+    | { kind: 'or'; position: number };
+
+function parseError(
+    reason: SearchQueryParseErrorReason,
+    message: string,
+    position?: number
+): AppError {
+    return AppError.validation('INVALID_SEARCH_QUERY', message, {
+        context: {
+            origin: 'client',
+            domain: 'search',
+            operation: 'parse',
+            metadata: { reason, position },
+        },
+    });
+}
+
+function isWhitespace(char: string | undefined) {
+    return char !== undefined && /\s/.test(char);
+}
+
+function isFieldPrefix(value: string): value is FieldPrefix {
+    return (FIELD_PREFIXES as readonly string[]).includes(value);
+}
+
+function parseDateValue(field: string, value: string, position: number): Date {
+    const date = new Date(value);
+    if (!/^\d{4}-\d{2}-\d{2}/.test(value) || Number.isNaN(date.getTime())) {
+        throw parseError(
+            'invalid_date',
+            `${field}: expects a date like 2025-01-31, got "${value}"`,
+            position
+        );
+    }
+    return date;
+}
+
+/**
+ * Split the raw query into terms, phrases, field filters and OR operators
+ */
+function tokenize(input: string): QueryItem[] {
+    const items: QueryItem[] = [];
+    let i = 0;
+
+    // reads a "quoted" value starting at the opening quote, returning the inner text
+    const readQuoted = (start: number): string => {
+        const end = input.indexOf('"', start + 1);
+        if (end === -1) {
+            throw parseError(
+                'unterminated_quote',
+                'Unterminated quote in search query',
+                start
+            );
+        }
+        i = end + 1;
+        return input.slice(start + 1, end).trim();
+    };
+
+    // reads a bare word up to whitespace or a quote
+    const readWord = (): string => {
+        const start = i;
+        while (
+            i < input.length &&
+            !isWhitespace(input[i]) &&
+            input[i] !== '"'
+        ) {
+            i++;
+        }
+        return input.slice(start, i);
+    };
+
+    while (i < input.length) {
+        if (isWhitespace(input[i])) {
+            i++;
+            continue;
+        }
+
+        const position = i;
+        let negated = false;
+        if (input[i] === '-') {
+            i++;
+            // a lone dash is noise, not an exclusion
+            if (i >= input.length || isWhitespace(input[i])) {
+                continue;
+            }
+            negated = true;
+        }
+
+        if (input[i] === '"') {
+            const value = readQuoted(i);
+            if (value) {
+                items.push({
+                    kind: 'term',
+                    term: { value, phrase: true, negated },
+                    position,
+                });
+            }
+            continue;
+        }
+
+        const word = readWord();
+        if (!word) {
+            continue;
+        }
+
+        if (!negated && word === 'OR') {
+            items.push({ kind: 'or', position });
+            continue;
+        }
+
+        const colon = word.indexOf(':');
+        const prefix = colon > 0 ? word.slice(0, colon).toLowerCase() : '';
+        if (!isFieldPrefix(prefix)) {
+            items.push({
+                kind: 'term',
+                term: { value: word, phrase: false, negated },
+                position,
+            });
+            continue;
+        }
+
+        let value = word.slice(colon + 1);
+        let quoted = false;
+        if (!value && input[i] === '"') {
+            value = readQuoted(i);
+            quoted = true;
+        }
+        if (!value) {
+            throw parseError(
+                'empty_prefix_value',
+                `${prefix}: needs a value`,
+                position
+            );
+        }
+
+        if (prefix === 'title') {
+            items.push({
+                kind: 'term',
+                term: { value, phrase: quoted, negated },
+                field: 'title',
+                position,
+            });
+            continue;
+        }
+
+        if (negated) {
+            throw parseError(
+                'negated_filter',
+                `${prefix}: filters cannot be excluded with "-"`,
+                position
+            );
+        }
+
+        items.push({ kind: 'filter', field: prefix, value, position });
+    }
+
+    return items;
+}
+
+/**
+ * Parse a user search query into a structured text query and filters.
+ * Throws AppError (INVALID_SEARCH_QUERY) with a `reason` in context metadata on malformed input.
+ */
+export function parseSearchQuery(input: string): ParsedSearchQuery {
+    const items = tokenize(input);
+
+    const groups: TextQueryTerm[][] = [];
+    const titleTerms: TextQueryTerm[] = [];
+    const filters: ParsedQueryFilters = { tagNames: [] };
+    let previous: QueryItem | undefined;
+    let pendingOr: QueryItem | undefined;
+
+    for (const item of items) {
+        const isPlainTerm = item.kind === 'term' && !item.field;
+
+        if (item.kind === 'or') {
+            const previousIsPlainTerm =
+                previous?.kind === 'term' && !previous.field;
+            if (!previousIsPlainTerm || pendingOr) {
+                throw parseError(
+                    'dangling_operator',
+                    'OR must sit between two search terms',
+                    item.position
+                );
+            }
+            pendingOr = item;
+            previous = item;
+            continue;
+        }
+
+        if (pendingOr) {
+            if (!isPlainTerm) {
+                throw parseError(
+                    'dangling_operator',
+                    'OR must sit between two search terms',
+                    pendingOr.position
+                );
+            }
+            groups[groups.length - 1]?.push(item.term);
+            pendingOr = undefined;
+            previous = item;
+            continue;
+        }
+
+        if (item.kind === 'term') {
+            if (item.field === 'title') {
+                titleTerms.push(item.term);
+            } else {
+                groups.push([item.term]);
+            }
+        } else if (item.field === 'tag') {
+            filters.tagNames.push(item.value);
+        } else if (item.field === 'author') {
+            filters.authorHandle = item.value;
+        } else if (item.field === 'after') {
+            filters.updatedAfter = parseDateValue(
+                item.field,
+                item.value,
+                item.position
+            );
+        } else {
+            filters.updatedBefore = parseDateValue(
+                item.field,
+                item.value,
+                item.position
+            );
+        }
+        previous = item;
+    }
+
+    if (pendingOr) {
+        throw parseError(
+            'dangling_operator',
+            'OR must sit between two search terms',
+            pendingOr.position
+        );
+    }
+
+    const allTerms = [...groups.flat(), ...titleTerms];
+    if (allTerms.length > MAX_TERMS) {
+        throw parseError(
+            'too_many_terms',
+            `Search queries are limited to ${MAX_TERMS} terms`
+        );
+    }
+
+    const positiveTerms = allTerms.filter((term) => !term.negated);
+    if (positiveTerms.length === 0) {
+        throw parseError(
+            'no_search_terms',
+            'Add at least one search term alongside filters and exclusions'
+        );
+    }
+
+    return {
+        text: { groups, titleTerms },
+        filters,
+        plainText: positiveTerms.map((term) => term.value).join(' '),
+    };
+}
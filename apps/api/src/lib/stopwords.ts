@@ -0,0 +1,14 @@
+// English function words that carry no meaning for matching answers and
+// questions against passages
+export const STOPWORDS = new Set(
+    `
+    the and for are but not you your all any can has had have was were
+    been being this that these those with from into onto than then there
+    their they them its our out who what when where which while how why
+    will would should could may might must also only just more most such
+    some each other about over under does did doing use used using via per
+    one get gets
+    `
+        .trim()
+        .split(/\s+/)
+);
@@ -20,6 +20,8 @@ export function createRateLimiter(opts?: {
     windowMs?: number;
     max?: number;
     prefix?: string;
+    // requests this limiter should not count (e.g. routes with their own bucket)
+    skip?: (req: Parameters<RequestHandler>[0]) => boolean;
 }): RequestHandler {
     const windowMs = opts?.windowMs ?? API_RATE_LIMIT_WINDOW_MS;
     const max = opts?.max ?? API_RATE_LIMIT_MAX;
@@ -53,6 +55,10 @@ export function createRateLimiter(opts?: {
   `;
 
     return async function rateLimitMiddleware(req, res, next) {
+        if (opts?.skip?.(req)) {
+            return next();
+        }
+
         const key = `${prefix}:${req.ip}`;
         const now = Date.now();
 
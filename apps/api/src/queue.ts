@@ -1,5 +1,11 @@
 import { Queue } from 'bullmq';
-import { JOBS, IndexDocumentJob, SendReminderJob } from '@search-hub/schemas';
+import {
+    JOBS,
+    IndexDocumentJob,
+    SendReminderJob,
+    ReembedTenantJob,
+    SummarizeDocumentJob,
+} from '@search-hub/schemas';
 import { env } from './config/env.js';
 
 const REDIS_URL = env.REDIS_URL ?? 'redis://localhost:6379';
@@ -10,6 +16,8 @@ declare global {
         | {
               indexDocument?: Queue<IndexDocumentJob>;
               reminder?: Queue<SendReminderJob>;
+              reembed?: Queue<ReembedTenantJob>;
+              summary?: Queue<SummarizeDocumentJob>;
           }
         | undefined;
 }
@@ -24,14 +32,32 @@ function createReminderQueue() {
     return new Queue<SendReminderJob>(JOBS.SEND_REMINDER, { connection });
 }
 
+function createReembedQueue() {
+    return new Queue<ReembedTenantJob>(JOBS.REEMBED_TENANT, { connection });
+}
+
+function createSummaryQueue() {
+    return new Queue<SummarizeDocumentJob>(JOBS.SUMMARIZE_DOCUMENT, {
+        connection,
+    });
+}
+
 export const indexQueue =
     globalThis.__queues?.indexDocument ?? createIndexQueue();
 
 export const reminderQueue =
     globalThis.__queues?.reminder ?? createReminderQueue();
 
+export const reembedQueue =
+    globalThis.__queues?.reembed ?? createReembedQueue();
+
+export const summaryQueue =
+    globalThis.__queues?.summary ?? createSummaryQueue();
+
 globalThis.__queues = {
     ...(globalThis.__queues ?? {}),
     indexDocument: indexQueue,
     reminder: reminderQueue,
+    reembed: reembedQueue,
+    summary: summaryQueue,
 };
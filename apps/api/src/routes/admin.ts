@@ -5,12 +5,18 @@
  * Currently requires authentication but no role check
  */
 import { Router } from 'express';
-import { getIndexingStatus, getQueueStatus } from '../services/adminService.js';
+import {
+    getIndexingStatus,
+    getQueueStatus,
+    getVectorIndexHealth,
+} from '../services/adminService.js';
 import { validateQuery } from '../middleware/validateMiddleware.js';
 import {
+    AppError,
     IndexingStatusQuerySchema,
     QueueStatusQuerySchema,
 } from '@search-hub/schemas';
+import { db } from '@search-hub/db';
 import { indexQueue } from '../queue.js';
 import { logger as baseLogger } from '../logger.js';
 
@@ -81,6 +87,52 @@ router.get(
     }
 );
 
+/**
+ * GET /v1/admin/vector-index
+ * Returns the current tenant's ANN index state (strategy, size, validity,
+ * ef_search) and the recommended action. Owners and admins only.
+ */
+router.get('/vector-index', async (req, res, next) => {
+    try {
+        const tenantId = req.session.currentTenantId;
+        const userId = req.session.userId;
+        if (!tenantId) {
+            return res.status(400).json({ error: 'No tenant selected' });
+        }
+
+        const memberships = userId
+            ? await db.tenant.listForUser({ userId })
+            : [];
+        const membership = memberships.find(
+            (item) => item.tenantId === tenantId
+        );
+        if (
+            !membership ||
+            (membership.role !== 'owner' && membership.role !== 'admin')
+        ) {
+            throw AppError.authorization(
+                'TENANT_ACCESS_DENIED',
+                'Only workspace owners and admins can inspect vector indexes',
+                {
+                    context: {
+                        origin: 'server',
+                        domain: 'admin',
+                        resource: 'Tenant',
+                        resourceId: tenantId,
+                        operation: 'getVectorIndexHealth',
+                        userId,
+                    },
+                }
+            );
+        }
+
+        const response = await getVectorIndexHealth(tenantId);
+        res.json(response);
+    } catch (error) {
+        next(error);
+    }
+});
+
 /**
  * POST /v1/admin/queue/clean
  * Query params:
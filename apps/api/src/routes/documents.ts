@@ -20,6 +20,10 @@ import {
     createDocumentService,
     type DocumentService,
 } from '../services/documentService.js';
+import {
+    createSearchService,
+    type SearchService,
+} from '../services/searchService.js';
 import {
     createDocumentRequestSchema,
     type CreateDocumentRequestType,
@@ -27,6 +31,8 @@ import {
     type GetDocumentDetailsParamsType,
     getDocumentListParamsSchema,
     type GetDocumentListParamsType,
+    getRelatedDocumentsQuerySchema,
+    type GetRelatedDocumentsQueryType,
     updateDocumentTitlePayloadSchema,
     type UpdateDocumentTitlePayloadType,
     AppError,
@@ -45,7 +51,8 @@ import type {
 } from './types.js';
 
 export function documentRoutes(
-    service: DocumentService = createDocumentService()
+    service: DocumentService = createDocumentService(),
+    searchService: SearchService = createSearchService()
 ) {
     const router = Router();
 
@@ -211,6 +218,66 @@ export function documentRoutes(
         }
     );
 
+    router.get(
+        '/:id/related',
+        validateParams(documentIdParamsSchema),
+        validateQuery(getRelatedDocumentsQuerySchema),
+        async (req, res, next) => {
+            try {
+                const authReq = req as AuthenticatedRequest;
+                const activeTenantId = authReq.session?.currentTenantId;
+
+                if (!activeTenantId) {
+                    throw AppError.validation(
+                        'NO_ACTIVE_TENANT',
+                        'No active tenant selected.',
+                        {
+                            context: {
+                                origin: 'server',
+                                domain: 'document',
+                                operation: 'related',
+                            },
+                        }
+                    );
+                }
+
+                const { id: documentId } = (
+                    req as RequestWithValidatedParams<DocumentIdParamsType>
+                ).validated.params;
+                const { limit } = (
+                    req as RequestWithValidatedQuery<GetRelatedDocumentsQueryType>
+                ).validated.query;
+
+                const related = await searchService.relatedDocuments({
+                    tenantId: activeTenantId,
+                    documentId,
+                    limit,
+                });
+
+                if (!related) {
+                    throw AppError.notFound(
+                        'DOCUMENT_NOT_FOUND',
+                        'Document not found',
+                        {
+                            context: {
+                                origin: 'server',
+                                domain: 'document',
+                                resource: 'Document',
+                                resourceId: documentId,
+                                operation: 'related',
+                                tenantId: activeTenantId,
+                            },
+                        }
+                    );
+                }
+
+                res.status(200).json(related);
+            } catch (error) {
+                next(error);
+            }
+        }
+    );
+
     router.delete(
         '/:id',
         validateParams(getDocumentDetailsParamsSchema),
@@ -425,6 +492,42 @@ export function documentRoutes(
         }
     });
 
+    router.post('/:id/summary', async (req, res, next) => {
+        try {
+            const authReq = req as AuthenticatedRequest;
+            const { userId } = authReq.session;
+            const activeTenantId = authReq.session?.currentTenantId;
+            if (!activeTenantId) {
+                throw AppError.validation(
+                    'NO_ACTIVE_TENANT',
+                    'No active tenant selected.',
+                    {
+                        context: {
+                            origin: 'server',
+                            domain: 'document',
+                            operation: 'summarize',
+                        },
+                    }
+                );
+            }
+
+            const jobId = await service.queueSummaryRegeneration(
+                req.params.id,
+                {
+                    userId,
+                    tenantId: activeTenantId,
+                }
+            );
+
+            res.status(202).json({
+                message: 'Summary job queued successfully',
+                jobId,
+            });
+        } catch (error) {
+            next(error);
+        }
+    });
+
     router.get('/:id/tags', async (req, res, next) => {
         try {
             const authReq = req as AuthenticatedRequest;
@@ -0,0 +1,137 @@
+import { Router, type Request } from 'express';
+import { db } from '@search-hub/db';
+import {
+    AppError,
+    DuplicateParams,
+    ListDuplicatesQuery,
+    ResolveDuplicatePayload,
+} from '@search-hub/schemas';
+
+import { AuthenticatedRequest } from '../middleware/authMiddleware.js';
+import {
+    validateBody,
+    validateParams,
+    validateQuery,
+} from '../middleware/validateMiddleware.js';
+import { createDuplicateService } from '../services/duplicateService.js';
+import type {
+    RequestWithValidatedBody,
+    RequestWithValidatedParams,
+    RequestWithValidatedQuery,
+} from './types.js';
+
+/**
+ * Duplicate review changes workspace content (archiving documents), so it is
+ * limited to owners and admins of the active workspace
+ */
+async function adminContext(req: Request, operation: string) {
+    const authReq = req as AuthenticatedRequest;
+    const { userId } = authReq.session;
+    const tenantId = authReq.session?.currentTenantId;
+
+    if (!tenantId) {
+        throw AppError.validation(
+            'TENANT_ACTIVE_MISSING',
+            'No active tenant selected.',
+            {
+                context: {
+                    origin: 'app',
+                    domain: 'duplicates',
+                    resource: 'Session',
+                    operation,
+                },
+            }
+        );
+    }
+
+    const memberships = await db.tenant.listForUser({ userId });
+    const role = memberships.find((item) => item.tenantId === tenantId)?.role;
+
+    if (role !== 'owner' && role !== 'admin') {
+        throw AppError.authorization(
+            'DUPLICATES_FORBIDDEN',
+            'Only workspace owners and admins can review duplicate documents',
+            {
+                context: {
+                    origin: 'server',
+                    domain: 'duplicates',
+                    resource: 'Tenant',
+                    resourceId: tenantId,
+                    operation,
+                    userId,
+                },
+            }
+        );
+    }
+
+    return { tenantId, userId };
+}
+
+function duplicateId(req: Request) {
+    return (req as RequestWithValidatedParams<DuplicateParams>).validated.params
+        .id;
+}
+
+export function duplicateRoutes() {
+    const router = Router();
+    const duplicateService = createDuplicateService();
+
+    router.get(
+        '/',
+        validateQuery(ListDuplicatesQuery),
+        async (req, res, next) => {
+            try {
+                const context = await adminContext(req, 'list');
+                const { status } = (
+                    req as RequestWithValidatedQuery<ListDuplicatesQuery>
+                ).validated.query;
+
+                res.json(await duplicateService.list(status, context));
+            } catch (error) {
+                next(error);
+            }
+        }
+    );
+
+    router.post(
+        '/:id/dismiss',
+        validateParams(DuplicateParams),
+        async (req, res, next) => {
+            try {
+                const context = await adminContext(req, 'dismiss');
+                const duplicate = await duplicateService.dismiss(
+                    duplicateId(req),
+                    context
+                );
+                res.json({ duplicate });
+            } catch (error) {
+                next(error);
+            }
+        }
+    );
+
+    router.post(
+        '/:id/resolve',
+        validateParams(DuplicateParams),
+        validateBody(ResolveDuplicatePayload),
+        async (req, res, next) => {
+            try {
+                const context = await adminContext(req, 'resolve');
+                const body = (
+                    req as RequestWithValidatedBody<ResolveDuplicatePayload>
+                ).validated.body;
+
+                const duplicate = await duplicateService.resolve(
+                    duplicateId(req),
+                    body,
+                    context
+                );
+                res.json({ duplicate });
+            } catch (error) {
+                next(error);
+            }
+        }
+    );
+
+    return router;
+}
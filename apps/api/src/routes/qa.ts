@@ -1,12 +1,71 @@
-import { Router } from 'express';
+import { Router, type Request } from 'express';
 import { type z } from 'zod';
 
-import { AppError, QaRequest } from '@search-hub/schemas';
-import { validateBody } from '../middleware/validateMiddleware.js';
-import { type AuthenticatedRequestWithBody } from './types.js';
+import {
+    AppError,
+    CreateQaThreadPayload,
+    PostQaMessagePayload,
+    QaRequest,
+    QaThreadParams,
+    type QaStreamEvent,
+} from '@search-hub/schemas';
+import { type AuthenticatedRequest } from '../middleware/authMiddleware.js';
+import {
+    validateBody,
+    validateParams,
+} from '../middleware/validateMiddleware.js';
+import {
+    type AuthenticatedRequestWithBody,
+    type RequestWithValidatedBody,
+    type RequestWithValidatedParams,
+} from './types.js';
 import { createQaService, type QaService } from '../services/qaService.js';
+import {
+    createQaThreadService,
+    type QaThreadService,
+} from '../services/qaThreadService.js';
+import { logger as baseLogger } from '../logger.js';
 
-export function qaRoutes(service: QaService = createQaService()) {
+const logger = baseLogger.child({ component: 'qa-routes' });
+
+function activeTenantId(req: AuthenticatedRequest) {
+    const tenantId = req.session?.currentTenantId;
+    if (!tenantId) {
+        throw AppError.validation(
+            'NO_ACTIVE_TENANT',
+            'No active tenant selected.',
+            {
+                context: {
+                    origin: 'server',
+                    domain: 'qa',
+                    operation: 'answer',
+                },
+            }
+        );
+    }
+    return tenantId;
+}
+
+// threads belong to the caller within the active workspace
+function ownerContext(req: Request) {
+    const authReq = req as AuthenticatedRequest;
+    return {
+        tenantId: activeTenantId(authReq),
+        userId: authReq.session.userId,
+    };
+}
+
+function threadId(req: Request) {
+    return (req as RequestWithValidatedParams<QaThreadParams>).validated.params
+        .id;
+}
+
+export function qaRoutes(
+    service: QaService = createQaService(),
+    threadService: QaThreadService = createQaThreadService({
+        qaService: service,
+    })
+) {
     const router = Router();
 
     // POST /v1/qa - answer a question using workspace context
@@ -20,20 +79,7 @@ export function qaRoutes(service: QaService = createQaService()) {
                         z.infer<typeof QaRequest>
                     >;
 
-                const tenantId = authReq.session?.currentTenantId;
-                if (!tenantId) {
-                    throw AppError.validation(
-                        'NO_ACTIVE_TENANT',
-                        'No active tenant selected.',
-                        {
-                            context: {
-                                origin: 'server',
-                                domain: 'qa',
-                                operation: 'answer',
-                            },
-                        }
-                    );
-                }
+                const tenantId = activeTenantId(authReq);
 
                 const body =
                     (req as AuthenticatedRequestWithBody<
@@ -52,5 +98,157 @@ export function qaRoutes(service: QaService = createQaService()) {
         }
     );
 
+    // POST /v1/qa/stream - same answer as Server-Sent Events
+    router.post('/stream', validateBody(QaRequest), async (req, res, next) => {
+        const authReq = req as AuthenticatedRequestWithBody<QaRequest>;
+        let tenantId: string;
+        try {
+            tenantId = activeTenantId(authReq);
+        } catch (error) {
+            next(error);
+            return;
+        }
+
+        // a client disconnect stops generation
+        const controller = new AbortController();
+        res.on('close', () => {
+            if (!res.writableFinished) {
+                controller.abort();
+            }
+        });
+
+        res.status(200).set({
+            'Content-Type': 'text/event-stream; charset=utf-8',
+            // no-transform keeps compression from buffering the stream
+            'Cache-Control': 'no-cache, no-transform',
+            Connection: 'keep-alive',
+            'X-Accel-Buffering': 'no',
+        });
+        res.flushHeaders();
+
+        const send = (event: QaStreamEvent) => {
+            res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+        };
+
+        try {
+            for await (const event of service.streamAnswer(
+                { tenantId, ...authReq.validated.body },
+                controller.signal
+            )) {
+                if (controller.signal.aborted) {
+                    break;
+                }
+                send(event);
+            }
+        } catch (error) {
+            if (!controller.signal.aborted) {
+                logger.error(
+                    {
+                        tenantId,
+                        error:
+                            error instanceof Error
+                                ? error.message
+                                : String(error),
+                    },
+                    'qa.stream.failed'
+                );
+                send({
+                    type: 'error',
+                    error:
+                        error instanceof AppError
+                            ? { code: error.code, message: error.message }
+                            : {
+                                  code: 'QA_STREAM_FAILED',
+                                  message: 'Failed to generate an answer',
+                              },
+                });
+            }
+        } finally {
+            if (controller.signal.aborted) {
+                logger.info({ tenantId }, 'qa.stream.cancelled');
+            }
+            res.end();
+        }
+    });
+
+    // GET /v1/qa/threads - the caller's conversations, most recent first
+    router.get('/threads', async (req, res, next) => {
+        try {
+            res.json(await threadService.list(ownerContext(req)));
+        } catch (error) {
+            next(error);
+        }
+    });
+
+    router.post(
+        '/threads',
+        validateBody(CreateQaThreadPayload),
+        async (req, res, next) => {
+            try {
+                const body = (
+                    req as RequestWithValidatedBody<CreateQaThreadPayload>
+                ).validated.body;
+                const thread = await threadService.create(
+                    body,
+                    ownerContext(req)
+                );
+                res.status(201).json({ thread });
+            } catch (error) {
+                next(error);
+            }
+        }
+    );
+
+    // GET /v1/qa/threads/:id - messages and the documents cited so far
+    router.get(
+        '/threads/:id',
+        validateParams(QaThreadParams),
+        async (req, res, next) => {
+            try {
+                res.json(
+                    await threadService.get(threadId(req), ownerContext(req))
+                );
+            } catch (error) {
+                next(error);
+            }
+        }
+    );
+
+    router.delete(
+        '/threads/:id',
+        validateParams(QaThreadParams),
+        async (req, res, next) => {
+            try {
+                await threadService.remove(threadId(req), ownerContext(req));
+                res.status(204).send();
+            } catch (error) {
+                next(error);
+            }
+        }
+    );
+
+    // POST /v1/qa/threads/:id/messages - ask a follow-up within the thread
+    router.post(
+        '/threads/:id/messages',
+        validateParams(QaThreadParams),
+        validateBody(PostQaMessagePayload),
+        async (req, res, next) => {
+            try {
+                const body = (
+                    req as RequestWithValidatedBody<PostQaMessagePayload>
+                ).validated.body;
+                res.json(
+                    await threadService.postMessage(
+                        threadId(req),
+                        body,
+                        ownerContext(req)
+                    )
+                );
+            } catch (error) {
+                next(error);
+            }
+        }
+    );
+
     return router;
 }
@@ -10,6 +10,8 @@ import { tagRoutes } from './tags.js';
 import reminderRoutes from './reminders.js';
 import adminRoutes from './admin.js';
 import { qaRoutes } from './qa.js';
+import { savedSearchRoutes } from './savedSearches.js';
+import { duplicateRoutes } from './duplicates.js';
 
 export function buildV1Routes() {
     const router = Router();
@@ -18,6 +20,8 @@ export function buildV1Routes() {
     router.use('/tenants', tenantRoutes());
     router.use('/', searchRoutes());
     router.use('/search-analytics', searchAnalyticsRoutes());
+    router.use('/saved-searches', savedSearchRoutes());
+    router.use('/duplicates', duplicateRoutes());
     router.use('/qa', qaRoutes());
     router.use('/users', userRoutes());
     router.use('/tags', tagRoutes());
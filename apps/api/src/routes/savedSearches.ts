@@ -0,0 +1,172 @@
+import { Router, type Request } from 'express';
+import {
+    AppError,
+    CreateSavedSearchPayload,
+    SavedSearchParams,
+    UpdateSavedSearchPayload,
+} from '@search-hub/schemas';
+
+import { AuthenticatedRequest } from '../middleware/authMiddleware.js';
+import {
+    validateBody,
+    validateParams,
+} from '../middleware/validateMiddleware.js';
+import { createSavedSearchService } from '../services/savedSearchService.js';
+import type {
+    RequestWithValidatedBody,
+    RequestWithValidatedParams,
+} from './types.js';
+
+// saved searches belong to the caller within the active workspace
+function ownerContext(req: Request, operation: string) {
+    const authReq = req as AuthenticatedRequest;
+    const tenantId = authReq.session?.currentTenantId;
+
+    if (!tenantId) {
+        throw AppError.validation(
+            'TENANT_ACTIVE_MISSING',
+            'No active tenant selected.',
+            {
+                context: {
+                    origin: 'app',
+                    domain: 'savedSearches',
+                    resource: 'Session',
+                    operation,
+                },
+            }
+        );
+    }
+
+    return { tenantId, userId: authReq.session.userId };
+}
+
+function savedSearchId(req: Request) {
+    return (req as RequestWithValidatedParams<SavedSearchParams>).validated
+        .params.id;
+}
+
+export function savedSearchRoutes() {
+    const router = Router();
+    const savedSearchService = createSavedSearchService();
+
+    router.get('/', async (req, res, next) => {
+        try {
+            const context = ownerContext(req, 'list');
+            res.json(await savedSearchService.list(context));
+        } catch (error) {
+            next(error);
+        }
+    });
+
+    router.post(
+        '/',
+        validateBody(CreateSavedSearchPayload),
+        async (req, res, next) => {
+            try {
+                const context = ownerContext(req, 'create');
+                const body = (
+                    req as RequestWithValidatedBody<CreateSavedSearchPayload>
+                ).validated.body;
+
+                const savedSearch = await savedSearchService.create(
+                    body,
+                    context
+                );
+                res.status(201).json({ savedSearch });
+            } catch (error) {
+                next(error);
+            }
+        }
+    );
+
+    router.get(
+        '/:id',
+        validateParams(SavedSearchParams),
+        async (req, res, next) => {
+            try {
+                const context = ownerContext(req, 'get');
+                const savedSearch = await savedSearchService.get(
+                    savedSearchId(req),
+                    context
+                );
+                res.json({ savedSearch });
+            } catch (error) {
+                next(error);
+            }
+        }
+    );
+
+    router.patch(
+        '/:id',
+        validateParams(SavedSearchParams),
+        validateBody(UpdateSavedSearchPayload),
+        async (req, res, next) => {
+            try {
+                const context = ownerContext(req, 'update');
+                const body = (
+                    req as RequestWithValidatedBody<UpdateSavedSearchPayload>
+                ).validated.body;
+
+                const savedSearch = await savedSearchService.update(
+                    savedSearchId(req),
+                    body,
+                    context
+                );
+                res.json({ savedSearch });
+            } catch (error) {
+                next(error);
+            }
+        }
+    );
+
+    router.delete(
+        '/:id',
+        validateParams(SavedSearchParams),
+        async (req, res, next) => {
+            try {
+                const context = ownerContext(req, 'delete');
+                await savedSearchService.remove(savedSearchId(req), context);
+                res.status(204).send();
+            } catch (error) {
+                next(error);
+            }
+        }
+    );
+
+    router.get(
+        '/:id/matches',
+        validateParams(SavedSearchParams),
+        async (req, res, next) => {
+            try {
+                const context = ownerContext(req, 'list_matches');
+                res.json(
+                    await savedSearchService.listMatches(
+                        savedSearchId(req),
+                        context
+                    )
+                );
+            } catch (error) {
+                next(error);
+            }
+        }
+    );
+
+    router.post(
+        '/:id/seen',
+        validateParams(SavedSearchParams),
+        async (req, res, next) => {
+            try {
+                const context = ownerContext(req, 'mark_seen');
+                const savedSearch = await savedSearchService.markSeen(
+                    savedSearchId(req),
+                    context
+                );
+                res.json({ savedSearch });
+            } catch (error) {
+                next(error);
+            }
+        }
+    );
+
+    return router;
+}
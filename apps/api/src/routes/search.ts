@@ -4,21 +4,54 @@ import { type z } from 'zod';
 
 import {
     HybridSearchQuery,
-    SearchQuery,
+    LexicalSearchQuery,
+    SearchSuggestQuery,
     SemanticQuery,
     AppError,
 } from '@search-hub/schemas';
 import { metrics } from '@search-hub/observability';
 import { normalizeQuery } from '@search-hub/ai';
+import { db } from '@search-hub/db';
 
 import { validateQuery } from '../middleware/validateMiddleware.js';
 import type { RequestWithValidatedQuery } from './types.js';
 import { type AuthenticatedRequest } from '../middleware/authMiddleware.js';
 import {
     createSearchService,
+    pickSearchFilters,
     type SearchService,
 } from '../services/searchService.js';
 
+// `Cache-Control: no-cache` skips cached query embeddings and rerank results (debugging)
+function wantsCacheBypass(req: AuthenticatedRequest): boolean {
+    return /\bno-cache\b/i.test(req.get('cache-control') ?? '');
+}
+
+/**
+ * explain=true exposes scoring internals, so it is limited to owners and admins
+ */
+async function assertCanExplain(userId: string, tenantId: string) {
+    const memberships = await db.tenant.listForUser({ userId });
+    const role = memberships.find((item) => item.tenantId === tenantId)?.role;
+
+    if (role !== 'owner' && role !== 'admin') {
+        throw AppError.authorization(
+            'SEARCH_EXPLAIN_FORBIDDEN',
+            'Only workspace owners and admins can explain search rankings',
+            {
+                context: {
+                    origin: 'server',
+                    domain: 'search',
+                    resource: 'Tenant',
+                    resourceId: tenantId,
+                    operation: 'explain',
+                    userId,
+                },
+            }
+        );
+    }
+}
+
 export function searchRoutes(service: SearchService = createSearchService()) {
     const router = Router();
 
@@ -53,14 +86,21 @@ export function searchRoutes(service: SearchService = createSearchService()) {
                     >
                 ).validated.query;
 
-                // Normalize query for better search results
-                const normalizedQuery = normalizeQuery(query.q);
+                if (query.explain) {
+                    await assertCanExplain(
+                        authReq.session.userId,
+                        activeTenantId
+                    );
+                }
 
                 // Add tenantId from session for security
+                // userId scopes the favoritesOnly filter to the caller
+                // q stays as typed: normalizing would lowercase the OR operator
                 const searchQuery = {
                     ...query,
-                    q: normalizedQuery,
                     tenantId: activeTenantId,
+                    userId: authReq.session.userId,
+                    bypassCache: wantsCacheBypass(authReq),
                 };
 
                 // Track search request counter
@@ -94,6 +134,7 @@ export function searchRoutes(service: SearchService = createSearchService()) {
                             resultCount: response.total,
                             duration: durationMs,
                             status: 'success',
+                            fusion: response.fusion,
                         })
                         .catch(() => {
                             /* ignore logging errors */
@@ -144,9 +185,62 @@ export function searchRoutes(service: SearchService = createSearchService()) {
         }
     );
 
+    // Search-as-you-type completions; rate limited separately in app.ts
+    router.get(
+        '/search/suggest',
+        validateQuery(SearchSuggestQuery),
+        async (req, res, next) => {
+            const startTime = Date.now();
+
+            try {
+                const authReq = req as AuthenticatedRequest;
+                const activeTenantId = authReq.session?.currentTenantId;
+
+                if (!activeTenantId) {
+                    throw AppError.validation(
+                        'NO_ACTIVE_TENANT',
+                        'No active tenant selected.',
+                        {
+                            context: {
+                                origin: 'server',
+                                domain: 'search',
+                                operation: 'suggest',
+                            },
+                        }
+                    );
+                }
+
+                const query = (
+                    req as RequestWithValidatedQuery<
+                        z.infer<typeof SearchSuggestQuery>
+                    >
+                ).validated.query;
+
+                const response = await service.suggest({
+                    ...query,
+                    tenantId: activeTenantId,
+                    userId: authReq.session.userId,
+                });
+
+                metrics.searchDuration.observe(
+                    {
+                        tenant_id: activeTenantId,
+                        search_type: 'suggest',
+                        status: 'success',
+                    },
+                    (Date.now() - startTime) / 1000
+                );
+
+                res.json(response);
+            } catch (err) {
+                next(err);
+            }
+        }
+    );
+
     router.get(
         '/lexical-search',
-        validateQuery(SearchQuery),
+        validateQuery(LexicalSearchQuery),
         async (req, res, next) => {
             const startTime = Date.now();
 
@@ -170,14 +264,18 @@ export function searchRoutes(service: SearchService = createSearchService()) {
 
                 const query = (
                     req as RequestWithValidatedQuery<
-                        z.infer<typeof SearchQuery>
+                        z.infer<typeof LexicalSearchQuery>
                     >
                 ).validated.query;
 
                 // Add tenantId from session for security
                 const searchQuery = {
-                    ...query,
+                    q: query.q,
+                    limit: query.limit,
+                    offset: query.offset,
                     tenantId: activeTenantId,
+                    userId: authReq.session?.userId,
+                    filters: pickSearchFilters(query),
                 };
 
                 // Track search request counter
@@ -239,7 +337,7 @@ export function searchRoutes(service: SearchService = createSearchService()) {
                     authReq.session?.currentTenantId
                 ) {
                     const validatedReq = req as RequestWithValidatedQuery<
-                        z.infer<typeof SearchQuery>
+                        z.infer<typeof LexicalSearchQuery>
                     >;
                     service
                         .logSearch({
@@ -291,10 +389,20 @@ export function searchRoutes(service: SearchService = createSearchService()) {
                     >
                 ).validated.query;
 
+                if (query.explain) {
+                    await assertCanExplain(
+                        authReq.session.userId,
+                        activeTenantId
+                    );
+                }
+
                 // Add tenantId from session for security
+                // userId scopes the favoritesOnly filter to the caller
                 const searchQuery = {
                     ...query,
                     tenantId: activeTenantId,
+                    userId: authReq.session.userId,
+                    bypassCache: wantsCacheBypass(authReq),
                 };
 
                 // Track search request counter
@@ -328,6 +436,7 @@ export function searchRoutes(service: SearchService = createSearchService()) {
                             resultCount: response.total,
                             duration: durationMs,
                             status: 'success',
+                            fusion: response.fusion,
                         })
                         .catch(() => {
                             /* ignore logging errors */
@@ -431,6 +540,7 @@ export function searchRoutes(service: SearchService = createSearchService()) {
                     ...query,
                     q: normalizedQuery,
                     tenantId: activeTenantId,
+                    bypassCache: wantsCacheBypass(authReq),
                 };
 
                 // Track search request counter
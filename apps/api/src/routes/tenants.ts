@@ -10,18 +10,80 @@ import {
     type ActiveTenantPayload as ActiveTenantPayloadBody,
     AppError,
     GetTenantWithStatsResponse,
+    type HybridFusion,
+    type SearchRankWeights,
+    resolveTenantSearchSettings,
+    UpdateTenantSearchSettingsPayload,
+    type UpdateTenantSearchSettingsPayload as UpdateTenantSearchSettingsPayloadBody,
+    CreateEmbeddingMigrationPayload,
+    type CreateEmbeddingMigrationPayload as CreateEmbeddingMigrationPayloadBody,
+    type EmbeddingMigrationListResponse,
+    ListDigestsQuery,
+    type ListDigestsQuery as ListDigestsQueryParams,
+    WorkspaceDigestActivitySchema,
+    type DigestListResponse,
+    JOBS,
 } from '@search-hub/schemas';
+import {
+    createEmbeddingProviderForModel,
+    embeddingModelId,
+} from '@search-hub/ai';
+import { loadAiEnv } from '@search-hub/config-env';
 
-import { validateBody } from '../middleware/validateMiddleware.js';
+import {
+    validateBody,
+    validateQuery,
+} from '../middleware/validateMiddleware.js';
 import type {
     AuthenticatedRequestWithBody,
+    AuthenticatedRequestWithQuery,
     AuthenticatedGetRequest,
 } from './types.js';
 import { db } from '@search-hub/db';
 import { logger as baseLogger } from '../logger.js';
+import { reembedQueue } from '../queue.js';
 
 const logger = baseLogger.child({ component: 'tenant-routes' });
 
+// omitted fields keep their current value
+function withoutUndefined<T extends object>(value: T): Partial<T> {
+    return Object.fromEntries(
+        Object.entries(value).filter(([, field]) => field !== undefined)
+    ) as Partial<T>;
+}
+
+/**
+ * Owner/admin gate for workspace-wide maintenance operations
+ */
+async function assertTenantAdmin(
+    userId: string,
+    tenantId: string,
+    operation: string
+) {
+    const memberships = await db.tenant.listForUser({ userId });
+    const membership = memberships.find((item) => item.tenantId === tenantId);
+
+    if (
+        !membership ||
+        (membership.role !== 'owner' && membership.role !== 'admin')
+    ) {
+        throw AppError.authorization(
+            'TENANT_ACCESS_DENIED',
+            'Only workspace owners and admins can manage embedding models',
+            {
+                context: {
+                    origin: 'server',
+                    domain: 'tenant',
+                    resource: 'Tenant',
+                    resourceId: tenantId,
+                    operation,
+                    userId,
+                },
+            }
+        );
+    }
+}
+
 export function tenantRoutes() {
     const router = Router();
 
@@ -312,5 +374,393 @@ export function tenantRoutes() {
         }
     });
 
+    router.get('/:tenantId/search-settings', async (req, res, next) => {
+        try {
+            const authReq = req as AuthenticatedGetRequest;
+            const { userId } = authReq.session;
+            const { tenantId } = req.params;
+
+            const memberships = await db.tenant.listForUser({ userId });
+            const membership = memberships.find(
+                (item) => item.tenantId === tenantId
+            );
+
+            if (!membership) {
+                throw AppError.authorization(
+                    'TENANT_ACCESS_DENIED',
+                    'User is not a member of this tenant',
+                    {
+                        context: {
+                            origin: 'server',
+                            domain: 'tenant',
+                            resource: 'Tenant',
+                            resourceId: tenantId,
+                            operation: 'getSearchSettings',
+                            userId,
+                        },
+                    }
+                );
+            }
+
+            const settings = await db.tenant.getSearchSettings(tenantId);
+
+            res.json(resolveTenantSearchSettings(settings));
+        } catch (error) {
+            next(error);
+        }
+    });
+
+    router.patch(
+        '/:tenantId/search-settings',
+        validateBody(UpdateTenantSearchSettingsPayload),
+        async (req, res, next) => {
+            try {
+                const reqWithUser =
+                    req as AuthenticatedRequestWithBody<UpdateTenantSearchSettingsPayloadBody>;
+                const { body } = reqWithUser.validated;
+                const { userId } = reqWithUser.session;
+                const tenantId = String(req.params.tenantId);
+
+                const memberships = await db.tenant.listForUser({ userId });
+                const membership = memberships.find(
+                    (item) => item.tenantId === tenantId
+                );
+
+                if (
+                    !membership ||
+                    (membership.role !== 'owner' && membership.role !== 'admin')
+                ) {
+                    throw AppError.authorization(
+                        'TENANT_ACCESS_DENIED',
+                        'Only workspace owners and admins can change search settings',
+                        {
+                            context: {
+                                origin: 'server',
+                                domain: 'tenant',
+                                resource: 'Tenant',
+                                resourceId: tenantId,
+                                operation: 'updateSearchSettings',
+                                userId,
+                            },
+                        }
+                    );
+                }
+
+                const stored =
+                    body.rankWeights || body.hybridFusion
+                        ? await db.tenant.getSearchSettings(tenantId)
+                        : null;
+
+                // undefined leaves the stored weights alone, null resets them
+                let nextWeights: SearchRankWeights | null | undefined =
+                    body.rankWeights === null ? null : undefined;
+                if (body.rankWeights) {
+                    nextWeights = {
+                        ...resolveTenantSearchSettings(stored).rankWeights,
+                        ...withoutUndefined(body.rankWeights),
+                    };
+                }
+
+                // same for the fusion defaults
+                let nextFusion: HybridFusion | null | undefined =
+                    body.hybridFusion === null ? null : undefined;
+                if (body.hybridFusion) {
+                    nextFusion = {
+                        ...resolveTenantSearchSettings(stored).hybridFusion,
+                        ...withoutUndefined(body.hybridFusion),
+                    };
+                }
+
+                const updated = await db.tenant.updateSearchSettings(tenantId, {
+                    searchRankWeights: nextWeights,
+                    textSearchConfig: body.textSearchConfig,
+                    hybridFusion: nextFusion,
+                    llmModel: body.llmModel,
+                });
+
+                logger.info(
+                    {
+                        tenantId,
+                        userId,
+                        rankWeights: nextWeights,
+                        textSearchConfig: body.textSearchConfig,
+                        hybridFusion: nextFusion,
+                        llmModel: body.llmModel,
+                    },
+                    'tenant.search_settings.updated'
+                );
+
+                res.json(resolveTenantSearchSettings(updated));
+            } catch (error) {
+                next(error);
+            }
+        }
+    );
+
+    router.get('/:tenantId/embedding-migrations', async (req, res, next) => {
+        try {
+            const authReq = req as AuthenticatedGetRequest;
+            const { userId } = authReq.session;
+            const tenantId = String(req.params.tenantId);
+
+            await assertTenantAdmin(
+                userId,
+                tenantId,
+                'listEmbeddingMigrations'
+            );
+
+            const [settings, migrations] = await Promise.all([
+                db.tenant.getSearchSettings(tenantId),
+                db.embeddingMigration.listByTenant(tenantId),
+            ]);
+
+            const response: EmbeddingMigrationListResponse = {
+                activeModel: settings?.embeddingModel ?? null,
+                migrations: migrations.map((migration) => ({
+                    ...migration,
+                    startedAt: migration.startedAt?.toISOString() ?? null,
+                    completedAt: migration.completedAt?.toISOString() ?? null,
+                    cutoverAt: migration.cutoverAt?.toISOString() ?? null,
+                    createdAt: migration.createdAt.toISOString(),
+                })),
+            };
+
+            res.json(response);
+        } catch (error) {
+            next(error);
+        }
+    });
+
+    router.post(
+        '/:tenantId/embedding-migrations',
+        validateBody(CreateEmbeddingMigrationPayload),
+        async (req, res, next) => {
+            try {
+                const reqWithUser =
+                    req as AuthenticatedRequestWithBody<CreateEmbeddingMigrationPayloadBody>;
+                const { body } = reqWithUser.validated;
+                const { userId } = reqWithUser.session;
+                const tenantId = String(req.params.tenantId);
+
+                await assertTenantAdmin(
+                    userId,
+                    tenantId,
+                    'createEmbeddingMigration'
+                );
+
+                const targetModel = embeddingModelId({
+                    name: body.provider,
+                    model: body.model,
+                    dimensions: body.dimensions,
+                });
+
+                // fail fast on missing credentials instead of in the worker
+                try {
+                    createEmbeddingProviderForModel(targetModel, loadAiEnv());
+                } catch (error) {
+                    throw AppError.validation(
+                        'EMBEDDING_PROVIDER_UNAVAILABLE',
+                        error instanceof Error
+                            ? error.message
+                            : 'Embedding provider is not configured',
+                        {
+                            context: {
+                                origin: 'server',
+                                domain: 'tenant',
+                                resource: 'EmbeddingMigration',
+                                operation: 'createEmbeddingMigration',
+                                metadata: { targetModel },
+                            },
+                        }
+                    );
+                }
+
+                const inProgress =
+                    await db.embeddingMigration.findInProgress(tenantId);
+                if (inProgress) {
+                    throw AppError.conflict(
+                        'EMBEDDING_MIGRATION_IN_PROGRESS',
+                        'Another embedding migration is still running for this workspace',
+                        {
+                            context: {
+                                origin: 'server',
+                                domain: 'tenant',
+                                resource: 'EmbeddingMigration',
+                                resourceId: inProgress.id,
+                                operation: 'createEmbeddingMigration',
+                                userId,
+                            },
+                        }
+                    );
+                }
+
+                const migration = await db.embeddingMigration.create(
+                    tenantId,
+                    targetModel
+                );
+
+                await reembedQueue.add(
+                    JOBS.REEMBED_TENANT,
+                    { tenantId, migrationId: migration.id },
+                    {
+                        attempts: 3,
+                        backoff: { type: 'exponential', delay: 5000 },
+                        removeOnComplete: true,
+                        removeOnFail: false,
+                        jobId: `reembed-${migration.id}`,
+                    }
+                );
+
+                logger.info(
+                    {
+                        tenantId,
+                        userId,
+                        migrationId: migration.id,
+                        targetModel,
+                        totalChunks: migration.totalChunks,
+                    },
+                    'tenant.embedding_migration.queued'
+                );
+
+                res.status(202).json(migration);
+            } catch (error) {
+                next(error);
+            }
+        }
+    );
+
+    router.post(
+        '/:tenantId/embedding-migrations/:migrationId/cutover',
+        async (req, res, next) => {
+            try {
+                const authReq = req as AuthenticatedGetRequest;
+                const { userId } = authReq.session;
+                const tenantId = String(req.params.tenantId);
+                const migrationId = String(req.params.migrationId);
+
+                await assertTenantAdmin(
+                    userId,
+                    tenantId,
+                    'cutoverEmbeddingMigration'
+                );
+
+                const migration = await db.embeddingMigration.findById(
+                    tenantId,
+                    migrationId
+                );
+                if (!migration) {
+                    throw AppError.notFound(
+                        'EMBEDDING_MIGRATION_NOT_FOUND',
+                        'Embedding migration not found',
+                        {
+                            context: {
+                                origin: 'server',
+                                domain: 'tenant',
+                                resource: 'EmbeddingMigration',
+                                resourceId: migrationId,
+                                operation: 'cutoverEmbeddingMigration',
+                                tenantId,
+                            },
+                        }
+                    );
+                }
+                // a partial shadow set would hide documents from semantic search
+                if (migration.status !== 'completed') {
+                    throw AppError.conflict(
+                        'EMBEDDING_MIGRATION_NOT_COMPLETED',
+                        `Embedding migration is ${migration.status}; only completed migrations can be cut over`,
+                        {
+                            context: {
+                                origin: 'server',
+                                domain: 'tenant',
+                                resource: 'EmbeddingMigration',
+                                resourceId: migrationId,
+                                operation: 'cutoverEmbeddingMigration',
+                                tenantId,
+                            },
+                        }
+                    );
+                }
+
+                const updated = await db.embeddingMigration.cutover(
+                    tenantId,
+                    migrationId
+                );
+
+                logger.info(
+                    {
+                        tenantId,
+                        userId,
+                        migrationId,
+                        embeddingModel: updated.targetModel,
+                    },
+                    'tenant.embedding_migration.cutover'
+                );
+
+                res.json(updated);
+            } catch (error) {
+                next(error);
+            }
+        }
+    );
+
+    router.get(
+        '/:tenantId/digests',
+        validateQuery(ListDigestsQuery),
+        async (req, res, next) => {
+            try {
+                const authReq =
+                    req as AuthenticatedRequestWithQuery<ListDigestsQueryParams>;
+                const { userId } = authReq.session;
+                const tenantId = String(req.params.tenantId);
+                const { limit } = authReq.validated.query;
+
+                const memberships = await db.tenant.listForUser({ userId });
+                const membership = memberships.find(
+                    (item) => item.tenantId === tenantId
+                );
+
+                if (!membership) {
+                    throw AppError.authorization(
+                        'TENANT_ACCESS_DENIED',
+                        'User is not a member of this tenant',
+                        {
+                            context: {
+                                origin: 'server',
+                                domain: 'tenant',
+                                resource: 'Tenant',
+                                resourceId: tenantId,
+                                operation: 'listDigests',
+                                userId,
+                            },
+                        }
+                    );
+                }
+
+                const digests = await db.workspaceDigest.listForTenant(
+                    tenantId,
+                    limit
+                );
+
+                const response: DigestListResponse = {
+                    digests: digests.map((digest) => ({
+                        id: digest.id,
+                        periodStart: digest.periodStart.toISOString(),
+                        periodEnd: digest.periodEnd.toISOString(),
+                        summary: digest.summary,
+                        activity: WorkspaceDigestActivitySchema.parse(
+                            digest.activity
+                        ),
+                        createdAt: digest.createdAt.toISOString(),
+                    })),
+                };
+
+                res.json(response);
+            } catch (error) {
+                next(error);
+            }
+        }
+    );
+
     return router;
 }
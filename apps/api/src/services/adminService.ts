@@ -6,6 +6,8 @@ import type {
     WorkerStatus,
     DocumentIndexingDetail,
     ProblemDocuments,
+    VectorIndexHealthResponse,
+    VectorIndexRecommendation,
 } from '@search-hub/schemas';
 import { env } from '../config/env.js';
 const WORKER_CONCURRENCY = env.WORKER_CONCURRENCY;
@@ -345,3 +347,61 @@ export async function getQueueStatus(
 
     return response;
 }
+
+/**
+ * What to do about a tenant's ANN index. Indexes are only dropped once the
+ * tenant falls well below the threshold, so a tenant hovering around it
+ * doesn't flip between create and drop.
+ */
+export function recommendVectorIndexAction({
+    chunkCount,
+    threshold,
+    tenantIndex,
+}: {
+    chunkCount: number;
+    threshold: number;
+    tenantIndex: { valid: boolean } | null;
+}): VectorIndexRecommendation {
+    if (tenantIndex && !tenantIndex.valid) {
+        return 'rebuild_invalid_index';
+    }
+    if (!tenantIndex && chunkCount >= threshold) {
+        return 'create_tenant_index';
+    }
+    if (tenantIndex && chunkCount < threshold / 2) {
+        return 'drop_tenant_index';
+    }
+    return 'ok';
+}
+
+/**
+ * ANN index health for a tenant: which search strategy applies and whether
+ * the index matches the tenant's size. Other tenants' indexes are not listed.
+ */
+export async function getVectorIndexHealth(
+    tenantId: string
+): Promise<VectorIndexHealthResponse> {
+    const [chunkCount, indexes] = await Promise.all([
+        db.document.countChunks(tenantId),
+        db.vectorIndex.listIndexes(),
+    ]);
+
+    const tenantIndex =
+        indexes.find((index) => index.tenantId === tenantId) ?? null;
+    const threshold = env.VECTOR_INDEX_TENANT_THRESHOLD;
+
+    return {
+        tenantId,
+        strategy: tenantIndex?.valid ? 'hnsw' : 'exact',
+        chunkCount,
+        threshold,
+        efSearch: env.VECTOR_EF_SEARCH,
+        tenantIndex,
+        globalIndexes: indexes.filter((index) => index.tenantId === null),
+        recommendation: recommendVectorIndexAction({
+            chunkCount,
+            threshold,
+            tenantIndex,
+        }),
+    };
+}
@@ -2,8 +2,14 @@ import { db as defaultDb } from '@search-hub/db';
 import {
     AppError,
     CreateDocumentRequestType,
+    estimateSummaryTokens,
     IndexDocumentJobSchema,
     JOBS,
+    SUMMARY_CHARS_PER_TOKEN,
+    SUMMARY_FEATURE,
+    SUMMARY_MAX_INPUT_TOKENS,
+    SUMMARY_MAX_REPLY_TOKENS,
+    SummarizeDocumentJobSchema,
     type DocumentDetailsType,
     type IndexDocumentJob,
     type UpdateDocumentTitlePayloadType,
@@ -13,9 +19,11 @@ import {
     type UpdateDocumentIconPayloadType,
 } from '@search-hub/schemas';
 import { metrics } from '@search-hub/observability';
+import { loadAiEnv } from '@search-hub/config-env';
 import {
     indexQueue as defaultIndexQueue,
     reminderQueue as defaultReminderQueue,
+    summaryQueue as defaultSummaryQueue,
 } from '../queue.js';
 import { logger as baseLogger } from '../logger.js';
 import type { Logger } from 'pino';
@@ -185,8 +193,10 @@ export interface DocumentServiceDependencies {
     db?: typeof defaultDb;
     indexQueue?: typeof defaultIndexQueue;
     reminderQueue?: typeof defaultReminderQueue;
+    summaryQueue?: typeof defaultSummaryQueue;
     redis?: RedisClientType;
     logger?: Logger;
+    summaryDailyTokenBudget?: number; // defaults to SUMMARY_DAILY_TOKEN_BUDGET
 }
 
 export interface DocumentService {
@@ -236,6 +246,16 @@ export interface DocumentService {
         context: { tenantId: string; userId: string }
     ): Promise<string>;
 
+    /**
+     * Queue a summary regeneration that runs even if the content is
+     * unchanged. Refused when the tenant's daily summary budget can't cover
+     * the estimated cost, instead of queueing a job that would be skipped.
+     */
+    queueSummaryRegeneration(
+        documentId: string,
+        context: { tenantId: string; userId: string }
+    ): Promise<string>;
+
     // Tag-related methods
     addTagsToDocument(
         documentId: string,
@@ -330,8 +350,11 @@ export function createDocumentService(
     const db = deps.db ?? defaultDb;
     const indexQueue = deps.indexQueue ?? defaultIndexQueue;
     const reminderQueue = deps.reminderQueue ?? defaultReminderQueue;
+    const summaryQueue = deps.summaryQueue ?? defaultSummaryQueue;
     const redis = deps.redis ?? defaultRedisClient;
     const logger = deps.logger ?? defaultLogger;
+    const summaryDailyTokenBudget =
+        deps.summaryDailyTokenBudget ?? loadAiEnv().SUMMARY_DAILY_TOKEN_BUDGET;
 
     // Create the debounced reindex scheduler with injected dependencies
     const scheduleDebouncedReindex = createScheduleDebouncedReindex(
@@ -924,6 +947,118 @@ export function createDocumentService(
         return String(job.id);
     }
 
+    async function queueSummaryRegeneration(
+        documentId: string,
+        context: { tenantId: string; userId: string }
+    ): Promise<string> {
+        const membership =
+            await db.tenantMembership.findMembershipByUserIdAndTenantId({
+                userId: context.userId,
+                tenantId: context.tenantId,
+            });
+
+        if (!membership) {
+            throw AppError.authorization(
+                'DOCUMENT_SUMMARY_FORBIDDEN',
+                'You do not have permission to summarize this document',
+                {
+                    context: {
+                        origin: 'app',
+                        domain: 'documents',
+                        resource: 'Document',
+                        resourceId: documentId,
+                        operation: 'summarize',
+                    },
+                }
+            );
+        }
+
+        const document = await db.document.findUnique(documentId);
+
+        if (!document || document.tenantId !== context.tenantId) {
+            throw AppError.notFound(
+                'DOCUMENT_NOT_FOUND',
+                'Document not found',
+                {
+                    context: {
+                        origin: 'app',
+                        domain: 'documents',
+                        resource: 'Document',
+                        resourceId: documentId,
+                        operation: 'summarize',
+                    },
+                }
+            );
+        }
+
+        // same estimate the worker reserves, minus its short system message
+        const budget =
+            (await db.tenant.getSummaryTokenBudget(context.tenantId)) ??
+            summaryDailyTokenBudget;
+        const input = (document.content ?? '').slice(
+            0,
+            SUMMARY_MAX_INPUT_TOKENS * SUMMARY_CHARS_PER_TOKEN
+        );
+        const estimate =
+            estimateSummaryTokens(`Title: ${document.title}\n\n${input}`) +
+            SUMMARY_MAX_REPLY_TOKENS;
+        const used = await db.tokenUsage.getDailyUsage(
+            context.tenantId,
+            SUMMARY_FEATURE
+        );
+
+        if (used + estimate > budget) {
+            const now = new Date();
+            const nextUtcDay = Date.UTC(
+                now.getUTCFullYear(),
+                now.getUTCMonth(),
+                now.getUTCDate() + 1
+            );
+            throw AppError.rateLimit(
+                'SUMMARY_BUDGET_EXHAUSTED',
+                budget === 0
+                    ? 'Document summaries are disabled for this workspace'
+                    : "The workspace's daily summary budget is spent; try again tomorrow (UTC)",
+                {
+                    retryAfterMs:
+                        budget === 0 ? undefined : nextUtcDay - now.getTime(),
+                    context: {
+                        origin: 'app',
+                        domain: 'documents',
+                        resource: 'Document',
+                        resourceId: documentId,
+                        operation: 'summarize',
+                        metadata: { used, estimate, budget },
+                    },
+                }
+            );
+        }
+
+        const job = await summaryQueue.add(
+            JOBS.SUMMARIZE_DOCUMENT,
+            SummarizeDocumentJobSchema.parse({
+                tenantId: context.tenantId,
+                documentId,
+                force: true,
+            }),
+            {
+                ...DEFAULT_QUEUE_OPTIONS,
+                jobId: `summary-${documentId}-${Date.now()}`,
+            }
+        );
+
+        logger.info(
+            {
+                documentId,
+                jobId: job.id,
+                tenantId: context.tenantId,
+            },
+            'document.summary.queued'
+        );
+
+        return String(job.id);
+    }
+
     async function getDocumentTags(
         documentId: string,
         context: { tenantId: string; userId: string }
@@ -1445,6 +1580,7 @@ export function createDocumentService(
         updateDocumentContent,
         updateDocumentIcon,
         queueDocumentReindexing,
+        queueSummaryRegeneration,
         addTagsToDocument,
         removeTagFromDocument,
         getDocumentTags,
@@ -0,0 +1,190 @@
+import { db as defaultDb } from '@search-hub/db';
+import type { Logger } from 'pino';
+import {
+    AppError,
+    type DocumentDuplicate,
+    type DuplicateDocument,
+    type DuplicateListResponse,
+    type DuplicateStatus,
+    type ResolveDuplicatePayload,
+} from '@search-hub/schemas';
+import { logger as baseLogger } from '../logger.js';
+
+const defaultLogger = baseLogger.child({ component: 'duplicate-service' });
+
+interface DuplicateContext {
+    tenantId: string;
+    userId: string;
+}
+
+type DuplicateRow = NonNullable<
+    Awaited<ReturnType<typeof defaultDb.documentDuplicate.findById>>
+>;
+
+function toDuplicateDocument(
+    document: DuplicateRow['document']
+): DuplicateDocument {
+    return {
+        id: document.id,
+        title: document.title,
+        updatedAt: document.updatedAt.toISOString(),
+        createdByName: document.createdBy.name,
+    };
+}
+
+function toDuplicate(row: DuplicateRow): DocumentDuplicate {
+    return {
+        id: row.id,
+        documents: [
+            toDuplicateDocument(row.document),
+            toDuplicateDocument(row.duplicate),
+        ],
+        similarity: row.similarity,
+        exactMatch: row.exactMatch,
+        status: row.status,
+        detectedAt: row.detectedAt.toISOString(),
+        resolvedAt: row.resolvedAt?.toISOString() ?? null,
+    };
+}
+
+function errorContext(id: string, operation: string) {
+    return {
+        context: {
+            origin: 'app' as const,
+            domain: 'duplicates',
+            resource: 'DocumentDuplicate',
+            resourceId: id,
+            operation,
+        },
+    };
+}
+
+function notFound(id: string, operation: string) {
+    return AppError.notFound(
+        'DUPLICATE_NOT_FOUND',
+        'Duplicate pair not found',
+        errorContext(id, operation)
+    );
+}
+
+function notOpen(id: string, operation: string) {
+    return AppError.conflict(
+        'DUPLICATE_NOT_OPEN',
+        'Duplicate pair has already been dismissed or resolved',
+        errorContext(id, operation)
+    );
+}
+
+export interface DuplicateServiceDependencies {
+    db?: typeof defaultDb;
+    logger?: Logger;
+}
+
+export interface DuplicateService {
+    list(
+        status: DuplicateStatus,
+        context: DuplicateContext
+    ): Promise<DuplicateListResponse>;
+    dismiss(id: string, context: DuplicateContext): Promise<DocumentDuplicate>;
+    resolve(
+        id: string,
+        data: ResolveDuplicatePayload,
+        context: DuplicateContext
+    ): Promise<DocumentDuplicate>;
+}
+
+export function createDuplicateService(
+    deps: DuplicateServiceDependencies = {}
+): DuplicateService {
+    const db = deps.db ?? defaultDb;
+    const logger = deps.logger ?? defaultLogger;
+
+    async function findOrThrow(
+        id: string,
+        context: DuplicateContext,
+        operation: string
+    ) {
+        const row = await db.documentDuplicate.findById(id, context.tenantId);
+        if (!row) {
+            throw notFound(id, operation);
+        }
+        return row;
+    }
+
+    async function list(status: DuplicateStatus, context: DuplicateContext) {
+        const rows = await db.documentDuplicate.listForTenant(
+            context.tenantId,
+            status
+        );
+        return { duplicates: rows.map(toDuplicate) };
+    }
+
+    async function dismiss(id: string, context: DuplicateContext) {
+        await findOrThrow(id, context, 'dismiss');
+
+        const dismissed = await db.documentDuplicate.dismiss(
+            id,
+            context.tenantId
+        );
+        if (!dismissed) {
+            throw notOpen(id, 'dismiss');
+        }
+        logger.info({ ...context, duplicateId: id }, 'duplicate.dismissed');
+
+        return toDuplicate(await findOrThrow(id, context, 'dismiss'));
+    }
+
+    async function resolve(
+        id: string,
+        data: ResolveDuplicatePayload,
+        context: DuplicateContext
+    ) {
+        const pair = await findOrThrow(id, context, 'resolve');
+
+        const ids = [pair.documentId, pair.duplicateId];
+        if (!ids.includes(data.keepDocumentId)) {
+            throw AppError.validation(
+                'DUPLICATE_KEEP_INVALID',
+                'keepDocumentId must be one of the two documents of the pair',
+                {
+                    context: {
+                        ...errorContext(id, 'resolve').context,
+                        metadata: { keepDocumentId: data.keepDocumentId },
+                    },
+                }
+            );
+        }
+        const archiveDocumentId =
+            data.keepDocumentId === pair.documentId
+                ? pair.duplicateId
+                : pair.documentId;
+
+        const resolved = await db.documentDuplicate.resolve(
+            id,
+            context.tenantId,
+            {
+                keepDocumentId: data.keepDocumentId,
+                archiveDocumentId,
+                merge: data.action === 'merge',
+                userId: context.userId,
+            }
+        );
+        if (!resolved) {
+            throw notOpen(id, 'resolve');
+        }
+        logger.info(
+            {
+                ...context,
+                duplicateId: id,
+                action: data.action,
+                keepDocumentId: data.keepDocumentId,
+                archiveDocumentId,
+            },
+            'duplicate.resolved'
+        );
+
+        return toDuplicate(await findOrThrow(id, context, 'resolve'));
+    }
+
+    return { list, dismiss, resolve };
+}
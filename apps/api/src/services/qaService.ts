@@ -1,23 +1,177 @@
-import { createGroqHelpers, normalizeQuery } from '@search-hub/ai';
+import {
+    chatJson,
+    createLlmProvider,
+    normalizeQuery,
+    type LlmProvider,
+} from '@search-hub/ai';
+import { loadAiEnv } from '@search-hub/config-env';
+import { db as defaultDb, type TextQuery } from '@search-hub/db';
+import { z } from 'zod';
 import { logger as baseLogger } from '../logger.js';
 import {
     QaRequestWithTenant,
+    type QaClaim,
     type QaResponse,
     type QaSource,
+    type QaStreamEvent,
 } from '@search-hub/schemas';
-import { createSearchService, type SearchService } from './searchService.js';
+import {
+    createSearchService,
+    type ContextChunk,
+    type SearchService,
+} from './searchService.js';
+import { verifyClaims, type GroundednessResult } from '../lib/groundedness.js';
+import { STOPWORDS } from '../lib/stopwords.js';
+
+export interface QaTurn {
+    role: 'user' | 'assistant';
+    content: string;
+}
+
+export interface QaAnswerOptions {
+    history?: QaTurn[]; // earlier turns of the conversation, oldest first
+    retrievalQuery?: string; // searched instead of the question
+}
 
 export interface QaService {
-    answerQuestion(params: QaRequestWithTenant): Promise<QaResponse>;
+    answerQuestion(
+        params: QaRequestWithTenant,
+        options?: QaAnswerOptions
+    ): Promise<QaResponse>;
+    /**
+     * Condense a follow-up and the conversation before it into a standalone
+     * search query. Returns the question unchanged when there is no history or
+     * the model call fails.
+     */
+    rewriteQuery(
+        question: string,
+        history: QaTurn[],
+        tenantId: string
+    ): Promise<string>;
+    /**
+     * Same retrieval as answerQuestion, with the answer generated as plain text
+     * and yielded as it arrives. Aborting `signal` stops generation.
+     */
+    streamAnswer(
+        params: QaRequestWithTenant,
+        signal?: AbortSignal
+    ): AsyncGenerator<QaStreamEvent>;
 }
 
 interface QaDependencies {
+    db?: typeof defaultDb;
     searchService?: SearchService;
+    llm?: LlmProvider;
+}
+
+interface Retrieval {
+    sources: QaSource[]; // numbered [1], [2]… in the prompt
+    chunkIdx: number[]; // chunk each source was taken from
+}
+
+const NOT_VERIFIED: GroundednessResult = { claims: [], groundedness: null };
+
+function unsupportedCount(claims: QaClaim[]) {
+    return claims.filter((claim) => !claim.supported).length;
 }
 
 const logger = baseLogger.child({ component: 'qa-service' });
 
-function buildPrompt(question: string, sources: QaSource[]): string {
+// budgeting estimate; English prose averages about four characters per token
+const CHARS_PER_TOKEN = 4;
+
+// lexical terms taken from a question
+const MAX_QUESTION_TERMS = 12;
+
+function estimateTokens(text: string): number {
+    return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Terms of a question for the lexical half of retrieval: identifiers (anything
+ * with a digit, like error codes and ticket numbers) and content words. Any
+ * term may match; more matches rank higher.
+ */
+function questionTextQuery(question: string): TextQuery {
+    const terms = new Set<string>();
+    for (const raw of question.split(/\s+/)) {
+        const word = raw.replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, '');
+        if (
+            /\d/.test(word) ||
+            (word.length > 2 && !STOPWORDS.has(word.toLowerCase()))
+        ) {
+            terms.add(word);
+        }
+    }
+
+    return {
+        groups: [
+            [...terms].slice(0, MAX_QUESTION_TERMS).map((value) => ({
+                value,
+                phrase: false,
+                negated: false,
+            })),
+        ],
+        titleTerms: [],
+    };
+}
+
+/**
+ * Best chunks first while they fit the token budget. The best chunk is always
+ * included, cut to the budget if it has to be.
+ */
+function budgetContext(
+    chunks: ContextChunk[],
+    budgetTokens: number,
+    maxSources: number
+): ContextChunk[] {
+    const selected: ContextChunk[] = [];
+    let remaining = budgetTokens;
+
+    for (const chunk of chunks) {
+        if (selected.length >= maxSources) {
+            break;
+        }
+        const cost =
+            estimateTokens(chunk.documentTitle) + estimateTokens(chunk.content);
+        if (cost <= remaining) {
+            selected.push(chunk);
+            remaining -= cost;
+        } else if (selected.length === 0) {
+            const contentChars =
+                (remaining - estimateTokens(chunk.documentTitle)) *
+                CHARS_PER_TOKEN;
+            selected.push({
+                ...chunk,
+                content: chunk.content.slice(0, Math.max(contentChars, 0)),
+            });
+            remaining = 0;
+        }
+    }
+
+    return selected;
+}
+
+// long answers in the history would crowd out the Context
+const HISTORY_TURN_CHARS = 800;
+
+function formatHistory(history: QaTurn[]): string {
+    return history
+        .map((turn) => {
+            const content =
+                turn.content.length > HISTORY_TURN_CHARS
+                    ? `${turn.content.slice(0, HISTORY_TURN_CHARS)}…`
+                    : turn.content;
+            return `${turn.role === 'user' ? 'User' : 'Assistant'}: ${content}`;
+        })
+        .join('\n');
+}
+
+function buildPrompt(
+    question: string,
+    sources: QaSource[],
+    history: QaTurn[] = []
+): string {
     const context = sources
         .map(
             (source, idx) =>
@@ -30,77 +184,240 @@ function buildPrompt(question: string, sources: QaSource[]): string {
         'If the Context fully supports the answer: answer using only the Context and cite sources like [1], [2].',
         'If the Context is insufficient: say "Context is insufficient" and then provide a best-effort answer from general knowledge WITHOUT citations.',
         'Never fabricate citations; only cite items present in Context.',
+        ...(history.length > 0
+            ? [
+                  'Conversation so far (use it to resolve references in the Question; cite only Context):',
+                  formatHistory(history),
+              ]
+            : []),
         `Question: ${question}`,
         'Context:',
         context || '(no context provided)',
     ].join('\n\n');
 }
 
-interface QaModelOut {
-    answer: string;
-    citations: number[];
-    noContext: boolean;
-}
+const NO_CONTEXT_ANSWER =
+    'I could not find relevant context in your workspace to answer this question.';
 
-function safeJsonParse<T>(s: string): T | null {
-    try {
-        return JSON.parse(s) as T;
-    } catch {
-        return null;
+// streamed answers are shown as they arrive, so they can't be wrapped in JSON
+const STREAM_SYSTEM_MESSAGE = `
+Answer in plain text; Markdown is allowed.
+Rules:
+- Cite the Context items you rely on inline, like [1] or [2][3].
+- If Context is insufficient, start with "Context is insufficient" and do not cite anything.
+- Never invent citations.
+`;
+
+/**
+ * Sources referenced as [n] in a streamed answer, in source order
+ */
+function citedSourcesOf(answer: string, sources: QaSource[]): QaSource[] {
+    const cited = new Set<number>();
+    for (const match of answer.matchAll(/\[(\d+)\]/g)) {
+        cited.add(Number(match[1]));
     }
+    return sources.filter((_, idx) => cited.has(idx + 1));
+}
+
+const REWRITE_SYSTEM_MESSAGE = `
+Rewrite the user's latest question as a standalone search query, using the conversation to resolve pronouns and references.
+Return only the query on a single line, without quotes or explanation.
+`;
+
+// a reply missing the optional fields still carries a usable answer
+const QaModelOut = z.object({
+    answer: z.string(),
+    citations: z.array(z.number().int()).catch([]),
+    noContext: z.boolean().catch(false),
+});
+type QaModelOut = z.infer<typeof QaModelOut>;
+
+function toQaModelOut(value: unknown): QaModelOut | null {
+    return QaModelOut.safeParse(value).data ?? null;
 }
 
 export function createQaService(deps: QaDependencies = {}): QaService {
+    const db = deps.db ?? defaultDb;
     const searchService = deps.searchService ?? createSearchService();
-    const { chat } = createGroqHelpers();
+    let provider = deps.llm;
 
-    async function answerQuestion(
-        params: QaRequestWithTenant
-    ): Promise<QaResponse> {
+    // created on first use so the API boots without chat credentials; only
+    // Q&A requests fail then
+    function llmProvider(): LlmProvider {
+        provider ??= createLlmProvider(loadAiEnv());
+        return provider;
+    }
+
+    // the workspace's chat model; undefined uses the provider default
+    async function modelFor(tenantId: string): Promise<string | undefined> {
+        const settings = await db.tenant.getSearchSettings(tenantId);
+        return settings?.llmModel ?? undefined;
+    }
+
+    async function retrieveSources(
+        params: QaRequestWithTenant,
+        retrievalQuery = params.question
+    ): Promise<Retrieval> {
         const {
             tenantId,
-            question,
             k = 5,
             recall_k = 15,
-            maxSources = 5,
+            maxSources = 10,
+            contextTokens = 2000,
         } = params;
 
         // Normalize query before semantic search
-        const normalizedQuery = normalizeQuery(question);
+        const normalizedQuery = normalizeQuery(retrievalQuery);
 
         logger.debug(
             {
-                originalQuery: question,
+                originalQuery: retrievalQuery,
                 normalizedQuery,
             },
             'qa.query_normalized'
         );
 
-        const semanticResult = await searchService.semanticSearch({
-            tenantId,
-            q: normalizedQuery,
-            k,
-            recall_k,
-        });
-
-        const sources: QaSource[] = semanticResult.items
-            .slice(0, maxSources)
-            .map((item) => ({
-                id: item.documentId,
-                title: item.documentTitle ?? 'Untitled',
-                snippet: item.content ?? '',
-                score: item.rerankScore,
-            }));
+        const { items, semanticStatus } =
+            await searchService.retrieveContextChunks({
+                tenantId,
+                q: normalizedQuery,
+                textQuery: questionTextQuery(retrievalQuery),
+                k,
+                recall_k,
+            });
+        const selected = budgetContext(items, contextTokens, maxSources);
+
+        logger.info(
+            {
+                tenantId,
+                semanticStatus,
+                candidatesCount: items.length,
+                sourcesCount: selected.length,
+                contextTokens: selected.reduce(
+                    (sum, chunk) => sum + estimateTokens(chunk.content),
+                    0
+                ),
+            },
+            'qa.retrieval.succeeded'
+        );
+
+        return {
+            sources: selected.map((chunk) => ({
+                id: chunk.documentId,
+                title: chunk.documentTitle,
+                snippet: chunk.content,
+                score: chunk.score,
+            })),
+            chunkIdx: selected.map((chunk) => chunk.idx),
+        };
+    }
+
+    /**
+     * Map the answer's sentences to supporting passages in the chunks around
+     * each source's best match. Verification is best-effort: a failure leaves
+     * the answer unverified rather than failing it.
+     */
+    async function verifyAnswer(
+        tenantId: string,
+        answer: string,
+        retrieval: Retrieval,
+        cited: QaSource[]
+    ): Promise<GroundednessResult> {
+        try {
+            const citedIds = new Set(cited.map((source) => source.id));
+            const grounding = await Promise.all(
+                retrieval.sources.map(async (source, idx) => {
+                    const chunks = await db.search.getAdjacentChunks(
+                        source.id,
+                        tenantId,
+                        retrieval.chunkIdx[idx] ?? 0,
+                        1
+                    );
+                    return {
+                        number: idx + 1,
+                        cited: citedIds.has(source.id),
+                        chunks: chunks.map((chunk) => ({
+                            ...chunk,
+                            documentId: source.id,
+                        })),
+                    };
+                })
+            );
+            return verifyClaims(answer, grounding);
+        } catch (error) {
+            logger.warn(
+                {
+                    tenantId,
+                    error:
+                        error instanceof Error ? error.message : String(error),
+                },
+                'qa.verify.failed'
+            );
+            return NOT_VERIFIED;
+        }
+    }
+
+    async function rewriteQuery(
+        question: string,
+        history: QaTurn[],
+        tenantId: string
+    ): Promise<string> {
+        if (history.length === 0) {
+            return question;
+        }
+
+        try {
+            const rewritten = await llmProvider().chat({
+                model: await modelFor(tenantId),
+                prompt: [
+                    'Conversation:',
+                    formatHistory(history),
+                    `Latest question: ${question}`,
+                ].join('\n\n'),
+                temperature: 0,
+                maxTokens: 100,
+                system: REWRITE_SYSTEM_MESSAGE,
+            });
+            const query = rewritten.trim().split('\n')[0]?.trim() ?? '';
+
+            logger.debug(
+                { question, rewrittenQuery: query },
+                'qa.query_rewritten'
+            );
+            return query || question;
+        } catch (error) {
+            logger.warn(
+                {
+                    error:
+                        error instanceof Error ? error.message : String(error),
+                },
+                'qa.query_rewrite.failed'
+            );
+            return question;
+        }
+    }
+
+    async function answerQuestion(
+        params: QaRequestWithTenant,
+        options: QaAnswerOptions = {}
+    ): Promise<QaResponse> {
+        const { tenantId, question } = params;
+        const [retrieval, model] = await Promise.all([
+            retrieveSources(params, options.retrievalQuery),
+            modelFor(tenantId),
+        ]);
+        const { sources } = retrieval;
 
         if (sources.length === 0) {
             return {
-                answer: 'I could not find relevant context in your workspace to answer this question.',
+                answer: NO_CONTEXT_ANSWER,
                 sources: [],
                 noContext: true,
+                ...NOT_VERIFIED,
             };
         }
 
-        const prompt = buildPrompt(question, sources);
+        const prompt = buildPrompt(question, sources, options.history);
 
         const systemMessage = `
         Return ONLY valid JSON with this schema:
@@ -118,18 +435,27 @@ export function createQaService(deps: QaDependencies = {}): QaService {
         `;
 
         try {
-            const answer = await chat({
-                prompt,
-                temperature: 0.2,
-                maxTokens: 600,
-                system: systemMessage,
-            });
-
-            const parsed = safeJsonParse<QaModelOut>(answer);
+            const llm = llmProvider();
+            const { value: parsed, raw: answer } = await chatJson(
+                llm,
+                {
+                    prompt,
+                    model,
+                    temperature: 0.2,
+                    maxTokens: 600,
+                    system: systemMessage,
+                },
+                toQaModelOut
+            );
 
             if (!parsed) {
                 // fallback: treat as no context to avoid returning irrelevant sources
-                return { answer: answer, sources: [], noContext: true };
+                return {
+                    answer: answer,
+                    sources: [],
+                    noContext: true,
+                    ...NOT_VERIFIED,
+                };
             }
 
             function isQaSource(x: QaSource | undefined): x is QaSource {
@@ -140,12 +466,22 @@ export function createQaService(deps: QaDependencies = {}): QaService {
                 .filter((n) => n >= 1 && n <= sources.length) // optional but recommended
                 .map((n) => sources[n - 1])
                 .filter(isQaSource);
+            const verified = await verifyAnswer(
+                tenantId,
+                parsed.answer,
+                retrieval,
+                citedSources
+            );
             logger.info(
                 {
                     tenantId,
                     questionLength: question.length,
                     sourcesCount: sources.length,
                     answerLength: answer.length,
+                    provider: llm.name,
+                    model: model ?? llm.defaultModel,
+                    groundedness: verified.groundedness,
+                    unsupportedClaims: unsupportedCount(verified.claims),
                 },
                 'qa.answer.succeeded'
             );
@@ -154,6 +490,7 @@ export function createQaService(deps: QaDependencies = {}): QaService {
                 answer: parsed.answer,
                 sources: citedSources,
                 noContext: parsed.noContext,
+                ...verified,
             };
         } catch (error) {
             logger.error(
@@ -167,7 +504,81 @@ export function createQaService(deps: QaDependencies = {}): QaService {
         }
     }
 
+    async function* streamAnswer(
+        params: QaRequestWithTenant,
+        signal?: AbortSignal
+    ): AsyncGenerator<QaStreamEvent> {
+        const { tenantId, question } = params;
+        const startTime = Date.now();
+        const [retrieval, model] = await Promise.all([
+            retrieveSources(params),
+            modelFor(tenantId),
+        ]);
+        const { sources } = retrieval;
+
+        yield { type: 'sources', sources };
+
+        if (sources.length === 0) {
+            yield { type: 'delta', text: NO_CONTEXT_ANSWER };
+            yield {
+                type: 'citations',
+                sources: [],
+                noContext: true,
+                ...NOT_VERIFIED,
+            };
+            return;
+        }
+
+        const llm = llmProvider();
+        let answer = '';
+        for await (const text of llm.streamChat({
+            prompt: buildPrompt(question, sources),
+            model,
+            temperature: 0.2,
+            maxTokens: 1024,
+            system: STREAM_SYSTEM_MESSAGE,
+            signal,
+        })) {
+            answer += text;
+            yield { type: 'delta', text };
+        }
+
+        const noContext = /^\s*context is insufficient/i.test(answer);
+        const citedSources = noContext ? [] : citedSourcesOf(answer, sources);
+        const verified = await verifyAnswer(
+            tenantId,
+            answer,
+            retrieval,
+            citedSources
+        );
+
+        logger.info(
+            {
+                tenantId,
+                questionLength: question.length,
+                sourcesCount: sources.length,
+                citedCount: citedSources.length,
+                answerLength: answer.length,
+                provider: llm.name,
+                model: model ?? llm.defaultModel,
+                groundedness: verified.groundedness,
+                unsupportedClaims: unsupportedCount(verified.claims),
+                durationMs: Date.now() - startTime,
+            },
+            'qa.stream.succeeded'
+        );
+
+        yield {
+            type: 'citations',
+            sources: citedSources,
+            noContext,
+            ...verified,
+        };
+    }
+
     return {
         answerQuestion,
+        rewriteQuery,
+        streamAnswer,
     };
 }
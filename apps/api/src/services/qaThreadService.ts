@@ -0,0 +1,216 @@
+import { db as defaultDb } from '@search-hub/db';
+import type { Logger } from 'pino';
+import {
+    AppError,
+    type CreateQaThreadPayload,
+    type PostQaMessagePayload,
+    type PostQaMessageResponse,
+    type QaMessage,
+    type QaSource,
+    type QaThread,
+    type QaThreadCitation,
+    type QaThreadDetailResponse,
+    type QaThreadListResponse,
+} from '@search-hub/schemas';
+import { logger as baseLogger } from '../logger.js';
+import { createQaService, type QaService, type QaTurn } from './qaService.js';
+
+const defaultLogger = baseLogger.child({ component: 'qa-thread-service' });
+
+// turns of history used for query rewriting and the answer prompt
+const HISTORY_MESSAGES = 6;
+
+interface QaThreadContext {
+    tenantId: string;
+    userId: string;
+}
+
+type QaThreadRow = NonNullable<
+    Awaited<ReturnType<typeof defaultDb.qaThread.findById>>
+>;
+
+type QaMessageRow = Awaited<
+    ReturnType<typeof defaultDb.qaThread.listMessages>
+>[number];
+
+function toQaThread(row: QaThreadRow): QaThread {
+    return {
+        id: row.id,
+        title: row.title,
+        messageCount: row._count.messages,
+        createdAt: row.createdAt.toISOString(),
+        updatedAt: row.updatedAt.toISOString(),
+    };
+}
+
+function toQaMessage(row: QaMessageRow): QaMessage {
+    return {
+        id: row.id,
+        role: row.role,
+        content: row.content,
+        retrievalQuery: row.retrievalQuery,
+        citations: (row.citations as QaSource[] | null) ?? [],
+        noContext: row.noContext,
+        createdAt: row.createdAt.toISOString(),
+    };
+}
+
+/**
+ * Documents cited anywhere in the thread, most recently cited first
+ */
+function citationHistory(messages: QaMessage[]): QaThreadCitation[] {
+    const byDocument = new Map<string, QaThreadCitation>();
+    for (const message of messages) {
+        for (const source of message.citations) {
+            const existing = byDocument.get(source.id);
+            byDocument.set(source.id, {
+                id: source.id,
+                title: source.title,
+                citedCount: (existing?.citedCount ?? 0) + 1,
+                lastCitedAt: message.createdAt,
+            });
+        }
+    }
+    return [...byDocument.values()].sort((a, b) =>
+        b.lastCitedAt.localeCompare(a.lastCitedAt)
+    );
+}
+
+function notFound(id: string, operation: string) {
+    return AppError.notFound('QA_THREAD_NOT_FOUND', 'Q&A thread not found', {
+        context: {
+            origin: 'app',
+            domain: 'qa',
+            resource: 'QaThread',
+            resourceId: id,
+            operation,
+        },
+    });
+}
+
+export interface QaThreadServiceDependencies {
+    db?: typeof defaultDb;
+    logger?: Logger;
+    qaService?: QaService;
+}
+
+export interface QaThreadService {
+    list(context: QaThreadContext): Promise<QaThreadListResponse>;
+    create(
+        data: CreateQaThreadPayload,
+        context: QaThreadContext
+    ): Promise<QaThread>;
+    get(id: string, context: QaThreadContext): Promise<QaThreadDetailResponse>;
+    remove(id: string, context: QaThreadContext): Promise<void>;
+    /**
+     * Answer a follow-up in the context of the thread. The question is
+     * rewritten into a standalone query for retrieval; the answer prompt also
+     * sees the recent turns.
+     */
+    postMessage(
+        id: string,
+        data: PostQaMessagePayload,
+        context: QaThreadContext
+    ): Promise<PostQaMessageResponse>;
+}
+
+export function createQaThreadService(
+    deps: QaThreadServiceDependencies = {}
+): QaThreadService {
+    const db = deps.db ?? defaultDb;
+    const logger = deps.logger ?? defaultLogger;
+    const qaService = deps.qaService ?? createQaService();
+
+    async function findOrThrow(
+        id: string,
+        context: QaThreadContext,
+        operation: string
+    ) {
+        const row = await db.qaThread.findById(id, context);
+        if (!row) {
+            throw notFound(id, operation);
+        }
+        return row;
+    }
+
+    return {
+        async list(context) {
+            const rows = await db.qaThread.listByOwner(context);
+            return { threads: rows.map(toQaThread) };
+        },
+
+        async create(data, context) {
+            const row = await db.qaThread.create(context, data.title ?? null);
+            logger.info(
+                { tenantId: context.tenantId, threadId: row.id },
+                'qa.thread.created'
+            );
+            return toQaThread(row);
+        },
+
+        async get(id, context) {
+            const thread = await findOrThrow(id, context, 'get');
+            const messages = (await db.qaThread.listMessages(thread.id)).map(
+                toQaMessage
+            );
+            return {
+                thread: toQaThread(thread),
+                messages,
+                citations: citationHistory(messages),
+            };
+        },
+
+        async remove(id, context) {
+            const deleted = await db.qaThread.delete(id, context);
+            if (!deleted) {
+                throw notFound(id, 'delete');
+            }
+        },
+
+        async postMessage(id, data, context) {
+            const thread = await findOrThrow(id, context, 'postMessage');
+            const history: QaTurn[] = (
+                await db.qaThread.recentMessages(thread.id, HISTORY_MESSAGES)
+            ).map((message) => ({
+                role: message.role,
+                content: message.content,
+            }));
+
+            const retrievalQuery = await qaService.rewriteQuery(
+                data.question,
+                history,
+                context.tenantId
+            );
+            const response = await qaService.answerQuestion(
+                { tenantId: context.tenantId, ...data },
+                { history, retrievalQuery }
+            );
+
+            const { question, answer } = await db.qaThread.appendExchange(
+                thread.id,
+                {
+                    question: data.question,
+                    answer: response.answer,
+                    retrievalQuery,
+                    citations: response.sources,
+                    noContext: response.noContext ?? false,
+                }
+            );
+
+            logger.info(
+                {
+                    tenantId: context.tenantId,
+                    threadId: thread.id,
+                    historyLength: history.length,
+                    rewritten: retrievalQuery !== data.question,
+                },
+                'qa.thread.message_answered'
+            );
+
+            return {
+                question: toQaMessage(question),
+                answer: toQaMessage(answer),
+            };
+        },
+    };
+}
@@ -0,0 +1,231 @@
+import { db as defaultDb } from '@search-hub/db';
+import type { Logger } from 'pino';
+import {
+    AppError,
+    type CreateSavedSearchPayload,
+    type SavedSearch,
+    type SavedSearchFilters,
+    type SavedSearchListResponse,
+    type SavedSearchMatchesResponse,
+    SearchFilters,
+    type UpdateSavedSearchPayload,
+} from '@search-hub/schemas';
+import { logger as baseLogger } from '../logger.js';
+import { parseSearchQuery } from '../lib/searchQueryParser.js';
+import { applyQueryFilters, toFilterOptions } from './searchService.js';
+
+const defaultLogger = baseLogger.child({ component: 'saved-search-service' });
+
+interface SavedSearchContext {
+    tenantId: string;
+    userId: string;
+}
+
+type SavedSearchRow = NonNullable<
+    Awaited<ReturnType<typeof defaultDb.savedSearch.findById>>
+>;
+
+function toSavedSearch(row: SavedSearchRow): SavedSearch {
+    return {
+        id: row.id,
+        name: row.name,
+        q: row.query,
+        filters: row.filters as SavedSearchFilters | null,
+        newMatchCount: row._count.matches,
+        lastRunAt: row.lastRunAt?.toISOString() ?? null,
+        createdAt: row.createdAt.toISOString(),
+        updatedAt: row.updatedAt.toISOString(),
+    };
+}
+
+/**
+ * Parse the query once, here, so a syntax error is reported when saving and the
+ * worker can run the stored TextQuery without a parser of its own.
+ * favoritesOnly resolves against the owner.
+ */
+function compileCriteria(
+    q: string,
+    filters: SearchFilters | null | undefined,
+    userId: string
+) {
+    const parsed = parseSearchQuery(q);
+
+    return {
+        query: q,
+        filters: filters ?? null,
+        textQuery: parsed.text,
+        filterOptions: applyQueryFilters(
+            toFilterOptions(filters ?? undefined, userId),
+            parsed.filters
+        ),
+    };
+}
+
+function notFound(id: string, operation: string) {
+    return AppError.notFound(
+        'SAVED_SEARCH_NOT_FOUND',
+        'Saved search not found',
+        {
+            context: {
+                origin: 'app',
+                domain: 'savedSearches',
+                resource: 'SavedSearch',
+                resourceId: id,
+                operation,
+            },
+        }
+    );
+}
+
+export interface SavedSearchServiceDependencies {
+    db?: typeof defaultDb;
+    logger?: Logger;
+}
+
+export interface SavedSearchService {
+    list(context: SavedSearchContext): Promise<SavedSearchListResponse>;
+    get(id: string, context: SavedSearchContext): Promise<SavedSearch>;
+    create(
+        data: CreateSavedSearchPayload,
+        context: SavedSearchContext
+    ): Promise<SavedSearch>;
+    update(
+        id: string,
+        data: UpdateSavedSearchPayload,
+        context: SavedSearchContext
+    ): Promise<SavedSearch>;
+    remove(id: string, context: SavedSearchContext): Promise<void>;
+    listMatches(
+        id: string,
+        context: SavedSearchContext
+    ): Promise<SavedSearchMatchesResponse>;
+    markSeen(id: string, context: SavedSearchContext): Promise<SavedSearch>;
+}
+
+export function createSavedSearchService(
+    deps: SavedSearchServiceDependencies = {}
+): SavedSearchService {
+    const db = deps.db ?? defaultDb;
+    const logger = deps.logger ?? defaultLogger;
+
+    async function findOrThrow(
+        id: string,
+        context: SavedSearchContext,
+        operation: string
+    ) {
+        const row = await db.savedSearch.findById(id, context);
+        if (!row) {
+            throw notFound(id, operation);
+        }
+        return row;
+    }
+
+    async function list(
+        context: SavedSearchContext
+    ): Promise<SavedSearchListResponse> {
+        const rows = await db.savedSearch.listByOwner(context);
+        const savedSearches = rows.map(toSavedSearch);
+        return {
+            savedSearches,
+            newMatchCount: savedSearches.reduce(
+                (sum, savedSearch) => sum + savedSearch.newMatchCount,
+                0
+            ),
+        };
+    }
+
+    async function get(id: string, context: SavedSearchContext) {
+        return toSavedSearch(await findOrThrow(id, context, 'get'));
+    }
+
+    async function create(
+        data: CreateSavedSearchPayload,
+        context: SavedSearchContext
+    ) {
+        const row = await db.savedSearch.create(context, {
+            name: data.name,
+            ...compileCriteria(data.q, data.filters, context.userId),
+        });
+        logger.info(
+            { ...context, savedSearchId: row.id },
+            'saved_search.created'
+        );
+        return toSavedSearch(row);
+    }
+
+    async function update(
+        id: string,
+        data: UpdateSavedSearchPayload,
+        context: SavedSearchContext
+    ) {
+        let criteria: ReturnType<typeof compileCriteria> | undefined;
+        if (data.q !== undefined || data.filters !== undefined) {
+            // a partial update keeps whichever of q/filters wasn't sent
+            const existing = await findOrThrow(id, context, 'update');
+            criteria = compileCriteria(
+                data.q ?? existing.query,
+                data.filters === undefined
+                    ? existing.filters === null
+                        ? null
+                        : SearchFilters.parse(existing.filters)
+                    : data.filters,
+                context.userId
+            );
+        }
+
+        const row = await db.savedSearch.update(id, context, {
+            name: data.name,
+            criteria,
+        });
+        if (!row) {
+            throw notFound(id, 'update');
+        }
+        logger.info(
+            {
+                ...context,
+                savedSearchId: id,
+                criteriaChanged: criteria !== undefined,
+            },
+            'saved_search.updated'
+        );
+        return toSavedSearch(row);
+    }
+
+    async function remove(id: string, context: SavedSearchContext) {
+        const deleted = await db.savedSearch.delete(id, context);
+        if (!deleted) {
+            throw notFound(id, 'delete');
+        }
+        logger.info({ ...context, savedSearchId: id }, 'saved_search.deleted');
+    }
+
+    async function listMatches(id: string, context: SavedSearchContext) {
+        const row = await findOrThrow(id, context, 'list_matches');
+        const matches = await db.savedSearch.listMatches(id);
+        return {
+            savedSearch: toSavedSearch(row),
+            matches: matches.map((match) => ({
+                documentId: match.documentId,
+                title: match.document.title,
+                matchedAt: match.matchedAt.toISOString(),
+                isNew: match.seenAt === null,
+            })),
+        };
+    }
+
+    async function markSeen(id: string, context: SavedSearchContext) {
+        await findOrThrow(id, context, 'mark_seen');
+        await db.savedSearch.markMatchesSeen(id);
+        return toSavedSearch(await findOrThrow(id, context, 'mark_seen'));
+    }
+
+    return {
+        list,
+        get,
+        create,
+        update,
+        remove,
+        listMatches,
+        markSeen,
+    };
+}
@@ -1,17 +1,59 @@
-import { createVoyageHelpers } from '@search-hub/ai';
+import {
+    createEmbeddingProvider,
+    createEmbeddingProviderForModel,
+    embeddingModelId,
+    createPassThroughReranker,
+    createReranker,
+    normalizeQuery,
+    type EmbeddingProvider,
+    type Reranker,
+    type RerankResult,
+} from '@search-hub/ai';
 import { loadAiEnv } from '@search-hub/config-env';
 import { env } from '../config/env.js';
-import { db, type SearchCandidate } from '@search-hub/db';
+import {
+    db,
+    type SearchCandidate,
+    type EmbeddingSource,
+    type LexicalSearchResultItem,
+    type SearchFilterOptions,
+    type TermCorrection,
+    type TextQuery,
+} from '@search-hub/db';
 import { CircuitBreaker } from '../lib/circuitBreaker.js';
-import type {
-    SearchQueryWithTenant,
-    SemanticQueryWithTenant,
-    HybridSearchQueryWithTenant,
-    SearchResponse,
-    SearchResultItem,
+import {
+    createRedisCacheStore,
+    createSearchCache,
+    type SearchCache,
+} from '../lib/searchCache.js';
+import { fuseRankings, type RankedHit } from '../lib/hybridFusion.js';
+import { redisClient } from '../middleware/rateLimitMiddleware.js';
+import {
+    resolveTenantSearchSettings,
+    updatedAtBucketRange,
+    UpdatedAtBucket,
+    type HybridFusion,
+    type SearchRankWeights,
+    type TextSearchConfig,
+    type SearchQueryWithTenant,
+    type SemanticQueryWithTenant,
+    type HybridSearchQueryWithTenant,
+    type SearchSuggestQueryWithTenant,
+    type SearchSuggestResponse,
+    type SearchFilters,
+    type GetRelatedDocumentsResponseType,
+    type SearchExplain,
+    type SearchExplainItem,
+    type SearchResponse,
+    type SearchResultItem,
+    type SearchResultPassage,
 } from '@search-hub/schemas';
 import { logger as baseLogger } from '../logger.js';
 import { metrics } from '@search-hub/observability';
+import {
+    parseSearchQuery,
+    type ParsedQueryFilters,
+} from '../lib/searchQueryParser.js';
 
 const logger = baseLogger.child({ component: 'search-service' });
 
@@ -22,6 +64,25 @@ export interface SemanticSearchResultItem extends SearchCandidate {
 
 export interface SemanticSearchResult {
     items: SemanticSearchResultItem[];
+    // false when scores came from an uncalibrated reranker or the vector-order fallback;
+    // absolute rerank score thresholds only make sense when true
+    calibrated: boolean;
+}
+
+export interface ContextChunk {
+    documentId: string;
+    documentTitle: string;
+    idx: number;
+    content: string; // semantic hits carry their neighbouring chunks too
+    score: number; // fused score, only meaningful for ordering
+}
+
+export interface ContextChunkResult {
+    items: ContextChunk[]; // best first
+    semanticStatus: Extract<
+        SearchExplain['semanticStatus'],
+        'used' | 'unavailable' | 'failed' | 'no_results'
+    >;
 }
 
 interface EnvOverrides {
@@ -33,25 +94,308 @@ interface EnvOverrides {
 }
 
 interface SearchServiceDependencies {
-    voyage?: ReturnType<typeof createVoyageHelpers>;
+    embeddings?: EmbeddingProvider; // defaults to EMBEDDING_PROVIDER
+    reranker?: Reranker; // defaults to RERANK_PROVIDER
     breaker?: CircuitBreaker;
+    rerankBreaker?: CircuitBreaker;
+    cache?: SearchCache; // defaults to Redis with SEARCH_CACHE_TTL_SECONDS
     env?: EnvOverrides;
 }
 
 function normalizeAndTokenize(query: string): string[] {
     return query
         .toLowerCase()
-        .replace(/[^\w\s]/g, ' ')
+        .replace(/[^\p{L}\p{N}\s]/gu, ' ')
         .split(/\s+/)
         .filter(Boolean);
 }
 
+// Chinese, Japanese and Korean words are one or two characters long
+const CJK_PATTERN =
+    /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/u;
+
+function isMeaningfulToken(token: string): boolean {
+    return token.length > 3 || CJK_PATTERN.test(token);
+}
+
+/**
+ * Structured filters carried on a flat query, or undefined when none are set
+ */
+export function pickSearchFilters(
+    query: SearchFilters
+): SearchFilters | undefined {
+    const { tagIds, authorId, updatedAfter, updatedBefore, favoritesOnly } =
+        query;
+    const hasFilters =
+        (tagIds?.length ?? 0) > 0 ||
+        Boolean(authorId) ||
+        Boolean(updatedAfter) ||
+        Boolean(updatedBefore) ||
+        Boolean(favoritesOnly);
+
+    return hasFilters
+        ? { tagIds, authorId, updatedAfter, updatedBefore, favoritesOnly }
+        : undefined;
+}
+
+/**
+ * Tenant settings for lexical retrieval: ranking weights and the text search
+ * configuration queries are compiled in (unknown names resolve to 'simple' in SQL)
+ */
+async function loadLexicalSettings(tenantId: string): Promise<{
+    rankWeights: SearchRankWeights;
+    textSearchConfig: TextSearchConfig;
+}> {
+    const { rankWeights, textSearchConfig } = resolveTenantSearchSettings(
+        await db.tenant.getSearchSettings(tenantId)
+    );
+    return { rankWeights, textSearchConfig };
+}
+
+/**
+ * Ranking details collected while fusing a hybrid search (explain=true)
+ */
+interface HybridExplainTrace {
+    semanticStatus: SearchExplain['semanticStatus'];
+    calibrated: boolean | null;
+    topSemanticScore: number | null;
+    lexical: Map<string, NonNullable<SearchExplainItem['lexical']>>;
+    semantic: Map<string, NonNullable<SearchExplainItem['semantic']>>;
+}
+
+function createExplainTrace(): HybridExplainTrace {
+    return {
+        // overwritten as soon as the semantic half runs
+        semanticStatus: 'skipped',
+        calibrated: null,
+        topSemanticScore: null,
+        lexical: new Map(),
+        semantic: new Map(),
+    };
+}
+
+/**
+ * Fusion settings of a hybrid request: request parameters override the
+ * tenant's defaults field by field
+ */
+async function resolveFusion(
+    query: HybridSearchQueryWithTenant
+): Promise<HybridFusion> {
+    const { hybridFusion: defaults } = resolveTenantSearchSettings(
+        await db.tenant.getSearchSettings(query.tenantId)
+    );
+
+    return {
+        mode: query.fusion ?? defaults.mode,
+        alpha: query.alpha ?? defaults.alpha,
+        rrfK: query.rrfK ?? defaults.rrfK,
+    };
+}
+
+/**
+ * Deep link target for a hit. The character range is dropped when the chunker
+ * couldn't map it back to the source (-1/null), keeping the heading breadcrumb.
+ */
+function toResultPassage(
+    passage: Pick<SearchCandidate, 'headingPath' | 'startPos' | 'endPos'>
+): SearchResultPassage {
+    const { startPos, endPos } = passage;
+    const hasRange =
+        startPos !== null &&
+        endPos !== null &&
+        startPos >= 0 &&
+        endPos > startPos;
+
+    return {
+        headingPath: passage.headingPath ?? [],
+        ...(hasRange ? { startPos, endPos } : {}),
+    };
+}
+
+// below this many lexical matches, add trigram matches and suggest a spelling
+const TYPO_FALLBACK_MAX_MATCHES = 3;
+// only single words are spell-checked; quoted phrases are taken literally
+const SPELLCHECK_TERM_PATTERN = /^[\p{L}\p{N}]{4,32}$/u;
+
+/**
+ * Rewrite the raw query with corrected words, keeping operators, prefixes and quotes.
+ * Returns undefined when nothing changed.
+ */
+function applyTermCorrections(
+    query: string,
+    corrections: TermCorrection[]
+): string | undefined {
+    const byTerm = new Map(
+        corrections.map(({ term, suggestion }) => [term, suggestion])
+    );
+    let changed = false;
+
+    const corrected = query
+        .split(/(\s+)/)
+        .map((token) => {
+            const [, prefix = '', word = ''] =
+                /^(-?(?:[a-z]+:)?)(.+)$/i.exec(token) ?? [];
+            const suggestion = byTerm.get(word.toLowerCase());
+            if (!suggestion) {
+                return token;
+            }
+            changed = true;
+            return `${prefix}${suggestion}`;
+        })
+        .join('');
+
+    return changed ? corrected : undefined;
+}
+
+/**
+ * Trigram matches and a "did you mean" suggestion for a query the tsquery
+ * barely matched. Failures only cost the extras, never the search.
+ */
+async function runTypoFallback(
+    query: SearchQueryWithTenant,
+    textQuery: TextQuery,
+    filterOptions: SearchFilterOptions | undefined,
+    matchedIds: string[]
+): Promise<{ items: LexicalSearchResultItem[]; didYouMean?: string }> {
+    const terms = [...textQuery.groups.flat(), ...textQuery.titleTerms];
+    const positiveTerms = terms.filter((term) => !term.negated);
+    const fuzzyLimit = query.limit - matchedIds.length;
+
+    try {
+        const [items, corrections] = await Promise.all([
+            // exclusions can't be honoured by similarity matching, so skip it for them
+            fuzzyLimit > 0 && positiveTerms.length === terms.length
+                ? db.search.fuzzySearchDocuments(
+                      query.tenantId,
+                      positiveTerms.map((term) => term.value).join(' '),
+                      fuzzyLimit,
+                      filterOptions,
+                      matchedIds
+                  )
+                : [],
+            db.search.suggestTermCorrections(
+                query.tenantId,
+                positiveTerms
+                    .filter(
+                        (term) =>
+                            !term.phrase &&
+                            SPELLCHECK_TERM_PATTERN.test(term.value)
+                    )
+                    .map((term) => term.value)
+            ),
+        ]);
+
+        return {
+            items,
+            didYouMean: applyTermCorrections(String(query.q), corrections),
+        };
+    } catch (error) {
+        logger.warn(
+            {
+                error: error instanceof Error ? error.message : String(error),
+                tenantId: query.tenantId,
+            },
+            'search.typo_fallback.failed'
+        );
+        return { items: [] };
+    }
+}
+
+/**
+ * Map API filters onto repository filter options.
+ * favoritesOnly is resolved against the requesting user.
+ */
+export function toFilterOptions(
+    filters: SearchFilters | undefined,
+    userId: string | undefined
+): SearchFilterOptions | undefined {
+    if (!filters) {
+        return undefined;
+    }
+
+    return {
+        tagIds: filters.tagIds,
+        authorId: filters.authorId,
+        updatedAfter: filters.updatedAfter,
+        updatedBefore: filters.updatedBefore,
+        favoritedByUserId: filters.favoritesOnly ? userId : undefined,
+    };
+}
+
+/**
+ * Merge filters written in the query itself (tag:, author:, before:, after:)
+ * into the request filters. Date bounds keep whichever is narrower.
+ */
+export function applyQueryFilters(
+    options: SearchFilterOptions | undefined,
+    queryFilters: ParsedQueryFilters
+): SearchFilterOptions | undefined {
+    const { tagNames, authorHandle, updatedAfter, updatedBefore } =
+        queryFilters;
+    const hasQueryFilters =
+        tagNames.length > 0 ||
+        Boolean(authorHandle) ||
+        Boolean(updatedAfter) ||
+        Boolean(updatedBefore);
+
+    if (!hasQueryFilters) {
+        return options;
+    }
+
+    const merged: SearchFilterOptions = { ...options };
+    if (tagNames.length > 0) {
+        merged.tagNames = tagNames;
+    }
+    if (authorHandle) {
+        merged.authorHandle = authorHandle;
+    }
+    if (
+        updatedAfter &&
+        (!merged.updatedAfter || updatedAfter > merged.updatedAfter)
+    ) {
+        merged.updatedAfter = updatedAfter;
+    }
+    if (
+        updatedBefore &&
+        (!merged.updatedBefore || updatedBefore < merged.updatedBefore)
+    ) {
+        merged.updatedBefore = updatedBefore;
+    }
+
+    return merged;
+}
+
 export interface SearchService {
     lexicalSearch(query: SearchQueryWithTenant): Promise<SearchResponse>;
     semanticSearch(
         query: SemanticQueryWithTenant
     ): Promise<SemanticSearchResult>;
     hybridSearch(query: HybridSearchQueryWithTenant): Promise<SearchResponse>;
+    /**
+     * Chunk-level hybrid retrieval for Q&A context: lexical chunk hits for
+     * `textQuery` fused with semantic hits for `q`, using the tenant's fusion
+     * settings. Lexical chunks alone when semantic search is unavailable or
+     * fails.
+     */
+    retrieveContextChunks(query: {
+        tenantId: string;
+        q: string;
+        textQuery: TextQuery;
+        k: number;
+        recall_k: number;
+    }): Promise<ContextChunkResult>;
+    suggest(
+        query: SearchSuggestQueryWithTenant
+    ): Promise<SearchSuggestResponse>;
+    /**
+     * "More like this": documents nearest to the document's mean chunk vector.
+     * Null when the document doesn't exist in the tenant.
+     */
+    relatedDocuments(query: {
+        tenantId: string;
+        documentId: string;
+        limit: number;
+    }): Promise<GetRelatedDocumentsResponseType | null>;
     isSemanticSearchAvailable(): boolean;
     logSearch(params: {
         tenantId: string;
@@ -61,6 +405,7 @@ export interface SearchService {
         resultCount: number;
         duration: number;
         status: 'success' | 'error' | 'partial';
+        fusion?: HybridFusion; // hybrid searches: recorded for comparing modes
     }): Promise<void>;
 }
 
@@ -120,9 +465,11 @@ export function createSearchService(
         API_BREAKER_HALF_OPEN_TIMEOUT_MS,
         SEMANTIC_RERANK_THRESHOLD,
         SEMANTIC_TOP_SCORE_CUTOFF,
+        SEARCH_CACHE_TTL_SECONDS,
+        VECTOR_EF_SEARCH,
     } = env;
 
-    const { VOYAGE_API_KEY } = loadAiEnv();
+    const aiEnv = loadAiEnv();
 
     const overrides = deps.env ?? {};
 
@@ -132,12 +479,31 @@ export function createSearchService(
         overrides.breakerResetTimeoutMs ?? API_BREAKER_RESET_TIMEOUT_MS;
     const breakerHalfOpenTimeoutMs =
         overrides.breakerHalfOpenTimeoutMs ?? API_BREAKER_HALF_OPEN_TIMEOUT_MS;
-    const voyageApiKey = overrides.voyageApiKey ?? VOYAGE_API_KEY;
+    const voyageApiKey = overrides.voyageApiKey ?? aiEnv.VOYAGE_API_KEY;
     const semanticRerankThreshold =
         overrides.semanticRerankThreshold ?? SEMANTIC_RERANK_THRESHOLD ?? 0.35;
     const semanticTopScoreCutoff = SEMANTIC_TOP_SCORE_CUTOFF ?? 0.55;
 
-    const voyage = deps.voyage ?? createVoyageHelpers({ apiKey: voyageApiKey });
+    const embeddings =
+        deps.embeddings ??
+        createEmbeddingProvider({ ...aiEnv, VOYAGE_API_KEY: voyageApiKey });
+    // vectors written to DocumentChunk.embedding by the worker's default provider
+    const primaryModelId = embeddingModelId(embeddings);
+    // query embedders for tenants cut over to another model, keyed by model id
+    const embeddingsByModel = new Map<string, EmbeddingProvider>([
+        [primaryModelId, embeddings],
+    ]);
+    const reranker =
+        deps.reranker ??
+        createReranker({ ...aiEnv, VOYAGE_API_KEY: voyageApiKey });
+    const cache =
+        deps.cache ??
+        createSearchCache({
+            store: createRedisCacheStore(redisClient),
+            ttlSeconds: SEARCH_CACHE_TTL_SECONDS,
+        });
+    // vector order, used whenever the configured reranker is unavailable
+    const fallbackReranker = createPassThroughReranker();
     const breaker =
         deps.breaker ??
         new CircuitBreaker({
@@ -146,35 +512,174 @@ export function createSearchService(
             halfOpenTimeoutMs: breakerHalfOpenTimeoutMs,
             serviceName: 'voyage_ai', // Track Voyage AI service health
         });
+    // a failing reranker degrades semantic search instead of disabling it
+    const rerankBreaker =
+        deps.rerankBreaker ??
+        new CircuitBreaker({
+            failureThreshold: breakerFailureThreshold,
+            resetTimeoutMs: breakerResetTimeoutMs,
+            halfOpenTimeoutMs: breakerHalfOpenTimeoutMs,
+            serviceName: 'reranker',
+        });
+
+    /**
+     * The model a tenant's query must be embedded with so it is only compared
+     * against vectors from that same model
+     */
+    async function resolveQueryEmbeddings(tenantId: string): Promise<{
+        provider: EmbeddingProvider;
+        source: EmbeddingSource;
+    }> {
+        const settings = await db.tenant.getSearchSettings(tenantId);
+        const model = settings?.embeddingModel ?? primaryModelId;
+
+        let provider = embeddingsByModel.get(model);
+        if (!provider) {
+            provider = createEmbeddingProviderForModel(model, {
+                ...aiEnv,
+                VOYAGE_API_KEY: voyageApiKey,
+            });
+            embeddingsByModel.set(model, provider);
+        }
+
+        return {
+            provider,
+            source: { model, shadow: model !== primaryModelId },
+        };
+    }
+
+    async function rerankCandidates(
+        query: string,
+        candidates: SearchCandidate[],
+        bypassCache = false
+    ): Promise<{ results: RerankResult[]; calibrated: boolean }> {
+        const documents = candidates.map((candidate) => candidate.content);
+        const opts = {
+            priorScores: candidates.map((candidate) => candidate.similarity),
+        };
+        // pass-through is cheaper to rerun than to look up
+        const cacheable = reranker.name !== 'none';
+
+        if (cacheable) {
+            const cached = await cache.getRerank(
+                reranker.name,
+                query,
+                documents,
+                opts.priorScores,
+                { bypass: bypassCache }
+            );
+            if (cached) {
+                return { results: cached, calibrated: reranker.calibrated };
+            }
+        }
+
+        if (rerankBreaker.canExecute()) {
+            const startRerank = Date.now();
+            try {
+                const results = await reranker.rerank(query, documents, opts);
+                metrics.aiRequestDuration.observe(
+                    { provider: reranker.name, operation: 'rerank' },
+                    (Date.now() - startRerank) / 1000
+                );
+                rerankBreaker.recordSuccess();
+                if (cacheable) {
+                    await cache.setRerank(
+                        reranker.name,
+                        query,
+                        documents,
+                        opts.priorScores,
+                        results
+                    );
+                }
+                return { results, calibrated: reranker.calibrated };
+            } catch (error) {
+                rerankBreaker.recordFailure();
+                logger.warn(
+                    {
+                        error:
+                            error instanceof Error
+                                ? error.message
+                                : String(error),
+                        reranker: reranker.name,
+                    },
+                    'search.rerank.failed'
+                );
+            }
+        }
+
+        return {
+            results: await fallbackReranker.rerank(query, documents, opts),
+            calibrated: false,
+        };
+    }
 
     async function lexicalSearch(
         query: SearchQueryWithTenant
     ): Promise<SearchResponse> {
+        const parsed = parseSearchQuery(String(query.q));
+
+        return runLexicalSearch(
+            query,
+            parsed.text,
+            applyQueryFilters(
+                toFilterOptions(query.filters, query.userId),
+                parsed.filters
+            )
+        );
+    }
+
+    async function runLexicalSearch(
+        query: SearchQueryWithTenant,
+        textQuery: TextQuery,
+        filterOptions: SearchFilterOptions | undefined
+    ): Promise<SearchResponse> {
+        const { rankWeights, textSearchConfig } = await loadLexicalSettings(
+            query.tenantId
+        );
+
         const result = await db.search.lexicalSearchDocuments(
             query.tenantId,
-            query.q,
+            textQuery,
             query.limit,
-            query.offset
+            query.offset,
+            filterOptions,
+            rankWeights,
+            textSearchConfig
         );
 
-        const response = {
-            total: result.total,
-            items: result.items.map((row) => ({
+        // typos: "kuberentes" matches nothing, so widen to trigram matches on the first page
+        const fallback =
+            query.offset === 0 && result.total < TYPO_FALLBACK_MAX_MATCHES
+                ? await runTypoFallback(
+                      query,
+                      textQuery,
+                      filterOptions,
+                      result.items.map((row) => row.id)
+                  )
+                : { items: [] };
+
+        const response: SearchResponse = {
+            total: result.total + fallback.items.length,
+            items: [...result.items, ...fallback.items].map((row) => ({
                 id: row.id,
                 title: row.title,
                 snippet: row.snippet ?? undefined,
                 score: row.score,
+                passage: row.passage ? toResultPassage(row.passage) : undefined,
             })),
             page: Math.floor(query.offset / query.limit) + 1,
             pageSize: query.limit,
+            didYouMean: fallback.didYouMean,
         };
 
         logger.info(
             {
                 tenantId: query.tenantId,
                 queryLength: String(query.q).length,
-                resultCount: result.items.length,
+                resultCount: response.items.length,
                 totalMatches: result.total,
+                fuzzyMatches: fallback.items.length,
+                filtered: Boolean(filterOptions),
             },
             'search.lexical.succeeded'
         );
@@ -184,25 +689,44 @@ export function createSearchService(
 
     async function semanticSearch(
         query: SemanticQueryWithTenant
+    ): Promise<SemanticSearchResult> {
+        return runSemanticSearch(
+            query,
+            toFilterOptions(query.filters, query.userId)
+        );
+    }
+
+    async function runSemanticSearch(
+        query: SemanticQueryWithTenant,
+        filterOptions: SearchFilterOptions | undefined
     ): Promise<SemanticSearchResult> {
         const startEmbedding = Date.now();
-        const { tenantId, q, k, recall_k } = query;
+        const { tenantId, q, k, recall_k, bypassCache = false } = query;
 
         const effectiveRecall = Math.max(recall_k ?? k, k);
 
         try {
-            // embed the query to get its vector representation
-            const qVecs = await voyage.embed([String(q)], {
-                input_type: 'query',
-            });
-            metrics.aiRequestDuration.observe(
-                { provider: 'voyage', operation: 'embed' },
-                (Date.now() - startEmbedding) / 1000
-            );
+            const { provider, source } = await resolveQueryEmbeddings(tenantId);
 
-            const qVec = qVecs[0];
+            // repeated queries reuse the vector instead of calling the provider
+            let qVec = await cache.getQueryEmbedding(source.model, String(q), {
+                bypass: bypassCache,
+            });
             if (!qVec) {
-                throw new Error('Failed to generate embedding for query');
+                // embed the query to get its vector representation
+                const qVecs = await provider.embed([String(q)], {
+                    inputType: 'query',
+                });
+                metrics.aiRequestDuration.observe(
+                    { provider: provider.name, operation: 'embed' },
+                    (Date.now() - startEmbedding) / 1000
+                );
+
+                qVec = qVecs[0] ?? null;
+                if (!qVec) {
+                    throw new Error('Failed to generate embedding for query');
+                }
+                await cache.setQueryEmbedding(source.model, String(q), qVec);
             }
 
             // query the nearest neighbours using the embedding vector with cosine distance
@@ -210,27 +734,25 @@ export function createSearchService(
                 await db.search.findNearestChunks(
                     tenantId,
                     qVec,
-                    effectiveRecall
+                    effectiveRecall,
+                    filterOptions,
+                    source,
+                    { efSearch: VECTOR_EF_SEARCH }
                 );
 
             if (candidates.length === 0) {
                 breaker.recordSuccess();
-                return { items: [] };
+                return { items: [], calibrated: reranker.calibrated };
             }
 
-            // rerank the candidates using the voyage rerank endpoint.
-            const startRerank = Date.now();
-            const rerank = await voyage.rerank(
+            breaker.recordSuccess();
+
+            const { results: rerank, calibrated } = await rerankCandidates(
                 String(q),
-                candidates.map((candidate) => candidate.content)
-            );
-            metrics.aiRequestDuration.observe(
-                { provider: 'voyage', operation: 'rerank' },
-                (Date.now() - startRerank) / 1000
+                candidates,
+                bypassCache
             );
 
-            breaker.recordSuccess();
-
             const items: SemanticSearchResultItem[] = rerank
                 .sort((a, b) => b.score - a.score)
                 .slice(0, k)
@@ -334,11 +856,12 @@ export function createSearchService(
                     candidatesCount: candidates.length,
                     resultCount: deduplicatedItems.length,
                     topScore: deduplicatedItems[0]?.rerankScore,
+                    reranker: calibrated ? reranker.name : 'none',
                 },
                 'search.semantic.succeeded'
             );
 
-            return { items: deduplicatedItems };
+            return { items: deduplicatedItems, calibrated };
         } catch (error) {
             breaker.recordFailure();
             throw error;
@@ -347,10 +870,99 @@ export function createSearchService(
 
     async function hybridSearch(
         query: HybridSearchQueryWithTenant
+    ): Promise<SearchResponse> {
+        const parsed = parseSearchQuery(String(query.q));
+        const filterOptions = applyQueryFilters(
+            toFilterOptions(pickSearchFilters(query), query.userId),
+            parsed.filters
+        );
+
+        // semantic-only hits must count towards facets as well
+        const semanticMatchIds = new Set<string>();
+        const fusion = await resolveFusion(query);
+        const trace = query.explain ? createExplainTrace() : undefined;
+        const fused = await fuseHybridResults(
+            query,
+            parsed.text,
+            parsed.plainText,
+            filterOptions,
+            semanticMatchIds,
+            fusion,
+            trace
+        );
+        const response: SearchResponse = {
+            ...fused,
+            fusion,
+            ...(trace && {
+                explain: {
+                    fusion,
+                    semanticStatus: trace.semanticStatus,
+                    calibrated: trace.calibrated,
+                    semanticRerankThreshold,
+                    semanticTopScoreCutoff,
+                    topSemanticScore: trace.topSemanticScore,
+                    items: fused.items.map((item) => ({
+                        id: item.id,
+                        lexical: trace.lexical.get(item.id) ?? null,
+                        semantic: trace.semantic.get(item.id) ?? null,
+                        finalScore: item.score ?? null,
+                    })),
+                },
+            }),
+        };
+
+        if (!query.includeFacets || response.total === 0) {
+            return response;
+        }
+
+        try {
+            const { textSearchConfig } = await loadLexicalSettings(
+                query.tenantId
+            );
+            // the same windows the updatedAt filter chips send back
+            const now = new Date();
+            const updatedAtRanges = Object.fromEntries(
+                UpdatedAtBucket.options.map((bucket) => [
+                    bucket,
+                    updatedAtBucketRange(bucket, now),
+                ])
+            );
+            const facets = await db.search.getSearchFacets(
+                query.tenantId,
+                parsed.text,
+                filterOptions,
+                [...semanticMatchIds],
+                textSearchConfig,
+                updatedAtRanges
+            );
+            return { ...response, facets };
+        } catch (error) {
+            // facets are decorative; never fail the search because of them
+            logger.warn(
+                {
+                    error:
+                        error instanceof Error ? error.message : String(error),
+                    tenantId: query.tenantId,
+                },
+                'search.facets.failed'
+            );
+            return response;
+        }
+    }
+
+    async function fuseHybridResults(
+        query: HybridSearchQueryWithTenant,
+        textQuery: TextQuery,
+        // query text without operators or field prefixes, used for embeddings
+        plainText: string,
+        filterOptions: SearchFilterOptions | undefined,
+        semanticMatchIds: Set<string>,
+        fusion: HybridFusion,
+        trace?: HybridExplainTrace
     ): Promise<SearchResponse> {
         const { tenantId, q } = query;
-        const tokens = normalizeAndTokenize(String(q));
-        const meaningfulTokens = tokens.filter((t) => t.length > 3);
+        const tokens = normalizeAndTokenize(plainText);
+        const meaningfulTokens = tokens.filter(isMeaningfulToken);
 
         // Guard: very short or only stopwords -> empty result to avoid noise
         if (meaningfulTokens.length === 0) {
@@ -393,8 +1005,18 @@ export function createSearchService(
             offset: lexicalOffset,
         };
 
-        const lexicalResponse = await lexicalSearch(lexicalInput);
+        const lexicalResponse = await runLexicalSearch(
+            lexicalInput,
+            textQuery,
+            filterOptions
+        );
         const lexicalItems = lexicalResponse.items;
+        lexicalItems.forEach((item, index) => {
+            trace?.lexical.set(item.id, {
+                rank: lexicalOffset + index + 1,
+                tsRank: item.score ?? 0,
+            });
+        });
         logger.debug(
             {
                 tenantId,
@@ -417,9 +1039,11 @@ export function createSearchService(
             items: lexicalOnlyItems,
             page,
             pageSize: query.limit,
+            didYouMean: lexicalResponse.didYouMean,
         };
 
         if (!isSemanticSearchAvailable()) {
+            if (trace) trace.semanticStatus = 'unavailable';
             return lexicalOnlyResponse;
         }
 
@@ -445,12 +1069,16 @@ export function createSearchService(
 
         let semanticResult: SemanticSearchResult | null = null;
         try {
-            semanticResult = await semanticSearch({
-                tenantId,
-                q,
-                k: semanticK,
-                recall_k: semanticRecall,
-            });
+            semanticResult = await runSemanticSearch(
+                {
+                    tenantId,
+                    q: normalizeQuery(plainText),
+                    k: semanticK,
+                    recall_k: semanticRecall,
+                    bypassCache: query.bypassCache,
+                },
+                filterOptions
+            );
             logger.debug(
                 {
                     tenantId,
@@ -476,6 +1104,7 @@ export function createSearchService(
                 },
                 'Semantic search failed, falling back to lexical'
             );
+            if (trace) trace.semanticStatus = 'failed';
             if (!isSemanticSearchAvailable()) {
                 return lexicalOnlyResponse;
             }
@@ -484,24 +1113,13 @@ export function createSearchService(
 
         // no semantic results, return lexical only
         if (!semanticResult || semanticResult.items.length === 0) {
+            if (trace) trace.semanticStatus = 'no_results';
             return lexicalOnlyResponse;
         }
 
-        // RFF K constant
-        const fusionK = query.rrfK ?? 60;
-        // helper based on RFF formula
-        // score(d) = sum(1 / (k +rank(d)))
-        const setRRFScore = (
-            map: Map<string, number>,
-            docId: string,
-            rank: number
-        ) => {
-            const current = map.get(docId) ?? 0;
-            map.set(docId, current + 1 / (fusionK + rank));
-        };
-
-        // docScores accumulates scores for each docId
-        const docScores = new Map<string, number>();
+        // best-first lists handed to fuseRankings, one entry per document
+        const lexicalRanking: RankedHit[] = [];
+        const semanticRanking: RankedHit[] = [];
         // docMeta collects metadata for each docId
         const docMeta = new Map<
             string,
@@ -509,19 +1127,19 @@ export function createSearchService(
                 lexical?: SearchResultItem;
                 semanticSnippet?: string;
                 semanticScore?: number;
+                semanticPassage?: SearchResultPassage;
             }
         >();
 
         // loop through lexical results
-        lexicalItems.forEach((item, index) => {
+        lexicalItems.forEach((item) => {
             // try to get existing metadata or initialize
             const meta = docMeta.get(item.id) ?? {};
             // attach lexical info
             meta.lexical = item;
             // update meta map with new metadata
             docMeta.set(item.id, meta);
-            // set RRF score for this document based on its rank
-            setRRFScore(docScores, item.id, index + 1);
+            lexicalRanking.push({ id: item.id, score: item.score ?? 0 });
         });
 
         // first sort semantic results by rerank score descending
@@ -529,13 +1147,35 @@ export function createSearchService(
             (a, b) => b.rerankScore - a.rerankScore
         );
 
-        // Filter out semantic results with low rerank scores to avoid noise
-        const relevantSemanticItems = semanticItems.filter(
-            (item) => item.rerankScore >= semanticRerankThreshold
-        );
+        // Filter out semantic results with low rerank scores to avoid noise;
+        // uncalibrated scores (local reranker, vector-order fallback) are only used for ordering
+        const relevantSemanticItems = semanticResult.calibrated
+            ? semanticItems.filter(
+                  (item) => item.rerankScore >= semanticRerankThreshold
+              )
+            : semanticItems;
+
+        if (trace) {
+            trace.semanticStatus = 'used';
+            trace.calibrated = semanticResult.calibrated;
+            trace.topSemanticScore = semanticItems[0]?.rerankScore ?? null;
+            // best chunk per document, including the ones the threshold drops
+            for (const item of semanticItems) {
+                if (trace.semantic.has(item.documentId)) continue;
+                trace.semantic.set(item.documentId, {
+                    rank: null,
+                    chunkIdx: item.idx,
+                    rerankScore: item.rerankScore,
+                    passedThreshold:
+                        !semanticResult.calibrated ||
+                        item.rerankScore >= semanticRerankThreshold,
+                });
+            }
+        }
 
         // If no lexical hits and top semantic score is weak, return empty
         if (
+            semanticResult.calibrated &&
             lexicalItems.length === 0 &&
             relevantSemanticItems.length > 0 &&
             (relevantSemanticItems[0]?.rerankScore ?? 0) <
@@ -551,35 +1191,45 @@ export function createSearchService(
                 },
                 'search.semantic.filtered_by_top_score'
             );
+            if (trace) trace.semanticStatus = 'top_score_cutoff';
             return {
                 total: 0,
                 items: [],
                 page,
                 pageSize: query.limit,
                 noStrongMatches: true,
+                didYouMean: lexicalResponse.didYouMean,
             };
         }
 
         const seenSemanticDocs = new Set<string>();
 
         // loop through semantic results and update scores and metadata
-        relevantSemanticItems.forEach((item, index) => {
+        relevantSemanticItems.forEach((item) => {
             // if this chunk belongs to a doc we've already seen, skip to avoid over-crediting
             if (seenSemanticDocs.has(item.documentId)) {
                 return;
             }
             seenSemanticDocs.add(item.documentId);
-            setRRFScore(docScores, item.documentId, index + 1);
+            semanticMatchIds.add(item.documentId);
+            semanticRanking.push({
+                id: item.documentId,
+                score: item.rerankScore,
+            });
+            const traced = trace?.semantic.get(item.documentId);
+            if (traced) traced.rank = semanticRanking.length;
             const meta = docMeta.get(item.documentId) ?? {};
             // attach snippet and semantic score
             if (!meta.semanticSnippet) {
                 meta.semanticSnippet = item.content;
             }
             meta.semanticScore = item.rerankScore;
+            meta.semanticPassage = toResultPassage(item);
             docMeta.set(item.documentId, meta);
         });
 
-        // sort documents by their RRF scores
+        // sort documents by their fused scores
+        const docScores = fuseRankings(lexicalRanking, semanticRanking, fusion);
         const scoredEntries = [...docScores.entries()].sort(
             (a, b) => b[1] - a[1]
         );
@@ -659,6 +1309,8 @@ export function createSearchService(
                 snippet,
                 score: Number(score.toFixed(6)),
                 url: lexicalItem?.url,
+                // follow the snippet: the passage it was taken from
+                passage: lexicalItem?.passage ?? meta?.semanticPassage,
             } satisfies SearchResultItem;
         });
 
@@ -671,6 +1323,7 @@ export function createSearchService(
             items: fusedItems,
             page,
             pageSize: query.limit,
+            didYouMean: lexicalResponse.didYouMean,
         };
 
         logger.info(
@@ -680,7 +1333,8 @@ export function createSearchService(
                 lexicalCount: lexicalItems.length,
                 semanticCount: relevantSemanticItems.length,
                 fusedCount: fusedItems.length,
-                rrfK: fusionK,
+                fusion,
+                filtered: Boolean(filterOptions),
             },
             'search.hybrid.succeeded'
         );
@@ -688,6 +1342,217 @@ export function createSearchService(
         return response;
     }
 
+    async function suggest(
+        query: SearchSuggestQueryWithTenant
+    ): Promise<SearchSuggestResponse> {
+        const startTime = Date.now();
+        const suggestions = await db.search.getSearchSuggestions(
+            query.tenantId,
+            query.userId,
+            query.prefix,
+            query.limit
+        );
+
+        logger.debug(
+            {
+                tenantId: query.tenantId,
+                prefixLength: query.prefix.length,
+                documentCount: suggestions.documents.length,
+                tagCount: suggestions.tags.length,
+                recentQueryCount: suggestions.recentQueries.length,
+                durationMs: Date.now() - startTime,
+            },
+            'search.suggest.succeeded'
+        );
+
+        return { prefix: query.prefix, ...suggestions };
+    }
+
+    async function relatedDocuments({
+        tenantId,
+        documentId,
+        limit,
+    }: {
+        tenantId: string;
+        documentId: string;
+        limit: number;
+    }): Promise<GetRelatedDocumentsResponseType | null> {
+        const startTime = Date.now();
+        const document = await db.document.findUnique(documentId);
+        if (!document || document.tenantId !== tenantId) {
+            return null;
+        }
+
+        // no provider call: the document vector comes from its stored chunk vectors
+        const { source } = await resolveQueryEmbeddings(tenantId);
+        const indexState = await db.documentIndexState.findUnique(documentId);
+        if (!indexState) {
+            return { items: [], status: 'not_indexed' };
+        }
+
+        let vector = await cache.getDocumentVector(
+            source.model,
+            documentId,
+            indexState.lastChecksum
+        );
+        if (!vector) {
+            vector = await db.search.getDocumentVector(
+                tenantId,
+                documentId,
+                source
+            );
+            if (!vector) {
+                return { items: [], status: 'not_indexed' };
+            }
+            await cache.setDocumentVector(
+                source.model,
+                documentId,
+                indexState.lastChecksum,
+                vector
+            );
+        }
+
+        const related = await db.search.findRelatedDocuments(
+            tenantId,
+            documentId,
+            vector,
+            limit,
+            source,
+            { efSearch: VECTOR_EF_SEARCH }
+        );
+
+        logger.debug(
+            {
+                tenantId,
+                documentId,
+                model: source.model,
+                resultCount: related.length,
+                durationMs: Date.now() - startTime,
+            },
+            'search.related.succeeded'
+        );
+
+        return {
+            items: related.map((item) => ({
+                id: item.documentId,
+                title: item.title,
+                score: Number(item.score),
+            })),
+            status: 'ok',
+        };
+    }
+
+    async function retrieveContextChunks(query: {
+        tenantId: string;
+        q: string;
+        textQuery: TextQuery;
+        k: number;
+        recall_k: number;
+    }): Promise<ContextChunkResult> {
+        const { tenantId, q, textQuery, k, recall_k } = query;
+        const { hybridFusion: fusion, textSearchConfig } =
+            resolveTenantSearchSettings(
+                await db.tenant.getSearchSettings(tenantId)
+            );
+
+        const semanticHalf = async (): Promise<{
+            items: SemanticSearchResultItem[];
+            status: ContextChunkResult['semanticStatus'];
+        }> => {
+            if (!isSemanticSearchAvailable()) {
+                return { items: [], status: 'unavailable' };
+            }
+            try {
+                const result = await semanticSearch({
+                    tenantId,
+                    q,
+                    k,
+                    recall_k,
+                });
+                const items = result.calibrated
+                    ? result.items.filter(
+                          (item) => item.rerankScore >= semanticRerankThreshold
+                      )
+                    : result.items;
+                return {
+                    items,
+                    status: items.length > 0 ? 'used' : 'no_results',
+                };
+            } catch (error) {
+                logger.warn(
+                    {
+                        tenantId,
+                        error:
+                            error instanceof Error
+                                ? error.message
+                                : String(error),
+                    },
+                    'search.context.semantic_failed'
+                );
+                return { items: [], status: 'failed' };
+            }
+        };
+
+        const [lexicalHits, semantic] = await Promise.all([
+            db.search.lexicalSearchChunks(
+                tenantId,
+                textQuery,
+                recall_k,
+                undefined,
+                textSearchConfig
+            ),
+            semanticHalf(),
+        ]);
+
+        // one entry per chunk; a semantic hit replaces the lexical one for its
+        // richer content
+        const chunkKey = (documentId: string, idx: number) =>
+            `${documentId}:${idx}`;
+        const chunks = new Map<string, Omit<ContextChunk, 'score'>>();
+        const lexicalRanking: RankedHit[] = lexicalHits.map((hit) => {
+            const id = chunkKey(hit.documentId, hit.idx);
+            chunks.set(id, {
+                documentId: hit.documentId,
+                documentTitle: hit.documentTitle || 'Untitled',
+                idx: hit.idx,
+                content: hit.content,
+            });
+            return { id, score: hit.score };
+        });
+        const semanticRanking: RankedHit[] = semantic.items.map((item) => {
+            const id = chunkKey(item.documentId, item.idx);
+            chunks.set(id, {
+                documentId: item.documentId,
+                documentTitle: item.documentTitle ?? 'Untitled',
+                idx: item.idx,
+                content: item.content,
+            });
+            return { id, score: item.rerankScore };
+        });
+
+        const fused = fuseRankings(lexicalRanking, semanticRanking, fusion);
+        const items = [...fused.entries()]
+            .sort((a, b) => b[1] - a[1])
+            .flatMap(([id, score]) => {
+                const chunk = chunks.get(id);
+                return chunk ? [{ ...chunk, score }] : [];
+            });
+
+        logger.info(
+            {
+                tenantId,
+                lexicalCount: lexicalHits.length,
+                semanticCount: semantic.items.length,
+                semanticStatus: semantic.status,
+                resultCount: items.length,
+                fusion: fusion.mode,
+            },
+            'search.context.succeeded'
+        );
+
+        return { items, semanticStatus: semantic.status };
+    }
+
     function isSemanticSearchAvailable() {
         return breaker.canExecute();
     }
@@ -700,7 +1565,9 @@ export function createSearchService(
         resultCount: number;
         duration: number;
         status: 'success' | 'error' | 'partial';
+        fusion?: HybridFusion;
     }): Promise<void> {
+        const { fusion } = params;
         try {
             await db.searchLog.create({
                 tenantId: params.tenantId,
@@ -710,6 +1577,16 @@ export function createSearchService(
                 resultCount: params.resultCount,
                 duration: params.duration,
                 status: params.status,
+                ...(fusion && {
+                    fusionMode: fusion.mode,
+                    // only the parameter the mode actually uses
+                    fusionParams:
+                        fusion.mode === 'rrf'
+                            ? { rrfK: fusion.rrfK }
+                            : fusion.mode === 'semantic_first'
+                              ? {}
+                              : { alpha: fusion.alpha },
+                }),
             });
         } catch (error) {
             // Don't let logging failures affect search requests
@@ -729,6 +1606,9 @@ export function createSearchService(
         lexicalSearch,
         semanticSearch,
         hybridSearch,
+        retrieveContextChunks,
+        suggest,
+        relatedDocuments,
         isSemanticSearchAvailable,
         logSearch,
     };
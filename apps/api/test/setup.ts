@@ -13,7 +13,11 @@ process.env.API_BREAKER_FAILURE_THRESHOLD = '5';
 process.env.API_BREAKER_RESET_TIMEOUT_MS = '1000';
 process.env.API_BREAKER_HALF_OPEN_TIMEOUT_MS = '1000';
 
+process.env.SESSION_SECRET = 'test-session-secret-at-least-32-characters';
+process.env.GOOGLE_CLIENT_ID = 'test-google-client-id';
+
 process.env.VOYAGE_API_KEY = 'testkey';
+process.env.GROQ_API_KEY = 'testkey';
 
 const testDir = dirname(fileURLToPath(import.meta.url));
 process.chdir(resolve(testDir, '..'));
@@ -27,6 +27,8 @@ import {
     RemindersCardAction,
 } from '@/components/dashboard/dashboard-card/reminders-card';
 import { QuickSearchCard } from '@/components/dashboard/quick-search-card';
+import { SavedSearchesCard } from '@/components/dashboard/dashboard-card/saved-searches-card';
+import { WeeklyDigestCard } from '@/components/dashboard/dashboard-card/weekly-digest-card';
 
 const apiBase = process.env.API_URL ?? 'http://localhost:3000';
 
@@ -340,6 +342,32 @@ export default async function DashboardPage() {
                             />
                         </DashboardCard>
                     </DashboardGridItem>
+
+                    {/* Saved searches - 3 columns, 2 rows */}
+                    <DashboardGridItem colSpan={3} rowSpan={2}>
+                        <DashboardCard
+                            variant="medium"
+                            title="Saved Searches"
+                            className="h-full"
+                        >
+                            <SavedSearchesCard
+                                tenantId={session.activeTenantId}
+                            />
+                        </DashboardCard>
+                    </DashboardGridItem>
+
+                    {/* Weekly digest - 3 columns, 2 rows */}
+                    <DashboardGridItem colSpan={3} rowSpan={2}>
+                        <DashboardCard
+                            variant="medium"
+                            title="Weekly Digest"
+                            className="h-full"
+                        >
+                            <WeeklyDigestCard
+                                tenantId={session.activeTenantId}
+                            />
+                        </DashboardCard>
+                    </DashboardGridItem>
                 </DashboardGrid>
             </div>
         </div>
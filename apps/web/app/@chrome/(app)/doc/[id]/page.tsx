@@ -2,7 +2,7 @@
 
 import { useEffect, useState, useRef, useCallback, useMemo } from 'react';
 import { useDebouncedCallback } from 'use-debounce';
-import { useParams, useRouter } from 'next/navigation';
+import { useParams, useRouter, useSearchParams } from 'next/navigation';
 import { Loader2 } from 'lucide-react';
 import { Crepe } from '@milkdown/crepe';
 import { editorViewCtx } from '@milkdown/kit/core';
@@ -26,6 +26,7 @@ import {
 } from '@/components/document-editor/tag-editing-dialog';
 import { DEFAULT_TAG_COLOR } from '@/components/ui/tag';
 import { useDocumentHeader } from '@/components/document/document-header-context';
+import { RelatedDocumentsPanel } from '@/components/document/related-documents-panel';
 import '@milkdown/crepe/theme/common/style.css';
 import '@milkdown/crepe/theme/frame.css';
 
@@ -42,6 +43,11 @@ import {
     parseRemindShortcodeMatch,
 } from '@/components/document-editor/milkdown-remind';
 import '@/components/document-editor/remind.css';
+import {
+    passageHighlightProse,
+    highlightPassage,
+} from '@/components/document-editor/milkdown-passage-highlight';
+import '@/components/document-editor/passage-highlight.css';
 import type { RemindStatus } from '@/components/document-editor/remindNode';
 import {
     useDocumentQuery,
@@ -63,6 +69,20 @@ type Document = {
 
 type SaveStatus = 'idle' | 'saving' | 'saved' | 'error';
 
+/**
+ * Parse the `passage=<start>-<end>` deep link set by search results.
+ * Offsets index the trimmed markdown the search index was built from.
+ */
+const parsePassageParam = (value: string | null) => {
+    const match = value ? /^(\d+)-(\d+)$/.exec(value) : null;
+    if (!match) {
+        return null;
+    }
+    const start = Number(match[1]);
+    const end = Number(match[2]);
+    return end > start ? { start, end } : null;
+};
+
 const mapToTagOption = (tag: ApiTag): TagOption => ({
     id: tag.id,
     name: tag.name,
@@ -85,6 +105,7 @@ const mergeTagOptions = (...groups: TagOption[][]): TagOption[] => {
 export default function DocumentPage() {
     const params = useParams();
     const router = useRouter();
+    const searchParams = useSearchParams();
     const { toast } = useToast();
     const { setData: setDocumentHeaderData } = useDocumentHeader();
     const documentId = params.id as string;
@@ -98,6 +119,7 @@ export default function DocumentPage() {
     const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
     const [showDeleteDialog, setShowDeleteDialog] = useState(false);
     const [showTagDialog, setShowTagDialog] = useState(false);
+    const [isEditorReady, setIsEditorReady] = useState(false);
     const lastSavedContentRef = useRef<string>('');
     const isSavingRef = useRef(false);
 
@@ -542,7 +564,8 @@ export default function DocumentPage() {
                 .use(remindDomView)
                 .use(remindAutoParseProse)
                 .use(removeEmptyRemindProse)
-                .use(remindBackspaceDeleteProse);
+                .use(remindBackspaceDeleteProse)
+                .use(passageHighlightProse);
 
             const createStart = performance.now();
             await editor.create();
@@ -695,6 +718,8 @@ export default function DocumentPage() {
                 }
             };
 
+            setIsEditorReady(true);
+
             const totalEditorTime = performance.now() - editorStartTime;
             console.log(
                 `[Perf] Total editor initialization took: ${totalEditorTime.toFixed(
@@ -707,6 +732,7 @@ export default function DocumentPage() {
 
         // Cleanup
         return () => {
+            setIsEditorReady(false);
             if (editorInstanceRef.current) {
                 editorInstanceRef.current.destroy();
                 editorInstanceRef.current = null;
@@ -715,6 +741,31 @@ export default function DocumentPage() {
         // eslint-disable-next-line react-hooks/exhaustive-deps
     }, [document?.id]); // Only recreate editor when document loads or ID changes, not on title/updatedAt changes
 
+    // Scroll to and highlight the passage a search result linked to
+    const passageParam = searchParams.get('passage');
+    const documentContent = document?.content;
+    useEffect(() => {
+        const passage = parsePassageParam(passageParam);
+        if (!isEditorReady || !passage || !editorInstanceRef.current) {
+            return;
+        }
+
+        // the indexer chunks the trimmed content
+        const content = documentContent ?? '';
+        const leading = content.length - content.trimStart().length;
+        const passageMarkdown = content.slice(
+            leading + passage.start,
+            leading + passage.end
+        );
+
+        const view = editorInstanceRef.current.editor.ctx.get(editorViewCtx);
+        if (!highlightPassage(view, passageMarkdown)) {
+            console.warn('Linked passage not found in document');
+        }
+        // documentContent is only read when the link is followed, not on every save
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [isEditorReady, passageParam]);
+
     // Update reminder statuses when they change in the database
     useEffect(() => {
         if (!editorInstanceRef.current || !documentReminders) {
@@ -796,6 +847,7 @@ export default function DocumentPage() {
                         ref={editorRootRef}
                         className="crepe theme-frame min-h-[calc(100vh-8rem)] bg-card pb-[10vh]"
                     />
+                    <RelatedDocumentsPanel documentId={documentId} />
                 </div>
             </div>
 
@@ -41,6 +41,7 @@ import {
     AlertDialogTitle,
 } from '@/components/ui/alert-dialog';
 import { TagCreateDialog } from '@/components/tags/tag-create-dialog';
+import { DuplicateDocumentsCard } from '@/components/workspace/duplicate-documents-card';
 
 const TAG_QUERY_PARAMS = WORKSPACE_TAGS_MANAGEMENT_PARAMS;
 
@@ -400,6 +401,8 @@ export default function WorkspaceManagementPage() {
                     </Card>
                 </div>
 
+                <DuplicateDocumentsCard />
+
                 <Dialog
                     open={Boolean(editingTag)}
                     onOpenChange={(open) => !open && setEditingTag(null)}
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { SearchHubClient } from '@search-hub/sdk';
+
+const apiBase = process.env.API_URL ?? 'http://localhost:3000';
+
+async function requireClient() {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+        return null;
+    }
+
+    const apiSessionCookie = (session as { apiSessionCookie?: string })
+        .apiSessionCookie;
+    if (!apiSessionCookie) {
+        return null;
+    }
+
+    return new SearchHubClient({
+        baseUrl: apiBase,
+        headers: { cookie: apiSessionCookie },
+    });
+}
+
+function errorResponse(error: unknown, fallback: string) {
+    const status = (error as { status?: number }).status ?? 500;
+    const message = (error as { message?: string }).message ?? fallback;
+    return NextResponse.json({ error: message }, { status });
+}
+
+export async function POST(request: NextRequest) {
+    const client = await requireClient();
+    if (!client) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    try {
+        const body = await request.json();
+        // the browser aborting its request aborts the upstream one, which stops generation
+        const upstream = await client.openQaStream(body, {
+            signal: request.signal,
+        });
+        return new Response(upstream.body, {
+            status: 200,
+            headers: {
+                'content-type': 'text/event-stream; charset=utf-8',
+                'cache-control': 'no-cache, no-transform',
+            },
+        });
+    } catch (error) {
+        return errorResponse(error, 'Failed to stream answer');
+    }
+}
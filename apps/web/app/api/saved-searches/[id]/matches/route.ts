@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { SearchHubClient } from '@search-hub/sdk';
+
+const apiBase = process.env.API_URL ?? 'http://localhost:3000';
+
+async function requireClient() {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+        return null;
+    }
+
+    const apiSessionCookie = (session as { apiSessionCookie?: string })
+        .apiSessionCookie;
+    if (!apiSessionCookie) {
+        return null;
+    }
+
+    return new SearchHubClient({
+        baseUrl: apiBase,
+        headers: { cookie: apiSessionCookie },
+    });
+}
+
+function errorResponse(error: unknown, fallback: string) {
+    const status = (error as { status?: number }).status ?? 500;
+    const message = (error as { message?: string }).message ?? fallback;
+    return NextResponse.json({ error: message }, { status });
+}
+
+export async function GET(
+    _request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    const client = await requireClient();
+    if (!client) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    try {
+        const response = await client.getSavedSearchMatches(id);
+        return NextResponse.json(response, { status: 200 });
+    } catch (error) {
+        return errorResponse(error, 'Failed to fetch saved search matches');
+    }
+}
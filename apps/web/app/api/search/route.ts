@@ -5,6 +5,18 @@ import { authOptions } from '@/app/api/auth/[...nextauth]/route';
 
 const apiBase = process.env.API_URL ?? 'http://localhost:3000';
 
+// Structured filters forwarded as-is to both search endpoints
+const FILTER_PARAMS = [
+    'tagIds',
+    'authorId',
+    'updatedAfter',
+    'updatedBefore',
+    'favoritesOnly',
+] as const;
+
+// facets and ranking details only exist on the hybrid endpoint
+const HYBRID_PARAMS = ['includeFacets', 'explain'] as const;
+
 export async function GET(req: Request) {
     console.log('[Search API] Received request, API_URL:', apiBase);
 
@@ -41,9 +53,22 @@ export async function GET(req: Request) {
 
         // Use lexical or hybrid search based on type parameter
         const endpoint = type === 'hybrid' ? 'search' : 'lexical-search';
-        const requestUrl = `${apiBase}/v1/${endpoint}?q=${encodeURIComponent(
-            q
-        )}&limit=${limit}&offset=${offset}`;
+        const params = new URLSearchParams({
+            q,
+            limit: String(limit),
+            offset: String(offset),
+        });
+        const forwarded =
+            type === 'hybrid'
+                ? [...FILTER_PARAMS, ...HYBRID_PARAMS]
+                : FILTER_PARAMS;
+        for (const key of forwarded) {
+            const value = url.searchParams.get(key);
+            if (value) {
+                params.set(key, value);
+            }
+        }
+        const requestUrl = `${apiBase}/v1/${endpoint}?${params.toString()}`;
 
         const response = await fetch(requestUrl, {
             method: 'GET',
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { SearchHubClient } from '@search-hub/sdk';
+
+const apiBase = process.env.API_URL ?? 'http://localhost:3000';
+
+export async function GET(request: NextRequest) {
+    const session = await getServerSession(authOptions);
+
+    if (!session) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const apiSessionCookie = (session as { apiSessionCookie?: string })
+        .apiSessionCookie;
+    if (!apiSessionCookie) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const prefix = request.nextUrl.searchParams.get('prefix')?.trim() ?? '';
+    if (!prefix) {
+        return NextResponse.json(
+            { prefix, documents: [], tags: [], recentQueries: [] },
+            { status: 200 }
+        );
+    }
+
+    const client = new SearchHubClient({
+        baseUrl: apiBase,
+        headers: { cookie: apiSessionCookie },
+    });
+
+    try {
+        const response = await client.suggest({ prefix, limit: 5 });
+        return NextResponse.json(response, { status: 200 });
+    } catch (error) {
+        const status = (error as { status?: number }).status ?? 500;
+        const message =
+            (error as { message?: string }).message ??
+            'Failed to fetch suggestions';
+        return NextResponse.json({ error: message }, { status });
+    }
+}
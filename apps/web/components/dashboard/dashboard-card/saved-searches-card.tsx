@@ -0,0 +1,162 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { BellDot, FileText } from 'lucide-react';
+
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { cn } from '@/lib/utils';
+import {
+    useSavedSearchActions,
+    useSavedSearchMatchesQuery,
+    useSavedSearchesQuery,
+} from '@/hooks/use-saved-searches';
+
+export interface SavedSearchesCardProps {
+    tenantId: string | undefined;
+}
+
+function SavedSearchMatches({
+    tenantId,
+    savedSearchId,
+    onNewMatchesShown,
+}: {
+    tenantId: string | undefined;
+    savedSearchId: string;
+    onNewMatchesShown: () => void;
+}) {
+    const { data, isLoading } = useSavedSearchMatchesQuery(
+        tenantId,
+        savedSearchId
+    );
+    const hasNewMatches = Boolean(data?.matches.some((match) => match.isNew));
+
+    // mark seen only once the new matches are on screen
+    useEffect(() => {
+        if (hasNewMatches) {
+            onNewMatchesShown();
+        }
+    }, [hasNewMatches, onNewMatchesShown]);
+
+    if (isLoading || !data) {
+        return <Skeleton className="h-10 w-full" />;
+    }
+
+    if (data.matches.length === 0) {
+        return (
+            <p className="px-2 text-xs text-muted-foreground">
+                {data.savedSearch.lastRunAt
+                    ? 'Nothing matches yet.'
+                    : 'Matches appear after the first background run.'}
+            </p>
+        );
+    }
+
+    return (
+        <ul className="space-y-1">
+            {data.matches.slice(0, 5).map((match) => (
+                <li key={match.documentId}>
+                    <Link
+                        href={`/doc/${match.documentId}`}
+                        className="flex items-center gap-2 rounded-md px-2 py-1 text-xs hover:bg-muted/50"
+                    >
+                        <FileText className="h-3.5 w-3.5 shrink-0 text-muted-foreground" />
+                        <span className="truncate">
+                            {match.title || 'Untitled document'}
+                        </span>
+                        {match.isNew ? (
+                            <Badge className="ml-auto h-4 px-1.5 text-[0.6rem]">
+                                New
+                            </Badge>
+                        ) : null}
+                    </Link>
+                </li>
+            ))}
+        </ul>
+    );
+}
+
+export function SavedSearchesCard({ tenantId }: SavedSearchesCardProps) {
+    const { data, isLoading } = useSavedSearchesQuery(tenantId);
+    const { markSavedSearchSeen } = useSavedSearchActions(tenantId);
+    const [expandedId, setExpandedId] = useState<string | null>(null);
+    const markExpandedSeen = useCallback(() => {
+        if (expandedId) {
+            markSavedSearchSeen(expandedId);
+        }
+    }, [expandedId, markSavedSearchSeen]);
+
+    if (isLoading || !data) {
+        return (
+            <div className="space-y-2">
+                <Skeleton className="h-10 w-full" />
+                <Skeleton className="h-10 w-full" />
+            </div>
+        );
+    }
+
+    if (data.savedSearches.length === 0) {
+        return (
+            <div className="flex h-full items-center justify-center text-center text-sm text-muted-foreground">
+                Save a search from the search dialog to get alerted when new
+                documents match it.
+            </div>
+        );
+    }
+
+    return (
+        <div className="flex h-full min-h-0 flex-col gap-1.5 overflow-y-auto pr-1">
+            {data.savedSearches.map((savedSearch) => {
+                const expanded = expandedId === savedSearch.id;
+                return (
+                    <div
+                        key={savedSearch.id}
+                        className="rounded-lg border border-border/50 bg-muted/30"
+                    >
+                        <button
+                            type="button"
+                            onClick={() =>
+                                setExpandedId(expanded ? null : savedSearch.id)
+                            }
+                            className="flex w-full items-center gap-2 p-2 text-left transition-colors hover:bg-muted/50"
+                        >
+                            <BellDot
+                                className={cn(
+                                    'h-4 w-4 shrink-0',
+                                    savedSearch.newMatchCount > 0
+                                        ? 'text-primary'
+                                        : 'text-muted-foreground'
+                                )}
+                            />
+                            <div className="min-w-0 flex-1">
+                                <p className="truncate text-sm font-medium">
+                                    {savedSearch.name}
+                                </p>
+                                <p className="truncate text-xs text-muted-foreground">
+                                    {savedSearch.q}
+                                </p>
+                            </div>
+                            {savedSearch.newMatchCount > 0 ? (
+                                <Badge>
+                                    {savedSearch.newMatchCount === 1
+                                        ? '1 new match'
+                                        : `${savedSearch.newMatchCount} new matches`}
+                                </Badge>
+                            ) : null}
+                        </button>
+                        {expanded ? (
+                            <div className="border-t border-border/40 p-1.5">
+                                <SavedSearchMatches
+                                    tenantId={tenantId}
+                                    savedSearchId={savedSearch.id}
+                                    onNewMatchesShown={markExpandedSeen}
+                                />
+                            </div>
+                        ) : null}
+                    </div>
+                );
+            })}
+        </div>
+    );
+}
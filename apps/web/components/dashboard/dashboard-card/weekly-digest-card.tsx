@@ -0,0 +1,151 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { ChevronLeft, ChevronRight, Clock } from 'lucide-react';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { useWorkspaceDigestsQuery } from '@/hooks/use-dashboard';
+
+export interface WeeklyDigestCardProps {
+    tenantId: string | undefined;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const dayFormatter = new Intl.DateTimeFormat('en-US', {
+    month: 'short',
+    day: 'numeric',
+    timeZone: 'UTC',
+});
+
+// periodEnd is exclusive, so the week ends the day before
+function weekLabel(periodStart: string, periodEnd: string) {
+    const lastDay = new Date(new Date(periodEnd).getTime() - DAY_MS);
+    return `${dayFormatter.format(new Date(periodStart))} – ${dayFormatter.format(
+        lastDay
+    )}`;
+}
+
+export function WeeklyDigestCard({ tenantId }: WeeklyDigestCardProps) {
+    const { data, isLoading } = useWorkspaceDigestsQuery(tenantId);
+    const [index, setIndex] = useState(0);
+
+    if (isLoading || !data) {
+        return (
+            <div className="space-y-2">
+                <Skeleton className="h-4 w-32" />
+                <Skeleton className="h-16 w-full" />
+                <Skeleton className="h-4 w-2/3" />
+            </div>
+        );
+    }
+
+    const digest = data.digests[index];
+    if (!digest) {
+        return (
+            <div className="flex h-full items-center justify-center text-center text-sm text-muted-foreground">
+                A digest of the week&apos;s documents, searches and overdue
+                reminders arrives every Monday once the workspace is in use.
+            </div>
+        );
+    }
+
+    const { activity } = digest;
+    const stats = [
+        { label: 'created', value: activity.documentsCreated },
+        { label: 'edited', value: activity.documentsUpdated },
+        { label: 'searches', value: activity.searches },
+        { label: 'overdue', value: activity.overdueReminders },
+    ];
+
+    return (
+        <div className="flex h-full min-h-0 flex-col gap-3">
+            <div className="flex items-center justify-between">
+                <p className="text-xs font-medium text-muted-foreground">
+                    Week of {weekLabel(digest.periodStart, digest.periodEnd)}
+                </p>
+                <div className="flex items-center">
+                    <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-6 w-6"
+                        aria-label="Previous week"
+                        disabled={index >= data.digests.length - 1}
+                        onClick={() => setIndex(index + 1)}
+                    >
+                        <ChevronLeft className="h-4 w-4" />
+                    </Button>
+                    <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-6 w-6"
+                        aria-label="Next week"
+                        disabled={index === 0}
+                        onClick={() => setIndex(index - 1)}
+                    >
+                        <ChevronRight className="h-4 w-4" />
+                    </Button>
+                </div>
+            </div>
+
+            <div className="grid grid-cols-4 gap-2">
+                {stats.map((stat) => (
+                    <div
+                        key={stat.label}
+                        className="rounded-lg border border-border/50 bg-muted/30 p-2 text-center"
+                    >
+                        <p className="text-lg font-semibold">{stat.value}</p>
+                        <p className="text-[0.65rem] uppercase tracking-wide text-muted-foreground">
+                            {stat.label}
+                        </p>
+                    </div>
+                ))}
+            </div>
+
+            <div className="min-h-0 flex-1 space-y-3 overflow-y-auto pr-1">
+                <p className="whitespace-pre-line text-sm leading-relaxed">
+                    {digest.summary}
+                </p>
+
+                {activity.topSearches.length > 0 ? (
+                    <div className="flex flex-wrap gap-1.5">
+                        {activity.topSearches.map((search) => (
+                            <Badge key={search.query} variant="secondary">
+                                {search.query} · {search.count}
+                            </Badge>
+                        ))}
+                    </div>
+                ) : null}
+
+                {activity.reminders.length > 0 ? (
+                    <ul className="space-y-1">
+                        {activity.reminders.map((reminder) => (
+                            <li
+                                key={`${reminder.documentId}-${reminder.dueAt}`}
+                            >
+                                <Link
+                                    href={`/doc/${reminder.documentId}`}
+                                    className="flex items-center gap-2 rounded-md px-2 py-1 text-xs hover:bg-muted/50"
+                                >
+                                    <Clock className="h-3.5 w-3.5 shrink-0 text-amber-600" />
+                                    <span className="truncate">
+                                        {reminder.documentTitle ||
+                                            'Untitled document'}
+                                    </span>
+                                    <span className="ml-auto shrink-0 text-muted-foreground">
+                                        {reminder.whenText ||
+                                            dayFormatter.format(
+                                                new Date(reminder.dueAt)
+                                            )}
+                                    </span>
+                                </Link>
+                            </li>
+                        ))}
+                    </ul>
+                ) : null}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,154 @@
+import { $prose } from '@milkdown/utils';
+import type { Node as PMNode } from 'prosemirror-model';
+import { Plugin, PluginKey } from '@milkdown/prose/state';
+import { Decoration, DecorationSet } from '@milkdown/prose/view';
+import type { EditorView } from 'prosemirror-view';
+
+// --- Passage highlight: marks the search hit a user navigated from
+const passageHighlightKey = new PluginKey<DecorationSet>('passage-highlight');
+
+// number of consecutive words used to locate either end of a passage
+const ANCHOR_WORDS = 6;
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+
+interface DocWord {
+    word: string;
+    from: number;
+    to: number;
+}
+
+export const passageHighlightProse = $prose(
+    () =>
+        new Plugin<DecorationSet>({
+            key: passageHighlightKey,
+            state: {
+                init: () => DecorationSet.empty,
+                apply(tr, set) {
+                    const range = tr.getMeta(passageHighlightKey) as
+                        | { from: number; to: number }
+                        | null
+                        | undefined;
+                    if (range !== undefined) {
+                        return range
+                            ? DecorationSet.create(tr.doc, [
+                                  Decoration.inline(range.from, range.to, {
+                                      class: 'pm-passage-highlight',
+                                  }),
+                              ])
+                            : DecorationSet.empty;
+                    }
+                    // the highlight is only a landing marker; drop it once the user edits
+                    return tr.docChanged ? DecorationSet.empty : set;
+                },
+            },
+            props: {
+                decorations: (state) => passageHighlightKey.getState(state),
+            },
+        })
+);
+
+function collectWords(doc: PMNode): DocWord[] {
+    const words: DocWord[] = [];
+    doc.descendants((node, pos) => {
+        if (!node.isText) {
+            return true;
+        }
+        const text = node.text ?? '';
+        for (const match of text.matchAll(WORD_PATTERN)) {
+            const from = pos + (match.index ?? 0);
+            words.push({
+                word: match[0].toLowerCase(),
+                from,
+                to: from + match[0].length,
+            });
+        }
+        return false;
+    });
+    return words;
+}
+
+function indexOfSequence(
+    words: DocWord[],
+    sequence: string[],
+    fromIndex = 0
+): number {
+    if (sequence.length === 0) {
+        return -1;
+    }
+    for (let i = fromIndex; i + sequence.length <= words.length; i++) {
+        if (
+            sequence.every((word, offset) => words[i + offset]?.word === word)
+        ) {
+            return i;
+        }
+    }
+    return -1;
+}
+
+/**
+ * Map a passage of the stored markdown onto editor positions.
+ * Markdown syntax never reaches the rendered doc, so both ends are located by
+ * their leading/trailing words rather than by character offsets.
+ */
+export function findPassageRange(
+    doc: PMNode,
+    passageMarkdown: string
+): { from: number; to: number } | null {
+    const passageWords =
+        passageMarkdown.toLowerCase().match(WORD_PATTERN) ?? [];
+    if (passageWords.length === 0) {
+        return null;
+    }
+
+    const words = collectWords(doc);
+    const anchorSize = Math.min(ANCHOR_WORDS, passageWords.length);
+
+    let startIndex = -1;
+    for (
+        let size = anchorSize;
+        size > 0 && startIndex < 0;
+        size = Math.floor(size / 2)
+    ) {
+        startIndex = indexOfSequence(words, passageWords.slice(0, size));
+    }
+    if (startIndex < 0) {
+        return null;
+    }
+
+    const tail = passageWords.slice(-anchorSize);
+    const tailIndex = indexOfSequence(words, tail, startIndex);
+    const endIndex =
+        tailIndex >= 0
+            ? tailIndex + tail.length - 1
+            : Math.min(startIndex + passageWords.length - 1, words.length - 1);
+
+    const start = words[startIndex];
+    const end = words[endIndex];
+    if (!start || !end) {
+        return null;
+    }
+
+    return { from: start.from, to: end.to };
+}
+
+/**
+ * Highlight a passage of the document markdown and scroll it into the middle of the viewport.
+ * Returns false when the passage can no longer be found (e.g. the doc was edited since indexing).
+ */
+export function highlightPassage(
+    view: EditorView,
+    passageMarkdown: string
+): boolean {
+    const range = findPassageRange(view.state.doc, passageMarkdown);
+    if (!range) {
+        return false;
+    }
+
+    view.dispatch(view.state.tr.setMeta(passageHighlightKey, range));
+
+    const { node } = view.domAtPos(range.from);
+    const element = node instanceof HTMLElement ? node : node.parentElement;
+    element?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+
+    return true;
+}
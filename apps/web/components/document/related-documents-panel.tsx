@@ -0,0 +1,64 @@
+'use client';
+
+import Link from 'next/link';
+import { FileText } from 'lucide-react';
+
+import { Skeleton } from '@/components/ui/skeleton';
+import { useRelatedDocumentsQuery } from '@/hooks/use-documents';
+
+interface RelatedDocumentsPanelProps {
+    documentId: string;
+}
+
+export function RelatedDocumentsPanel({
+    documentId,
+}: RelatedDocumentsPanelProps) {
+    const { data, isLoading, isError } = useRelatedDocumentsQuery(documentId);
+
+    // an unindexed document or a failed lookup just hides the panel
+    if (isError || (data && data.items.length === 0)) {
+        return null;
+    }
+
+    return (
+        <section
+            aria-labelledby="related-documents-heading"
+            className="border-t border-border/50 py-6"
+        >
+            <h2
+                id="related-documents-heading"
+                className="mb-3 text-sm font-semibold text-muted-foreground"
+            >
+                Related
+            </h2>
+            {isLoading || !data ? (
+                <div className="grid gap-2 sm:grid-cols-2">
+                    <Skeleton className="h-12 w-full" />
+                    <Skeleton className="h-12 w-full" />
+                </div>
+            ) : (
+                <ul className="grid gap-2 sm:grid-cols-2">
+                    {data.items.map((item) => (
+                        <li key={item.id}>
+                            <Link
+                                href={`/doc/${item.id}`}
+                                className="flex items-center gap-3 rounded-lg border border-border/50 bg-muted/30 p-3 text-sm transition-colors hover:bg-muted/60"
+                            >
+                                <FileText className="h-4 w-4 shrink-0 text-muted-foreground" />
+                                <span className="min-w-0 flex-1 truncate">
+                                    {item.title || 'Untitled document'}
+                                </span>
+                                <span
+                                    className="shrink-0 text-xs tabular-nums text-muted-foreground"
+                                    title="Similarity"
+                                >
+                                    {Math.round(item.score * 100)}%
+                                </span>
+                            </Link>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </section>
+    );
+}
@@ -6,6 +6,7 @@ import { Home, Search, FilePlus, Files, Loader2 } from 'lucide-react';
 import { NavFavorites } from '@/components/navigation/nav-favorites';
 import { NavMain } from '@/components/navigation/nav-main';
 import { NavDocuments } from '@/components/navigation/nav-documents';
+import { NavSavedSearches } from '@/components/navigation/nav-saved-searches';
 import { WorkspaceSwitcher } from '@/components/navigation/workspace-switcher';
 import {
     Sidebar,
@@ -94,7 +95,15 @@ export function AppSidebar({
 
     return (
         <>
-            <SearchModal open={isOpen} onOpenChange={setIsOpen} />
+            <SearchModal
+                open={isOpen}
+                onOpenChange={setIsOpen}
+                activeTenantId={activeTenantId}
+                canExplain={
+                    activeWorkspaceRole === 'owner' ||
+                    activeWorkspaceRole === 'admin'
+                }
+            />
             <Sidebar collapsible="icon" className="border-r-0" {...props}>
                 <SidebarHeader>
                     <div className="flex items-center justify-between">
@@ -110,6 +119,7 @@ export function AppSidebar({
                 </SidebarHeader>
                 <SidebarContent>
                     <NavFavorites activeTenantId={activeTenantId} />
+                    <NavSavedSearches activeTenantId={activeTenantId} />
                     <NavDocuments activeTenantId={activeTenantId} />
                 </SidebarContent>
                 <SidebarFooter>
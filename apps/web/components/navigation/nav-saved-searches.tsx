@@ -0,0 +1,121 @@
+'use client';
+
+import { BellDot, ChevronDown, Trash2 } from 'lucide-react';
+
+import {
+    Collapsible,
+    CollapsibleContent,
+    CollapsibleTrigger,
+} from '@/components/ui/collapsible';
+import {
+    SidebarGroup,
+    SidebarGroupContent,
+    SidebarGroupLabel,
+    SidebarMenu,
+    SidebarMenuAction,
+    SidebarMenuBadge,
+    SidebarMenuButton,
+    SidebarMenuItem,
+} from '@/components/ui/sidebar';
+import { useSearch } from '@/components/search/search-provider';
+import {
+    useSavedSearchActions,
+    useSavedSearchesQuery,
+} from '@/hooks/use-saved-searches';
+
+type NavSavedSearchesProps = {
+    activeTenantId?: string;
+};
+
+function newMatchesLabel(count: number) {
+    return count === 1 ? '1 new match' : `${count} new matches`;
+}
+
+export function NavSavedSearches({ activeTenantId }: NavSavedSearchesProps) {
+    const { openSearch } = useSearch();
+    const { data } = useSavedSearchesQuery(activeTenantId);
+    const { deleteSavedSearch, markSavedSearchSeen } =
+        useSavedSearchActions(activeTenantId);
+    const savedSearches = data?.savedSearches ?? [];
+
+    if (savedSearches.length === 0) {
+        return null;
+    }
+
+    return (
+        <Collapsible defaultOpen>
+            <SidebarGroup>
+                <SidebarGroupLabel asChild className="pr-9">
+                    <CollapsibleTrigger className="group/collapsible flex w-full items-center justify-start gap-1 rounded-md px-2 py-1 text-left text-xs font-medium text-sidebar-foreground/80 outline-hidden ring-sidebar-ring transition-colors duration-200 hover:bg-sidebar-accent hover:text-sidebar-accent-foreground focus-visible:ring-2 [&>svg]:size-4 [&>svg]:shrink-0 [&>svg]:transition-[transform,opacity] [&>svg]:duration-200 data-[state=open]:[&>svg]:rotate-180">
+                        <span className="truncate">Saved searches</span>
+                        {data && data.newMatchCount > 0 ? (
+                            <span className="ml-1 rounded-full bg-primary px-1.5 text-[0.65rem] font-semibold text-primary-foreground">
+                                {data.newMatchCount}
+                            </span>
+                        ) : null}
+                        <ChevronDown className="opacity-0 group-hover/collapsible:opacity-100 group-focus-visible/collapsible:opacity-100" />
+                    </CollapsibleTrigger>
+                </SidebarGroupLabel>
+                <CollapsibleContent asChild>
+                    <SidebarGroupContent>
+                        <SidebarMenu>
+                            {savedSearches.map((savedSearch) => (
+                                <SidebarMenuItem key={savedSearch.id}>
+                                    <SidebarMenuButton
+                                        tooltip={
+                                            savedSearch.newMatchCount > 0
+                                                ? `${savedSearch.q} · ${newMatchesLabel(
+                                                      savedSearch.newMatchCount
+                                                  )}`
+                                                : savedSearch.q
+                                        }
+                                        onClick={() => {
+                                            if (savedSearch.newMatchCount > 0) {
+                                                markSavedSearchSeen(
+                                                    savedSearch.id
+                                                );
+                                            }
+                                            openSearch(savedSearch.q);
+                                        }}
+                                    >
+                                        <BellDot
+                                            className={
+                                                savedSearch.newMatchCount > 0
+                                                    ? 'text-primary'
+                                                    : 'text-muted-foreground'
+                                            }
+                                        />
+                                        <span className="truncate">
+                                            {savedSearch.name}
+                                        </span>
+                                    </SidebarMenuButton>
+                                    {savedSearch.newMatchCount > 0 ? (
+                                        <SidebarMenuBadge
+                                            aria-label={newMatchesLabel(
+                                                savedSearch.newMatchCount
+                                            )}
+                                            className="right-7"
+                                        >
+                                            {savedSearch.newMatchCount} new
+                                        </SidebarMenuBadge>
+                                    ) : null}
+                                    <SidebarMenuAction
+                                        showOnHover
+                                        aria-label="Delete saved search"
+                                        onClick={() =>
+                                            void deleteSavedSearch(
+                                                savedSearch.id
+                                            )
+                                        }
+                                    >
+                                        <Trash2 />
+                                    </SidebarMenuAction>
+                                </SidebarMenuItem>
+                            ))}
+                        </SidebarMenu>
+                    </SidebarGroupContent>
+                </CollapsibleContent>
+            </SidebarGroup>
+        </Collapsible>
+    );
+}
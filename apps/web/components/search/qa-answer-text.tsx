@@ -0,0 +1,68 @@
+'use client';
+
+import type { ReactNode } from 'react';
+import type { QaCitationSpan, QaClaim } from '@search-hub/schemas';
+
+export interface QaAnswerTextProps {
+    answer: string;
+    claims: QaClaim[];
+    onOpenSpan: (span: QaCitationSpan) => void;
+}
+
+/**
+ * The answer with each verified claim underlined: dotted when a passage
+ * supports it (click to open the passage), wavy when none does.
+ */
+export function QaAnswerText({
+    answer,
+    claims,
+    onOpenSpan,
+}: QaAnswerTextProps) {
+    const parts: ReactNode[] = [];
+    let offset = 0;
+
+    for (const claim of claims) {
+        if (claim.start < offset) {
+            continue;
+        }
+        parts.push(answer.slice(offset, claim.start));
+        const text = answer.slice(claim.start, claim.end);
+        const span = claim.span;
+
+        parts.push(
+            claim.supported && span ? (
+                <button
+                    key={claim.start}
+                    type="button"
+                    title={`“${span.text}”`}
+                    onClick={() => onOpenSpan(span)}
+                    className="inline text-left underline decoration-primary/50 decoration-dotted underline-offset-4 hover:decoration-primary"
+                >
+                    {text}
+                </button>
+            ) : (
+                <span
+                    key={claim.start}
+                    title="Not found in your workspace sources"
+                    className="underline decoration-amber-500 decoration-wavy underline-offset-4"
+                >
+                    {text}
+                </span>
+            )
+        );
+        offset = claim.end;
+    }
+    parts.push(answer.slice(offset));
+
+    return <>{parts}</>;
+}
+
+export function groundednessLabel(claims: QaClaim[]): string | null {
+    if (claims.length === 0) {
+        return null;
+    }
+    const supported = claims.filter((claim) => claim.supported).length;
+    return supported === claims.length
+        ? 'Every claim was found in your sources.'
+        : `${supported} of ${claims.length} claims found in your sources; double-check the ones with a wavy underline.`;
+}
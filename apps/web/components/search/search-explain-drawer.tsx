@@ -0,0 +1,174 @@
+'use client';
+
+import { Badge } from '@/components/ui/badge';
+import {
+    Sheet,
+    SheetContent,
+    SheetDescription,
+    SheetHeader,
+    SheetTitle,
+} from '@/components/ui/sheet';
+import type {
+    SearchExplain,
+    SearchExplainItem,
+    SearchResultItem,
+} from '@search-hub/schemas';
+
+const semanticStatusLabels: Record<SearchExplain['semanticStatus'], string> = {
+    used: 'Semantic results fused',
+    skipped: 'Semantic skipped (query too short)',
+    unavailable: 'Semantic unavailable (circuit open)',
+    failed: 'Semantic failed, lexical only',
+    no_results: 'No semantic candidates',
+    top_score_cutoff: 'Dropped: top rerank score below cutoff',
+};
+
+function formatScore(value: number | null | undefined, digits = 4) {
+    return value === null || value === undefined ? '—' : value.toFixed(digits);
+}
+
+function fusionSummary(fusion: SearchExplain['fusion']) {
+    if (fusion.mode === 'rrf') {
+        return `rrf (k = ${fusion.rrfK})`;
+    }
+    if (fusion.mode === 'semantic_first') {
+        return 'semantic first';
+    }
+    return `${fusion.mode} (alpha = ${fusion.alpha})`;
+}
+
+function ExplainRow({
+    index,
+    title,
+    item,
+}: {
+    index: number;
+    title: string;
+    item: SearchExplainItem;
+}) {
+    return (
+        <li className="space-y-1.5 rounded-md border border-border/40 p-3">
+            <div className="flex items-center gap-2">
+                <span className="text-xs text-muted-foreground">
+                    #{index + 1}
+                </span>
+                <span className="truncate text-sm font-medium">{title}</span>
+                <span className="ml-auto font-mono text-xs">
+                    {formatScore(item.finalScore, 6)}
+                </span>
+            </div>
+            <dl className="grid grid-cols-[6rem_1fr] gap-x-2 gap-y-1 text-xs">
+                <dt className="text-muted-foreground">Lexical</dt>
+                <dd className="font-mono">
+                    {item.lexical
+                        ? `rank ${item.lexical.rank} · ts_rank ${formatScore(item.lexical.tsRank)}`
+                        : 'no match'}
+                </dd>
+                <dt className="text-muted-foreground">Semantic</dt>
+                <dd className="flex flex-wrap items-center gap-1.5 font-mono">
+                    {item.semantic ? (
+                        <>
+                            <span>
+                                {item.semantic.rank !== null
+                                    ? `rank ${item.semantic.rank}`
+                                    : 'not ranked'}{' '}
+                                · chunk {item.semantic.chunkIdx} · rerank{' '}
+                                {formatScore(item.semantic.rerankScore)}
+                            </span>
+                            {item.semantic.passedThreshold ? null : (
+                                <Badge variant="outline">below threshold</Badge>
+                            )}
+                        </>
+                    ) : (
+                        'not retrieved'
+                    )}
+                </dd>
+            </dl>
+        </li>
+    );
+}
+
+interface SearchExplainDrawerProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    explain: SearchExplain | null;
+    results: SearchResultItem[];
+}
+
+/**
+ * Ranking internals of the current hybrid search (owners and admins only)
+ */
+export function SearchExplainDrawer({
+    open,
+    onOpenChange,
+    explain,
+    results,
+}: SearchExplainDrawerProps) {
+    const titles = new Map(results.map((result) => [result.id, result.title]));
+
+    return (
+        <Sheet open={open} onOpenChange={onOpenChange}>
+            <SheetContent className="w-full overflow-y-auto sm:max-w-md">
+                <SheetHeader>
+                    <SheetTitle>Ranking details</SheetTitle>
+                    <SheetDescription>
+                        How each result was scored by lexical and semantic
+                        retrieval and fused into the final order.
+                    </SheetDescription>
+                </SheetHeader>
+                {explain ? (
+                    <div className="space-y-4 px-4 pb-6">
+                        <dl className="grid grid-cols-[9rem_1fr] gap-x-2 gap-y-1 text-xs">
+                            <dt className="text-muted-foreground">Fusion</dt>
+                            <dd className="font-mono">
+                                {fusionSummary(explain.fusion)}
+                            </dd>
+                            <dt className="text-muted-foreground">Semantic</dt>
+                            <dd>
+                                {semanticStatusLabels[explain.semanticStatus]}
+                            </dd>
+                            <dt className="text-muted-foreground">
+                                Rerank threshold
+                            </dt>
+                            <dd className="font-mono">
+                                {explain.calibrated === false
+                                    ? 'not applied (uncalibrated scores)'
+                                    : explain.semanticRerankThreshold}
+                            </dd>
+                            <dt className="text-muted-foreground">
+                                Top score cutoff
+                            </dt>
+                            <dd className="font-mono">
+                                {explain.semanticTopScoreCutoff} (top{' '}
+                                {formatScore(explain.topSemanticScore)})
+                            </dd>
+                        </dl>
+                        {explain.items.length > 0 ? (
+                            <ol className="space-y-2">
+                                {explain.items.map((item, index) => (
+                                    <ExplainRow
+                                        key={item.id}
+                                        index={index}
+                                        title={
+                                            titles.get(item.id) ??
+                                            'Untitled document'
+                                        }
+                                        item={item}
+                                    />
+                                ))}
+                            </ol>
+                        ) : (
+                            <p className="text-sm text-muted-foreground">
+                                No results to explain.
+                            </p>
+                        )}
+                    </div>
+                ) : (
+                    <p className="px-4 text-sm text-muted-foreground">
+                        Run a search to see its ranking details.
+                    </p>
+                )}
+            </SheetContent>
+        </Sheet>
+    );
+}
@@ -0,0 +1,325 @@
+'use client';
+
+import { Star } from 'lucide-react';
+
+import { Badge } from '@/components/ui/badge';
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from '@/components/ui/select';
+import { useWorkspaceTagsQuery } from '@/hooks/use-documents';
+import {
+    updatedAtBucketRange,
+    type CreatorFacet,
+    type SearchFacets,
+    type UpdatedAtBucket,
+} from '@search-hub/schemas';
+
+// 'older' narrows to documents not touched for over a year
+export type UpdatedWithin = 'any' | UpdatedAtBucket;
+
+export interface SearchFilterState {
+    tagIds: string[];
+    authorId?: string;
+    updatedWithin: UpdatedWithin;
+    favoritesOnly: boolean;
+}
+
+export const emptySearchFilters: SearchFilterState = {
+    tagIds: [],
+    updatedWithin: 'any',
+    favoritesOnly: false,
+};
+
+const updatedBucketLabels: Record<UpdatedAtBucket, string> = {
+    day: 'Past day',
+    week: 'Past week',
+    month: 'Past month',
+    year: 'Past year',
+    older: 'Older',
+};
+
+export function hasActiveFilters(filters: SearchFilterState) {
+    return (
+        filters.tagIds.length > 0 ||
+        Boolean(filters.authorId) ||
+        filters.updatedWithin !== 'any' ||
+        filters.favoritesOnly
+    );
+}
+
+/**
+ * Serialize filter state into the query params understood by /api/search
+ */
+export function toFilterSearchParams(filters: SearchFilterState) {
+    const params = new URLSearchParams();
+
+    if (filters.tagIds.length > 0) {
+        params.set('tagIds', filters.tagIds.join(','));
+    }
+    if (filters.authorId) {
+        params.set('authorId', filters.authorId);
+    }
+    if (filters.updatedWithin !== 'any') {
+        // the same windows the updatedAt facet counts are computed over
+        const { updatedAfter, updatedBefore } = updatedAtBucketRange(
+            filters.updatedWithin
+        );
+        if (updatedAfter) {
+            params.set('updatedAfter', updatedAfter.toISOString());
+        }
+        if (updatedBefore) {
+            params.set('updatedBefore', updatedBefore.toISOString());
+        }
+    }
+    if (filters.favoritesOnly) {
+        params.set('favoritesOnly', 'true');
+    }
+
+    return params;
+}
+
+export type SearchAuthor = Pick<CreatorFacet, 'id' | 'name'>;
+
+/**
+ * Add the creators from a facet response to the authors offered so far
+ */
+export function mergeSearchAuthors(
+    authors: SearchAuthor[],
+    creators: CreatorFacet[]
+): SearchAuthor[] {
+    const known = new Set(authors.map((author) => author.id));
+    const added = creators
+        .filter((creator) => !known.has(creator.id))
+        .map(({ id, name }) => ({ id, name }));
+    return added.length > 0 ? [...authors, ...added] : authors;
+}
+
+interface SearchFilterBarProps {
+    filters: SearchFilterState;
+    // authors seen in facet results; the selected one stays listed while filtering
+    authors: SearchAuthor[];
+    onChange: (filters: SearchFilterState) => void;
+}
+
+export function SearchFilterBar({
+    filters,
+    authors,
+    onChange,
+}: SearchFilterBarProps) {
+    const { data: tags = [] } = useWorkspaceTagsQuery();
+
+    const toggleTag = (tagId: string) => {
+        const tagIds = filters.tagIds.includes(tagId)
+            ? filters.tagIds.filter((id) => id !== tagId)
+            : [...filters.tagIds, tagId];
+        onChange({ ...filters, tagIds });
+    };
+
+    return (
+        <div className="flex flex-wrap items-center gap-1.5 border-b px-3 py-2">
+            <button
+                type="button"
+                onClick={() =>
+                    onChange({
+                        ...filters,
+                        favoritesOnly: !filters.favoritesOnly,
+                    })
+                }
+                aria-pressed={filters.favoritesOnly}
+            >
+                <Badge
+                    variant={filters.favoritesOnly ? 'default' : 'outline'}
+                    className="cursor-pointer"
+                >
+                    <Star />
+                    Favorites
+                </Badge>
+            </button>
+            <Select
+                value={filters.updatedWithin}
+                onValueChange={(value) =>
+                    onChange({
+                        ...filters,
+                        updatedWithin: value as UpdatedWithin,
+                    })
+                }
+            >
+                <SelectTrigger size="sm" className="text-xs">
+                    <SelectValue placeholder="Updated" />
+                </SelectTrigger>
+                <SelectContent>
+                    <SelectItem value="any">Any time</SelectItem>
+                    {Object.entries(updatedBucketLabels).map(
+                        ([bucket, label]) => (
+                            <SelectItem key={bucket} value={bucket}>
+                                {label}
+                            </SelectItem>
+                        )
+                    )}
+                </SelectContent>
+            </Select>
+            {authors.length > 0 ? (
+                <Select
+                    value={filters.authorId ?? 'any'}
+                    onValueChange={(value) =>
+                        onChange({
+                            ...filters,
+                            authorId: value === 'any' ? undefined : value,
+                        })
+                    }
+                >
+                    <SelectTrigger size="sm" className="text-xs">
+                        <SelectValue placeholder="Author" />
+                    </SelectTrigger>
+                    <SelectContent>
+                        <SelectItem value="any">Any author</SelectItem>
+                        {authors.map((author) => (
+                            <SelectItem key={author.id} value={author.id}>
+                                {author.name ?? 'Unknown author'}
+                            </SelectItem>
+                        ))}
+                    </SelectContent>
+                </Select>
+            ) : null}
+            {tags.map((tag) => {
+                const selected = filters.tagIds.includes(tag.id);
+                return (
+                    <button
+                        key={tag.id}
+                        type="button"
+                        onClick={() => toggleTag(tag.id)}
+                        aria-pressed={selected}
+                    >
+                        <Badge
+                            variant={selected ? 'default' : 'outline'}
+                            className="cursor-pointer"
+                        >
+                            {tag.name}
+                        </Badge>
+                    </button>
+                );
+            })}
+            {hasActiveFilters(filters) ? (
+                <button
+                    type="button"
+                    onClick={() => onChange(emptySearchFilters)}
+                    className="ml-auto text-xs text-muted-foreground hover:text-foreground"
+                >
+                    Clear filters
+                </button>
+            ) : null}
+        </div>
+    );
+}
+
+interface SearchFacetChipsProps {
+    facets: SearchFacets;
+    filters: SearchFilterState;
+    onChange: (filters: SearchFilterState) => void;
+}
+
+/**
+ * Result-count chips for the current matched set; clicking one narrows the search
+ */
+export function SearchFacetChips({
+    facets,
+    filters,
+    onChange,
+}: SearchFacetChipsProps) {
+    const hasFacets =
+        facets.tags.length > 0 ||
+        facets.creators.length > 0 ||
+        facets.updatedAt.length > 0;
+
+    if (!hasFacets) {
+        return null;
+    }
+
+    return (
+        <div className="flex flex-wrap items-center gap-1.5 px-3 py-2 text-xs">
+            {facets.tags.map((tag) => {
+                const selected = filters.tagIds.includes(tag.id);
+                return (
+                    <FacetChip
+                        key={`tag-${tag.id}`}
+                        label={`#${tag.name}`}
+                        count={tag.count}
+                        selected={selected}
+                        onClick={() =>
+                            onChange({
+                                ...filters,
+                                tagIds: selected
+                                    ? filters.tagIds.filter(
+                                          (id) => id !== tag.id
+                                      )
+                                    : [...filters.tagIds, tag.id],
+                            })
+                        }
+                    />
+                );
+            })}
+            {facets.creators.map((creator) => {
+                const selected = filters.authorId === creator.id;
+                return (
+                    <FacetChip
+                        key={`creator-${creator.id}`}
+                        label={creator.name ?? 'Unknown author'}
+                        count={creator.count}
+                        selected={selected}
+                        onClick={() =>
+                            onChange({
+                                ...filters,
+                                authorId: selected ? undefined : creator.id,
+                            })
+                        }
+                    />
+                );
+            })}
+            {facets.updatedAt.map((facet) => {
+                const selected = filters.updatedWithin === facet.bucket;
+                return (
+                    <FacetChip
+                        key={`updated-${facet.bucket}`}
+                        label={updatedBucketLabels[facet.bucket]}
+                        count={facet.count}
+                        selected={selected}
+                        onClick={() =>
+                            onChange({
+                                ...filters,
+                                updatedWithin: selected ? 'any' : facet.bucket,
+                            })
+                        }
+                    />
+                );
+            })}
+        </div>
+    );
+}
+
+function FacetChip({
+    label,
+    count,
+    selected,
+    onClick,
+}: {
+    label: string;
+    count: number;
+    selected: boolean;
+    onClick: () => void;
+}) {
+    return (
+        <button type="button" onClick={onClick} aria-pressed={selected}>
+            <Badge
+                variant={selected ? 'default' : 'secondary'}
+                className="cursor-pointer"
+            >
+                {label}
+                <span className="text-muted-foreground">{count}</span>
+            </Badge>
+        </button>
+    );
+}
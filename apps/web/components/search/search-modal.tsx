@@ -2,7 +2,13 @@
 
 import { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
-import { FileText, Microscope } from 'lucide-react';
+import {
+    BookmarkPlus,
+    Bug,
+    FileText,
+    Microscope,
+    Square,
+} from 'lucide-react';
 import { useDebouncedCallback } from 'use-debounce';
 
 import {
@@ -14,73 +20,109 @@ import {
     CommandList,
 } from '@/components/ui/command';
 import { Button } from '@/components/ui/button';
-import type { SearchResultItem } from '@search-hub/schemas';
+import type {
+    QaCitationSpan,
+    SearchExplain,
+    SearchFacets,
+    SearchResultItem,
+    SearchResultPassage,
+} from '@search-hub/schemas';
 import { useSearch } from './search-provider';
 import { useInvalidateSearchAnalytics } from '@/hooks/use-dashboard';
+import { useSavedSearchActions } from '@/hooks/use-saved-searches';
+import { useQaStream } from '@/hooks/use-qa-stream';
+import { QaAnswerText, groundednessLabel } from './qa-answer-text';
+import {
+    SearchFacetChips,
+    SearchFilterBar,
+    emptySearchFilters,
+    mergeSearchAuthors,
+    toFilterSearchParams,
+    type SearchAuthor,
+    type SearchFilterState,
+} from './search-filters';
+import { SearchSuggestions } from './search-suggestions';
+import { SearchExplainDrawer } from './search-explain-drawer';
 
 function tokenize(query: string) {
     return query
         .toLowerCase()
-        .replace(/[^\w\s]/g, ' ')
+        .replace(/[^\p{L}\p{N}\s]/gu, ' ')
         .split(/\s+/)
         .filter(Boolean);
 }
 
+// Chinese, Japanese and Korean words are one or two characters long
+const CJK_PATTERN =
+    /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/u;
+
 function isMeaningfulQuery(value: string) {
     const tokens = tokenize(value);
-    const meaningful = tokens.filter((t) => t.length >= 3);
+    const meaningful = tokens.filter(
+        (t) => t.length >= 3 || CJK_PATTERN.test(t)
+    );
     return meaningful.length > 0;
 }
 
-const qaSources = [
-    {
-        id: 'doc-binary-search',
-        title: 'Binary Search',
-        snippet:
-            'When to use each template and how the boundaries shift for exact match vs first-true.',
-    },
-    {
-        id: 'doc-sorted-arrays',
-        title: 'Searching Sorted Arrays',
-        snippet:
-            'Divide and conquer approach to reduce search space from O(n) to O(log n).',
-    },
-    {
-        id: 'doc-algorithms-playbook',
-        title: 'Algorithms Playbook',
-        snippet:
-            'Binary search invariants and common pitfalls when choosing mid.',
-    },
-];
-
 interface SearchModalProps {
     open: boolean;
     onOpenChange: (open: boolean) => void;
+    activeTenantId?: string;
+    // owners and admins can inspect ranking details
+    canExplain?: boolean;
 }
 
-export function SearchModal({ open, onOpenChange }: SearchModalProps) {
+export function SearchModal({
+    open,
+    onOpenChange,
+    activeTenantId,
+    canExplain = false,
+}: SearchModalProps) {
     const router = useRouter();
     const { initialQuery } = useSearch();
     const invalidateSearchAnalytics = useInvalidateSearchAnalytics();
+    const { createSavedSearch, createSavedSearchPending } =
+        useSavedSearchActions(activeTenantId);
     const [query, setQuery] = useState('');
     const [results, setResults] = useState<SearchResultItem[]>([]);
+    const [facets, setFacets] = useState<SearchFacets | null>(null);
+    const [authors, setAuthors] = useState<SearchAuthor[]>([]);
     const [isLoading, setIsLoading] = useState(false);
     const [noStrongMatches, setNoStrongMatches] = useState(false);
+    const [didYouMean, setDidYouMean] = useState<string | null>(null);
+    const [filters, setFilters] =
+        useState<SearchFilterState>(emptySearchFilters);
+    // searches run with explain=true while the debug drawer is open
+    const [explainOpen, setExplainOpen] = useState(false);
+    const [explain, setExplain] = useState<SearchExplain | null>(null);
+    const qa = useQaStream();
+    const resetQa = qa.reset;
 
     const performSearch = useDebouncedCallback(
-        async (searchQuery: string, type: 'lexical' | 'hybrid' = 'hybrid') => {
+        async (
+            searchQuery: string,
+            activeFilters: SearchFilterState,
+            type: 'lexical' | 'hybrid' = 'hybrid',
+            withExplain = false
+        ) => {
             if (!searchQuery.trim() || !isMeaningfulQuery(searchQuery)) {
                 setResults([]);
+                setFacets(null);
                 setIsLoading(false);
                 return;
             }
 
             setIsLoading(true);
             try {
+                const params = toFilterSearchParams(activeFilters);
+                params.set('q', searchQuery);
+                params.set('type', type);
+                params.set('includeFacets', 'true');
+                if (withExplain) {
+                    params.set('explain', 'true');
+                }
                 const response = await fetch(
-                    `/api/search?q=${encodeURIComponent(
-                        searchQuery
-                    )}&type=${type}`
+                    `/api/search?${params.toString()}`
                 );
                 if (!response.ok) {
                     throw new Error('Search request failed');
@@ -89,14 +131,25 @@ export function SearchModal({ open, onOpenChange }: SearchModalProps) {
                 // Backend returns SearchResponse: { total, items, page?, pageSize? }
                 if (data.items && Array.isArray(data.items)) {
                     setResults(data.items);
+                    setFacets(data.facets ?? null);
+                    if (data.facets) {
+                        setAuthors((current) =>
+                            mergeSearchAuthors(current, data.facets.creators)
+                        );
+                    }
                     setNoStrongMatches(Boolean(data.noStrongMatches));
+                    setDidYouMean(data.didYouMean ?? null);
+                    setExplain(data.explain ?? null);
                     // Invalidate search analytics cache to update recent searches and intelligence cards
                     invalidateSearchAnalytics();
                 }
             } catch (error) {
                 console.error('Search failed:', error);
                 setResults([]);
+                setFacets(null);
                 setNoStrongMatches(false);
+                setDidYouMean(null);
+                setExplain(null);
             } finally {
                 setIsLoading(false);
             }
@@ -107,12 +160,15 @@ export function SearchModal({ open, onOpenChange }: SearchModalProps) {
     useEffect(() => {
         // Always use hybrid search for typing and submit
         if (query.trim() && isMeaningfulQuery(query)) {
-            performSearch(query, 'hybrid');
+            performSearch(query, filters, 'hybrid', canExplain && explainOpen);
         } else {
             setResults([]);
+            setFacets(null);
             setNoStrongMatches(false);
+            setDidYouMean(null);
+            setExplain(null);
         }
-    }, [query, performSearch]);
+    }, [query, filters, performSearch, canExplain, explainOpen]);
 
     // Set initial query when modal opens
     useEffect(() => {
@@ -126,14 +182,45 @@ export function SearchModal({ open, onOpenChange }: SearchModalProps) {
         if (!open) {
             setQuery('');
             setResults([]);
+            setFacets(null);
+            setAuthors([]);
+            setDidYouMean(null);
+            setFilters(emptySearchFilters);
+            setExplain(null);
+            setExplainOpen(false);
+            resetQa();
         }
-    }, [open]);
+    }, [open, resetQa]);
 
-    const handleSelect = (documentId: string) => {
+    const handleSelect = (
+        documentId: string,
+        passage?: SearchResultPassage
+    ) => {
         onOpenChange(false);
-        router.push(`/doc/${documentId}`);
+        // deep link to the matching passage when its range is known
+        const hasRange =
+            passage?.startPos !== undefined && passage.endPos !== undefined;
+        router.push(
+            hasRange
+                ? `/doc/${documentId}?passage=${passage.startPos}-${passage.endPos}`
+                : `/doc/${documentId}`
+        );
     };
 
+    // open the passage that supports an answer sentence
+    const handleOpenSpan = (span: QaCitationSpan) =>
+        handleSelect(
+            span.documentId,
+            span.passageStartPos !== null && span.passageEndPos !== null
+                ? {
+                      headingPath: [],
+                      startPos: span.passageStartPos,
+                      endPos: span.passageEndPos,
+                  }
+                : undefined
+        );
+    const groundedness = groundednessLabel(qa.claims);
+
     return (
         <CommandDialog
             open={open}
@@ -146,79 +233,234 @@ export function SearchModal({ open, onOpenChange }: SearchModalProps) {
                 value={query}
                 onValueChange={setQuery}
             />
+            <SearchFilterBar
+                filters={filters}
+                authors={authors}
+                onChange={setFilters}
+            />
+            {isMeaningfulQuery(query) ? (
+                <div className="flex justify-end gap-1 px-3">
+                    <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        disabled={!activeTenantId || createSavedSearchPending}
+                        onClick={() =>
+                            // relative date filters aren't saved; they would
+                            // freeze at the moment of saving
+                            void createSavedSearch({
+                                name: query.trim().slice(0, 100),
+                                q: query.trim(),
+                                filters: {
+                                    tagIds: filters.tagIds,
+                                    authorId: filters.authorId,
+                                    favoritesOnly: filters.favoritesOnly,
+                                },
+                            }).catch(() => undefined)
+                        }
+                    >
+                        <BookmarkPlus className="mr-1 h-3 w-3" />
+                        Save search
+                    </Button>
+                    {canExplain ? (
+                        <Button
+                            type="button"
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setExplainOpen(true)}
+                        >
+                            <Bug className="mr-1 h-3 w-3" />
+                            Explain ranking
+                        </Button>
+                    ) : null}
+                </div>
+            ) : null}
+            <SearchExplainDrawer
+                open={explainOpen}
+                onOpenChange={setExplainOpen}
+                explain={explain}
+                results={results}
+            />
             {isMeaningfulQuery(query) ? (
                 <div className="flex items-center gap-1 px-3 py-2">
-                    <Button type="button" variant="ghost">
+                    <Button
+                        type="button"
+                        variant="ghost"
+                        disabled={qa.status === 'streaming'}
+                        onClick={() => void qa.ask(query.trim())}
+                    >
                         <Microscope className="mr-1 h-3 w-3" />
                         Search with HubAI
                         <p className="text-[0.7rem] text-muted-foreground">
                             Uses your workspace sources for answers.
                         </p>
                     </Button>
+                    {qa.status === 'streaming' ? (
+                        <Button
+                            type="button"
+                            variant="ghost"
+                            size="sm"
+                            onClick={qa.cancel}
+                        >
+                            <Square className="mr-1 h-3 w-3" />
+                            Stop
+                        </Button>
+                    ) : null}
                 </div>
             ) : null}
             <CommandList className="max-h-none flex-1">
-                {isMeaningfulQuery(query) ? (
+                {qa.status !== 'idle' ? (
                     <CommandGroup heading="HubAI answer">
                         <div className="px-2 py-3 text-sm leading-relaxed text-foreground">
                             <div className="space-y-2">
-                                <p>
-                                    HubAI placeholder: This answer summarizes
-                                    the key idea based on your workspace
-                                    sources. It will include citations and
-                                    follow-ups once the QA endpoint is wired.
-                                </p>
-                                <p className="text-xs text-muted-foreground">
-                                    Uses your workspace sources for answers.
-                                </p>
-                                <div className="space-y-2">
-                                    <p className="text-xs font-semibold text-muted-foreground uppercase tracking-wide">
-                                        Sources
+                                {qa.answer ? (
+                                    <p className="whitespace-pre-wrap">
+                                        {qa.claims.length > 0 ? (
+                                            <QaAnswerText
+                                                answer={qa.answer}
+                                                claims={qa.claims}
+                                                onOpenSpan={handleOpenSpan}
+                                            />
+                                        ) : (
+                                            qa.answer
+                                        )}
+                                        {qa.status === 'streaming' ? (
+                                            <span className="ml-0.5 inline-block h-3.5 w-1.5 animate-pulse bg-foreground/60 align-middle" />
+                                        ) : null}
+                                    </p>
+                                ) : qa.status === 'streaming' ? (
+                                    <p className="text-muted-foreground">
+                                        {qa.sources.length > 0
+                                            ? 'Writing an answer…'
+                                            : 'Finding sources…'}
+                                    </p>
+                                ) : null}
+                                {qa.error ? (
+                                    <p className="text-xs text-destructive">
+                                        {qa.error}
+                                    </p>
+                                ) : null}
+                                {groundedness ? (
+                                    <p className="text-xs text-muted-foreground">
+                                        {groundedness}
+                                    </p>
+                                ) : null}
+                                {qa.noContext ? (
+                                    <p className="text-xs text-muted-foreground">
+                                        Your workspace sources don&apos;t cover
+                                        this question.
                                     </p>
-                                    <div className="space-y-1.5">
-                                        {qaSources.map((source, index) => (
-                                            <button
-                                                key={source.id}
-                                                type="button"
-                                                onClick={() =>
-                                                    handleSelect(source.id)
-                                                }
-                                                className="w-full rounded-md border border-border/40 bg-muted/20 p-2 text-left transition-colors hover:bg-muted/40"
-                                            >
-                                                <div className="flex items-center justify-between gap-2">
-                                                    <p className="text-xs font-medium text-foreground">
-                                                        [{index + 1}]{' '}
-                                                        {source.title}
-                                                    </p>
-                                                    <span className="text-[0.65rem] text-muted-foreground">
-                                                        Open
-                                                    </span>
-                                                </div>
-                                                <p className="text-[0.7rem] text-muted-foreground line-clamp-2">
-                                                    {source.snippet}
-                                                </p>
-                                            </button>
-                                        ))}
+                                ) : null}
+                                {qa.sources.length > 0 ? (
+                                    <div className="space-y-2">
+                                        <p className="text-xs font-semibold text-muted-foreground uppercase tracking-wide">
+                                            Sources
+                                        </p>
+                                        <div className="space-y-1.5">
+                                            {qa.sources.map((source, index) => {
+                                                const cited =
+                                                    qa.citedIds?.includes(
+                                                        source.id
+                                                    ) ?? false;
+                                                return (
+                                                    <button
+                                                        key={`${source.id}-${index}`}
+                                                        type="button"
+                                                        onClick={() =>
+                                                            handleSelect(
+                                                                source.id
+                                                            )
+                                                        }
+                                                        className={`w-full rounded-md border border-border/40 bg-muted/20 p-2 text-left transition-colors hover:bg-muted/40 ${
+                                                            qa.citedIds &&
+                                                            !cited
+                                                                ? 'opacity-60'
+                                                                : ''
+                                                        }`}
+                                                    >
+                                                        <div className="flex items-center justify-between gap-2">
+                                                            <p className="text-xs font-medium text-foreground">
+                                                                [{index + 1}]{' '}
+                                                                {source.title}
+                                                            </p>
+                                                            <span className="text-[0.65rem] text-muted-foreground">
+                                                                {cited
+                                                                    ? 'Cited'
+                                                                    : 'Open'}
+                                                            </span>
+                                                        </div>
+                                                        <p className="text-[0.7rem] text-muted-foreground line-clamp-2">
+                                                            {source.snippet}
+                                                        </p>
+                                                    </button>
+                                                );
+                                            })}
+                                        </div>
                                     </div>
-                                </div>
+                                ) : null}
                             </div>
                         </div>
                     </CommandGroup>
                 ) : null}
+                <SearchSuggestions
+                    prefix={query}
+                    onSelectDocument={handleSelect}
+                    onSelectQuery={setQuery}
+                    onSelectTag={(tagId) =>
+                        setFilters((current) =>
+                            current.tagIds.includes(tagId)
+                                ? current
+                                : {
+                                      ...current,
+                                      tagIds: [...current.tagIds, tagId],
+                                  }
+                        )
+                    }
+                />
+                {didYouMean && !isLoading ? (
+                    <div className="px-3 py-2 text-sm text-muted-foreground">
+                        Did you mean{' '}
+                        <button
+                            type="button"
+                            onClick={() => setQuery(didYouMean)}
+                            className="font-medium text-foreground underline underline-offset-2 hover:text-primary"
+                        >
+                            {didYouMean}
+                        </button>
+                        ?
+                    </div>
+                ) : null}
                 <CommandEmpty>
                     {isLoading
                         ? 'Searching...'
                         : noStrongMatches
                         ? 'No strong matches. Try a more specific query.'
                         : 'No documents found.'}
+                    {isLoading ? null : (
+                        <p className="mt-2 text-xs text-muted-foreground">
+                            Use &quot;quoted phrases&quot;, -exclusions, OR, and
+                            title:, tag:, author:, before:, after: prefixes.
+                            Prefixes need at least one search word, e.g.
+                            tag:backend deploy.
+                        </p>
+                    )}
                 </CommandEmpty>
+                {results.length > 0 && facets ? (
+                    <SearchFacetChips
+                        facets={facets}
+                        filters={filters}
+                        onChange={setFilters}
+                    />
+                ) : null}
                 {results.length > 0 && (
                     <CommandGroup heading="Results">
                         {results.map((result) => (
                             <CommandItem
                                 key={result.id}
                                 value={result.id}
-                                onSelect={() => handleSelect(result.id)}
+                                onSelect={() =>
+                                    handleSelect(result.id, result.passage)
+                                }
                                 className="flex flex-col items-start gap-1"
                             >
                                 <div className="flex items-center gap-2 w-full">
@@ -232,6 +474,11 @@ export function SearchModal({ open, onOpenChange }: SearchModalProps) {
                                         </span>
                                     )}
                                 </div>
+                                {result.passage?.headingPath.length ? (
+                                    <span className="text-xs text-muted-foreground truncate pl-6">
+                                        {result.passage.headingPath.join(' › ')}
+                                    </span>
+                                ) : null}
                                 {result.snippet && (
                                     <p
                                         className="text-xs text-muted-foreground line-clamp-2 pl-6 [&_mark]:bg-yellow-200 [&_mark]:dark:bg-yellow-900 [&_mark]:font-semibold"
@@ -0,0 +1,114 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { FileText, History, Tag } from 'lucide-react';
+import { useDebouncedCallback } from 'use-debounce';
+
+import { CommandGroup, CommandItem } from '@/components/ui/command';
+import type { SearchSuggestResponse } from '@search-hub/schemas';
+
+type Suggestions = Omit<SearchSuggestResponse, 'prefix'>;
+
+const emptySuggestions: Suggestions = {
+    documents: [],
+    tags: [],
+    recentQueries: [],
+};
+
+interface SearchSuggestionsProps {
+    prefix: string;
+    onSelectDocument: (documentId: string) => void;
+    onSelectTag: (tagId: string) => void;
+    onSelectQuery: (query: string) => void;
+}
+
+/**
+ * Instant completions while typing; the full hybrid search still runs on its own debounce
+ */
+export function SearchSuggestions({
+    prefix,
+    onSelectDocument,
+    onSelectTag,
+    onSelectQuery,
+}: SearchSuggestionsProps) {
+    const [suggestions, setSuggestions] =
+        useState<Suggestions>(emptySuggestions);
+
+    const fetchSuggestions = useDebouncedCallback(async (value: string) => {
+        try {
+            const params = new URLSearchParams({ prefix: value });
+            const response = await fetch(
+                `/api/search/suggest?${params.toString()}`
+            );
+            if (!response.ok) {
+                throw new Error('Suggest request failed');
+            }
+            const data = (await response.json()) as SearchSuggestResponse;
+            setSuggestions({
+                documents: data.documents ?? [],
+                tags: data.tags ?? [],
+                recentQueries: data.recentQueries ?? [],
+            });
+        } catch (error) {
+            console.error('Suggestions failed:', error);
+            setSuggestions(emptySuggestions);
+        }
+    }, 150);
+
+    useEffect(() => {
+        const value = prefix.trim();
+        if (!value) {
+            fetchSuggestions.cancel();
+            setSuggestions(emptySuggestions);
+            return;
+        }
+        fetchSuggestions(value);
+    }, [prefix, fetchSuggestions]);
+
+    const hasSuggestions =
+        suggestions.documents.length > 0 ||
+        suggestions.tags.length > 0 ||
+        suggestions.recentQueries.length > 0;
+
+    if (!prefix.trim() || !hasSuggestions) {
+        return null;
+    }
+
+    return (
+        <CommandGroup heading="Suggestions">
+            {suggestions.recentQueries.map((query) => (
+                <CommandItem
+                    key={`query-${query}`}
+                    value={`suggest-query-${query}`}
+                    onSelect={() => onSelectQuery(query)}
+                >
+                    <History className="h-4 w-4 shrink-0" />
+                    <span className="truncate">{query}</span>
+                </CommandItem>
+            ))}
+            {suggestions.documents.map((document) => (
+                <CommandItem
+                    key={`document-${document.id}`}
+                    value={`suggest-document-${document.id}`}
+                    onSelect={() => onSelectDocument(document.id)}
+                >
+                    <FileText className="h-4 w-4 shrink-0" />
+                    <span className="truncate">{document.title}</span>
+                </CommandItem>
+            ))}
+            {suggestions.tags.map((tag) => (
+                <CommandItem
+                    key={`tag-${tag.id}`}
+                    value={`suggest-tag-${tag.id}`}
+                    onSelect={() => onSelectTag(tag.id)}
+                >
+                    <Tag className="h-4 w-4 shrink-0" />
+                    <span className="truncate">#{tag.name}</span>
+                    <span className="ml-auto text-xs text-muted-foreground">
+                        Filter
+                    </span>
+                </CommandItem>
+            ))}
+        </CommandGroup>
+    );
+}
@@ -0,0 +1,179 @@
+'use client';
+
+import Link from 'next/link';
+import { ChevronDown, FileText } from 'lucide-react';
+import type {
+    DocumentDuplicate,
+    DuplicateDocument,
+    ResolveDuplicatePayload,
+} from '@search-hub/schemas';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+    DropdownMenu,
+    DropdownMenuContent,
+    DropdownMenuItem,
+    DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+    useDuplicateActions,
+    useDuplicatesQuery,
+} from '@/hooks/use-duplicates';
+
+function documentTitle(document: DuplicateDocument) {
+    return document.title || 'Untitled document';
+}
+
+function DuplicateDocumentColumn({
+    document,
+    other,
+    disabled,
+    onKeep,
+}: {
+    document: DuplicateDocument;
+    other: DuplicateDocument;
+    disabled: boolean;
+    onKeep: (action: ResolveDuplicatePayload['action']) => void;
+}) {
+    return (
+        <div className="flex min-w-0 flex-1 items-start justify-between gap-2">
+            <div className="min-w-0">
+                <Link
+                    href={`/doc/${document.id}`}
+                    className="flex items-center gap-1.5 text-sm font-medium hover:underline"
+                >
+                    <FileText className="h-3.5 w-3.5 shrink-0 text-muted-foreground" />
+                    <span className="truncate">{documentTitle(document)}</span>
+                </Link>
+                <p className="truncate text-xs text-muted-foreground">
+                    {document.createdByName ?? 'Unknown author'} · updated{' '}
+                    {new Date(document.updatedAt).toLocaleDateString()}
+                </p>
+            </div>
+            <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                    <Button size="sm" variant="outline" disabled={disabled}>
+                        Keep
+                        <ChevronDown className="h-3.5 w-3.5" />
+                    </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                    <DropdownMenuItem onSelect={() => onKeep('merge')}>
+                        Merge &quot;{documentTitle(other)}&quot; into this
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onSelect={() => onKeep('archive')}>
+                        Archive &quot;{documentTitle(other)}&quot;
+                    </DropdownMenuItem>
+                </DropdownMenuContent>
+            </DropdownMenu>
+        </div>
+    );
+}
+
+function DuplicateRow({ duplicate }: { duplicate: DocumentDuplicate }) {
+    const { dismissDuplicate, resolveDuplicate, pending } =
+        useDuplicateActions();
+    const [first, second] = duplicate.documents;
+    const keep =
+        (keepDocumentId: string) =>
+        (action: ResolveDuplicatePayload['action']) =>
+            resolveDuplicate({
+                id: duplicate.id,
+                payload: { action, keepDocumentId },
+            });
+
+    return (
+        <div className="flex flex-col gap-2 px-3 py-3">
+            <div className="flex items-center gap-2">
+                <Badge variant="secondary">
+                    {Math.round(duplicate.similarity * 100)}% similar
+                </Badge>
+                {duplicate.exactMatch ? <Badge>Identical</Badge> : null}
+                <Button
+                    size="sm"
+                    variant="ghost"
+                    className="ml-auto"
+                    disabled={pending}
+                    onClick={() => dismissDuplicate(duplicate.id)}
+                >
+                    Not a duplicate
+                </Button>
+            </div>
+            <div className="flex flex-col gap-3 sm:flex-row">
+                <DuplicateDocumentColumn
+                    document={first}
+                    other={second}
+                    disabled={pending}
+                    onKeep={keep(first.id)}
+                />
+                <DuplicateDocumentColumn
+                    document={second}
+                    other={first}
+                    disabled={pending}
+                    onKeep={keep(second.id)}
+                />
+            </div>
+        </div>
+    );
+}
+
+export function DuplicateDocumentsCard() {
+    const { data, isLoading, isError, error, refetch } = useDuplicatesQuery();
+    const duplicates = data?.duplicates ?? [];
+
+    return (
+        <Card>
+            <CardHeader>
+                <CardTitle>Possible duplicates</CardTitle>
+                <p className="text-xs text-muted-foreground">
+                    Merging keeps one document, copies the other&apos;s tags and
+                    favorites onto it, and archives the other. Archived
+                    documents stay reachable by link but leave search and
+                    document lists.
+                </p>
+            </CardHeader>
+            <CardContent>
+                {isLoading ? (
+                    <div className="space-y-2">
+                        <Skeleton className="h-20 w-full" />
+                        <Skeleton className="h-20 w-full" />
+                    </div>
+                ) : isError ? (
+                    <div className="rounded-xl border border-destructive/40 bg-destructive/5 p-4 text-sm">
+                        <p className="font-medium text-destructive">
+                            Failed to load duplicates
+                        </p>
+                        <p className="text-muted-foreground">
+                            {error?.message ?? 'Unknown error'}
+                        </p>
+                        <Button
+                            size="sm"
+                            variant="outline"
+                            className="mt-2"
+                            onClick={() => refetch()}
+                        >
+                            Try again
+                        </Button>
+                    </div>
+                ) : duplicates.length === 0 ? (
+                    <div className="rounded-xl border border-dashed p-6 text-center text-sm text-muted-foreground">
+                        No duplicates found. Documents are compared in the
+                        background after they are indexed.
+                    </div>
+                ) : (
+                    <div className="divide-y rounded-xl border">
+                        {duplicates.map((duplicate) => (
+                            <DuplicateRow
+                                key={duplicate.id}
+                                duplicate={duplicate}
+                            />
+                        ))}
+                    </div>
+                )}
+            </CardContent>
+        </Card>
+    );
+}
@@ -1,6 +1,7 @@
 import { useQuery, useQueryClient } from '@tanstack/react-query';
 import {
     workspaceOverviewQueryKey,
+    workspaceDigestsQueryKey,
     indexingStatusQueryKey,
     searchAnalyticsQueryKey,
     topQueriesQueryKey,
@@ -10,6 +11,7 @@ import {
     type WorkspaceOverviewData,
 } from '@/queries/workspace';
 import type {
+    DigestListResponse,
     IndexingStatusResponse,
     SearchAnalyticsResponse,
     TopQueriesResponse,
@@ -38,6 +40,26 @@ export function useWorkspaceOverviewQuery(tenantId?: string) {
     });
 }
 
+export function useWorkspaceDigestsQuery(tenantId?: string) {
+    return useQuery({
+        queryKey: tenantId
+            ? workspaceDigestsQueryKey(tenantId)
+            : ['workspace', 'digests', 'missing'],
+        queryFn: async () => {
+            const response = await fetch(`/api/tenants/${tenantId}/digests`, {
+                credentials: 'include',
+            });
+
+            if (!response.ok) {
+                throw new Error('Failed to load weekly digests');
+            }
+
+            return (await response.json()) as DigestListResponse;
+        },
+        enabled: Boolean(tenantId),
+    });
+}
+
 export function useIndexingStatusQuery(tenantId?: string) {
     return useQuery({
         queryKey: tenantId
@@ -9,6 +9,7 @@ import type {
     GetDocumentDetailsResponseType,
     GetDocumentListResponseType,
     GetDocumentTagsResponseType,
+    GetRelatedDocumentsResponseType,
 } from '@search-hub/schemas';
 import {
     normalizeWorkspaceTagsParams,
@@ -218,6 +219,19 @@ type DocumentRemindersResponse = {
     reminders: DocumentReminder[];
 };
 
+export function useRelatedDocumentsQuery(documentId: string) {
+    return useQuery({
+        queryKey: ['document', documentId, 'related'],
+        queryFn: () =>
+            fetchJson<GetRelatedDocumentsResponseType>(
+                `/api/documents/${documentId}/related`
+            ),
+        enabled: Boolean(documentId),
+        // neighbours only move when documents are reindexed
+        staleTime: 5 * 60_000,
+    });
+}
+
 export function useDocumentRemindersQuery(
     documentId: string,
     options?: { refetchInterval?: number }
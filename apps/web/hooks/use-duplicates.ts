@@ -0,0 +1,112 @@
+'use client';
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import type {
+    DuplicateListResponse,
+    DuplicateResponse,
+    DuplicateStatus,
+    ResolveDuplicatePayload,
+} from '@search-hub/schemas';
+
+import { useToast } from '@/components/ui/use-toast';
+import { duplicatesQueryKey } from '@/queries/workspace';
+
+async function jsonFetch<T>(url: string, init?: RequestInit): Promise<T> {
+    const response = await fetch(url, {
+        credentials: 'include',
+        headers: {
+            'content-type': 'application/json',
+            ...(init?.headers ?? {}),
+        },
+        ...init,
+    });
+
+    if (!response.ok) {
+        const message = await response.text();
+        throw new Error(message || 'Request failed');
+    }
+
+    return (await response.json()) as T;
+}
+
+export function useDuplicatesQuery(status: DuplicateStatus = 'open') {
+    return useQuery({
+        queryKey: duplicatesQueryKey(status),
+        queryFn: () =>
+            jsonFetch<DuplicateListResponse>(
+                `/api/duplicates?status=${encodeURIComponent(status)}`
+            ),
+        staleTime: 60_000,
+    });
+}
+
+export function useDuplicateActions() {
+    const { toast } = useToast();
+    const queryClient = useQueryClient();
+    const invalidate = () =>
+        queryClient.invalidateQueries({
+            queryKey: ['workspace', 'duplicates'],
+        });
+
+    const dismissMutation = useMutation({
+        mutationFn: (id: string) =>
+            jsonFetch<DuplicateResponse>(
+                `/api/duplicates/${encodeURIComponent(id)}/dismiss`,
+                { method: 'POST' }
+            ),
+        onSuccess: () => {
+            toast.success('Duplicate dismissed', {
+                description: 'This pair will not be flagged again.',
+            });
+            void invalidate();
+        },
+        onError: (error: Error) => {
+            toast.error('Failed to dismiss duplicate', {
+                description: error.message,
+            });
+        },
+    });
+
+    const resolveMutation = useMutation({
+        mutationFn: ({
+            id,
+            payload,
+        }: {
+            id: string;
+            payload: ResolveDuplicatePayload;
+        }) =>
+            jsonFetch<DuplicateResponse>(
+                `/api/duplicates/${encodeURIComponent(id)}/resolve`,
+                { method: 'POST', body: JSON.stringify(payload) }
+            ),
+        onSuccess: ({ duplicate }, { payload }) => {
+            const archived = duplicate.documents.find(
+                (document) => document.id !== payload.keepDocumentId
+            );
+            toast.success(
+                payload.action === 'merge'
+                    ? 'Documents merged'
+                    : 'Document archived',
+                {
+                    description: `"${
+                        archived?.title || 'Untitled document'
+                    }" was archived.`,
+                }
+            );
+            void invalidate();
+            // the archived document drops out of document lists
+            void queryClient.invalidateQueries({ queryKey: ['documents'] });
+        },
+        onError: (error: Error) => {
+            toast.error('Failed to resolve duplicate', {
+                description: error.message,
+            });
+        },
+    });
+
+    return {
+        dismissDuplicate: dismissMutation.mutate,
+        resolveDuplicate: resolveMutation.mutate,
+        pending: dismissMutation.isPending || resolveMutation.isPending,
+    };
+}
@@ -0,0 +1,130 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { QaClaim, QaSource } from '@search-hub/schemas';
+import { readQaStream } from '@search-hub/sdk';
+
+export type QaStreamStatus = 'idle' | 'streaming' | 'done' | 'error';
+
+export interface QaStreamState {
+    status: QaStreamStatus;
+    answer: string;
+    sources: QaSource[]; // retrieved sources, numbered as the answer cites them
+    citedIds: string[] | null; // null until the answer is complete
+    noContext: boolean;
+    claims: QaClaim[]; // verified once the answer is complete
+    groundedness: number | null;
+    error: string | null;
+}
+
+const initialState: QaStreamState = {
+    status: 'idle',
+    answer: '',
+    sources: [],
+    citedIds: null,
+    noContext: false,
+    claims: [],
+    groundedness: null,
+    error: null,
+};
+
+/**
+ * Streams a HubAI answer from /api/qa/stream. Asking again, cancel() and
+ * unmounting abort the request in flight, which stops generation server-side.
+ */
+export function useQaStream() {
+    const [state, setState] = useState<QaStreamState>(initialState);
+    const controllerRef = useRef<AbortController | null>(null);
+
+    const cancel = useCallback(() => {
+        controllerRef.current?.abort();
+        controllerRef.current = null;
+        setState((current) =>
+            current.status === 'streaming'
+                ? { ...current, status: 'done' }
+                : current
+        );
+    }, []);
+
+    const reset = useCallback(() => {
+        controllerRef.current?.abort();
+        controllerRef.current = null;
+        setState(initialState);
+    }, []);
+
+    const ask = useCallback(async (question: string) => {
+        controllerRef.current?.abort();
+        const controller = new AbortController();
+        controllerRef.current = controller;
+        setState({ ...initialState, status: 'streaming' });
+
+        try {
+            const response = await fetch('/api/qa/stream', {
+                method: 'POST',
+                credentials: 'include',
+                headers: { 'content-type': 'application/json' },
+                body: JSON.stringify({ question }),
+                signal: controller.signal,
+            });
+            if (!response.ok || !response.body) {
+                const message = await response.text();
+                throw new Error(message || 'Failed to get an answer');
+            }
+
+            for await (const event of readQaStream(response.body)) {
+                if (event.type === 'sources') {
+                    setState((current) => ({
+                        ...current,
+                        sources: event.sources,
+                    }));
+                } else if (event.type === 'delta') {
+                    setState((current) => ({
+                        ...current,
+                        answer: current.answer + event.text,
+                    }));
+                } else if (event.type === 'citations') {
+                    setState((current) => ({
+                        ...current,
+                        status: 'done',
+                        citedIds: event.sources.map((source) => source.id),
+                        noContext: event.noContext,
+                        claims: event.claims,
+                        groundedness: event.groundedness,
+                    }));
+                } else {
+                    throw new Error(event.error.message);
+                }
+            }
+            // the connection closed before the final event
+            setState((current) =>
+                current.status === 'streaming'
+                    ? {
+                          ...current,
+                          status: 'error',
+                          error: 'The answer was interrupted.',
+                      }
+                    : current
+            );
+        } catch (error) {
+            if (controller.signal.aborted) {
+                return;
+            }
+            setState((current) => ({
+                ...current,
+                status: 'error',
+                error:
+                    error instanceof Error
+                        ? error.message
+                        : 'Failed to get an answer',
+            }));
+        } finally {
+            if (controllerRef.current === controller) {
+                controllerRef.current = null;
+            }
+        }
+    }, []);
+
+    useEffect(() => () => controllerRef.current?.abort(), []);
+
+    return { ...state, ask, cancel, reset };
+}
@@ -0,0 +1,121 @@
+'use client';
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import type {
+    CreateSavedSearchPayload,
+    SavedSearchListResponse,
+    SavedSearchMatchesResponse,
+    SavedSearchResponse,
+} from '@search-hub/schemas';
+
+import { useToast } from '@/components/ui/use-toast';
+import {
+    savedSearchMatchesQueryKey,
+    savedSearchesQueryKey,
+} from '@/queries/saved-searches';
+
+async function jsonFetch<T>(url: string, init?: RequestInit): Promise<T> {
+    const response = await fetch(url, {
+        credentials: 'include',
+        headers: {
+            'content-type': 'application/json',
+            ...(init?.headers ?? {}),
+        },
+        ...init,
+    });
+
+    if (!response.ok) {
+        const message = await response.text();
+        throw new Error(message || 'Request failed');
+    }
+
+    return (await response.json()) as T;
+}
+
+export function useSavedSearchesQuery(tenantId?: string) {
+    return useQuery({
+        queryKey: savedSearchesQueryKey(tenantId),
+        queryFn: () =>
+            jsonFetch<SavedSearchListResponse>('/api/saved-searches'),
+        staleTime: 60_000,
+        // the worker records new matches in the background
+        refetchInterval: 5 * 60_000,
+        enabled: Boolean(tenantId),
+    });
+}
+
+export function useSavedSearchMatchesQuery(
+    tenantId: string | undefined,
+    savedSearchId: string | null
+) {
+    return useQuery({
+        queryKey: savedSearchMatchesQueryKey(tenantId, savedSearchId ?? ''),
+        queryFn: () =>
+            jsonFetch<SavedSearchMatchesResponse>(
+                `/api/saved-searches/${encodeURIComponent(
+                    savedSearchId ?? ''
+                )}/matches`
+            ),
+        enabled: Boolean(tenantId && savedSearchId),
+    });
+}
+
+export function useSavedSearchActions(tenantId?: string) {
+    const { toast } = useToast();
+    const queryClient = useQueryClient();
+    // exact: match lists keep showing which matches were new until reopened
+    const invalidate = () =>
+        queryClient.invalidateQueries({
+            queryKey: savedSearchesQueryKey(tenantId),
+            exact: true,
+        });
+
+    const createMutation = useMutation({
+        mutationFn: (payload: CreateSavedSearchPayload) =>
+            jsonFetch<SavedSearchResponse>('/api/saved-searches', {
+                method: 'POST',
+                body: JSON.stringify(payload),
+            }),
+        onSuccess: ({ savedSearch }) => {
+            toast.success('Search saved', {
+                description: `New matches for "${savedSearch.name}" will show up in the sidebar.`,
+            });
+            void invalidate();
+        },
+        onError: (error: Error) => {
+            toast.error('Failed to save search', {
+                description: error.message,
+            });
+        },
+    });
+
+    const deleteMutation = useMutation({
+        mutationFn: (id: string) =>
+            jsonFetch<{ success: boolean }>(
+                `/api/saved-searches/${encodeURIComponent(id)}`,
+                { method: 'DELETE' }
+            ),
+        onSuccess: () => void invalidate(),
+        onError: (error: Error) => {
+            toast.error('Failed to delete saved search', {
+                description: error.message,
+            });
+        },
+    });
+
+    const markSeenMutation = useMutation({
+        mutationFn: (id: string) =>
+            jsonFetch<SavedSearchResponse>(
+                `/api/saved-searches/${encodeURIComponent(id)}/seen`,
+                { method: 'POST' }
+            ),
+        onSuccess: () => void invalidate(),
+    });
+
+    return {
+        createSavedSearch: createMutation.mutateAsync,
+        createSavedSearchPending: createMutation.isPending,
+        deleteSavedSearch: deleteMutation.mutateAsync,
+        markSavedSearchSeen: markSeenMutation.mutate,
+    };
+}
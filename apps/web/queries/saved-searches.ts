@@ -0,0 +1,7 @@
+export const savedSearchesQueryKey = (tenantId?: string) =>
+    ['saved-searches', tenantId ?? 'unknown'] as const;
+
+export const savedSearchMatchesQueryKey = (
+    tenantId: string | undefined,
+    savedSearchId: string
+) => [...savedSearchesQueryKey(tenantId), savedSearchId, 'matches'] as const;
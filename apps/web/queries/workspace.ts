@@ -1,10 +1,16 @@
-import type { GetTenantWithStatsResponse } from '@search-hub/schemas';
+import type {
+    DuplicateStatus,
+    GetTenantWithStatsResponse,
+} from '@search-hub/schemas';
 
 export type WorkspaceOverviewData = GetTenantWithStatsResponse;
 
 export const workspaceOverviewQueryKey = (tenantId: string) =>
     ['workspace', tenantId, 'overview'] as const;
 
+export const workspaceDigestsQueryKey = (tenantId: string) =>
+    ['workspace', tenantId, 'digests'] as const;
+
 export const indexingStatusQueryKey = (tenantId: string) =>
     ['admin', 'indexing', tenantId] as const;
 
@@ -46,3 +52,6 @@ export const searchQualityQueryKey = (
         endDate,
         granularity,
     ] as const;
+
+export const duplicatesQueryKey = (status: DuplicateStatus) =>
+    ['workspace', 'duplicates', status] as const;
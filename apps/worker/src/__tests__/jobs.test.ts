@@ -0,0 +1,254 @@
+import { describe, test, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { Job } from 'bullmq';
+import { db } from '@search-hub/db';
+import { createScriptedLlmProvider } from '@search-hub/ai';
+import type {
+    GenerateDigestsJob,
+    SummarizeDocumentJob,
+} from '@search-hub/schemas';
+import { llmProvider } from '../llm.js';
+import { generateDigests, previousWeek } from '../jobs/generateDigests.js';
+import { summarizeDocument } from '../jobs/summarizeDocument.js';
+
+vi.mock('@search-hub/db', () => ({
+    db: {
+        workspaceDigest: {
+            listTenantsToDigest: vi.fn(),
+            getDocumentActivity: vi.fn().mockResolvedValue({
+                created: 1,
+                updated: 0,
+                documents: [],
+            }),
+            getSearchActivity: vi
+                .fn()
+                .mockResolvedValue({ total: 4, topQueries: [] }),
+            save: vi.fn(),
+        },
+        documentCommand: {
+            getTenantReminders: vi.fn().mockResolvedValue([]),
+        },
+        document: {
+            findForSummary: vi.fn(),
+            getChunkContents: vi.fn(),
+            updateSummary: vi.fn(),
+        },
+        tenant: {
+            getSummaryTokenBudget: vi.fn(),
+            getSearchSettings: vi.fn().mockResolvedValue(null),
+        },
+        tokenUsage: {
+            record: vi.fn(),
+            reserve: vi.fn(),
+        },
+    },
+}));
+
+vi.mock('../llm.js', () => ({
+    llmProvider: vi.fn(),
+}));
+
+describe('Digest period', () => {
+    test('a Monday run covers the week that just ended', () => {
+        expect(previousWeek(new Date('2026-10-19T06:00:00Z'))).toEqual({
+            start: new Date('2026-10-12T00:00:00Z'),
+            end: new Date('2026-10-19T00:00:00Z'),
+        });
+    });
+
+    test('later in the week it still covers the previous full week', () => {
+        const week = {
+            start: new Date('2026-10-05T00:00:00Z'),
+            end: new Date('2026-10-12T00:00:00Z'),
+        };
+
+        expect(previousWeek(new Date('2026-10-14T12:00:00Z'))).toEqual(week);
+        expect(previousWeek(new Date('2026-10-18T23:59:59Z'))).toEqual(week);
+    });
+
+    test('weeks are counted in UTC, not server local time', () => {
+        // Monday 01:30 in UTC+2 is still Sunday in UTC
+        expect(previousWeek(new Date('2026-10-19T01:30:00+02:00'))).toEqual({
+            start: new Date('2026-10-05T00:00:00Z'),
+            end: new Date('2026-10-12T00:00:00Z'),
+        });
+    });
+});
+
+describe('Digest generation', () => {
+    const job = (attemptsMade: number) =>
+        ({
+            id: 'digests-1',
+            data: {},
+            attemptsMade,
+        }) as unknown as Job<GenerateDigestsJob>;
+    const tenant = (id: string) => ({ id, name: id, llmModel: null });
+    const period = {
+        start: new Date('2026-10-12T00:00:00Z'),
+        end: new Date('2026-10-19T00:00:00Z'),
+    };
+
+    beforeEach(() => {
+        vi.useFakeTimers({ now: new Date('2026-10-19T06:00:00Z') });
+        vi.mocked(db.workspaceDigest.save).mockClear();
+        vi.mocked(db.workspaceDigest.getDocumentActivity).mockClear();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    test('a retry only digests the tenants that failed', async () => {
+        vi.mocked(llmProvider).mockReturnValue(
+            createScriptedLlmProvider({
+                replies: ['A quiet week.', new Error('rate limited')],
+                fallback: 'Busy week.',
+            })
+        );
+        vi.mocked(db.workspaceDigest.listTenantsToDigest).mockResolvedValueOnce(
+            [tenant('tenant-a'), tenant('tenant-b')]
+        );
+
+        await expect(generateDigests(job(0))).rejects.toThrow(
+            '1 of 2 digests failed'
+        );
+        expect(db.workspaceDigest.save).toHaveBeenCalledTimes(1);
+        expect(db.workspaceDigest.save).toHaveBeenLastCalledWith(
+            'tenant-a',
+            period,
+            expect.objectContaining({ summary: 'A quiet week.' })
+        );
+
+        // tenant-a has a digest for the period now, so the repository leaves it out
+        vi.mocked(db.workspaceDigest.listTenantsToDigest).mockResolvedValueOnce(
+            [tenant('tenant-b')]
+        );
+
+        await expect(generateDigests(job(1))).resolves.toEqual({
+            tenants: 1,
+            digests: 1,
+            errors: 0,
+        });
+        expect(db.workspaceDigest.listTenantsToDigest).toHaveBeenLastCalledWith(
+            period
+        );
+        expect(db.workspaceDigest.getDocumentActivity).toHaveBeenLastCalledWith(
+            'tenant-b',
+            period,
+            20
+        );
+        expect(db.workspaceDigest.save).toHaveBeenCalledTimes(2);
+        expect(db.workspaceDigest.save).toHaveBeenLastCalledWith(
+            'tenant-b',
+            period,
+            expect.objectContaining({ summary: 'Busy week.' })
+        );
+    });
+
+    test('weeks without activity are skipped without calling the model', async () => {
+        vi.mocked(llmProvider).mockClear();
+        vi.mocked(db.workspaceDigest.listTenantsToDigest).mockResolvedValueOnce(
+            []
+        );
+
+        await expect(generateDigests(job(0))).resolves.toEqual({
+            tenants: 0,
+            digests: 0,
+            errors: 0,
+        });
+        expect(llmProvider).not.toHaveBeenCalled();
+        expect(db.workspaceDigest.save).not.toHaveBeenCalled();
+    });
+});
+
+describe('Document summaries', () => {
+    const job = {
+        id: 'summary-1',
+        data: { tenantId: 'tenant-1', documentId: 'doc-1', force: true },
+        attemptsMade: 0,
+    } as unknown as Job<SummarizeDocumentJob>;
+
+    beforeEach(() => {
+        vi.mocked(db.tenant.getSummaryTokenBudget).mockResolvedValue(null);
+        vi.mocked(db.document.findForSummary).mockResolvedValue({
+            tenantId: 'tenant-1',
+            title: 'Runbook',
+            content: 'Restart the worker when the queue stalls.',
+            summaryChecksum: null,
+        } as never);
+        vi.mocked(db.document.getChunkContents).mockResolvedValue([
+            'Restart the worker when the queue stalls.',
+        ]);
+        vi.mocked(db.tokenUsage.reserve).mockReset();
+        vi.mocked(db.tokenUsage.record).mockClear();
+        vi.mocked(db.document.updateSummary).mockClear();
+    });
+
+    test('a tenant budget of 0 disables summaries', async () => {
+        vi.mocked(db.tenant.getSummaryTokenBudget).mockResolvedValueOnce(0);
+
+        await expect(summarizeDocument(job)).resolves.toEqual({
+            ok: true,
+            reason: 'disabled',
+        });
+        expect(db.tokenUsage.reserve).not.toHaveBeenCalled();
+    });
+
+    test('skips without calling the model when the reservation does not fit', async () => {
+        const llm = createScriptedLlmProvider({ fallback: 'A summary.' });
+        vi.mocked(llmProvider).mockReturnValue(llm);
+        vi.mocked(db.tenant.getSummaryTokenBudget).mockResolvedValueOnce(100);
+        vi.mocked(db.tokenUsage.reserve).mockResolvedValueOnce(false);
+
+        await expect(summarizeDocument(job)).resolves.toEqual({
+            ok: true,
+            reason: 'budget-exhausted',
+        });
+        // the tenant's budget wins over SUMMARY_DAILY_TOKEN_BUDGET
+        expect(db.tokenUsage.reserve).toHaveBeenCalledWith(
+            'tenant-1',
+            'summary',
+            expect.any(Number),
+            100
+        );
+        expect(llm.calls).toHaveLength(0);
+        expect(db.tokenUsage.record).not.toHaveBeenCalled();
+    });
+
+    test('settles the reservation to the tokens spent', async () => {
+        vi.mocked(llmProvider).mockReturnValue(
+            createScriptedLlmProvider({ fallback: 'Restart stalled workers.' })
+        );
+        vi.mocked(db.tokenUsage.reserve).mockResolvedValueOnce(true);
+
+        const result = await summarizeDocument(job);
+
+        const estimate = vi.mocked(db.tokenUsage.reserve).mock.calls[0]?.[2];
+        expect(result).toMatchObject({ documentId: 'doc-1' });
+        expect(result).toHaveProperty('tokens');
+        const { tokens } = result as { tokens: number };
+        expect(tokens).toBeLessThan(estimate ?? 0);
+        expect(db.tokenUsage.record).toHaveBeenCalledWith(
+            'tenant-1',
+            'summary',
+            tokens - (estimate ?? 0)
+        );
+        expect(db.document.updateSummary).toHaveBeenCalledTimes(1);
+    });
+
+    test('a failed model call releases the reservation', async () => {
+        vi.mocked(llmProvider).mockReturnValue(
+            createScriptedLlmProvider({ replies: [new Error('rate limited')] })
+        );
+        vi.mocked(db.tokenUsage.reserve).mockResolvedValueOnce(true);
+
+        await expect(summarizeDocument(job)).rejects.toThrow('rate limited');
+
+        const estimate = vi.mocked(db.tokenUsage.reserve).mock.calls[0]?.[2];
+        expect(db.tokenUsage.record).toHaveBeenCalledWith(
+            'tenant-1',
+            'summary',
+            -(estimate ?? 0)
+        );
+        expect(db.document.updateSummary).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,47 @@
+import {
+    createEmbeddingProvider,
+    createEmbeddingProviderForModel,
+    embeddingModelId,
+    type EmbeddingProvider,
+} from '@search-hub/ai';
+import { loadWorkerEnv } from '@search-hub/config-env';
+import { db } from '@search-hub/db';
+
+const env = loadWorkerEnv();
+
+// EMBEDDING_PROVIDER writes the DocumentChunk.embedding column
+export const primaryEmbeddings = createEmbeddingProvider(env);
+export const primaryEmbeddingModel = embeddingModelId(primaryEmbeddings);
+
+/**
+ * Fail fast when EMBEDDING_DIMENSIONS doesn't fit DocumentChunk.embedding;
+ * otherwise every index job fails on insert with a pgvector dimension error
+ */
+export async function assertEmbeddingColumnDimensions(): Promise<void> {
+    const columnDimensions = await db.vectorIndex.getEmbeddingDimensions();
+    if (
+        columnDimensions !== null &&
+        columnDimensions !== primaryEmbeddings.dimensions
+    ) {
+        throw new Error(
+            `EMBEDDING_DIMENSIONS=${primaryEmbeddings.dimensions} (${primaryEmbeddingModel}) does not match DocumentChunk.embedding vector(${columnDimensions}). ` +
+                `Set EMBEDDING_DIMENSIONS=${columnDimensions}, or keep the current model and move tenants to the new one with a re-embedding migration.`
+        );
+    }
+}
+
+const providers = new Map<string, EmbeddingProvider>([
+    [primaryEmbeddingModel, primaryEmbeddings],
+]);
+
+/**
+ * Provider for a stored model id (re-embedding migrations), created once per model
+ */
+export function embeddingsFor(modelId: string): EmbeddingProvider {
+    let provider = providers.get(modelId);
+    if (!provider) {
+        provider = createEmbeddingProviderForModel(modelId, env);
+        providers.set(modelId, provider);
+    }
+    return provider;
+}
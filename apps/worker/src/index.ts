@@ -7,11 +7,22 @@ import {
     type IndexDocumentJob,
     type SendReminderJob,
     type SyncStaleDocumentsJob,
+    type ReembedTenantJob,
+    type RunSavedSearchesJob,
+    type DetectDuplicatesJob,
+    type SummarizeDocumentJob,
+    type GenerateDigestsJob,
 } from '@search-hub/schemas';
 import { processIndexDocument } from './jobs/processIndexDocument.js';
 import { processSendReminder } from './jobs/processSendReminder.js';
 import { syncStaleDocuments } from './jobs/syncStaleDocuments.js';
+import { processReembedTenant } from './jobs/processReembedTenant.js';
 import { cleanupOldJobs } from './jobs/cleanupOldJobs.js';
+import { runSavedSearches } from './jobs/runSavedSearches.js';
+import { detectDuplicates } from './jobs/detectDuplicates.js';
+import { summarizeDocument } from './jobs/summarizeDocument.js';
+import { generateDigests } from './jobs/generateDigests.js';
+import { assertEmbeddingColumnDimensions } from './embeddings.js';
 
 const env = loadWorkerEnv();
 
@@ -34,6 +45,16 @@ logger.info(
     'worker.bootstrap.started'
 );
 
+try {
+    await assertEmbeddingColumnDimensions();
+} catch (error) {
+    logger.error(
+        { error: error instanceof Error ? error.message : String(error) },
+        'worker.bootstrap.failed'
+    );
+    process.exit(1);
+}
+
 const connection = { url: REDIS_URL };
 
 // ===== INDEX DOCUMENT WORKER =====
@@ -43,10 +64,15 @@ export const indexQueue = new Queue<IndexDocumentJob>(JOBS.INDEX_DOCUMENT, {
     connection,
 });
 
+// Summaries are queued by the index worker once a document's chunks change
+const summaryQueue = new Queue<SummarizeDocumentJob>(JOBS.SUMMARIZE_DOCUMENT, {
+    connection,
+});
+
 // Create worker with extracted processor
 const indexWorker = new Worker<IndexDocumentJob>(
     JOBS.INDEX_DOCUMENT,
-    processIndexDocument,
+    async (job) => processIndexDocument(job, summaryQueue),
     {
         connection,
         concurrency: WORKER_CONCURRENCY,
@@ -146,6 +172,93 @@ reminderQueueEvents.on('failed', ({ jobId, failedReason }) => {
     });
 });
 
+// ===== SUMMARIZE DOCUMENT WORKER =====
+
+const summaryWorker = new Worker<SummarizeDocumentJob>(
+    JOBS.SUMMARIZE_DOCUMENT,
+    summarizeDocument,
+    {
+        connection,
+        // budget reservations are atomic, so jobs can run side by side
+        concurrency: WORKER_CONCURRENCY,
+    }
+);
+
+summaryWorker.on('ready', () =>
+    logger.info(
+        { worker: 'summarize-document', concurrency: WORKER_CONCURRENCY },
+        'worker.ready'
+    )
+);
+summaryWorker.on('error', (err) =>
+    logger.error({ err, worker: 'summarize-document' }, 'worker.error')
+);
+
+const summaryQueueEvents = new QueueEvents(JOBS.SUMMARIZE_DOCUMENT, {
+    connection,
+});
+
+summaryQueueEvents.on('completed', ({ jobId }) => {
+    logger.info({ jobId, jobType: 'summarize_document' }, 'job.completed');
+    metrics.jobsProcessed.inc({
+        job_type: 'summarize_document',
+        result: 'success',
+    });
+});
+
+summaryQueueEvents.on('failed', ({ jobId, failedReason }) => {
+    logger.error(
+        { jobId, jobType: 'summarize_document', failedReason },
+        'job.failed'
+    );
+    metrics.jobsProcessed.inc({
+        job_type: 'summarize_document',
+        result: 'failure',
+    });
+});
+
+// ===== REEMBED TENANT WORKER =====
+
+// One at a time: each job already streams a whole tenant through the embedding API
+const reembedWorker = new Worker<ReembedTenantJob>(
+    JOBS.REEMBED_TENANT,
+    processReembedTenant,
+    {
+        connection,
+        concurrency: 1,
+    }
+);
+
+reembedWorker.on('ready', () =>
+    logger.info({ worker: 'reembed-tenant', concurrency: 1 }, 'worker.ready')
+);
+reembedWorker.on('error', (err) =>
+    logger.error({ err, worker: 'reembed-tenant' }, 'worker.error')
+);
+
+const reembedQueueEvents = new QueueEvents(JOBS.REEMBED_TENANT, {
+    connection,
+});
+
+reembedQueueEvents.on('completed', ({ jobId }) => {
+    logger.info({ jobId, jobType: 'reembed_tenant' }, 'job.completed');
+    metrics.jobsProcessed.inc({
+        job_type: 'reembed_tenant',
+        result: 'success',
+    });
+});
+
+reembedQueueEvents.on('failed', ({ jobId, failedReason }) => {
+    logger.error(
+        { jobId, jobType: 'reembed_tenant', failedReason },
+        'job.failed'
+    );
+    metrics.jobsProcessed.inc({
+        job_type: 'reembed_tenant',
+        result: 'failure',
+    });
+});
+
 // ===== SYNC STALE DOCUMENTS WORKER =====
 
 // Queue instance for sync stale documents jobs
@@ -223,6 +336,241 @@ logger.info(
     'schedule.sync_stale.configured'
 );
 
+// ===== RUN SAVED SEARCHES WORKER =====
+
+const savedSearchQueue = new Queue<RunSavedSearchesJob>(
+    JOBS.RUN_SAVED_SEARCHES,
+    { connection }
+);
+
+const savedSearchWorker = new Worker<RunSavedSearchesJob>(
+    JOBS.RUN_SAVED_SEARCHES,
+    runSavedSearches,
+    {
+        connection,
+        concurrency: 1, // overlapping runs would pick the same due searches
+    }
+);
+
+savedSearchWorker.on('ready', () =>
+    logger.info(
+        { worker: 'run-saved-searches', concurrency: 1 },
+        'worker.ready'
+    )
+);
+savedSearchWorker.on('error', (err) =>
+    logger.error({ err, worker: 'run-saved-searches' }, 'worker.error')
+);
+
+const savedSearchQueueEvents = new QueueEvents(JOBS.RUN_SAVED_SEARCHES, {
+    connection,
+});
+
+savedSearchQueueEvents.on('completed', ({ jobId, returnvalue }) => {
+    const result = returnvalue as unknown as {
+        searches: number;
+        newMatches: number;
+        errors: number;
+    };
+    logger.info(
+        {
+            jobId,
+            jobType: 'run_saved_searches',
+            searches: result.searches,
+            newMatches: result.newMatches,
+            errors: result.errors,
+        },
+        'job.completed'
+    );
+    metrics.jobsProcessed.inc({
+        job_type: 'run_saved_searches',
+        result: 'success',
+    });
+});
+
+savedSearchQueueEvents.on('failed', ({ jobId, failedReason }) => {
+    logger.error(
+        { jobId, jobType: 'run_saved_searches', failedReason },
+        'job.failed'
+    );
+    metrics.jobsProcessed.inc({
+        job_type: 'run_saved_searches',
+        result: 'failure',
+    });
+});
+
+await savedSearchQueue.add(
+    JOBS.RUN_SAVED_SEARCHES,
+    {},
+    {
+        repeat: {
+            pattern: '*/15 * * * *', // Every 15 minutes (cron format)
+        },
+        jobId: 'run-saved-searches-repeating',
+    }
+);
+
+logger.info(
+    { pattern: '*/15 * * * *', jobId: 'run-saved-searches-repeating' },
+    'schedule.saved_searches.configured'
+);
+
+// ===== DETECT DUPLICATES WORKER =====
+
+const duplicateQueue = new Queue<DetectDuplicatesJob>(JOBS.DETECT_DUPLICATES, {
+    connection,
+});
+
+const duplicateWorker = new Worker<DetectDuplicatesJob>(
+    JOBS.DETECT_DUPLICATES,
+    detectDuplicates,
+    {
+        connection,
+        concurrency: 1, // overlapping runs would scan the same documents
+    }
+);
+
+duplicateWorker.on('ready', () =>
+    logger.info({ worker: 'detect-duplicates', concurrency: 1 }, 'worker.ready')
+);
+duplicateWorker.on('error', (err) =>
+    logger.error({ err, worker: 'detect-duplicates' }, 'worker.error')
+);
+
+const duplicateQueueEvents = new QueueEvents(JOBS.DETECT_DUPLICATES, {
+    connection,
+});
+
+duplicateQueueEvents.on('completed', ({ jobId, returnvalue }) => {
+    const result = returnvalue as unknown as {
+        tenants: number;
+        documents: number;
+        pairs: number;
+        errors: number;
+    };
+    logger.info(
+        {
+            jobId,
+            jobType: 'detect_duplicates',
+            tenants: result.tenants,
+            documents: result.documents,
+            pairs: result.pairs,
+            errors: result.errors,
+        },
+        'job.completed'
+    );
+    metrics.jobsProcessed.inc({
+        job_type: 'detect_duplicates',
+        result: 'success',
+    });
+});
+
+duplicateQueueEvents.on('failed', ({ jobId, failedReason }) => {
+    logger.error(
+        { jobId, jobType: 'detect_duplicates', failedReason },
+        'job.failed'
+    );
+    metrics.jobsProcessed.inc({
+        job_type: 'detect_duplicates',
+        result: 'failure',
+    });
+});
+
+await duplicateQueue.add(
+    JOBS.DETECT_DUPLICATES,
+    {},
+    {
+        repeat: {
+            pattern: '0 * * * *', // Every hour (cron format)
+        },
+        jobId: 'detect-duplicates-repeating',
+    }
+);
+
+logger.info(
+    { pattern: '0 * * * *', jobId: 'detect-duplicates-repeating' },
+    'schedule.duplicates.configured'
+);
+
+// ===== GENERATE DIGESTS WORKER =====
+
+const digestQueue = new Queue<GenerateDigestsJob>(JOBS.GENERATE_DIGESTS, {
+    connection,
+});
+
+const digestWorker = new Worker<GenerateDigestsJob>(
+    JOBS.GENERATE_DIGESTS,
+    generateDigests,
+    {
+        connection,
+        concurrency: 1,
+    }
+);
+
+digestWorker.on('ready', () =>
+    logger.info({ worker: 'generate-digests', concurrency: 1 }, 'worker.ready')
+);
+digestWorker.on('error', (err) =>
+    logger.error({ err, worker: 'generate-digests' }, 'worker.error')
+);
+
+const digestQueueEvents = new QueueEvents(JOBS.GENERATE_DIGESTS, {
+    connection,
+});
+
+digestQueueEvents.on('completed', ({ jobId, returnvalue }) => {
+    const result = returnvalue as unknown as {
+        tenants: number;
+        digests: number;
+        errors: number;
+    };
+    logger.info(
+        {
+            jobId,
+            jobType: 'generate_digests',
+            tenants: result.tenants,
+            digests: result.digests,
+            errors: result.errors,
+        },
+        'job.completed'
+    );
+    metrics.jobsProcessed.inc({
+        job_type: 'generate_digests',
+        result: 'success',
+    });
+});
+
+digestQueueEvents.on('failed', ({ jobId, failedReason }) => {
+    logger.error(
+        { jobId, jobType: 'generate_digests', failedReason },
+        'job.failed'
+    );
+    metrics.jobsProcessed.inc({
+        job_type: 'generate_digests',
+        result: 'failure',
+    });
+});
+
+await digestQueue.add(
+    JOBS.GENERATE_DIGESTS,
+    {},
+    {
+        repeat: {
+            pattern: '0 6 * * 1', // Mondays at 06:00 (cron format)
+            tz: 'UTC', // digests cover UTC weeks
+        },
+        jobId: 'generate-digests-repeating',
+        // a failed tenant is retried; finished ones are skipped
+        attempts: 3,
+        backoff: { type: 'exponential', delay: 60000 },
+    }
+);
+
+logger.info(
+    { pattern: '0 6 * * 1', jobId: 'generate-digests-repeating' },
+    'schedule.digests.configured'
+);
+
 // ===== SCHEDULED JOB: CLEANUP OLD INDEXED JOBS =====
 
 async function runCleanupOldJobs() {
@@ -255,7 +603,16 @@ setInterval(() => {
 
 logger.info(
     {
-        workers: ['index-document', 'send-reminder', 'sync-stale-documents'],
+        workers: [
+            'index-document',
+            'summarize-document',
+            'send-reminder',
+            'reembed-tenant',
+            'sync-stale-documents',
+            'run-saved-searches',
+            'detect-duplicates',
+            'generate-digests',
+        ],
         scheduledJobs: ['cleanup-old-jobs'],
     },
     'worker.bootstrap.completed'
@@ -269,11 +626,21 @@ const handleSigint = async () => {
     try {
         logger.info('worker.shutdown.closing_workers');
         await indexWorker.close();
+        await summaryWorker.close();
         await reminderWorker.close();
+        await reembedWorker.close();
         await syncStaleWorker.close();
+        await savedSearchWorker.close();
+        await duplicateWorker.close();
+        await digestWorker.close();
         await indexQueueEvents.close();
+        await summaryQueueEvents.close();
         await reminderQueueEvents.close();
+        await reembedQueueEvents.close();
         await syncStaleQueueEvents.close();
+        await savedSearchQueueEvents.close();
+        await duplicateQueueEvents.close();
+        await digestQueueEvents.close();
 
         logger.info('worker.shutdown.completed');
         process.exit(0);
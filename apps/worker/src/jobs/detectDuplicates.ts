@@ -0,0 +1,127 @@
+/**
+ * Periodic job that flags near-duplicate documents
+ * Runs hourly and, per tenant, compares documents indexed since the tenant's
+ * last scan against the rest of the workspace. A tenant that was never scanned
+ * has all its documents compared (the backfill), in batches across runs.
+ */
+
+import type { Job } from 'bullmq';
+import { db, type DuplicateScanDocument } from '@search-hub/db';
+import { logger as baseLogger } from '../logger.js';
+import {
+    DetectDuplicatesJobSchema,
+    type DetectDuplicatesJob,
+} from '@search-hub/schemas';
+import { primaryEmbeddingModel } from '../embeddings.js';
+
+const BATCH_SIZE = 500; // documents per tenant per run; the rest wait for the next run
+const CHUNK_SIMILARITY = 0.95; // cosine similarity for two passages to count as the same
+const MIN_SIMILARITY = 0.8; // share of matching passages for a pair to be flagged
+const EF_SEARCH = 100;
+
+/**
+ * Process detect duplicates job
+ */
+export async function detectDuplicates(job: Job<DetectDuplicatesJob>): Promise<{
+    tenants: number;
+    documents: number;
+    pairs: number;
+    errors: number;
+}> {
+    DetectDuplicatesJobSchema.parse(job.data);
+
+    const startTime = Date.now();
+    let documents = 0;
+    let pairs = 0;
+    let errors = 0;
+
+    const logger = baseLogger.child({
+        component: 'detect-duplicates-job',
+        jobId: job.id,
+        attempt: job.attemptsMade + 1,
+    });
+
+    const tenants = await db.documentDuplicate.listTenantsToScan();
+
+    if (tenants.length === 0) {
+        logger.info('duplicates.skipped.nothing_indexed');
+        return { tenants: 0, documents: 0, pairs: 0, errors: 0 };
+    }
+
+    for (const tenant of tenants) {
+        const scanStartedAt = new Date();
+        const settings = await db.tenant.getSearchSettings(tenant.id);
+        // compare vectors of the model the tenant currently searches with
+        const model = settings?.embeddingModel ?? primaryEmbeddingModel;
+        const source = { model, shadow: model !== primaryEmbeddingModel };
+
+        const batch = await db.documentDuplicate.listDocumentsToScan(
+            tenant.id,
+            tenant.duplicateScanAt,
+            BATCH_SIZE
+        );
+
+        let scanned: DuplicateScanDocument | undefined;
+        let failed = false;
+        for (const document of batch) {
+            try {
+                const candidates = await db.documentDuplicate.findCandidates(
+                    tenant.id,
+                    document,
+                    source,
+                    {
+                        chunkSimilarity: CHUNK_SIMILARITY,
+                        minSimilarity: MIN_SIMILARITY,
+                        efSearch: EF_SEARCH,
+                    }
+                );
+                await db.documentDuplicate.recordDetection(
+                    tenant.id,
+                    document.documentId,
+                    candidates
+                );
+                scanned = document;
+                documents++;
+                pairs += candidates.length;
+            } catch (error) {
+                // stop here so the scan resumes from this document next run
+                errors++;
+                failed = true;
+                logger.error(
+                    {
+                        tenantId: tenant.id,
+                        documentId: document.documentId,
+                        error:
+                            error instanceof Error
+                                ? error.message
+                                : String(error),
+                    },
+                    'duplicates.document.failed'
+                );
+                break;
+            }
+        }
+
+        // a full batch means more documents are waiting; continue after the last one
+        const scannedUntil =
+            failed || batch.length === BATCH_SIZE
+                ? scanned?.lastIndexedAt
+                : scanStartedAt;
+        if (scannedUntil) {
+            await db.documentDuplicate.markScanned(tenant.id, scannedUntil);
+        }
+    }
+
+    logger.info(
+        {
+            tenants: tenants.length,
+            documents,
+            pairs,
+            errors,
+            durationMs: Date.now() - startTime,
+        },
+        'duplicates.completed'
+    );
+
+    return { tenants: tenants.length, documents, pairs, errors };
+}
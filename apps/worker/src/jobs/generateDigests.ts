@@ -0,0 +1,244 @@
+/**
+ * Weekly job that writes a digest of each workspace's activity
+ * Runs on Mondays and covers the previous week (UTC): documents created or
+ * edited, the most frequent searches and reminders that are overdue. Tenants
+ * without document changes or searches that week get no digest.
+ */
+
+import type { Job } from 'bullmq';
+import { db, type DigestPeriod } from '@search-hub/db';
+import {
+    GenerateDigestsJobSchema,
+    type GenerateDigestsJob,
+    type DigestReminder,
+    type WorkspaceDigestActivity,
+} from '@search-hub/schemas';
+import { metrics } from '@search-hub/observability';
+import { logger as baseLogger } from '../logger.js';
+import { llmProvider } from '../llm.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_DOCUMENTS = 20;
+const MAX_SEARCHES = 5;
+const MAX_REMINDERS = 10;
+// TenantTokenUsage feature the digests are recorded under
+const DIGEST_FEATURE = 'digest';
+const CHARS_PER_TOKEN = 4;
+const MAX_DIGEST_TOKENS = 400;
+
+const SYSTEM_MESSAGE = `
+Write a short weekly digest of a workspace's activity for its members.
+At most two short paragraphs: what was worked on, what people searched for,
+and which overdue reminders need attention. Refer to documents by title.
+Only mention what is listed. Plain text, no Markdown, no greeting.
+`;
+
+/**
+ * The Monday-to-Monday (UTC) week before the one `now` falls in
+ */
+export function previousWeek(now: Date): DigestPeriod {
+    const today = Date.UTC(
+        now.getUTCFullYear(),
+        now.getUTCMonth(),
+        now.getUTCDate()
+    );
+    const sinceMonday = (now.getUTCDay() + 6) % 7;
+    const end = new Date(today - sinceMonday * DAY_MS);
+    return { start: new Date(end.getTime() - 7 * DAY_MS), end };
+}
+
+/**
+ * Reminders past due at `at` and not done, longest overdue first
+ */
+async function overdueReminders(
+    tenantId: string,
+    at: Date
+): Promise<DigestReminder[]> {
+    const commands = await db.documentCommand.getTenantReminders(tenantId);
+    const overdue: DigestReminder[] = [];
+    for (const command of commands) {
+        const body = command.body as Record<string, unknown>;
+        const dueAt =
+            typeof body.whenISO === 'string' ? new Date(body.whenISO) : null;
+        if (
+            body.status === 'done' ||
+            !dueAt ||
+            Number.isNaN(dueAt.getTime()) ||
+            dueAt >= at
+        ) {
+            continue;
+        }
+        overdue.push({
+            documentId: command.documentId,
+            documentTitle: command.document.title,
+            whenText: typeof body.whenText === 'string' ? body.whenText : '',
+            dueAt: dueAt.toISOString(),
+        });
+    }
+    return overdue.sort((a, b) => a.dueAt.localeCompare(b.dueAt));
+}
+
+function day(date: Date): string {
+    return date.toISOString().slice(0, 10);
+}
+
+function digestPrompt(
+    workspace: string,
+    period: DigestPeriod,
+    activity: WorkspaceDigestActivity
+): string {
+    const lines = [
+        `Workspace "${workspace}", ${day(period.start)} to ${day(
+            new Date(period.end.getTime() - DAY_MS)
+        )}.`,
+        '',
+        `Documents: ${activity.documentsCreated} created, ${activity.documentsUpdated} edited.`,
+        ...activity.documents.map(
+            (document) => `- ${document.title} (${document.change})`
+        ),
+        '',
+        `Searches: ${activity.searches}.`,
+        ...activity.topSearches.map(
+            (search) => `- "${search.query}" (${search.count}x)`
+        ),
+        '',
+        `Overdue reminders: ${activity.overdueReminders}.`,
+        ...activity.reminders.map(
+            (reminder) =>
+                `- ${reminder.documentTitle}: "${reminder.whenText}" (due ${day(
+                    new Date(reminder.dueAt)
+                )})`
+        ),
+    ];
+    return lines.join('\n');
+}
+
+/**
+ * Process generate digests job
+ */
+export async function generateDigests(job: Job<GenerateDigestsJob>): Promise<{
+    tenants: number;
+    digests: number;
+    errors: number;
+}> {
+    GenerateDigestsJobSchema.parse(job.data);
+
+    const startTime = Date.now();
+    const now = new Date();
+    const period = previousWeek(now);
+    let digests = 0;
+    let errors = 0;
+
+    const logger = baseLogger.child({
+        component: 'generate-digests-job',
+        jobId: job.id,
+        periodStart: period.start.toISOString(),
+        attempt: job.attemptsMade + 1,
+    });
+
+    const tenants = await db.workspaceDigest.listTenantsToDigest(period);
+
+    if (tenants.length === 0) {
+        logger.info('digests.skipped.no_activity');
+        return { tenants: 0, digests: 0, errors: 0 };
+    }
+
+    for (const tenant of tenants) {
+        try {
+            const [documentActivity, searchActivity, reminders] =
+                await Promise.all([
+                    db.workspaceDigest.getDocumentActivity(
+                        tenant.id,
+                        period,
+                        MAX_DOCUMENTS
+                    ),
+                    db.workspaceDigest.getSearchActivity(
+                        tenant.id,
+                        period,
+                        MAX_SEARCHES
+                    ),
+                    overdueReminders(tenant.id, now),
+                ]);
+
+            const activity: WorkspaceDigestActivity = {
+                documentsCreated: documentActivity.created,
+                documentsUpdated: documentActivity.updated,
+                searches: searchActivity.total,
+                overdueReminders: reminders.length,
+                documents: documentActivity.documents.map((document) => ({
+                    id: document.id,
+                    title: document.title,
+                    change:
+                        document.createdAt >= period.start
+                            ? 'created'
+                            : 'updated',
+                    updatedAt: document.updatedAt.toISOString(),
+                })),
+                topSearches: searchActivity.topQueries,
+                reminders: reminders.slice(0, MAX_REMINDERS),
+            };
+
+            const prompt = digestPrompt(tenant.name, period, activity);
+            const llm = llmProvider();
+            const model = tenant.llmModel ?? llm.defaultModel;
+            const startChat = Date.now();
+            const reply = await llm.chat({
+                prompt,
+                system: SYSTEM_MESSAGE,
+                model,
+                temperature: 0.3,
+                maxTokens: MAX_DIGEST_TOKENS,
+                timeoutMs: 30000,
+            });
+            metrics.aiRequestDuration.observe(
+                { provider: llm.name, operation: 'digest' },
+                (Date.now() - startChat) / 1000
+            );
+            await db.tokenUsage.record(
+                tenant.id,
+                DIGEST_FEATURE,
+                Math.ceil(
+                    (SYSTEM_MESSAGE + prompt + reply).length / CHARS_PER_TOKEN
+                )
+            );
+
+            const summary = reply.trim();
+            if (!summary) {
+                throw new Error('Model returned an empty digest');
+            }
+            await db.workspaceDigest.save(tenant.id, period, {
+                summary,
+                activity,
+                model,
+            });
+            digests++;
+        } catch (error) {
+            errors++;
+            logger.error(
+                {
+                    tenantId: tenant.id,
+                    error:
+                        error instanceof Error ? error.message : String(error),
+                },
+                'digests.tenant.failed'
+            );
+        }
+    }
+
+    logger.info(
+        {
+            tenants: tenants.length,
+            digests,
+            errors,
+            durationMs: Date.now() - startTime,
+        },
+        'digests.completed'
+    );
+
+    if (errors > 0) {
+        // retried by BullMQ; tenants that already have a digest are skipped
+        throw new Error(`${errors} of ${tenants.length} digests failed`);
+    }
+
+    return { tenants: tenants.length, digests, errors };
+}
@@ -3,21 +3,26 @@
  * Chunks text, generates embeddings, and stores them in the database
  */
 
-import type { Job } from 'bullmq';
+import type { Job, Queue } from 'bullmq';
 import { db } from '@search-hub/db';
 import { logger as baseLogger } from '../logger.js';
-import { sha256, IndexDocumentJobSchema } from '@search-hub/schemas';
-import type { IndexDocumentJob } from '@search-hub/schemas';
-import { createVoyageHelpers, chunkMarkdown } from '@search-hub/ai';
+import { JOBS, sha256, IndexDocumentJobSchema } from '@search-hub/schemas';
+import type {
+    IndexDocumentJob,
+    SummarizeDocumentJob,
+} from '@search-hub/schemas';
+import { chunkMarkdown, detectTextSearchConfig } from '@search-hub/ai';
 import { loadWorkerEnv } from '@search-hub/config-env';
 import { metrics } from '@search-hub/observability';
+import {
+    embeddingsFor,
+    primaryEmbeddings as embeddings,
+    primaryEmbeddingModel,
+} from '../embeddings.js';
 
 const env = loadWorkerEnv();
-const VOYAGE_API_KEY = env.VOYAGE_API_KEY;
 const MAX_CHUNK_LIMIT = Number(env.WORKER_MAX_CHUNK_LIMIT ?? 5000);
 
-const voyage = createVoyageHelpers({ apiKey: VOYAGE_API_KEY });
-
 export type ProcessorResult =
     | { ok: true; reason: 'empty-content' | 'already-indexed' | 'no-chunks' }
     | { ok: true; documentId: string; chunks: number };
@@ -26,11 +31,14 @@ export type ProcessorResult =
  * Process an index document job
  * - Fetches document content
  * - Chunks the text
- * - Generates embeddings via Voyage AI
+ * - Generates embeddings via the configured EMBEDDING_PROVIDER, plus any
+ *   model a re-embedding migration keeps in sync for the tenant
  * - Stores chunks and embeddings in database
+ * - Queues a summary of the new content when `summaryQueue` is given
  */
 export async function processIndexDocument(
-    job: Job<IndexDocumentJob>
+    job: Job<IndexDocumentJob>,
+    summaryQueue?: Queue<SummarizeDocumentJob>
 ): Promise<ProcessorResult> {
     const startTime = Date.now();
 
@@ -100,7 +108,7 @@ export async function processIndexDocument(
             overlapBlocks: 1, // Include 1 previous section for context
         });
 
-        // Filter out chunks with empty searchText (Voyage AI rejects empty strings)
+        // Filter out chunks with empty searchText (hosted embedding APIs reject empty strings)
         const validChunks = markdownChunks.filter(
             (chunk) => chunk.searchText.trim().length > 0
         );
@@ -142,19 +150,40 @@ export async function processIndexDocument(
             'chunking.completed'
         );
 
-        // 6) Generate embeddings via Voyage AI (use cleaned search text)
+        // 6) Generate embeddings (use cleaned search text)
         const startEmbedding = Date.now();
-        const vectors = await voyage.embed(
+        const vectors = await embeddings.embed(
             validChunks.map((c) => c.searchText),
             {
-                input_type: 'document',
+                inputType: 'document',
             }
         );
         metrics.aiRequestDuration.observe(
-            { provider: 'voyage', operation: 'embed' },
+            { provider: embeddings.name, operation: 'embed' },
             (Date.now() - startEmbedding) / 1000
         );
 
+        // keep shadow vectors current so a migrated model never misses edits
+        const shadowModels = (
+            await db.embeddingMigration.listMaintainedModels(tenantId)
+        ).filter((model) => model !== primaryEmbeddingModel);
+        const shadowEmbeddings = [];
+        for (const embeddingModel of shadowModels) {
+            const provider = embeddingsFor(embeddingModel);
+            const startShadow = Date.now();
+            shadowEmbeddings.push({
+                embeddingModel,
+                vectors: await provider.embed(
+                    validChunks.map((c) => c.searchText),
+                    { inputType: 'document' }
+                ),
+            });
+            metrics.aiRequestDuration.observe(
+                { provider: provider.name, operation: 'embed' },
+                (Date.now() - startShadow) / 1000
+            );
+        }
+
         // 7) Store chunks and embeddings in database
         const chunks = validChunks.map((mc) => ({
             idx: mc.idx,
@@ -165,17 +194,51 @@ export async function processIndexDocument(
             endPos: mc.endPos,
         }));
 
+        // null falls back to the workspace's text search configuration
+        const textSearchConfig = detectTextSearchConfig(
+            `${doc.title}\n${rawMarkdown}`
+        );
+
         await db.document.replaceChunksWithEmbeddings({
             tenantId,
             documentId,
             chunks,
             vectors,
+            embeddingModel: primaryEmbeddingModel,
+            shadowEmbeddings,
             checksum,
+            textSearchConfig,
         });
 
         // 8) Transition: processing -> indexed
         await db.job.markIndexed(tenantId, documentId);
 
+        // 9) Summarize from the new chunks, once per content version; a failed
+        // enqueue doesn't fail indexing
+        try {
+            await summaryQueue?.add(
+                JOBS.SUMMARIZE_DOCUMENT,
+                { tenantId, documentId, force: false },
+                {
+                    jobId: `summary-${documentId}-${checksum.slice(0, 16)}`,
+                    attempts: 3,
+                    backoff: { type: 'exponential', delay: 5000 },
+                    removeOnComplete: true,
+                    // a kept failed job would block its jobId, so the next
+                    // reindex of this content couldn't queue the summary again
+                    removeOnFail: true,
+                }
+            );
+        } catch (error) {
+            logger.warn(
+                {
+                    error:
+                        error instanceof Error ? error.message : String(error),
+                },
+                'summary.enqueue.failed'
+            );
+        }
+
         // Track successful job duration
         const duration = (Date.now() - startTime) / 1000;
         metrics.jobDuration.observe(
@@ -194,6 +257,9 @@ export async function processIndexDocument(
                 headingsFound: validChunks.filter(
                     (c) => c.headingPath.length > 0
                 ).length,
+                textSearchConfig,
+                embeddingModel: primaryEmbeddingModel,
+                shadowModels,
             },
             'job.completed'
         );
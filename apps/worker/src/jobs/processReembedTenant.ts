@@ -0,0 +1,154 @@
+/**
+ * Job processor for embedding model migrations
+ * Re-embeds a tenant's chunks with the target model while search keeps using
+ * the current one; the cutover happens separately through the API
+ */
+
+import type { Job } from 'bullmq';
+import { db } from '@search-hub/db';
+import { logger as baseLogger } from '../logger.js';
+import { ReembedTenantJobSchema } from '@search-hub/schemas';
+import type { ReembedTenantJob } from '@search-hub/schemas';
+import { metrics } from '@search-hub/observability';
+import { embeddingsFor, primaryEmbeddingModel } from '../embeddings.js';
+
+// chunks per embedding request; also the granularity of progress updates
+const BATCH_SIZE = 64;
+
+export type ReembedResult =
+    | { ok: true; reason: 'already-completed' }
+    | { ok: true; migrationId: string; processed: number };
+
+/**
+ * Process a re-embed job
+ * - Embeds chunks that have no vector from the target model yet, in batches
+ * - Target = the worker's primary model: updates DocumentChunk.embedding in place
+ * - Any other target: fills the DocumentChunkEmbedding shadow table
+ * Only missing vectors are embedded, so retries resume where the last attempt stopped.
+ */
+export async function processReembedTenant(
+    job: Job<ReembedTenantJob>
+): Promise<ReembedResult> {
+    const startTime = Date.now();
+    const { tenantId, migrationId } = ReembedTenantJobSchema.parse(job.data);
+
+    const logger = baseLogger.child({
+        component: 'reembed-tenant-job',
+        jobId: job.id,
+        tenantId,
+        migrationId,
+        attempt: job.attemptsMade + 1,
+    });
+
+    const migration = await db.embeddingMigration.findById(
+        tenantId,
+        migrationId
+    );
+    if (!migration) {
+        throw new Error(
+            `Embedding migration ${migrationId} not found for tenant ${tenantId}`
+        );
+    }
+    if (migration.status === 'completed') {
+        logger.info('job.skipped.already_completed');
+        return { ok: true, reason: 'already-completed' };
+    }
+
+    const targetModel = migration.targetModel;
+    const primary = targetModel === primaryEmbeddingModel;
+
+    metrics.activeJobs.inc({ job_type: 'reembed_tenant', tenant_id: tenantId });
+
+    try {
+        await db.embeddingMigration.markRunning(migrationId);
+        const embeddings = embeddingsFor(targetModel);
+
+        const remaining = await db.embeddingMigration.countChunksToEmbed(
+            tenantId,
+            targetModel,
+            primary
+        );
+        let processed = Math.max(migration.totalChunks - remaining, 0);
+
+        logger.info({ targetModel, primary, remaining }, 'reembed.started');
+
+        for (;;) {
+            const batch = await db.embeddingMigration.findChunksToEmbed(
+                tenantId,
+                targetModel,
+                primary,
+                BATCH_SIZE
+            );
+            if (batch.length === 0) {
+                break;
+            }
+
+            const startEmbedding = Date.now();
+            const vectors = await embeddings.embed(
+                batch.map((chunk) => chunk.content),
+                { inputType: 'document' }
+            );
+            metrics.aiRequestDuration.observe(
+                { provider: embeddings.name, operation: 'embed' },
+                (Date.now() - startEmbedding) / 1000
+            );
+
+            await db.embeddingMigration.saveChunkEmbeddings({
+                tenantId,
+                model: targetModel,
+                primary,
+                chunkIds: batch.map((chunk) => chunk.id),
+                vectors,
+            });
+
+            processed += batch.length;
+            await db.embeddingMigration.updateProgress(migrationId, processed);
+            await job.updateProgress({ processed });
+        }
+
+        await db.embeddingMigration.markCompleted(migrationId, processed);
+
+        const duration = (Date.now() - startTime) / 1000;
+        metrics.jobDuration.observe(
+            {
+                job_type: 'reembed_tenant',
+                tenant_id: tenantId,
+                result: 'success',
+            },
+            duration
+        );
+
+        logger.info(
+            {
+                targetModel,
+                processed,
+                durationMs: Math.round(duration * 1000),
+            },
+            'job.completed'
+        );
+
+        return { ok: true, migrationId, processed };
+    } catch (err: unknown) {
+        const error = err instanceof Error ? err : new Error(String(err));
+
+        // Mark failed in DB and rethrow so BullMQ can retry
+        await db.embeddingMigration.markFailed(migrationId, error.message);
+        logger.error({ error: error.message, targetModel }, 'job.failed');
+
+        metrics.jobDuration.observe(
+            {
+                job_type: 'reembed_tenant',
+                tenant_id: tenantId,
+                result: 'failure',
+            },
+            (Date.now() - startTime) / 1000
+        );
+
+        throw error;
+    } finally {
+        metrics.activeJobs.dec({
+            job_type: 'reembed_tenant',
+            tenant_id: tenantId,
+        });
+    }
+}
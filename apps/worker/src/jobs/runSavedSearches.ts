@@ -0,0 +1,127 @@
+/**
+ * Periodic job that re-runs saved searches
+ * Runs every 15 minutes and picks the saved searches not run within the last hour.
+ * A search's first run records its current matches as seen (the baseline);
+ * documents that start matching later are recorded as new matches.
+ */
+
+import type { Job } from 'bullmq';
+import { db } from '@search-hub/db';
+import { logger as baseLogger } from '../logger.js';
+import {
+    RunSavedSearchesJobSchema,
+    resolveTenantSearchSettings,
+    type RunSavedSearchesJob,
+    type TenantSearchSettingsResponse,
+} from '@search-hub/schemas';
+
+const RERUN_INTERVAL_MS = 60 * 60 * 1000; // 1 hour
+const BATCH_SIZE = 200; // saved searches per job; the rest wait for the next run
+// top-ranked documents considered per run; matches below this rank go unnoticed
+const MATCH_LIMIT = 100;
+
+/**
+ * Process run saved searches job
+ */
+export async function runSavedSearches(job: Job<RunSavedSearchesJob>): Promise<{
+    searches: number;
+    newMatches: number;
+    errors: number;
+}> {
+    RunSavedSearchesJobSchema.parse(job.data);
+
+    const startTime = Date.now();
+    let newMatches = 0;
+    let errors = 0;
+
+    const logger = baseLogger.child({
+        component: 'run-saved-searches-job',
+        jobId: job.id,
+        attempt: job.attemptsMade + 1,
+    });
+
+    const due = await db.savedSearch.listDueForRun(
+        new Date(startTime - RERUN_INTERVAL_MS),
+        BATCH_SIZE
+    );
+
+    if (due.length === 0) {
+        logger.info('saved_searches.skipped.none_due');
+        return { searches: 0, newMatches: 0, errors: 0 };
+    }
+
+    // lexical settings are per tenant; saved searches cluster by tenant
+    const settingsByTenant = new Map<
+        string,
+        Promise<TenantSearchSettingsResponse>
+    >();
+    const loadSettings = (tenantId: string) => {
+        let settings = settingsByTenant.get(tenantId);
+        if (!settings) {
+            settings = db.tenant
+                .getSearchSettings(tenantId)
+                .then(resolveTenantSearchSettings);
+            settingsByTenant.set(tenantId, settings);
+        }
+        return settings;
+    };
+
+    for (const savedSearch of due) {
+        try {
+            const { rankWeights, textSearchConfig } = await loadSettings(
+                savedSearch.tenantId
+            );
+            const result = await db.search.lexicalSearchDocuments(
+                savedSearch.tenantId,
+                savedSearch.textQuery,
+                MATCH_LIMIT,
+                0,
+                savedSearch.filterOptions,
+                rankWeights,
+                textSearchConfig
+            );
+
+            const recorded = await db.savedSearch.recordRun(
+                savedSearch.id,
+                result.items.map((item) => item.id),
+                { baseline: savedSearch.baseline }
+            );
+            newMatches += recorded;
+
+            logger.debug(
+                {
+                    savedSearchId: savedSearch.id,
+                    tenantId: savedSearch.tenantId,
+                    matched: result.items.length,
+                    newMatches: recorded,
+                    baseline: savedSearch.baseline,
+                },
+                'saved_search.run.completed'
+            );
+        } catch (error) {
+            // left due; retried on the next run
+            errors++;
+            logger.error(
+                {
+                    savedSearchId: savedSearch.id,
+                    tenantId: savedSearch.tenantId,
+                    error:
+                        error instanceof Error ? error.message : String(error),
+                },
+                'saved_search.run.failed'
+            );
+        }
+    }
+
+    logger.info(
+        {
+            searches: due.length,
+            newMatches,
+            errors,
+            durationMs: Date.now() - startTime,
+        },
+        'saved_searches.completed'
+    );
+
+    return { searches: due.length, newMatches, errors };
+}
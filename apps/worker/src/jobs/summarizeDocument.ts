@@ -0,0 +1,180 @@
+/**
+ * Job processor for document summaries
+ * Summarizes a document's chunks with the workspace's chat model and stores
+ * the result in Document.summary
+ */
+
+import type { Job } from 'bullmq';
+import { db } from '@search-hub/db';
+import {
+    estimateSummaryTokens,
+    sha256,
+    SUMMARY_CHARS_PER_TOKEN,
+    SUMMARY_FEATURE,
+    SUMMARY_MAX_INPUT_TOKENS,
+    SUMMARY_MAX_REPLY_TOKENS,
+    SummarizeDocumentJobSchema,
+    type SummarizeDocumentJob,
+} from '@search-hub/schemas';
+import { loadWorkerEnv } from '@search-hub/config-env';
+import { metrics } from '@search-hub/observability';
+import { logger as baseLogger } from '../logger.js';
+import { llmProvider } from '../llm.js';
+
+const env = loadWorkerEnv();
+
+const SYSTEM_MESSAGE = `
+Summarize the document in two or three plain sentences for a document list.
+Say what it covers and its key points, in the document's language.
+No preamble, no Markdown, no bullet points.
+`;
+
+/**
+ * Chunks in document order until the input budget is spent
+ */
+function summaryInput(chunks: string[]): string {
+    const maxChars = SUMMARY_MAX_INPUT_TOKENS * SUMMARY_CHARS_PER_TOKEN;
+    let input = '';
+    for (const chunk of chunks) {
+        const remaining = maxChars - input.length;
+        if (remaining <= 0) {
+            break;
+        }
+        input += `${chunk.slice(0, remaining)}\n\n`;
+    }
+    return input.trim();
+}
+
+export type SummarizeResult =
+    | {
+          ok: true;
+          reason:
+              | 'disabled'
+              | 'not-found'
+              | 'empty-content'
+              | 'unchanged'
+              | 'no-chunks'
+              | 'budget-exhausted';
+      }
+    | { ok: true; documentId: string; tokens: number };
+
+/**
+ * Process a summarize document job
+ * - Skips content whose checksum matches the current summary (unless forced)
+ * - Reserves the estimated cost against the tenant's daily budget before
+ *   calling the model, and skips when it doesn't fit
+ * - Settles the reservation to the tokens spent, or releases it if the call fails
+ */
+export async function summarizeDocument(
+    job: Job<SummarizeDocumentJob>
+): Promise<SummarizeResult> {
+    const startTime = Date.now();
+    const { tenantId, documentId, force } = SummarizeDocumentJobSchema.parse(
+        job.data
+    );
+
+    const logger = baseLogger.child({
+        component: 'summarize-document-job',
+        jobId: job.id,
+        tenantId,
+        documentId,
+        attempt: job.attemptsMade + 1,
+    });
+
+    const budget =
+        (await db.tenant.getSummaryTokenBudget(tenantId)) ??
+        env.SUMMARY_DAILY_TOKEN_BUDGET;
+    if (budget === 0) {
+        return { ok: true, reason: 'disabled' };
+    }
+
+    const doc = await db.document.findForSummary(documentId);
+    if (!doc || doc.tenantId !== tenantId) {
+        // deleted since the job was queued
+        logger.info('job.skipped.not_found');
+        return { ok: true, reason: 'not-found' };
+    }
+
+    const content = (doc.content ?? '').trim();
+    if (!content) {
+        logger.info('job.skipped.empty_content');
+        return { ok: true, reason: 'empty-content' };
+    }
+
+    const checksum = sha256(content);
+    if (!force && doc.summaryChecksum === checksum) {
+        logger.info({ checksum }, 'job.skipped.unchanged');
+        return { ok: true, reason: 'unchanged' };
+    }
+
+    const input = summaryInput(
+        await db.document.getChunkContents(documentId, tenantId)
+    );
+    if (!input) {
+        // not indexed yet; indexing queues another summary job
+        logger.info('job.skipped.no_chunks');
+        return { ok: true, reason: 'no-chunks' };
+    }
+
+    const prompt = `Title: ${doc.title}\n\n${input}`;
+    const estimate =
+        estimateSummaryTokens(SYSTEM_MESSAGE + prompt) +
+        SUMMARY_MAX_REPLY_TOKENS;
+    // reserved up front so concurrent jobs can't overspend the budget together
+    const reserved = await db.tokenUsage.reserve(
+        tenantId,
+        SUMMARY_FEATURE,
+        estimate,
+        budget
+    );
+    if (!reserved) {
+        logger.warn({ estimate, budget }, 'job.skipped.budget_exhausted');
+        return { ok: true, reason: 'budget-exhausted' };
+    }
+
+    const settings = await db.tenant.getSearchSettings(tenantId);
+    const llm = llmProvider();
+    const startChat = Date.now();
+    let reply: string;
+    try {
+        reply = await llm.chat({
+            prompt,
+            system: SYSTEM_MESSAGE,
+            model: settings?.llmModel ?? undefined,
+            temperature: 0.2,
+            maxTokens: SUMMARY_MAX_REPLY_TOKENS,
+            timeoutMs: 30000,
+        });
+    } catch (error) {
+        // nothing was generated; give the reservation back before the retry
+        await db.tokenUsage.record(tenantId, SUMMARY_FEATURE, -estimate);
+        throw error;
+    }
+    metrics.aiRequestDuration.observe(
+        { provider: llm.name, operation: 'summarize' },
+        (Date.now() - startChat) / 1000
+    );
+
+    // the call is paid for whether or not the reply is usable
+    const tokens = estimateSummaryTokens(SYSTEM_MESSAGE + prompt + reply);
+    await db.tokenUsage.record(tenantId, SUMMARY_FEATURE, tokens - estimate);
+
+    const summary = reply.trim();
+    if (!summary) {
+        throw new Error('Model returned an empty summary');
+    }
+    await db.document.updateSummary(documentId, summary, checksum);
+
+    logger.info(
+        {
+            tokens,
+            budget,
+            model: settings?.llmModel ?? llm.defaultModel,
+            summaryLength: summary.length,
+            durationMs: Date.now() - startTime,
+        },
+        'job.completed'
+    );
+
+    return { ok: true, documentId, tokens };
+}
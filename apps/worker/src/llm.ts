@@ -0,0 +1,15 @@
+import { createLlmProvider, type LlmProvider } from '@search-hub/ai';
+import { loadWorkerEnv } from '@search-hub/config-env';
+
+const env = loadWorkerEnv();
+
+let provider: LlmProvider | undefined;
+
+/**
+ * LLM_PROVIDER, created on first use so a worker without chat credentials
+ * still indexes; only the jobs that generate text fail
+ */
+export function llmProvider(): LlmProvider {
+    provider ??= createLlmProvider(env);
+    return provider;
+}
@@ -0,0 +1,14 @@
+import { defineConfig } from 'vitest/config';
+import { fileURLToPath } from 'node:url';
+import { dirname } from 'node:path';
+
+const rootDir = dirname(fileURLToPath(import.meta.url));
+
+export default defineConfig({
+    root: rootDir,
+    test: {
+        name: 'Worker unit tests',
+        environment: 'node',
+        setupFiles: ['./test/setup.ts'],
+    },
+});
@@ -0,0 +1,266 @@
+import type { EmbeddingEnv } from '@search-hub/config-env';
+import { voyageEmbed } from './voyageEmbedding.js';
+
+export type EmbeddingInputType = 'document' | 'query';
+
+export interface EmbedOptions {
+    inputType?: EmbeddingInputType; // asymmetric models embed queries differently
+}
+
+/**
+ * Turns text into fixed-size vectors for pgvector.
+ * Every provider returns one vector of `dimensions` floats per input, in input order.
+ */
+export interface EmbeddingProvider {
+    readonly name: EmbeddingEnv['EMBEDDING_PROVIDER']; // metrics label
+    readonly model: string;
+    readonly dimensions: number;
+    embed(texts: string[], opts?: EmbedOptions): Promise<number[][]>;
+}
+
+function assertDimensions(
+    provider: string,
+    vectors: number[][],
+    expected: number,
+    inputs: number
+) {
+    if (vectors.length !== inputs) {
+        throw new Error(
+            `${provider} returned ${vectors.length} embeddings for ${inputs} inputs`
+        );
+    }
+    for (const vector of vectors) {
+        if (vector.length !== expected) {
+            throw new Error(
+                `${provider} embedding dimension mismatch. Expected ${expected}, got ${vector.length}`
+            );
+        }
+    }
+}
+
+export function createVoyageEmbeddingProvider({
+    apiKey,
+    model = 'voyage-3.5',
+    dimensions = 1024,
+}: {
+    apiKey: string;
+    model?: string;
+    dimensions?: number;
+}): EmbeddingProvider {
+    return {
+        name: 'voyage',
+        model,
+        dimensions,
+        embed: (texts, opts = {}) =>
+            voyageEmbed(apiKey, texts, {
+                model,
+                input_type: opts.inputType ?? 'document',
+                output_dimension: dimensions,
+            }),
+    };
+}
+
+/**
+ * Any server implementing POST /embeddings from the OpenAI API
+ * (OpenAI, Azure, Ollama, vLLM, LM Studio, text-embeddings-inference, ...)
+ */
+export function createOpenAiEmbeddingProvider({
+    baseUrl = 'https://api.openai.com/v1',
+    apiKey,
+    model = 'text-embedding-3-small',
+    dimensions = 1024,
+}: {
+    baseUrl?: string;
+    apiKey?: string;
+    model?: string;
+    dimensions?: number;
+}): EmbeddingProvider {
+    return {
+        name: 'openai',
+        model,
+        dimensions,
+        async embed(texts) {
+            if (texts.length === 0) return [];
+
+            const resp = await fetch(
+                `${baseUrl.replace(/\/+$/, '')}/embeddings`,
+                {
+                    method: 'POST',
+                    headers: {
+                        ...(apiKey
+                            ? { Authorization: `Bearer ${apiKey}` }
+                            : {}),
+                        'Content-Type': 'application/json',
+                    },
+                    body: JSON.stringify({ model, input: texts, dimensions }),
+                }
+            );
+
+            if (!resp.ok) {
+                const errText = await resp.text().catch(() => '');
+                throw new Error(
+                    `OpenAI-compatible embed failed: ${resp.status} ${errText}`
+                );
+            }
+
+            interface OpenAiEmbeddingResponse {
+                data?: {
+                    embedding: number[];
+                    index: number;
+                }[];
+            }
+
+            const json = (await resp.json()) as OpenAiEmbeddingResponse;
+            const vectors = [...(json.data ?? [])]
+                .sort((a, b) => a.index - b.index)
+                .map(({ embedding }) => embedding);
+
+            assertDimensions(
+                'OpenAI-compatible provider',
+                vectors,
+                dimensions,
+                texts.length
+            );
+            return vectors;
+        },
+    };
+}
+
+// 32-bit FNV-1a
+function hashFeature(feature: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < feature.length; i++) {
+        hash ^= feature.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
+
+/**
+ * Deterministic, dependency-free embeddings via the hashing trick over words,
+ * word bigrams and character trigrams. Not semantic in any deep sense, but texts
+ * sharing vocabulary land close together, which is enough for offline
+ * development and air-gapped CI.
+ */
+export function createLocalEmbeddingProvider({
+    dimensions = 1024,
+}: {
+    dimensions?: number;
+} = {}): EmbeddingProvider {
+    const embedOne = (text: string): number[] => {
+        const vector = new Array<number>(dimensions).fill(0);
+        const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+
+        const add = (feature: string, weight: number) => {
+            const hash = hashFeature(feature);
+            // top bit picks the sign so collisions tend to cancel out
+            const sign = hash & 0x80000000 ? -1 : 1;
+            const slot = hash % dimensions;
+            vector[slot] = (vector[slot] ?? 0) + sign * weight;
+        };
+
+        words.forEach((word, index) => {
+            add(`w:${word}`, 1);
+            const next = words[index + 1];
+            if (next) {
+                add(`b:${word} ${next}`, 0.5);
+            }
+            const padded = ` ${word} `;
+            for (let i = 0; i + 3 <= padded.length; i++) {
+                add(`c:${padded.slice(i, i + 3)}`, 0.25);
+            }
+        });
+
+        const norm = Math.hypot(...vector);
+        if (norm === 0) {
+            // cosine distance is undefined for the zero vector
+            vector[0] = 1;
+            return vector;
+        }
+        return vector.map((value) => value / norm);
+    };
+
+    return {
+        name: 'local',
+        model: 'local-hash-v1',
+        dimensions,
+        embed: (texts) => Promise.resolve(texts.map(embedOne)),
+    };
+}
+
+/**
+ * Build the provider selected by EMBEDDING_PROVIDER
+ */
+export function createEmbeddingProvider(env: EmbeddingEnv): EmbeddingProvider {
+    const dimensions = env.EMBEDDING_DIMENSIONS;
+
+    switch (env.EMBEDDING_PROVIDER) {
+        case 'voyage': {
+            const apiKey = env.EMBEDDING_API_KEY ?? env.VOYAGE_API_KEY;
+            if (!apiKey) {
+                throw new Error(
+                    'VOYAGE_API_KEY is required when EMBEDDING_PROVIDER=voyage'
+                );
+            }
+            return createVoyageEmbeddingProvider({
+                apiKey,
+                model: env.EMBEDDING_MODEL,
+                dimensions,
+            });
+        }
+        case 'openai':
+            return createOpenAiEmbeddingProvider({
+                baseUrl: env.EMBEDDING_BASE_URL,
+                apiKey: env.EMBEDDING_API_KEY,
+                model: env.EMBEDDING_MODEL,
+                dimensions,
+            });
+        case 'local':
+            return createLocalEmbeddingProvider({ dimensions });
+    }
+}
+
+const EMBEDDING_PROVIDERS = ['voyage', 'openai', 'local'] as const;
+
+/**
+ * Identifies which model produced a vector: "provider:model:dimensions".
+ * Vectors are only comparable when their ids are equal.
+ */
+export function embeddingModelId(
+    provider: Pick<EmbeddingProvider, 'name' | 'model' | 'dimensions'>
+): string {
+    return `${provider.name}:${provider.model}:${provider.dimensions}`;
+}
+
+export function parseEmbeddingModelId(id: string): {
+    provider: EmbeddingEnv['EMBEDDING_PROVIDER'];
+    model: string;
+    dimensions: number;
+} {
+    // model names may contain ':' themselves (e.g. Ollama tags)
+    const [provider, ...rest] = id.split(':');
+    const dimensions = Number(rest.pop());
+    const model = rest.join(':');
+    const known = EMBEDDING_PROVIDERS.find((name) => name === provider);
+
+    if (!known || !model || !Number.isInteger(dimensions) || dimensions <= 0) {
+        throw new Error(`Invalid embedding model id: ${id}`);
+    }
+    return { provider: known, model, dimensions };
+}
+
+/**
+ * Build a provider for a stored model id, reusing the credentials from env
+ */
+export function createEmbeddingProviderForModel(
+    modelId: string,
+    env: EmbeddingEnv
+): EmbeddingProvider {
+    const { provider, model, dimensions } = parseEmbeddingModelId(modelId);
+    return createEmbeddingProvider({
+        ...env,
+        EMBEDDING_PROVIDER: provider,
+        EMBEDDING_MODEL: model,
+        EMBEDDING_DIMENSIONS: dimensions,
+    });
+}
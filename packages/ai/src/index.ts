@@ -1,6 +1,5 @@
 import { voyageEmbed, VoyageEmbeddingInput } from './voyageEmbedding.js';
 import { voyageRerank } from './voyageRerank.js';
-import { chat, streamChat } from './llm.js';
 import { normalizeQuery } from './queryNormalization.js';
 import { chunkMarkdown, type MarkdownChunk } from './markdownChunking.js';
 
@@ -13,14 +12,50 @@ export const createVoyageHelpers = ({ apiKey }: { apiKey: string }) => ({
         voyageRerank(apiKey, query, docs),
 });
 
-// Factory for Groq LLM helpers
-export const createGroqHelpers = () => ({
-    chat,
-    streamChat,
-});
+// Pluggable LLM providers (Groq, OpenAI-compatible, scripted fake)
+export {
+    createLlmProvider,
+    createGroqLlmProvider,
+    createOpenAiLlmProvider,
+    createScriptedLlmProvider,
+    chatJson,
+    parseJsonReply,
+    type LlmProvider,
+    type ChatParams,
+    type ScriptedLlmProvider,
+    type ScriptedReply,
+} from './llmProvider.js';
+
+// Pluggable embedding providers (Voyage, OpenAI-compatible, local hashing)
+export {
+    createEmbeddingProvider,
+    createVoyageEmbeddingProvider,
+    createOpenAiEmbeddingProvider,
+    createLocalEmbeddingProvider,
+    createEmbeddingProviderForModel,
+    embeddingModelId,
+    parseEmbeddingModelId,
+    type EmbeddingProvider,
+    type EmbeddingInputType,
+    type EmbedOptions,
+} from './embeddingProvider.js';
+
+// Pluggable rerankers (Voyage, local BM25, pass-through)
+export {
+    createReranker,
+    createVoyageReranker,
+    createBm25Reranker,
+    createPassThroughReranker,
+    type Reranker,
+    type RerankResult,
+    type RerankOptions,
+} from './reranker.js';
 
 // Query normalization utilities
 export { normalizeQuery } from './queryNormalization.js';
 
 // Markdown chunking utilities
 export { chunkMarkdown, type MarkdownChunk } from './markdownChunking.js';
+
+// Language detection for full-text search configuration
+export { detectTextSearchConfig } from './languageDetection.js';
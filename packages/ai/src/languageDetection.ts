@@ -0,0 +1,86 @@
+/**
+ * Detect the text search configuration (Postgres language name) of a document.
+ *
+ * Deliberately lightweight: script ranges pick CJK and Cyrillic text, and
+ * stop-word frequencies separate the Latin-script languages. Returns null when
+ * the text is too short or ambiguous, so callers can fall back to the
+ * workspace default instead of guessing.
+ *
+ * @example
+ * detectTextSearchConfig('Le service de recherche indexe les documents de l’équipe ...')
+ * // Returns: "french"
+ */
+
+const SAMPLE_LENGTH = 20_000;
+const MIN_WORDS = 20;
+// share of letters that must be CJK before the text counts as CJK
+const MIN_CJK_RATIO = 0.3;
+// share of words that must be stop words of the winning language
+const MIN_STOPWORD_RATIO = 0.08;
+
+// the most frequent function words per language, space separated
+const STOPWORDS: Record<string, string> = {
+    english:
+        'the and of to is in that it for with as on this are be by we you not or',
+    french: 'le la les des est et une du dans pour que qui pas sur au avec sont nous vous ce',
+    german: 'der die das und ist nicht mit den von zu ein eine auf für sich wir auch dem werden oder',
+    spanish:
+        'el la los las y es que en del una por con para se no su como al más pero',
+    italian:
+        'il di che è e la per una sono del non con gli della anche come alla nel questo ma',
+    portuguese:
+        'o os de que e do da em um uma para com não no na por mais dos como são',
+    dutch: 'de het een en van is dat niet op voor met zijn wordt ook aan bij deze worden wij naar',
+};
+
+const STOPWORD_SETS = Object.entries(STOPWORDS).map(
+    ([config, words]) => [config, new Set(words.split(' '))] as const
+);
+
+export function detectTextSearchConfig(text: string): string | null {
+    const sample = text.slice(0, SAMPLE_LENGTH).normalize('NFC');
+
+    const letters = sample.match(/\p{L}/gu)?.length ?? 0;
+    if (letters === 0) {
+        return null;
+    }
+
+    const kana =
+        sample.match(/[\p{Script=Hiragana}\p{Script=Katakana}]/gu)?.length ?? 0;
+    const hangul = sample.match(/\p{Script=Hangul}/gu)?.length ?? 0;
+    const han = sample.match(/\p{Script=Han}/gu)?.length ?? 0;
+
+    if ((kana + hangul + han) / letters >= MIN_CJK_RATIO) {
+        if (kana > 0) {
+            return 'japanese';
+        }
+        return hangul > han ? 'korean' : 'chinese';
+    }
+
+    const cyrillic = sample.match(/\p{Script=Cyrillic}/gu)?.length ?? 0;
+    if (cyrillic / letters >= 0.5) {
+        return 'russian';
+    }
+
+    const words = sample.toLowerCase().match(/\p{L}+/gu) ?? [];
+    if (words.length < MIN_WORDS) {
+        return null;
+    }
+
+    const scores = STOPWORD_SETS.map(([config, stopwords]) => ({
+        config,
+        hits: words.filter((word) => stopwords.has(word)).length,
+    })).sort((a, b) => b.hits - a.hits);
+
+    const [best, runnerUp] = scores;
+    if (!best || best.hits / words.length < MIN_STOPWORD_RATIO) {
+        return null;
+    }
+
+    // closely related languages share stop words; only commit to a clear winner
+    if (runnerUp && best.hits < runnerUp.hits * 1.5) {
+        return null;
+    }
+
+    return best.config;
+}
@@ -0,0 +1,348 @@
+import Groq from 'groq-sdk';
+import type { LlmEnv } from '@search-hub/config-env';
+
+export interface ChatParams {
+    prompt: string;
+    system?: string;
+    model?: string; // provider default when unset
+    temperature?: number;
+    maxTokens?: number;
+    timeoutMs?: number;
+    json?: boolean; // constrain the reply to a single JSON object
+    signal?: AbortSignal;
+}
+
+/**
+ * Chat completion backend. Aborting `signal` (or hitting `timeoutMs`) stops the
+ * upstream request; the streaming variant yields text deltas as they arrive.
+ */
+export interface LlmProvider {
+    readonly name: LlmEnv['LLM_PROVIDER'] | 'scripted'; // metrics label
+    readonly defaultModel: string;
+    chat(params: ChatParams): Promise<string>;
+    streamChat(params: ChatParams): AsyncGenerator<string>;
+}
+
+const DEFAULT_SYSTEM_MESSAGE = 'Answer concisely.';
+const DEFAULT_TEMPERATURE = 0.2;
+const DEFAULT_MAX_TOKENS = 600;
+const CHAT_TIMEOUT_MS = 15000;
+const STREAM_TIMEOUT_MS = 60000;
+
+function withTimeout(timeoutMs: number, signal?: AbortSignal) {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+    return {
+        signal: signal
+            ? AbortSignal.any([signal, controller.signal])
+            : controller.signal,
+        clear: () => clearTimeout(timer),
+    };
+}
+
+function messagesOf(params: ChatParams) {
+    return [
+        {
+            role: 'system' as const,
+            content: params.system ?? DEFAULT_SYSTEM_MESSAGE,
+        },
+        { role: 'user' as const, content: params.prompt },
+    ];
+}
+
+export function createGroqLlmProvider({
+    apiKey,
+    model: defaultModel = 'llama-3.3-70b-versatile',
+}: {
+    apiKey: string;
+    model?: string;
+}): LlmProvider {
+    const client = new Groq({ apiKey });
+
+    const request = (params: ChatParams) => ({
+        model: params.model ?? defaultModel,
+        messages: messagesOf(params),
+        temperature: params.temperature ?? DEFAULT_TEMPERATURE,
+        max_tokens: params.maxTokens ?? DEFAULT_MAX_TOKENS,
+        ...(params.json && {
+            response_format: { type: 'json_object' as const },
+        }),
+    });
+
+    return {
+        name: 'groq',
+        defaultModel,
+        async chat(params) {
+            const timeout = withTimeout(
+                params.timeoutMs ?? CHAT_TIMEOUT_MS,
+                params.signal
+            );
+            try {
+                const res = await client.chat.completions.create(
+                    request(params),
+                    { signal: timeout.signal }
+                );
+                return res.choices[0]?.message?.content ?? '';
+            } finally {
+                timeout.clear();
+            }
+        },
+        async *streamChat(params) {
+            const timeout = withTimeout(
+                params.timeoutMs ?? STREAM_TIMEOUT_MS,
+                params.signal
+            );
+            try {
+                const stream = await client.chat.completions.create(
+                    { ...request(params), stream: true },
+                    { signal: timeout.signal }
+                );
+                for await (const chunk of stream) {
+                    const delta = chunk.choices[0]?.delta?.content;
+                    if (delta) yield delta;
+                }
+            } finally {
+                timeout.clear();
+            }
+        },
+    };
+}
+
+interface OpenAiChatResponse {
+    choices?: { message?: { content?: string | null } }[];
+}
+
+interface OpenAiChatChunk {
+    choices?: { delta?: { content?: string | null } }[];
+}
+
+/**
+ * Any server implementing POST /chat/completions from the OpenAI API
+ * (OpenAI, llama.cpp server, Ollama, vLLM, LM Studio, ...)
+ */
+export function createOpenAiLlmProvider({
+    baseUrl = 'https://api.openai.com/v1',
+    apiKey,
+    model: defaultModel = 'gpt-4o-mini',
+}: {
+    baseUrl?: string;
+    apiKey?: string;
+    model?: string;
+}): LlmProvider {
+    const url = `${baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+    async function post(
+        params: ChatParams,
+        stream: boolean,
+        signal: AbortSignal
+    ) {
+        const resp = await fetch(url, {
+            method: 'POST',
+            headers: {
+                ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+                'Content-Type': 'application/json',
+            },
+            body: JSON.stringify({
+                model: params.model ?? defaultModel,
+                messages: messagesOf(params),
+                temperature: params.temperature ?? DEFAULT_TEMPERATURE,
+                max_tokens: params.maxTokens ?? DEFAULT_MAX_TOKENS,
+                ...(params.json && {
+                    response_format: { type: 'json_object' },
+                }),
+                stream,
+            }),
+            signal,
+        });
+
+        if (!resp.ok) {
+            const errText = await resp.text().catch(() => '');
+            throw new Error(
+                `OpenAI-compatible chat failed: ${resp.status} ${errText}`
+            );
+        }
+        return resp;
+    }
+
+    return {
+        name: 'openai',
+        defaultModel,
+        async chat(params) {
+            const timeout = withTimeout(
+                params.timeoutMs ?? CHAT_TIMEOUT_MS,
+                params.signal
+            );
+            try {
+                const resp = await post(params, false, timeout.signal);
+                const json = (await resp.json()) as OpenAiChatResponse;
+                return json.choices?.[0]?.message?.content ?? '';
+            } finally {
+                timeout.clear();
+            }
+        },
+        async *streamChat(params) {
+            const timeout = withTimeout(
+                params.timeoutMs ?? STREAM_TIMEOUT_MS,
+                params.signal
+            );
+            try {
+                const resp = await post(params, true, timeout.signal);
+                if (!resp.body) {
+                    return;
+                }
+
+                // server-sent events: `data: {...}` lines, ended by `data: [DONE]`
+                const reader = resp.body.getReader();
+                const decoder = new TextDecoder();
+                let buffer = '';
+                let finished = false;
+
+                while (!finished) {
+                    const { done, value } = await reader.read();
+                    finished = done;
+                    buffer += decoder.decode(value, { stream: !done });
+                    const lines = buffer.split('\n');
+                    buffer = lines.pop() ?? '';
+
+                    for (const line of lines) {
+                        if (!line.startsWith('data:')) {
+                            continue;
+                        }
+                        const data = line.slice('data:'.length).trim();
+                        if (data === '[DONE]') {
+                            await reader.cancel();
+                            return;
+                        }
+                        if (data) {
+                            const chunk = JSON.parse(data) as OpenAiChatChunk;
+                            const delta = chunk.choices?.[0]?.delta?.content;
+                            if (delta) yield delta;
+                        }
+                    }
+                }
+            } finally {
+                timeout.clear();
+            }
+        },
+    };
+}
+
+/**
+ * A scripted reply: text, text pre-split into stream deltas, an error to throw,
+ * or a function of the request returning one of those
+ */
+export type ScriptedReply =
+    | string
+    | string[]
+    | Error
+    | ((params: ChatParams) => string | string[] | Error);
+
+export interface ScriptedLlmProvider extends LlmProvider {
+    readonly calls: ChatParams[]; // every request, in order
+    enqueue(...replies: ScriptedReply[]): void;
+}
+
+/**
+ * Offline stand-in for tests and local development: replies are consumed in
+ * order, then `fallback` is returned for every further request. Streams check
+ * `signal` between deltas, so cancellation behaves like a real backend.
+ */
+export function createScriptedLlmProvider({
+    replies = [],
+    fallback = '',
+}: {
+    replies?: ScriptedReply[];
+    fallback?: ScriptedReply;
+} = {}): ScriptedLlmProvider {
+    const queue = [...replies];
+    const calls: ChatParams[] = [];
+
+    const next = (params: ChatParams): string[] => {
+        calls.push(params);
+        params.signal?.throwIfAborted();
+
+        const scripted = queue.shift() ?? fallback;
+        const reply =
+            typeof scripted === 'function' ? scripted(params) : scripted;
+        if (reply instanceof Error) {
+            throw reply;
+        }
+        return typeof reply === 'string' ? [reply] : reply;
+    };
+
+    return {
+        name: 'scripted',
+        defaultModel: 'scripted',
+        calls,
+        enqueue(...more) {
+            queue.push(...more);
+        },
+        // the executor turns a thrown reply into a rejection
+        chat: (params) =>
+            new Promise((resolve) => resolve(next(params).join(''))),
+        async *streamChat(params) {
+            for (const delta of next(params)) {
+                params.signal?.throwIfAborted();
+                yield await Promise.resolve(delta);
+            }
+        },
+    };
+}
+
+/**
+ * Build the provider selected by LLM_PROVIDER
+ */
+export function createLlmProvider(env: LlmEnv): LlmProvider {
+    switch (env.LLM_PROVIDER) {
+        case 'groq': {
+            const apiKey = env.LLM_API_KEY ?? env.GROQ_API_KEY;
+            if (!apiKey) {
+                throw new Error(
+                    'GROQ_API_KEY is required when LLM_PROVIDER=groq'
+                );
+            }
+            return createGroqLlmProvider({ apiKey, model: env.LLM_MODEL });
+        }
+        case 'openai':
+            return createOpenAiLlmProvider({
+                baseUrl: env.LLM_BASE_URL,
+                apiKey: env.LLM_API_KEY,
+                model: env.LLM_MODEL,
+            });
+    }
+}
+
+/**
+ * The JSON value in a model reply. Tolerates the Markdown fences and prose
+ * some models wrap JSON in even in JSON mode; undefined when there is none.
+ */
+export function parseJsonReply(reply: string): unknown {
+    const text = reply
+        .trim()
+        .replace(/^```(?:json)?\s*/i, '')
+        .replace(/\s*```$/, '');
+    const start = text.indexOf('{');
+    const end = text.lastIndexOf('}');
+    if (start === -1 || end < start) {
+        return undefined;
+    }
+    try {
+        return JSON.parse(text.slice(start, end + 1)) as unknown;
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Chat in JSON mode and validate the reply. `value` is null when the reply
+ * isn't JSON or `validate` rejects it; `raw` is the reply either way.
+ */
+export async function chatJson<T>(
+    llm: LlmProvider,
+    params: Omit<ChatParams, 'json'>,
+    validate: (value: unknown) => T | null
+): Promise<{ value: T | null; raw: string }> {
+    const raw = await llm.chat({ ...params, json: true });
+    const parsed = parseJsonReply(raw);
+    return { value: parsed === undefined ? null : validate(parsed), raw };
+}
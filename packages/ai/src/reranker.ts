@@ -0,0 +1,160 @@
+import { voyageRerank } from './voyageRerank.js';
+
+export interface RerankResult {
+    index: number; // position in the input documents
+    score: number; // higher = more relevant, 0..1
+}
+
+export interface RerankOptions {
+    // first-stage scores (e.g. vector similarity) aligned with the documents
+    priorScores?: number[];
+}
+
+/**
+ * Reorders first-stage candidates by relevance to the query.
+ * Results are sorted best first and cover every input document.
+ */
+export interface Reranker {
+    readonly name: 'voyage' | 'bm25' | 'none'; // metrics label
+    // true when scores are comparable across queries, so absolute relevance thresholds apply
+    readonly calibrated: boolean;
+    rerank(
+        query: string,
+        documents: string[],
+        opts?: RerankOptions
+    ): Promise<RerankResult[]>;
+}
+
+// best first; ties keep the first-stage order
+const byScore = (a: RerankResult, b: RerankResult) =>
+    b.score - a.score || a.index - b.index;
+
+export function createVoyageReranker({ apiKey }: { apiKey: string }): Reranker {
+    return {
+        name: 'voyage',
+        calibrated: true,
+        async rerank(query, documents) {
+            const results = await voyageRerank(apiKey, query, documents);
+            return results.sort(byScore);
+        },
+    };
+}
+
+/**
+ * Keeps the first-stage order; scores are the prior scores, or a linear decay
+ * by position when none are given. Never fails, so it doubles as the fallback
+ * when a remote reranker is down.
+ */
+export function createPassThroughReranker(): Reranker {
+    return {
+        name: 'none',
+        calibrated: false,
+        rerank(_query, documents, opts = {}) {
+            const results = documents.map((_document, index) => ({
+                index,
+                score:
+                    opts.priorScores?.[index] ??
+                    1 - index / Math.max(documents.length, 1),
+            }));
+            return Promise.resolve(results.sort(byScore));
+        },
+    };
+}
+
+const TOKEN_PATTERN = /[\p{L}\p{N}]+/gu;
+
+function tokenize(text: string): string[] {
+    return text.toLowerCase().match(TOKEN_PATTERN) ?? [];
+}
+
+/**
+ * Local lexical reranker: Okapi BM25 over the candidate set itself, blended with
+ * the first-stage score so purely semantic matches don't sink to the bottom.
+ */
+export function createBm25Reranker({
+    k1 = 1.2,
+    b = 0.75,
+    priorWeight = 0.5, // share of the final score taken from priorScores
+}: {
+    k1?: number;
+    b?: number;
+    priorWeight?: number;
+} = {}): Reranker {
+    return {
+        name: 'bm25',
+        calibrated: false,
+        rerank(query, documents, opts = {}) {
+            const queryTerms = [...new Set(tokenize(query))];
+            const docs = documents.map(tokenize);
+            const avgLength =
+                docs.reduce((sum, doc) => sum + doc.length, 0) /
+                Math.max(docs.length, 1);
+
+            const documentFrequency = new Map<string, number>();
+            for (const doc of docs) {
+                for (const term of new Set(doc)) {
+                    documentFrequency.set(
+                        term,
+                        (documentFrequency.get(term) ?? 0) + 1
+                    );
+                }
+            }
+
+            const bm25 = docs.map((doc) => {
+                const termFrequency = new Map<string, number>();
+                for (const term of doc) {
+                    termFrequency.set(term, (termFrequency.get(term) ?? 0) + 1);
+                }
+
+                return queryTerms.reduce((score, term) => {
+                    const tf = termFrequency.get(term) ?? 0;
+                    if (tf === 0) return score;
+                    const df = documentFrequency.get(term) ?? 0;
+                    const idf = Math.log(
+                        1 + (docs.length - df + 0.5) / (df + 0.5)
+                    );
+                    const norm =
+                        tf + k1 * (1 - b + (b * doc.length) / (avgLength || 1));
+                    return score + (idf * tf * (k1 + 1)) / norm;
+                }, 0);
+            });
+
+            const maxBm25 = Math.max(...bm25, 0);
+            const results = bm25.map((score, index) => {
+                const lexical = maxBm25 > 0 ? score / maxBm25 : 0;
+                const prior = opts.priorScores?.[index];
+                return {
+                    index,
+                    score:
+                        prior === undefined
+                            ? lexical
+                            : (1 - priorWeight) * lexical + priorWeight * prior,
+                };
+            });
+
+            return Promise.resolve(results.sort(byScore));
+        },
+    };
+}
+
+/**
+ * Build the reranker selected by RERANK_PROVIDER
+ */
+export function createReranker(env: {
+    RERANK_PROVIDER: Reranker['name'];
+    VOYAGE_API_KEY?: string;
+}): Reranker {
+    switch (env.RERANK_PROVIDER) {
+        case 'voyage':
+            if (!env.VOYAGE_API_KEY) {
+                throw new Error(
+                    'VOYAGE_API_KEY is required when RERANK_PROVIDER=voyage'
+                );
+            }
+            return createVoyageReranker({ apiKey: env.VOYAGE_API_KEY });
+        case 'bm25':
+            return createBm25Reranker();
+        case 'none':
+            return createPassThroughReranker();
+    }
+}
@@ -2,7 +2,7 @@ export interface VoyageEmbeddingInput {
     model: string;
     input: string[]; // batch inputs
     input_type?: 'document' | 'query';
-    output_dimension: 1024;
+    output_dimension?: number; // 256, 512, 1024 or 2048
     output_dtype?: 'float' | 'int8' | 'uint8' | 'binary' | 'ubinary'; // optional
 }
 
@@ -12,6 +12,7 @@ export async function voyageEmbed(
     {
         model = 'voyage-3.5',
         input_type = 'document',
+        output_dimension = 1024,
     }: Partial<Omit<VoyageEmbeddingInput, 'input'>> = {}
 ): Promise<number[][]> {
     const resp = await fetch('https://api.voyageai.com/v1/embeddings', {
@@ -24,7 +25,7 @@ export async function voyageEmbed(
             model,
             input: texts,
             input_type,
-            output_dimension: 1024,
+            output_dimension,
             // output_dtype: "float" // default, can switch to int8/binary later
         }),
     });
@@ -47,9 +48,9 @@ export async function voyageEmbed(
 
     // Sanity check: ensure all vectors match the expected dimension
     for (const v of vecs) {
-        if (!Array.isArray(v) || v.length !== 1024) {
+        if (!Array.isArray(v) || v.length !== output_dimension) {
             throw new Error(
-                `Voyage embedding dimension mismatch. Expected ${1024}, got ${
+                `Voyage embedding dimension mismatch. Expected ${output_dimension}, got ${
                     Array.isArray(v) ? v.length : 'unknown'
                 }`
             );
@@ -38,11 +38,23 @@ const ServerEnvSchema = z.object({
     API_RATE_LIMIT_MAX: z.coerce.number(),
     AI_RATE_LIMIT_WINDOW_MS: z.coerce.number().default(60000),
     AI_RATE_LIMIT_MAX: z.coerce.number().default(25),
+    SUGGEST_RATE_LIMIT_WINDOW_MS: z.coerce.number().default(10000),
+    SUGGEST_RATE_LIMIT_MAX: z.coerce.number().default(50),
     API_BREAKER_FAILURE_THRESHOLD: z.coerce.number(),
     API_BREAKER_RESET_TIMEOUT_MS: z.coerce.number(),
     API_BREAKER_HALF_OPEN_TIMEOUT_MS: z.coerce.number(),
     SEMANTIC_RERANK_THRESHOLD: z.coerce.number().min(0).max(1).default(0.35),
     SEMANTIC_TOP_SCORE_CUTOFF: z.coerce.number().min(0).max(1).default(0.55),
+    // Redis cache for query embeddings and rerank results; 0 disables it
+    SEARCH_CACHE_TTL_SECONDS: z.coerce.number().int().min(0).default(86400),
+    // HNSW candidate list size per query; higher = better recall, slower queries
+    VECTOR_EF_SEARCH: z.coerce.number().int().min(1).max(1000).default(100),
+    // chunk count above which a tenant should get its own HNSW index
+    VECTOR_INDEX_TENANT_THRESHOLD: z.coerce
+        .number()
+        .int()
+        .min(0)
+        .default(20000),
     WORKER_CONCURRENCY: z.coerce.number().min(1).default(5),
     SESSION_SECRET: z.string().min(32),
     GOOGLE_CLIENT_ID: z.string(),
@@ -50,9 +62,40 @@ const ServerEnvSchema = z.object({
 
 export type ServerEnv = z.infer<typeof ServerEnvSchema>;
 
+// Embedding provider selection, shared by the api (query embeddings) and the worker (indexing)
+const EmbeddingEnvShape = {
+    EMBEDDING_PROVIDER: z.enum(['voyage', 'openai', 'local']).default('voyage'),
+    EMBEDDING_MODEL: z.string().optional(), // provider default when unset
+    // must match the DocumentChunk.embedding column
+    EMBEDDING_DIMENSIONS: z.coerce.number().int().min(1).default(1024),
+    EMBEDDING_BASE_URL: z.url().optional(), // OpenAI-compatible endpoint, e.g. http://localhost:11434/v1
+    EMBEDDING_API_KEY: z.string().optional(),
+    // required for EMBEDDING_PROVIDER=voyage and Voyage reranking
+    VOYAGE_API_KEY: z.string().optional(),
+};
+
+export type EmbeddingEnv = z.infer<z.ZodObject<typeof EmbeddingEnvShape>>;
+
+// Chat model backend for Q&A and other generated text
+const LlmEnvShape = {
+    LLM_PROVIDER: z.enum(['groq', 'openai']).default('groq'),
+    LLM_MODEL: z.string().optional(), // provider default when unset; tenants may override
+    LLM_BASE_URL: z.url().optional(), // OpenAI-compatible endpoint, e.g. http://localhost:8080/v1
+    LLM_API_KEY: z.string().optional(),
+    // required for LLM_PROVIDER=groq unless LLM_API_KEY is set
+    GROQ_API_KEY: z.string().optional(),
+    // estimated tokens a tenant may spend on document summaries per UTC day,
+    // unless Tenant.summaryDailyTokenBudget overrides it; 0 disables them
+    SUMMARY_DAILY_TOKEN_BUDGET: z.coerce.number().int().min(0).default(50000),
+};
+
+export type LlmEnv = z.infer<z.ZodObject<typeof LlmEnvShape>>;
+
 const AiEnvSchema = z.object({
-    VOYAGE_API_KEY: z.string(),
-    GROQ_API_KEY: z.string(),
+    ...EmbeddingEnvShape,
+    ...LlmEnvShape,
+    // semantic search reranking; 'none' keeps vector order
+    RERANK_PROVIDER: z.enum(['voyage', 'bm25', 'none']).default('voyage'),
 });
 
 export type AiEnv = z.infer<typeof AiEnvSchema>;
@@ -71,7 +114,8 @@ const WorkerEnvSchema = z.object({
     WORKER_CONCURRENCY: z.coerce.number().min(1),
     WORKER_MAX_CHUNK_LIMIT: z.coerce.number().min(1),
 
-    VOYAGE_API_KEY: z.string(),
+    ...EmbeddingEnvShape,
+    ...LlmEnvShape,
 
     DATABASE_URL: z.url(),
 
@@ -79,11 +79,26 @@ export type DocumentFavorite = Prisma.DocumentFavoriteModel
  * 
  */
 export type DocumentCommand = Prisma.DocumentCommandModel
+/**
+ * Model DocumentTerm
+ * 
+ */
+export type DocumentTerm = Prisma.DocumentTermModel
 /**
  * Model DocumentChunk
  * 
  */
 export type DocumentChunk = Prisma.DocumentChunkModel
+/**
+ * Model DocumentChunkEmbedding
+ * 
+ */
+export type DocumentChunkEmbedding = Prisma.DocumentChunkEmbeddingModel
+/**
+ * Model EmbeddingMigration
+ * 
+ */
+export type EmbeddingMigration = Prisma.EmbeddingMigrationModel
 /**
  * Model DocumentIndexState
  * 
@@ -99,3 +114,38 @@ export type IndexJob = Prisma.IndexJobModel
  * 
  */
 export type SearchLog = Prisma.SearchLogModel
+/**
+ * Model SavedSearch
+ * 
+ */
+export type SavedSearch = Prisma.SavedSearchModel
+/**
+ * Model SavedSearchMatch
+ * 
+ */
+export type SavedSearchMatch = Prisma.SavedSearchMatchModel
+/**
+ * Model DocumentDuplicate
+ * 
+ */
+export type DocumentDuplicate = Prisma.DocumentDuplicateModel
+/**
+ * Model QaThread
+ * 
+ */
+export type QaThread = Prisma.QaThreadModel
+/**
+ * Model QaMessage
+ * 
+ */
+export type QaMessage = Prisma.QaMessageModel
+/**
+ * Model TenantTokenUsage
+ * 
+ */
+export type TenantTokenUsage = Prisma.TenantTokenUsageModel
+/**
+ * Model WorkspaceDigest
+ * 
+ */
+export type WorkspaceDigest = Prisma.WorkspaceDigestModel
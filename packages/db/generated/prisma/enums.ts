@@ -34,3 +34,30 @@ export const DocumentSource = {
 } as const
 
 export type DocumentSource = (typeof DocumentSource)[keyof typeof DocumentSource]
+
+
+export const EmbeddingMigrationStatus = {
+  queued: 'queued',
+  running: 'running',
+  completed: 'completed',
+  failed: 'failed'
+} as const
+
+export type EmbeddingMigrationStatus = (typeof EmbeddingMigrationStatus)[keyof typeof EmbeddingMigrationStatus]
+
+
+export const DuplicateStatus = {
+  open: 'open',
+  dismissed: 'dismissed',
+  resolved: 'resolved'
+} as const
+
+export type DuplicateStatus = (typeof DuplicateStatus)[keyof typeof DuplicateStatus]
+
+
+export const QaMessageRole = {
+  user: 'user',
+  assistant: 'assistant'
+} as const
+
+export type QaMessageRole = (typeof QaMessageRole)[keyof typeof QaMessageRole]
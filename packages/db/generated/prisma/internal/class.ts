@@ -20,7 +20,7 @@ const config: runtime.GetPrismaClientConfig = {
   "clientVersion": "7.1.0",
   "engineVersion": "ab635e6b9d606fa5c8fb8b1a7f909c3c3c1c98ba",
   "activeProvider": "postgresql",
-  "inlineSchema": "generator client {\n  provider = \"prisma-client\"\n  output   = \"../generated/prisma\"\n}\n\ndatasource db {\n  provider = \"postgresql\"\n}\n\n// ---- enums ----\nenum JobStatus {\n  queued\n  processing\n  indexed\n  failed\n}\n\n// ---- models ----\nmodel Tenant {\n  id          String             @id @default(cuid())\n  name        String\n  memberships TenantMembership[]\n  documents   Document[]\n  jobs        IndexJob[]\n  tags        Tag[]\n  searchLogs  SearchLog[]\n  createdAt   DateTime           @default(now())\n  updatedAt   DateTime           @updatedAt\n\n  @@index([name])\n}\n\nmodel User {\n  id             String   @id @default(cuid())\n  email          String   @unique\n  name           String?\n  passwordHash   String?\n  oauthProvider  String?\n  oauthAccountId String?\n  createdAt      DateTime @default(now())\n  updatedAt      DateTime @updatedAt\n\n  memberships       TenantMembership[]\n  createdDocuments  Document[]         @relation(\"DocumentCreatedBy\")\n  updatedDocuments  Document[]         @relation(\"DocumentUpdatedBy\")\n  favoriteDocuments DocumentFavorite[]\n  documentCommands  DocumentCommand[]\n  createdTags       Tag[]\n  addedDocumentTags DocumentTag[]\n  searchLogs        SearchLog[]\n\n  @@unique([oauthProvider, oauthAccountId])\n}\n\nmodel TenantMembership {\n  id        String     @id @default(cuid())\n  tenantId  String\n  userId    String\n  role      TenantRole @default(member)\n  createdAt DateTime   @default(now())\n  updatedAt DateTime   @updatedAt\n\n  tenant Tenant @relation(fields: [tenantId], references: [id], onDelete: Cascade)\n  user   User   @relation(fields: [userId], references: [id], onDelete: Cascade)\n\n  @@unique([tenantId, userId])\n  @@index([userId])\n  @@index([tenantId])\n}\n\nenum TenantRole {\n  owner\n  admin\n  member\n}\n\nenum DocumentSource {\n  editor\n  url\n}\n\nmodel Document {\n  id        String         @id @default(cuid())\n  tenantId  String // viewbility \n  title     String\n  source    DocumentSource @default(editor)\n  sourceUrl String?\n\n  content      String?\n  summary      String?\n  metadata     Json?                   @default(\"{}\")\n  searchVector Unsupported(\"tsvector\") @default(dbgenerated(\"''::tsvector\"))\n\n  createdById String\n  updatedById String\n\n  createdAt DateTime @default(now())\n  updatedAt DateTime @updatedAt\n\n  tenant    Tenant @relation(fields: [tenantId], references: [id], onDelete: Cascade)\n  createdBy User   @relation(\"DocumentCreatedBy\", fields: [createdById], references: [id], onDelete: Cascade)\n  updatedBy User   @relation(\"DocumentUpdatedBy\", fields: [updatedById], references: [id], onDelete: Cascade)\n\n  favorites  DocumentFavorite[]\n  commands   DocumentCommand[]\n  jobs       IndexJob[]\n  chunks     DocumentChunk[]\n  indexState DocumentIndexState?\n  tags       DocumentTag[]\n\n  @@unique([tenantId, id])\n  @@index([tenantId])\n  @@index([title])\n  @@index([tenantId, createdAt]) // supports WHERE tenantId ORDER BY createdAt\n  @@index([searchVector], type: Gin, map: \"Document_searchVector_idx\")\n}\n\n// Tags\nmodel Tag {\n  id          String  @id @default(cuid())\n  tenantId    String // workspace-scoped\n  name        String // 'leetcode' / 'development'\n  color       String? // hex color\n  description String?\n\n  createdAt   DateTime @default(now())\n  updatedAt   DateTime @updatedAt\n  createdById String\n\n  tenant    Tenant @relation(fields: [tenantId], references: [id], onDelete: Cascade)\n  createdBy User   @relation(fields: [createdById], references: [id], onDelete: Cascade)\n\n  documentTags DocumentTag[]\n\n  @@unique([tenantId, name]) // Tag names must be unique per workspace\n  @@index([tenantId])\n  @@index([name])\n}\n\n// Many-to-many relationship between Document and Tag\nmodel DocumentTag {\n  id         String @id @default(cuid())\n  documentId String\n  tagId      String\n\n  addedById String // who added this tag\n  createdAt DateTime @default(now())\n\n  document Document @relation(fields: [documentId], references: [id], onDelete: Cascade)\n  tag      Tag      @relation(fields: [tagId], references: [id], onDelete: Cascade)\n  addedBy  User     @relation(fields: [addedById], references: [id], onDelete: Cascade)\n\n  @@unique([documentId, tagId]) // A document can't have the same tag twice\n  @@index([documentId])\n  @@index([tagId])\n  @@index([addedById])\n}\n\n// Favorites\nmodel DocumentFavorite {\n  id         String   @id @default(cuid())\n  documentId String\n  userId     String\n  createdAt  DateTime @default(now())\n\n  document Document @relation(fields: [documentId], references: [id], onDelete: Cascade)\n  user     User     @relation(fields: [userId], references: [id], onDelete: Cascade)\n\n  @@unique([documentId, userId])\n  @@index([userId])\n}\n\n// command\nmodel DocumentCommand {\n  id         String   @id @default(cuid())\n  documentId String\n  userId     String\n  body       Json\n  createdAt  DateTime @default(now())\n\n  document Document @relation(fields: [documentId], references: [id], onDelete: Cascade)\n  user     User     @relation(fields: [userId], references: [id], onDelete: Cascade)\n\n  @@index([documentId])\n  @@index([userId])\n}\n\nmodel DocumentChunk {\n  id         String @id @default(cuid())\n  tenantId   String\n  documentId String\n  idx        Int // chunk order within a document (0..N-1)\n\n  // Content fields\n  content     String // cleaned search text for embeddings/lexical search\n  rawMarkdown String? // original markdown for citations/display\n\n  // Metadata for context\n  headingPath Json? // heading hierarchy (e.g., [\"Introduction\", \"Getting Started\"])\n  startPos    Int? // character position in original document\n  endPos      Int? // character position in original document\n\n  // 1024 for voyage\n  embedding Unsupported(\"vector\") // vector(1024)\n  createdAt DateTime              @default(now())\n\n  document Document @relation(fields: [tenantId, documentId], references: [tenantId, id], onDelete: Cascade)\n  // NOTE: pgvector index managed manually in prisma/manual-migrations/01_pgvector_indexes.sql\n  // Prisma doesn't support USING ivfflat syntax, so we maintain this externally\n\n  @@unique([documentId, idx])\n  @@index([tenantId])\n  @@index([documentId, idx])\n}\n\n// idempotency checkpoint\nmodel DocumentIndexState {\n  documentId    String   @id\n  lastChecksum  String\n  lastIndexedAt DateTime\n\n  document Document @relation(fields: [documentId], references: [id], onDelete: Cascade)\n}\n\nmodel IndexJob {\n  id         String @id @default(cuid())\n  tenantId   String\n  documentId String\n\n  status      JobStatus @default(queued)\n  error       String? // capture failure reasons\n  startedAt   DateTime? // when processing began (for accurate duration)\n  completedAt DateTime? // when processing finished (indexed or failed)\n\n  createdAt DateTime @default(now())\n  updatedAt DateTime @updatedAt\n\n  tenant   Tenant   @relation(fields: [tenantId], references: [id], onDelete: Cascade)\n  document Document @relation(fields: [documentId], references: [id], onDelete: Cascade)\n\n  @@index([tenantId])\n  @@index([documentId])\n  @@index([status])\n  @@index([tenantId, documentId, status])\n  @@index([createdAt(sort: Desc)]) // optimize recent job queries\n}\n\n// Search analytics and recent searches\nmodel SearchLog {\n  id          String @id @default(cuid())\n  tenantId    String\n  userId      String\n  query       String // the search query text\n  searchType  String // 'lexical', 'semantic', 'hybrid'\n  resultCount Int // number of results returned\n  duration    Int // milliseconds\n  status      String // 'success', 'error', 'partial'\n\n  createdAt DateTime @default(now())\n\n  tenant Tenant @relation(fields: [tenantId], references: [id], onDelete: Cascade)\n  user   User   @relation(fields: [userId], references: [id], onDelete: Cascade)\n\n  @@index([tenantId, userId, createdAt(sort: Desc)]) // recent searches per user\n  @@index([tenantId, createdAt(sort: Desc)]) // tenant analytics\n  @@index([tenantId, query]) // top queries analysis\n  @@index([createdAt(sort: Desc)]) // time-series queries\n}\n",
+  "inlineSchema": "generator client {\n  provider = \"prisma-client\"\n  output   = \"../generated/prisma\"\n}\n\ndatasource db {\n  provider = \"postgresql\"\n}\n\n// ---- enums ----\nenum JobStatus {\n  queued\n  processing\n  indexed\n  failed\n}\n\n// ---- models ----\nmodel Tenant {\n  id                  String               @id @default(cuid())\n  name                String\n  memberships         TenantMembership[]\n  documents           Document[]\n  jobs                IndexJob[]\n  tags                Tag[]\n  searchLogs          SearchLog[]\n  embeddingMigrations EmbeddingMigration[]\n  savedSearches       SavedSearch[]\n  documentDuplicates  DocumentDuplicate[]\n  qaThreads           QaThread[]\n  tokenUsage          TenantTokenUsage[]\n  digests             WorkspaceDigest[]\n  createdAt           DateTime             @default(now())\n  updatedAt           DateTime             @updatedAt\n\n  // lexical ranking weight overrides { title, headings, lead, body }; null = defaults\n  searchRankWeights       Json?\n  // Postgres text search configuration for lexical search; unknown names fall back to 'simple'\n  textSearchConfig        String    @default(\"english\")\n  // embedding model id (\"provider:model:dimensions\") semantic search compares against;\n  // null = whatever the worker writes to DocumentChunk.embedding\n  embeddingModel          String?\n  // hybrid search fusion defaults { mode, alpha, rrfK }; null = RRF with k = 60\n  hybridFusion            Json?\n  // chat model for Q&A and other generated text; null = the server's LLM_MODEL\n  llmModel                String?\n  // documents indexed after this are checked for near-duplicates on the next sweep\n  duplicateScanAt         DateTime?\n  // estimated tokens per UTC day for document summaries, set by operators;\n  // null = the server's SUMMARY_DAILY_TOKEN_BUDGET, 0 disables summaries\n  summaryDailyTokenBudget Int?\n\n  @@index([name])\n}\n\nmodel User {\n  id             String   @id @default(cuid())\n  email          String   @unique\n  name           String?\n  passwordHash   String?\n  oauthProvider  String?\n  oauthAccountId String?\n  createdAt      DateTime @default(now())\n  updatedAt      DateTime @updatedAt\n\n  memberships       TenantMembership[]\n  createdDocuments  Document[]         @relation(\"DocumentCreatedBy\")\n  updatedDocuments  Document[]         @relation(\"DocumentUpdatedBy\")\n  favoriteDocuments DocumentFavorite[]\n  documentCommands  DocumentCommand[]\n  createdTags       Tag[]\n  addedDocumentTags DocumentTag[]\n  searchLogs        SearchLog[]\n  savedSearches     SavedSearch[]\n  qaThreads         QaThread[]\n\n  @@unique([oauthProvider, oauthAccountId])\n}\n\nmodel TenantMembership {\n  id        String     @id @default(cuid())\n  tenantId  String\n  userId    String\n  role      TenantRole @default(member)\n  createdAt DateTime   @default(now())\n  updatedAt DateTime   @updatedAt\n\n  tenant Tenant @relation(fields: [tenantId], references: [id], onDelete: Cascade)\n  user   User   @relation(fields: [userId], references: [id], onDelete: Cascade)\n\n  @@unique([tenantId, userId])\n  @@index([userId])\n  @@index([tenantId])\n}\n\nenum TenantRole {\n  owner\n  admin\n  member\n}\n\nenum DocumentSource {\n  editor\n  url\n}\n\nmodel Document {\n  id        String         @id @default(cuid())\n  tenantId  String // viewbility \n  title     String\n  source    DocumentSource @default(editor)\n  sourceUrl String?\n\n  content          String?\n  summary          String?\n  // checksum of the content `summary` was generated from; unchanged content isn't re-summarized\n  summaryChecksum  String?\n  summarizedAt     DateTime?\n  metadata         Json?                   @default(\"{}\")\n  searchVector     Unsupported(\"tsvector\") @default(dbgenerated(\"''::tsvector\"))\n  // language detected at index time; null = use the tenant's textSearchConfig\n  textSearchConfig String?\n\n  createdById String\n  updatedById String\n\n  createdAt  DateTime  @default(now())\n  updatedAt  DateTime  @updatedAt\n  // archived documents stay reachable by link but drop out of search and lists\n  archivedAt DateTime?\n\n  tenant    Tenant @relation(fields: [tenantId], references: [id], onDelete: Cascade)\n  createdBy User   @relation(\"DocumentCreatedBy\", fields: [createdById], references: [id], onDelete: Cascade)\n  updatedBy User   @relation(\"DocumentUpdatedBy\", fields: [updatedById], references: [id], onDelete: Cascade)\n\n  favorites  DocumentFavorite[]\n  commands   DocumentCommand[]\n  jobs       IndexJob[]\n  chunks     DocumentChunk[]\n  indexState DocumentIndexState?\n  tags       DocumentTag[]\n  terms      DocumentTerm[]\n\n  savedSearchMatches SavedSearchMatch[]\n  duplicatesAsFirst  DocumentDuplicate[] @relation(\"DuplicateFirst\")\n  duplicatesAsSecond DocumentDuplicate[] @relation(\"DuplicateSecond\")\n\n  @@unique([tenantId, id])\n  @@index([tenantId])\n  @@index([title])\n  @@index([tenantId, createdAt]) // supports WHERE tenantId ORDER BY createdAt\n  @@index([tenantId, textSearchConfig])\n  @@index([searchVector], type: Gin, map: \"Document_searchVector_idx\")\n}\n\n// Tags\nmodel Tag {\n  id          String  @id @default(cuid())\n  tenantId    String // workspace-scoped\n  name        String // 'leetcode' / 'development'\n  color       String? // hex color\n  description String?\n\n  createdAt   DateTime @default(now())\n  updatedAt   DateTime @updatedAt\n  createdById String\n\n  tenant    Tenant @relation(fields: [tenantId], references: [id], onDelete: Cascade)\n  createdBy User   @relation(fields: [createdById], references: [id], onDelete: Cascade)\n\n  documentTags DocumentTag[]\n\n  @@unique([tenantId, name]) // Tag names must be unique per workspace\n  @@index([tenantId])\n  @@index([name])\n}\n\n// Many-to-many relationship between Document and Tag\nmodel DocumentTag {\n  id         String @id @default(cuid())\n  documentId String\n  tagId      String\n\n  addedById String // who added this tag\n  createdAt DateTime @default(now())\n\n  document Document @relation(fields: [documentId], references: [id], onDelete: Cascade)\n  tag      Tag      @relation(fields: [tagId], references: [id], onDelete: Cascade)\n  addedBy  User     @relation(fields: [addedById], references: [id], onDelete: Cascade)\n\n  @@unique([documentId, tagId]) // A document can't have the same tag twice\n  @@index([documentId])\n  @@index([tagId])\n  @@index([addedById])\n}\n\n// Favorites\nmodel DocumentFavorite {\n  id         String   @id @default(cuid())\n  documentId String\n  userId     String\n  createdAt  DateTime @default(now())\n\n  document Document @relation(fields: [documentId], references: [id], onDelete: Cascade)\n  user     User     @relation(fields: [userId], references: [id], onDelete: Cascade)\n\n  @@unique([documentId, userId])\n  @@index([userId])\n}\n\n// command\nmodel DocumentCommand {\n  id         String   @id @default(cuid())\n  documentId String\n  userId     String\n  body       Json\n  createdAt  DateTime @default(now())\n\n  document Document @relation(fields: [documentId], references: [id], onDelete: Cascade)\n  user     User     @relation(fields: [userId], references: [id], onDelete: Cascade)\n\n  @@index([documentId])\n  @@index([userId])\n}\n\n// Distinct words per document: the tenant vocabulary behind \"did you mean\" suggestions\nmodel DocumentTerm {\n  documentId String\n  tenantId   String\n  term       String // lowercased word, 4..32 chars\n\n  document Document @relation(fields: [tenantId, documentId], references: [tenantId, id], onDelete: Cascade)\n  // NOTE: trigram index on term managed in prisma/manual-migrations/05_pg_trgm.sql\n\n  @@id([documentId, term])\n  @@index([tenantId, term])\n}\n\nmodel DocumentChunk {\n  id         String @id @default(cuid())\n  tenantId   String\n  documentId String\n  idx        Int // chunk order within a document (0..N-1)\n\n  // Content fields\n  content     String // cleaned search text for embeddings/lexical search\n  rawMarkdown String? // original markdown for citations/display\n\n  // Metadata for context\n  headingPath Json? // heading hierarchy (e.g., [\"Introduction\", \"Getting Started\"])\n  startPos    Int? // character position in original document\n  endPos      Int? // character position in original document\n\n  // 1024 for voyage\n  // ANN search uses per-tenant partial HNSW indexes (manual-migrations/01)\n  embedding      Unsupported(\"vector\") // vector(1024)\n  // model id that produced `embedding` (\"provider:model:dimensions\")\n  embeddingModel String\n  createdAt      DateTime              @default(now())\n\n  document   Document                 @relation(fields: [tenantId, documentId], references: [tenantId, id], onDelete: Cascade)\n  embeddings DocumentChunkEmbedding[]\n  // NOTE: pgvector index managed manually in prisma/manual-migrations/01_pgvector_indexes.sql\n  // Prisma doesn't support USING ivfflat syntax, so we maintain this externally\n\n  @@unique([documentId, idx])\n  @@index([tenantId])\n  @@index([documentId, idx])\n  @@index([tenantId, embeddingModel])\n}\n\n// Shadow vectors from models other than the primary one, filled by re-embedding\n// migrations so a tenant can switch models without a gap in semantic search\nmodel DocumentChunkEmbedding {\n  chunkId        String\n  tenantId       String\n  embeddingModel String\n  // unconstrained dimension: each model has its own\n  embedding      Unsupported(\"vector\")\n  createdAt      DateTime              @default(now())\n\n  chunk DocumentChunk @relation(fields: [chunkId], references: [id], onDelete: Cascade)\n\n  @@id([chunkId, embeddingModel])\n  @@index([tenantId, embeddingModel])\n}\n\nenum EmbeddingMigrationStatus {\n  queued\n  running\n  completed\n  failed\n}\n\n// Background re-embedding of a tenant's chunks with another model\nmodel EmbeddingMigration {\n  id              String                   @id @default(cuid())\n  tenantId        String\n  targetModel     String // \"provider:model:dimensions\"\n  status          EmbeddingMigrationStatus @default(queued)\n  totalChunks     Int                      @default(0)\n  processedChunks Int                      @default(0)\n  error           String?\n  startedAt       DateTime?\n  completedAt     DateTime?\n  cutoverAt       DateTime? // when search switched to targetModel\n  createdAt       DateTime                 @default(now())\n  updatedAt       DateTime                 @updatedAt\n\n  tenant Tenant @relation(fields: [tenantId], references: [id], onDelete: Cascade)\n\n  @@index([tenantId, createdAt(sort: Desc)])\n  @@index([tenantId, status])\n}\n\n// idempotency checkpoint\nmodel DocumentIndexState {\n  documentId    String   @id\n  lastChecksum  String\n  lastIndexedAt DateTime\n\n  document Document @relation(fields: [documentId], references: [id], onDelete: Cascade)\n\n  @@index([lastChecksum]) // exact duplicate lookup\n}\n\nmodel IndexJob {\n  id         String @id @default(cuid())\n  tenantId   String\n  documentId String\n\n  status      JobStatus @default(queued)\n  error       String? // capture failure reasons\n  startedAt   DateTime? // when processing began (for accurate duration)\n  completedAt DateTime? // when processing finished (indexed or failed)\n\n  createdAt DateTime @default(now())\n  updatedAt DateTime @updatedAt\n\n  tenant   Tenant   @relation(fields: [tenantId], references: [id], onDelete: Cascade)\n  document Document @relation(fields: [documentId], references: [id], onDelete: Cascade)\n\n  @@index([tenantId])\n  @@index([documentId])\n  @@index([status])\n  @@index([tenantId, documentId, status])\n  @@index([createdAt(sort: Desc)]) // optimize recent job queries\n}\n\n// Search analytics and recent searches\nmodel SearchLog {\n  id          String @id @default(cuid())\n  tenantId    String\n  userId      String\n  query       String // the search query text\n  searchType  String // 'lexical', 'semantic', 'hybrid'\n  resultCount Int // number of results returned\n  duration    Int // milliseconds\n  status      String // 'success', 'error', 'partial'\n\n  // hybrid searches only: 'rrf', 'minmax', 'zscore', 'semantic_first'\n  fusionMode   String?\n  fusionParams Json? // { alpha } or { rrfK }\n\n  createdAt DateTime @default(now())\n\n  tenant Tenant @relation(fields: [tenantId], references: [id], onDelete: Cascade)\n  user   User   @relation(fields: [userId], references: [id], onDelete: Cascade)\n\n  @@index([tenantId, userId, createdAt(sort: Desc)]) // recent searches per user\n  @@index([tenantId, createdAt(sort: Desc)]) // tenant analytics\n  @@index([tenantId, query]) // top queries analysis\n  @@index([createdAt(sort: Desc)]) // time-series queries\n}\n\n// A user's query re-run by the worker to pick up newly matching documents\nmodel SavedSearch {\n  id       String @id @default(cuid())\n  tenantId String\n  userId   String // owner; saved searches are private\n  name     String\n  query    String // as typed, including field prefixes\n  filters  Json? // structured request filters { tagIds, authorId, updatedAfter, updatedBefore, favoritesOnly }\n\n  // compiled when the query or filters are saved so the worker needs no query parser:\n  // parsed TextQuery and the merged repository filter options\n  textQuery     Json\n  filterOptions Json?\n\n  lastRunAt DateTime? // null until the first worker run records the baseline matches\n  createdAt DateTime  @default(now())\n  updatedAt DateTime  @updatedAt\n\n  tenant  Tenant             @relation(fields: [tenantId], references: [id], onDelete: Cascade)\n  user    User               @relation(fields: [userId], references: [id], onDelete: Cascade)\n  matches SavedSearchMatch[]\n\n  @@index([tenantId, userId, createdAt(sort: Desc)])\n  @@index([lastRunAt])\n}\n\n// Documents a saved search has matched; seenAt null = a new match not yet viewed\nmodel SavedSearchMatch {\n  savedSearchId String\n  documentId    String\n  matchedAt     DateTime  @default(now())\n  seenAt        DateTime?\n\n  savedSearch SavedSearch @relation(fields: [savedSearchId], references: [id], onDelete: Cascade)\n  document    Document    @relation(fields: [documentId], references: [id], onDelete: Cascade)\n\n  @@id([savedSearchId, documentId])\n  @@index([savedSearchId, seenAt])\n  @@index([documentId])\n}\n\nenum DuplicateStatus {\n  open\n  dismissed // not a duplicate; kept out of the list even if the pair is detected again\n  resolved // merged or archived\n}\n\n// Near-duplicate document pair, stored once with documentId < duplicateId\nmodel DocumentDuplicate {\n  id          String          @id @default(cuid())\n  tenantId    String\n  documentId  String\n  duplicateId String\n  // share of chunks with a near-identical chunk in the other document; 1 for identical content\n  similarity  Float\n  exactMatch  Boolean         @default(false) // same content checksum\n  status      DuplicateStatus @default(open)\n  detectedAt  DateTime        @default(now())\n  updatedAt   DateTime        @updatedAt\n  resolvedAt  DateTime? // dismissed, merged or archived\n\n  tenant    Tenant   @relation(fields: [tenantId], references: [id], onDelete: Cascade)\n  document  Document @relation(\"DuplicateFirst\", fields: [documentId], references: [id], onDelete: Cascade)\n  duplicate Document @relation(\"DuplicateSecond\", fields: [duplicateId], references: [id], onDelete: Cascade)\n\n  @@unique([documentId, duplicateId])\n  @@index([tenantId, status, similarity(sort: Desc)])\n  @@index([duplicateId])\n}\n\nenum QaMessageRole {\n  user\n  assistant\n}\n\n// Conversational Q&A; threads are private to their user within a tenant\nmodel QaThread {\n  id        String   @id @default(cuid())\n  tenantId  String\n  userId    String\n  title     String? // the first question, set when it is asked\n  createdAt DateTime @default(now())\n  updatedAt DateTime @updatedAt // last message\n\n  tenant   Tenant      @relation(fields: [tenantId], references: [id], onDelete: Cascade)\n  user     User        @relation(fields: [userId], references: [id], onDelete: Cascade)\n  messages QaMessage[]\n\n  @@index([tenantId, userId, updatedAt(sort: Desc)])\n}\n\nmodel QaMessage {\n  id             String        @id @default(cuid())\n  threadId       String\n  role           QaMessageRole\n  content        String        @db.Text\n  // assistant messages: the standalone query retrieval ran with, the sources\n  // cited ([{ id, title, snippet, score }]) and whether the context was insufficient\n  retrievalQuery String?\n  citations      Json?\n  noContext      Boolean       @default(false)\n  createdAt      DateTime      @default(now())\n\n  thread QaThread @relation(fields: [threadId], references: [id], onDelete: Cascade)\n\n  @@index([threadId, createdAt])\n}\n\n// LLM tokens spent per tenant, feature and UTC day; daily budgets are checked against it\nmodel TenantTokenUsage {\n  tenantId String\n  feature  String // \"summary\", ...\n  day      DateTime @db.Date\n  tokens   Int      @default(0)\n\n  tenant Tenant @relation(fields: [tenantId], references: [id], onDelete: Cascade)\n\n  @@id([tenantId, feature, day])\n}\n\n// Weekly write-up of a tenant's activity, generated by the worker on Mondays\nmodel WorkspaceDigest {\n  id          String   @id @default(cuid())\n  tenantId    String\n  periodStart DateTime // Monday 00:00 UTC of the week covered\n  periodEnd   DateTime // exclusive\n  summary     String   @db.Text\n  // counts plus the documents, top searches and overdue reminders the summary was written from\n  activity    Json\n  model       String // chat model that wrote the summary\n  createdAt   DateTime @default(now())\n\n  tenant Tenant @relation(fields: [tenantId], references: [id], onDelete: Cascade)\n\n  @@unique([tenantId, periodStart])\n}\n",
   "runtimeDataModel": {
     "models": {},
     "enums": {},
@@ -28,7 +28,7 @@ const config: runtime.GetPrismaClientConfig = {
   }
 }
 
-config.runtimeDataModel = JSON.parse("{\"models\":{\"Tenant\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"memberships\",\"kind\":\"object\",\"type\":\"TenantMembership\",\"relationName\":\"TenantToTenantMembership\"},{\"name\":\"documents\",\"kind\":\"object\",\"type\":\"Document\",\"relationName\":\"DocumentToTenant\"},{\"name\":\"jobs\",\"kind\":\"object\",\"type\":\"IndexJob\",\"relationName\":\"IndexJobToTenant\"},{\"name\":\"tags\",\"kind\":\"object\",\"type\":\"Tag\",\"relationName\":\"TagToTenant\"},{\"name\":\"searchLogs\",\"kind\":\"object\",\"type\":\"SearchLog\",\"relationName\":\"SearchLogToTenant\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"User\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"email\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"passwordHash\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"oauthProvider\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"oauthAccountId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"memberships\",\"kind\":\"object\",\"type\":\"TenantMembership\",\"relationName\":\"TenantMembershipToUser\"},{\"name\":\"createdDocuments\",\"kind\":\"object\",\"type\":\"Document\",\"relationName\":\"DocumentCreatedBy\"},{\"name\":\"updatedDocuments\",\"kind\":\"object\",\"type\":\"Document\",\"relationName\":\"DocumentUpdatedBy\"},{\"name\":\"favoriteDocuments\",\"kind\":\"object\",\"type\":\"DocumentFavorite\",\"relationName\":\"DocumentFavoriteToUser\"},{\"name\":\"documentCommands\",\"kind\":\"object\",\"type\":\"DocumentCommand\",\"relationName\":\"DocumentCommandToUser\"},{\"name\":\"createdTags\",\"kind\":\"object\",\"type\":\"Tag\",\"relationName\":\"TagToUser\"},{\"name\":\"addedDocumentTags\",\"kind\":\"object\",\"type\":\"DocumentTag\",\"relationName\":\"DocumentTagToUser\"},{\"name\":\"searchLogs\",\"kind\":\"object\",\"type\":\"SearchLog\",\"relationName\":\"SearchLogToUser\"}],\"dbName\":null},\"TenantMembership\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"tenantId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"role\",\"kind\":\"enum\",\"type\":\"TenantRole\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"tenant\",\"kind\":\"object\",\"type\":\"Tenant\",\"relationName\":\"TenantToTenantMembership\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"TenantMembershipToUser\"}],\"dbName\":null},\"Document\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"tenantId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"title\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"source\",\"kind\":\"enum\",\"type\":\"DocumentSource\"},{\"name\":\"sourceUrl\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"content\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"summary\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"metadata\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"createdById\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"updatedById\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"tenant\",\"kind\":\"object\",\"type\":\"Tenant\",\"relationName\":\"DocumentToTenant\"},{\"name\":\"createdBy\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"DocumentCreatedBy\"},{\"name\":\"updatedBy\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"DocumentUpdatedBy\"},{\"name\":\"favorites\",\"kind\":\"object\",\"type\":\"DocumentFavorite\",\"relationName\":\"DocumentToDocumentFavorite\"},{\"name\":\"commands\",\"kind\":\"object\",\"type\":\"DocumentCommand\",\"relationName\":\"DocumentToDocumentCommand\"},{\"name\":\"jobs\",\"kind\":\"object\",\"type\":\"IndexJob\",\"relationName\":\"DocumentToIndexJob\"},{\"name\":\"chunks\",\"kind\":\"object\",\"type\":\"DocumentChunk\",\"relationName\":\"DocumentToDocumentChunk\"},{\"name\":\"indexState\",\"kind\":\"object\",\"type\":\"DocumentIndexState\",\"relationName\":\"DocumentToDocumentIndexState\"},{\"name\":\"tags\",\"kind\":\"object\",\"type\":\"DocumentTag\",\"relationName\":\"DocumentToDocumentTag\"}],\"dbName\":null},\"Tag\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"tenantId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"color\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"description\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"createdById\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"tenant\",\"kind\":\"object\",\"type\":\"Tenant\",\"relationName\":\"TagToTenant\"},{\"name\":\"createdBy\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"TagToUser\"},{\"name\":\"documentTags\",\"kind\":\"object\",\"type\":\"DocumentTag\",\"relationName\":\"DocumentTagToTag\"}],\"dbName\":null},\"DocumentTag\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"documentId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"tagId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"addedById\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"document\",\"kind\":\"object\",\"type\":\"Document\",\"relationName\":\"DocumentToDocumentTag\"},{\"name\":\"tag\",\"kind\":\"object\",\"type\":\"Tag\",\"relationName\":\"DocumentTagToTag\"},{\"name\":\"addedBy\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"DocumentTagToUser\"}],\"dbName\":null},\"DocumentFavorite\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"documentId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"document\",\"kind\":\"object\",\"type\":\"Document\",\"relationName\":\"DocumentToDocumentFavorite\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"DocumentFavoriteToUser\"}],\"dbName\":null},\"DocumentCommand\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"documentId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"body\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"document\",\"kind\":\"object\",\"type\":\"Document\",\"relationName\":\"DocumentToDocumentCommand\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"DocumentCommandToUser\"}],\"dbName\":null},\"DocumentChunk\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"tenantId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"documentId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"idx\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"content\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"rawMarkdown\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"headingPath\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"startPos\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"endPos\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"document\",\"kind\":\"object\",\"type\":\"Document\",\"relationName\":\"DocumentToDocumentChunk\"}],\"dbName\":null},\"DocumentIndexState\":{\"fields\":[{\"name\":\"documentId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"lastChecksum\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"lastIndexedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"document\",\"kind\":\"object\",\"type\":\"Document\",\"relationName\":\"DocumentToDocumentIndexState\"}],\"dbName\":null},\"IndexJob\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"tenantId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"documentId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"JobStatus\"},{\"name\":\"error\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"startedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"completedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"tenant\",\"kind\":\"object\",\"type\":\"Tenant\",\"relationName\":\"IndexJobToTenant\"},{\"name\":\"document\",\"kind\":\"object\",\"type\":\"Document\",\"relationName\":\"DocumentToIndexJob\"}],\"dbName\":null},\"SearchLog\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"tenantId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"query\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"searchType\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"resultCount\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"duration\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"status\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"tenant\",\"kind\":\"object\",\"type\":\"Tenant\",\"relationName\":\"SearchLogToTenant\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"SearchLogToUser\"}],\"dbName\":null}},\"enums\":{},\"types\":{}}")
+config.runtimeDataModel = JSON.parse("{\"models\":{\"Tenant\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"memberships\",\"kind\":\"object\",\"type\":\"TenantMembership\",\"relationName\":\"TenantToTenantMembership\"},{\"name\":\"documents\",\"kind\":\"object\",\"type\":\"Document\",\"relationName\":\"DocumentToTenant\"},{\"name\":\"jobs\",\"kind\":\"object\",\"type\":\"IndexJob\",\"relationName\":\"IndexJobToTenant\"},{\"name\":\"tags\",\"kind\":\"object\",\"type\":\"Tag\",\"relationName\":\"TagToTenant\"},{\"name\":\"searchLogs\",\"kind\":\"object\",\"type\":\"SearchLog\",\"relationName\":\"SearchLogToTenant\"},{\"name\":\"embeddingMigrations\",\"kind\":\"object\",\"type\":\"EmbeddingMigration\",\"relationName\":\"EmbeddingMigrationToTenant\"},{\"name\":\"savedSearches\",\"kind\":\"object\",\"type\":\"SavedSearch\",\"relationName\":\"SavedSearchToTenant\"},{\"name\":\"documentDuplicates\",\"kind\":\"object\",\"type\":\"DocumentDuplicate\",\"relationName\":\"DocumentDuplicateToTenant\"},{\"name\":\"qaThreads\",\"kind\":\"object\",\"type\":\"QaThread\",\"relationName\":\"QaThreadToTenant\"},{\"name\":\"tokenUsage\",\"kind\":\"object\",\"type\":\"TenantTokenUsage\",\"relationName\":\"TenantToTenantTokenUsage\"},{\"name\":\"digests\",\"kind\":\"object\",\"type\":\"WorkspaceDigest\",\"relationName\":\"TenantToWorkspaceDigest\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"searchRankWeights\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"textSearchConfig\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"embeddingModel\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"hybridFusion\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"llmModel\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"duplicateScanAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"summaryDailyTokenBudget\",\"kind\":\"scalar\",\"type\":\"Int\"}],\"dbName\":null},\"User\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"email\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"passwordHash\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"oauthProvider\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"oauthAccountId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"memberships\",\"kind\":\"object\",\"type\":\"TenantMembership\",\"relationName\":\"TenantMembershipToUser\"},{\"name\":\"createdDocuments\",\"kind\":\"object\",\"type\":\"Document\",\"relationName\":\"DocumentCreatedBy\"},{\"name\":\"updatedDocuments\",\"kind\":\"object\",\"type\":\"Document\",\"relationName\":\"DocumentUpdatedBy\"},{\"name\":\"favoriteDocuments\",\"kind\":\"object\",\"type\":\"DocumentFavorite\",\"relationName\":\"DocumentFavoriteToUser\"},{\"name\":\"documentCommands\",\"kind\":\"object\",\"type\":\"DocumentCommand\",\"relationName\":\"DocumentCommandToUser\"},{\"name\":\"createdTags\",\"kind\":\"object\",\"type\":\"Tag\",\"relationName\":\"TagToUser\"},{\"name\":\"addedDocumentTags\",\"kind\":\"object\",\"type\":\"DocumentTag\",\"relationName\":\"DocumentTagToUser\"},{\"name\":\"searchLogs\",\"kind\":\"object\",\"type\":\"SearchLog\",\"relationName\":\"SearchLogToUser\"},{\"name\":\"savedSearches\",\"kind\":\"object\",\"type\":\"SavedSearch\",\"relationName\":\"SavedSearchToUser\"},{\"name\":\"qaThreads\",\"kind\":\"object\",\"type\":\"QaThread\",\"relationName\":\"QaThreadToUser\"}],\"dbName\":null},\"TenantMembership\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"tenantId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"role\",\"kind\":\"enum\",\"type\":\"TenantRole\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"tenant\",\"kind\":\"object\",\"type\":\"Tenant\",\"relationName\":\"TenantToTenantMembership\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"TenantMembershipToUser\"}],\"dbName\":null},\"Document\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"tenantId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"title\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"source\",\"kind\":\"enum\",\"type\":\"DocumentSource\"},{\"name\":\"sourceUrl\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"content\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"summary\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"summaryChecksum\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"summarizedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"metadata\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"textSearchConfig\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdById\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"updatedById\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"archivedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"tenant\",\"kind\":\"object\",\"type\":\"Tenant\",\"relationName\":\"DocumentToTenant\"},{\"name\":\"createdBy\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"DocumentCreatedBy\"},{\"name\":\"updatedBy\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"DocumentUpdatedBy\"},{\"name\":\"favorites\",\"kind\":\"object\",\"type\":\"DocumentFavorite\",\"relationName\":\"DocumentToDocumentFavorite\"},{\"name\":\"commands\",\"kind\":\"object\",\"type\":\"DocumentCommand\",\"relationName\":\"DocumentToDocumentCommand\"},{\"name\":\"jobs\",\"kind\":\"object\",\"type\":\"IndexJob\",\"relationName\":\"DocumentToIndexJob\"},{\"name\":\"chunks\",\"kind\":\"object\",\"type\":\"DocumentChunk\",\"relationName\":\"DocumentToDocumentChunk\"},{\"name\":\"indexState\",\"kind\":\"object\",\"type\":\"DocumentIndexState\",\"relationName\":\"DocumentToDocumentIndexState\"},{\"name\":\"tags\",\"kind\":\"object\",\"type\":\"DocumentTag\",\"relationName\":\"DocumentToDocumentTag\"},{\"name\":\"terms\",\"kind\":\"object\",\"type\":\"DocumentTerm\",\"relationName\":\"DocumentToDocumentTerm\"},{\"name\":\"savedSearchMatches\",\"kind\":\"object\",\"type\":\"SavedSearchMatch\",\"relationName\":\"DocumentToSavedSearchMatch\"},{\"name\":\"duplicatesAsFirst\",\"kind\":\"object\",\"type\":\"DocumentDuplicate\",\"relationName\":\"DuplicateFirst\"},{\"name\":\"duplicatesAsSecond\",\"kind\":\"object\",\"type\":\"DocumentDuplicate\",\"relationName\":\"DuplicateSecond\"}],\"dbName\":null},\"Tag\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"tenantId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"color\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"description\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"createdById\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"tenant\",\"kind\":\"object\",\"type\":\"Tenant\",\"relationName\":\"TagToTenant\"},{\"name\":\"createdBy\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"TagToUser\"},{\"name\":\"documentTags\",\"kind\":\"object\",\"type\":\"DocumentTag\",\"relationName\":\"DocumentTagToTag\"}],\"dbName\":null},\"DocumentTag\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"documentId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"tagId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"addedById\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"document\",\"kind\":\"object\",\"type\":\"Document\",\"relationName\":\"DocumentToDocumentTag\"},{\"name\":\"tag\",\"kind\":\"object\",\"type\":\"Tag\",\"relationName\":\"DocumentTagToTag\"},{\"name\":\"addedBy\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"DocumentTagToUser\"}],\"dbName\":null},\"DocumentFavorite\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"documentId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"document\",\"kind\":\"object\",\"type\":\"Document\",\"relationName\":\"DocumentToDocumentFavorite\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"DocumentFavoriteToUser\"}],\"dbName\":null},\"DocumentCommand\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"documentId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"body\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"document\",\"kind\":\"object\",\"type\":\"Document\",\"relationName\":\"DocumentToDocumentCommand\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"DocumentCommandToUser\"}],\"dbName\":null},\"DocumentTerm\":{\"fields\":[{\"name\":\"documentId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"tenantId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"term\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"document\",\"kind\":\"object\",\"type\":\"Document\",\"relationName\":\"DocumentToDocumentTerm\"}],\"dbName\":null},\"DocumentChunk\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"tenantId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"documentId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"idx\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"content\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"rawMarkdown\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"headingPath\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"startPos\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"endPos\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"embeddingModel\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"document\",\"kind\":\"object\",\"type\":\"Document\",\"relationName\":\"DocumentToDocumentChunk\"},{\"name\":\"embeddings\",\"kind\":\"object\",\"type\":\"DocumentChunkEmbedding\",\"relationName\":\"DocumentChunkToDocumentChunkEmbedding\"}],\"dbName\":null},\"DocumentChunkEmbedding\":{\"fields\":[{\"name\":\"chunkId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"tenantId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"embeddingModel\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"chunk\",\"kind\":\"object\",\"type\":\"DocumentChunk\",\"relationName\":\"DocumentChunkToDocumentChunkEmbedding\"}],\"dbName\":null},\"EmbeddingMigration\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"tenantId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"targetModel\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"EmbeddingMigrationStatus\"},{\"name\":\"totalChunks\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"processedChunks\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"error\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"startedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"completedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"cutoverAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"tenant\",\"kind\":\"object\",\"type\":\"Tenant\",\"relationName\":\"EmbeddingMigrationToTenant\"}],\"dbName\":null},\"DocumentIndexState\":{\"fields\":[{\"name\":\"documentId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"lastChecksum\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"lastIndexedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"document\",\"kind\":\"object\",\"type\":\"Document\",\"relationName\":\"DocumentToDocumentIndexState\"}],\"dbName\":null},\"IndexJob\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"tenantId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"documentId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"JobStatus\"},{\"name\":\"error\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"startedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"completedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"tenant\",\"kind\":\"object\",\"type\":\"Tenant\",\"relationName\":\"IndexJobToTenant\"},{\"name\":\"document\",\"kind\":\"object\",\"type\":\"Document\",\"relationName\":\"DocumentToIndexJob\"}],\"dbName\":null},\"SearchLog\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"tenantId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"query\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"searchType\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"resultCount\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"duration\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"status\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"fusionMode\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"fusionParams\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"tenant\",\"kind\":\"object\",\"type\":\"Tenant\",\"relationName\":\"SearchLogToTenant\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"SearchLogToUser\"}],\"dbName\":null},\"SavedSearch\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"tenantId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"query\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"filters\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"textQuery\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"filterOptions\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"lastRunAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"tenant\",\"kind\":\"object\",\"type\":\"Tenant\",\"relationName\":\"SavedSearchToTenant\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"SavedSearchToUser\"},{\"name\":\"matches\",\"kind\":\"object\",\"type\":\"SavedSearchMatch\",\"relationName\":\"SavedSearchToSavedSearchMatch\"}],\"dbName\":null},\"SavedSearchMatch\":{\"fields\":[{\"name\":\"savedSearchId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"documentId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"matchedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"seenAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"savedSearch\",\"kind\":\"object\",\"type\":\"SavedSearch\",\"relationName\":\"SavedSearchToSavedSearchMatch\"},{\"name\":\"document\",\"kind\":\"object\",\"type\":\"Document\",\"relationName\":\"DocumentToSavedSearchMatch\"}],\"dbName\":null},\"DocumentDuplicate\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"tenantId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"documentId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"duplicateId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"similarity\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"exactMatch\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"DuplicateStatus\"},{\"name\":\"detectedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"resolvedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"tenant\",\"kind\":\"object\",\"type\":\"Tenant\",\"relationName\":\"DocumentDuplicateToTenant\"},{\"name\":\"document\",\"kind\":\"object\",\"type\":\"Document\",\"relationName\":\"DuplicateFirst\"},{\"name\":\"duplicate\",\"kind\":\"object\",\"type\":\"Document\",\"relationName\":\"DuplicateSecond\"}],\"dbName\":null},\"QaThread\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"tenantId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"title\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"tenant\",\"kind\":\"object\",\"type\":\"Tenant\",\"relationName\":\"QaThreadToTenant\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"QaThreadToUser\"},{\"name\":\"messages\",\"kind\":\"object\",\"type\":\"QaMessage\",\"relationName\":\"QaMessageToQaThread\"}],\"dbName\":null},\"QaMessage\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"threadId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"role\",\"kind\":\"enum\",\"type\":\"QaMessageRole\"},{\"name\":\"content\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"retrievalQuery\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"citations\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"noContext\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"thread\",\"kind\":\"object\",\"type\":\"QaThread\",\"relationName\":\"QaMessageToQaThread\"}],\"dbName\":null},\"TenantTokenUsage\":{\"fields\":[{\"name\":\"tenantId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"feature\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"day\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"tokens\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"tenant\",\"kind\":\"object\",\"type\":\"Tenant\",\"relationName\":\"TenantToTenantTokenUsage\"}],\"dbName\":null},\"WorkspaceDigest\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"tenantId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"periodStart\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"periodEnd\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"summary\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"activity\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"model\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"tenant\",\"kind\":\"object\",\"type\":\"Tenant\",\"relationName\":\"TenantToWorkspaceDigest\"}],\"dbName\":null}},\"enums\":{},\"types\":{}}")
 
 async function decodeBase64AsWasm(wasmBase64: string): Promise<WebAssembly.Module> {
   const { Buffer } = await import('node:buffer')
@@ -254,6 +254,16 @@ export interface PrismaClient<
     */
   get documentCommand(): Prisma.DocumentCommandDelegate<ExtArgs, { omit: OmitOpts }>;
 
+  /**
+   * `prisma.documentTerm`: Exposes CRUD operations for the **DocumentTerm** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more DocumentTerms
+    * const documentTerms = await prisma.documentTerm.findMany()
+    * ```
+    */
+  get documentTerm(): Prisma.DocumentTermDelegate<ExtArgs, { omit: OmitOpts }>;
+
   /**
    * `prisma.documentChunk`: Exposes CRUD operations for the **DocumentChunk** model.
     * Example usage:
@@ -264,6 +274,26 @@ export interface PrismaClient<
     */
   get documentChunk(): Prisma.DocumentChunkDelegate<ExtArgs, { omit: OmitOpts }>;
 
+  /**
+   * `prisma.documentChunkEmbedding`: Exposes CRUD operations for the **DocumentChunkEmbedding** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more DocumentChunkEmbeddings
+    * const documentChunkEmbeddings = await prisma.documentChunkEmbedding.findMany()
+    * ```
+    */
+  get documentChunkEmbedding(): Prisma.DocumentChunkEmbeddingDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.embeddingMigration`: Exposes CRUD operations for the **EmbeddingMigration** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more EmbeddingMigrations
+    * const embeddingMigrations = await prisma.embeddingMigration.findMany()
+    * ```
+    */
+  get embeddingMigration(): Prisma.EmbeddingMigrationDelegate<ExtArgs, { omit: OmitOpts }>;
+
   /**
    * `prisma.documentIndexState`: Exposes CRUD operations for the **DocumentIndexState** model.
     * Example usage:
@@ -293,6 +323,76 @@ export interface PrismaClient<
     * ```
     */
   get searchLog(): Prisma.SearchLogDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.savedSearch`: Exposes CRUD operations for the **SavedSearch** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more SavedSearches
+    * const savedSearches = await prisma.savedSearch.findMany()
+    * ```
+    */
+  get savedSearch(): Prisma.SavedSearchDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.savedSearchMatch`: Exposes CRUD operations for the **SavedSearchMatch** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more SavedSearchMatches
+    * const savedSearchMatches = await prisma.savedSearchMatch.findMany()
+    * ```
+    */
+  get savedSearchMatch(): Prisma.SavedSearchMatchDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.documentDuplicate`: Exposes CRUD operations for the **DocumentDuplicate** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more DocumentDuplicates
+    * const documentDuplicates = await prisma.documentDuplicate.findMany()
+    * ```
+    */
+  get documentDuplicate(): Prisma.DocumentDuplicateDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.qaThread`: Exposes CRUD operations for the **QaThread** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more QaThreads
+    * const qaThreads = await prisma.qaThread.findMany()
+    * ```
+    */
+  get qaThread(): Prisma.QaThreadDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.qaMessage`: Exposes CRUD operations for the **QaMessage** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more QaMessages
+    * const qaMessages = await prisma.qaMessage.findMany()
+    * ```
+    */
+  get qaMessage(): Prisma.QaMessageDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.tenantTokenUsage`: Exposes CRUD operations for the **TenantTokenUsage** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more TenantTokenUsages
+    * const tenantTokenUsages = await prisma.tenantTokenUsage.findMany()
+    * ```
+    */
+  get tenantTokenUsage(): Prisma.TenantTokenUsageDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.workspaceDigest`: Exposes CRUD operations for the **WorkspaceDigest** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more WorkspaceDigests
+    * const workspaceDigests = await prisma.workspaceDigest.findMany()
+    * ```
+    */
+  get workspaceDigest(): Prisma.WorkspaceDigestDelegate<ExtArgs, { omit: OmitOpts }>;
 }
 
 export function getPrismaClientClass(): PrismaClientConstructor {
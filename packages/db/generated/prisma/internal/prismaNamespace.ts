@@ -392,10 +392,20 @@ export const ModelName = {
   DocumentTag: 'DocumentTag',
   DocumentFavorite: 'DocumentFavorite',
   DocumentCommand: 'DocumentCommand',
+  DocumentTerm: 'DocumentTerm',
   DocumentChunk: 'DocumentChunk',
+  DocumentChunkEmbedding: 'DocumentChunkEmbedding',
+  EmbeddingMigration: 'EmbeddingMigration',
   DocumentIndexState: 'DocumentIndexState',
   IndexJob: 'IndexJob',
-  SearchLog: 'SearchLog'
+  SearchLog: 'SearchLog',
+  SavedSearch: 'SavedSearch',
+  SavedSearchMatch: 'SavedSearchMatch',
+  DocumentDuplicate: 'DocumentDuplicate',
+  QaThread: 'QaThread',
+  QaMessage: 'QaMessage',
+  TenantTokenUsage: 'TenantTokenUsage',
+  WorkspaceDigest: 'WorkspaceDigest'
 } as const
 
 export type ModelName = (typeof ModelName)[keyof typeof ModelName]
@@ -411,7 +421,7 @@ export type TypeMap<ExtArgs extends runtime.Types.Extensions.InternalArgs = runt
     omit: GlobalOmitOptions
   }
   meta: {
-    modelProps: "tenant" | "user" | "tenantMembership" | "document" | "tag" | "documentTag" | "documentFavorite" | "documentCommand" | "documentChunk" | "documentIndexState" | "indexJob" | "searchLog"
+    modelProps: "tenant" | "user" | "tenantMembership" | "document" | "tag" | "documentTag" | "documentFavorite" | "documentCommand" | "documentTerm" | "documentChunk" | "documentChunkEmbedding" | "embeddingMigration" | "documentIndexState" | "indexJob" | "searchLog" | "savedSearch" | "savedSearchMatch" | "documentDuplicate" | "qaThread" | "qaMessage" | "tenantTokenUsage" | "workspaceDigest"
     txIsolationLevel: TransactionIsolationLevel
   }
   model: {
@@ -1007,6 +1017,80 @@ export type TypeMap<ExtArgs extends runtime.Types.Extensions.InternalArgs = runt
         }
       }
     }
+    DocumentTerm: {
+      payload: Prisma.$DocumentTermPayload<ExtArgs>
+      fields: Prisma.DocumentTermFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.DocumentTermFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$DocumentTermPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.DocumentTermFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$DocumentTermPayload>
+        }
+        findFirst: {
+          args: Prisma.DocumentTermFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$DocumentTermPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.DocumentTermFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$DocumentTermPayload>
+        }
+        findMany: {
+          args: Prisma.DocumentTermFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$DocumentTermPayload>[]
+        }
+        create: {
+          args: Prisma.DocumentTermCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$DocumentTermPayload>
+        }
+        createMany: {
+          args: Prisma.DocumentTermCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.DocumentTermCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$DocumentTermPayload>[]
+        }
+        delete: {
+          args: Prisma.DocumentTermDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$DocumentTermPayload>
+        }
+        update: {
+          args: Prisma.DocumentTermUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$DocumentTermPayload>
+        }
+        deleteMany: {
+          args: Prisma.DocumentTermDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.DocumentTermUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.DocumentTermUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$DocumentTermPayload>[]
+        }
+        upsert: {
+          args: Prisma.DocumentTermUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$DocumentTermPayload>
+        }
+        aggregate: {
+          args: Prisma.DocumentTermAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateDocumentTerm>
+        }
+        groupBy: {
+          args: Prisma.DocumentTermGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.DocumentTermGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.DocumentTermCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.DocumentTermCountAggregateOutputType> | number
+        }
+      }
+    }
     DocumentChunk: {
       payload: Prisma.$DocumentChunkPayload<ExtArgs>
       fields: Prisma.DocumentChunkFieldRefs
@@ -1065,6 +1149,138 @@ export type TypeMap<ExtArgs extends runtime.Types.Extensions.InternalArgs = runt
         }
       }
     }
+    DocumentChunkEmbedding: {
+      payload: Prisma.$DocumentChunkEmbeddingPayload<ExtArgs>
+      fields: Prisma.DocumentChunkEmbeddingFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.DocumentChunkEmbeddingFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$DocumentChunkEmbeddingPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.DocumentChunkEmbeddingFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$DocumentChunkEmbeddingPayload>
+        }
+        findFirst: {
+          args: Prisma.DocumentChunkEmbeddingFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$DocumentChunkEmbeddingPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.DocumentChunkEmbeddingFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$DocumentChunkEmbeddingPayload>
+        }
+        findMany: {
+          args: Prisma.DocumentChunkEmbeddingFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$DocumentChunkEmbeddingPayload>[]
+        }
+        delete: {
+          args: Prisma.DocumentChunkEmbeddingDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$DocumentChunkEmbeddingPayload>
+        }
+        update: {
+          args: Prisma.DocumentChunkEmbeddingUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$DocumentChunkEmbeddingPayload>
+        }
+        deleteMany: {
+          args: Prisma.DocumentChunkEmbeddingDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.DocumentChunkEmbeddingUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.DocumentChunkEmbeddingUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$DocumentChunkEmbeddingPayload>[]
+        }
+        aggregate: {
+          args: Prisma.DocumentChunkEmbeddingAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateDocumentChunkEmbedding>
+        }
+        groupBy: {
+          args: Prisma.DocumentChunkEmbeddingGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.DocumentChunkEmbeddingGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.DocumentChunkEmbeddingCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.DocumentChunkEmbeddingCountAggregateOutputType> | number
+        }
+      }
+    }
+    EmbeddingMigration: {
+      payload: Prisma.$EmbeddingMigrationPayload<ExtArgs>
+      fields: Prisma.EmbeddingMigrationFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.EmbeddingMigrationFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$EmbeddingMigrationPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.EmbeddingMigrationFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$EmbeddingMigrationPayload>
+        }
+        findFirst: {
+          args: Prisma.EmbeddingMigrationFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$EmbeddingMigrationPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.EmbeddingMigrationFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$EmbeddingMigrationPayload>
+        }
+        findMany: {
+          args: Prisma.EmbeddingMigrationFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$EmbeddingMigrationPayload>[]
+        }
+        create: {
+          args: Prisma.EmbeddingMigrationCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$EmbeddingMigrationPayload>
+        }
+        createMany: {
+          args: Prisma.EmbeddingMigrationCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.EmbeddingMigrationCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$EmbeddingMigrationPayload>[]
+        }
+        delete: {
+          args: Prisma.EmbeddingMigrationDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$EmbeddingMigrationPayload>
+        }
+        update: {
+          args: Prisma.EmbeddingMigrationUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$EmbeddingMigrationPayload>
+        }
+        deleteMany: {
+          args: Prisma.EmbeddingMigrationDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.EmbeddingMigrationUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.EmbeddingMigrationUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$EmbeddingMigrationPayload>[]
+        }
+        upsert: {
+          args: Prisma.EmbeddingMigrationUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$EmbeddingMigrationPayload>
+        }
+        aggregate: {
+          args: Prisma.EmbeddingMigrationAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateEmbeddingMigration>
+        }
+        groupBy: {
+          args: Prisma.EmbeddingMigrationGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.EmbeddingMigrationGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.EmbeddingMigrationCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.EmbeddingMigrationCountAggregateOutputType> | number
+        }
+      }
+    }
     DocumentIndexState: {
       payload: Prisma.$DocumentIndexStatePayload<ExtArgs>
       fields: Prisma.DocumentIndexStateFieldRefs
@@ -1090,200 +1306,718 @@ export type TypeMap<ExtArgs extends runtime.Types.Extensions.InternalArgs = runt
           result: runtime.Types.Utils.PayloadToResult<Prisma.$DocumentIndexStatePayload>[]
         }
         create: {
-          args: Prisma.DocumentIndexStateCreateArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$DocumentIndexStatePayload>
+          args: Prisma.DocumentIndexStateCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$DocumentIndexStatePayload>
+        }
+        createMany: {
+          args: Prisma.DocumentIndexStateCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.DocumentIndexStateCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$DocumentIndexStatePayload>[]
+        }
+        delete: {
+          args: Prisma.DocumentIndexStateDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$DocumentIndexStatePayload>
+        }
+        update: {
+          args: Prisma.DocumentIndexStateUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$DocumentIndexStatePayload>
+        }
+        deleteMany: {
+          args: Prisma.DocumentIndexStateDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.DocumentIndexStateUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.DocumentIndexStateUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$DocumentIndexStatePayload>[]
+        }
+        upsert: {
+          args: Prisma.DocumentIndexStateUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$DocumentIndexStatePayload>
+        }
+        aggregate: {
+          args: Prisma.DocumentIndexStateAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateDocumentIndexState>
+        }
+        groupBy: {
+          args: Prisma.DocumentIndexStateGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.DocumentIndexStateGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.DocumentIndexStateCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.DocumentIndexStateCountAggregateOutputType> | number
+        }
+      }
+    }
+    IndexJob: {
+      payload: Prisma.$IndexJobPayload<ExtArgs>
+      fields: Prisma.IndexJobFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.IndexJobFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$IndexJobPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.IndexJobFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$IndexJobPayload>
+        }
+        findFirst: {
+          args: Prisma.IndexJobFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$IndexJobPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.IndexJobFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$IndexJobPayload>
+        }
+        findMany: {
+          args: Prisma.IndexJobFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$IndexJobPayload>[]
+        }
+        create: {
+          args: Prisma.IndexJobCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$IndexJobPayload>
+        }
+        createMany: {
+          args: Prisma.IndexJobCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.IndexJobCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$IndexJobPayload>[]
+        }
+        delete: {
+          args: Prisma.IndexJobDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$IndexJobPayload>
+        }
+        update: {
+          args: Prisma.IndexJobUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$IndexJobPayload>
+        }
+        deleteMany: {
+          args: Prisma.IndexJobDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.IndexJobUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.IndexJobUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$IndexJobPayload>[]
+        }
+        upsert: {
+          args: Prisma.IndexJobUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$IndexJobPayload>
+        }
+        aggregate: {
+          args: Prisma.IndexJobAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateIndexJob>
+        }
+        groupBy: {
+          args: Prisma.IndexJobGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.IndexJobGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.IndexJobCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.IndexJobCountAggregateOutputType> | number
+        }
+      }
+    }
+    SearchLog: {
+      payload: Prisma.$SearchLogPayload<ExtArgs>
+      fields: Prisma.SearchLogFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.SearchLogFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SearchLogPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.SearchLogFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SearchLogPayload>
+        }
+        findFirst: {
+          args: Prisma.SearchLogFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SearchLogPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.SearchLogFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SearchLogPayload>
+        }
+        findMany: {
+          args: Prisma.SearchLogFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SearchLogPayload>[]
+        }
+        create: {
+          args: Prisma.SearchLogCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SearchLogPayload>
+        }
+        createMany: {
+          args: Prisma.SearchLogCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.SearchLogCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SearchLogPayload>[]
+        }
+        delete: {
+          args: Prisma.SearchLogDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SearchLogPayload>
+        }
+        update: {
+          args: Prisma.SearchLogUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SearchLogPayload>
+        }
+        deleteMany: {
+          args: Prisma.SearchLogDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.SearchLogUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.SearchLogUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SearchLogPayload>[]
+        }
+        upsert: {
+          args: Prisma.SearchLogUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SearchLogPayload>
+        }
+        aggregate: {
+          args: Prisma.SearchLogAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateSearchLog>
+        }
+        groupBy: {
+          args: Prisma.SearchLogGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.SearchLogGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.SearchLogCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.SearchLogCountAggregateOutputType> | number
+        }
+      }
+    }
+    SavedSearch: {
+      payload: Prisma.$SavedSearchPayload<ExtArgs>
+      fields: Prisma.SavedSearchFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.SavedSearchFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SavedSearchPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.SavedSearchFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SavedSearchPayload>
+        }
+        findFirst: {
+          args: Prisma.SavedSearchFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SavedSearchPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.SavedSearchFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SavedSearchPayload>
+        }
+        findMany: {
+          args: Prisma.SavedSearchFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SavedSearchPayload>[]
+        }
+        create: {
+          args: Prisma.SavedSearchCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SavedSearchPayload>
+        }
+        createMany: {
+          args: Prisma.SavedSearchCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.SavedSearchCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SavedSearchPayload>[]
+        }
+        delete: {
+          args: Prisma.SavedSearchDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SavedSearchPayload>
+        }
+        update: {
+          args: Prisma.SavedSearchUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SavedSearchPayload>
+        }
+        deleteMany: {
+          args: Prisma.SavedSearchDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.SavedSearchUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.SavedSearchUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SavedSearchPayload>[]
+        }
+        upsert: {
+          args: Prisma.SavedSearchUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SavedSearchPayload>
+        }
+        aggregate: {
+          args: Prisma.SavedSearchAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateSavedSearch>
+        }
+        groupBy: {
+          args: Prisma.SavedSearchGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.SavedSearchGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.SavedSearchCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.SavedSearchCountAggregateOutputType> | number
+        }
+      }
+    }
+    SavedSearchMatch: {
+      payload: Prisma.$SavedSearchMatchPayload<ExtArgs>
+      fields: Prisma.SavedSearchMatchFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.SavedSearchMatchFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SavedSearchMatchPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.SavedSearchMatchFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SavedSearchMatchPayload>
+        }
+        findFirst: {
+          args: Prisma.SavedSearchMatchFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SavedSearchMatchPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.SavedSearchMatchFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SavedSearchMatchPayload>
+        }
+        findMany: {
+          args: Prisma.SavedSearchMatchFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SavedSearchMatchPayload>[]
+        }
+        create: {
+          args: Prisma.SavedSearchMatchCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SavedSearchMatchPayload>
+        }
+        createMany: {
+          args: Prisma.SavedSearchMatchCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.SavedSearchMatchCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SavedSearchMatchPayload>[]
+        }
+        delete: {
+          args: Prisma.SavedSearchMatchDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SavedSearchMatchPayload>
+        }
+        update: {
+          args: Prisma.SavedSearchMatchUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SavedSearchMatchPayload>
+        }
+        deleteMany: {
+          args: Prisma.SavedSearchMatchDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.SavedSearchMatchUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.SavedSearchMatchUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SavedSearchMatchPayload>[]
+        }
+        upsert: {
+          args: Prisma.SavedSearchMatchUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SavedSearchMatchPayload>
+        }
+        aggregate: {
+          args: Prisma.SavedSearchMatchAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateSavedSearchMatch>
+        }
+        groupBy: {
+          args: Prisma.SavedSearchMatchGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.SavedSearchMatchGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.SavedSearchMatchCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.SavedSearchMatchCountAggregateOutputType> | number
+        }
+      }
+    }
+    DocumentDuplicate: {
+      payload: Prisma.$DocumentDuplicatePayload<ExtArgs>
+      fields: Prisma.DocumentDuplicateFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.DocumentDuplicateFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$DocumentDuplicatePayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.DocumentDuplicateFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$DocumentDuplicatePayload>
+        }
+        findFirst: {
+          args: Prisma.DocumentDuplicateFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$DocumentDuplicatePayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.DocumentDuplicateFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$DocumentDuplicatePayload>
+        }
+        findMany: {
+          args: Prisma.DocumentDuplicateFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$DocumentDuplicatePayload>[]
+        }
+        create: {
+          args: Prisma.DocumentDuplicateCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$DocumentDuplicatePayload>
+        }
+        createMany: {
+          args: Prisma.DocumentDuplicateCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.DocumentDuplicateCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$DocumentDuplicatePayload>[]
+        }
+        delete: {
+          args: Prisma.DocumentDuplicateDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$DocumentDuplicatePayload>
+        }
+        update: {
+          args: Prisma.DocumentDuplicateUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$DocumentDuplicatePayload>
+        }
+        deleteMany: {
+          args: Prisma.DocumentDuplicateDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.DocumentDuplicateUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.DocumentDuplicateUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$DocumentDuplicatePayload>[]
+        }
+        upsert: {
+          args: Prisma.DocumentDuplicateUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$DocumentDuplicatePayload>
+        }
+        aggregate: {
+          args: Prisma.DocumentDuplicateAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateDocumentDuplicate>
+        }
+        groupBy: {
+          args: Prisma.DocumentDuplicateGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.DocumentDuplicateGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.DocumentDuplicateCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.DocumentDuplicateCountAggregateOutputType> | number
+        }
+      }
+    }
+    QaThread: {
+      payload: Prisma.$QaThreadPayload<ExtArgs>
+      fields: Prisma.QaThreadFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.QaThreadFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$QaThreadPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.QaThreadFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$QaThreadPayload>
+        }
+        findFirst: {
+          args: Prisma.QaThreadFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$QaThreadPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.QaThreadFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$QaThreadPayload>
+        }
+        findMany: {
+          args: Prisma.QaThreadFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$QaThreadPayload>[]
+        }
+        create: {
+          args: Prisma.QaThreadCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$QaThreadPayload>
+        }
+        createMany: {
+          args: Prisma.QaThreadCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.QaThreadCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$QaThreadPayload>[]
+        }
+        delete: {
+          args: Prisma.QaThreadDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$QaThreadPayload>
+        }
+        update: {
+          args: Prisma.QaThreadUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$QaThreadPayload>
+        }
+        deleteMany: {
+          args: Prisma.QaThreadDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.QaThreadUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.QaThreadUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$QaThreadPayload>[]
+        }
+        upsert: {
+          args: Prisma.QaThreadUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$QaThreadPayload>
+        }
+        aggregate: {
+          args: Prisma.QaThreadAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateQaThread>
+        }
+        groupBy: {
+          args: Prisma.QaThreadGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.QaThreadGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.QaThreadCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.QaThreadCountAggregateOutputType> | number
+        }
+      }
+    }
+    QaMessage: {
+      payload: Prisma.$QaMessagePayload<ExtArgs>
+      fields: Prisma.QaMessageFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.QaMessageFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$QaMessagePayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.QaMessageFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$QaMessagePayload>
+        }
+        findFirst: {
+          args: Prisma.QaMessageFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$QaMessagePayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.QaMessageFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$QaMessagePayload>
+        }
+        findMany: {
+          args: Prisma.QaMessageFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$QaMessagePayload>[]
+        }
+        create: {
+          args: Prisma.QaMessageCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$QaMessagePayload>
         }
         createMany: {
-          args: Prisma.DocumentIndexStateCreateManyArgs<ExtArgs>
+          args: Prisma.QaMessageCreateManyArgs<ExtArgs>
           result: BatchPayload
         }
         createManyAndReturn: {
-          args: Prisma.DocumentIndexStateCreateManyAndReturnArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$DocumentIndexStatePayload>[]
+          args: Prisma.QaMessageCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$QaMessagePayload>[]
         }
         delete: {
-          args: Prisma.DocumentIndexStateDeleteArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$DocumentIndexStatePayload>
+          args: Prisma.QaMessageDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$QaMessagePayload>
         }
         update: {
-          args: Prisma.DocumentIndexStateUpdateArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$DocumentIndexStatePayload>
+          args: Prisma.QaMessageUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$QaMessagePayload>
         }
         deleteMany: {
-          args: Prisma.DocumentIndexStateDeleteManyArgs<ExtArgs>
+          args: Prisma.QaMessageDeleteManyArgs<ExtArgs>
           result: BatchPayload
         }
         updateMany: {
-          args: Prisma.DocumentIndexStateUpdateManyArgs<ExtArgs>
+          args: Prisma.QaMessageUpdateManyArgs<ExtArgs>
           result: BatchPayload
         }
         updateManyAndReturn: {
-          args: Prisma.DocumentIndexStateUpdateManyAndReturnArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$DocumentIndexStatePayload>[]
+          args: Prisma.QaMessageUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$QaMessagePayload>[]
         }
         upsert: {
-          args: Prisma.DocumentIndexStateUpsertArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$DocumentIndexStatePayload>
+          args: Prisma.QaMessageUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$QaMessagePayload>
         }
         aggregate: {
-          args: Prisma.DocumentIndexStateAggregateArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.AggregateDocumentIndexState>
+          args: Prisma.QaMessageAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateQaMessage>
         }
         groupBy: {
-          args: Prisma.DocumentIndexStateGroupByArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.DocumentIndexStateGroupByOutputType>[]
+          args: Prisma.QaMessageGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.QaMessageGroupByOutputType>[]
         }
         count: {
-          args: Prisma.DocumentIndexStateCountArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.DocumentIndexStateCountAggregateOutputType> | number
+          args: Prisma.QaMessageCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.QaMessageCountAggregateOutputType> | number
         }
       }
     }
-    IndexJob: {
-      payload: Prisma.$IndexJobPayload<ExtArgs>
-      fields: Prisma.IndexJobFieldRefs
+    TenantTokenUsage: {
+      payload: Prisma.$TenantTokenUsagePayload<ExtArgs>
+      fields: Prisma.TenantTokenUsageFieldRefs
       operations: {
         findUnique: {
-          args: Prisma.IndexJobFindUniqueArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$IndexJobPayload> | null
+          args: Prisma.TenantTokenUsageFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$TenantTokenUsagePayload> | null
         }
         findUniqueOrThrow: {
-          args: Prisma.IndexJobFindUniqueOrThrowArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$IndexJobPayload>
+          args: Prisma.TenantTokenUsageFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$TenantTokenUsagePayload>
         }
         findFirst: {
-          args: Prisma.IndexJobFindFirstArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$IndexJobPayload> | null
+          args: Prisma.TenantTokenUsageFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$TenantTokenUsagePayload> | null
         }
         findFirstOrThrow: {
-          args: Prisma.IndexJobFindFirstOrThrowArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$IndexJobPayload>
+          args: Prisma.TenantTokenUsageFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$TenantTokenUsagePayload>
         }
         findMany: {
-          args: Prisma.IndexJobFindManyArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$IndexJobPayload>[]
+          args: Prisma.TenantTokenUsageFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$TenantTokenUsagePayload>[]
         }
         create: {
-          args: Prisma.IndexJobCreateArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$IndexJobPayload>
+          args: Prisma.TenantTokenUsageCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$TenantTokenUsagePayload>
         }
         createMany: {
-          args: Prisma.IndexJobCreateManyArgs<ExtArgs>
+          args: Prisma.TenantTokenUsageCreateManyArgs<ExtArgs>
           result: BatchPayload
         }
         createManyAndReturn: {
-          args: Prisma.IndexJobCreateManyAndReturnArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$IndexJobPayload>[]
+          args: Prisma.TenantTokenUsageCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$TenantTokenUsagePayload>[]
         }
         delete: {
-          args: Prisma.IndexJobDeleteArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$IndexJobPayload>
+          args: Prisma.TenantTokenUsageDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$TenantTokenUsagePayload>
         }
         update: {
-          args: Prisma.IndexJobUpdateArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$IndexJobPayload>
+          args: Prisma.TenantTokenUsageUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$TenantTokenUsagePayload>
         }
         deleteMany: {
-          args: Prisma.IndexJobDeleteManyArgs<ExtArgs>
+          args: Prisma.TenantTokenUsageDeleteManyArgs<ExtArgs>
           result: BatchPayload
         }
         updateMany: {
-          args: Prisma.IndexJobUpdateManyArgs<ExtArgs>
+          args: Prisma.TenantTokenUsageUpdateManyArgs<ExtArgs>
           result: BatchPayload
         }
         updateManyAndReturn: {
-          args: Prisma.IndexJobUpdateManyAndReturnArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$IndexJobPayload>[]
+          args: Prisma.TenantTokenUsageUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$TenantTokenUsagePayload>[]
         }
         upsert: {
-          args: Prisma.IndexJobUpsertArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$IndexJobPayload>
+          args: Prisma.TenantTokenUsageUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$TenantTokenUsagePayload>
         }
         aggregate: {
-          args: Prisma.IndexJobAggregateArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.AggregateIndexJob>
+          args: Prisma.TenantTokenUsageAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateTenantTokenUsage>
         }
         groupBy: {
-          args: Prisma.IndexJobGroupByArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.IndexJobGroupByOutputType>[]
+          args: Prisma.TenantTokenUsageGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.TenantTokenUsageGroupByOutputType>[]
         }
         count: {
-          args: Prisma.IndexJobCountArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.IndexJobCountAggregateOutputType> | number
+          args: Prisma.TenantTokenUsageCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.TenantTokenUsageCountAggregateOutputType> | number
         }
       }
     }
-    SearchLog: {
-      payload: Prisma.$SearchLogPayload<ExtArgs>
-      fields: Prisma.SearchLogFieldRefs
+    WorkspaceDigest: {
+      payload: Prisma.$WorkspaceDigestPayload<ExtArgs>
+      fields: Prisma.WorkspaceDigestFieldRefs
       operations: {
         findUnique: {
-          args: Prisma.SearchLogFindUniqueArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$SearchLogPayload> | null
+          args: Prisma.WorkspaceDigestFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$WorkspaceDigestPayload> | null
         }
         findUniqueOrThrow: {
-          args: Prisma.SearchLogFindUniqueOrThrowArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$SearchLogPayload>
+          args: Prisma.WorkspaceDigestFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$WorkspaceDigestPayload>
         }
         findFirst: {
-          args: Prisma.SearchLogFindFirstArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$SearchLogPayload> | null
+          args: Prisma.WorkspaceDigestFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$WorkspaceDigestPayload> | null
         }
         findFirstOrThrow: {
-          args: Prisma.SearchLogFindFirstOrThrowArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$SearchLogPayload>
+          args: Prisma.WorkspaceDigestFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$WorkspaceDigestPayload>
         }
         findMany: {
-          args: Prisma.SearchLogFindManyArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$SearchLogPayload>[]
+          args: Prisma.WorkspaceDigestFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$WorkspaceDigestPayload>[]
         }
         create: {
-          args: Prisma.SearchLogCreateArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$SearchLogPayload>
+          args: Prisma.WorkspaceDigestCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$WorkspaceDigestPayload>
         }
         createMany: {
-          args: Prisma.SearchLogCreateManyArgs<ExtArgs>
+          args: Prisma.WorkspaceDigestCreateManyArgs<ExtArgs>
           result: BatchPayload
         }
         createManyAndReturn: {
-          args: Prisma.SearchLogCreateManyAndReturnArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$SearchLogPayload>[]
+          args: Prisma.WorkspaceDigestCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$WorkspaceDigestPayload>[]
         }
         delete: {
-          args: Prisma.SearchLogDeleteArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$SearchLogPayload>
+          args: Prisma.WorkspaceDigestDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$WorkspaceDigestPayload>
         }
         update: {
-          args: Prisma.SearchLogUpdateArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$SearchLogPayload>
+          args: Prisma.WorkspaceDigestUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$WorkspaceDigestPayload>
         }
         deleteMany: {
-          args: Prisma.SearchLogDeleteManyArgs<ExtArgs>
+          args: Prisma.WorkspaceDigestDeleteManyArgs<ExtArgs>
           result: BatchPayload
         }
         updateMany: {
-          args: Prisma.SearchLogUpdateManyArgs<ExtArgs>
+          args: Prisma.WorkspaceDigestUpdateManyArgs<ExtArgs>
           result: BatchPayload
         }
         updateManyAndReturn: {
-          args: Prisma.SearchLogUpdateManyAndReturnArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$SearchLogPayload>[]
+          args: Prisma.WorkspaceDigestUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$WorkspaceDigestPayload>[]
         }
         upsert: {
-          args: Prisma.SearchLogUpsertArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$SearchLogPayload>
+          args: Prisma.WorkspaceDigestUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$WorkspaceDigestPayload>
         }
         aggregate: {
-          args: Prisma.SearchLogAggregateArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.AggregateSearchLog>
+          args: Prisma.WorkspaceDigestAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateWorkspaceDigest>
         }
         groupBy: {
-          args: Prisma.SearchLogGroupByArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.SearchLogGroupByOutputType>[]
+          args: Prisma.WorkspaceDigestGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.WorkspaceDigestGroupByOutputType>[]
         }
         count: {
-          args: Prisma.SearchLogCountArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.SearchLogCountAggregateOutputType> | number
+          args: Prisma.WorkspaceDigestCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.WorkspaceDigestCountAggregateOutputType> | number
         }
       }
     }
@@ -1330,7 +2064,14 @@ export const TenantScalarFieldEnum = {
   id: 'id',
   name: 'name',
   createdAt: 'createdAt',
-  updatedAt: 'updatedAt'
+  updatedAt: 'updatedAt',
+  searchRankWeights: 'searchRankWeights',
+  textSearchConfig: 'textSearchConfig',
+  embeddingModel: 'embeddingModel',
+  hybridFusion: 'hybridFusion',
+  llmModel: 'llmModel',
+  duplicateScanAt: 'duplicateScanAt',
+  summaryDailyTokenBudget: 'summaryDailyTokenBudget'
 } as const
 
 export type TenantScalarFieldEnum = (typeof TenantScalarFieldEnum)[keyof typeof TenantScalarFieldEnum]
@@ -1370,11 +2111,15 @@ export const DocumentScalarFieldEnum = {
   sourceUrl: 'sourceUrl',
   content: 'content',
   summary: 'summary',
+  summaryChecksum: 'summaryChecksum',
+  summarizedAt: 'summarizedAt',
   metadata: 'metadata',
+  textSearchConfig: 'textSearchConfig',
   createdById: 'createdById',
   updatedById: 'updatedById',
   createdAt: 'createdAt',
-  updatedAt: 'updatedAt'
+  updatedAt: 'updatedAt',
+  archivedAt: 'archivedAt'
 } as const
 
 export type DocumentScalarFieldEnum = (typeof DocumentScalarFieldEnum)[keyof typeof DocumentScalarFieldEnum]
@@ -1426,6 +2171,15 @@ export const DocumentCommandScalarFieldEnum = {
 export type DocumentCommandScalarFieldEnum = (typeof DocumentCommandScalarFieldEnum)[keyof typeof DocumentCommandScalarFieldEnum]
 
 
+export const DocumentTermScalarFieldEnum = {
+  documentId: 'documentId',
+  tenantId: 'tenantId',
+  term: 'term'
+} as const
+
+export type DocumentTermScalarFieldEnum = (typeof DocumentTermScalarFieldEnum)[keyof typeof DocumentTermScalarFieldEnum]
+
+
 export const DocumentChunkScalarFieldEnum = {
   id: 'id',
   tenantId: 'tenantId',
@@ -1436,12 +2190,41 @@ export const DocumentChunkScalarFieldEnum = {
   headingPath: 'headingPath',
   startPos: 'startPos',
   endPos: 'endPos',
+  embeddingModel: 'embeddingModel',
   createdAt: 'createdAt'
 } as const
 
 export type DocumentChunkScalarFieldEnum = (typeof DocumentChunkScalarFieldEnum)[keyof typeof DocumentChunkScalarFieldEnum]
 
 
+export const DocumentChunkEmbeddingScalarFieldEnum = {
+  chunkId: 'chunkId',
+  tenantId: 'tenantId',
+  embeddingModel: 'embeddingModel',
+  createdAt: 'createdAt'
+} as const
+
+export type DocumentChunkEmbeddingScalarFieldEnum = (typeof DocumentChunkEmbeddingScalarFieldEnum)[keyof typeof DocumentChunkEmbeddingScalarFieldEnum]
+
+
+export const EmbeddingMigrationScalarFieldEnum = {
+  id: 'id',
+  tenantId: 'tenantId',
+  targetModel: 'targetModel',
+  status: 'status',
+  totalChunks: 'totalChunks',
+  processedChunks: 'processedChunks',
+  error: 'error',
+  startedAt: 'startedAt',
+  completedAt: 'completedAt',
+  cutoverAt: 'cutoverAt',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type EmbeddingMigrationScalarFieldEnum = (typeof EmbeddingMigrationScalarFieldEnum)[keyof typeof EmbeddingMigrationScalarFieldEnum]
+
+
 export const DocumentIndexStateScalarFieldEnum = {
   documentId: 'documentId',
   lastChecksum: 'lastChecksum',
@@ -1475,12 +2258,107 @@ export const SearchLogScalarFieldEnum = {
   resultCount: 'resultCount',
   duration: 'duration',
   status: 'status',
+  fusionMode: 'fusionMode',
+  fusionParams: 'fusionParams',
   createdAt: 'createdAt'
 } as const
 
 export type SearchLogScalarFieldEnum = (typeof SearchLogScalarFieldEnum)[keyof typeof SearchLogScalarFieldEnum]
 
 
+export const SavedSearchScalarFieldEnum = {
+  id: 'id',
+  tenantId: 'tenantId',
+  userId: 'userId',
+  name: 'name',
+  query: 'query',
+  filters: 'filters',
+  textQuery: 'textQuery',
+  filterOptions: 'filterOptions',
+  lastRunAt: 'lastRunAt',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type SavedSearchScalarFieldEnum = (typeof SavedSearchScalarFieldEnum)[keyof typeof SavedSearchScalarFieldEnum]
+
+
+export const SavedSearchMatchScalarFieldEnum = {
+  savedSearchId: 'savedSearchId',
+  documentId: 'documentId',
+  matchedAt: 'matchedAt',
+  seenAt: 'seenAt'
+} as const
+
+export type SavedSearchMatchScalarFieldEnum = (typeof SavedSearchMatchScalarFieldEnum)[keyof typeof SavedSearchMatchScalarFieldEnum]
+
+
+export const DocumentDuplicateScalarFieldEnum = {
+  id: 'id',
+  tenantId: 'tenantId',
+  documentId: 'documentId',
+  duplicateId: 'duplicateId',
+  similarity: 'similarity',
+  exactMatch: 'exactMatch',
+  status: 'status',
+  detectedAt: 'detectedAt',
+  updatedAt: 'updatedAt',
+  resolvedAt: 'resolvedAt'
+} as const
+
+export type DocumentDuplicateScalarFieldEnum = (typeof DocumentDuplicateScalarFieldEnum)[keyof typeof DocumentDuplicateScalarFieldEnum]
+
+
+export const QaThreadScalarFieldEnum = {
+  id: 'id',
+  tenantId: 'tenantId',
+  userId: 'userId',
+  title: 'title',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type QaThreadScalarFieldEnum = (typeof QaThreadScalarFieldEnum)[keyof typeof QaThreadScalarFieldEnum]
+
+
+export const QaMessageScalarFieldEnum = {
+  id: 'id',
+  threadId: 'threadId',
+  role: 'role',
+  content: 'content',
+  retrievalQuery: 'retrievalQuery',
+  citations: 'citations',
+  noContext: 'noContext',
+  createdAt: 'createdAt'
+} as const
+
+export type QaMessageScalarFieldEnum = (typeof QaMessageScalarFieldEnum)[keyof typeof QaMessageScalarFieldEnum]
+
+
+export const TenantTokenUsageScalarFieldEnum = {
+  tenantId: 'tenantId',
+  feature: 'feature',
+  day: 'day',
+  tokens: 'tokens'
+} as const
+
+export type TenantTokenUsageScalarFieldEnum = (typeof TenantTokenUsageScalarFieldEnum)[keyof typeof TenantTokenUsageScalarFieldEnum]
+
+
+export const WorkspaceDigestScalarFieldEnum = {
+  id: 'id',
+  tenantId: 'tenantId',
+  periodStart: 'periodStart',
+  periodEnd: 'periodEnd',
+  summary: 'summary',
+  activity: 'activity',
+  model: 'model',
+  createdAt: 'createdAt'
+} as const
+
+export type WorkspaceDigestScalarFieldEnum = (typeof WorkspaceDigestScalarFieldEnum)[keyof typeof WorkspaceDigestScalarFieldEnum]
+
+
 export const SortOrder = {
   asc: 'asc',
   desc: 'desc'
@@ -1512,14 +2390,6 @@ export const QueryMode = {
 export type QueryMode = (typeof QueryMode)[keyof typeof QueryMode]
 
 
-export const NullsOrder = {
-  first: 'first',
-  last: 'last'
-} as const
-
-export type NullsOrder = (typeof NullsOrder)[keyof typeof NullsOrder]
-
-
 export const JsonNullValueFilter = {
   DbNull: DbNull,
   JsonNull: JsonNull,
@@ -1529,6 +2399,14 @@ export const JsonNullValueFilter = {
 export type JsonNullValueFilter = (typeof JsonNullValueFilter)[keyof typeof JsonNullValueFilter]
 
 
+export const NullsOrder = {
+  first: 'first',
+  last: 'last'
+} as const
+
+export type NullsOrder = (typeof NullsOrder)[keyof typeof NullsOrder]
+
+
 
 /**
  * Field references
@@ -1564,58 +2442,72 @@ export type ListDateTimeFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaM
 
 
 /**
- * Reference to a field of type 'TenantRole'
+ * Reference to a field of type 'Json'
  */
-export type EnumTenantRoleFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'TenantRole'>
+export type JsonFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'Json'>
     
 
 
 /**
- * Reference to a field of type 'TenantRole[]'
+ * Reference to a field of type 'QueryMode'
  */
-export type ListEnumTenantRoleFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'TenantRole[]'>
+export type EnumQueryModeFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'QueryMode'>
     
 
 
 /**
- * Reference to a field of type 'DocumentSource'
+ * Reference to a field of type 'Int'
  */
-export type EnumDocumentSourceFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'DocumentSource'>
+export type IntFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'Int'>
     
 
 
 /**
- * Reference to a field of type 'DocumentSource[]'
+ * Reference to a field of type 'Int[]'
  */
-export type ListEnumDocumentSourceFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'DocumentSource[]'>
+export type ListIntFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'Int[]'>
     
 
 
 /**
- * Reference to a field of type 'Json'
+ * Reference to a field of type 'TenantRole'
  */
-export type JsonFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'Json'>
+export type EnumTenantRoleFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'TenantRole'>
     
 
 
 /**
- * Reference to a field of type 'QueryMode'
+ * Reference to a field of type 'TenantRole[]'
  */
-export type EnumQueryModeFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'QueryMode'>
+export type ListEnumTenantRoleFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'TenantRole[]'>
     
 
 
 /**
- * Reference to a field of type 'Int'
+ * Reference to a field of type 'DocumentSource'
  */
-export type IntFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'Int'>
+export type EnumDocumentSourceFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'DocumentSource'>
     
 
 
 /**
- * Reference to a field of type 'Int[]'
+ * Reference to a field of type 'DocumentSource[]'
  */
-export type ListIntFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'Int[]'>
+export type ListEnumDocumentSourceFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'DocumentSource[]'>
+    
+
+
+/**
+ * Reference to a field of type 'EmbeddingMigrationStatus'
+ */
+export type EnumEmbeddingMigrationStatusFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'EmbeddingMigrationStatus'>
+    
+
+
+/**
+ * Reference to a field of type 'EmbeddingMigrationStatus[]'
+ */
+export type ListEnumEmbeddingMigrationStatusFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'EmbeddingMigrationStatus[]'>
     
 
 
@@ -1646,6 +2538,41 @@ export type FloatFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, '
 export type ListFloatFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'Float[]'>
     
 
+
+/**
+ * Reference to a field of type 'Boolean'
+ */
+export type BooleanFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'Boolean'>
+    
+
+
+/**
+ * Reference to a field of type 'DuplicateStatus'
+ */
+export type EnumDuplicateStatusFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'DuplicateStatus'>
+    
+
+
+/**
+ * Reference to a field of type 'DuplicateStatus[]'
+ */
+export type ListEnumDuplicateStatusFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'DuplicateStatus[]'>
+    
+
+
+/**
+ * Reference to a field of type 'QaMessageRole'
+ */
+export type EnumQaMessageRoleFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'QaMessageRole'>
+    
+
+
+/**
+ * Reference to a field of type 'QaMessageRole[]'
+ */
+export type ListEnumQaMessageRoleFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'QaMessageRole[]'>
+    
+
 /**
  * Batch Payload for updateMany & deleteMany & createMany
  */
@@ -1749,10 +2676,20 @@ export type GlobalOmitConfig = {
   documentTag?: Prisma.DocumentTagOmit
   documentFavorite?: Prisma.DocumentFavoriteOmit
   documentCommand?: Prisma.DocumentCommandOmit
+  documentTerm?: Prisma.DocumentTermOmit
   documentChunk?: Prisma.DocumentChunkOmit
+  documentChunkEmbedding?: Prisma.DocumentChunkEmbeddingOmit
+  embeddingMigration?: Prisma.EmbeddingMigrationOmit
   documentIndexState?: Prisma.DocumentIndexStateOmit
   indexJob?: Prisma.IndexJobOmit
   searchLog?: Prisma.SearchLogOmit
+  savedSearch?: Prisma.SavedSearchOmit
+  savedSearchMatch?: Prisma.SavedSearchMatchOmit
+  documentDuplicate?: Prisma.DocumentDuplicateOmit
+  qaThread?: Prisma.QaThreadOmit
+  qaMessage?: Prisma.QaMessageOmit
+  tenantTokenUsage?: Prisma.TenantTokenUsageOmit
+  workspaceDigest?: Prisma.WorkspaceDigestOmit
 }
 
 /* Types for Logging */
@@ -59,10 +59,20 @@ export const ModelName = {
   DocumentTag: 'DocumentTag',
   DocumentFavorite: 'DocumentFavorite',
   DocumentCommand: 'DocumentCommand',
+  DocumentTerm: 'DocumentTerm',
   DocumentChunk: 'DocumentChunk',
+  DocumentChunkEmbedding: 'DocumentChunkEmbedding',
+  EmbeddingMigration: 'EmbeddingMigration',
   DocumentIndexState: 'DocumentIndexState',
   IndexJob: 'IndexJob',
-  SearchLog: 'SearchLog'
+  SearchLog: 'SearchLog',
+  SavedSearch: 'SavedSearch',
+  SavedSearchMatch: 'SavedSearchMatch',
+  DocumentDuplicate: 'DocumentDuplicate',
+  QaThread: 'QaThread',
+  QaMessage: 'QaMessage',
+  TenantTokenUsage: 'TenantTokenUsage',
+  WorkspaceDigest: 'WorkspaceDigest'
 } as const
 
 export type ModelName = (typeof ModelName)[keyof typeof ModelName]
@@ -85,7 +95,14 @@ export const TenantScalarFieldEnum = {
   id: 'id',
   name: 'name',
   createdAt: 'createdAt',
-  updatedAt: 'updatedAt'
+  updatedAt: 'updatedAt',
+  searchRankWeights: 'searchRankWeights',
+  textSearchConfig: 'textSearchConfig',
+  embeddingModel: 'embeddingModel',
+  hybridFusion: 'hybridFusion',
+  llmModel: 'llmModel',
+  duplicateScanAt: 'duplicateScanAt',
+  summaryDailyTokenBudget: 'summaryDailyTokenBudget'
 } as const
 
 export type TenantScalarFieldEnum = (typeof TenantScalarFieldEnum)[keyof typeof TenantScalarFieldEnum]
@@ -125,11 +142,15 @@ export const DocumentScalarFieldEnum = {
   sourceUrl: 'sourceUrl',
   content: 'content',
   summary: 'summary',
+  summaryChecksum: 'summaryChecksum',
+  summarizedAt: 'summarizedAt',
   metadata: 'metadata',
+  textSearchConfig: 'textSearchConfig',
   createdById: 'createdById',
   updatedById: 'updatedById',
   createdAt: 'createdAt',
-  updatedAt: 'updatedAt'
+  updatedAt: 'updatedAt',
+  archivedAt: 'archivedAt'
 } as const
 
 export type DocumentScalarFieldEnum = (typeof DocumentScalarFieldEnum)[keyof typeof DocumentScalarFieldEnum]
@@ -181,6 +202,15 @@ export const DocumentCommandScalarFieldEnum = {
 export type DocumentCommandScalarFieldEnum = (typeof DocumentCommandScalarFieldEnum)[keyof typeof DocumentCommandScalarFieldEnum]
 
 
+export const DocumentTermScalarFieldEnum = {
+  documentId: 'documentId',
+  tenantId: 'tenantId',
+  term: 'term'
+} as const
+
+export type DocumentTermScalarFieldEnum = (typeof DocumentTermScalarFieldEnum)[keyof typeof DocumentTermScalarFieldEnum]
+
+
 export const DocumentChunkScalarFieldEnum = {
   id: 'id',
   tenantId: 'tenantId',
@@ -191,12 +221,41 @@ export const DocumentChunkScalarFieldEnum = {
   headingPath: 'headingPath',
   startPos: 'startPos',
   endPos: 'endPos',
+  embeddingModel: 'embeddingModel',
   createdAt: 'createdAt'
 } as const
 
 export type DocumentChunkScalarFieldEnum = (typeof DocumentChunkScalarFieldEnum)[keyof typeof DocumentChunkScalarFieldEnum]
 
 
+export const DocumentChunkEmbeddingScalarFieldEnum = {
+  chunkId: 'chunkId',
+  tenantId: 'tenantId',
+  embeddingModel: 'embeddingModel',
+  createdAt: 'createdAt'
+} as const
+
+export type DocumentChunkEmbeddingScalarFieldEnum = (typeof DocumentChunkEmbeddingScalarFieldEnum)[keyof typeof DocumentChunkEmbeddingScalarFieldEnum]
+
+
+export const EmbeddingMigrationScalarFieldEnum = {
+  id: 'id',
+  tenantId: 'tenantId',
+  targetModel: 'targetModel',
+  status: 'status',
+  totalChunks: 'totalChunks',
+  processedChunks: 'processedChunks',
+  error: 'error',
+  startedAt: 'startedAt',
+  completedAt: 'completedAt',
+  cutoverAt: 'cutoverAt',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type EmbeddingMigrationScalarFieldEnum = (typeof EmbeddingMigrationScalarFieldEnum)[keyof typeof EmbeddingMigrationScalarFieldEnum]
+
+
 export const DocumentIndexStateScalarFieldEnum = {
   documentId: 'documentId',
   lastChecksum: 'lastChecksum',
@@ -230,12 +289,107 @@ export const SearchLogScalarFieldEnum = {
   resultCount: 'resultCount',
   duration: 'duration',
   status: 'status',
+  fusionMode: 'fusionMode',
+  fusionParams: 'fusionParams',
   createdAt: 'createdAt'
 } as const
 
 export type SearchLogScalarFieldEnum = (typeof SearchLogScalarFieldEnum)[keyof typeof SearchLogScalarFieldEnum]
 
 
+export const SavedSearchScalarFieldEnum = {
+  id: 'id',
+  tenantId: 'tenantId',
+  userId: 'userId',
+  name: 'name',
+  query: 'query',
+  filters: 'filters',
+  textQuery: 'textQuery',
+  filterOptions: 'filterOptions',
+  lastRunAt: 'lastRunAt',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type SavedSearchScalarFieldEnum = (typeof SavedSearchScalarFieldEnum)[keyof typeof SavedSearchScalarFieldEnum]
+
+
+export const SavedSearchMatchScalarFieldEnum = {
+  savedSearchId: 'savedSearchId',
+  documentId: 'documentId',
+  matchedAt: 'matchedAt',
+  seenAt: 'seenAt'
+} as const
+
+export type SavedSearchMatchScalarFieldEnum = (typeof SavedSearchMatchScalarFieldEnum)[keyof typeof SavedSearchMatchScalarFieldEnum]
+
+
+export const DocumentDuplicateScalarFieldEnum = {
+  id: 'id',
+  tenantId: 'tenantId',
+  documentId: 'documentId',
+  duplicateId: 'duplicateId',
+  similarity: 'similarity',
+  exactMatch: 'exactMatch',
+  status: 'status',
+  detectedAt: 'detectedAt',
+  updatedAt: 'updatedAt',
+  resolvedAt: 'resolvedAt'
+} as const
+
+export type DocumentDuplicateScalarFieldEnum = (typeof DocumentDuplicateScalarFieldEnum)[keyof typeof DocumentDuplicateScalarFieldEnum]
+
+
+export const QaThreadScalarFieldEnum = {
+  id: 'id',
+  tenantId: 'tenantId',
+  userId: 'userId',
+  title: 'title',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type QaThreadScalarFieldEnum = (typeof QaThreadScalarFieldEnum)[keyof typeof QaThreadScalarFieldEnum]
+
+
+export const QaMessageScalarFieldEnum = {
+  id: 'id',
+  threadId: 'threadId',
+  role: 'role',
+  content: 'content',
+  retrievalQuery: 'retrievalQuery',
+  citations: 'citations',
+  noContext: 'noContext',
+  createdAt: 'createdAt'
+} as const
+
+export type QaMessageScalarFieldEnum = (typeof QaMessageScalarFieldEnum)[keyof typeof QaMessageScalarFieldEnum]
+
+
+export const TenantTokenUsageScalarFieldEnum = {
+  tenantId: 'tenantId',
+  feature: 'feature',
+  day: 'day',
+  tokens: 'tokens'
+} as const
+
+export type TenantTokenUsageScalarFieldEnum = (typeof TenantTokenUsageScalarFieldEnum)[keyof typeof TenantTokenUsageScalarFieldEnum]
+
+
+export const WorkspaceDigestScalarFieldEnum = {
+  id: 'id',
+  tenantId: 'tenantId',
+  periodStart: 'periodStart',
+  periodEnd: 'periodEnd',
+  summary: 'summary',
+  activity: 'activity',
+  model: 'model',
+  createdAt: 'createdAt'
+} as const
+
+export type WorkspaceDigestScalarFieldEnum = (typeof WorkspaceDigestScalarFieldEnum)[keyof typeof WorkspaceDigestScalarFieldEnum]
+
+
 export const SortOrder = {
   asc: 'asc',
   desc: 'desc'
@@ -267,14 +421,6 @@ export const QueryMode = {
 export type QueryMode = (typeof QueryMode)[keyof typeof QueryMode]
 
 
-export const NullsOrder = {
-  first: 'first',
-  last: 'last'
-} as const
-
-export type NullsOrder = (typeof NullsOrder)[keyof typeof NullsOrder]
-
-
 export const JsonNullValueFilter = {
   DbNull: 'DbNull',
   JsonNull: 'JsonNull',
@@ -283,3 +429,11 @@ export const JsonNullValueFilter = {
 
 export type JsonNullValueFilter = (typeof JsonNullValueFilter)[keyof typeof JsonNullValueFilter]
 
+
+export const NullsOrder = {
+  first: 'first',
+  last: 'last'
+} as const
+
+export type NullsOrder = (typeof NullsOrder)[keyof typeof NullsOrder]
+
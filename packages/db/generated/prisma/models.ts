@@ -16,8 +16,18 @@ export type * from './models/Tag.js'
 export type * from './models/DocumentTag.js'
 export type * from './models/DocumentFavorite.js'
 export type * from './models/DocumentCommand.js'
+export type * from './models/DocumentTerm.js'
 export type * from './models/DocumentChunk.js'
+export type * from './models/DocumentChunkEmbedding.js'
+export type * from './models/EmbeddingMigration.js'
 export type * from './models/DocumentIndexState.js'
 export type * from './models/IndexJob.js'
 export type * from './models/SearchLog.js'
+export type * from './models/SavedSearch.js'
+export type * from './models/SavedSearchMatch.js'
+export type * from './models/DocumentDuplicate.js'
+export type * from './models/QaThread.js'
+export type * from './models/QaMessage.js'
+export type * from './models/TenantTokenUsage.js'
+export type * from './models/WorkspaceDigest.js'
 export type * from './commonInputTypes.js'
\ No newline at end of file
@@ -32,10 +32,14 @@ export type DocumentMinAggregateOutputType = {
   sourceUrl: string | null
   content: string | null
   summary: string | null
+  summaryChecksum: string | null
+  summarizedAt: Date | null
+  textSearchConfig: string | null
   createdById: string | null
   updatedById: string | null
   createdAt: Date | null
   updatedAt: Date | null
+  archivedAt: Date | null
 }
 
 export type DocumentMaxAggregateOutputType = {
@@ -46,10 +50,14 @@ export type DocumentMaxAggregateOutputType = {
   sourceUrl: string | null
   content: string | null
   summary: string | null
+  summaryChecksum: string | null
+  summarizedAt: Date | null
+  textSearchConfig: string | null
   createdById: string | null
   updatedById: string | null
   createdAt: Date | null
   updatedAt: Date | null
+  archivedAt: Date | null
 }
 
 export type DocumentCountAggregateOutputType = {
@@ -60,11 +68,15 @@ export type DocumentCountAggregateOutputType = {
   sourceUrl: number
   content: number
   summary: number
+  summaryChecksum: number
+  summarizedAt: number
   metadata: number
+  textSearchConfig: number
   createdById: number
   updatedById: number
   createdAt: number
   updatedAt: number
+  archivedAt: number
   _all: number
 }
 
@@ -77,10 +89,14 @@ export type DocumentMinAggregateInputType = {
   sourceUrl?: true
   content?: true
   summary?: true
+  summaryChecksum?: true
+  summarizedAt?: true
+  textSearchConfig?: true
   createdById?: true
   updatedById?: true
   createdAt?: true
   updatedAt?: true
+  archivedAt?: true
 }
 
 export type DocumentMaxAggregateInputType = {
@@ -91,10 +107,14 @@ export type DocumentMaxAggregateInputType = {
   sourceUrl?: true
   content?: true
   summary?: true
+  summaryChecksum?: true
+  summarizedAt?: true
+  textSearchConfig?: true
   createdById?: true
   updatedById?: true
   createdAt?: true
   updatedAt?: true
+  archivedAt?: true
 }
 
 export type DocumentCountAggregateInputType = {
@@ -105,11 +125,15 @@ export type DocumentCountAggregateInputType = {
   sourceUrl?: true
   content?: true
   summary?: true
+  summaryChecksum?: true
+  summarizedAt?: true
   metadata?: true
+  textSearchConfig?: true
   createdById?: true
   updatedById?: true
   createdAt?: true
   updatedAt?: true
+  archivedAt?: true
   _all?: true
 }
 
@@ -193,11 +217,15 @@ export type DocumentGroupByOutputType = {
   sourceUrl: string | null
   content: string | null
   summary: string | null
+  summaryChecksum: string | null
+  summarizedAt: Date | null
   metadata: runtime.JsonValue | null
+  textSearchConfig: string | null
   createdById: string
   updatedById: string
   createdAt: Date
   updatedAt: Date
+  archivedAt: Date | null
   _count: DocumentCountAggregateOutputType | null
   _min: DocumentMinAggregateOutputType | null
   _max: DocumentMaxAggregateOutputType | null
@@ -229,11 +257,15 @@ export type DocumentWhereInput = {
   sourceUrl?: Prisma.StringNullableFilter<"Document"> | string | null
   content?: Prisma.StringNullableFilter<"Document"> | string | null
   summary?: Prisma.StringNullableFilter<"Document"> | string | null
+  summaryChecksum?: Prisma.StringNullableFilter<"Document"> | string | null
+  summarizedAt?: Prisma.DateTimeNullableFilter<"Document"> | Date | string | null
   metadata?: Prisma.JsonNullableFilter<"Document">
+  textSearchConfig?: Prisma.StringNullableFilter<"Document"> | string | null
   createdById?: Prisma.StringFilter<"Document"> | string
   updatedById?: Prisma.StringFilter<"Document"> | string
   createdAt?: Prisma.DateTimeFilter<"Document"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"Document"> | Date | string
+  archivedAt?: Prisma.DateTimeNullableFilter<"Document"> | Date | string | null
   tenant?: Prisma.XOR<Prisma.TenantScalarRelationFilter, Prisma.TenantWhereInput>
   createdBy?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
   updatedBy?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
@@ -243,6 +275,10 @@ export type DocumentWhereInput = {
   chunks?: Prisma.DocumentChunkListRelationFilter
   indexState?: Prisma.XOR<Prisma.DocumentIndexStateNullableScalarRelationFilter, Prisma.DocumentIndexStateWhereInput> | null
   tags?: Prisma.DocumentTagListRelationFilter
+  terms?: Prisma.DocumentTermListRelationFilter
+  savedSearchMatches?: Prisma.SavedSearchMatchListRelationFilter
+  duplicatesAsFirst?: Prisma.DocumentDuplicateListRelationFilter
+  duplicatesAsSecond?: Prisma.DocumentDuplicateListRelationFilter
 }
 
 export type DocumentOrderByWithRelationInput = {
@@ -253,11 +289,15 @@ export type DocumentOrderByWithRelationInput = {
   sourceUrl?: Prisma.SortOrderInput | Prisma.SortOrder
   content?: Prisma.SortOrderInput | Prisma.SortOrder
   summary?: Prisma.SortOrderInput | Prisma.SortOrder
+  summaryChecksum?: Prisma.SortOrderInput | Prisma.SortOrder
+  summarizedAt?: Prisma.SortOrderInput | Prisma.SortOrder
   metadata?: Prisma.SortOrderInput | Prisma.SortOrder
+  textSearchConfig?: Prisma.SortOrderInput | Prisma.SortOrder
   createdById?: Prisma.SortOrder
   updatedById?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
+  archivedAt?: Prisma.SortOrderInput | Prisma.SortOrder
   tenant?: Prisma.TenantOrderByWithRelationInput
   createdBy?: Prisma.UserOrderByWithRelationInput
   updatedBy?: Prisma.UserOrderByWithRelationInput
@@ -267,6 +307,10 @@ export type DocumentOrderByWithRelationInput = {
   chunks?: Prisma.DocumentChunkOrderByRelationAggregateInput
   indexState?: Prisma.DocumentIndexStateOrderByWithRelationInput
   tags?: Prisma.DocumentTagOrderByRelationAggregateInput
+  terms?: Prisma.DocumentTermOrderByRelationAggregateInput
+  savedSearchMatches?: Prisma.SavedSearchMatchOrderByRelationAggregateInput
+  duplicatesAsFirst?: Prisma.DocumentDuplicateOrderByRelationAggregateInput
+  duplicatesAsSecond?: Prisma.DocumentDuplicateOrderByRelationAggregateInput
 }
 
 export type DocumentWhereUniqueInput = Prisma.AtLeast<{
@@ -281,11 +325,15 @@ export type DocumentWhereUniqueInput = Prisma.AtLeast<{
   sourceUrl?: Prisma.StringNullableFilter<"Document"> | string | null
   content?: Prisma.StringNullableFilter<"Document"> | string | null
   summary?: Prisma.StringNullableFilter<"Document"> | string | null
+  summaryChecksum?: Prisma.StringNullableFilter<"Document"> | string | null
+  summarizedAt?: Prisma.DateTimeNullableFilter<"Document"> | Date | string | null
   metadata?: Prisma.JsonNullableFilter<"Document">
+  textSearchConfig?: Prisma.StringNullableFilter<"Document"> | string | null
   createdById?: Prisma.StringFilter<"Document"> | string
   updatedById?: Prisma.StringFilter<"Document"> | string
   createdAt?: Prisma.DateTimeFilter<"Document"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"Document"> | Date | string
+  archivedAt?: Prisma.DateTimeNullableFilter<"Document"> | Date | string | null
   tenant?: Prisma.XOR<Prisma.TenantScalarRelationFilter, Prisma.TenantWhereInput>
   createdBy?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
   updatedBy?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
@@ -295,6 +343,10 @@ export type DocumentWhereUniqueInput = Prisma.AtLeast<{
   chunks?: Prisma.DocumentChunkListRelationFilter
   indexState?: Prisma.XOR<Prisma.DocumentIndexStateNullableScalarRelationFilter, Prisma.DocumentIndexStateWhereInput> | null
   tags?: Prisma.DocumentTagListRelationFilter
+  terms?: Prisma.DocumentTermListRelationFilter
+  savedSearchMatches?: Prisma.SavedSearchMatchListRelationFilter
+  duplicatesAsFirst?: Prisma.DocumentDuplicateListRelationFilter
+  duplicatesAsSecond?: Prisma.DocumentDuplicateListRelationFilter
 }, "id" | "tenantId_id">
 
 export type DocumentOrderByWithAggregationInput = {
@@ -305,11 +357,15 @@ export type DocumentOrderByWithAggregationInput = {
   sourceUrl?: Prisma.SortOrderInput | Prisma.SortOrder
   content?: Prisma.SortOrderInput | Prisma.SortOrder
   summary?: Prisma.SortOrderInput | Prisma.SortOrder
+  summaryChecksum?: Prisma.SortOrderInput | Prisma.SortOrder
+  summarizedAt?: Prisma.SortOrderInput | Prisma.SortOrder
   metadata?: Prisma.SortOrderInput | Prisma.SortOrder
+  textSearchConfig?: Prisma.SortOrderInput | Prisma.SortOrder
   createdById?: Prisma.SortOrder
   updatedById?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
+  archivedAt?: Prisma.SortOrderInput | Prisma.SortOrder
   _count?: Prisma.DocumentCountOrderByAggregateInput
   _max?: Prisma.DocumentMaxOrderByAggregateInput
   _min?: Prisma.DocumentMinOrderByAggregateInput
@@ -326,11 +382,15 @@ export type DocumentScalarWhereWithAggregatesInput = {
   sourceUrl?: Prisma.StringNullableWithAggregatesFilter<"Document"> | string | null
   content?: Prisma.StringNullableWithAggregatesFilter<"Document"> | string | null
   summary?: Prisma.StringNullableWithAggregatesFilter<"Document"> | string | null
+  summaryChecksum?: Prisma.StringNullableWithAggregatesFilter<"Document"> | string | null
+  summarizedAt?: Prisma.DateTimeNullableWithAggregatesFilter<"Document"> | Date | string | null
   metadata?: Prisma.JsonNullableWithAggregatesFilter<"Document">
+  textSearchConfig?: Prisma.StringNullableWithAggregatesFilter<"Document"> | string | null
   createdById?: Prisma.StringWithAggregatesFilter<"Document"> | string
   updatedById?: Prisma.StringWithAggregatesFilter<"Document"> | string
   createdAt?: Prisma.DateTimeWithAggregatesFilter<"Document"> | Date | string
   updatedAt?: Prisma.DateTimeWithAggregatesFilter<"Document"> | Date | string
+  archivedAt?: Prisma.DateTimeNullableWithAggregatesFilter<"Document"> | Date | string | null
 }
 
 export type DocumentCreateInput = {
@@ -340,9 +400,13 @@ export type DocumentCreateInput = {
   sourceUrl?: string | null
   content?: string | null
   summary?: string | null
+  summaryChecksum?: string | null
+  summarizedAt?: Date | string | null
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  textSearchConfig?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
+  archivedAt?: Date | string | null
   tenant: Prisma.TenantCreateNestedOneWithoutDocumentsInput
   createdBy: Prisma.UserCreateNestedOneWithoutCreatedDocumentsInput
   updatedBy: Prisma.UserCreateNestedOneWithoutUpdatedDocumentsInput
@@ -352,6 +416,10 @@ export type DocumentCreateInput = {
   chunks?: Prisma.DocumentChunkCreateNestedManyWithoutDocumentInput
   indexState?: Prisma.DocumentIndexStateCreateNestedOneWithoutDocumentInput
   tags?: Prisma.DocumentTagCreateNestedManyWithoutDocumentInput
+  terms?: Prisma.DocumentTermCreateNestedManyWithoutDocumentInput
+  savedSearchMatches?: Prisma.SavedSearchMatchCreateNestedManyWithoutDocumentInput
+  duplicatesAsFirst?: Prisma.DocumentDuplicateCreateNestedManyWithoutDocumentInput
+  duplicatesAsSecond?: Prisma.DocumentDuplicateCreateNestedManyWithoutDuplicateInput
 }
 
 export type DocumentUncheckedCreateInput = {
@@ -362,17 +430,25 @@ export type DocumentUncheckedCreateInput = {
   sourceUrl?: string | null
   content?: string | null
   summary?: string | null
+  summaryChecksum?: string | null
+  summarizedAt?: Date | string | null
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  textSearchConfig?: string | null
   createdById: string
   updatedById: string
   createdAt?: Date | string
   updatedAt?: Date | string
+  archivedAt?: Date | string | null
   favorites?: Prisma.DocumentFavoriteUncheckedCreateNestedManyWithoutDocumentInput
   commands?: Prisma.DocumentCommandUncheckedCreateNestedManyWithoutDocumentInput
   jobs?: Prisma.IndexJobUncheckedCreateNestedManyWithoutDocumentInput
   chunks?: Prisma.DocumentChunkUncheckedCreateNestedManyWithoutDocumentInput
   indexState?: Prisma.DocumentIndexStateUncheckedCreateNestedOneWithoutDocumentInput
   tags?: Prisma.DocumentTagUncheckedCreateNestedManyWithoutDocumentInput
+  terms?: Prisma.DocumentTermUncheckedCreateNestedManyWithoutDocumentInput
+  savedSearchMatches?: Prisma.SavedSearchMatchUncheckedCreateNestedManyWithoutDocumentInput
+  duplicatesAsFirst?: Prisma.DocumentDuplicateUncheckedCreateNestedManyWithoutDocumentInput
+  duplicatesAsSecond?: Prisma.DocumentDuplicateUncheckedCreateNestedManyWithoutDuplicateInput
 }
 
 export type DocumentUpdateInput = {
@@ -382,9 +458,13 @@ export type DocumentUpdateInput = {
   sourceUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   content?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   summary?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  summaryChecksum?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  summarizedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  textSearchConfig?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  archivedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   tenant?: Prisma.TenantUpdateOneRequiredWithoutDocumentsNestedInput
   createdBy?: Prisma.UserUpdateOneRequiredWithoutCreatedDocumentsNestedInput
   updatedBy?: Prisma.UserUpdateOneRequiredWithoutUpdatedDocumentsNestedInput
@@ -394,6 +474,10 @@ export type DocumentUpdateInput = {
   chunks?: Prisma.DocumentChunkUpdateManyWithoutDocumentNestedInput
   indexState?: Prisma.DocumentIndexStateUpdateOneWithoutDocumentNestedInput
   tags?: Prisma.DocumentTagUpdateManyWithoutDocumentNestedInput
+  terms?: Prisma.DocumentTermUpdateManyWithoutDocumentNestedInput
+  savedSearchMatches?: Prisma.SavedSearchMatchUpdateManyWithoutDocumentNestedInput
+  duplicatesAsFirst?: Prisma.DocumentDuplicateUpdateManyWithoutDocumentNestedInput
+  duplicatesAsSecond?: Prisma.DocumentDuplicateUpdateManyWithoutDuplicateNestedInput
 }
 
 export type DocumentUncheckedUpdateInput = {
@@ -404,17 +488,25 @@ export type DocumentUncheckedUpdateInput = {
   sourceUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   content?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   summary?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  summaryChecksum?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  summarizedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  textSearchConfig?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdById?: Prisma.StringFieldUpdateOperationsInput | string
   updatedById?: Prisma.StringFieldUpdateOperationsInput | string
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  archivedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   favorites?: Prisma.DocumentFavoriteUncheckedUpdateManyWithoutDocumentNestedInput
   commands?: Prisma.DocumentCommandUncheckedUpdateManyWithoutDocumentNestedInput
   jobs?: Prisma.IndexJobUncheckedUpdateManyWithoutDocumentNestedInput
   chunks?: Prisma.DocumentChunkUncheckedUpdateManyWithoutDocumentNestedInput
   indexState?: Prisma.DocumentIndexStateUncheckedUpdateOneWithoutDocumentNestedInput
   tags?: Prisma.DocumentTagUncheckedUpdateManyWithoutDocumentNestedInput
+  terms?: Prisma.DocumentTermUncheckedUpdateManyWithoutDocumentNestedInput
+  savedSearchMatches?: Prisma.SavedSearchMatchUncheckedUpdateManyWithoutDocumentNestedInput
+  duplicatesAsFirst?: Prisma.DocumentDuplicateUncheckedUpdateManyWithoutDocumentNestedInput
+  duplicatesAsSecond?: Prisma.DocumentDuplicateUncheckedUpdateManyWithoutDuplicateNestedInput
 }
 
 export type DocumentCreateManyInput = {
@@ -425,11 +517,15 @@ export type DocumentCreateManyInput = {
   sourceUrl?: string | null
   content?: string | null
   summary?: string | null
+  summaryChecksum?: string | null
+  summarizedAt?: Date | string | null
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  textSearchConfig?: string | null
   createdById: string
   updatedById: string
   createdAt?: Date | string
   updatedAt?: Date | string
+  archivedAt?: Date | string | null
 }
 
 export type DocumentUpdateManyMutationInput = {
@@ -439,9 +535,13 @@ export type DocumentUpdateManyMutationInput = {
   sourceUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   content?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   summary?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  summaryChecksum?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  summarizedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  textSearchConfig?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  archivedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
 }
 
 export type DocumentUncheckedUpdateManyInput = {
@@ -452,11 +552,15 @@ export type DocumentUncheckedUpdateManyInput = {
   sourceUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   content?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   summary?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  summaryChecksum?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  summarizedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  textSearchConfig?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdById?: Prisma.StringFieldUpdateOperationsInput | string
   updatedById?: Prisma.StringFieldUpdateOperationsInput | string
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  archivedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
 }
 
 export type DocumentListRelationFilter = {
@@ -482,11 +586,15 @@ export type DocumentCountOrderByAggregateInput = {
   sourceUrl?: Prisma.SortOrder
   content?: Prisma.SortOrder
   summary?: Prisma.SortOrder
+  summaryChecksum?: Prisma.SortOrder
+  summarizedAt?: Prisma.SortOrder
   metadata?: Prisma.SortOrder
+  textSearchConfig?: Prisma.SortOrder
   createdById?: Prisma.SortOrder
   updatedById?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
+  archivedAt?: Prisma.SortOrder
 }
 
 export type DocumentMaxOrderByAggregateInput = {
@@ -497,10 +605,14 @@ export type DocumentMaxOrderByAggregateInput = {
   sourceUrl?: Prisma.SortOrder
   content?: Prisma.SortOrder
   summary?: Prisma.SortOrder
+  summaryChecksum?: Prisma.SortOrder
+  summarizedAt?: Prisma.SortOrder
+  textSearchConfig?: Prisma.SortOrder
   createdById?: Prisma.SortOrder
   updatedById?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
+  archivedAt?: Prisma.SortOrder
 }
 
 export type DocumentMinOrderByAggregateInput = {
@@ -511,10 +623,14 @@ export type DocumentMinOrderByAggregateInput = {
   sourceUrl?: Prisma.SortOrder
   content?: Prisma.SortOrder
   summary?: Prisma.SortOrder
+  summaryChecksum?: Prisma.SortOrder
+  summarizedAt?: Prisma.SortOrder
+  textSearchConfig?: Prisma.SortOrder
   createdById?: Prisma.SortOrder
   updatedById?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
+  archivedAt?: Prisma.SortOrder
 }
 
 export type DocumentScalarRelationFilter = {
@@ -694,6 +810,20 @@ export type DocumentUpdateOneRequiredWithoutCommandsNestedInput = {
   update?: Prisma.XOR<Prisma.XOR<Prisma.DocumentUpdateToOneWithWhereWithoutCommandsInput, Prisma.DocumentUpdateWithoutCommandsInput>, Prisma.DocumentUncheckedUpdateWithoutCommandsInput>
 }
 
+export type DocumentCreateNestedOneWithoutTermsInput = {
+  create?: Prisma.XOR<Prisma.DocumentCreateWithoutTermsInput, Prisma.DocumentUncheckedCreateWithoutTermsInput>
+  connectOrCreate?: Prisma.DocumentCreateOrConnectWithoutTermsInput
+  connect?: Prisma.DocumentWhereUniqueInput
+}
+
+export type DocumentUpdateOneRequiredWithoutTermsNestedInput = {
+  create?: Prisma.XOR<Prisma.DocumentCreateWithoutTermsInput, Prisma.DocumentUncheckedCreateWithoutTermsInput>
+  connectOrCreate?: Prisma.DocumentCreateOrConnectWithoutTermsInput
+  upsert?: Prisma.DocumentUpsertWithoutTermsInput
+  connect?: Prisma.DocumentWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.DocumentUpdateToOneWithWhereWithoutTermsInput, Prisma.DocumentUpdateWithoutTermsInput>, Prisma.DocumentUncheckedUpdateWithoutTermsInput>
+}
+
 export type DocumentUpdateOneRequiredWithoutChunksNestedInput = {
   create?: Prisma.XOR<Prisma.DocumentCreateWithoutChunksInput, Prisma.DocumentUncheckedCreateWithoutChunksInput>
   connectOrCreate?: Prisma.DocumentCreateOrConnectWithoutChunksInput
@@ -730,6 +860,48 @@ export type DocumentUpdateOneRequiredWithoutJobsNestedInput = {
   update?: Prisma.XOR<Prisma.XOR<Prisma.DocumentUpdateToOneWithWhereWithoutJobsInput, Prisma.DocumentUpdateWithoutJobsInput>, Prisma.DocumentUncheckedUpdateWithoutJobsInput>
 }
 
+export type DocumentCreateNestedOneWithoutSavedSearchMatchesInput = {
+  create?: Prisma.XOR<Prisma.DocumentCreateWithoutSavedSearchMatchesInput, Prisma.DocumentUncheckedCreateWithoutSavedSearchMatchesInput>
+  connectOrCreate?: Prisma.DocumentCreateOrConnectWithoutSavedSearchMatchesInput
+  connect?: Prisma.DocumentWhereUniqueInput
+}
+
+export type DocumentUpdateOneRequiredWithoutSavedSearchMatchesNestedInput = {
+  create?: Prisma.XOR<Prisma.DocumentCreateWithoutSavedSearchMatchesInput, Prisma.DocumentUncheckedCreateWithoutSavedSearchMatchesInput>
+  connectOrCreate?: Prisma.DocumentCreateOrConnectWithoutSavedSearchMatchesInput
+  upsert?: Prisma.DocumentUpsertWithoutSavedSearchMatchesInput
+  connect?: Prisma.DocumentWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.DocumentUpdateToOneWithWhereWithoutSavedSearchMatchesInput, Prisma.DocumentUpdateWithoutSavedSearchMatchesInput>, Prisma.DocumentUncheckedUpdateWithoutSavedSearchMatchesInput>
+}
+
+export type DocumentCreateNestedOneWithoutDuplicatesAsFirstInput = {
+  create?: Prisma.XOR<Prisma.DocumentCreateWithoutDuplicatesAsFirstInput, Prisma.DocumentUncheckedCreateWithoutDuplicatesAsFirstInput>
+  connectOrCreate?: Prisma.DocumentCreateOrConnectWithoutDuplicatesAsFirstInput
+  connect?: Prisma.DocumentWhereUniqueInput
+}
+
+export type DocumentCreateNestedOneWithoutDuplicatesAsSecondInput = {
+  create?: Prisma.XOR<Prisma.DocumentCreateWithoutDuplicatesAsSecondInput, Prisma.DocumentUncheckedCreateWithoutDuplicatesAsSecondInput>
+  connectOrCreate?: Prisma.DocumentCreateOrConnectWithoutDuplicatesAsSecondInput
+  connect?: Prisma.DocumentWhereUniqueInput
+}
+
+export type DocumentUpdateOneRequiredWithoutDuplicatesAsFirstNestedInput = {
+  create?: Prisma.XOR<Prisma.DocumentCreateWithoutDuplicatesAsFirstInput, Prisma.DocumentUncheckedCreateWithoutDuplicatesAsFirstInput>
+  connectOrCreate?: Prisma.DocumentCreateOrConnectWithoutDuplicatesAsFirstInput
+  upsert?: Prisma.DocumentUpsertWithoutDuplicatesAsFirstInput
+  connect?: Prisma.DocumentWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.DocumentUpdateToOneWithWhereWithoutDuplicatesAsFirstInput, Prisma.DocumentUpdateWithoutDuplicatesAsFirstInput>, Prisma.DocumentUncheckedUpdateWithoutDuplicatesAsFirstInput>
+}
+
+export type DocumentUpdateOneRequiredWithoutDuplicatesAsSecondNestedInput = {
+  create?: Prisma.XOR<Prisma.DocumentCreateWithoutDuplicatesAsSecondInput, Prisma.DocumentUncheckedCreateWithoutDuplicatesAsSecondInput>
+  connectOrCreate?: Prisma.DocumentCreateOrConnectWithoutDuplicatesAsSecondInput
+  upsert?: Prisma.DocumentUpsertWithoutDuplicatesAsSecondInput
+  connect?: Prisma.DocumentWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.DocumentUpdateToOneWithWhereWithoutDuplicatesAsSecondInput, Prisma.DocumentUpdateWithoutDuplicatesAsSecondInput>, Prisma.DocumentUncheckedUpdateWithoutDuplicatesAsSecondInput>
+}
+
 export type DocumentCreateWithoutTenantInput = {
   id?: string
   title: string
@@ -737,9 +909,13 @@ export type DocumentCreateWithoutTenantInput = {
   sourceUrl?: string | null
   content?: string | null
   summary?: string | null
+  summaryChecksum?: string | null
+  summarizedAt?: Date | string | null
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  textSearchConfig?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
+  archivedAt?: Date | string | null
   createdBy: Prisma.UserCreateNestedOneWithoutCreatedDocumentsInput
   updatedBy: Prisma.UserCreateNestedOneWithoutUpdatedDocumentsInput
   favorites?: Prisma.DocumentFavoriteCreateNestedManyWithoutDocumentInput
@@ -748,6 +924,10 @@ export type DocumentCreateWithoutTenantInput = {
   chunks?: Prisma.DocumentChunkCreateNestedManyWithoutDocumentInput
   indexState?: Prisma.DocumentIndexStateCreateNestedOneWithoutDocumentInput
   tags?: Prisma.DocumentTagCreateNestedManyWithoutDocumentInput
+  terms?: Prisma.DocumentTermCreateNestedManyWithoutDocumentInput
+  savedSearchMatches?: Prisma.SavedSearchMatchCreateNestedManyWithoutDocumentInput
+  duplicatesAsFirst?: Prisma.DocumentDuplicateCreateNestedManyWithoutDocumentInput
+  duplicatesAsSecond?: Prisma.DocumentDuplicateCreateNestedManyWithoutDuplicateInput
 }
 
 export type DocumentUncheckedCreateWithoutTenantInput = {
@@ -757,17 +937,25 @@ export type DocumentUncheckedCreateWithoutTenantInput = {
   sourceUrl?: string | null
   content?: string | null
   summary?: string | null
+  summaryChecksum?: string | null
+  summarizedAt?: Date | string | null
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  textSearchConfig?: string | null
   createdById: string
   updatedById: string
   createdAt?: Date | string
   updatedAt?: Date | string
+  archivedAt?: Date | string | null
   favorites?: Prisma.DocumentFavoriteUncheckedCreateNestedManyWithoutDocumentInput
   commands?: Prisma.DocumentCommandUncheckedCreateNestedManyWithoutDocumentInput
   jobs?: Prisma.IndexJobUncheckedCreateNestedManyWithoutDocumentInput
   chunks?: Prisma.DocumentChunkUncheckedCreateNestedManyWithoutDocumentInput
   indexState?: Prisma.DocumentIndexStateUncheckedCreateNestedOneWithoutDocumentInput
   tags?: Prisma.DocumentTagUncheckedCreateNestedManyWithoutDocumentInput
+  terms?: Prisma.DocumentTermUncheckedCreateNestedManyWithoutDocumentInput
+  savedSearchMatches?: Prisma.SavedSearchMatchUncheckedCreateNestedManyWithoutDocumentInput
+  duplicatesAsFirst?: Prisma.DocumentDuplicateUncheckedCreateNestedManyWithoutDocumentInput
+  duplicatesAsSecond?: Prisma.DocumentDuplicateUncheckedCreateNestedManyWithoutDuplicateInput
 }
 
 export type DocumentCreateOrConnectWithoutTenantInput = {
@@ -807,11 +995,15 @@ export type DocumentScalarWhereInput = {
   sourceUrl?: Prisma.StringNullableFilter<"Document"> | string | null
   content?: Prisma.StringNullableFilter<"Document"> | string | null
   summary?: Prisma.StringNullableFilter<"Document"> | string | null
+  summaryChecksum?: Prisma.StringNullableFilter<"Document"> | string | null
+  summarizedAt?: Prisma.DateTimeNullableFilter<"Document"> | Date | string | null
   metadata?: Prisma.JsonNullableFilter<"Document">
+  textSearchConfig?: Prisma.StringNullableFilter<"Document"> | string | null
   createdById?: Prisma.StringFilter<"Document"> | string
   updatedById?: Prisma.StringFilter<"Document"> | string
   createdAt?: Prisma.DateTimeFilter<"Document"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"Document"> | Date | string
+  archivedAt?: Prisma.DateTimeNullableFilter<"Document"> | Date | string | null
 }
 
 export type DocumentCreateWithoutCreatedByInput = {
@@ -821,9 +1013,13 @@ export type DocumentCreateWithoutCreatedByInput = {
   sourceUrl?: string | null
   content?: string | null
   summary?: string | null
+  summaryChecksum?: string | null
+  summarizedAt?: Date | string | null
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  textSearchConfig?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
+  archivedAt?: Date | string | null
   tenant: Prisma.TenantCreateNestedOneWithoutDocumentsInput
   updatedBy: Prisma.UserCreateNestedOneWithoutUpdatedDocumentsInput
   favorites?: Prisma.DocumentFavoriteCreateNestedManyWithoutDocumentInput
@@ -832,6 +1028,10 @@ export type DocumentCreateWithoutCreatedByInput = {
   chunks?: Prisma.DocumentChunkCreateNestedManyWithoutDocumentInput
   indexState?: Prisma.DocumentIndexStateCreateNestedOneWithoutDocumentInput
   tags?: Prisma.DocumentTagCreateNestedManyWithoutDocumentInput
+  terms?: Prisma.DocumentTermCreateNestedManyWithoutDocumentInput
+  savedSearchMatches?: Prisma.SavedSearchMatchCreateNestedManyWithoutDocumentInput
+  duplicatesAsFirst?: Prisma.DocumentDuplicateCreateNestedManyWithoutDocumentInput
+  duplicatesAsSecond?: Prisma.DocumentDuplicateCreateNestedManyWithoutDuplicateInput
 }
 
 export type DocumentUncheckedCreateWithoutCreatedByInput = {
@@ -842,16 +1042,24 @@ export type DocumentUncheckedCreateWithoutCreatedByInput = {
   sourceUrl?: string | null
   content?: string | null
   summary?: string | null
+  summaryChecksum?: string | null
+  summarizedAt?: Date | string | null
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  textSearchConfig?: string | null
   updatedById: string
   createdAt?: Date | string
   updatedAt?: Date | string
+  archivedAt?: Date | string | null
   favorites?: Prisma.DocumentFavoriteUncheckedCreateNestedManyWithoutDocumentInput
   commands?: Prisma.DocumentCommandUncheckedCreateNestedManyWithoutDocumentInput
   jobs?: Prisma.IndexJobUncheckedCreateNestedManyWithoutDocumentInput
   chunks?: Prisma.DocumentChunkUncheckedCreateNestedManyWithoutDocumentInput
   indexState?: Prisma.DocumentIndexStateUncheckedCreateNestedOneWithoutDocumentInput
   tags?: Prisma.DocumentTagUncheckedCreateNestedManyWithoutDocumentInput
+  terms?: Prisma.DocumentTermUncheckedCreateNestedManyWithoutDocumentInput
+  savedSearchMatches?: Prisma.SavedSearchMatchUncheckedCreateNestedManyWithoutDocumentInput
+  duplicatesAsFirst?: Prisma.DocumentDuplicateUncheckedCreateNestedManyWithoutDocumentInput
+  duplicatesAsSecond?: Prisma.DocumentDuplicateUncheckedCreateNestedManyWithoutDuplicateInput
 }
 
 export type DocumentCreateOrConnectWithoutCreatedByInput = {
@@ -871,9 +1079,13 @@ export type DocumentCreateWithoutUpdatedByInput = {
   sourceUrl?: string | null
   content?: string | null
   summary?: string | null
+  summaryChecksum?: string | null
+  summarizedAt?: Date | string | null
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  textSearchConfig?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
+  archivedAt?: Date | string | null
   tenant: Prisma.TenantCreateNestedOneWithoutDocumentsInput
   createdBy: Prisma.UserCreateNestedOneWithoutCreatedDocumentsInput
   favorites?: Prisma.DocumentFavoriteCreateNestedManyWithoutDocumentInput
@@ -882,6 +1094,10 @@ export type DocumentCreateWithoutUpdatedByInput = {
   chunks?: Prisma.DocumentChunkCreateNestedManyWithoutDocumentInput
   indexState?: Prisma.DocumentIndexStateCreateNestedOneWithoutDocumentInput
   tags?: Prisma.DocumentTagCreateNestedManyWithoutDocumentInput
+  terms?: Prisma.DocumentTermCreateNestedManyWithoutDocumentInput
+  savedSearchMatches?: Prisma.SavedSearchMatchCreateNestedManyWithoutDocumentInput
+  duplicatesAsFirst?: Prisma.DocumentDuplicateCreateNestedManyWithoutDocumentInput
+  duplicatesAsSecond?: Prisma.DocumentDuplicateCreateNestedManyWithoutDuplicateInput
 }
 
 export type DocumentUncheckedCreateWithoutUpdatedByInput = {
@@ -892,16 +1108,24 @@ export type DocumentUncheckedCreateWithoutUpdatedByInput = {
   sourceUrl?: string | null
   content?: string | null
   summary?: string | null
+  summaryChecksum?: string | null
+  summarizedAt?: Date | string | null
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  textSearchConfig?: string | null
   createdById: string
   createdAt?: Date | string
   updatedAt?: Date | string
+  archivedAt?: Date | string | null
   favorites?: Prisma.DocumentFavoriteUncheckedCreateNestedManyWithoutDocumentInput
   commands?: Prisma.DocumentCommandUncheckedCreateNestedManyWithoutDocumentInput
   jobs?: Prisma.IndexJobUncheckedCreateNestedManyWithoutDocumentInput
   chunks?: Prisma.DocumentChunkUncheckedCreateNestedManyWithoutDocumentInput
   indexState?: Prisma.DocumentIndexStateUncheckedCreateNestedOneWithoutDocumentInput
   tags?: Prisma.DocumentTagUncheckedCreateNestedManyWithoutDocumentInput
+  terms?: Prisma.DocumentTermUncheckedCreateNestedManyWithoutDocumentInput
+  savedSearchMatches?: Prisma.SavedSearchMatchUncheckedCreateNestedManyWithoutDocumentInput
+  duplicatesAsFirst?: Prisma.DocumentDuplicateUncheckedCreateNestedManyWithoutDocumentInput
+  duplicatesAsSecond?: Prisma.DocumentDuplicateUncheckedCreateNestedManyWithoutDuplicateInput
 }
 
 export type DocumentCreateOrConnectWithoutUpdatedByInput = {
@@ -953,9 +1177,13 @@ export type DocumentCreateWithoutTagsInput = {
   sourceUrl?: string | null
   content?: string | null
   summary?: string | null
+  summaryChecksum?: string | null
+  summarizedAt?: Date | string | null
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  textSearchConfig?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
+  archivedAt?: Date | string | null
   tenant: Prisma.TenantCreateNestedOneWithoutDocumentsInput
   createdBy: Prisma.UserCreateNestedOneWithoutCreatedDocumentsInput
   updatedBy: Prisma.UserCreateNestedOneWithoutUpdatedDocumentsInput
@@ -964,6 +1192,10 @@ export type DocumentCreateWithoutTagsInput = {
   jobs?: Prisma.IndexJobCreateNestedManyWithoutDocumentInput
   chunks?: Prisma.DocumentChunkCreateNestedManyWithoutDocumentInput
   indexState?: Prisma.DocumentIndexStateCreateNestedOneWithoutDocumentInput
+  terms?: Prisma.DocumentTermCreateNestedManyWithoutDocumentInput
+  savedSearchMatches?: Prisma.SavedSearchMatchCreateNestedManyWithoutDocumentInput
+  duplicatesAsFirst?: Prisma.DocumentDuplicateCreateNestedManyWithoutDocumentInput
+  duplicatesAsSecond?: Prisma.DocumentDuplicateCreateNestedManyWithoutDuplicateInput
 }
 
 export type DocumentUncheckedCreateWithoutTagsInput = {
@@ -974,16 +1206,24 @@ export type DocumentUncheckedCreateWithoutTagsInput = {
   sourceUrl?: string | null
   content?: string | null
   summary?: string | null
+  summaryChecksum?: string | null
+  summarizedAt?: Date | string | null
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  textSearchConfig?: string | null
   createdById: string
   updatedById: string
   createdAt?: Date | string
   updatedAt?: Date | string
+  archivedAt?: Date | string | null
   favorites?: Prisma.DocumentFavoriteUncheckedCreateNestedManyWithoutDocumentInput
   commands?: Prisma.DocumentCommandUncheckedCreateNestedManyWithoutDocumentInput
   jobs?: Prisma.IndexJobUncheckedCreateNestedManyWithoutDocumentInput
   chunks?: Prisma.DocumentChunkUncheckedCreateNestedManyWithoutDocumentInput
   indexState?: Prisma.DocumentIndexStateUncheckedCreateNestedOneWithoutDocumentInput
+  terms?: Prisma.DocumentTermUncheckedCreateNestedManyWithoutDocumentInput
+  savedSearchMatches?: Prisma.SavedSearchMatchUncheckedCreateNestedManyWithoutDocumentInput
+  duplicatesAsFirst?: Prisma.DocumentDuplicateUncheckedCreateNestedManyWithoutDocumentInput
+  duplicatesAsSecond?: Prisma.DocumentDuplicateUncheckedCreateNestedManyWithoutDuplicateInput
 }
 
 export type DocumentCreateOrConnectWithoutTagsInput = {
@@ -1009,9 +1249,13 @@ export type DocumentUpdateWithoutTagsInput = {
   sourceUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   content?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   summary?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  summaryChecksum?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  summarizedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  textSearchConfig?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  archivedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   tenant?: Prisma.TenantUpdateOneRequiredWithoutDocumentsNestedInput
   createdBy?: Prisma.UserUpdateOneRequiredWithoutCreatedDocumentsNestedInput
   updatedBy?: Prisma.UserUpdateOneRequiredWithoutUpdatedDocumentsNestedInput
@@ -1020,6 +1264,10 @@ export type DocumentUpdateWithoutTagsInput = {
   jobs?: Prisma.IndexJobUpdateManyWithoutDocumentNestedInput
   chunks?: Prisma.DocumentChunkUpdateManyWithoutDocumentNestedInput
   indexState?: Prisma.DocumentIndexStateUpdateOneWithoutDocumentNestedInput
+  terms?: Prisma.DocumentTermUpdateManyWithoutDocumentNestedInput
+  savedSearchMatches?: Prisma.SavedSearchMatchUpdateManyWithoutDocumentNestedInput
+  duplicatesAsFirst?: Prisma.DocumentDuplicateUpdateManyWithoutDocumentNestedInput
+  duplicatesAsSecond?: Prisma.DocumentDuplicateUpdateManyWithoutDuplicateNestedInput
 }
 
 export type DocumentUncheckedUpdateWithoutTagsInput = {
@@ -1030,16 +1278,24 @@ export type DocumentUncheckedUpdateWithoutTagsInput = {
   sourceUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   content?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   summary?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  summaryChecksum?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  summarizedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  textSearchConfig?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdById?: Prisma.StringFieldUpdateOperationsInput | string
   updatedById?: Prisma.StringFieldUpdateOperationsInput | string
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  archivedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   favorites?: Prisma.DocumentFavoriteUncheckedUpdateManyWithoutDocumentNestedInput
   commands?: Prisma.DocumentCommandUncheckedUpdateManyWithoutDocumentNestedInput
   jobs?: Prisma.IndexJobUncheckedUpdateManyWithoutDocumentNestedInput
   chunks?: Prisma.DocumentChunkUncheckedUpdateManyWithoutDocumentNestedInput
   indexState?: Prisma.DocumentIndexStateUncheckedUpdateOneWithoutDocumentNestedInput
+  terms?: Prisma.DocumentTermUncheckedUpdateManyWithoutDocumentNestedInput
+  savedSearchMatches?: Prisma.SavedSearchMatchUncheckedUpdateManyWithoutDocumentNestedInput
+  duplicatesAsFirst?: Prisma.DocumentDuplicateUncheckedUpdateManyWithoutDocumentNestedInput
+  duplicatesAsSecond?: Prisma.DocumentDuplicateUncheckedUpdateManyWithoutDuplicateNestedInput
 }
 
 export type DocumentCreateWithoutFavoritesInput = {
@@ -1049,9 +1305,13 @@ export type DocumentCreateWithoutFavoritesInput = {
   sourceUrl?: string | null
   content?: string | null
   summary?: string | null
+  summaryChecksum?: string | null
+  summarizedAt?: Date | string | null
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  textSearchConfig?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
+  archivedAt?: Date | string | null
   tenant: Prisma.TenantCreateNestedOneWithoutDocumentsInput
   createdBy: Prisma.UserCreateNestedOneWithoutCreatedDocumentsInput
   updatedBy: Prisma.UserCreateNestedOneWithoutUpdatedDocumentsInput
@@ -1060,6 +1320,10 @@ export type DocumentCreateWithoutFavoritesInput = {
   chunks?: Prisma.DocumentChunkCreateNestedManyWithoutDocumentInput
   indexState?: Prisma.DocumentIndexStateCreateNestedOneWithoutDocumentInput
   tags?: Prisma.DocumentTagCreateNestedManyWithoutDocumentInput
+  terms?: Prisma.DocumentTermCreateNestedManyWithoutDocumentInput
+  savedSearchMatches?: Prisma.SavedSearchMatchCreateNestedManyWithoutDocumentInput
+  duplicatesAsFirst?: Prisma.DocumentDuplicateCreateNestedManyWithoutDocumentInput
+  duplicatesAsSecond?: Prisma.DocumentDuplicateCreateNestedManyWithoutDuplicateInput
 }
 
 export type DocumentUncheckedCreateWithoutFavoritesInput = {
@@ -1070,16 +1334,24 @@ export type DocumentUncheckedCreateWithoutFavoritesInput = {
   sourceUrl?: string | null
   content?: string | null
   summary?: string | null
+  summaryChecksum?: string | null
+  summarizedAt?: Date | string | null
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  textSearchConfig?: string | null
   createdById: string
   updatedById: string
   createdAt?: Date | string
   updatedAt?: Date | string
+  archivedAt?: Date | string | null
   commands?: Prisma.DocumentCommandUncheckedCreateNestedManyWithoutDocumentInput
   jobs?: Prisma.IndexJobUncheckedCreateNestedManyWithoutDocumentInput
   chunks?: Prisma.DocumentChunkUncheckedCreateNestedManyWithoutDocumentInput
   indexState?: Prisma.DocumentIndexStateUncheckedCreateNestedOneWithoutDocumentInput
   tags?: Prisma.DocumentTagUncheckedCreateNestedManyWithoutDocumentInput
+  terms?: Prisma.DocumentTermUncheckedCreateNestedManyWithoutDocumentInput
+  savedSearchMatches?: Prisma.SavedSearchMatchUncheckedCreateNestedManyWithoutDocumentInput
+  duplicatesAsFirst?: Prisma.DocumentDuplicateUncheckedCreateNestedManyWithoutDocumentInput
+  duplicatesAsSecond?: Prisma.DocumentDuplicateUncheckedCreateNestedManyWithoutDuplicateInput
 }
 
 export type DocumentCreateOrConnectWithoutFavoritesInput = {
@@ -1105,9 +1377,13 @@ export type DocumentUpdateWithoutFavoritesInput = {
   sourceUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   content?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   summary?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  summaryChecksum?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  summarizedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  textSearchConfig?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  archivedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   tenant?: Prisma.TenantUpdateOneRequiredWithoutDocumentsNestedInput
   createdBy?: Prisma.UserUpdateOneRequiredWithoutCreatedDocumentsNestedInput
   updatedBy?: Prisma.UserUpdateOneRequiredWithoutUpdatedDocumentsNestedInput
@@ -1116,6 +1392,10 @@ export type DocumentUpdateWithoutFavoritesInput = {
   chunks?: Prisma.DocumentChunkUpdateManyWithoutDocumentNestedInput
   indexState?: Prisma.DocumentIndexStateUpdateOneWithoutDocumentNestedInput
   tags?: Prisma.DocumentTagUpdateManyWithoutDocumentNestedInput
+  terms?: Prisma.DocumentTermUpdateManyWithoutDocumentNestedInput
+  savedSearchMatches?: Prisma.SavedSearchMatchUpdateManyWithoutDocumentNestedInput
+  duplicatesAsFirst?: Prisma.DocumentDuplicateUpdateManyWithoutDocumentNestedInput
+  duplicatesAsSecond?: Prisma.DocumentDuplicateUpdateManyWithoutDuplicateNestedInput
 }
 
 export type DocumentUncheckedUpdateWithoutFavoritesInput = {
@@ -1126,16 +1406,24 @@ export type DocumentUncheckedUpdateWithoutFavoritesInput = {
   sourceUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   content?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   summary?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  summaryChecksum?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  summarizedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  textSearchConfig?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdById?: Prisma.StringFieldUpdateOperationsInput | string
   updatedById?: Prisma.StringFieldUpdateOperationsInput | string
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  archivedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   commands?: Prisma.DocumentCommandUncheckedUpdateManyWithoutDocumentNestedInput
   jobs?: Prisma.IndexJobUncheckedUpdateManyWithoutDocumentNestedInput
   chunks?: Prisma.DocumentChunkUncheckedUpdateManyWithoutDocumentNestedInput
   indexState?: Prisma.DocumentIndexStateUncheckedUpdateOneWithoutDocumentNestedInput
   tags?: Prisma.DocumentTagUncheckedUpdateManyWithoutDocumentNestedInput
+  terms?: Prisma.DocumentTermUncheckedUpdateManyWithoutDocumentNestedInput
+  savedSearchMatches?: Prisma.SavedSearchMatchUncheckedUpdateManyWithoutDocumentNestedInput
+  duplicatesAsFirst?: Prisma.DocumentDuplicateUncheckedUpdateManyWithoutDocumentNestedInput
+  duplicatesAsSecond?: Prisma.DocumentDuplicateUncheckedUpdateManyWithoutDuplicateNestedInput
 }
 
 export type DocumentCreateWithoutCommandsInput = {
@@ -1145,9 +1433,13 @@ export type DocumentCreateWithoutCommandsInput = {
   sourceUrl?: string | null
   content?: string | null
   summary?: string | null
+  summaryChecksum?: string | null
+  summarizedAt?: Date | string | null
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  textSearchConfig?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
+  archivedAt?: Date | string | null
   tenant: Prisma.TenantCreateNestedOneWithoutDocumentsInput
   createdBy: Prisma.UserCreateNestedOneWithoutCreatedDocumentsInput
   updatedBy: Prisma.UserCreateNestedOneWithoutUpdatedDocumentsInput
@@ -1156,6 +1448,10 @@ export type DocumentCreateWithoutCommandsInput = {
   chunks?: Prisma.DocumentChunkCreateNestedManyWithoutDocumentInput
   indexState?: Prisma.DocumentIndexStateCreateNestedOneWithoutDocumentInput
   tags?: Prisma.DocumentTagCreateNestedManyWithoutDocumentInput
+  terms?: Prisma.DocumentTermCreateNestedManyWithoutDocumentInput
+  savedSearchMatches?: Prisma.SavedSearchMatchCreateNestedManyWithoutDocumentInput
+  duplicatesAsFirst?: Prisma.DocumentDuplicateCreateNestedManyWithoutDocumentInput
+  duplicatesAsSecond?: Prisma.DocumentDuplicateCreateNestedManyWithoutDuplicateInput
 }
 
 export type DocumentUncheckedCreateWithoutCommandsInput = {
@@ -1166,16 +1462,24 @@ export type DocumentUncheckedCreateWithoutCommandsInput = {
   sourceUrl?: string | null
   content?: string | null
   summary?: string | null
+  summaryChecksum?: string | null
+  summarizedAt?: Date | string | null
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  textSearchConfig?: string | null
   createdById: string
   updatedById: string
   createdAt?: Date | string
   updatedAt?: Date | string
+  archivedAt?: Date | string | null
   favorites?: Prisma.DocumentFavoriteUncheckedCreateNestedManyWithoutDocumentInput
   jobs?: Prisma.IndexJobUncheckedCreateNestedManyWithoutDocumentInput
   chunks?: Prisma.DocumentChunkUncheckedCreateNestedManyWithoutDocumentInput
   indexState?: Prisma.DocumentIndexStateUncheckedCreateNestedOneWithoutDocumentInput
   tags?: Prisma.DocumentTagUncheckedCreateNestedManyWithoutDocumentInput
+  terms?: Prisma.DocumentTermUncheckedCreateNestedManyWithoutDocumentInput
+  savedSearchMatches?: Prisma.SavedSearchMatchUncheckedCreateNestedManyWithoutDocumentInput
+  duplicatesAsFirst?: Prisma.DocumentDuplicateUncheckedCreateNestedManyWithoutDocumentInput
+  duplicatesAsSecond?: Prisma.DocumentDuplicateUncheckedCreateNestedManyWithoutDuplicateInput
 }
 
 export type DocumentCreateOrConnectWithoutCommandsInput = {
@@ -1201,9 +1505,13 @@ export type DocumentUpdateWithoutCommandsInput = {
   sourceUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   content?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   summary?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  summaryChecksum?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  summarizedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  textSearchConfig?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  archivedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   tenant?: Prisma.TenantUpdateOneRequiredWithoutDocumentsNestedInput
   createdBy?: Prisma.UserUpdateOneRequiredWithoutCreatedDocumentsNestedInput
   updatedBy?: Prisma.UserUpdateOneRequiredWithoutUpdatedDocumentsNestedInput
@@ -1212,6 +1520,10 @@ export type DocumentUpdateWithoutCommandsInput = {
   chunks?: Prisma.DocumentChunkUpdateManyWithoutDocumentNestedInput
   indexState?: Prisma.DocumentIndexStateUpdateOneWithoutDocumentNestedInput
   tags?: Prisma.DocumentTagUpdateManyWithoutDocumentNestedInput
+  terms?: Prisma.DocumentTermUpdateManyWithoutDocumentNestedInput
+  savedSearchMatches?: Prisma.SavedSearchMatchUpdateManyWithoutDocumentNestedInput
+  duplicatesAsFirst?: Prisma.DocumentDuplicateUpdateManyWithoutDocumentNestedInput
+  duplicatesAsSecond?: Prisma.DocumentDuplicateUpdateManyWithoutDuplicateNestedInput
 }
 
 export type DocumentUncheckedUpdateWithoutCommandsInput = {
@@ -1222,16 +1534,152 @@ export type DocumentUncheckedUpdateWithoutCommandsInput = {
   sourceUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   content?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   summary?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  summaryChecksum?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  summarizedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  textSearchConfig?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdById?: Prisma.StringFieldUpdateOperationsInput | string
   updatedById?: Prisma.StringFieldUpdateOperationsInput | string
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  archivedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   favorites?: Prisma.DocumentFavoriteUncheckedUpdateManyWithoutDocumentNestedInput
   jobs?: Prisma.IndexJobUncheckedUpdateManyWithoutDocumentNestedInput
   chunks?: Prisma.DocumentChunkUncheckedUpdateManyWithoutDocumentNestedInput
   indexState?: Prisma.DocumentIndexStateUncheckedUpdateOneWithoutDocumentNestedInput
   tags?: Prisma.DocumentTagUncheckedUpdateManyWithoutDocumentNestedInput
+  terms?: Prisma.DocumentTermUncheckedUpdateManyWithoutDocumentNestedInput
+  savedSearchMatches?: Prisma.SavedSearchMatchUncheckedUpdateManyWithoutDocumentNestedInput
+  duplicatesAsFirst?: Prisma.DocumentDuplicateUncheckedUpdateManyWithoutDocumentNestedInput
+  duplicatesAsSecond?: Prisma.DocumentDuplicateUncheckedUpdateManyWithoutDuplicateNestedInput
+}
+
+export type DocumentCreateWithoutTermsInput = {
+  id?: string
+  title: string
+  source?: $Enums.DocumentSource
+  sourceUrl?: string | null
+  content?: string | null
+  summary?: string | null
+  summaryChecksum?: string | null
+  summarizedAt?: Date | string | null
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  textSearchConfig?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  archivedAt?: Date | string | null
+  tenant: Prisma.TenantCreateNestedOneWithoutDocumentsInput
+  createdBy: Prisma.UserCreateNestedOneWithoutCreatedDocumentsInput
+  updatedBy: Prisma.UserCreateNestedOneWithoutUpdatedDocumentsInput
+  favorites?: Prisma.DocumentFavoriteCreateNestedManyWithoutDocumentInput
+  commands?: Prisma.DocumentCommandCreateNestedManyWithoutDocumentInput
+  jobs?: Prisma.IndexJobCreateNestedManyWithoutDocumentInput
+  chunks?: Prisma.DocumentChunkCreateNestedManyWithoutDocumentInput
+  indexState?: Prisma.DocumentIndexStateCreateNestedOneWithoutDocumentInput
+  tags?: Prisma.DocumentTagCreateNestedManyWithoutDocumentInput
+  savedSearchMatches?: Prisma.SavedSearchMatchCreateNestedManyWithoutDocumentInput
+  duplicatesAsFirst?: Prisma.DocumentDuplicateCreateNestedManyWithoutDocumentInput
+  duplicatesAsSecond?: Prisma.DocumentDuplicateCreateNestedManyWithoutDuplicateInput
+}
+
+export type DocumentUncheckedCreateWithoutTermsInput = {
+  id?: string
+  tenantId: string
+  title: string
+  source?: $Enums.DocumentSource
+  sourceUrl?: string | null
+  content?: string | null
+  summary?: string | null
+  summaryChecksum?: string | null
+  summarizedAt?: Date | string | null
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  textSearchConfig?: string | null
+  createdById: string
+  updatedById: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  archivedAt?: Date | string | null
+  favorites?: Prisma.DocumentFavoriteUncheckedCreateNestedManyWithoutDocumentInput
+  commands?: Prisma.DocumentCommandUncheckedCreateNestedManyWithoutDocumentInput
+  jobs?: Prisma.IndexJobUncheckedCreateNestedManyWithoutDocumentInput
+  chunks?: Prisma.DocumentChunkUncheckedCreateNestedManyWithoutDocumentInput
+  indexState?: Prisma.DocumentIndexStateUncheckedCreateNestedOneWithoutDocumentInput
+  tags?: Prisma.DocumentTagUncheckedCreateNestedManyWithoutDocumentInput
+  savedSearchMatches?: Prisma.SavedSearchMatchUncheckedCreateNestedManyWithoutDocumentInput
+  duplicatesAsFirst?: Prisma.DocumentDuplicateUncheckedCreateNestedManyWithoutDocumentInput
+  duplicatesAsSecond?: Prisma.DocumentDuplicateUncheckedCreateNestedManyWithoutDuplicateInput
+}
+
+export type DocumentCreateOrConnectWithoutTermsInput = {
+  where: Prisma.DocumentWhereUniqueInput
+  create: Prisma.XOR<Prisma.DocumentCreateWithoutTermsInput, Prisma.DocumentUncheckedCreateWithoutTermsInput>
+}
+
+export type DocumentUpsertWithoutTermsInput = {
+  update: Prisma.XOR<Prisma.DocumentUpdateWithoutTermsInput, Prisma.DocumentUncheckedUpdateWithoutTermsInput>
+  create: Prisma.XOR<Prisma.DocumentCreateWithoutTermsInput, Prisma.DocumentUncheckedCreateWithoutTermsInput>
+  where?: Prisma.DocumentWhereInput
+}
+
+export type DocumentUpdateToOneWithWhereWithoutTermsInput = {
+  where?: Prisma.DocumentWhereInput
+  data: Prisma.XOR<Prisma.DocumentUpdateWithoutTermsInput, Prisma.DocumentUncheckedUpdateWithoutTermsInput>
+}
+
+export type DocumentUpdateWithoutTermsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  title?: Prisma.StringFieldUpdateOperationsInput | string
+  source?: Prisma.EnumDocumentSourceFieldUpdateOperationsInput | $Enums.DocumentSource
+  sourceUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  content?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  summary?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  summaryChecksum?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  summarizedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  textSearchConfig?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  archivedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  tenant?: Prisma.TenantUpdateOneRequiredWithoutDocumentsNestedInput
+  createdBy?: Prisma.UserUpdateOneRequiredWithoutCreatedDocumentsNestedInput
+  updatedBy?: Prisma.UserUpdateOneRequiredWithoutUpdatedDocumentsNestedInput
+  favorites?: Prisma.DocumentFavoriteUpdateManyWithoutDocumentNestedInput
+  commands?: Prisma.DocumentCommandUpdateManyWithoutDocumentNestedInput
+  jobs?: Prisma.IndexJobUpdateManyWithoutDocumentNestedInput
+  chunks?: Prisma.DocumentChunkUpdateManyWithoutDocumentNestedInput
+  indexState?: Prisma.DocumentIndexStateUpdateOneWithoutDocumentNestedInput
+  tags?: Prisma.DocumentTagUpdateManyWithoutDocumentNestedInput
+  savedSearchMatches?: Prisma.SavedSearchMatchUpdateManyWithoutDocumentNestedInput
+  duplicatesAsFirst?: Prisma.DocumentDuplicateUpdateManyWithoutDocumentNestedInput
+  duplicatesAsSecond?: Prisma.DocumentDuplicateUpdateManyWithoutDuplicateNestedInput
+}
+
+export type DocumentUncheckedUpdateWithoutTermsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  tenantId?: Prisma.StringFieldUpdateOperationsInput | string
+  title?: Prisma.StringFieldUpdateOperationsInput | string
+  source?: Prisma.EnumDocumentSourceFieldUpdateOperationsInput | $Enums.DocumentSource
+  sourceUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  content?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  summary?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  summaryChecksum?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  summarizedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  textSearchConfig?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdById?: Prisma.StringFieldUpdateOperationsInput | string
+  updatedById?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  archivedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  favorites?: Prisma.DocumentFavoriteUncheckedUpdateManyWithoutDocumentNestedInput
+  commands?: Prisma.DocumentCommandUncheckedUpdateManyWithoutDocumentNestedInput
+  jobs?: Prisma.IndexJobUncheckedUpdateManyWithoutDocumentNestedInput
+  chunks?: Prisma.DocumentChunkUncheckedUpdateManyWithoutDocumentNestedInput
+  indexState?: Prisma.DocumentIndexStateUncheckedUpdateOneWithoutDocumentNestedInput
+  tags?: Prisma.DocumentTagUncheckedUpdateManyWithoutDocumentNestedInput
+  savedSearchMatches?: Prisma.SavedSearchMatchUncheckedUpdateManyWithoutDocumentNestedInput
+  duplicatesAsFirst?: Prisma.DocumentDuplicateUncheckedUpdateManyWithoutDocumentNestedInput
+  duplicatesAsSecond?: Prisma.DocumentDuplicateUncheckedUpdateManyWithoutDuplicateNestedInput
 }
 
 export type DocumentCreateWithoutChunksInput = {
@@ -1241,9 +1689,13 @@ export type DocumentCreateWithoutChunksInput = {
   sourceUrl?: string | null
   content?: string | null
   summary?: string | null
+  summaryChecksum?: string | null
+  summarizedAt?: Date | string | null
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  textSearchConfig?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
+  archivedAt?: Date | string | null
   tenant: Prisma.TenantCreateNestedOneWithoutDocumentsInput
   createdBy: Prisma.UserCreateNestedOneWithoutCreatedDocumentsInput
   updatedBy: Prisma.UserCreateNestedOneWithoutUpdatedDocumentsInput
@@ -1252,6 +1704,10 @@ export type DocumentCreateWithoutChunksInput = {
   jobs?: Prisma.IndexJobCreateNestedManyWithoutDocumentInput
   indexState?: Prisma.DocumentIndexStateCreateNestedOneWithoutDocumentInput
   tags?: Prisma.DocumentTagCreateNestedManyWithoutDocumentInput
+  terms?: Prisma.DocumentTermCreateNestedManyWithoutDocumentInput
+  savedSearchMatches?: Prisma.SavedSearchMatchCreateNestedManyWithoutDocumentInput
+  duplicatesAsFirst?: Prisma.DocumentDuplicateCreateNestedManyWithoutDocumentInput
+  duplicatesAsSecond?: Prisma.DocumentDuplicateCreateNestedManyWithoutDuplicateInput
 }
 
 export type DocumentUncheckedCreateWithoutChunksInput = {
@@ -1262,16 +1718,24 @@ export type DocumentUncheckedCreateWithoutChunksInput = {
   sourceUrl?: string | null
   content?: string | null
   summary?: string | null
+  summaryChecksum?: string | null
+  summarizedAt?: Date | string | null
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  textSearchConfig?: string | null
   createdById: string
   updatedById: string
   createdAt?: Date | string
   updatedAt?: Date | string
+  archivedAt?: Date | string | null
   favorites?: Prisma.DocumentFavoriteUncheckedCreateNestedManyWithoutDocumentInput
   commands?: Prisma.DocumentCommandUncheckedCreateNestedManyWithoutDocumentInput
   jobs?: Prisma.IndexJobUncheckedCreateNestedManyWithoutDocumentInput
   indexState?: Prisma.DocumentIndexStateUncheckedCreateNestedOneWithoutDocumentInput
   tags?: Prisma.DocumentTagUncheckedCreateNestedManyWithoutDocumentInput
+  terms?: Prisma.DocumentTermUncheckedCreateNestedManyWithoutDocumentInput
+  savedSearchMatches?: Prisma.SavedSearchMatchUncheckedCreateNestedManyWithoutDocumentInput
+  duplicatesAsFirst?: Prisma.DocumentDuplicateUncheckedCreateNestedManyWithoutDocumentInput
+  duplicatesAsSecond?: Prisma.DocumentDuplicateUncheckedCreateNestedManyWithoutDuplicateInput
 }
 
 export type DocumentCreateOrConnectWithoutChunksInput = {
@@ -1297,9 +1761,13 @@ export type DocumentUpdateWithoutChunksInput = {
   sourceUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   content?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   summary?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  summaryChecksum?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  summarizedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  textSearchConfig?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  archivedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   tenant?: Prisma.TenantUpdateOneRequiredWithoutDocumentsNestedInput
   createdBy?: Prisma.UserUpdateOneRequiredWithoutCreatedDocumentsNestedInput
   updatedBy?: Prisma.UserUpdateOneRequiredWithoutUpdatedDocumentsNestedInput
@@ -1308,6 +1776,10 @@ export type DocumentUpdateWithoutChunksInput = {
   jobs?: Prisma.IndexJobUpdateManyWithoutDocumentNestedInput
   indexState?: Prisma.DocumentIndexStateUpdateOneWithoutDocumentNestedInput
   tags?: Prisma.DocumentTagUpdateManyWithoutDocumentNestedInput
+  terms?: Prisma.DocumentTermUpdateManyWithoutDocumentNestedInput
+  savedSearchMatches?: Prisma.SavedSearchMatchUpdateManyWithoutDocumentNestedInput
+  duplicatesAsFirst?: Prisma.DocumentDuplicateUpdateManyWithoutDocumentNestedInput
+  duplicatesAsSecond?: Prisma.DocumentDuplicateUpdateManyWithoutDuplicateNestedInput
 }
 
 export type DocumentUncheckedUpdateWithoutChunksInput = {
@@ -1318,16 +1790,24 @@ export type DocumentUncheckedUpdateWithoutChunksInput = {
   sourceUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   content?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   summary?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  summaryChecksum?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  summarizedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  textSearchConfig?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdById?: Prisma.StringFieldUpdateOperationsInput | string
   updatedById?: Prisma.StringFieldUpdateOperationsInput | string
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  archivedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   favorites?: Prisma.DocumentFavoriteUncheckedUpdateManyWithoutDocumentNestedInput
   commands?: Prisma.DocumentCommandUncheckedUpdateManyWithoutDocumentNestedInput
   jobs?: Prisma.IndexJobUncheckedUpdateManyWithoutDocumentNestedInput
   indexState?: Prisma.DocumentIndexStateUncheckedUpdateOneWithoutDocumentNestedInput
   tags?: Prisma.DocumentTagUncheckedUpdateManyWithoutDocumentNestedInput
+  terms?: Prisma.DocumentTermUncheckedUpdateManyWithoutDocumentNestedInput
+  savedSearchMatches?: Prisma.SavedSearchMatchUncheckedUpdateManyWithoutDocumentNestedInput
+  duplicatesAsFirst?: Prisma.DocumentDuplicateUncheckedUpdateManyWithoutDocumentNestedInput
+  duplicatesAsSecond?: Prisma.DocumentDuplicateUncheckedUpdateManyWithoutDuplicateNestedInput
 }
 
 export type DocumentCreateWithoutIndexStateInput = {
@@ -1337,9 +1817,13 @@ export type DocumentCreateWithoutIndexStateInput = {
   sourceUrl?: string | null
   content?: string | null
   summary?: string | null
+  summaryChecksum?: string | null
+  summarizedAt?: Date | string | null
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  textSearchConfig?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
+  archivedAt?: Date | string | null
   tenant: Prisma.TenantCreateNestedOneWithoutDocumentsInput
   createdBy: Prisma.UserCreateNestedOneWithoutCreatedDocumentsInput
   updatedBy: Prisma.UserCreateNestedOneWithoutUpdatedDocumentsInput
@@ -1348,6 +1832,10 @@ export type DocumentCreateWithoutIndexStateInput = {
   jobs?: Prisma.IndexJobCreateNestedManyWithoutDocumentInput
   chunks?: Prisma.DocumentChunkCreateNestedManyWithoutDocumentInput
   tags?: Prisma.DocumentTagCreateNestedManyWithoutDocumentInput
+  terms?: Prisma.DocumentTermCreateNestedManyWithoutDocumentInput
+  savedSearchMatches?: Prisma.SavedSearchMatchCreateNestedManyWithoutDocumentInput
+  duplicatesAsFirst?: Prisma.DocumentDuplicateCreateNestedManyWithoutDocumentInput
+  duplicatesAsSecond?: Prisma.DocumentDuplicateCreateNestedManyWithoutDuplicateInput
 }
 
 export type DocumentUncheckedCreateWithoutIndexStateInput = {
@@ -1358,16 +1846,24 @@ export type DocumentUncheckedCreateWithoutIndexStateInput = {
   sourceUrl?: string | null
   content?: string | null
   summary?: string | null
+  summaryChecksum?: string | null
+  summarizedAt?: Date | string | null
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  textSearchConfig?: string | null
   createdById: string
   updatedById: string
   createdAt?: Date | string
   updatedAt?: Date | string
+  archivedAt?: Date | string | null
   favorites?: Prisma.DocumentFavoriteUncheckedCreateNestedManyWithoutDocumentInput
   commands?: Prisma.DocumentCommandUncheckedCreateNestedManyWithoutDocumentInput
   jobs?: Prisma.IndexJobUncheckedCreateNestedManyWithoutDocumentInput
   chunks?: Prisma.DocumentChunkUncheckedCreateNestedManyWithoutDocumentInput
   tags?: Prisma.DocumentTagUncheckedCreateNestedManyWithoutDocumentInput
+  terms?: Prisma.DocumentTermUncheckedCreateNestedManyWithoutDocumentInput
+  savedSearchMatches?: Prisma.SavedSearchMatchUncheckedCreateNestedManyWithoutDocumentInput
+  duplicatesAsFirst?: Prisma.DocumentDuplicateUncheckedCreateNestedManyWithoutDocumentInput
+  duplicatesAsSecond?: Prisma.DocumentDuplicateUncheckedCreateNestedManyWithoutDuplicateInput
 }
 
 export type DocumentCreateOrConnectWithoutIndexStateInput = {
@@ -1393,9 +1889,13 @@ export type DocumentUpdateWithoutIndexStateInput = {
   sourceUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   content?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   summary?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  summaryChecksum?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  summarizedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  textSearchConfig?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  archivedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   tenant?: Prisma.TenantUpdateOneRequiredWithoutDocumentsNestedInput
   createdBy?: Prisma.UserUpdateOneRequiredWithoutCreatedDocumentsNestedInput
   updatedBy?: Prisma.UserUpdateOneRequiredWithoutUpdatedDocumentsNestedInput
@@ -1404,6 +1904,10 @@ export type DocumentUpdateWithoutIndexStateInput = {
   jobs?: Prisma.IndexJobUpdateManyWithoutDocumentNestedInput
   chunks?: Prisma.DocumentChunkUpdateManyWithoutDocumentNestedInput
   tags?: Prisma.DocumentTagUpdateManyWithoutDocumentNestedInput
+  terms?: Prisma.DocumentTermUpdateManyWithoutDocumentNestedInput
+  savedSearchMatches?: Prisma.SavedSearchMatchUpdateManyWithoutDocumentNestedInput
+  duplicatesAsFirst?: Prisma.DocumentDuplicateUpdateManyWithoutDocumentNestedInput
+  duplicatesAsSecond?: Prisma.DocumentDuplicateUpdateManyWithoutDuplicateNestedInput
 }
 
 export type DocumentUncheckedUpdateWithoutIndexStateInput = {
@@ -1414,16 +1918,24 @@ export type DocumentUncheckedUpdateWithoutIndexStateInput = {
   sourceUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   content?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   summary?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  summaryChecksum?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  summarizedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  textSearchConfig?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdById?: Prisma.StringFieldUpdateOperationsInput | string
   updatedById?: Prisma.StringFieldUpdateOperationsInput | string
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  archivedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   favorites?: Prisma.DocumentFavoriteUncheckedUpdateManyWithoutDocumentNestedInput
   commands?: Prisma.DocumentCommandUncheckedUpdateManyWithoutDocumentNestedInput
   jobs?: Prisma.IndexJobUncheckedUpdateManyWithoutDocumentNestedInput
   chunks?: Prisma.DocumentChunkUncheckedUpdateManyWithoutDocumentNestedInput
   tags?: Prisma.DocumentTagUncheckedUpdateManyWithoutDocumentNestedInput
+  terms?: Prisma.DocumentTermUncheckedUpdateManyWithoutDocumentNestedInput
+  savedSearchMatches?: Prisma.SavedSearchMatchUncheckedUpdateManyWithoutDocumentNestedInput
+  duplicatesAsFirst?: Prisma.DocumentDuplicateUncheckedUpdateManyWithoutDocumentNestedInput
+  duplicatesAsSecond?: Prisma.DocumentDuplicateUncheckedUpdateManyWithoutDuplicateNestedInput
 }
 
 export type DocumentCreateWithoutJobsInput = {
@@ -1433,9 +1945,13 @@ export type DocumentCreateWithoutJobsInput = {
   sourceUrl?: string | null
   content?: string | null
   summary?: string | null
+  summaryChecksum?: string | null
+  summarizedAt?: Date | string | null
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  textSearchConfig?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
+  archivedAt?: Date | string | null
   tenant: Prisma.TenantCreateNestedOneWithoutDocumentsInput
   createdBy: Prisma.UserCreateNestedOneWithoutCreatedDocumentsInput
   updatedBy: Prisma.UserCreateNestedOneWithoutUpdatedDocumentsInput
@@ -1444,6 +1960,10 @@ export type DocumentCreateWithoutJobsInput = {
   chunks?: Prisma.DocumentChunkCreateNestedManyWithoutDocumentInput
   indexState?: Prisma.DocumentIndexStateCreateNestedOneWithoutDocumentInput
   tags?: Prisma.DocumentTagCreateNestedManyWithoutDocumentInput
+  terms?: Prisma.DocumentTermCreateNestedManyWithoutDocumentInput
+  savedSearchMatches?: Prisma.SavedSearchMatchCreateNestedManyWithoutDocumentInput
+  duplicatesAsFirst?: Prisma.DocumentDuplicateCreateNestedManyWithoutDocumentInput
+  duplicatesAsSecond?: Prisma.DocumentDuplicateCreateNestedManyWithoutDuplicateInput
 }
 
 export type DocumentUncheckedCreateWithoutJobsInput = {
@@ -1454,16 +1974,24 @@ export type DocumentUncheckedCreateWithoutJobsInput = {
   sourceUrl?: string | null
   content?: string | null
   summary?: string | null
+  summaryChecksum?: string | null
+  summarizedAt?: Date | string | null
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  textSearchConfig?: string | null
   createdById: string
   updatedById: string
   createdAt?: Date | string
   updatedAt?: Date | string
+  archivedAt?: Date | string | null
   favorites?: Prisma.DocumentFavoriteUncheckedCreateNestedManyWithoutDocumentInput
   commands?: Prisma.DocumentCommandUncheckedCreateNestedManyWithoutDocumentInput
   chunks?: Prisma.DocumentChunkUncheckedCreateNestedManyWithoutDocumentInput
   indexState?: Prisma.DocumentIndexStateUncheckedCreateNestedOneWithoutDocumentInput
   tags?: Prisma.DocumentTagUncheckedCreateNestedManyWithoutDocumentInput
+  terms?: Prisma.DocumentTermUncheckedCreateNestedManyWithoutDocumentInput
+  savedSearchMatches?: Prisma.SavedSearchMatchUncheckedCreateNestedManyWithoutDocumentInput
+  duplicatesAsFirst?: Prisma.DocumentDuplicateUncheckedCreateNestedManyWithoutDocumentInput
+  duplicatesAsSecond?: Prisma.DocumentDuplicateUncheckedCreateNestedManyWithoutDuplicateInput
 }
 
 export type DocumentCreateOrConnectWithoutJobsInput = {
@@ -1489,9 +2017,13 @@ export type DocumentUpdateWithoutJobsInput = {
   sourceUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   content?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   summary?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  summaryChecksum?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  summarizedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  textSearchConfig?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  archivedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   tenant?: Prisma.TenantUpdateOneRequiredWithoutDocumentsNestedInput
   createdBy?: Prisma.UserUpdateOneRequiredWithoutCreatedDocumentsNestedInput
   updatedBy?: Prisma.UserUpdateOneRequiredWithoutUpdatedDocumentsNestedInput
@@ -1500,6 +2032,10 @@ export type DocumentUpdateWithoutJobsInput = {
   chunks?: Prisma.DocumentChunkUpdateManyWithoutDocumentNestedInput
   indexState?: Prisma.DocumentIndexStateUpdateOneWithoutDocumentNestedInput
   tags?: Prisma.DocumentTagUpdateManyWithoutDocumentNestedInput
+  terms?: Prisma.DocumentTermUpdateManyWithoutDocumentNestedInput
+  savedSearchMatches?: Prisma.SavedSearchMatchUpdateManyWithoutDocumentNestedInput
+  duplicatesAsFirst?: Prisma.DocumentDuplicateUpdateManyWithoutDocumentNestedInput
+  duplicatesAsSecond?: Prisma.DocumentDuplicateUpdateManyWithoutDuplicateNestedInput
 }
 
 export type DocumentUncheckedUpdateWithoutJobsInput = {
@@ -1510,16 +2046,408 @@ export type DocumentUncheckedUpdateWithoutJobsInput = {
   sourceUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   content?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   summary?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  summaryChecksum?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  summarizedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  textSearchConfig?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdById?: Prisma.StringFieldUpdateOperationsInput | string
+  updatedById?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  archivedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  favorites?: Prisma.DocumentFavoriteUncheckedUpdateManyWithoutDocumentNestedInput
+  commands?: Prisma.DocumentCommandUncheckedUpdateManyWithoutDocumentNestedInput
+  chunks?: Prisma.DocumentChunkUncheckedUpdateManyWithoutDocumentNestedInput
+  indexState?: Prisma.DocumentIndexStateUncheckedUpdateOneWithoutDocumentNestedInput
+  tags?: Prisma.DocumentTagUncheckedUpdateManyWithoutDocumentNestedInput
+  terms?: Prisma.DocumentTermUncheckedUpdateManyWithoutDocumentNestedInput
+  savedSearchMatches?: Prisma.SavedSearchMatchUncheckedUpdateManyWithoutDocumentNestedInput
+  duplicatesAsFirst?: Prisma.DocumentDuplicateUncheckedUpdateManyWithoutDocumentNestedInput
+  duplicatesAsSecond?: Prisma.DocumentDuplicateUncheckedUpdateManyWithoutDuplicateNestedInput
+}
+
+export type DocumentCreateWithoutSavedSearchMatchesInput = {
+  id?: string
+  title: string
+  source?: $Enums.DocumentSource
+  sourceUrl?: string | null
+  content?: string | null
+  summary?: string | null
+  summaryChecksum?: string | null
+  summarizedAt?: Date | string | null
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  textSearchConfig?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  archivedAt?: Date | string | null
+  tenant: Prisma.TenantCreateNestedOneWithoutDocumentsInput
+  createdBy: Prisma.UserCreateNestedOneWithoutCreatedDocumentsInput
+  updatedBy: Prisma.UserCreateNestedOneWithoutUpdatedDocumentsInput
+  favorites?: Prisma.DocumentFavoriteCreateNestedManyWithoutDocumentInput
+  commands?: Prisma.DocumentCommandCreateNestedManyWithoutDocumentInput
+  jobs?: Prisma.IndexJobCreateNestedManyWithoutDocumentInput
+  chunks?: Prisma.DocumentChunkCreateNestedManyWithoutDocumentInput
+  indexState?: Prisma.DocumentIndexStateCreateNestedOneWithoutDocumentInput
+  tags?: Prisma.DocumentTagCreateNestedManyWithoutDocumentInput
+  terms?: Prisma.DocumentTermCreateNestedManyWithoutDocumentInput
+  duplicatesAsFirst?: Prisma.DocumentDuplicateCreateNestedManyWithoutDocumentInput
+  duplicatesAsSecond?: Prisma.DocumentDuplicateCreateNestedManyWithoutDuplicateInput
+}
+
+export type DocumentUncheckedCreateWithoutSavedSearchMatchesInput = {
+  id?: string
+  tenantId: string
+  title: string
+  source?: $Enums.DocumentSource
+  sourceUrl?: string | null
+  content?: string | null
+  summary?: string | null
+  summaryChecksum?: string | null
+  summarizedAt?: Date | string | null
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  textSearchConfig?: string | null
+  createdById: string
+  updatedById: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  archivedAt?: Date | string | null
+  favorites?: Prisma.DocumentFavoriteUncheckedCreateNestedManyWithoutDocumentInput
+  commands?: Prisma.DocumentCommandUncheckedCreateNestedManyWithoutDocumentInput
+  jobs?: Prisma.IndexJobUncheckedCreateNestedManyWithoutDocumentInput
+  chunks?: Prisma.DocumentChunkUncheckedCreateNestedManyWithoutDocumentInput
+  indexState?: Prisma.DocumentIndexStateUncheckedCreateNestedOneWithoutDocumentInput
+  tags?: Prisma.DocumentTagUncheckedCreateNestedManyWithoutDocumentInput
+  terms?: Prisma.DocumentTermUncheckedCreateNestedManyWithoutDocumentInput
+  duplicatesAsFirst?: Prisma.DocumentDuplicateUncheckedCreateNestedManyWithoutDocumentInput
+  duplicatesAsSecond?: Prisma.DocumentDuplicateUncheckedCreateNestedManyWithoutDuplicateInput
+}
+
+export type DocumentCreateOrConnectWithoutSavedSearchMatchesInput = {
+  where: Prisma.DocumentWhereUniqueInput
+  create: Prisma.XOR<Prisma.DocumentCreateWithoutSavedSearchMatchesInput, Prisma.DocumentUncheckedCreateWithoutSavedSearchMatchesInput>
+}
+
+export type DocumentUpsertWithoutSavedSearchMatchesInput = {
+  update: Prisma.XOR<Prisma.DocumentUpdateWithoutSavedSearchMatchesInput, Prisma.DocumentUncheckedUpdateWithoutSavedSearchMatchesInput>
+  create: Prisma.XOR<Prisma.DocumentCreateWithoutSavedSearchMatchesInput, Prisma.DocumentUncheckedCreateWithoutSavedSearchMatchesInput>
+  where?: Prisma.DocumentWhereInput
+}
+
+export type DocumentUpdateToOneWithWhereWithoutSavedSearchMatchesInput = {
+  where?: Prisma.DocumentWhereInput
+  data: Prisma.XOR<Prisma.DocumentUpdateWithoutSavedSearchMatchesInput, Prisma.DocumentUncheckedUpdateWithoutSavedSearchMatchesInput>
+}
+
+export type DocumentUpdateWithoutSavedSearchMatchesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  title?: Prisma.StringFieldUpdateOperationsInput | string
+  source?: Prisma.EnumDocumentSourceFieldUpdateOperationsInput | $Enums.DocumentSource
+  sourceUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  content?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  summary?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  summaryChecksum?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  summarizedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  textSearchConfig?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  archivedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  tenant?: Prisma.TenantUpdateOneRequiredWithoutDocumentsNestedInput
+  createdBy?: Prisma.UserUpdateOneRequiredWithoutCreatedDocumentsNestedInput
+  updatedBy?: Prisma.UserUpdateOneRequiredWithoutUpdatedDocumentsNestedInput
+  favorites?: Prisma.DocumentFavoriteUpdateManyWithoutDocumentNestedInput
+  commands?: Prisma.DocumentCommandUpdateManyWithoutDocumentNestedInput
+  jobs?: Prisma.IndexJobUpdateManyWithoutDocumentNestedInput
+  chunks?: Prisma.DocumentChunkUpdateManyWithoutDocumentNestedInput
+  indexState?: Prisma.DocumentIndexStateUpdateOneWithoutDocumentNestedInput
+  tags?: Prisma.DocumentTagUpdateManyWithoutDocumentNestedInput
+  terms?: Prisma.DocumentTermUpdateManyWithoutDocumentNestedInput
+  duplicatesAsFirst?: Prisma.DocumentDuplicateUpdateManyWithoutDocumentNestedInput
+  duplicatesAsSecond?: Prisma.DocumentDuplicateUpdateManyWithoutDuplicateNestedInput
+}
+
+export type DocumentUncheckedUpdateWithoutSavedSearchMatchesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  tenantId?: Prisma.StringFieldUpdateOperationsInput | string
+  title?: Prisma.StringFieldUpdateOperationsInput | string
+  source?: Prisma.EnumDocumentSourceFieldUpdateOperationsInput | $Enums.DocumentSource
+  sourceUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  content?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  summary?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  summaryChecksum?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  summarizedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  textSearchConfig?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdById?: Prisma.StringFieldUpdateOperationsInput | string
+  updatedById?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  archivedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  favorites?: Prisma.DocumentFavoriteUncheckedUpdateManyWithoutDocumentNestedInput
+  commands?: Prisma.DocumentCommandUncheckedUpdateManyWithoutDocumentNestedInput
+  jobs?: Prisma.IndexJobUncheckedUpdateManyWithoutDocumentNestedInput
+  chunks?: Prisma.DocumentChunkUncheckedUpdateManyWithoutDocumentNestedInput
+  indexState?: Prisma.DocumentIndexStateUncheckedUpdateOneWithoutDocumentNestedInput
+  tags?: Prisma.DocumentTagUncheckedUpdateManyWithoutDocumentNestedInput
+  terms?: Prisma.DocumentTermUncheckedUpdateManyWithoutDocumentNestedInput
+  duplicatesAsFirst?: Prisma.DocumentDuplicateUncheckedUpdateManyWithoutDocumentNestedInput
+  duplicatesAsSecond?: Prisma.DocumentDuplicateUncheckedUpdateManyWithoutDuplicateNestedInput
+}
+
+export type DocumentCreateWithoutDuplicatesAsFirstInput = {
+  id?: string
+  title: string
+  source?: $Enums.DocumentSource
+  sourceUrl?: string | null
+  content?: string | null
+  summary?: string | null
+  summaryChecksum?: string | null
+  summarizedAt?: Date | string | null
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  textSearchConfig?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  archivedAt?: Date | string | null
+  tenant: Prisma.TenantCreateNestedOneWithoutDocumentsInput
+  createdBy: Prisma.UserCreateNestedOneWithoutCreatedDocumentsInput
+  updatedBy: Prisma.UserCreateNestedOneWithoutUpdatedDocumentsInput
+  favorites?: Prisma.DocumentFavoriteCreateNestedManyWithoutDocumentInput
+  commands?: Prisma.DocumentCommandCreateNestedManyWithoutDocumentInput
+  jobs?: Prisma.IndexJobCreateNestedManyWithoutDocumentInput
+  chunks?: Prisma.DocumentChunkCreateNestedManyWithoutDocumentInput
+  indexState?: Prisma.DocumentIndexStateCreateNestedOneWithoutDocumentInput
+  tags?: Prisma.DocumentTagCreateNestedManyWithoutDocumentInput
+  terms?: Prisma.DocumentTermCreateNestedManyWithoutDocumentInput
+  savedSearchMatches?: Prisma.SavedSearchMatchCreateNestedManyWithoutDocumentInput
+  duplicatesAsSecond?: Prisma.DocumentDuplicateCreateNestedManyWithoutDuplicateInput
+}
+
+export type DocumentUncheckedCreateWithoutDuplicatesAsFirstInput = {
+  id?: string
+  tenantId: string
+  title: string
+  source?: $Enums.DocumentSource
+  sourceUrl?: string | null
+  content?: string | null
+  summary?: string | null
+  summaryChecksum?: string | null
+  summarizedAt?: Date | string | null
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  textSearchConfig?: string | null
+  createdById: string
+  updatedById: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  archivedAt?: Date | string | null
+  favorites?: Prisma.DocumentFavoriteUncheckedCreateNestedManyWithoutDocumentInput
+  commands?: Prisma.DocumentCommandUncheckedCreateNestedManyWithoutDocumentInput
+  jobs?: Prisma.IndexJobUncheckedCreateNestedManyWithoutDocumentInput
+  chunks?: Prisma.DocumentChunkUncheckedCreateNestedManyWithoutDocumentInput
+  indexState?: Prisma.DocumentIndexStateUncheckedCreateNestedOneWithoutDocumentInput
+  tags?: Prisma.DocumentTagUncheckedCreateNestedManyWithoutDocumentInput
+  terms?: Prisma.DocumentTermUncheckedCreateNestedManyWithoutDocumentInput
+  savedSearchMatches?: Prisma.SavedSearchMatchUncheckedCreateNestedManyWithoutDocumentInput
+  duplicatesAsSecond?: Prisma.DocumentDuplicateUncheckedCreateNestedManyWithoutDuplicateInput
+}
+
+export type DocumentCreateOrConnectWithoutDuplicatesAsFirstInput = {
+  where: Prisma.DocumentWhereUniqueInput
+  create: Prisma.XOR<Prisma.DocumentCreateWithoutDuplicatesAsFirstInput, Prisma.DocumentUncheckedCreateWithoutDuplicatesAsFirstInput>
+}
+
+export type DocumentCreateWithoutDuplicatesAsSecondInput = {
+  id?: string
+  title: string
+  source?: $Enums.DocumentSource
+  sourceUrl?: string | null
+  content?: string | null
+  summary?: string | null
+  summaryChecksum?: string | null
+  summarizedAt?: Date | string | null
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  textSearchConfig?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  archivedAt?: Date | string | null
+  tenant: Prisma.TenantCreateNestedOneWithoutDocumentsInput
+  createdBy: Prisma.UserCreateNestedOneWithoutCreatedDocumentsInput
+  updatedBy: Prisma.UserCreateNestedOneWithoutUpdatedDocumentsInput
+  favorites?: Prisma.DocumentFavoriteCreateNestedManyWithoutDocumentInput
+  commands?: Prisma.DocumentCommandCreateNestedManyWithoutDocumentInput
+  jobs?: Prisma.IndexJobCreateNestedManyWithoutDocumentInput
+  chunks?: Prisma.DocumentChunkCreateNestedManyWithoutDocumentInput
+  indexState?: Prisma.DocumentIndexStateCreateNestedOneWithoutDocumentInput
+  tags?: Prisma.DocumentTagCreateNestedManyWithoutDocumentInput
+  terms?: Prisma.DocumentTermCreateNestedManyWithoutDocumentInput
+  savedSearchMatches?: Prisma.SavedSearchMatchCreateNestedManyWithoutDocumentInput
+  duplicatesAsFirst?: Prisma.DocumentDuplicateCreateNestedManyWithoutDocumentInput
+}
+
+export type DocumentUncheckedCreateWithoutDuplicatesAsSecondInput = {
+  id?: string
+  tenantId: string
+  title: string
+  source?: $Enums.DocumentSource
+  sourceUrl?: string | null
+  content?: string | null
+  summary?: string | null
+  summaryChecksum?: string | null
+  summarizedAt?: Date | string | null
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  textSearchConfig?: string | null
+  createdById: string
+  updatedById: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  archivedAt?: Date | string | null
+  favorites?: Prisma.DocumentFavoriteUncheckedCreateNestedManyWithoutDocumentInput
+  commands?: Prisma.DocumentCommandUncheckedCreateNestedManyWithoutDocumentInput
+  jobs?: Prisma.IndexJobUncheckedCreateNestedManyWithoutDocumentInput
+  chunks?: Prisma.DocumentChunkUncheckedCreateNestedManyWithoutDocumentInput
+  indexState?: Prisma.DocumentIndexStateUncheckedCreateNestedOneWithoutDocumentInput
+  tags?: Prisma.DocumentTagUncheckedCreateNestedManyWithoutDocumentInput
+  terms?: Prisma.DocumentTermUncheckedCreateNestedManyWithoutDocumentInput
+  savedSearchMatches?: Prisma.SavedSearchMatchUncheckedCreateNestedManyWithoutDocumentInput
+  duplicatesAsFirst?: Prisma.DocumentDuplicateUncheckedCreateNestedManyWithoutDocumentInput
+}
+
+export type DocumentCreateOrConnectWithoutDuplicatesAsSecondInput = {
+  where: Prisma.DocumentWhereUniqueInput
+  create: Prisma.XOR<Prisma.DocumentCreateWithoutDuplicatesAsSecondInput, Prisma.DocumentUncheckedCreateWithoutDuplicatesAsSecondInput>
+}
+
+export type DocumentUpsertWithoutDuplicatesAsFirstInput = {
+  update: Prisma.XOR<Prisma.DocumentUpdateWithoutDuplicatesAsFirstInput, Prisma.DocumentUncheckedUpdateWithoutDuplicatesAsFirstInput>
+  create: Prisma.XOR<Prisma.DocumentCreateWithoutDuplicatesAsFirstInput, Prisma.DocumentUncheckedCreateWithoutDuplicatesAsFirstInput>
+  where?: Prisma.DocumentWhereInput
+}
+
+export type DocumentUpdateToOneWithWhereWithoutDuplicatesAsFirstInput = {
+  where?: Prisma.DocumentWhereInput
+  data: Prisma.XOR<Prisma.DocumentUpdateWithoutDuplicatesAsFirstInput, Prisma.DocumentUncheckedUpdateWithoutDuplicatesAsFirstInput>
+}
+
+export type DocumentUpdateWithoutDuplicatesAsFirstInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  title?: Prisma.StringFieldUpdateOperationsInput | string
+  source?: Prisma.EnumDocumentSourceFieldUpdateOperationsInput | $Enums.DocumentSource
+  sourceUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  content?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  summary?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  summaryChecksum?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  summarizedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  textSearchConfig?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  archivedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  tenant?: Prisma.TenantUpdateOneRequiredWithoutDocumentsNestedInput
+  createdBy?: Prisma.UserUpdateOneRequiredWithoutCreatedDocumentsNestedInput
+  updatedBy?: Prisma.UserUpdateOneRequiredWithoutUpdatedDocumentsNestedInput
+  favorites?: Prisma.DocumentFavoriteUpdateManyWithoutDocumentNestedInput
+  commands?: Prisma.DocumentCommandUpdateManyWithoutDocumentNestedInput
+  jobs?: Prisma.IndexJobUpdateManyWithoutDocumentNestedInput
+  chunks?: Prisma.DocumentChunkUpdateManyWithoutDocumentNestedInput
+  indexState?: Prisma.DocumentIndexStateUpdateOneWithoutDocumentNestedInput
+  tags?: Prisma.DocumentTagUpdateManyWithoutDocumentNestedInput
+  terms?: Prisma.DocumentTermUpdateManyWithoutDocumentNestedInput
+  savedSearchMatches?: Prisma.SavedSearchMatchUpdateManyWithoutDocumentNestedInput
+  duplicatesAsSecond?: Prisma.DocumentDuplicateUpdateManyWithoutDuplicateNestedInput
+}
+
+export type DocumentUncheckedUpdateWithoutDuplicatesAsFirstInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  tenantId?: Prisma.StringFieldUpdateOperationsInput | string
+  title?: Prisma.StringFieldUpdateOperationsInput | string
+  source?: Prisma.EnumDocumentSourceFieldUpdateOperationsInput | $Enums.DocumentSource
+  sourceUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  content?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  summary?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  summaryChecksum?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  summarizedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  textSearchConfig?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdById?: Prisma.StringFieldUpdateOperationsInput | string
+  updatedById?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  archivedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  favorites?: Prisma.DocumentFavoriteUncheckedUpdateManyWithoutDocumentNestedInput
+  commands?: Prisma.DocumentCommandUncheckedUpdateManyWithoutDocumentNestedInput
+  jobs?: Prisma.IndexJobUncheckedUpdateManyWithoutDocumentNestedInput
+  chunks?: Prisma.DocumentChunkUncheckedUpdateManyWithoutDocumentNestedInput
+  indexState?: Prisma.DocumentIndexStateUncheckedUpdateOneWithoutDocumentNestedInput
+  tags?: Prisma.DocumentTagUncheckedUpdateManyWithoutDocumentNestedInput
+  terms?: Prisma.DocumentTermUncheckedUpdateManyWithoutDocumentNestedInput
+  savedSearchMatches?: Prisma.SavedSearchMatchUncheckedUpdateManyWithoutDocumentNestedInput
+  duplicatesAsSecond?: Prisma.DocumentDuplicateUncheckedUpdateManyWithoutDuplicateNestedInput
+}
+
+export type DocumentUpsertWithoutDuplicatesAsSecondInput = {
+  update: Prisma.XOR<Prisma.DocumentUpdateWithoutDuplicatesAsSecondInput, Prisma.DocumentUncheckedUpdateWithoutDuplicatesAsSecondInput>
+  create: Prisma.XOR<Prisma.DocumentCreateWithoutDuplicatesAsSecondInput, Prisma.DocumentUncheckedCreateWithoutDuplicatesAsSecondInput>
+  where?: Prisma.DocumentWhereInput
+}
+
+export type DocumentUpdateToOneWithWhereWithoutDuplicatesAsSecondInput = {
+  where?: Prisma.DocumentWhereInput
+  data: Prisma.XOR<Prisma.DocumentUpdateWithoutDuplicatesAsSecondInput, Prisma.DocumentUncheckedUpdateWithoutDuplicatesAsSecondInput>
+}
+
+export type DocumentUpdateWithoutDuplicatesAsSecondInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  title?: Prisma.StringFieldUpdateOperationsInput | string
+  source?: Prisma.EnumDocumentSourceFieldUpdateOperationsInput | $Enums.DocumentSource
+  sourceUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  content?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  summary?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  summaryChecksum?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  summarizedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  textSearchConfig?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  archivedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  tenant?: Prisma.TenantUpdateOneRequiredWithoutDocumentsNestedInput
+  createdBy?: Prisma.UserUpdateOneRequiredWithoutCreatedDocumentsNestedInput
+  updatedBy?: Prisma.UserUpdateOneRequiredWithoutUpdatedDocumentsNestedInput
+  favorites?: Prisma.DocumentFavoriteUpdateManyWithoutDocumentNestedInput
+  commands?: Prisma.DocumentCommandUpdateManyWithoutDocumentNestedInput
+  jobs?: Prisma.IndexJobUpdateManyWithoutDocumentNestedInput
+  chunks?: Prisma.DocumentChunkUpdateManyWithoutDocumentNestedInput
+  indexState?: Prisma.DocumentIndexStateUpdateOneWithoutDocumentNestedInput
+  tags?: Prisma.DocumentTagUpdateManyWithoutDocumentNestedInput
+  terms?: Prisma.DocumentTermUpdateManyWithoutDocumentNestedInput
+  savedSearchMatches?: Prisma.SavedSearchMatchUpdateManyWithoutDocumentNestedInput
+  duplicatesAsFirst?: Prisma.DocumentDuplicateUpdateManyWithoutDocumentNestedInput
+}
+
+export type DocumentUncheckedUpdateWithoutDuplicatesAsSecondInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  tenantId?: Prisma.StringFieldUpdateOperationsInput | string
+  title?: Prisma.StringFieldUpdateOperationsInput | string
+  source?: Prisma.EnumDocumentSourceFieldUpdateOperationsInput | $Enums.DocumentSource
+  sourceUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  content?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  summary?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  summaryChecksum?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  summarizedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  textSearchConfig?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdById?: Prisma.StringFieldUpdateOperationsInput | string
   updatedById?: Prisma.StringFieldUpdateOperationsInput | string
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  archivedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   favorites?: Prisma.DocumentFavoriteUncheckedUpdateManyWithoutDocumentNestedInput
   commands?: Prisma.DocumentCommandUncheckedUpdateManyWithoutDocumentNestedInput
+  jobs?: Prisma.IndexJobUncheckedUpdateManyWithoutDocumentNestedInput
   chunks?: Prisma.DocumentChunkUncheckedUpdateManyWithoutDocumentNestedInput
   indexState?: Prisma.DocumentIndexStateUncheckedUpdateOneWithoutDocumentNestedInput
   tags?: Prisma.DocumentTagUncheckedUpdateManyWithoutDocumentNestedInput
+  terms?: Prisma.DocumentTermUncheckedUpdateManyWithoutDocumentNestedInput
+  savedSearchMatches?: Prisma.SavedSearchMatchUncheckedUpdateManyWithoutDocumentNestedInput
+  duplicatesAsFirst?: Prisma.DocumentDuplicateUncheckedUpdateManyWithoutDocumentNestedInput
 }
 
 export type DocumentCreateManyTenantInput = {
@@ -1529,11 +2457,15 @@ export type DocumentCreateManyTenantInput = {
   sourceUrl?: string | null
   content?: string | null
   summary?: string | null
+  summaryChecksum?: string | null
+  summarizedAt?: Date | string | null
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  textSearchConfig?: string | null
   createdById: string
   updatedById: string
   createdAt?: Date | string
   updatedAt?: Date | string
+  archivedAt?: Date | string | null
 }
 
 export type DocumentUpdateWithoutTenantInput = {
@@ -1543,9 +2475,13 @@ export type DocumentUpdateWithoutTenantInput = {
   sourceUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   content?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   summary?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  summaryChecksum?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  summarizedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  textSearchConfig?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  archivedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   createdBy?: Prisma.UserUpdateOneRequiredWithoutCreatedDocumentsNestedInput
   updatedBy?: Prisma.UserUpdateOneRequiredWithoutUpdatedDocumentsNestedInput
   favorites?: Prisma.DocumentFavoriteUpdateManyWithoutDocumentNestedInput
@@ -1554,6 +2490,10 @@ export type DocumentUpdateWithoutTenantInput = {
   chunks?: Prisma.DocumentChunkUpdateManyWithoutDocumentNestedInput
   indexState?: Prisma.DocumentIndexStateUpdateOneWithoutDocumentNestedInput
   tags?: Prisma.DocumentTagUpdateManyWithoutDocumentNestedInput
+  terms?: Prisma.DocumentTermUpdateManyWithoutDocumentNestedInput
+  savedSearchMatches?: Prisma.SavedSearchMatchUpdateManyWithoutDocumentNestedInput
+  duplicatesAsFirst?: Prisma.DocumentDuplicateUpdateManyWithoutDocumentNestedInput
+  duplicatesAsSecond?: Prisma.DocumentDuplicateUpdateManyWithoutDuplicateNestedInput
 }
 
 export type DocumentUncheckedUpdateWithoutTenantInput = {
@@ -1563,17 +2503,25 @@ export type DocumentUncheckedUpdateWithoutTenantInput = {
   sourceUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   content?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   summary?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  summaryChecksum?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  summarizedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  textSearchConfig?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdById?: Prisma.StringFieldUpdateOperationsInput | string
   updatedById?: Prisma.StringFieldUpdateOperationsInput | string
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  archivedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   favorites?: Prisma.DocumentFavoriteUncheckedUpdateManyWithoutDocumentNestedInput
   commands?: Prisma.DocumentCommandUncheckedUpdateManyWithoutDocumentNestedInput
   jobs?: Prisma.IndexJobUncheckedUpdateManyWithoutDocumentNestedInput
   chunks?: Prisma.DocumentChunkUncheckedUpdateManyWithoutDocumentNestedInput
   indexState?: Prisma.DocumentIndexStateUncheckedUpdateOneWithoutDocumentNestedInput
   tags?: Prisma.DocumentTagUncheckedUpdateManyWithoutDocumentNestedInput
+  terms?: Prisma.DocumentTermUncheckedUpdateManyWithoutDocumentNestedInput
+  savedSearchMatches?: Prisma.SavedSearchMatchUncheckedUpdateManyWithoutDocumentNestedInput
+  duplicatesAsFirst?: Prisma.DocumentDuplicateUncheckedUpdateManyWithoutDocumentNestedInput
+  duplicatesAsSecond?: Prisma.DocumentDuplicateUncheckedUpdateManyWithoutDuplicateNestedInput
 }
 
 export type DocumentUncheckedUpdateManyWithoutTenantInput = {
@@ -1583,11 +2531,15 @@ export type DocumentUncheckedUpdateManyWithoutTenantInput = {
   sourceUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   content?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   summary?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  summaryChecksum?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  summarizedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  textSearchConfig?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdById?: Prisma.StringFieldUpdateOperationsInput | string
   updatedById?: Prisma.StringFieldUpdateOperationsInput | string
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  archivedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
 }
 
 export type DocumentCreateManyCreatedByInput = {
@@ -1598,10 +2550,14 @@ export type DocumentCreateManyCreatedByInput = {
   sourceUrl?: string | null
   content?: string | null
   summary?: string | null
+  summaryChecksum?: string | null
+  summarizedAt?: Date | string | null
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  textSearchConfig?: string | null
   updatedById: string
   createdAt?: Date | string
   updatedAt?: Date | string
+  archivedAt?: Date | string | null
 }
 
 export type DocumentCreateManyUpdatedByInput = {
@@ -1612,10 +2568,14 @@ export type DocumentCreateManyUpdatedByInput = {
   sourceUrl?: string | null
   content?: string | null
   summary?: string | null
+  summaryChecksum?: string | null
+  summarizedAt?: Date | string | null
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  textSearchConfig?: string | null
   createdById: string
   createdAt?: Date | string
   updatedAt?: Date | string
+  archivedAt?: Date | string | null
 }
 
 export type DocumentUpdateWithoutCreatedByInput = {
@@ -1625,9 +2585,13 @@ export type DocumentUpdateWithoutCreatedByInput = {
   sourceUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   content?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   summary?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  summaryChecksum?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  summarizedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  textSearchConfig?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  archivedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   tenant?: Prisma.TenantUpdateOneRequiredWithoutDocumentsNestedInput
   updatedBy?: Prisma.UserUpdateOneRequiredWithoutUpdatedDocumentsNestedInput
   favorites?: Prisma.DocumentFavoriteUpdateManyWithoutDocumentNestedInput
@@ -1636,6 +2600,10 @@ export type DocumentUpdateWithoutCreatedByInput = {
   chunks?: Prisma.DocumentChunkUpdateManyWithoutDocumentNestedInput
   indexState?: Prisma.DocumentIndexStateUpdateOneWithoutDocumentNestedInput
   tags?: Prisma.DocumentTagUpdateManyWithoutDocumentNestedInput
+  terms?: Prisma.DocumentTermUpdateManyWithoutDocumentNestedInput
+  savedSearchMatches?: Prisma.SavedSearchMatchUpdateManyWithoutDocumentNestedInput
+  duplicatesAsFirst?: Prisma.DocumentDuplicateUpdateManyWithoutDocumentNestedInput
+  duplicatesAsSecond?: Prisma.DocumentDuplicateUpdateManyWithoutDuplicateNestedInput
 }
 
 export type DocumentUncheckedUpdateWithoutCreatedByInput = {
@@ -1646,16 +2614,24 @@ export type DocumentUncheckedUpdateWithoutCreatedByInput = {
   sourceUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   content?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   summary?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  summaryChecksum?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  summarizedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  textSearchConfig?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   updatedById?: Prisma.StringFieldUpdateOperationsInput | string
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  archivedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   favorites?: Prisma.DocumentFavoriteUncheckedUpdateManyWithoutDocumentNestedInput
   commands?: Prisma.DocumentCommandUncheckedUpdateManyWithoutDocumentNestedInput
   jobs?: Prisma.IndexJobUncheckedUpdateManyWithoutDocumentNestedInput
   chunks?: Prisma.DocumentChunkUncheckedUpdateManyWithoutDocumentNestedInput
   indexState?: Prisma.DocumentIndexStateUncheckedUpdateOneWithoutDocumentNestedInput
   tags?: Prisma.DocumentTagUncheckedUpdateManyWithoutDocumentNestedInput
+  terms?: Prisma.DocumentTermUncheckedUpdateManyWithoutDocumentNestedInput
+  savedSearchMatches?: Prisma.SavedSearchMatchUncheckedUpdateManyWithoutDocumentNestedInput
+  duplicatesAsFirst?: Prisma.DocumentDuplicateUncheckedUpdateManyWithoutDocumentNestedInput
+  duplicatesAsSecond?: Prisma.DocumentDuplicateUncheckedUpdateManyWithoutDuplicateNestedInput
 }
 
 export type DocumentUncheckedUpdateManyWithoutCreatedByInput = {
@@ -1666,10 +2642,14 @@ export type DocumentUncheckedUpdateManyWithoutCreatedByInput = {
   sourceUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   content?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   summary?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  summaryChecksum?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  summarizedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  textSearchConfig?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   updatedById?: Prisma.StringFieldUpdateOperationsInput | string
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  archivedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
 }
 
 export type DocumentUpdateWithoutUpdatedByInput = {
@@ -1679,9 +2659,13 @@ export type DocumentUpdateWithoutUpdatedByInput = {
   sourceUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   content?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   summary?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  summaryChecksum?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  summarizedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  textSearchConfig?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  archivedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   tenant?: Prisma.TenantUpdateOneRequiredWithoutDocumentsNestedInput
   createdBy?: Prisma.UserUpdateOneRequiredWithoutCreatedDocumentsNestedInput
   favorites?: Prisma.DocumentFavoriteUpdateManyWithoutDocumentNestedInput
@@ -1690,6 +2674,10 @@ export type DocumentUpdateWithoutUpdatedByInput = {
   chunks?: Prisma.DocumentChunkUpdateManyWithoutDocumentNestedInput
   indexState?: Prisma.DocumentIndexStateUpdateOneWithoutDocumentNestedInput
   tags?: Prisma.DocumentTagUpdateManyWithoutDocumentNestedInput
+  terms?: Prisma.DocumentTermUpdateManyWithoutDocumentNestedInput
+  savedSearchMatches?: Prisma.SavedSearchMatchUpdateManyWithoutDocumentNestedInput
+  duplicatesAsFirst?: Prisma.DocumentDuplicateUpdateManyWithoutDocumentNestedInput
+  duplicatesAsSecond?: Prisma.DocumentDuplicateUpdateManyWithoutDuplicateNestedInput
 }
 
 export type DocumentUncheckedUpdateWithoutUpdatedByInput = {
@@ -1700,16 +2688,24 @@ export type DocumentUncheckedUpdateWithoutUpdatedByInput = {
   sourceUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   content?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   summary?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  summaryChecksum?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  summarizedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  textSearchConfig?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdById?: Prisma.StringFieldUpdateOperationsInput | string
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  archivedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   favorites?: Prisma.DocumentFavoriteUncheckedUpdateManyWithoutDocumentNestedInput
   commands?: Prisma.DocumentCommandUncheckedUpdateManyWithoutDocumentNestedInput
   jobs?: Prisma.IndexJobUncheckedUpdateManyWithoutDocumentNestedInput
   chunks?: Prisma.DocumentChunkUncheckedUpdateManyWithoutDocumentNestedInput
   indexState?: Prisma.DocumentIndexStateUncheckedUpdateOneWithoutDocumentNestedInput
   tags?: Prisma.DocumentTagUncheckedUpdateManyWithoutDocumentNestedInput
+  terms?: Prisma.DocumentTermUncheckedUpdateManyWithoutDocumentNestedInput
+  savedSearchMatches?: Prisma.SavedSearchMatchUncheckedUpdateManyWithoutDocumentNestedInput
+  duplicatesAsFirst?: Prisma.DocumentDuplicateUncheckedUpdateManyWithoutDocumentNestedInput
+  duplicatesAsSecond?: Prisma.DocumentDuplicateUncheckedUpdateManyWithoutDuplicateNestedInput
 }
 
 export type DocumentUncheckedUpdateManyWithoutUpdatedByInput = {
@@ -1720,10 +2716,14 @@ export type DocumentUncheckedUpdateManyWithoutUpdatedByInput = {
   sourceUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   content?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   summary?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  summaryChecksum?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  summarizedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  textSearchConfig?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdById?: Prisma.StringFieldUpdateOperationsInput | string
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  archivedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
 }
 
 
@@ -1737,6 +2737,10 @@ export type DocumentCountOutputType = {
   jobs: number
   chunks: number
   tags: number
+  terms: number
+  savedSearchMatches: number
+  duplicatesAsFirst: number
+  duplicatesAsSecond: number
 }
 
 export type DocumentCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
@@ -1745,6 +2749,10 @@ export type DocumentCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensio
   jobs?: boolean | DocumentCountOutputTypeCountJobsArgs
   chunks?: boolean | DocumentCountOutputTypeCountChunksArgs
   tags?: boolean | DocumentCountOutputTypeCountTagsArgs
+  terms?: boolean | DocumentCountOutputTypeCountTermsArgs
+  savedSearchMatches?: boolean | DocumentCountOutputTypeCountSavedSearchMatchesArgs
+  duplicatesAsFirst?: boolean | DocumentCountOutputTypeCountDuplicatesAsFirstArgs
+  duplicatesAsSecond?: boolean | DocumentCountOutputTypeCountDuplicatesAsSecondArgs
 }
 
 /**
@@ -1792,6 +2800,34 @@ export type DocumentCountOutputTypeCountTagsArgs<ExtArgs extends runtime.Types.E
   where?: Prisma.DocumentTagWhereInput
 }
 
+/**
+ * DocumentCountOutputType without action
+ */
+export type DocumentCountOutputTypeCountTermsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.DocumentTermWhereInput
+}
+
+/**
+ * DocumentCountOutputType without action
+ */
+export type DocumentCountOutputTypeCountSavedSearchMatchesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.SavedSearchMatchWhereInput
+}
+
+/**
+ * DocumentCountOutputType without action
+ */
+export type DocumentCountOutputTypeCountDuplicatesAsFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.DocumentDuplicateWhereInput
+}
+
+/**
+ * DocumentCountOutputType without action
+ */
+export type DocumentCountOutputTypeCountDuplicatesAsSecondArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.DocumentDuplicateWhereInput
+}
+
 
 export type DocumentSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
   id?: boolean
@@ -1801,11 +2837,15 @@ export type DocumentSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs
   sourceUrl?: boolean
   content?: boolean
   summary?: boolean
+  summaryChecksum?: boolean
+  summarizedAt?: boolean
   metadata?: boolean
+  textSearchConfig?: boolean
   createdById?: boolean
   updatedById?: boolean
   createdAt?: boolean
   updatedAt?: boolean
+  archivedAt?: boolean
   tenant?: boolean | Prisma.TenantDefaultArgs<ExtArgs>
   createdBy?: boolean | Prisma.UserDefaultArgs<ExtArgs>
   updatedBy?: boolean | Prisma.UserDefaultArgs<ExtArgs>
@@ -1815,6 +2855,10 @@ export type DocumentSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs
   chunks?: boolean | Prisma.Document$chunksArgs<ExtArgs>
   indexState?: boolean | Prisma.Document$indexStateArgs<ExtArgs>
   tags?: boolean | Prisma.Document$tagsArgs<ExtArgs>
+  terms?: boolean | Prisma.Document$termsArgs<ExtArgs>
+  savedSearchMatches?: boolean | Prisma.Document$savedSearchMatchesArgs<ExtArgs>
+  duplicatesAsFirst?: boolean | Prisma.Document$duplicatesAsFirstArgs<ExtArgs>
+  duplicatesAsSecond?: boolean | Prisma.Document$duplicatesAsSecondArgs<ExtArgs>
   _count?: boolean | Prisma.DocumentCountOutputTypeDefaultArgs<ExtArgs>
 }, ExtArgs["result"]["document"]>
 
@@ -1826,11 +2870,15 @@ export type DocumentSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Exte
   sourceUrl?: boolean
   content?: boolean
   summary?: boolean
+  summaryChecksum?: boolean
+  summarizedAt?: boolean
   metadata?: boolean
+  textSearchConfig?: boolean
   createdById?: boolean
   updatedById?: boolean
   createdAt?: boolean
   updatedAt?: boolean
+  archivedAt?: boolean
   tenant?: boolean | Prisma.TenantDefaultArgs<ExtArgs>
   createdBy?: boolean | Prisma.UserDefaultArgs<ExtArgs>
   updatedBy?: boolean | Prisma.UserDefaultArgs<ExtArgs>
@@ -1844,11 +2892,15 @@ export type DocumentSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Exte
   sourceUrl?: boolean
   content?: boolean
   summary?: boolean
+  summaryChecksum?: boolean
+  summarizedAt?: boolean
   metadata?: boolean
+  textSearchConfig?: boolean
   createdById?: boolean
   updatedById?: boolean
   createdAt?: boolean
   updatedAt?: boolean
+  archivedAt?: boolean
   tenant?: boolean | Prisma.TenantDefaultArgs<ExtArgs>
   createdBy?: boolean | Prisma.UserDefaultArgs<ExtArgs>
   updatedBy?: boolean | Prisma.UserDefaultArgs<ExtArgs>
@@ -1862,14 +2914,18 @@ export type DocumentSelectScalar = {
   sourceUrl?: boolean
   content?: boolean
   summary?: boolean
+  summaryChecksum?: boolean
+  summarizedAt?: boolean
   metadata?: boolean
+  textSearchConfig?: boolean
   createdById?: boolean
   updatedById?: boolean
   createdAt?: boolean
   updatedAt?: boolean
+  archivedAt?: boolean
 }
 
-export type DocumentOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "tenantId" | "title" | "source" | "sourceUrl" | "content" | "summary" | "metadata" | "createdById" | "updatedById" | "createdAt" | "updatedAt", ExtArgs["result"]["document"]>
+export type DocumentOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "tenantId" | "title" | "source" | "sourceUrl" | "content" | "summary" | "summaryChecksum" | "summarizedAt" | "metadata" | "textSearchConfig" | "createdById" | "updatedById" | "createdAt" | "updatedAt" | "archivedAt", ExtArgs["result"]["document"]>
 export type DocumentInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   tenant?: boolean | Prisma.TenantDefaultArgs<ExtArgs>
   createdBy?: boolean | Prisma.UserDefaultArgs<ExtArgs>
@@ -1880,6 +2936,10 @@ export type DocumentInclude<ExtArgs extends runtime.Types.Extensions.InternalArg
   chunks?: boolean | Prisma.Document$chunksArgs<ExtArgs>
   indexState?: boolean | Prisma.Document$indexStateArgs<ExtArgs>
   tags?: boolean | Prisma.Document$tagsArgs<ExtArgs>
+  terms?: boolean | Prisma.Document$termsArgs<ExtArgs>
+  savedSearchMatches?: boolean | Prisma.Document$savedSearchMatchesArgs<ExtArgs>
+  duplicatesAsFirst?: boolean | Prisma.Document$duplicatesAsFirstArgs<ExtArgs>
+  duplicatesAsSecond?: boolean | Prisma.Document$duplicatesAsSecondArgs<ExtArgs>
   _count?: boolean | Prisma.DocumentCountOutputTypeDefaultArgs<ExtArgs>
 }
 export type DocumentIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
@@ -1905,6 +2965,10 @@ export type $DocumentPayload<ExtArgs extends runtime.Types.Extensions.InternalAr
     chunks: Prisma.$DocumentChunkPayload<ExtArgs>[]
     indexState: Prisma.$DocumentIndexStatePayload<ExtArgs> | null
     tags: Prisma.$DocumentTagPayload<ExtArgs>[]
+    terms: Prisma.$DocumentTermPayload<ExtArgs>[]
+    savedSearchMatches: Prisma.$SavedSearchMatchPayload<ExtArgs>[]
+    duplicatesAsFirst: Prisma.$DocumentDuplicatePayload<ExtArgs>[]
+    duplicatesAsSecond: Prisma.$DocumentDuplicatePayload<ExtArgs>[]
   }
   scalars: runtime.Types.Extensions.GetPayloadResult<{
     id: string
@@ -1914,11 +2978,15 @@ export type $DocumentPayload<ExtArgs extends runtime.Types.Extensions.InternalAr
     sourceUrl: string | null
     content: string | null
     summary: string | null
+    summaryChecksum: string | null
+    summarizedAt: Date | null
     metadata: runtime.JsonValue | null
+    textSearchConfig: string | null
     createdById: string
     updatedById: string
     createdAt: Date
     updatedAt: Date
+    archivedAt: Date | null
   }, ExtArgs["result"]["document"]>
   composites: {}
 }
@@ -2322,6 +3390,10 @@ export interface Prisma__DocumentClient<T, Null = never, ExtArgs extends runtime
   chunks<T extends Prisma.Document$chunksArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Document$chunksArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$DocumentChunkPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   indexState<T extends Prisma.Document$indexStateArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Document$indexStateArgs<ExtArgs>>): Prisma.Prisma__DocumentIndexStateClient<runtime.Types.Result.GetResult<Prisma.$DocumentIndexStatePayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
   tags<T extends Prisma.Document$tagsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Document$tagsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$DocumentTagPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  terms<T extends Prisma.Document$termsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Document$termsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$DocumentTermPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  savedSearchMatches<T extends Prisma.Document$savedSearchMatchesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Document$savedSearchMatchesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$SavedSearchMatchPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  duplicatesAsFirst<T extends Prisma.Document$duplicatesAsFirstArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Document$duplicatesAsFirstArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$DocumentDuplicatePayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  duplicatesAsSecond<T extends Prisma.Document$duplicatesAsSecondArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Document$duplicatesAsSecondArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$DocumentDuplicatePayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   /**
    * Attaches callbacks for the resolution and/or rejection of the Promise.
    * @param onfulfilled The callback to execute when the Promise is resolved.
@@ -2358,11 +3430,15 @@ export interface DocumentFieldRefs {
   readonly sourceUrl: Prisma.FieldRef<"Document", 'String'>
   readonly content: Prisma.FieldRef<"Document", 'String'>
   readonly summary: Prisma.FieldRef<"Document", 'String'>
+  readonly summaryChecksum: Prisma.FieldRef<"Document", 'String'>
+  readonly summarizedAt: Prisma.FieldRef<"Document", 'DateTime'>
   readonly metadata: Prisma.FieldRef<"Document", 'Json'>
+  readonly textSearchConfig: Prisma.FieldRef<"Document", 'String'>
   readonly createdById: Prisma.FieldRef<"Document", 'String'>
   readonly updatedById: Prisma.FieldRef<"Document", 'String'>
   readonly createdAt: Prisma.FieldRef<"Document", 'DateTime'>
   readonly updatedAt: Prisma.FieldRef<"Document", 'DateTime'>
+  readonly archivedAt: Prisma.FieldRef<"Document", 'DateTime'>
 }
     
 
@@ -2897,6 +3973,102 @@ export type Document$tagsArgs<ExtArgs extends runtime.Types.Extensions.InternalA
   distinct?: Prisma.DocumentTagScalarFieldEnum | Prisma.DocumentTagScalarFieldEnum[]
 }
 
+/**
+ * Document.terms
+ */
+export type Document$termsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the DocumentTerm
+   */
+  select?: Prisma.DocumentTermSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the DocumentTerm
+   */
+  omit?: Prisma.DocumentTermOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.DocumentTermInclude<ExtArgs> | null
+  where?: Prisma.DocumentTermWhereInput
+  orderBy?: Prisma.DocumentTermOrderByWithRelationInput | Prisma.DocumentTermOrderByWithRelationInput[]
+  cursor?: Prisma.DocumentTermWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.DocumentTermScalarFieldEnum | Prisma.DocumentTermScalarFieldEnum[]
+}
+
+/**
+ * Document.savedSearchMatches
+ */
+export type Document$savedSearchMatchesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SavedSearchMatch
+   */
+  select?: Prisma.SavedSearchMatchSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SavedSearchMatch
+   */
+  omit?: Prisma.SavedSearchMatchOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SavedSearchMatchInclude<ExtArgs> | null
+  where?: Prisma.SavedSearchMatchWhereInput
+  orderBy?: Prisma.SavedSearchMatchOrderByWithRelationInput | Prisma.SavedSearchMatchOrderByWithRelationInput[]
+  cursor?: Prisma.SavedSearchMatchWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.SavedSearchMatchScalarFieldEnum | Prisma.SavedSearchMatchScalarFieldEnum[]
+}
+
+/**
+ * Document.duplicatesAsFirst
+ */
+export type Document$duplicatesAsFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the DocumentDuplicate
+   */
+  select?: Prisma.DocumentDuplicateSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the DocumentDuplicate
+   */
+  omit?: Prisma.DocumentDuplicateOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.DocumentDuplicateInclude<ExtArgs> | null
+  where?: Prisma.DocumentDuplicateWhereInput
+  orderBy?: Prisma.DocumentDuplicateOrderByWithRelationInput | Prisma.DocumentDuplicateOrderByWithRelationInput[]
+  cursor?: Prisma.DocumentDuplicateWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.DocumentDuplicateScalarFieldEnum | Prisma.DocumentDuplicateScalarFieldEnum[]
+}
+
+/**
+ * Document.duplicatesAsSecond
+ */
+export type Document$duplicatesAsSecondArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the DocumentDuplicate
+   */
+  select?: Prisma.DocumentDuplicateSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the DocumentDuplicate
+   */
+  omit?: Prisma.DocumentDuplicateOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.DocumentDuplicateInclude<ExtArgs> | null
+  where?: Prisma.DocumentDuplicateWhereInput
+  orderBy?: Prisma.DocumentDuplicateOrderByWithRelationInput | Prisma.DocumentDuplicateOrderByWithRelationInput[]
+  cursor?: Prisma.DocumentDuplicateWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.DocumentDuplicateScalarFieldEnum | Prisma.DocumentDuplicateScalarFieldEnum[]
+}
+
 /**
  * Document without action
  */
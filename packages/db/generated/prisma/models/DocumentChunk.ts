@@ -47,6 +47,7 @@ export type DocumentChunkMinAggregateOutputType = {
   rawMarkdown: string | null
   startPos: number | null
   endPos: number | null
+  embeddingModel: string | null
   createdAt: Date | null
 }
 
@@ -59,6 +60,7 @@ export type DocumentChunkMaxAggregateOutputType = {
   rawMarkdown: string | null
   startPos: number | null
   endPos: number | null
+  embeddingModel: string | null
   createdAt: Date | null
 }
 
@@ -72,6 +74,7 @@ export type DocumentChunkCountAggregateOutputType = {
   headingPath: number
   startPos: number
   endPos: number
+  embeddingModel: number
   createdAt: number
   _all: number
 }
@@ -98,6 +101,7 @@ export type DocumentChunkMinAggregateInputType = {
   rawMarkdown?: true
   startPos?: true
   endPos?: true
+  embeddingModel?: true
   createdAt?: true
 }
 
@@ -110,6 +114,7 @@ export type DocumentChunkMaxAggregateInputType = {
   rawMarkdown?: true
   startPos?: true
   endPos?: true
+  embeddingModel?: true
   createdAt?: true
 }
 
@@ -123,6 +128,7 @@ export type DocumentChunkCountAggregateInputType = {
   headingPath?: true
   startPos?: true
   endPos?: true
+  embeddingModel?: true
   createdAt?: true
   _all?: true
 }
@@ -223,6 +229,7 @@ export type DocumentChunkGroupByOutputType = {
   headingPath: runtime.JsonValue | null
   startPos: number | null
   endPos: number | null
+  embeddingModel: string
   createdAt: Date
   _count: DocumentChunkCountAggregateOutputType | null
   _avg: DocumentChunkAvgAggregateOutputType | null
@@ -259,8 +266,10 @@ export type DocumentChunkWhereInput = {
   headingPath?: Prisma.JsonNullableFilter<"DocumentChunk">
   startPos?: Prisma.IntNullableFilter<"DocumentChunk"> | number | null
   endPos?: Prisma.IntNullableFilter<"DocumentChunk"> | number | null
+  embeddingModel?: Prisma.StringFilter<"DocumentChunk"> | string
   createdAt?: Prisma.DateTimeFilter<"DocumentChunk"> | Date | string
   document?: Prisma.XOR<Prisma.DocumentScalarRelationFilter, Prisma.DocumentWhereInput>
+  embeddings?: Prisma.DocumentChunkEmbeddingListRelationFilter
 }
 
 export type DocumentChunkOrderByWithRelationInput = {
@@ -273,8 +282,10 @@ export type DocumentChunkOrderByWithRelationInput = {
   headingPath?: Prisma.SortOrderInput | Prisma.SortOrder
   startPos?: Prisma.SortOrderInput | Prisma.SortOrder
   endPos?: Prisma.SortOrderInput | Prisma.SortOrder
+  embeddingModel?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   document?: Prisma.DocumentOrderByWithRelationInput
+  embeddings?: Prisma.DocumentChunkEmbeddingOrderByRelationAggregateInput
 }
 
 export type DocumentChunkWhereUniqueInput = Prisma.AtLeast<{
@@ -291,8 +302,10 @@ export type DocumentChunkWhereUniqueInput = Prisma.AtLeast<{
   headingPath?: Prisma.JsonNullableFilter<"DocumentChunk">
   startPos?: Prisma.IntNullableFilter<"DocumentChunk"> | number | null
   endPos?: Prisma.IntNullableFilter<"DocumentChunk"> | number | null
+  embeddingModel?: Prisma.StringFilter<"DocumentChunk"> | string
   createdAt?: Prisma.DateTimeFilter<"DocumentChunk"> | Date | string
   document?: Prisma.XOR<Prisma.DocumentScalarRelationFilter, Prisma.DocumentWhereInput>
+  embeddings?: Prisma.DocumentChunkEmbeddingListRelationFilter
 }, "id" | "documentId_idx">
 
 export type DocumentChunkOrderByWithAggregationInput = {
@@ -305,6 +318,7 @@ export type DocumentChunkOrderByWithAggregationInput = {
   headingPath?: Prisma.SortOrderInput | Prisma.SortOrder
   startPos?: Prisma.SortOrderInput | Prisma.SortOrder
   endPos?: Prisma.SortOrderInput | Prisma.SortOrder
+  embeddingModel?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   _count?: Prisma.DocumentChunkCountOrderByAggregateInput
   _avg?: Prisma.DocumentChunkAvgOrderByAggregateInput
@@ -326,6 +340,7 @@ export type DocumentChunkScalarWhereWithAggregatesInput = {
   headingPath?: Prisma.JsonNullableWithAggregatesFilter<"DocumentChunk">
   startPos?: Prisma.IntNullableWithAggregatesFilter<"DocumentChunk"> | number | null
   endPos?: Prisma.IntNullableWithAggregatesFilter<"DocumentChunk"> | number | null
+  embeddingModel?: Prisma.StringWithAggregatesFilter<"DocumentChunk"> | string
   createdAt?: Prisma.DateTimeWithAggregatesFilter<"DocumentChunk"> | Date | string
 }
 
@@ -337,8 +352,10 @@ export type DocumentChunkUpdateInput = {
   headingPath?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   startPos?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   endPos?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  embeddingModel?: Prisma.StringFieldUpdateOperationsInput | string
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   document?: Prisma.DocumentUpdateOneRequiredWithoutChunksNestedInput
+  embeddings?: Prisma.DocumentChunkEmbeddingUpdateManyWithoutChunkNestedInput
 }
 
 export type DocumentChunkUncheckedUpdateInput = {
@@ -351,7 +368,9 @@ export type DocumentChunkUncheckedUpdateInput = {
   headingPath?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   startPos?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   endPos?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  embeddingModel?: Prisma.StringFieldUpdateOperationsInput | string
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  embeddings?: Prisma.DocumentChunkEmbeddingUncheckedUpdateManyWithoutChunkNestedInput
 }
 
 export type DocumentChunkUpdateManyMutationInput = {
@@ -362,6 +381,7 @@ export type DocumentChunkUpdateManyMutationInput = {
   headingPath?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   startPos?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   endPos?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  embeddingModel?: Prisma.StringFieldUpdateOperationsInput | string
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
 
@@ -375,6 +395,7 @@ export type DocumentChunkUncheckedUpdateManyInput = {
   headingPath?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   startPos?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   endPos?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  embeddingModel?: Prisma.StringFieldUpdateOperationsInput | string
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
 
@@ -403,6 +424,7 @@ export type DocumentChunkCountOrderByAggregateInput = {
   headingPath?: Prisma.SortOrder
   startPos?: Prisma.SortOrder
   endPos?: Prisma.SortOrder
+  embeddingModel?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
 }
 
@@ -421,6 +443,7 @@ export type DocumentChunkMaxOrderByAggregateInput = {
   rawMarkdown?: Prisma.SortOrder
   startPos?: Prisma.SortOrder
   endPos?: Prisma.SortOrder
+  embeddingModel?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
 }
 
@@ -433,6 +456,7 @@ export type DocumentChunkMinOrderByAggregateInput = {
   rawMarkdown?: Prisma.SortOrder
   startPos?: Prisma.SortOrder
   endPos?: Prisma.SortOrder
+  embeddingModel?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
 }
 
@@ -442,6 +466,11 @@ export type DocumentChunkSumOrderByAggregateInput = {
   endPos?: Prisma.SortOrder
 }
 
+export type DocumentChunkScalarRelationFilter = {
+  is?: Prisma.DocumentChunkWhereInput
+  isNot?: Prisma.DocumentChunkWhereInput
+}
+
 export type DocumentChunkCreateNestedManyWithoutDocumentInput = {
   connect?: Prisma.DocumentChunkWhereUniqueInput | Prisma.DocumentChunkWhereUniqueInput[]
 }
@@ -478,12 +507,9 @@ export type IntFieldUpdateOperationsInput = {
   divide?: number
 }
 
-export type NullableIntFieldUpdateOperationsInput = {
-  set?: number | null
-  increment?: number
-  decrement?: number
-  multiply?: number
-  divide?: number
+export type DocumentChunkUpdateOneRequiredWithoutEmbeddingsNestedInput = {
+  connect?: Prisma.DocumentChunkWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.DocumentChunkUpdateToOneWithWhereWithoutEmbeddingsInput, Prisma.DocumentChunkUpdateWithoutEmbeddingsInput>, Prisma.DocumentChunkUncheckedUpdateWithoutEmbeddingsInput>
 }
 
 export type DocumentChunkUpdateWithWhereUniqueWithoutDocumentInput = {
@@ -509,9 +535,42 @@ export type DocumentChunkScalarWhereInput = {
   headingPath?: Prisma.JsonNullableFilter<"DocumentChunk">
   startPos?: Prisma.IntNullableFilter<"DocumentChunk"> | number | null
   endPos?: Prisma.IntNullableFilter<"DocumentChunk"> | number | null
+  embeddingModel?: Prisma.StringFilter<"DocumentChunk"> | string
   createdAt?: Prisma.DateTimeFilter<"DocumentChunk"> | Date | string
 }
 
+export type DocumentChunkUpdateToOneWithWhereWithoutEmbeddingsInput = {
+  where?: Prisma.DocumentChunkWhereInput
+  data: Prisma.XOR<Prisma.DocumentChunkUpdateWithoutEmbeddingsInput, Prisma.DocumentChunkUncheckedUpdateWithoutEmbeddingsInput>
+}
+
+export type DocumentChunkUpdateWithoutEmbeddingsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  idx?: Prisma.IntFieldUpdateOperationsInput | number
+  content?: Prisma.StringFieldUpdateOperationsInput | string
+  rawMarkdown?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  headingPath?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  startPos?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  endPos?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  embeddingModel?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  document?: Prisma.DocumentUpdateOneRequiredWithoutChunksNestedInput
+}
+
+export type DocumentChunkUncheckedUpdateWithoutEmbeddingsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  tenantId?: Prisma.StringFieldUpdateOperationsInput | string
+  documentId?: Prisma.StringFieldUpdateOperationsInput | string
+  idx?: Prisma.IntFieldUpdateOperationsInput | number
+  content?: Prisma.StringFieldUpdateOperationsInput | string
+  rawMarkdown?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  headingPath?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  startPos?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  endPos?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  embeddingModel?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
 export type DocumentChunkUpdateWithoutDocumentInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   idx?: Prisma.IntFieldUpdateOperationsInput | number
@@ -520,7 +579,9 @@ export type DocumentChunkUpdateWithoutDocumentInput = {
   headingPath?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   startPos?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   endPos?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  embeddingModel?: Prisma.StringFieldUpdateOperationsInput | string
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  embeddings?: Prisma.DocumentChunkEmbeddingUpdateManyWithoutChunkNestedInput
 }
 
 export type DocumentChunkUncheckedUpdateWithoutDocumentInput = {
@@ -531,7 +592,9 @@ export type DocumentChunkUncheckedUpdateWithoutDocumentInput = {
   headingPath?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   startPos?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   endPos?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  embeddingModel?: Prisma.StringFieldUpdateOperationsInput | string
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  embeddings?: Prisma.DocumentChunkEmbeddingUncheckedUpdateManyWithoutChunkNestedInput
 }
 
 export type DocumentChunkUncheckedUpdateManyWithoutDocumentInput = {
@@ -542,10 +605,40 @@ export type DocumentChunkUncheckedUpdateManyWithoutDocumentInput = {
   headingPath?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   startPos?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   endPos?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  embeddingModel?: Prisma.StringFieldUpdateOperationsInput | string
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
 
 
+/**
+ * Count Type DocumentChunkCountOutputType
+ */
+
+export type DocumentChunkCountOutputType = {
+  embeddings: number
+}
+
+export type DocumentChunkCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  embeddings?: boolean | DocumentChunkCountOutputTypeCountEmbeddingsArgs
+}
+
+/**
+ * DocumentChunkCountOutputType without action
+ */
+export type DocumentChunkCountOutputTypeDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the DocumentChunkCountOutputType
+   */
+  select?: Prisma.DocumentChunkCountOutputTypeSelect<ExtArgs> | null
+}
+
+/**
+ * DocumentChunkCountOutputType without action
+ */
+export type DocumentChunkCountOutputTypeCountEmbeddingsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.DocumentChunkEmbeddingWhereInput
+}
+
 
 export type DocumentChunkSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
   id?: boolean
@@ -557,8 +650,11 @@ export type DocumentChunkSelect<ExtArgs extends runtime.Types.Extensions.Interna
   headingPath?: boolean
   startPos?: boolean
   endPos?: boolean
+  embeddingModel?: boolean
   createdAt?: boolean
   document?: boolean | Prisma.DocumentDefaultArgs<ExtArgs>
+  embeddings?: boolean | Prisma.DocumentChunk$embeddingsArgs<ExtArgs>
+  _count?: boolean | Prisma.DocumentChunkCountOutputTypeDefaultArgs<ExtArgs>
 }, ExtArgs["result"]["documentChunk"]>
 
 
@@ -572,6 +668,7 @@ export type DocumentChunkSelectUpdateManyAndReturn<ExtArgs extends runtime.Types
   headingPath?: boolean
   startPos?: boolean
   endPos?: boolean
+  embeddingModel?: boolean
   createdAt?: boolean
   document?: boolean | Prisma.DocumentDefaultArgs<ExtArgs>
 }, ExtArgs["result"]["documentChunk"]>
@@ -586,12 +683,15 @@ export type DocumentChunkSelectScalar = {
   headingPath?: boolean
   startPos?: boolean
   endPos?: boolean
+  embeddingModel?: boolean
   createdAt?: boolean
 }
 
-export type DocumentChunkOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "tenantId" | "documentId" | "idx" | "content" | "rawMarkdown" | "headingPath" | "startPos" | "endPos" | "createdAt", ExtArgs["result"]["documentChunk"]>
+export type DocumentChunkOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "tenantId" | "documentId" | "idx" | "content" | "rawMarkdown" | "headingPath" | "startPos" | "endPos" | "embeddingModel" | "createdAt", ExtArgs["result"]["documentChunk"]>
 export type DocumentChunkInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   document?: boolean | Prisma.DocumentDefaultArgs<ExtArgs>
+  embeddings?: boolean | Prisma.DocumentChunk$embeddingsArgs<ExtArgs>
+  _count?: boolean | Prisma.DocumentChunkCountOutputTypeDefaultArgs<ExtArgs>
 }
 export type DocumentChunkIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   document?: boolean | Prisma.DocumentDefaultArgs<ExtArgs>
@@ -601,6 +701,7 @@ export type $DocumentChunkPayload<ExtArgs extends runtime.Types.Extensions.Inter
   name: "DocumentChunk"
   objects: {
     document: Prisma.$DocumentPayload<ExtArgs>
+    embeddings: Prisma.$DocumentChunkEmbeddingPayload<ExtArgs>[]
   }
   scalars: runtime.Types.Extensions.GetPayloadResult<{
     id: string
@@ -612,6 +713,7 @@ export type $DocumentChunkPayload<ExtArgs extends runtime.Types.Extensions.Inter
     headingPath: runtime.JsonValue | null
     startPos: number | null
     endPos: number | null
+    embeddingModel: string
     createdAt: Date
   }, ExtArgs["result"]["documentChunk"]>
   composites: {}
@@ -937,6 +1039,7 @@ readonly fields: DocumentChunkFieldRefs;
 export interface Prisma__DocumentChunkClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
   readonly [Symbol.toStringTag]: "PrismaPromise"
   document<T extends Prisma.DocumentDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.DocumentDefaultArgs<ExtArgs>>): Prisma.Prisma__DocumentClient<runtime.Types.Result.GetResult<Prisma.$DocumentPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  embeddings<T extends Prisma.DocumentChunk$embeddingsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.DocumentChunk$embeddingsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$DocumentChunkEmbeddingPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   /**
    * Attaches callbacks for the resolution and/or rejection of the Promise.
    * @param onfulfilled The callback to execute when the Promise is resolved.
@@ -975,6 +1078,7 @@ export interface DocumentChunkFieldRefs {
   readonly headingPath: Prisma.FieldRef<"DocumentChunk", 'Json'>
   readonly startPos: Prisma.FieldRef<"DocumentChunk", 'Int'>
   readonly endPos: Prisma.FieldRef<"DocumentChunk", 'Int'>
+  readonly embeddingModel: Prisma.FieldRef<"DocumentChunk", 'String'>
   readonly createdAt: Prisma.FieldRef<"DocumentChunk", 'DateTime'>
 }
     
@@ -1285,6 +1389,30 @@ export type DocumentChunkDeleteManyArgs<ExtArgs extends runtime.Types.Extensions
   limit?: number
 }
 
+/**
+ * DocumentChunk.embeddings
+ */
+export type DocumentChunk$embeddingsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the DocumentChunkEmbedding
+   */
+  select?: Prisma.DocumentChunkEmbeddingSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the DocumentChunkEmbedding
+   */
+  omit?: Prisma.DocumentChunkEmbeddingOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.DocumentChunkEmbeddingInclude<ExtArgs> | null
+  where?: Prisma.DocumentChunkEmbeddingWhereInput
+  orderBy?: Prisma.DocumentChunkEmbeddingOrderByWithRelationInput | Prisma.DocumentChunkEmbeddingOrderByWithRelationInput[]
+  cursor?: Prisma.DocumentChunkEmbeddingWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.DocumentChunkEmbeddingScalarFieldEnum | Prisma.DocumentChunkEmbeddingScalarFieldEnum[]
+}
+
 /**
  * DocumentChunk without action
  */
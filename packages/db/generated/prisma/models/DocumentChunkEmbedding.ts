@@ -0,0 +1,1067 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `DocumentChunkEmbedding` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums.js"
+import type * as Prisma from "../internal/prismaNamespace.js"
+
+/**
+ * Model DocumentChunkEmbedding
+ * 
+ */
+export type DocumentChunkEmbeddingModel = runtime.Types.Result.DefaultSelection<Prisma.$DocumentChunkEmbeddingPayload>
+
+export type AggregateDocumentChunkEmbedding = {
+  _count: DocumentChunkEmbeddingCountAggregateOutputType | null
+  _min: DocumentChunkEmbeddingMinAggregateOutputType | null
+  _max: DocumentChunkEmbeddingMaxAggregateOutputType | null
+}
+
+export type DocumentChunkEmbeddingMinAggregateOutputType = {
+  chunkId: string | null
+  tenantId: string | null
+  embeddingModel: string | null
+  createdAt: Date | null
+}
+
+export type DocumentChunkEmbeddingMaxAggregateOutputType = {
+  chunkId: string | null
+  tenantId: string | null
+  embeddingModel: string | null
+  createdAt: Date | null
+}
+
+export type DocumentChunkEmbeddingCountAggregateOutputType = {
+  chunkId: number
+  tenantId: number
+  embeddingModel: number
+  createdAt: number
+  _all: number
+}
+
+
+export type DocumentChunkEmbeddingMinAggregateInputType = {
+  chunkId?: true
+  tenantId?: true
+  embeddingModel?: true
+  createdAt?: true
+}
+
+export type DocumentChunkEmbeddingMaxAggregateInputType = {
+  chunkId?: true
+  tenantId?: true
+  embeddingModel?: true
+  createdAt?: true
+}
+
+export type DocumentChunkEmbeddingCountAggregateInputType = {
+  chunkId?: true
+  tenantId?: true
+  embeddingModel?: true
+  createdAt?: true
+  _all?: true
+}
+
+export type DocumentChunkEmbeddingAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which DocumentChunkEmbedding to aggregate.
+   */
+  where?: Prisma.DocumentChunkEmbeddingWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of DocumentChunkEmbeddings to fetch.
+   */
+  orderBy?: Prisma.DocumentChunkEmbeddingOrderByWithRelationInput | Prisma.DocumentChunkEmbeddingOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.DocumentChunkEmbeddingWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` DocumentChunkEmbeddings from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` DocumentChunkEmbeddings.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned DocumentChunkEmbeddings
+  **/
+  _count?: true | DocumentChunkEmbeddingCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: DocumentChunkEmbeddingMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: DocumentChunkEmbeddingMaxAggregateInputType
+}
+
+export type GetDocumentChunkEmbeddingAggregateType<T extends DocumentChunkEmbeddingAggregateArgs> = {
+      [P in keyof T & keyof AggregateDocumentChunkEmbedding]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateDocumentChunkEmbedding[P]>
+    : Prisma.GetScalarType<T[P], AggregateDocumentChunkEmbedding[P]>
+}
+
+
+
+
+export type DocumentChunkEmbeddingGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.DocumentChunkEmbeddingWhereInput
+  orderBy?: Prisma.DocumentChunkEmbeddingOrderByWithAggregationInput | Prisma.DocumentChunkEmbeddingOrderByWithAggregationInput[]
+  by: Prisma.DocumentChunkEmbeddingScalarFieldEnum[] | Prisma.DocumentChunkEmbeddingScalarFieldEnum
+  having?: Prisma.DocumentChunkEmbeddingScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: DocumentChunkEmbeddingCountAggregateInputType | true
+  _min?: DocumentChunkEmbeddingMinAggregateInputType
+  _max?: DocumentChunkEmbeddingMaxAggregateInputType
+}
+
+export type DocumentChunkEmbeddingGroupByOutputType = {
+  chunkId: string
+  tenantId: string
+  embeddingModel: string
+  createdAt: Date
+  _count: DocumentChunkEmbeddingCountAggregateOutputType | null
+  _min: DocumentChunkEmbeddingMinAggregateOutputType | null
+  _max: DocumentChunkEmbeddingMaxAggregateOutputType | null
+}
+
+type GetDocumentChunkEmbeddingGroupByPayload<T extends DocumentChunkEmbeddingGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<DocumentChunkEmbeddingGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof DocumentChunkEmbeddingGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], DocumentChunkEmbeddingGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], DocumentChunkEmbeddingGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type DocumentChunkEmbeddingWhereInput = {
+  AND?: Prisma.DocumentChunkEmbeddingWhereInput | Prisma.DocumentChunkEmbeddingWhereInput[]
+  OR?: Prisma.DocumentChunkEmbeddingWhereInput[]
+  NOT?: Prisma.DocumentChunkEmbeddingWhereInput | Prisma.DocumentChunkEmbeddingWhereInput[]
+  chunkId?: Prisma.StringFilter<"DocumentChunkEmbedding"> | string
+  tenantId?: Prisma.StringFilter<"DocumentChunkEmbedding"> | string
+  embeddingModel?: Prisma.StringFilter<"DocumentChunkEmbedding"> | string
+  createdAt?: Prisma.DateTimeFilter<"DocumentChunkEmbedding"> | Date | string
+  chunk?: Prisma.XOR<Prisma.DocumentChunkScalarRelationFilter, Prisma.DocumentChunkWhereInput>
+}
+
+export type DocumentChunkEmbeddingOrderByWithRelationInput = {
+  chunkId?: Prisma.SortOrder
+  tenantId?: Prisma.SortOrder
+  embeddingModel?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  chunk?: Prisma.DocumentChunkOrderByWithRelationInput
+}
+
+export type DocumentChunkEmbeddingWhereUniqueInput = Prisma.AtLeast<{
+  chunkId_embeddingModel?: Prisma.DocumentChunkEmbeddingChunkIdEmbeddingModelCompoundUniqueInput
+  AND?: Prisma.DocumentChunkEmbeddingWhereInput | Prisma.DocumentChunkEmbeddingWhereInput[]
+  OR?: Prisma.DocumentChunkEmbeddingWhereInput[]
+  NOT?: Prisma.DocumentChunkEmbeddingWhereInput | Prisma.DocumentChunkEmbeddingWhereInput[]
+  chunkId?: Prisma.StringFilter<"DocumentChunkEmbedding"> | string
+  tenantId?: Prisma.StringFilter<"DocumentChunkEmbedding"> | string
+  embeddingModel?: Prisma.StringFilter<"DocumentChunkEmbedding"> | string
+  createdAt?: Prisma.DateTimeFilter<"DocumentChunkEmbedding"> | Date | string
+  chunk?: Prisma.XOR<Prisma.DocumentChunkScalarRelationFilter, Prisma.DocumentChunkWhereInput>
+}, "chunkId_embeddingModel">
+
+export type DocumentChunkEmbeddingOrderByWithAggregationInput = {
+  chunkId?: Prisma.SortOrder
+  tenantId?: Prisma.SortOrder
+  embeddingModel?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  _count?: Prisma.DocumentChunkEmbeddingCountOrderByAggregateInput
+  _max?: Prisma.DocumentChunkEmbeddingMaxOrderByAggregateInput
+  _min?: Prisma.DocumentChunkEmbeddingMinOrderByAggregateInput
+}
+
+export type DocumentChunkEmbeddingScalarWhereWithAggregatesInput = {
+  AND?: Prisma.DocumentChunkEmbeddingScalarWhereWithAggregatesInput | Prisma.DocumentChunkEmbeddingScalarWhereWithAggregatesInput[]
+  OR?: Prisma.DocumentChunkEmbeddingScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.DocumentChunkEmbeddingScalarWhereWithAggregatesInput | Prisma.DocumentChunkEmbeddingScalarWhereWithAggregatesInput[]
+  chunkId?: Prisma.StringWithAggregatesFilter<"DocumentChunkEmbedding"> | string
+  tenantId?: Prisma.StringWithAggregatesFilter<"DocumentChunkEmbedding"> | string
+  embeddingModel?: Prisma.StringWithAggregatesFilter<"DocumentChunkEmbedding"> | string
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"DocumentChunkEmbedding"> | Date | string
+}
+
+export type DocumentChunkEmbeddingUpdateInput = {
+  tenantId?: Prisma.StringFieldUpdateOperationsInput | string
+  embeddingModel?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  chunk?: Prisma.DocumentChunkUpdateOneRequiredWithoutEmbeddingsNestedInput
+}
+
+export type DocumentChunkEmbeddingUncheckedUpdateInput = {
+  chunkId?: Prisma.StringFieldUpdateOperationsInput | string
+  tenantId?: Prisma.StringFieldUpdateOperationsInput | string
+  embeddingModel?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type DocumentChunkEmbeddingUpdateManyMutationInput = {
+  tenantId?: Prisma.StringFieldUpdateOperationsInput | string
+  embeddingModel?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type DocumentChunkEmbeddingUncheckedUpdateManyInput = {
+  chunkId?: Prisma.StringFieldUpdateOperationsInput | string
+  tenantId?: Prisma.StringFieldUpdateOperationsInput | string
+  embeddingModel?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type DocumentChunkEmbeddingListRelationFilter = {
+  every?: Prisma.DocumentChunkEmbeddingWhereInput
+  some?: Prisma.DocumentChunkEmbeddingWhereInput
+  none?: Prisma.DocumentChunkEmbeddingWhereInput
+}
+
+export type DocumentChunkEmbeddingOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type DocumentChunkEmbeddingChunkIdEmbeddingModelCompoundUniqueInput = {
+  chunkId: string
+  embeddingModel: string
+}
+
+export type DocumentChunkEmbeddingCountOrderByAggregateInput = {
+  chunkId?: Prisma.SortOrder
+  tenantId?: Prisma.SortOrder
+  embeddingModel?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type DocumentChunkEmbeddingMaxOrderByAggregateInput = {
+  chunkId?: Prisma.SortOrder
+  tenantId?: Prisma.SortOrder
+  embeddingModel?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type DocumentChunkEmbeddingMinOrderByAggregateInput = {
+  chunkId?: Prisma.SortOrder
+  tenantId?: Prisma.SortOrder
+  embeddingModel?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type DocumentChunkEmbeddingUpdateManyWithoutChunkNestedInput = {
+  set?: Prisma.DocumentChunkEmbeddingWhereUniqueInput | Prisma.DocumentChunkEmbeddingWhereUniqueInput[]
+  disconnect?: Prisma.DocumentChunkEmbeddingWhereUniqueInput | Prisma.DocumentChunkEmbeddingWhereUniqueInput[]
+  delete?: Prisma.DocumentChunkEmbeddingWhereUniqueInput | Prisma.DocumentChunkEmbeddingWhereUniqueInput[]
+  connect?: Prisma.DocumentChunkEmbeddingWhereUniqueInput | Prisma.DocumentChunkEmbeddingWhereUniqueInput[]
+  update?: Prisma.DocumentChunkEmbeddingUpdateWithWhereUniqueWithoutChunkInput | Prisma.DocumentChunkEmbeddingUpdateWithWhereUniqueWithoutChunkInput[]
+  updateMany?: Prisma.DocumentChunkEmbeddingUpdateManyWithWhereWithoutChunkInput | Prisma.DocumentChunkEmbeddingUpdateManyWithWhereWithoutChunkInput[]
+  deleteMany?: Prisma.DocumentChunkEmbeddingScalarWhereInput | Prisma.DocumentChunkEmbeddingScalarWhereInput[]
+}
+
+export type DocumentChunkEmbeddingUncheckedUpdateManyWithoutChunkNestedInput = {
+  set?: Prisma.DocumentChunkEmbeddingWhereUniqueInput | Prisma.DocumentChunkEmbeddingWhereUniqueInput[]
+  disconnect?: Prisma.DocumentChunkEmbeddingWhereUniqueInput | Prisma.DocumentChunkEmbeddingWhereUniqueInput[]
+  delete?: Prisma.DocumentChunkEmbeddingWhereUniqueInput | Prisma.DocumentChunkEmbeddingWhereUniqueInput[]
+  connect?: Prisma.DocumentChunkEmbeddingWhereUniqueInput | Prisma.DocumentChunkEmbeddingWhereUniqueInput[]
+  update?: Prisma.DocumentChunkEmbeddingUpdateWithWhereUniqueWithoutChunkInput | Prisma.DocumentChunkEmbeddingUpdateWithWhereUniqueWithoutChunkInput[]
+  updateMany?: Prisma.DocumentChunkEmbeddingUpdateManyWithWhereWithoutChunkInput | Prisma.DocumentChunkEmbeddingUpdateManyWithWhereWithoutChunkInput[]
+  deleteMany?: Prisma.DocumentChunkEmbeddingScalarWhereInput | Prisma.DocumentChunkEmbeddingScalarWhereInput[]
+}
+
+export type DocumentChunkEmbeddingUpdateWithWhereUniqueWithoutChunkInput = {
+  where: Prisma.DocumentChunkEmbeddingWhereUniqueInput
+  data: Prisma.XOR<Prisma.DocumentChunkEmbeddingUpdateWithoutChunkInput, Prisma.DocumentChunkEmbeddingUncheckedUpdateWithoutChunkInput>
+}
+
+export type DocumentChunkEmbeddingUpdateManyWithWhereWithoutChunkInput = {
+  where: Prisma.DocumentChunkEmbeddingScalarWhereInput
+  data: Prisma.XOR<Prisma.DocumentChunkEmbeddingUpdateManyMutationInput, Prisma.DocumentChunkEmbeddingUncheckedUpdateManyWithoutChunkInput>
+}
+
+export type DocumentChunkEmbeddingScalarWhereInput = {
+  AND?: Prisma.DocumentChunkEmbeddingScalarWhereInput | Prisma.DocumentChunkEmbeddingScalarWhereInput[]
+  OR?: Prisma.DocumentChunkEmbeddingScalarWhereInput[]
+  NOT?: Prisma.DocumentChunkEmbeddingScalarWhereInput | Prisma.DocumentChunkEmbeddingScalarWhereInput[]
+  chunkId?: Prisma.StringFilter<"DocumentChunkEmbedding"> | string
+  tenantId?: Prisma.StringFilter<"DocumentChunkEmbedding"> | string
+  embeddingModel?: Prisma.StringFilter<"DocumentChunkEmbedding"> | string
+  createdAt?: Prisma.DateTimeFilter<"DocumentChunkEmbedding"> | Date | string
+}
+
+export type DocumentChunkEmbeddingUpdateWithoutChunkInput = {
+  tenantId?: Prisma.StringFieldUpdateOperationsInput | string
+  embeddingModel?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type DocumentChunkEmbeddingUncheckedUpdateWithoutChunkInput = {
+  tenantId?: Prisma.StringFieldUpdateOperationsInput | string
+  embeddingModel?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type DocumentChunkEmbeddingUncheckedUpdateManyWithoutChunkInput = {
+  tenantId?: Prisma.StringFieldUpdateOperationsInput | string
+  embeddingModel?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type DocumentChunkEmbeddingSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  chunkId?: boolean
+  tenantId?: boolean
+  embeddingModel?: boolean
+  createdAt?: boolean
+  chunk?: boolean | Prisma.DocumentChunkDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["documentChunkEmbedding"]>
+
+
+export type DocumentChunkEmbeddingSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  chunkId?: boolean
+  tenantId?: boolean
+  embeddingModel?: boolean
+  createdAt?: boolean
+  chunk?: boolean | Prisma.DocumentChunkDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["documentChunkEmbedding"]>
+
+export type DocumentChunkEmbeddingSelectScalar = {
+  chunkId?: boolean
+  tenantId?: boolean
+  embeddingModel?: boolean
+  createdAt?: boolean
+}
+
+export type DocumentChunkEmbeddingOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"chunkId" | "tenantId" | "embeddingModel" | "createdAt", ExtArgs["result"]["documentChunkEmbedding"]>
+export type DocumentChunkEmbeddingInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  chunk?: boolean | Prisma.DocumentChunkDefaultArgs<ExtArgs>
+}
+export type DocumentChunkEmbeddingIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  chunk?: boolean | Prisma.DocumentChunkDefaultArgs<ExtArgs>
+}
+
+export type $DocumentChunkEmbeddingPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "DocumentChunkEmbedding"
+  objects: {
+    chunk: Prisma.$DocumentChunkPayload<ExtArgs>
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    chunkId: string
+    tenantId: string
+    embeddingModel: string
+    createdAt: Date
+  }, ExtArgs["result"]["documentChunkEmbedding"]>
+  composites: {}
+}
+
+export type DocumentChunkEmbeddingGetPayload<S extends boolean | null | undefined | DocumentChunkEmbeddingDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$DocumentChunkEmbeddingPayload, S>
+
+export type DocumentChunkEmbeddingCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<DocumentChunkEmbeddingFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: DocumentChunkEmbeddingCountAggregateInputType | true
+  }
+
+export interface DocumentChunkEmbeddingDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['DocumentChunkEmbedding'], meta: { name: 'DocumentChunkEmbedding' } }
+  /**
+   * Find zero or one DocumentChunkEmbedding that matches the filter.
+   * @param {DocumentChunkEmbeddingFindUniqueArgs} args - Arguments to find a DocumentChunkEmbedding
+   * @example
+   * // Get one DocumentChunkEmbedding
+   * const documentChunkEmbedding = await prisma.documentChunkEmbedding.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends DocumentChunkEmbeddingFindUniqueArgs>(args: Prisma.SelectSubset<T, DocumentChunkEmbeddingFindUniqueArgs<ExtArgs>>): Prisma.Prisma__DocumentChunkEmbeddingClient<runtime.Types.Result.GetResult<Prisma.$DocumentChunkEmbeddingPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one DocumentChunkEmbedding that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {DocumentChunkEmbeddingFindUniqueOrThrowArgs} args - Arguments to find a DocumentChunkEmbedding
+   * @example
+   * // Get one DocumentChunkEmbedding
+   * const documentChunkEmbedding = await prisma.documentChunkEmbedding.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends DocumentChunkEmbeddingFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, DocumentChunkEmbeddingFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__DocumentChunkEmbeddingClient<runtime.Types.Result.GetResult<Prisma.$DocumentChunkEmbeddingPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first DocumentChunkEmbedding that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {DocumentChunkEmbeddingFindFirstArgs} args - Arguments to find a DocumentChunkEmbedding
+   * @example
+   * // Get one DocumentChunkEmbedding
+   * const documentChunkEmbedding = await prisma.documentChunkEmbedding.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends DocumentChunkEmbeddingFindFirstArgs>(args?: Prisma.SelectSubset<T, DocumentChunkEmbeddingFindFirstArgs<ExtArgs>>): Prisma.Prisma__DocumentChunkEmbeddingClient<runtime.Types.Result.GetResult<Prisma.$DocumentChunkEmbeddingPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first DocumentChunkEmbedding that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {DocumentChunkEmbeddingFindFirstOrThrowArgs} args - Arguments to find a DocumentChunkEmbedding
+   * @example
+   * // Get one DocumentChunkEmbedding
+   * const documentChunkEmbedding = await prisma.documentChunkEmbedding.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends DocumentChunkEmbeddingFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, DocumentChunkEmbeddingFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__DocumentChunkEmbeddingClient<runtime.Types.Result.GetResult<Prisma.$DocumentChunkEmbeddingPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more DocumentChunkEmbeddings that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {DocumentChunkEmbeddingFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all DocumentChunkEmbeddings
+   * const documentChunkEmbeddings = await prisma.documentChunkEmbedding.findMany()
+   * 
+   * // Get first 10 DocumentChunkEmbeddings
+   * const documentChunkEmbeddings = await prisma.documentChunkEmbedding.findMany({ take: 10 })
+   * 
+   * // Only select the `chunkId`
+   * const documentChunkEmbeddingWithChunkIdOnly = await prisma.documentChunkEmbedding.findMany({ select: { chunkId: true } })
+   * 
+   */
+  findMany<T extends DocumentChunkEmbeddingFindManyArgs>(args?: Prisma.SelectSubset<T, DocumentChunkEmbeddingFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$DocumentChunkEmbeddingPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Delete a DocumentChunkEmbedding.
+   * @param {DocumentChunkEmbeddingDeleteArgs} args - Arguments to delete one DocumentChunkEmbedding.
+   * @example
+   * // Delete one DocumentChunkEmbedding
+   * const DocumentChunkEmbedding = await prisma.documentChunkEmbedding.delete({
+   *   where: {
+   *     // ... filter to delete one DocumentChunkEmbedding
+   *   }
+   * })
+   * 
+   */
+  delete<T extends DocumentChunkEmbeddingDeleteArgs>(args: Prisma.SelectSubset<T, DocumentChunkEmbeddingDeleteArgs<ExtArgs>>): Prisma.Prisma__DocumentChunkEmbeddingClient<runtime.Types.Result.GetResult<Prisma.$DocumentChunkEmbeddingPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one DocumentChunkEmbedding.
+   * @param {DocumentChunkEmbeddingUpdateArgs} args - Arguments to update one DocumentChunkEmbedding.
+   * @example
+   * // Update one DocumentChunkEmbedding
+   * const documentChunkEmbedding = await prisma.documentChunkEmbedding.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends DocumentChunkEmbeddingUpdateArgs>(args: Prisma.SelectSubset<T, DocumentChunkEmbeddingUpdateArgs<ExtArgs>>): Prisma.Prisma__DocumentChunkEmbeddingClient<runtime.Types.Result.GetResult<Prisma.$DocumentChunkEmbeddingPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more DocumentChunkEmbeddings.
+   * @param {DocumentChunkEmbeddingDeleteManyArgs} args - Arguments to filter DocumentChunkEmbeddings to delete.
+   * @example
+   * // Delete a few DocumentChunkEmbeddings
+   * const { count } = await prisma.documentChunkEmbedding.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends DocumentChunkEmbeddingDeleteManyArgs>(args?: Prisma.SelectSubset<T, DocumentChunkEmbeddingDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more DocumentChunkEmbeddings.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {DocumentChunkEmbeddingUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many DocumentChunkEmbeddings
+   * const documentChunkEmbedding = await prisma.documentChunkEmbedding.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends DocumentChunkEmbeddingUpdateManyArgs>(args: Prisma.SelectSubset<T, DocumentChunkEmbeddingUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more DocumentChunkEmbeddings and returns the data updated in the database.
+   * @param {DocumentChunkEmbeddingUpdateManyAndReturnArgs} args - Arguments to update many DocumentChunkEmbeddings.
+   * @example
+   * // Update many DocumentChunkEmbeddings
+   * const documentChunkEmbedding = await prisma.documentChunkEmbedding.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more DocumentChunkEmbeddings and only return the `chunkId`
+   * const documentChunkEmbeddingWithChunkIdOnly = await prisma.documentChunkEmbedding.updateManyAndReturn({
+   *   select: { chunkId: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends DocumentChunkEmbeddingUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, DocumentChunkEmbeddingUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$DocumentChunkEmbeddingPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+
+  /**
+   * Count the number of DocumentChunkEmbeddings.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {DocumentChunkEmbeddingCountArgs} args - Arguments to filter DocumentChunkEmbeddings to count.
+   * @example
+   * // Count the number of DocumentChunkEmbeddings
+   * const count = await prisma.documentChunkEmbedding.count({
+   *   where: {
+   *     // ... the filter for the DocumentChunkEmbeddings we want to count
+   *   }
+   * })
+  **/
+  count<T extends DocumentChunkEmbeddingCountArgs>(
+    args?: Prisma.Subset<T, DocumentChunkEmbeddingCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], DocumentChunkEmbeddingCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a DocumentChunkEmbedding.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {DocumentChunkEmbeddingAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends DocumentChunkEmbeddingAggregateArgs>(args: Prisma.Subset<T, DocumentChunkEmbeddingAggregateArgs>): Prisma.PrismaPromise<GetDocumentChunkEmbeddingAggregateType<T>>
+
+  /**
+   * Group by DocumentChunkEmbedding.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {DocumentChunkEmbeddingGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends DocumentChunkEmbeddingGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: DocumentChunkEmbeddingGroupByArgs['orderBy'] }
+      : { orderBy?: DocumentChunkEmbeddingGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, DocumentChunkEmbeddingGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetDocumentChunkEmbeddingGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the DocumentChunkEmbedding model
+ */
+readonly fields: DocumentChunkEmbeddingFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for DocumentChunkEmbedding.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__DocumentChunkEmbeddingClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  chunk<T extends Prisma.DocumentChunkDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.DocumentChunkDefaultArgs<ExtArgs>>): Prisma.Prisma__DocumentChunkClient<runtime.Types.Result.GetResult<Prisma.$DocumentChunkPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the DocumentChunkEmbedding model
+ */
+export interface DocumentChunkEmbeddingFieldRefs {
+  readonly chunkId: Prisma.FieldRef<"DocumentChunkEmbedding", 'String'>
+  readonly tenantId: Prisma.FieldRef<"DocumentChunkEmbedding", 'String'>
+  readonly embeddingModel: Prisma.FieldRef<"DocumentChunkEmbedding", 'String'>
+  readonly createdAt: Prisma.FieldRef<"DocumentChunkEmbedding", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * DocumentChunkEmbedding findUnique
+ */
+export type DocumentChunkEmbeddingFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the DocumentChunkEmbedding
+   */
+  select?: Prisma.DocumentChunkEmbeddingSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the DocumentChunkEmbedding
+   */
+  omit?: Prisma.DocumentChunkEmbeddingOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.DocumentChunkEmbeddingInclude<ExtArgs> | null
+  /**
+   * Filter, which DocumentChunkEmbedding to fetch.
+   */
+  where: Prisma.DocumentChunkEmbeddingWhereUniqueInput
+}
+
+/**
+ * DocumentChunkEmbedding findUniqueOrThrow
+ */
+export type DocumentChunkEmbeddingFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the DocumentChunkEmbedding
+   */
+  select?: Prisma.DocumentChunkEmbeddingSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the DocumentChunkEmbedding
+   */
+  omit?: Prisma.DocumentChunkEmbeddingOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.DocumentChunkEmbeddingInclude<ExtArgs> | null
+  /**
+   * Filter, which DocumentChunkEmbedding to fetch.
+   */
+  where: Prisma.DocumentChunkEmbeddingWhereUniqueInput
+}
+
+/**
+ * DocumentChunkEmbedding findFirst
+ */
+export type DocumentChunkEmbeddingFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the DocumentChunkEmbedding
+   */
+  select?: Prisma.DocumentChunkEmbeddingSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the DocumentChunkEmbedding
+   */
+  omit?: Prisma.DocumentChunkEmbeddingOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.DocumentChunkEmbeddingInclude<ExtArgs> | null
+  /**
+   * Filter, which DocumentChunkEmbedding to fetch.
+   */
+  where?: Prisma.DocumentChunkEmbeddingWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of DocumentChunkEmbeddings to fetch.
+   */
+  orderBy?: Prisma.DocumentChunkEmbeddingOrderByWithRelationInput | Prisma.DocumentChunkEmbeddingOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for DocumentChunkEmbeddings.
+   */
+  cursor?: Prisma.DocumentChunkEmbeddingWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` DocumentChunkEmbeddings from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` DocumentChunkEmbeddings.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of DocumentChunkEmbeddings.
+   */
+  distinct?: Prisma.DocumentChunkEmbeddingScalarFieldEnum | Prisma.DocumentChunkEmbeddingScalarFieldEnum[]
+}
+
+/**
+ * DocumentChunkEmbedding findFirstOrThrow
+ */
+export type DocumentChunkEmbeddingFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the DocumentChunkEmbedding
+   */
+  select?: Prisma.DocumentChunkEmbeddingSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the DocumentChunkEmbedding
+   */
+  omit?: Prisma.DocumentChunkEmbeddingOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.DocumentChunkEmbeddingInclude<ExtArgs> | null
+  /**
+   * Filter, which DocumentChunkEmbedding to fetch.
+   */
+  where?: Prisma.DocumentChunkEmbeddingWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of DocumentChunkEmbeddings to fetch.
+   */
+  orderBy?: Prisma.DocumentChunkEmbeddingOrderByWithRelationInput | Prisma.DocumentChunkEmbeddingOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for DocumentChunkEmbeddings.
+   */
+  cursor?: Prisma.DocumentChunkEmbeddingWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` DocumentChunkEmbeddings from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` DocumentChunkEmbeddings.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of DocumentChunkEmbeddings.
+   */
+  distinct?: Prisma.DocumentChunkEmbeddingScalarFieldEnum | Prisma.DocumentChunkEmbeddingScalarFieldEnum[]
+}
+
+/**
+ * DocumentChunkEmbedding findMany
+ */
+export type DocumentChunkEmbeddingFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the DocumentChunkEmbedding
+   */
+  select?: Prisma.DocumentChunkEmbeddingSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the DocumentChunkEmbedding
+   */
+  omit?: Prisma.DocumentChunkEmbeddingOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.DocumentChunkEmbeddingInclude<ExtArgs> | null
+  /**
+   * Filter, which DocumentChunkEmbeddings to fetch.
+   */
+  where?: Prisma.DocumentChunkEmbeddingWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of DocumentChunkEmbeddings to fetch.
+   */
+  orderBy?: Prisma.DocumentChunkEmbeddingOrderByWithRelationInput | Prisma.DocumentChunkEmbeddingOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing DocumentChunkEmbeddings.
+   */
+  cursor?: Prisma.DocumentChunkEmbeddingWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` DocumentChunkEmbeddings from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` DocumentChunkEmbeddings.
+   */
+  skip?: number
+  distinct?: Prisma.DocumentChunkEmbeddingScalarFieldEnum | Prisma.DocumentChunkEmbeddingScalarFieldEnum[]
+}
+
+/**
+ * DocumentChunkEmbedding update
+ */
+export type DocumentChunkEmbeddingUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the DocumentChunkEmbedding
+   */
+  select?: Prisma.DocumentChunkEmbeddingSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the DocumentChunkEmbedding
+   */
+  omit?: Prisma.DocumentChunkEmbeddingOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.DocumentChunkEmbeddingInclude<ExtArgs> | null
+  /**
+   * The data needed to update a DocumentChunkEmbedding.
+   */
+  data: Prisma.XOR<Prisma.DocumentChunkEmbeddingUpdateInput, Prisma.DocumentChunkEmbeddingUncheckedUpdateInput>
+  /**
+   * Choose, which DocumentChunkEmbedding to update.
+   */
+  where: Prisma.DocumentChunkEmbeddingWhereUniqueInput
+}
+
+/**
+ * DocumentChunkEmbedding updateMany
+ */
+export type DocumentChunkEmbeddingUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update DocumentChunkEmbeddings.
+   */
+  data: Prisma.XOR<Prisma.DocumentChunkEmbeddingUpdateManyMutationInput, Prisma.DocumentChunkEmbeddingUncheckedUpdateManyInput>
+  /**
+   * Filter which DocumentChunkEmbeddings to update
+   */
+  where?: Prisma.DocumentChunkEmbeddingWhereInput
+  /**
+   * Limit how many DocumentChunkEmbeddings to update.
+   */
+  limit?: number
+}
+
+/**
+ * DocumentChunkEmbedding updateManyAndReturn
+ */
+export type DocumentChunkEmbeddingUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the DocumentChunkEmbedding
+   */
+  select?: Prisma.DocumentChunkEmbeddingSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the DocumentChunkEmbedding
+   */
+  omit?: Prisma.DocumentChunkEmbeddingOmit<ExtArgs> | null
+  /**
+   * The data used to update DocumentChunkEmbeddings.
+   */
+  data: Prisma.XOR<Prisma.DocumentChunkEmbeddingUpdateManyMutationInput, Prisma.DocumentChunkEmbeddingUncheckedUpdateManyInput>
+  /**
+   * Filter which DocumentChunkEmbeddings to update
+   */
+  where?: Prisma.DocumentChunkEmbeddingWhereInput
+  /**
+   * Limit how many DocumentChunkEmbeddings to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.DocumentChunkEmbeddingIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * DocumentChunkEmbedding delete
+ */
+export type DocumentChunkEmbeddingDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the DocumentChunkEmbedding
+   */
+  select?: Prisma.DocumentChunkEmbeddingSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the DocumentChunkEmbedding
+   */
+  omit?: Prisma.DocumentChunkEmbeddingOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.DocumentChunkEmbeddingInclude<ExtArgs> | null
+  /**
+   * Filter which DocumentChunkEmbedding to delete.
+   */
+  where: Prisma.DocumentChunkEmbeddingWhereUniqueInput
+}
+
+/**
+ * DocumentChunkEmbedding deleteMany
+ */
+export type DocumentChunkEmbeddingDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which DocumentChunkEmbeddings to delete
+   */
+  where?: Prisma.DocumentChunkEmbeddingWhereInput
+  /**
+   * Limit how many DocumentChunkEmbeddings to delete.
+   */
+  limit?: number
+}
+
+/**
+ * DocumentChunkEmbedding without action
+ */
+export type DocumentChunkEmbeddingDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the DocumentChunkEmbedding
+   */
+  select?: Prisma.DocumentChunkEmbeddingSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the DocumentChunkEmbedding
+   */
+  omit?: Prisma.DocumentChunkEmbeddingOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.DocumentChunkEmbeddingInclude<ExtArgs> | null
+}
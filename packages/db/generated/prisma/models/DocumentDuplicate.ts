@@ -0,0 +1,1881 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `DocumentDuplicate` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums.js"
+import type * as Prisma from "../internal/prismaNamespace.js"
+
+/**
+ * Model DocumentDuplicate
+ * 
+ */
+export type DocumentDuplicateModel = runtime.Types.Result.DefaultSelection<Prisma.$DocumentDuplicatePayload>
+
+export type AggregateDocumentDuplicate = {
+  _count: DocumentDuplicateCountAggregateOutputType | null
+  _avg: DocumentDuplicateAvgAggregateOutputType | null
+  _sum: DocumentDuplicateSumAggregateOutputType | null
+  _min: DocumentDuplicateMinAggregateOutputType | null
+  _max: DocumentDuplicateMaxAggregateOutputType | null
+}
+
+export type DocumentDuplicateAvgAggregateOutputType = {
+  similarity: number | null
+}
+
+export type DocumentDuplicateSumAggregateOutputType = {
+  similarity: number | null
+}
+
+export type DocumentDuplicateMinAggregateOutputType = {
+  id: string | null
+  tenantId: string | null
+  documentId: string | null
+  duplicateId: string | null
+  similarity: number | null
+  exactMatch: boolean | null
+  status: $Enums.DuplicateStatus | null
+  detectedAt: Date | null
+  updatedAt: Date | null
+  resolvedAt: Date | null
+}
+
+export type DocumentDuplicateMaxAggregateOutputType = {
+  id: string | null
+  tenantId: string | null
+  documentId: string | null
+  duplicateId: string | null
+  similarity: number | null
+  exactMatch: boolean | null
+  status: $Enums.DuplicateStatus | null
+  detectedAt: Date | null
+  updatedAt: Date | null
+  resolvedAt: Date | null
+}
+
+export type DocumentDuplicateCountAggregateOutputType = {
+  id: number
+  tenantId: number
+  documentId: number
+  duplicateId: number
+  similarity: number
+  exactMatch: number
+  status: number
+  detectedAt: number
+  updatedAt: number
+  resolvedAt: number
+  _all: number
+}
+
+
+export type DocumentDuplicateAvgAggregateInputType = {
+  similarity?: true
+}
+
+export type DocumentDuplicateSumAggregateInputType = {
+  similarity?: true
+}
+
+export type DocumentDuplicateMinAggregateInputType = {
+  id?: true
+  tenantId?: true
+  documentId?: true
+  duplicateId?: true
+  similarity?: true
+  exactMatch?: true
+  status?: true
+  detectedAt?: true
+  updatedAt?: true
+  resolvedAt?: true
+}
+
+export type DocumentDuplicateMaxAggregateInputType = {
+  id?: true
+  tenantId?: true
+  documentId?: true
+  duplicateId?: true
+  similarity?: true
+  exactMatch?: true
+  status?: true
+  detectedAt?: true
+  updatedAt?: true
+  resolvedAt?: true
+}
+
+export type DocumentDuplicateCountAggregateInputType = {
+  id?: true
+  tenantId?: true
+  documentId?: true
+  duplicateId?: true
+  similarity?: true
+  exactMatch?: true
+  status?: true
+  detectedAt?: true
+  updatedAt?: true
+  resolvedAt?: true
+  _all?: true
+}
+
+export type DocumentDuplicateAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which DocumentDuplicate to aggregate.
+   */
+  where?: Prisma.DocumentDuplicateWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of DocumentDuplicates to fetch.
+   */
+  orderBy?: Prisma.DocumentDuplicateOrderByWithRelationInput | Prisma.DocumentDuplicateOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.DocumentDuplicateWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` DocumentDuplicates from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` DocumentDuplicates.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned DocumentDuplicates
+  **/
+  _count?: true | DocumentDuplicateCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: DocumentDuplicateAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: DocumentDuplicateSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: DocumentDuplicateMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: DocumentDuplicateMaxAggregateInputType
+}
+
+export type GetDocumentDuplicateAggregateType<T extends DocumentDuplicateAggregateArgs> = {
+      [P in keyof T & keyof AggregateDocumentDuplicate]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateDocumentDuplicate[P]>
+    : Prisma.GetScalarType<T[P], AggregateDocumentDuplicate[P]>
+}
+
+
+
+
+export type DocumentDuplicateGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.DocumentDuplicateWhereInput
+  orderBy?: Prisma.DocumentDuplicateOrderByWithAggregationInput | Prisma.DocumentDuplicateOrderByWithAggregationInput[]
+  by: Prisma.DocumentDuplicateScalarFieldEnum[] | Prisma.DocumentDuplicateScalarFieldEnum
+  having?: Prisma.DocumentDuplicateScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: DocumentDuplicateCountAggregateInputType | true
+  _avg?: DocumentDuplicateAvgAggregateInputType
+  _sum?: DocumentDuplicateSumAggregateInputType
+  _min?: DocumentDuplicateMinAggregateInputType
+  _max?: DocumentDuplicateMaxAggregateInputType
+}
+
+export type DocumentDuplicateGroupByOutputType = {
+  id: string
+  tenantId: string
+  documentId: string
+  duplicateId: string
+  similarity: number
+  exactMatch: boolean
+  status: $Enums.DuplicateStatus
+  detectedAt: Date
+  updatedAt: Date
+  resolvedAt: Date | null
+  _count: DocumentDuplicateCountAggregateOutputType | null
+  _avg: DocumentDuplicateAvgAggregateOutputType | null
+  _sum: DocumentDuplicateSumAggregateOutputType | null
+  _min: DocumentDuplicateMinAggregateOutputType | null
+  _max: DocumentDuplicateMaxAggregateOutputType | null
+}
+
+type GetDocumentDuplicateGroupByPayload<T extends DocumentDuplicateGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<DocumentDuplicateGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof DocumentDuplicateGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], DocumentDuplicateGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], DocumentDuplicateGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type DocumentDuplicateWhereInput = {
+  AND?: Prisma.DocumentDuplicateWhereInput | Prisma.DocumentDuplicateWhereInput[]
+  OR?: Prisma.DocumentDuplicateWhereInput[]
+  NOT?: Prisma.DocumentDuplicateWhereInput | Prisma.DocumentDuplicateWhereInput[]
+  id?: Prisma.StringFilter<"DocumentDuplicate"> | string
+  tenantId?: Prisma.StringFilter<"DocumentDuplicate"> | string
+  documentId?: Prisma.StringFilter<"DocumentDuplicate"> | string
+  duplicateId?: Prisma.StringFilter<"DocumentDuplicate"> | string
+  similarity?: Prisma.FloatFilter<"DocumentDuplicate"> | number
+  exactMatch?: Prisma.BoolFilter<"DocumentDuplicate"> | boolean
+  status?: Prisma.EnumDuplicateStatusFilter<"DocumentDuplicate"> | $Enums.DuplicateStatus
+  detectedAt?: Prisma.DateTimeFilter<"DocumentDuplicate"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"DocumentDuplicate"> | Date | string
+  resolvedAt?: Prisma.DateTimeNullableFilter<"DocumentDuplicate"> | Date | string | null
+  tenant?: Prisma.XOR<Prisma.TenantScalarRelationFilter, Prisma.TenantWhereInput>
+  document?: Prisma.XOR<Prisma.DocumentScalarRelationFilter, Prisma.DocumentWhereInput>
+  duplicate?: Prisma.XOR<Prisma.DocumentScalarRelationFilter, Prisma.DocumentWhereInput>
+}
+
+export type DocumentDuplicateOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  tenantId?: Prisma.SortOrder
+  documentId?: Prisma.SortOrder
+  duplicateId?: Prisma.SortOrder
+  similarity?: Prisma.SortOrder
+  exactMatch?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  detectedAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  resolvedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  tenant?: Prisma.TenantOrderByWithRelationInput
+  document?: Prisma.DocumentOrderByWithRelationInput
+  duplicate?: Prisma.DocumentOrderByWithRelationInput
+}
+
+export type DocumentDuplicateWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  documentId_duplicateId?: Prisma.DocumentDuplicateDocumentIdDuplicateIdCompoundUniqueInput
+  AND?: Prisma.DocumentDuplicateWhereInput | Prisma.DocumentDuplicateWhereInput[]
+  OR?: Prisma.DocumentDuplicateWhereInput[]
+  NOT?: Prisma.DocumentDuplicateWhereInput | Prisma.DocumentDuplicateWhereInput[]
+  tenantId?: Prisma.StringFilter<"DocumentDuplicate"> | string
+  documentId?: Prisma.StringFilter<"DocumentDuplicate"> | string
+  duplicateId?: Prisma.StringFilter<"DocumentDuplicate"> | string
+  similarity?: Prisma.FloatFilter<"DocumentDuplicate"> | number
+  exactMatch?: Prisma.BoolFilter<"DocumentDuplicate"> | boolean
+  status?: Prisma.EnumDuplicateStatusFilter<"DocumentDuplicate"> | $Enums.DuplicateStatus
+  detectedAt?: Prisma.DateTimeFilter<"DocumentDuplicate"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"DocumentDuplicate"> | Date | string
+  resolvedAt?: Prisma.DateTimeNullableFilter<"DocumentDuplicate"> | Date | string | null
+  tenant?: Prisma.XOR<Prisma.TenantScalarRelationFilter, Prisma.TenantWhereInput>
+  document?: Prisma.XOR<Prisma.DocumentScalarRelationFilter, Prisma.DocumentWhereInput>
+  duplicate?: Prisma.XOR<Prisma.DocumentScalarRelationFilter, Prisma.DocumentWhereInput>
+}, "id" | "documentId_duplicateId">
+
+export type DocumentDuplicateOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  tenantId?: Prisma.SortOrder
+  documentId?: Prisma.SortOrder
+  duplicateId?: Prisma.SortOrder
+  similarity?: Prisma.SortOrder
+  exactMatch?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  detectedAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  resolvedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  _count?: Prisma.DocumentDuplicateCountOrderByAggregateInput
+  _avg?: Prisma.DocumentDuplicateAvgOrderByAggregateInput
+  _max?: Prisma.DocumentDuplicateMaxOrderByAggregateInput
+  _min?: Prisma.DocumentDuplicateMinOrderByAggregateInput
+  _sum?: Prisma.DocumentDuplicateSumOrderByAggregateInput
+}
+
+export type DocumentDuplicateScalarWhereWithAggregatesInput = {
+  AND?: Prisma.DocumentDuplicateScalarWhereWithAggregatesInput | Prisma.DocumentDuplicateScalarWhereWithAggregatesInput[]
+  OR?: Prisma.DocumentDuplicateScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.DocumentDuplicateScalarWhereWithAggregatesInput | Prisma.DocumentDuplicateScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"DocumentDuplicate"> | string
+  tenantId?: Prisma.StringWithAggregatesFilter<"DocumentDuplicate"> | string
+  documentId?: Prisma.StringWithAggregatesFilter<"DocumentDuplicate"> | string
+  duplicateId?: Prisma.StringWithAggregatesFilter<"DocumentDuplicate"> | string
+  similarity?: Prisma.FloatWithAggregatesFilter<"DocumentDuplicate"> | number
+  exactMatch?: Prisma.BoolWithAggregatesFilter<"DocumentDuplicate"> | boolean
+  status?: Prisma.EnumDuplicateStatusWithAggregatesFilter<"DocumentDuplicate"> | $Enums.DuplicateStatus
+  detectedAt?: Prisma.DateTimeWithAggregatesFilter<"DocumentDuplicate"> | Date | string
+  updatedAt?: Prisma.DateTimeWithAggregatesFilter<"DocumentDuplicate"> | Date | string
+  resolvedAt?: Prisma.DateTimeNullableWithAggregatesFilter<"DocumentDuplicate"> | Date | string | null
+}
+
+export type DocumentDuplicateCreateInput = {
+  id?: string
+  similarity: number
+  exactMatch?: boolean
+  status?: $Enums.DuplicateStatus
+  detectedAt?: Date | string
+  updatedAt?: Date | string
+  resolvedAt?: Date | string | null
+  tenant: Prisma.TenantCreateNestedOneWithoutDocumentDuplicatesInput
+  document: Prisma.DocumentCreateNestedOneWithoutDuplicatesAsFirstInput
+  duplicate: Prisma.DocumentCreateNestedOneWithoutDuplicatesAsSecondInput
+}
+
+export type DocumentDuplicateUncheckedCreateInput = {
+  id?: string
+  tenantId: string
+  documentId: string
+  duplicateId: string
+  similarity: number
+  exactMatch?: boolean
+  status?: $Enums.DuplicateStatus
+  detectedAt?: Date | string
+  updatedAt?: Date | string
+  resolvedAt?: Date | string | null
+}
+
+export type DocumentDuplicateUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  similarity?: Prisma.FloatFieldUpdateOperationsInput | number
+  exactMatch?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  status?: Prisma.EnumDuplicateStatusFieldUpdateOperationsInput | $Enums.DuplicateStatus
+  detectedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  resolvedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  tenant?: Prisma.TenantUpdateOneRequiredWithoutDocumentDuplicatesNestedInput
+  document?: Prisma.DocumentUpdateOneRequiredWithoutDuplicatesAsFirstNestedInput
+  duplicate?: Prisma.DocumentUpdateOneRequiredWithoutDuplicatesAsSecondNestedInput
+}
+
+export type DocumentDuplicateUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  tenantId?: Prisma.StringFieldUpdateOperationsInput | string
+  documentId?: Prisma.StringFieldUpdateOperationsInput | string
+  duplicateId?: Prisma.StringFieldUpdateOperationsInput | string
+  similarity?: Prisma.FloatFieldUpdateOperationsInput | number
+  exactMatch?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  status?: Prisma.EnumDuplicateStatusFieldUpdateOperationsInput | $Enums.DuplicateStatus
+  detectedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  resolvedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+}
+
+export type DocumentDuplicateCreateManyInput = {
+  id?: string
+  tenantId: string
+  documentId: string
+  duplicateId: string
+  similarity: number
+  exactMatch?: boolean
+  status?: $Enums.DuplicateStatus
+  detectedAt?: Date | string
+  updatedAt?: Date | string
+  resolvedAt?: Date | string | null
+}
+
+export type DocumentDuplicateUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  similarity?: Prisma.FloatFieldUpdateOperationsInput | number
+  exactMatch?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  status?: Prisma.EnumDuplicateStatusFieldUpdateOperationsInput | $Enums.DuplicateStatus
+  detectedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  resolvedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+}
+
+export type DocumentDuplicateUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  tenantId?: Prisma.StringFieldUpdateOperationsInput | string
+  documentId?: Prisma.StringFieldUpdateOperationsInput | string
+  duplicateId?: Prisma.StringFieldUpdateOperationsInput | string
+  similarity?: Prisma.FloatFieldUpdateOperationsInput | number
+  exactMatch?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  status?: Prisma.EnumDuplicateStatusFieldUpdateOperationsInput | $Enums.DuplicateStatus
+  detectedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  resolvedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+}
+
+export type DocumentDuplicateListRelationFilter = {
+  every?: Prisma.DocumentDuplicateWhereInput
+  some?: Prisma.DocumentDuplicateWhereInput
+  none?: Prisma.DocumentDuplicateWhereInput
+}
+
+export type DocumentDuplicateOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type DocumentDuplicateDocumentIdDuplicateIdCompoundUniqueInput = {
+  documentId: string
+  duplicateId: string
+}
+
+export type DocumentDuplicateCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  tenantId?: Prisma.SortOrder
+  documentId?: Prisma.SortOrder
+  duplicateId?: Prisma.SortOrder
+  similarity?: Prisma.SortOrder
+  exactMatch?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  detectedAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  resolvedAt?: Prisma.SortOrder
+}
+
+export type DocumentDuplicateAvgOrderByAggregateInput = {
+  similarity?: Prisma.SortOrder
+}
+
+export type DocumentDuplicateMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  tenantId?: Prisma.SortOrder
+  documentId?: Prisma.SortOrder
+  duplicateId?: Prisma.SortOrder
+  similarity?: Prisma.SortOrder
+  exactMatch?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  detectedAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  resolvedAt?: Prisma.SortOrder
+}
+
+export type DocumentDuplicateMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  tenantId?: Prisma.SortOrder
+  documentId?: Prisma.SortOrder
+  duplicateId?: Prisma.SortOrder
+  similarity?: Prisma.SortOrder
+  exactMatch?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  detectedAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  resolvedAt?: Prisma.SortOrder
+}
+
+export type DocumentDuplicateSumOrderByAggregateInput = {
+  similarity?: Prisma.SortOrder
+}
+
+export type DocumentDuplicateCreateNestedManyWithoutTenantInput = {
+  create?: Prisma.XOR<Prisma.DocumentDuplicateCreateWithoutTenantInput, Prisma.DocumentDuplicateUncheckedCreateWithoutTenantInput> | Prisma.DocumentDuplicateCreateWithoutTenantInput[] | Prisma.DocumentDuplicateUncheckedCreateWithoutTenantInput[]
+  connectOrCreate?: Prisma.DocumentDuplicateCreateOrConnectWithoutTenantInput | Prisma.DocumentDuplicateCreateOrConnectWithoutTenantInput[]
+  createMany?: Prisma.DocumentDuplicateCreateManyTenantInputEnvelope
+  connect?: Prisma.DocumentDuplicateWhereUniqueInput | Prisma.DocumentDuplicateWhereUniqueInput[]
+}
+
+export type DocumentDuplicateUncheckedCreateNestedManyWithoutTenantInput = {
+  create?: Prisma.XOR<Prisma.DocumentDuplicateCreateWithoutTenantInput, Prisma.DocumentDuplicateUncheckedCreateWithoutTenantInput> | Prisma.DocumentDuplicateCreateWithoutTenantInput[] | Prisma.DocumentDuplicateUncheckedCreateWithoutTenantInput[]
+  connectOrCreate?: Prisma.DocumentDuplicateCreateOrConnectWithoutTenantInput | Prisma.DocumentDuplicateCreateOrConnectWithoutTenantInput[]
+  createMany?: Prisma.DocumentDuplicateCreateManyTenantInputEnvelope
+  connect?: Prisma.DocumentDuplicateWhereUniqueInput | Prisma.DocumentDuplicateWhereUniqueInput[]
+}
+
+export type DocumentDuplicateUpdateManyWithoutTenantNestedInput = {
+  create?: Prisma.XOR<Prisma.DocumentDuplicateCreateWithoutTenantInput, Prisma.DocumentDuplicateUncheckedCreateWithoutTenantInput> | Prisma.DocumentDuplicateCreateWithoutTenantInput[] | Prisma.DocumentDuplicateUncheckedCreateWithoutTenantInput[]
+  connectOrCreate?: Prisma.DocumentDuplicateCreateOrConnectWithoutTenantInput | Prisma.DocumentDuplicateCreateOrConnectWithoutTenantInput[]
+  upsert?: Prisma.DocumentDuplicateUpsertWithWhereUniqueWithoutTenantInput | Prisma.DocumentDuplicateUpsertWithWhereUniqueWithoutTenantInput[]
+  createMany?: Prisma.DocumentDuplicateCreateManyTenantInputEnvelope
+  set?: Prisma.DocumentDuplicateWhereUniqueInput | Prisma.DocumentDuplicateWhereUniqueInput[]
+  disconnect?: Prisma.DocumentDuplicateWhereUniqueInput | Prisma.DocumentDuplicateWhereUniqueInput[]
+  delete?: Prisma.DocumentDuplicateWhereUniqueInput | Prisma.DocumentDuplicateWhereUniqueInput[]
+  connect?: Prisma.DocumentDuplicateWhereUniqueInput | Prisma.DocumentDuplicateWhereUniqueInput[]
+  update?: Prisma.DocumentDuplicateUpdateWithWhereUniqueWithoutTenantInput | Prisma.DocumentDuplicateUpdateWithWhereUniqueWithoutTenantInput[]
+  updateMany?: Prisma.DocumentDuplicateUpdateManyWithWhereWithoutTenantInput | Prisma.DocumentDuplicateUpdateManyWithWhereWithoutTenantInput[]
+  deleteMany?: Prisma.DocumentDuplicateScalarWhereInput | Prisma.DocumentDuplicateScalarWhereInput[]
+}
+
+export type DocumentDuplicateUncheckedUpdateManyWithoutTenantNestedInput = {
+  create?: Prisma.XOR<Prisma.DocumentDuplicateCreateWithoutTenantInput, Prisma.DocumentDuplicateUncheckedCreateWithoutTenantInput> | Prisma.DocumentDuplicateCreateWithoutTenantInput[] | Prisma.DocumentDuplicateUncheckedCreateWithoutTenantInput[]
+  connectOrCreate?: Prisma.DocumentDuplicateCreateOrConnectWithoutTenantInput | Prisma.DocumentDuplicateCreateOrConnectWithoutTenantInput[]
+  upsert?: Prisma.DocumentDuplicateUpsertWithWhereUniqueWithoutTenantInput | Prisma.DocumentDuplicateUpsertWithWhereUniqueWithoutTenantInput[]
+  createMany?: Prisma.DocumentDuplicateCreateManyTenantInputEnvelope
+  set?: Prisma.DocumentDuplicateWhereUniqueInput | Prisma.DocumentDuplicateWhereUniqueInput[]
+  disconnect?: Prisma.DocumentDuplicateWhereUniqueInput | Prisma.DocumentDuplicateWhereUniqueInput[]
+  delete?: Prisma.DocumentDuplicateWhereUniqueInput | Prisma.DocumentDuplicateWhereUniqueInput[]
+  connect?: Prisma.DocumentDuplicateWhereUniqueInput | Prisma.DocumentDuplicateWhereUniqueInput[]
+  update?: Prisma.DocumentDuplicateUpdateWithWhereUniqueWithoutTenantInput | Prisma.DocumentDuplicateUpdateWithWhereUniqueWithoutTenantInput[]
+  updateMany?: Prisma.DocumentDuplicateUpdateManyWithWhereWithoutTenantInput | Prisma.DocumentDuplicateUpdateManyWithWhereWithoutTenantInput[]
+  deleteMany?: Prisma.DocumentDuplicateScalarWhereInput | Prisma.DocumentDuplicateScalarWhereInput[]
+}
+
+export type DocumentDuplicateCreateNestedManyWithoutDocumentInput = {
+  create?: Prisma.XOR<Prisma.DocumentDuplicateCreateWithoutDocumentInput, Prisma.DocumentDuplicateUncheckedCreateWithoutDocumentInput> | Prisma.DocumentDuplicateCreateWithoutDocumentInput[] | Prisma.DocumentDuplicateUncheckedCreateWithoutDocumentInput[]
+  connectOrCreate?: Prisma.DocumentDuplicateCreateOrConnectWithoutDocumentInput | Prisma.DocumentDuplicateCreateOrConnectWithoutDocumentInput[]
+  createMany?: Prisma.DocumentDuplicateCreateManyDocumentInputEnvelope
+  connect?: Prisma.DocumentDuplicateWhereUniqueInput | Prisma.DocumentDuplicateWhereUniqueInput[]
+}
+
+export type DocumentDuplicateCreateNestedManyWithoutDuplicateInput = {
+  create?: Prisma.XOR<Prisma.DocumentDuplicateCreateWithoutDuplicateInput, Prisma.DocumentDuplicateUncheckedCreateWithoutDuplicateInput> | Prisma.DocumentDuplicateCreateWithoutDuplicateInput[] | Prisma.DocumentDuplicateUncheckedCreateWithoutDuplicateInput[]
+  connectOrCreate?: Prisma.DocumentDuplicateCreateOrConnectWithoutDuplicateInput | Prisma.DocumentDuplicateCreateOrConnectWithoutDuplicateInput[]
+  createMany?: Prisma.DocumentDuplicateCreateManyDuplicateInputEnvelope
+  connect?: Prisma.DocumentDuplicateWhereUniqueInput | Prisma.DocumentDuplicateWhereUniqueInput[]
+}
+
+export type DocumentDuplicateUncheckedCreateNestedManyWithoutDocumentInput = {
+  create?: Prisma.XOR<Prisma.DocumentDuplicateCreateWithoutDocumentInput, Prisma.DocumentDuplicateUncheckedCreateWithoutDocumentInput> | Prisma.DocumentDuplicateCreateWithoutDocumentInput[] | Prisma.DocumentDuplicateUncheckedCreateWithoutDocumentInput[]
+  connectOrCreate?: Prisma.DocumentDuplicateCreateOrConnectWithoutDocumentInput | Prisma.DocumentDuplicateCreateOrConnectWithoutDocumentInput[]
+  createMany?: Prisma.DocumentDuplicateCreateManyDocumentInputEnvelope
+  connect?: Prisma.DocumentDuplicateWhereUniqueInput | Prisma.DocumentDuplicateWhereUniqueInput[]
+}
+
+export type DocumentDuplicateUncheckedCreateNestedManyWithoutDuplicateInput = {
+  create?: Prisma.XOR<Prisma.DocumentDuplicateCreateWithoutDuplicateInput, Prisma.DocumentDuplicateUncheckedCreateWithoutDuplicateInput> | Prisma.DocumentDuplicateCreateWithoutDuplicateInput[] | Prisma.DocumentDuplicateUncheckedCreateWithoutDuplicateInput[]
+  connectOrCreate?: Prisma.DocumentDuplicateCreateOrConnectWithoutDuplicateInput | Prisma.DocumentDuplicateCreateOrConnectWithoutDuplicateInput[]
+  createMany?: Prisma.DocumentDuplicateCreateManyDuplicateInputEnvelope
+  connect?: Prisma.DocumentDuplicateWhereUniqueInput | Prisma.DocumentDuplicateWhereUniqueInput[]
+}
+
+export type DocumentDuplicateUpdateManyWithoutDocumentNestedInput = {
+  create?: Prisma.XOR<Prisma.DocumentDuplicateCreateWithoutDocumentInput, Prisma.DocumentDuplicateUncheckedCreateWithoutDocumentInput> | Prisma.DocumentDuplicateCreateWithoutDocumentInput[] | Prisma.DocumentDuplicateUncheckedCreateWithoutDocumentInput[]
+  connectOrCreate?: Prisma.DocumentDuplicateCreateOrConnectWithoutDocumentInput | Prisma.DocumentDuplicateCreateOrConnectWithoutDocumentInput[]
+  upsert?: Prisma.DocumentDuplicateUpsertWithWhereUniqueWithoutDocumentInput | Prisma.DocumentDuplicateUpsertWithWhereUniqueWithoutDocumentInput[]
+  createMany?: Prisma.DocumentDuplicateCreateManyDocumentInputEnvelope
+  set?: Prisma.DocumentDuplicateWhereUniqueInput | Prisma.DocumentDuplicateWhereUniqueInput[]
+  disconnect?: Prisma.DocumentDuplicateWhereUniqueInput | Prisma.DocumentDuplicateWhereUniqueInput[]
+  delete?: Prisma.DocumentDuplicateWhereUniqueInput | Prisma.DocumentDuplicateWhereUniqueInput[]
+  connect?: Prisma.DocumentDuplicateWhereUniqueInput | Prisma.DocumentDuplicateWhereUniqueInput[]
+  update?: Prisma.DocumentDuplicateUpdateWithWhereUniqueWithoutDocumentInput | Prisma.DocumentDuplicateUpdateWithWhereUniqueWithoutDocumentInput[]
+  updateMany?: Prisma.DocumentDuplicateUpdateManyWithWhereWithoutDocumentInput | Prisma.DocumentDuplicateUpdateManyWithWhereWithoutDocumentInput[]
+  deleteMany?: Prisma.DocumentDuplicateScalarWhereInput | Prisma.DocumentDuplicateScalarWhereInput[]
+}
+
+export type DocumentDuplicateUpdateManyWithoutDuplicateNestedInput = {
+  create?: Prisma.XOR<Prisma.DocumentDuplicateCreateWithoutDuplicateInput, Prisma.DocumentDuplicateUncheckedCreateWithoutDuplicateInput> | Prisma.DocumentDuplicateCreateWithoutDuplicateInput[] | Prisma.DocumentDuplicateUncheckedCreateWithoutDuplicateInput[]
+  connectOrCreate?: Prisma.DocumentDuplicateCreateOrConnectWithoutDuplicateInput | Prisma.DocumentDuplicateCreateOrConnectWithoutDuplicateInput[]
+  upsert?: Prisma.DocumentDuplicateUpsertWithWhereUniqueWithoutDuplicateInput | Prisma.DocumentDuplicateUpsertWithWhereUniqueWithoutDuplicateInput[]
+  createMany?: Prisma.DocumentDuplicateCreateManyDuplicateInputEnvelope
+  set?: Prisma.DocumentDuplicateWhereUniqueInput | Prisma.DocumentDuplicateWhereUniqueInput[]
+  disconnect?: Prisma.DocumentDuplicateWhereUniqueInput | Prisma.DocumentDuplicateWhereUniqueInput[]
+  delete?: Prisma.DocumentDuplicateWhereUniqueInput | Prisma.DocumentDuplicateWhereUniqueInput[]
+  connect?: Prisma.DocumentDuplicateWhereUniqueInput | Prisma.DocumentDuplicateWhereUniqueInput[]
+  update?: Prisma.DocumentDuplicateUpdateWithWhereUniqueWithoutDuplicateInput | Prisma.DocumentDuplicateUpdateWithWhereUniqueWithoutDuplicateInput[]
+  updateMany?: Prisma.DocumentDuplicateUpdateManyWithWhereWithoutDuplicateInput | Prisma.DocumentDuplicateUpdateManyWithWhereWithoutDuplicateInput[]
+  deleteMany?: Prisma.DocumentDuplicateScalarWhereInput | Prisma.DocumentDuplicateScalarWhereInput[]
+}
+
+export type DocumentDuplicateUncheckedUpdateManyWithoutDocumentNestedInput = {
+  create?: Prisma.XOR<Prisma.DocumentDuplicateCreateWithoutDocumentInput, Prisma.DocumentDuplicateUncheckedCreateWithoutDocumentInput> | Prisma.DocumentDuplicateCreateWithoutDocumentInput[] | Prisma.DocumentDuplicateUncheckedCreateWithoutDocumentInput[]
+  connectOrCreate?: Prisma.DocumentDuplicateCreateOrConnectWithoutDocumentInput | Prisma.DocumentDuplicateCreateOrConnectWithoutDocumentInput[]
+  upsert?: Prisma.DocumentDuplicateUpsertWithWhereUniqueWithoutDocumentInput | Prisma.DocumentDuplicateUpsertWithWhereUniqueWithoutDocumentInput[]
+  createMany?: Prisma.DocumentDuplicateCreateManyDocumentInputEnvelope
+  set?: Prisma.DocumentDuplicateWhereUniqueInput | Prisma.DocumentDuplicateWhereUniqueInput[]
+  disconnect?: Prisma.DocumentDuplicateWhereUniqueInput | Prisma.DocumentDuplicateWhereUniqueInput[]
+  delete?: Prisma.DocumentDuplicateWhereUniqueInput | Prisma.DocumentDuplicateWhereUniqueInput[]
+  connect?: Prisma.DocumentDuplicateWhereUniqueInput | Prisma.DocumentDuplicateWhereUniqueInput[]
+  update?: Prisma.DocumentDuplicateUpdateWithWhereUniqueWithoutDocumentInput | Prisma.DocumentDuplicateUpdateWithWhereUniqueWithoutDocumentInput[]
+  updateMany?: Prisma.DocumentDuplicateUpdateManyWithWhereWithoutDocumentInput | Prisma.DocumentDuplicateUpdateManyWithWhereWithoutDocumentInput[]
+  deleteMany?: Prisma.DocumentDuplicateScalarWhereInput | Prisma.DocumentDuplicateScalarWhereInput[]
+}
+
+export type DocumentDuplicateUncheckedUpdateManyWithoutDuplicateNestedInput = {
+  create?: Prisma.XOR<Prisma.DocumentDuplicateCreateWithoutDuplicateInput, Prisma.DocumentDuplicateUncheckedCreateWithoutDuplicateInput> | Prisma.DocumentDuplicateCreateWithoutDuplicateInput[] | Prisma.DocumentDuplicateUncheckedCreateWithoutDuplicateInput[]
+  connectOrCreate?: Prisma.DocumentDuplicateCreateOrConnectWithoutDuplicateInput | Prisma.DocumentDuplicateCreateOrConnectWithoutDuplicateInput[]
+  upsert?: Prisma.DocumentDuplicateUpsertWithWhereUniqueWithoutDuplicateInput | Prisma.DocumentDuplicateUpsertWithWhereUniqueWithoutDuplicateInput[]
+  createMany?: Prisma.DocumentDuplicateCreateManyDuplicateInputEnvelope
+  set?: Prisma.DocumentDuplicateWhereUniqueInput | Prisma.DocumentDuplicateWhereUniqueInput[]
+  disconnect?: Prisma.DocumentDuplicateWhereUniqueInput | Prisma.DocumentDuplicateWhereUniqueInput[]
+  delete?: Prisma.DocumentDuplicateWhereUniqueInput | Prisma.DocumentDuplicateWhereUniqueInput[]
+  connect?: Prisma.DocumentDuplicateWhereUniqueInput | Prisma.DocumentDuplicateWhereUniqueInput[]
+  update?: Prisma.DocumentDuplicateUpdateWithWhereUniqueWithoutDuplicateInput | Prisma.DocumentDuplicateUpdateWithWhereUniqueWithoutDuplicateInput[]
+  updateMany?: Prisma.DocumentDuplicateUpdateManyWithWhereWithoutDuplicateInput | Prisma.DocumentDuplicateUpdateManyWithWhereWithoutDuplicateInput[]
+  deleteMany?: Prisma.DocumentDuplicateScalarWhereInput | Prisma.DocumentDuplicateScalarWhereInput[]
+}
+
+export type FloatFieldUpdateOperationsInput = {
+  set?: number
+  increment?: number
+  decrement?: number
+  multiply?: number
+  divide?: number
+}
+
+export type BoolFieldUpdateOperationsInput = {
+  set?: boolean
+}
+
+export type EnumDuplicateStatusFieldUpdateOperationsInput = {
+  set?: $Enums.DuplicateStatus
+}
+
+export type DocumentDuplicateCreateWithoutTenantInput = {
+  id?: string
+  similarity: number
+  exactMatch?: boolean
+  status?: $Enums.DuplicateStatus
+  detectedAt?: Date | string
+  updatedAt?: Date | string
+  resolvedAt?: Date | string | null
+  document: Prisma.DocumentCreateNestedOneWithoutDuplicatesAsFirstInput
+  duplicate: Prisma.DocumentCreateNestedOneWithoutDuplicatesAsSecondInput
+}
+
+export type DocumentDuplicateUncheckedCreateWithoutTenantInput = {
+  id?: string
+  documentId: string
+  duplicateId: string
+  similarity: number
+  exactMatch?: boolean
+  status?: $Enums.DuplicateStatus
+  detectedAt?: Date | string
+  updatedAt?: Date | string
+  resolvedAt?: Date | string | null
+}
+
+export type DocumentDuplicateCreateOrConnectWithoutTenantInput = {
+  where: Prisma.DocumentDuplicateWhereUniqueInput
+  create: Prisma.XOR<Prisma.DocumentDuplicateCreateWithoutTenantInput, Prisma.DocumentDuplicateUncheckedCreateWithoutTenantInput>
+}
+
+export type DocumentDuplicateCreateManyTenantInputEnvelope = {
+  data: Prisma.DocumentDuplicateCreateManyTenantInput | Prisma.DocumentDuplicateCreateManyTenantInput[]
+  skipDuplicates?: boolean
+}
+
+export type DocumentDuplicateUpsertWithWhereUniqueWithoutTenantInput = {
+  where: Prisma.DocumentDuplicateWhereUniqueInput
+  update: Prisma.XOR<Prisma.DocumentDuplicateUpdateWithoutTenantInput, Prisma.DocumentDuplicateUncheckedUpdateWithoutTenantInput>
+  create: Prisma.XOR<Prisma.DocumentDuplicateCreateWithoutTenantInput, Prisma.DocumentDuplicateUncheckedCreateWithoutTenantInput>
+}
+
+export type DocumentDuplicateUpdateWithWhereUniqueWithoutTenantInput = {
+  where: Prisma.DocumentDuplicateWhereUniqueInput
+  data: Prisma.XOR<Prisma.DocumentDuplicateUpdateWithoutTenantInput, Prisma.DocumentDuplicateUncheckedUpdateWithoutTenantInput>
+}
+
+export type DocumentDuplicateUpdateManyWithWhereWithoutTenantInput = {
+  where: Prisma.DocumentDuplicateScalarWhereInput
+  data: Prisma.XOR<Prisma.DocumentDuplicateUpdateManyMutationInput, Prisma.DocumentDuplicateUncheckedUpdateManyWithoutTenantInput>
+}
+
+export type DocumentDuplicateScalarWhereInput = {
+  AND?: Prisma.DocumentDuplicateScalarWhereInput | Prisma.DocumentDuplicateScalarWhereInput[]
+  OR?: Prisma.DocumentDuplicateScalarWhereInput[]
+  NOT?: Prisma.DocumentDuplicateScalarWhereInput | Prisma.DocumentDuplicateScalarWhereInput[]
+  id?: Prisma.StringFilter<"DocumentDuplicate"> | string
+  tenantId?: Prisma.StringFilter<"DocumentDuplicate"> | string
+  documentId?: Prisma.StringFilter<"DocumentDuplicate"> | string
+  duplicateId?: Prisma.StringFilter<"DocumentDuplicate"> | string
+  similarity?: Prisma.FloatFilter<"DocumentDuplicate"> | number
+  exactMatch?: Prisma.BoolFilter<"DocumentDuplicate"> | boolean
+  status?: Prisma.EnumDuplicateStatusFilter<"DocumentDuplicate"> | $Enums.DuplicateStatus
+  detectedAt?: Prisma.DateTimeFilter<"DocumentDuplicate"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"DocumentDuplicate"> | Date | string
+  resolvedAt?: Prisma.DateTimeNullableFilter<"DocumentDuplicate"> | Date | string | null
+}
+
+export type DocumentDuplicateCreateWithoutDocumentInput = {
+  id?: string
+  similarity: number
+  exactMatch?: boolean
+  status?: $Enums.DuplicateStatus
+  detectedAt?: Date | string
+  updatedAt?: Date | string
+  resolvedAt?: Date | string | null
+  tenant: Prisma.TenantCreateNestedOneWithoutDocumentDuplicatesInput
+  duplicate: Prisma.DocumentCreateNestedOneWithoutDuplicatesAsSecondInput
+}
+
+export type DocumentDuplicateUncheckedCreateWithoutDocumentInput = {
+  id?: string
+  tenantId: string
+  duplicateId: string
+  similarity: number
+  exactMatch?: boolean
+  status?: $Enums.DuplicateStatus
+  detectedAt?: Date | string
+  updatedAt?: Date | string
+  resolvedAt?: Date | string | null
+}
+
+export type DocumentDuplicateCreateOrConnectWithoutDocumentInput = {
+  where: Prisma.DocumentDuplicateWhereUniqueInput
+  create: Prisma.XOR<Prisma.DocumentDuplicateCreateWithoutDocumentInput, Prisma.DocumentDuplicateUncheckedCreateWithoutDocumentInput>
+}
+
+export type DocumentDuplicateCreateManyDocumentInputEnvelope = {
+  data: Prisma.DocumentDuplicateCreateManyDocumentInput | Prisma.DocumentDuplicateCreateManyDocumentInput[]
+  skipDuplicates?: boolean
+}
+
+export type DocumentDuplicateCreateWithoutDuplicateInput = {
+  id?: string
+  similarity: number
+  exactMatch?: boolean
+  status?: $Enums.DuplicateStatus
+  detectedAt?: Date | string
+  updatedAt?: Date | string
+  resolvedAt?: Date | string | null
+  tenant: Prisma.TenantCreateNestedOneWithoutDocumentDuplicatesInput
+  document: Prisma.DocumentCreateNestedOneWithoutDuplicatesAsFirstInput
+}
+
+export type DocumentDuplicateUncheckedCreateWithoutDuplicateInput = {
+  id?: string
+  tenantId: string
+  documentId: string
+  similarity: number
+  exactMatch?: boolean
+  status?: $Enums.DuplicateStatus
+  detectedAt?: Date | string
+  updatedAt?: Date | string
+  resolvedAt?: Date | string | null
+}
+
+export type DocumentDuplicateCreateOrConnectWithoutDuplicateInput = {
+  where: Prisma.DocumentDuplicateWhereUniqueInput
+  create: Prisma.XOR<Prisma.DocumentDuplicateCreateWithoutDuplicateInput, Prisma.DocumentDuplicateUncheckedCreateWithoutDuplicateInput>
+}
+
+export type DocumentDuplicateCreateManyDuplicateInputEnvelope = {
+  data: Prisma.DocumentDuplicateCreateManyDuplicateInput | Prisma.DocumentDuplicateCreateManyDuplicateInput[]
+  skipDuplicates?: boolean
+}
+
+export type DocumentDuplicateUpsertWithWhereUniqueWithoutDocumentInput = {
+  where: Prisma.DocumentDuplicateWhereUniqueInput
+  update: Prisma.XOR<Prisma.DocumentDuplicateUpdateWithoutDocumentInput, Prisma.DocumentDuplicateUncheckedUpdateWithoutDocumentInput>
+  create: Prisma.XOR<Prisma.DocumentDuplicateCreateWithoutDocumentInput, Prisma.DocumentDuplicateUncheckedCreateWithoutDocumentInput>
+}
+
+export type DocumentDuplicateUpdateWithWhereUniqueWithoutDocumentInput = {
+  where: Prisma.DocumentDuplicateWhereUniqueInput
+  data: Prisma.XOR<Prisma.DocumentDuplicateUpdateWithoutDocumentInput, Prisma.DocumentDuplicateUncheckedUpdateWithoutDocumentInput>
+}
+
+export type DocumentDuplicateUpdateManyWithWhereWithoutDocumentInput = {
+  where: Prisma.DocumentDuplicateScalarWhereInput
+  data: Prisma.XOR<Prisma.DocumentDuplicateUpdateManyMutationInput, Prisma.DocumentDuplicateUncheckedUpdateManyWithoutDocumentInput>
+}
+
+export type DocumentDuplicateUpsertWithWhereUniqueWithoutDuplicateInput = {
+  where: Prisma.DocumentDuplicateWhereUniqueInput
+  update: Prisma.XOR<Prisma.DocumentDuplicateUpdateWithoutDuplicateInput, Prisma.DocumentDuplicateUncheckedUpdateWithoutDuplicateInput>
+  create: Prisma.XOR<Prisma.DocumentDuplicateCreateWithoutDuplicateInput, Prisma.DocumentDuplicateUncheckedCreateWithoutDuplicateInput>
+}
+
+export type DocumentDuplicateUpdateWithWhereUniqueWithoutDuplicateInput = {
+  where: Prisma.DocumentDuplicateWhereUniqueInput
+  data: Prisma.XOR<Prisma.DocumentDuplicateUpdateWithoutDuplicateInput, Prisma.DocumentDuplicateUncheckedUpdateWithoutDuplicateInput>
+}
+
+export type DocumentDuplicateUpdateManyWithWhereWithoutDuplicateInput = {
+  where: Prisma.DocumentDuplicateScalarWhereInput
+  data: Prisma.XOR<Prisma.DocumentDuplicateUpdateManyMutationInput, Prisma.DocumentDuplicateUncheckedUpdateManyWithoutDuplicateInput>
+}
+
+export type DocumentDuplicateCreateManyTenantInput = {
+  id?: string
+  documentId: string
+  duplicateId: string
+  similarity: number
+  exactMatch?: boolean
+  status?: $Enums.DuplicateStatus
+  detectedAt?: Date | string
+  updatedAt?: Date | string
+  resolvedAt?: Date | string | null
+}
+
+export type DocumentDuplicateUpdateWithoutTenantInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  similarity?: Prisma.FloatFieldUpdateOperationsInput | number
+  exactMatch?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  status?: Prisma.EnumDuplicateStatusFieldUpdateOperationsInput | $Enums.DuplicateStatus
+  detectedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  resolvedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  document?: Prisma.DocumentUpdateOneRequiredWithoutDuplicatesAsFirstNestedInput
+  duplicate?: Prisma.DocumentUpdateOneRequiredWithoutDuplicatesAsSecondNestedInput
+}
+
+export type DocumentDuplicateUncheckedUpdateWithoutTenantInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  documentId?: Prisma.StringFieldUpdateOperationsInput | string
+  duplicateId?: Prisma.StringFieldUpdateOperationsInput | string
+  similarity?: Prisma.FloatFieldUpdateOperationsInput | number
+  exactMatch?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  status?: Prisma.EnumDuplicateStatusFieldUpdateOperationsInput | $Enums.DuplicateStatus
+  detectedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  resolvedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+}
+
+export type DocumentDuplicateUncheckedUpdateManyWithoutTenantInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  documentId?: Prisma.StringFieldUpdateOperationsInput | string
+  duplicateId?: Prisma.StringFieldUpdateOperationsInput | string
+  similarity?: Prisma.FloatFieldUpdateOperationsInput | number
+  exactMatch?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  status?: Prisma.EnumDuplicateStatusFieldUpdateOperationsInput | $Enums.DuplicateStatus
+  detectedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  resolvedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+}
+
+export type DocumentDuplicateCreateManyDocumentInput = {
+  id?: string
+  tenantId: string
+  duplicateId: string
+  similarity: number
+  exactMatch?: boolean
+  status?: $Enums.DuplicateStatus
+  detectedAt?: Date | string
+  updatedAt?: Date | string
+  resolvedAt?: Date | string | null
+}
+
+export type DocumentDuplicateCreateManyDuplicateInput = {
+  id?: string
+  tenantId: string
+  documentId: string
+  similarity: number
+  exactMatch?: boolean
+  status?: $Enums.DuplicateStatus
+  detectedAt?: Date | string
+  updatedAt?: Date | string
+  resolvedAt?: Date | string | null
+}
+
+export type DocumentDuplicateUpdateWithoutDocumentInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  similarity?: Prisma.FloatFieldUpdateOperationsInput | number
+  exactMatch?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  status?: Prisma.EnumDuplicateStatusFieldUpdateOperationsInput | $Enums.DuplicateStatus
+  detectedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  resolvedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  tenant?: Prisma.TenantUpdateOneRequiredWithoutDocumentDuplicatesNestedInput
+  duplicate?: Prisma.DocumentUpdateOneRequiredWithoutDuplicatesAsSecondNestedInput
+}
+
+export type DocumentDuplicateUncheckedUpdateWithoutDocumentInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  tenantId?: Prisma.StringFieldUpdateOperationsInput | string
+  duplicateId?: Prisma.StringFieldUpdateOperationsInput | string
+  similarity?: Prisma.FloatFieldUpdateOperationsInput | number
+  exactMatch?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  status?: Prisma.EnumDuplicateStatusFieldUpdateOperationsInput | $Enums.DuplicateStatus
+  detectedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  resolvedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+}
+
+export type DocumentDuplicateUncheckedUpdateManyWithoutDocumentInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  tenantId?: Prisma.StringFieldUpdateOperationsInput | string
+  duplicateId?: Prisma.StringFieldUpdateOperationsInput | string
+  similarity?: Prisma.FloatFieldUpdateOperationsInput | number
+  exactMatch?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  status?: Prisma.EnumDuplicateStatusFieldUpdateOperationsInput | $Enums.DuplicateStatus
+  detectedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  resolvedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+}
+
+export type DocumentDuplicateUpdateWithoutDuplicateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  similarity?: Prisma.FloatFieldUpdateOperationsInput | number
+  exactMatch?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  status?: Prisma.EnumDuplicateStatusFieldUpdateOperationsInput | $Enums.DuplicateStatus
+  detectedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  resolvedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  tenant?: Prisma.TenantUpdateOneRequiredWithoutDocumentDuplicatesNestedInput
+  document?: Prisma.DocumentUpdateOneRequiredWithoutDuplicatesAsFirstNestedInput
+}
+
+export type DocumentDuplicateUncheckedUpdateWithoutDuplicateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  tenantId?: Prisma.StringFieldUpdateOperationsInput | string
+  documentId?: Prisma.StringFieldUpdateOperationsInput | string
+  similarity?: Prisma.FloatFieldUpdateOperationsInput | number
+  exactMatch?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  status?: Prisma.EnumDuplicateStatusFieldUpdateOperationsInput | $Enums.DuplicateStatus
+  detectedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  resolvedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+}
+
+export type DocumentDuplicateUncheckedUpdateManyWithoutDuplicateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  tenantId?: Prisma.StringFieldUpdateOperationsInput | string
+  documentId?: Prisma.StringFieldUpdateOperationsInput | string
+  similarity?: Prisma.FloatFieldUpdateOperationsInput | number
+  exactMatch?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  status?: Prisma.EnumDuplicateStatusFieldUpdateOperationsInput | $Enums.DuplicateStatus
+  detectedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  resolvedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+}
+
+
+
+export type DocumentDuplicateSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  tenantId?: boolean
+  documentId?: boolean
+  duplicateId?: boolean
+  similarity?: boolean
+  exactMatch?: boolean
+  status?: boolean
+  detectedAt?: boolean
+  updatedAt?: boolean
+  resolvedAt?: boolean
+  tenant?: boolean | Prisma.TenantDefaultArgs<ExtArgs>
+  document?: boolean | Prisma.DocumentDefaultArgs<ExtArgs>
+  duplicate?: boolean | Prisma.DocumentDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["documentDuplicate"]>
+
+export type DocumentDuplicateSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  tenantId?: boolean
+  documentId?: boolean
+  duplicateId?: boolean
+  similarity?: boolean
+  exactMatch?: boolean
+  status?: boolean
+  detectedAt?: boolean
+  updatedAt?: boolean
+  resolvedAt?: boolean
+  tenant?: boolean | Prisma.TenantDefaultArgs<ExtArgs>
+  document?: boolean | Prisma.DocumentDefaultArgs<ExtArgs>
+  duplicate?: boolean | Prisma.DocumentDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["documentDuplicate"]>
+
+export type DocumentDuplicateSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  tenantId?: boolean
+  documentId?: boolean
+  duplicateId?: boolean
+  similarity?: boolean
+  exactMatch?: boolean
+  status?: boolean
+  detectedAt?: boolean
+  updatedAt?: boolean
+  resolvedAt?: boolean
+  tenant?: boolean | Prisma.TenantDefaultArgs<ExtArgs>
+  document?: boolean | Prisma.DocumentDefaultArgs<ExtArgs>
+  duplicate?: boolean | Prisma.DocumentDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["documentDuplicate"]>
+
+export type DocumentDuplicateSelectScalar = {
+  id?: boolean
+  tenantId?: boolean
+  documentId?: boolean
+  duplicateId?: boolean
+  similarity?: boolean
+  exactMatch?: boolean
+  status?: boolean
+  detectedAt?: boolean
+  updatedAt?: boolean
+  resolvedAt?: boolean
+}
+
+export type DocumentDuplicateOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "tenantId" | "documentId" | "duplicateId" | "similarity" | "exactMatch" | "status" | "detectedAt" | "updatedAt" | "resolvedAt", ExtArgs["result"]["documentDuplicate"]>
+export type DocumentDuplicateInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  tenant?: boolean | Prisma.TenantDefaultArgs<ExtArgs>
+  document?: boolean | Prisma.DocumentDefaultArgs<ExtArgs>
+  duplicate?: boolean | Prisma.DocumentDefaultArgs<ExtArgs>
+}
+export type DocumentDuplicateIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  tenant?: boolean | Prisma.TenantDefaultArgs<ExtArgs>
+  document?: boolean | Prisma.DocumentDefaultArgs<ExtArgs>
+  duplicate?: boolean | Prisma.DocumentDefaultArgs<ExtArgs>
+}
+export type DocumentDuplicateIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  tenant?: boolean | Prisma.TenantDefaultArgs<ExtArgs>
+  document?: boolean | Prisma.DocumentDefaultArgs<ExtArgs>
+  duplicate?: boolean | Prisma.DocumentDefaultArgs<ExtArgs>
+}
+
+export type $DocumentDuplicatePayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "DocumentDuplicate"
+  objects: {
+    tenant: Prisma.$TenantPayload<ExtArgs>
+    document: Prisma.$DocumentPayload<ExtArgs>
+    duplicate: Prisma.$DocumentPayload<ExtArgs>
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    tenantId: string
+    documentId: string
+    duplicateId: string
+    similarity: number
+    exactMatch: boolean
+    status: $Enums.DuplicateStatus
+    detectedAt: Date
+    updatedAt: Date
+    resolvedAt: Date | null
+  }, ExtArgs["result"]["documentDuplicate"]>
+  composites: {}
+}
+
+export type DocumentDuplicateGetPayload<S extends boolean | null | undefined | DocumentDuplicateDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$DocumentDuplicatePayload, S>
+
+export type DocumentDuplicateCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<DocumentDuplicateFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: DocumentDuplicateCountAggregateInputType | true
+  }
+
+export interface DocumentDuplicateDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['DocumentDuplicate'], meta: { name: 'DocumentDuplicate' } }
+  /**
+   * Find zero or one DocumentDuplicate that matches the filter.
+   * @param {DocumentDuplicateFindUniqueArgs} args - Arguments to find a DocumentDuplicate
+   * @example
+   * // Get one DocumentDuplicate
+   * const documentDuplicate = await prisma.documentDuplicate.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends DocumentDuplicateFindUniqueArgs>(args: Prisma.SelectSubset<T, DocumentDuplicateFindUniqueArgs<ExtArgs>>): Prisma.Prisma__DocumentDuplicateClient<runtime.Types.Result.GetResult<Prisma.$DocumentDuplicatePayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one DocumentDuplicate that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {DocumentDuplicateFindUniqueOrThrowArgs} args - Arguments to find a DocumentDuplicate
+   * @example
+   * // Get one DocumentDuplicate
+   * const documentDuplicate = await prisma.documentDuplicate.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends DocumentDuplicateFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, DocumentDuplicateFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__DocumentDuplicateClient<runtime.Types.Result.GetResult<Prisma.$DocumentDuplicatePayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first DocumentDuplicate that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {DocumentDuplicateFindFirstArgs} args - Arguments to find a DocumentDuplicate
+   * @example
+   * // Get one DocumentDuplicate
+   * const documentDuplicate = await prisma.documentDuplicate.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends DocumentDuplicateFindFirstArgs>(args?: Prisma.SelectSubset<T, DocumentDuplicateFindFirstArgs<ExtArgs>>): Prisma.Prisma__DocumentDuplicateClient<runtime.Types.Result.GetResult<Prisma.$DocumentDuplicatePayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first DocumentDuplicate that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {DocumentDuplicateFindFirstOrThrowArgs} args - Arguments to find a DocumentDuplicate
+   * @example
+   * // Get one DocumentDuplicate
+   * const documentDuplicate = await prisma.documentDuplicate.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends DocumentDuplicateFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, DocumentDuplicateFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__DocumentDuplicateClient<runtime.Types.Result.GetResult<Prisma.$DocumentDuplicatePayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more DocumentDuplicates that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {DocumentDuplicateFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all DocumentDuplicates
+   * const documentDuplicates = await prisma.documentDuplicate.findMany()
+   * 
+   * // Get first 10 DocumentDuplicates
+   * const documentDuplicates = await prisma.documentDuplicate.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const documentDuplicateWithIdOnly = await prisma.documentDuplicate.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends DocumentDuplicateFindManyArgs>(args?: Prisma.SelectSubset<T, DocumentDuplicateFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$DocumentDuplicatePayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a DocumentDuplicate.
+   * @param {DocumentDuplicateCreateArgs} args - Arguments to create a DocumentDuplicate.
+   * @example
+   * // Create one DocumentDuplicate
+   * const DocumentDuplicate = await prisma.documentDuplicate.create({
+   *   data: {
+   *     // ... data to create a DocumentDuplicate
+   *   }
+   * })
+   * 
+   */
+  create<T extends DocumentDuplicateCreateArgs>(args: Prisma.SelectSubset<T, DocumentDuplicateCreateArgs<ExtArgs>>): Prisma.Prisma__DocumentDuplicateClient<runtime.Types.Result.GetResult<Prisma.$DocumentDuplicatePayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many DocumentDuplicates.
+   * @param {DocumentDuplicateCreateManyArgs} args - Arguments to create many DocumentDuplicates.
+   * @example
+   * // Create many DocumentDuplicates
+   * const documentDuplicate = await prisma.documentDuplicate.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends DocumentDuplicateCreateManyArgs>(args?: Prisma.SelectSubset<T, DocumentDuplicateCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many DocumentDuplicates and returns the data saved in the database.
+   * @param {DocumentDuplicateCreateManyAndReturnArgs} args - Arguments to create many DocumentDuplicates.
+   * @example
+   * // Create many DocumentDuplicates
+   * const documentDuplicate = await prisma.documentDuplicate.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many DocumentDuplicates and only return the `id`
+   * const documentDuplicateWithIdOnly = await prisma.documentDuplicate.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends DocumentDuplicateCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, DocumentDuplicateCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$DocumentDuplicatePayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a DocumentDuplicate.
+   * @param {DocumentDuplicateDeleteArgs} args - Arguments to delete one DocumentDuplicate.
+   * @example
+   * // Delete one DocumentDuplicate
+   * const DocumentDuplicate = await prisma.documentDuplicate.delete({
+   *   where: {
+   *     // ... filter to delete one DocumentDuplicate
+   *   }
+   * })
+   * 
+   */
+  delete<T extends DocumentDuplicateDeleteArgs>(args: Prisma.SelectSubset<T, DocumentDuplicateDeleteArgs<ExtArgs>>): Prisma.Prisma__DocumentDuplicateClient<runtime.Types.Result.GetResult<Prisma.$DocumentDuplicatePayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one DocumentDuplicate.
+   * @param {DocumentDuplicateUpdateArgs} args - Arguments to update one DocumentDuplicate.
+   * @example
+   * // Update one DocumentDuplicate
+   * const documentDuplicate = await prisma.documentDuplicate.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends DocumentDuplicateUpdateArgs>(args: Prisma.SelectSubset<T, DocumentDuplicateUpdateArgs<ExtArgs>>): Prisma.Prisma__DocumentDuplicateClient<runtime.Types.Result.GetResult<Prisma.$DocumentDuplicatePayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more DocumentDuplicates.
+   * @param {DocumentDuplicateDeleteManyArgs} args - Arguments to filter DocumentDuplicates to delete.
+   * @example
+   * // Delete a few DocumentDuplicates
+   * const { count } = await prisma.documentDuplicate.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends DocumentDuplicateDeleteManyArgs>(args?: Prisma.SelectSubset<T, DocumentDuplicateDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more DocumentDuplicates.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {DocumentDuplicateUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many DocumentDuplicates
+   * const documentDuplicate = await prisma.documentDuplicate.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends DocumentDuplicateUpdateManyArgs>(args: Prisma.SelectSubset<T, DocumentDuplicateUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more DocumentDuplicates and returns the data updated in the database.
+   * @param {DocumentDuplicateUpdateManyAndReturnArgs} args - Arguments to update many DocumentDuplicates.
+   * @example
+   * // Update many DocumentDuplicates
+   * const documentDuplicate = await prisma.documentDuplicate.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more DocumentDuplicates and only return the `id`
+   * const documentDuplicateWithIdOnly = await prisma.documentDuplicate.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends DocumentDuplicateUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, DocumentDuplicateUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$DocumentDuplicatePayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one DocumentDuplicate.
+   * @param {DocumentDuplicateUpsertArgs} args - Arguments to update or create a DocumentDuplicate.
+   * @example
+   * // Update or create a DocumentDuplicate
+   * const documentDuplicate = await prisma.documentDuplicate.upsert({
+   *   create: {
+   *     // ... data to create a DocumentDuplicate
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the DocumentDuplicate we want to update
+   *   }
+   * })
+   */
+  upsert<T extends DocumentDuplicateUpsertArgs>(args: Prisma.SelectSubset<T, DocumentDuplicateUpsertArgs<ExtArgs>>): Prisma.Prisma__DocumentDuplicateClient<runtime.Types.Result.GetResult<Prisma.$DocumentDuplicatePayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of DocumentDuplicates.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {DocumentDuplicateCountArgs} args - Arguments to filter DocumentDuplicates to count.
+   * @example
+   * // Count the number of DocumentDuplicates
+   * const count = await prisma.documentDuplicate.count({
+   *   where: {
+   *     // ... the filter for the DocumentDuplicates we want to count
+   *   }
+   * })
+  **/
+  count<T extends DocumentDuplicateCountArgs>(
+    args?: Prisma.Subset<T, DocumentDuplicateCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], DocumentDuplicateCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a DocumentDuplicate.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {DocumentDuplicateAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends DocumentDuplicateAggregateArgs>(args: Prisma.Subset<T, DocumentDuplicateAggregateArgs>): Prisma.PrismaPromise<GetDocumentDuplicateAggregateType<T>>
+
+  /**
+   * Group by DocumentDuplicate.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {DocumentDuplicateGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends DocumentDuplicateGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: DocumentDuplicateGroupByArgs['orderBy'] }
+      : { orderBy?: DocumentDuplicateGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, DocumentDuplicateGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetDocumentDuplicateGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the DocumentDuplicate model
+ */
+readonly fields: DocumentDuplicateFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for DocumentDuplicate.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__DocumentDuplicateClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  tenant<T extends Prisma.TenantDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.TenantDefaultArgs<ExtArgs>>): Prisma.Prisma__TenantClient<runtime.Types.Result.GetResult<Prisma.$TenantPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  document<T extends Prisma.DocumentDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.DocumentDefaultArgs<ExtArgs>>): Prisma.Prisma__DocumentClient<runtime.Types.Result.GetResult<Prisma.$DocumentPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  duplicate<T extends Prisma.DocumentDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.DocumentDefaultArgs<ExtArgs>>): Prisma.Prisma__DocumentClient<runtime.Types.Result.GetResult<Prisma.$DocumentPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the DocumentDuplicate model
+ */
+export interface DocumentDuplicateFieldRefs {
+  readonly id: Prisma.FieldRef<"DocumentDuplicate", 'String'>
+  readonly tenantId: Prisma.FieldRef<"DocumentDuplicate", 'String'>
+  readonly documentId: Prisma.FieldRef<"DocumentDuplicate", 'String'>
+  readonly duplicateId: Prisma.FieldRef<"DocumentDuplicate", 'String'>
+  readonly similarity: Prisma.FieldRef<"DocumentDuplicate", 'Float'>
+  readonly exactMatch: Prisma.FieldRef<"DocumentDuplicate", 'Boolean'>
+  readonly status: Prisma.FieldRef<"DocumentDuplicate", 'DuplicateStatus'>
+  readonly detectedAt: Prisma.FieldRef<"DocumentDuplicate", 'DateTime'>
+  readonly updatedAt: Prisma.FieldRef<"DocumentDuplicate", 'DateTime'>
+  readonly resolvedAt: Prisma.FieldRef<"DocumentDuplicate", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * DocumentDuplicate findUnique
+ */
+export type DocumentDuplicateFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the DocumentDuplicate
+   */
+  select?: Prisma.DocumentDuplicateSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the DocumentDuplicate
+   */
+  omit?: Prisma.DocumentDuplicateOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.DocumentDuplicateInclude<ExtArgs> | null
+  /**
+   * Filter, which DocumentDuplicate to fetch.
+   */
+  where: Prisma.DocumentDuplicateWhereUniqueInput
+}
+
+/**
+ * DocumentDuplicate findUniqueOrThrow
+ */
+export type DocumentDuplicateFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the DocumentDuplicate
+   */
+  select?: Prisma.DocumentDuplicateSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the DocumentDuplicate
+   */
+  omit?: Prisma.DocumentDuplicateOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.DocumentDuplicateInclude<ExtArgs> | null
+  /**
+   * Filter, which DocumentDuplicate to fetch.
+   */
+  where: Prisma.DocumentDuplicateWhereUniqueInput
+}
+
+/**
+ * DocumentDuplicate findFirst
+ */
+export type DocumentDuplicateFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the DocumentDuplicate
+   */
+  select?: Prisma.DocumentDuplicateSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the DocumentDuplicate
+   */
+  omit?: Prisma.DocumentDuplicateOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.DocumentDuplicateInclude<ExtArgs> | null
+  /**
+   * Filter, which DocumentDuplicate to fetch.
+   */
+  where?: Prisma.DocumentDuplicateWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of DocumentDuplicates to fetch.
+   */
+  orderBy?: Prisma.DocumentDuplicateOrderByWithRelationInput | Prisma.DocumentDuplicateOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for DocumentDuplicates.
+   */
+  cursor?: Prisma.DocumentDuplicateWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` DocumentDuplicates from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` DocumentDuplicates.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of DocumentDuplicates.
+   */
+  distinct?: Prisma.DocumentDuplicateScalarFieldEnum | Prisma.DocumentDuplicateScalarFieldEnum[]
+}
+
+/**
+ * DocumentDuplicate findFirstOrThrow
+ */
+export type DocumentDuplicateFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the DocumentDuplicate
+   */
+  select?: Prisma.DocumentDuplicateSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the DocumentDuplicate
+   */
+  omit?: Prisma.DocumentDuplicateOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.DocumentDuplicateInclude<ExtArgs> | null
+  /**
+   * Filter, which DocumentDuplicate to fetch.
+   */
+  where?: Prisma.DocumentDuplicateWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of DocumentDuplicates to fetch.
+   */
+  orderBy?: Prisma.DocumentDuplicateOrderByWithRelationInput | Prisma.DocumentDuplicateOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for DocumentDuplicates.
+   */
+  cursor?: Prisma.DocumentDuplicateWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` DocumentDuplicates from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` DocumentDuplicates.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of DocumentDuplicates.
+   */
+  distinct?: Prisma.DocumentDuplicateScalarFieldEnum | Prisma.DocumentDuplicateScalarFieldEnum[]
+}
+
+/**
+ * DocumentDuplicate findMany
+ */
+export type DocumentDuplicateFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the DocumentDuplicate
+   */
+  select?: Prisma.DocumentDuplicateSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the DocumentDuplicate
+   */
+  omit?: Prisma.DocumentDuplicateOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.DocumentDuplicateInclude<ExtArgs> | null
+  /**
+   * Filter, which DocumentDuplicates to fetch.
+   */
+  where?: Prisma.DocumentDuplicateWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of DocumentDuplicates to fetch.
+   */
+  orderBy?: Prisma.DocumentDuplicateOrderByWithRelationInput | Prisma.DocumentDuplicateOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing DocumentDuplicates.
+   */
+  cursor?: Prisma.DocumentDuplicateWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` DocumentDuplicates from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` DocumentDuplicates.
+   */
+  skip?: number
+  distinct?: Prisma.DocumentDuplicateScalarFieldEnum | Prisma.DocumentDuplicateScalarFieldEnum[]
+}
+
+/**
+ * DocumentDuplicate create
+ */
+export type DocumentDuplicateCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the DocumentDuplicate
+   */
+  select?: Prisma.DocumentDuplicateSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the DocumentDuplicate
+   */
+  omit?: Prisma.DocumentDuplicateOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.DocumentDuplicateInclude<ExtArgs> | null
+  /**
+   * The data needed to create a DocumentDuplicate.
+   */
+  data: Prisma.XOR<Prisma.DocumentDuplicateCreateInput, Prisma.DocumentDuplicateUncheckedCreateInput>
+}
+
+/**
+ * DocumentDuplicate createMany
+ */
+export type DocumentDuplicateCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many DocumentDuplicates.
+   */
+  data: Prisma.DocumentDuplicateCreateManyInput | Prisma.DocumentDuplicateCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * DocumentDuplicate createManyAndReturn
+ */
+export type DocumentDuplicateCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the DocumentDuplicate
+   */
+  select?: Prisma.DocumentDuplicateSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the DocumentDuplicate
+   */
+  omit?: Prisma.DocumentDuplicateOmit<ExtArgs> | null
+  /**
+   * The data used to create many DocumentDuplicates.
+   */
+  data: Prisma.DocumentDuplicateCreateManyInput | Prisma.DocumentDuplicateCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.DocumentDuplicateIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * DocumentDuplicate update
+ */
+export type DocumentDuplicateUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the DocumentDuplicate
+   */
+  select?: Prisma.DocumentDuplicateSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the DocumentDuplicate
+   */
+  omit?: Prisma.DocumentDuplicateOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.DocumentDuplicateInclude<ExtArgs> | null
+  /**
+   * The data needed to update a DocumentDuplicate.
+   */
+  data: Prisma.XOR<Prisma.DocumentDuplicateUpdateInput, Prisma.DocumentDuplicateUncheckedUpdateInput>
+  /**
+   * Choose, which DocumentDuplicate to update.
+   */
+  where: Prisma.DocumentDuplicateWhereUniqueInput
+}
+
+/**
+ * DocumentDuplicate updateMany
+ */
+export type DocumentDuplicateUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update DocumentDuplicates.
+   */
+  data: Prisma.XOR<Prisma.DocumentDuplicateUpdateManyMutationInput, Prisma.DocumentDuplicateUncheckedUpdateManyInput>
+  /**
+   * Filter which DocumentDuplicates to update
+   */
+  where?: Prisma.DocumentDuplicateWhereInput
+  /**
+   * Limit how many DocumentDuplicates to update.
+   */
+  limit?: number
+}
+
+/**
+ * DocumentDuplicate updateManyAndReturn
+ */
+export type DocumentDuplicateUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the DocumentDuplicate
+   */
+  select?: Prisma.DocumentDuplicateSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the DocumentDuplicate
+   */
+  omit?: Prisma.DocumentDuplicateOmit<ExtArgs> | null
+  /**
+   * The data used to update DocumentDuplicates.
+   */
+  data: Prisma.XOR<Prisma.DocumentDuplicateUpdateManyMutationInput, Prisma.DocumentDuplicateUncheckedUpdateManyInput>
+  /**
+   * Filter which DocumentDuplicates to update
+   */
+  where?: Prisma.DocumentDuplicateWhereInput
+  /**
+   * Limit how many DocumentDuplicates to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.DocumentDuplicateIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * DocumentDuplicate upsert
+ */
+export type DocumentDuplicateUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the DocumentDuplicate
+   */
+  select?: Prisma.DocumentDuplicateSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the DocumentDuplicate
+   */
+  omit?: Prisma.DocumentDuplicateOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.DocumentDuplicateInclude<ExtArgs> | null
+  /**
+   * The filter to search for the DocumentDuplicate to update in case it exists.
+   */
+  where: Prisma.DocumentDuplicateWhereUniqueInput
+  /**
+   * In case the DocumentDuplicate found by the `where` argument doesn't exist, create a new DocumentDuplicate with this data.
+   */
+  create: Prisma.XOR<Prisma.DocumentDuplicateCreateInput, Prisma.DocumentDuplicateUncheckedCreateInput>
+  /**
+   * In case the DocumentDuplicate was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.DocumentDuplicateUpdateInput, Prisma.DocumentDuplicateUncheckedUpdateInput>
+}
+
+/**
+ * DocumentDuplicate delete
+ */
+export type DocumentDuplicateDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the DocumentDuplicate
+   */
+  select?: Prisma.DocumentDuplicateSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the DocumentDuplicate
+   */
+  omit?: Prisma.DocumentDuplicateOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.DocumentDuplicateInclude<ExtArgs> | null
+  /**
+   * Filter which DocumentDuplicate to delete.
+   */
+  where: Prisma.DocumentDuplicateWhereUniqueInput
+}
+
+/**
+ * DocumentDuplicate deleteMany
+ */
+export type DocumentDuplicateDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which DocumentDuplicates to delete
+   */
+  where?: Prisma.DocumentDuplicateWhereInput
+  /**
+   * Limit how many DocumentDuplicates to delete.
+   */
+  limit?: number
+}
+
+/**
+ * DocumentDuplicate without action
+ */
+export type DocumentDuplicateDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the DocumentDuplicate
+   */
+  select?: Prisma.DocumentDuplicateSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the DocumentDuplicate
+   */
+  omit?: Prisma.DocumentDuplicateOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.DocumentDuplicateInclude<ExtArgs> | null
+}
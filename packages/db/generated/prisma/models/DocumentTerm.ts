@@ -0,0 +1,1267 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `DocumentTerm` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums.js"
+import type * as Prisma from "../internal/prismaNamespace.js"
+
+/**
+ * Model DocumentTerm
+ * 
+ */
+export type DocumentTermModel = runtime.Types.Result.DefaultSelection<Prisma.$DocumentTermPayload>
+
+export type AggregateDocumentTerm = {
+  _count: DocumentTermCountAggregateOutputType | null
+  _min: DocumentTermMinAggregateOutputType | null
+  _max: DocumentTermMaxAggregateOutputType | null
+}
+
+export type DocumentTermMinAggregateOutputType = {
+  documentId: string | null
+  tenantId: string | null
+  term: string | null
+}
+
+export type DocumentTermMaxAggregateOutputType = {
+  documentId: string | null
+  tenantId: string | null
+  term: string | null
+}
+
+export type DocumentTermCountAggregateOutputType = {
+  documentId: number
+  tenantId: number
+  term: number
+  _all: number
+}
+
+
+export type DocumentTermMinAggregateInputType = {
+  documentId?: true
+  tenantId?: true
+  term?: true
+}
+
+export type DocumentTermMaxAggregateInputType = {
+  documentId?: true
+  tenantId?: true
+  term?: true
+}
+
+export type DocumentTermCountAggregateInputType = {
+  documentId?: true
+  tenantId?: true
+  term?: true
+  _all?: true
+}
+
+export type DocumentTermAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which DocumentTerm to aggregate.
+   */
+  where?: Prisma.DocumentTermWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of DocumentTerms to fetch.
+   */
+  orderBy?: Prisma.DocumentTermOrderByWithRelationInput | Prisma.DocumentTermOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.DocumentTermWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` DocumentTerms from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` DocumentTerms.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned DocumentTerms
+  **/
+  _count?: true | DocumentTermCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: DocumentTermMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: DocumentTermMaxAggregateInputType
+}
+
+export type GetDocumentTermAggregateType<T extends DocumentTermAggregateArgs> = {
+      [P in keyof T & keyof AggregateDocumentTerm]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateDocumentTerm[P]>
+    : Prisma.GetScalarType<T[P], AggregateDocumentTerm[P]>
+}
+
+
+
+
+export type DocumentTermGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.DocumentTermWhereInput
+  orderBy?: Prisma.DocumentTermOrderByWithAggregationInput | Prisma.DocumentTermOrderByWithAggregationInput[]
+  by: Prisma.DocumentTermScalarFieldEnum[] | Prisma.DocumentTermScalarFieldEnum
+  having?: Prisma.DocumentTermScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: DocumentTermCountAggregateInputType | true
+  _min?: DocumentTermMinAggregateInputType
+  _max?: DocumentTermMaxAggregateInputType
+}
+
+export type DocumentTermGroupByOutputType = {
+  documentId: string
+  tenantId: string
+  term: string
+  _count: DocumentTermCountAggregateOutputType | null
+  _min: DocumentTermMinAggregateOutputType | null
+  _max: DocumentTermMaxAggregateOutputType | null
+}
+
+type GetDocumentTermGroupByPayload<T extends DocumentTermGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<DocumentTermGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof DocumentTermGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], DocumentTermGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], DocumentTermGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type DocumentTermWhereInput = {
+  AND?: Prisma.DocumentTermWhereInput | Prisma.DocumentTermWhereInput[]
+  OR?: Prisma.DocumentTermWhereInput[]
+  NOT?: Prisma.DocumentTermWhereInput | Prisma.DocumentTermWhereInput[]
+  documentId?: Prisma.StringFilter<"DocumentTerm"> | string
+  tenantId?: Prisma.StringFilter<"DocumentTerm"> | string
+  term?: Prisma.StringFilter<"DocumentTerm"> | string
+  document?: Prisma.XOR<Prisma.DocumentScalarRelationFilter, Prisma.DocumentWhereInput>
+}
+
+export type DocumentTermOrderByWithRelationInput = {
+  documentId?: Prisma.SortOrder
+  tenantId?: Prisma.SortOrder
+  term?: Prisma.SortOrder
+  document?: Prisma.DocumentOrderByWithRelationInput
+}
+
+export type DocumentTermWhereUniqueInput = Prisma.AtLeast<{
+  documentId_term?: Prisma.DocumentTermDocumentIdTermCompoundUniqueInput
+  AND?: Prisma.DocumentTermWhereInput | Prisma.DocumentTermWhereInput[]
+  OR?: Prisma.DocumentTermWhereInput[]
+  NOT?: Prisma.DocumentTermWhereInput | Prisma.DocumentTermWhereInput[]
+  documentId?: Prisma.StringFilter<"DocumentTerm"> | string
+  tenantId?: Prisma.StringFilter<"DocumentTerm"> | string
+  term?: Prisma.StringFilter<"DocumentTerm"> | string
+  document?: Prisma.XOR<Prisma.DocumentScalarRelationFilter, Prisma.DocumentWhereInput>
+}, "documentId_term">
+
+export type DocumentTermOrderByWithAggregationInput = {
+  documentId?: Prisma.SortOrder
+  tenantId?: Prisma.SortOrder
+  term?: Prisma.SortOrder
+  _count?: Prisma.DocumentTermCountOrderByAggregateInput
+  _max?: Prisma.DocumentTermMaxOrderByAggregateInput
+  _min?: Prisma.DocumentTermMinOrderByAggregateInput
+}
+
+export type DocumentTermScalarWhereWithAggregatesInput = {
+  AND?: Prisma.DocumentTermScalarWhereWithAggregatesInput | Prisma.DocumentTermScalarWhereWithAggregatesInput[]
+  OR?: Prisma.DocumentTermScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.DocumentTermScalarWhereWithAggregatesInput | Prisma.DocumentTermScalarWhereWithAggregatesInput[]
+  documentId?: Prisma.StringWithAggregatesFilter<"DocumentTerm"> | string
+  tenantId?: Prisma.StringWithAggregatesFilter<"DocumentTerm"> | string
+  term?: Prisma.StringWithAggregatesFilter<"DocumentTerm"> | string
+}
+
+export type DocumentTermCreateInput = {
+  term: string
+  document: Prisma.DocumentCreateNestedOneWithoutTermsInput
+}
+
+export type DocumentTermUncheckedCreateInput = {
+  documentId: string
+  tenantId: string
+  term: string
+}
+
+export type DocumentTermUpdateInput = {
+  term?: Prisma.StringFieldUpdateOperationsInput | string
+  document?: Prisma.DocumentUpdateOneRequiredWithoutTermsNestedInput
+}
+
+export type DocumentTermUncheckedUpdateInput = {
+  documentId?: Prisma.StringFieldUpdateOperationsInput | string
+  tenantId?: Prisma.StringFieldUpdateOperationsInput | string
+  term?: Prisma.StringFieldUpdateOperationsInput | string
+}
+
+export type DocumentTermCreateManyInput = {
+  documentId: string
+  tenantId: string
+  term: string
+}
+
+export type DocumentTermUpdateManyMutationInput = {
+  term?: Prisma.StringFieldUpdateOperationsInput | string
+}
+
+export type DocumentTermUncheckedUpdateManyInput = {
+  documentId?: Prisma.StringFieldUpdateOperationsInput | string
+  tenantId?: Prisma.StringFieldUpdateOperationsInput | string
+  term?: Prisma.StringFieldUpdateOperationsInput | string
+}
+
+export type DocumentTermListRelationFilter = {
+  every?: Prisma.DocumentTermWhereInput
+  some?: Prisma.DocumentTermWhereInput
+  none?: Prisma.DocumentTermWhereInput
+}
+
+export type DocumentTermOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type DocumentTermDocumentIdTermCompoundUniqueInput = {
+  documentId: string
+  term: string
+}
+
+export type DocumentTermCountOrderByAggregateInput = {
+  documentId?: Prisma.SortOrder
+  tenantId?: Prisma.SortOrder
+  term?: Prisma.SortOrder
+}
+
+export type DocumentTermMaxOrderByAggregateInput = {
+  documentId?: Prisma.SortOrder
+  tenantId?: Prisma.SortOrder
+  term?: Prisma.SortOrder
+}
+
+export type DocumentTermMinOrderByAggregateInput = {
+  documentId?: Prisma.SortOrder
+  tenantId?: Prisma.SortOrder
+  term?: Prisma.SortOrder
+}
+
+export type DocumentTermCreateNestedManyWithoutDocumentInput = {
+  create?: Prisma.XOR<Prisma.DocumentTermCreateWithoutDocumentInput, Prisma.DocumentTermUncheckedCreateWithoutDocumentInput> | Prisma.DocumentTermCreateWithoutDocumentInput[] | Prisma.DocumentTermUncheckedCreateWithoutDocumentInput[]
+  connectOrCreate?: Prisma.DocumentTermCreateOrConnectWithoutDocumentInput | Prisma.DocumentTermCreateOrConnectWithoutDocumentInput[]
+  createMany?: Prisma.DocumentTermCreateManyDocumentInputEnvelope
+  connect?: Prisma.DocumentTermWhereUniqueInput | Prisma.DocumentTermWhereUniqueInput[]
+}
+
+export type DocumentTermUncheckedCreateNestedManyWithoutDocumentInput = {
+  create?: Prisma.XOR<Prisma.DocumentTermCreateWithoutDocumentInput, Prisma.DocumentTermUncheckedCreateWithoutDocumentInput> | Prisma.DocumentTermCreateWithoutDocumentInput[] | Prisma.DocumentTermUncheckedCreateWithoutDocumentInput[]
+  connectOrCreate?: Prisma.DocumentTermCreateOrConnectWithoutDocumentInput | Prisma.DocumentTermCreateOrConnectWithoutDocumentInput[]
+  createMany?: Prisma.DocumentTermCreateManyDocumentInputEnvelope
+  connect?: Prisma.DocumentTermWhereUniqueInput | Prisma.DocumentTermWhereUniqueInput[]
+}
+
+export type DocumentTermUpdateManyWithoutDocumentNestedInput = {
+  create?: Prisma.XOR<Prisma.DocumentTermCreateWithoutDocumentInput, Prisma.DocumentTermUncheckedCreateWithoutDocumentInput> | Prisma.DocumentTermCreateWithoutDocumentInput[] | Prisma.DocumentTermUncheckedCreateWithoutDocumentInput[]
+  connectOrCreate?: Prisma.DocumentTermCreateOrConnectWithoutDocumentInput | Prisma.DocumentTermCreateOrConnectWithoutDocumentInput[]
+  upsert?: Prisma.DocumentTermUpsertWithWhereUniqueWithoutDocumentInput | Prisma.DocumentTermUpsertWithWhereUniqueWithoutDocumentInput[]
+  createMany?: Prisma.DocumentTermCreateManyDocumentInputEnvelope
+  set?: Prisma.DocumentTermWhereUniqueInput | Prisma.DocumentTermWhereUniqueInput[]
+  disconnect?: Prisma.DocumentTermWhereUniqueInput | Prisma.DocumentTermWhereUniqueInput[]
+  delete?: Prisma.DocumentTermWhereUniqueInput | Prisma.DocumentTermWhereUniqueInput[]
+  connect?: Prisma.DocumentTermWhereUniqueInput | Prisma.DocumentTermWhereUniqueInput[]
+  update?: Prisma.DocumentTermUpdateWithWhereUniqueWithoutDocumentInput | Prisma.DocumentTermUpdateWithWhereUniqueWithoutDocumentInput[]
+  updateMany?: Prisma.DocumentTermUpdateManyWithWhereWithoutDocumentInput | Prisma.DocumentTermUpdateManyWithWhereWithoutDocumentInput[]
+  deleteMany?: Prisma.DocumentTermScalarWhereInput | Prisma.DocumentTermScalarWhereInput[]
+}
+
+export type DocumentTermUncheckedUpdateManyWithoutDocumentNestedInput = {
+  create?: Prisma.XOR<Prisma.DocumentTermCreateWithoutDocumentInput, Prisma.DocumentTermUncheckedCreateWithoutDocumentInput> | Prisma.DocumentTermCreateWithoutDocumentInput[] | Prisma.DocumentTermUncheckedCreateWithoutDocumentInput[]
+  connectOrCreate?: Prisma.DocumentTermCreateOrConnectWithoutDocumentInput | Prisma.DocumentTermCreateOrConnectWithoutDocumentInput[]
+  upsert?: Prisma.DocumentTermUpsertWithWhereUniqueWithoutDocumentInput | Prisma.DocumentTermUpsertWithWhereUniqueWithoutDocumentInput[]
+  createMany?: Prisma.DocumentTermCreateManyDocumentInputEnvelope
+  set?: Prisma.DocumentTermWhereUniqueInput | Prisma.DocumentTermWhereUniqueInput[]
+  disconnect?: Prisma.DocumentTermWhereUniqueInput | Prisma.DocumentTermWhereUniqueInput[]
+  delete?: Prisma.DocumentTermWhereUniqueInput | Prisma.DocumentTermWhereUniqueInput[]
+  connect?: Prisma.DocumentTermWhereUniqueInput | Prisma.DocumentTermWhereUniqueInput[]
+  update?: Prisma.DocumentTermUpdateWithWhereUniqueWithoutDocumentInput | Prisma.DocumentTermUpdateWithWhereUniqueWithoutDocumentInput[]
+  updateMany?: Prisma.DocumentTermUpdateManyWithWhereWithoutDocumentInput | Prisma.DocumentTermUpdateManyWithWhereWithoutDocumentInput[]
+  deleteMany?: Prisma.DocumentTermScalarWhereInput | Prisma.DocumentTermScalarWhereInput[]
+}
+
+export type DocumentTermCreateWithoutDocumentInput = {
+  term: string
+}
+
+export type DocumentTermUncheckedCreateWithoutDocumentInput = {
+  term: string
+}
+
+export type DocumentTermCreateOrConnectWithoutDocumentInput = {
+  where: Prisma.DocumentTermWhereUniqueInput
+  create: Prisma.XOR<Prisma.DocumentTermCreateWithoutDocumentInput, Prisma.DocumentTermUncheckedCreateWithoutDocumentInput>
+}
+
+export type DocumentTermCreateManyDocumentInputEnvelope = {
+  data: Prisma.DocumentTermCreateManyDocumentInput | Prisma.DocumentTermCreateManyDocumentInput[]
+  skipDuplicates?: boolean
+}
+
+export type DocumentTermUpsertWithWhereUniqueWithoutDocumentInput = {
+  where: Prisma.DocumentTermWhereUniqueInput
+  update: Prisma.XOR<Prisma.DocumentTermUpdateWithoutDocumentInput, Prisma.DocumentTermUncheckedUpdateWithoutDocumentInput>
+  create: Prisma.XOR<Prisma.DocumentTermCreateWithoutDocumentInput, Prisma.DocumentTermUncheckedCreateWithoutDocumentInput>
+}
+
+export type DocumentTermUpdateWithWhereUniqueWithoutDocumentInput = {
+  where: Prisma.DocumentTermWhereUniqueInput
+  data: Prisma.XOR<Prisma.DocumentTermUpdateWithoutDocumentInput, Prisma.DocumentTermUncheckedUpdateWithoutDocumentInput>
+}
+
+export type DocumentTermUpdateManyWithWhereWithoutDocumentInput = {
+  where: Prisma.DocumentTermScalarWhereInput
+  data: Prisma.XOR<Prisma.DocumentTermUpdateManyMutationInput, Prisma.DocumentTermUncheckedUpdateManyWithoutDocumentInput>
+}
+
+export type DocumentTermScalarWhereInput = {
+  AND?: Prisma.DocumentTermScalarWhereInput | Prisma.DocumentTermScalarWhereInput[]
+  OR?: Prisma.DocumentTermScalarWhereInput[]
+  NOT?: Prisma.DocumentTermScalarWhereInput | Prisma.DocumentTermScalarWhereInput[]
+  documentId?: Prisma.StringFilter<"DocumentTerm"> | string
+  tenantId?: Prisma.StringFilter<"DocumentTerm"> | string
+  term?: Prisma.StringFilter<"DocumentTerm"> | string
+}
+
+export type DocumentTermCreateManyDocumentInput = {
+  term: string
+}
+
+export type DocumentTermUpdateWithoutDocumentInput = {
+  term?: Prisma.StringFieldUpdateOperationsInput | string
+}
+
+export type DocumentTermUncheckedUpdateWithoutDocumentInput = {
+  term?: Prisma.StringFieldUpdateOperationsInput | string
+}
+
+export type DocumentTermUncheckedUpdateManyWithoutDocumentInput = {
+  term?: Prisma.StringFieldUpdateOperationsInput | string
+}
+
+
+
+export type DocumentTermSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  documentId?: boolean
+  tenantId?: boolean
+  term?: boolean
+  document?: boolean | Prisma.DocumentDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["documentTerm"]>
+
+export type DocumentTermSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  documentId?: boolean
+  tenantId?: boolean
+  term?: boolean
+  document?: boolean | Prisma.DocumentDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["documentTerm"]>
+
+export type DocumentTermSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  documentId?: boolean
+  tenantId?: boolean
+  term?: boolean
+  document?: boolean | Prisma.DocumentDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["documentTerm"]>
+
+export type DocumentTermSelectScalar = {
+  documentId?: boolean
+  tenantId?: boolean
+  term?: boolean
+}
+
+export type DocumentTermOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"documentId" | "tenantId" | "term", ExtArgs["result"]["documentTerm"]>
+export type DocumentTermInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  document?: boolean | Prisma.DocumentDefaultArgs<ExtArgs>
+}
+export type DocumentTermIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  document?: boolean | Prisma.DocumentDefaultArgs<ExtArgs>
+}
+export type DocumentTermIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  document?: boolean | Prisma.DocumentDefaultArgs<ExtArgs>
+}
+
+export type $DocumentTermPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "DocumentTerm"
+  objects: {
+    document: Prisma.$DocumentPayload<ExtArgs>
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    documentId: string
+    tenantId: string
+    term: string
+  }, ExtArgs["result"]["documentTerm"]>
+  composites: {}
+}
+
+export type DocumentTermGetPayload<S extends boolean | null | undefined | DocumentTermDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$DocumentTermPayload, S>
+
+export type DocumentTermCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<DocumentTermFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: DocumentTermCountAggregateInputType | true
+  }
+
+export interface DocumentTermDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['DocumentTerm'], meta: { name: 'DocumentTerm' } }
+  /**
+   * Find zero or one DocumentTerm that matches the filter.
+   * @param {DocumentTermFindUniqueArgs} args - Arguments to find a DocumentTerm
+   * @example
+   * // Get one DocumentTerm
+   * const documentTerm = await prisma.documentTerm.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends DocumentTermFindUniqueArgs>(args: Prisma.SelectSubset<T, DocumentTermFindUniqueArgs<ExtArgs>>): Prisma.Prisma__DocumentTermClient<runtime.Types.Result.GetResult<Prisma.$DocumentTermPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one DocumentTerm that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {DocumentTermFindUniqueOrThrowArgs} args - Arguments to find a DocumentTerm
+   * @example
+   * // Get one DocumentTerm
+   * const documentTerm = await prisma.documentTerm.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends DocumentTermFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, DocumentTermFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__DocumentTermClient<runtime.Types.Result.GetResult<Prisma.$DocumentTermPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first DocumentTerm that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {DocumentTermFindFirstArgs} args - Arguments to find a DocumentTerm
+   * @example
+   * // Get one DocumentTerm
+   * const documentTerm = await prisma.documentTerm.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends DocumentTermFindFirstArgs>(args?: Prisma.SelectSubset<T, DocumentTermFindFirstArgs<ExtArgs>>): Prisma.Prisma__DocumentTermClient<runtime.Types.Result.GetResult<Prisma.$DocumentTermPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first DocumentTerm that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {DocumentTermFindFirstOrThrowArgs} args - Arguments to find a DocumentTerm
+   * @example
+   * // Get one DocumentTerm
+   * const documentTerm = await prisma.documentTerm.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends DocumentTermFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, DocumentTermFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__DocumentTermClient<runtime.Types.Result.GetResult<Prisma.$DocumentTermPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more DocumentTerms that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {DocumentTermFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all DocumentTerms
+   * const documentTerms = await prisma.documentTerm.findMany()
+   * 
+   * // Get first 10 DocumentTerms
+   * const documentTerms = await prisma.documentTerm.findMany({ take: 10 })
+   * 
+   * // Only select the `documentId`
+   * const documentTermWithDocumentIdOnly = await prisma.documentTerm.findMany({ select: { documentId: true } })
+   * 
+   */
+  findMany<T extends DocumentTermFindManyArgs>(args?: Prisma.SelectSubset<T, DocumentTermFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$DocumentTermPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a DocumentTerm.
+   * @param {DocumentTermCreateArgs} args - Arguments to create a DocumentTerm.
+   * @example
+   * // Create one DocumentTerm
+   * const DocumentTerm = await prisma.documentTerm.create({
+   *   data: {
+   *     // ... data to create a DocumentTerm
+   *   }
+   * })
+   * 
+   */
+  create<T extends DocumentTermCreateArgs>(args: Prisma.SelectSubset<T, DocumentTermCreateArgs<ExtArgs>>): Prisma.Prisma__DocumentTermClient<runtime.Types.Result.GetResult<Prisma.$DocumentTermPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many DocumentTerms.
+   * @param {DocumentTermCreateManyArgs} args - Arguments to create many DocumentTerms.
+   * @example
+   * // Create many DocumentTerms
+   * const documentTerm = await prisma.documentTerm.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends DocumentTermCreateManyArgs>(args?: Prisma.SelectSubset<T, DocumentTermCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many DocumentTerms and returns the data saved in the database.
+   * @param {DocumentTermCreateManyAndReturnArgs} args - Arguments to create many DocumentTerms.
+   * @example
+   * // Create many DocumentTerms
+   * const documentTerm = await prisma.documentTerm.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many DocumentTerms and only return the `documentId`
+   * const documentTermWithDocumentIdOnly = await prisma.documentTerm.createManyAndReturn({
+   *   select: { documentId: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends DocumentTermCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, DocumentTermCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$DocumentTermPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a DocumentTerm.
+   * @param {DocumentTermDeleteArgs} args - Arguments to delete one DocumentTerm.
+   * @example
+   * // Delete one DocumentTerm
+   * const DocumentTerm = await prisma.documentTerm.delete({
+   *   where: {
+   *     // ... filter to delete one DocumentTerm
+   *   }
+   * })
+   * 
+   */
+  delete<T extends DocumentTermDeleteArgs>(args: Prisma.SelectSubset<T, DocumentTermDeleteArgs<ExtArgs>>): Prisma.Prisma__DocumentTermClient<runtime.Types.Result.GetResult<Prisma.$DocumentTermPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one DocumentTerm.
+   * @param {DocumentTermUpdateArgs} args - Arguments to update one DocumentTerm.
+   * @example
+   * // Update one DocumentTerm
+   * const documentTerm = await prisma.documentTerm.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends DocumentTermUpdateArgs>(args: Prisma.SelectSubset<T, DocumentTermUpdateArgs<ExtArgs>>): Prisma.Prisma__DocumentTermClient<runtime.Types.Result.GetResult<Prisma.$DocumentTermPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more DocumentTerms.
+   * @param {DocumentTermDeleteManyArgs} args - Arguments to filter DocumentTerms to delete.
+   * @example
+   * // Delete a few DocumentTerms
+   * const { count } = await prisma.documentTerm.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends DocumentTermDeleteManyArgs>(args?: Prisma.SelectSubset<T, DocumentTermDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more DocumentTerms.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {DocumentTermUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many DocumentTerms
+   * const documentTerm = await prisma.documentTerm.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends DocumentTermUpdateManyArgs>(args: Prisma.SelectSubset<T, DocumentTermUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more DocumentTerms and returns the data updated in the database.
+   * @param {DocumentTermUpdateManyAndReturnArgs} args - Arguments to update many DocumentTerms.
+   * @example
+   * // Update many DocumentTerms
+   * const documentTerm = await prisma.documentTerm.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more DocumentTerms and only return the `documentId`
+   * const documentTermWithDocumentIdOnly = await prisma.documentTerm.updateManyAndReturn({
+   *   select: { documentId: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends DocumentTermUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, DocumentTermUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$DocumentTermPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one DocumentTerm.
+   * @param {DocumentTermUpsertArgs} args - Arguments to update or create a DocumentTerm.
+   * @example
+   * // Update or create a DocumentTerm
+   * const documentTerm = await prisma.documentTerm.upsert({
+   *   create: {
+   *     // ... data to create a DocumentTerm
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the DocumentTerm we want to update
+   *   }
+   * })
+   */
+  upsert<T extends DocumentTermUpsertArgs>(args: Prisma.SelectSubset<T, DocumentTermUpsertArgs<ExtArgs>>): Prisma.Prisma__DocumentTermClient<runtime.Types.Result.GetResult<Prisma.$DocumentTermPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of DocumentTerms.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {DocumentTermCountArgs} args - Arguments to filter DocumentTerms to count.
+   * @example
+   * // Count the number of DocumentTerms
+   * const count = await prisma.documentTerm.count({
+   *   where: {
+   *     // ... the filter for the DocumentTerms we want to count
+   *   }
+   * })
+  **/
+  count<T extends DocumentTermCountArgs>(
+    args?: Prisma.Subset<T, DocumentTermCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], DocumentTermCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a DocumentTerm.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {DocumentTermAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends DocumentTermAggregateArgs>(args: Prisma.Subset<T, DocumentTermAggregateArgs>): Prisma.PrismaPromise<GetDocumentTermAggregateType<T>>
+
+  /**
+   * Group by DocumentTerm.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {DocumentTermGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends DocumentTermGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: DocumentTermGroupByArgs['orderBy'] }
+      : { orderBy?: DocumentTermGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, DocumentTermGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetDocumentTermGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the DocumentTerm model
+ */
+readonly fields: DocumentTermFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for DocumentTerm.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__DocumentTermClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  document<T extends Prisma.DocumentDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.DocumentDefaultArgs<ExtArgs>>): Prisma.Prisma__DocumentClient<runtime.Types.Result.GetResult<Prisma.$DocumentPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the DocumentTerm model
+ */
+export interface DocumentTermFieldRefs {
+  readonly documentId: Prisma.FieldRef<"DocumentTerm", 'String'>
+  readonly tenantId: Prisma.FieldRef<"DocumentTerm", 'String'>
+  readonly term: Prisma.FieldRef<"DocumentTerm", 'String'>
+}
+    
+
+// Custom InputTypes
+/**
+ * DocumentTerm findUnique
+ */
+export type DocumentTermFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the DocumentTerm
+   */
+  select?: Prisma.DocumentTermSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the DocumentTerm
+   */
+  omit?: Prisma.DocumentTermOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.DocumentTermInclude<ExtArgs> | null
+  /**
+   * Filter, which DocumentTerm to fetch.
+   */
+  where: Prisma.DocumentTermWhereUniqueInput
+}
+
+/**
+ * DocumentTerm findUniqueOrThrow
+ */
+export type DocumentTermFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the DocumentTerm
+   */
+  select?: Prisma.DocumentTermSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the DocumentTerm
+   */
+  omit?: Prisma.DocumentTermOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.DocumentTermInclude<ExtArgs> | null
+  /**
+   * Filter, which DocumentTerm to fetch.
+   */
+  where: Prisma.DocumentTermWhereUniqueInput
+}
+
+/**
+ * DocumentTerm findFirst
+ */
+export type DocumentTermFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the DocumentTerm
+   */
+  select?: Prisma.DocumentTermSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the DocumentTerm
+   */
+  omit?: Prisma.DocumentTermOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.DocumentTermInclude<ExtArgs> | null
+  /**
+   * Filter, which DocumentTerm to fetch.
+   */
+  where?: Prisma.DocumentTermWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of DocumentTerms to fetch.
+   */
+  orderBy?: Prisma.DocumentTermOrderByWithRelationInput | Prisma.DocumentTermOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for DocumentTerms.
+   */
+  cursor?: Prisma.DocumentTermWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` DocumentTerms from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` DocumentTerms.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of DocumentTerms.
+   */
+  distinct?: Prisma.DocumentTermScalarFieldEnum | Prisma.DocumentTermScalarFieldEnum[]
+}
+
+/**
+ * DocumentTerm findFirstOrThrow
+ */
+export type DocumentTermFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the DocumentTerm
+   */
+  select?: Prisma.DocumentTermSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the DocumentTerm
+   */
+  omit?: Prisma.DocumentTermOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.DocumentTermInclude<ExtArgs> | null
+  /**
+   * Filter, which DocumentTerm to fetch.
+   */
+  where?: Prisma.DocumentTermWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of DocumentTerms to fetch.
+   */
+  orderBy?: Prisma.DocumentTermOrderByWithRelationInput | Prisma.DocumentTermOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for DocumentTerms.
+   */
+  cursor?: Prisma.DocumentTermWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` DocumentTerms from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` DocumentTerms.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of DocumentTerms.
+   */
+  distinct?: Prisma.DocumentTermScalarFieldEnum | Prisma.DocumentTermScalarFieldEnum[]
+}
+
+/**
+ * DocumentTerm findMany
+ */
+export type DocumentTermFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the DocumentTerm
+   */
+  select?: Prisma.DocumentTermSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the DocumentTerm
+   */
+  omit?: Prisma.DocumentTermOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.DocumentTermInclude<ExtArgs> | null
+  /**
+   * Filter, which DocumentTerms to fetch.
+   */
+  where?: Prisma.DocumentTermWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of DocumentTerms to fetch.
+   */
+  orderBy?: Prisma.DocumentTermOrderByWithRelationInput | Prisma.DocumentTermOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing DocumentTerms.
+   */
+  cursor?: Prisma.DocumentTermWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` DocumentTerms from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` DocumentTerms.
+   */
+  skip?: number
+  distinct?: Prisma.DocumentTermScalarFieldEnum | Prisma.DocumentTermScalarFieldEnum[]
+}
+
+/**
+ * DocumentTerm create
+ */
+export type DocumentTermCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the DocumentTerm
+   */
+  select?: Prisma.DocumentTermSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the DocumentTerm
+   */
+  omit?: Prisma.DocumentTermOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.DocumentTermInclude<ExtArgs> | null
+  /**
+   * The data needed to create a DocumentTerm.
+   */
+  data: Prisma.XOR<Prisma.DocumentTermCreateInput, Prisma.DocumentTermUncheckedCreateInput>
+}
+
+/**
+ * DocumentTerm createMany
+ */
+export type DocumentTermCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many DocumentTerms.
+   */
+  data: Prisma.DocumentTermCreateManyInput | Prisma.DocumentTermCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * DocumentTerm createManyAndReturn
+ */
+export type DocumentTermCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the DocumentTerm
+   */
+  select?: Prisma.DocumentTermSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the DocumentTerm
+   */
+  omit?: Prisma.DocumentTermOmit<ExtArgs> | null
+  /**
+   * The data used to create many DocumentTerms.
+   */
+  data: Prisma.DocumentTermCreateManyInput | Prisma.DocumentTermCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.DocumentTermIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * DocumentTerm update
+ */
+export type DocumentTermUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the DocumentTerm
+   */
+  select?: Prisma.DocumentTermSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the DocumentTerm
+   */
+  omit?: Prisma.DocumentTermOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.DocumentTermInclude<ExtArgs> | null
+  /**
+   * The data needed to update a DocumentTerm.
+   */
+  data: Prisma.XOR<Prisma.DocumentTermUpdateInput, Prisma.DocumentTermUncheckedUpdateInput>
+  /**
+   * Choose, which DocumentTerm to update.
+   */
+  where: Prisma.DocumentTermWhereUniqueInput
+}
+
+/**
+ * DocumentTerm updateMany
+ */
+export type DocumentTermUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update DocumentTerms.
+   */
+  data: Prisma.XOR<Prisma.DocumentTermUpdateManyMutationInput, Prisma.DocumentTermUncheckedUpdateManyInput>
+  /**
+   * Filter which DocumentTerms to update
+   */
+  where?: Prisma.DocumentTermWhereInput
+  /**
+   * Limit how many DocumentTerms to update.
+   */
+  limit?: number
+}
+
+/**
+ * DocumentTerm updateManyAndReturn
+ */
+export type DocumentTermUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the DocumentTerm
+   */
+  select?: Prisma.DocumentTermSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the DocumentTerm
+   */
+  omit?: Prisma.DocumentTermOmit<ExtArgs> | null
+  /**
+   * The data used to update DocumentTerms.
+   */
+  data: Prisma.XOR<Prisma.DocumentTermUpdateManyMutationInput, Prisma.DocumentTermUncheckedUpdateManyInput>
+  /**
+   * Filter which DocumentTerms to update
+   */
+  where?: Prisma.DocumentTermWhereInput
+  /**
+   * Limit how many DocumentTerms to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.DocumentTermIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * DocumentTerm upsert
+ */
+export type DocumentTermUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the DocumentTerm
+   */
+  select?: Prisma.DocumentTermSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the DocumentTerm
+   */
+  omit?: Prisma.DocumentTermOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.DocumentTermInclude<ExtArgs> | null
+  /**
+   * The filter to search for the DocumentTerm to update in case it exists.
+   */
+  where: Prisma.DocumentTermWhereUniqueInput
+  /**
+   * In case the DocumentTerm found by the `where` argument doesn't exist, create a new DocumentTerm with this data.
+   */
+  create: Prisma.XOR<Prisma.DocumentTermCreateInput, Prisma.DocumentTermUncheckedCreateInput>
+  /**
+   * In case the DocumentTerm was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.DocumentTermUpdateInput, Prisma.DocumentTermUncheckedUpdateInput>
+}
+
+/**
+ * DocumentTerm delete
+ */
+export type DocumentTermDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the DocumentTerm
+   */
+  select?: Prisma.DocumentTermSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the DocumentTerm
+   */
+  omit?: Prisma.DocumentTermOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.DocumentTermInclude<ExtArgs> | null
+  /**
+   * Filter which DocumentTerm to delete.
+   */
+  where: Prisma.DocumentTermWhereUniqueInput
+}
+
+/**
+ * DocumentTerm deleteMany
+ */
+export type DocumentTermDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which DocumentTerms to delete
+   */
+  where?: Prisma.DocumentTermWhereInput
+  /**
+   * Limit how many DocumentTerms to delete.
+   */
+  limit?: number
+}
+
+/**
+ * DocumentTerm without action
+ */
+export type DocumentTermDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the DocumentTerm
+   */
+  select?: Prisma.DocumentTermSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the DocumentTerm
+   */
+  omit?: Prisma.DocumentTermOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.DocumentTermInclude<ExtArgs> | null
+}
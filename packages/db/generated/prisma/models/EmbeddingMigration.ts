@@ -0,0 +1,1639 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `EmbeddingMigration` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums.js"
+import type * as Prisma from "../internal/prismaNamespace.js"
+
+/**
+ * Model EmbeddingMigration
+ * 
+ */
+export type EmbeddingMigrationModel = runtime.Types.Result.DefaultSelection<Prisma.$EmbeddingMigrationPayload>
+
+export type AggregateEmbeddingMigration = {
+  _count: EmbeddingMigrationCountAggregateOutputType | null
+  _avg: EmbeddingMigrationAvgAggregateOutputType | null
+  _sum: EmbeddingMigrationSumAggregateOutputType | null
+  _min: EmbeddingMigrationMinAggregateOutputType | null
+  _max: EmbeddingMigrationMaxAggregateOutputType | null
+}
+
+export type EmbeddingMigrationAvgAggregateOutputType = {
+  totalChunks: number | null
+  processedChunks: number | null
+}
+
+export type EmbeddingMigrationSumAggregateOutputType = {
+  totalChunks: number | null
+  processedChunks: number | null
+}
+
+export type EmbeddingMigrationMinAggregateOutputType = {
+  id: string | null
+  tenantId: string | null
+  targetModel: string | null
+  status: $Enums.EmbeddingMigrationStatus | null
+  totalChunks: number | null
+  processedChunks: number | null
+  error: string | null
+  startedAt: Date | null
+  completedAt: Date | null
+  cutoverAt: Date | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type EmbeddingMigrationMaxAggregateOutputType = {
+  id: string | null
+  tenantId: string | null
+  targetModel: string | null
+  status: $Enums.EmbeddingMigrationStatus | null
+  totalChunks: number | null
+  processedChunks: number | null
+  error: string | null
+  startedAt: Date | null
+  completedAt: Date | null
+  cutoverAt: Date | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type EmbeddingMigrationCountAggregateOutputType = {
+  id: number
+  tenantId: number
+  targetModel: number
+  status: number
+  totalChunks: number
+  processedChunks: number
+  error: number
+  startedAt: number
+  completedAt: number
+  cutoverAt: number
+  createdAt: number
+  updatedAt: number
+  _all: number
+}
+
+
+export type EmbeddingMigrationAvgAggregateInputType = {
+  totalChunks?: true
+  processedChunks?: true
+}
+
+export type EmbeddingMigrationSumAggregateInputType = {
+  totalChunks?: true
+  processedChunks?: true
+}
+
+export type EmbeddingMigrationMinAggregateInputType = {
+  id?: true
+  tenantId?: true
+  targetModel?: true
+  status?: true
+  totalChunks?: true
+  processedChunks?: true
+  error?: true
+  startedAt?: true
+  completedAt?: true
+  cutoverAt?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type EmbeddingMigrationMaxAggregateInputType = {
+  id?: true
+  tenantId?: true
+  targetModel?: true
+  status?: true
+  totalChunks?: true
+  processedChunks?: true
+  error?: true
+  startedAt?: true
+  completedAt?: true
+  cutoverAt?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type EmbeddingMigrationCountAggregateInputType = {
+  id?: true
+  tenantId?: true
+  targetModel?: true
+  status?: true
+  totalChunks?: true
+  processedChunks?: true
+  error?: true
+  startedAt?: true
+  completedAt?: true
+  cutoverAt?: true
+  createdAt?: true
+  updatedAt?: true
+  _all?: true
+}
+
+export type EmbeddingMigrationAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which EmbeddingMigration to aggregate.
+   */
+  where?: Prisma.EmbeddingMigrationWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of EmbeddingMigrations to fetch.
+   */
+  orderBy?: Prisma.EmbeddingMigrationOrderByWithRelationInput | Prisma.EmbeddingMigrationOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.EmbeddingMigrationWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` EmbeddingMigrations from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` EmbeddingMigrations.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned EmbeddingMigrations
+  **/
+  _count?: true | EmbeddingMigrationCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: EmbeddingMigrationAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: EmbeddingMigrationSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: EmbeddingMigrationMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: EmbeddingMigrationMaxAggregateInputType
+}
+
+export type GetEmbeddingMigrationAggregateType<T extends EmbeddingMigrationAggregateArgs> = {
+      [P in keyof T & keyof AggregateEmbeddingMigration]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateEmbeddingMigration[P]>
+    : Prisma.GetScalarType<T[P], AggregateEmbeddingMigration[P]>
+}
+
+
+
+
+export type EmbeddingMigrationGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.EmbeddingMigrationWhereInput
+  orderBy?: Prisma.EmbeddingMigrationOrderByWithAggregationInput | Prisma.EmbeddingMigrationOrderByWithAggregationInput[]
+  by: Prisma.EmbeddingMigrationScalarFieldEnum[] | Prisma.EmbeddingMigrationScalarFieldEnum
+  having?: Prisma.EmbeddingMigrationScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: EmbeddingMigrationCountAggregateInputType | true
+  _avg?: EmbeddingMigrationAvgAggregateInputType
+  _sum?: EmbeddingMigrationSumAggregateInputType
+  _min?: EmbeddingMigrationMinAggregateInputType
+  _max?: EmbeddingMigrationMaxAggregateInputType
+}
+
+export type EmbeddingMigrationGroupByOutputType = {
+  id: string
+  tenantId: string
+  targetModel: string
+  status: $Enums.EmbeddingMigrationStatus
+  totalChunks: number
+  processedChunks: number
+  error: string | null
+  startedAt: Date | null
+  completedAt: Date | null
+  cutoverAt: Date | null
+  createdAt: Date
+  updatedAt: Date
+  _count: EmbeddingMigrationCountAggregateOutputType | null
+  _avg: EmbeddingMigrationAvgAggregateOutputType | null
+  _sum: EmbeddingMigrationSumAggregateOutputType | null
+  _min: EmbeddingMigrationMinAggregateOutputType | null
+  _max: EmbeddingMigrationMaxAggregateOutputType | null
+}
+
+type GetEmbeddingMigrationGroupByPayload<T extends EmbeddingMigrationGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<EmbeddingMigrationGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof EmbeddingMigrationGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], EmbeddingMigrationGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], EmbeddingMigrationGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type EmbeddingMigrationWhereInput = {
+  AND?: Prisma.EmbeddingMigrationWhereInput | Prisma.EmbeddingMigrationWhereInput[]
+  OR?: Prisma.EmbeddingMigrationWhereInput[]
+  NOT?: Prisma.EmbeddingMigrationWhereInput | Prisma.EmbeddingMigrationWhereInput[]
+  id?: Prisma.StringFilter<"EmbeddingMigration"> | string
+  tenantId?: Prisma.StringFilter<"EmbeddingMigration"> | string
+  targetModel?: Prisma.StringFilter<"EmbeddingMigration"> | string
+  status?: Prisma.EnumEmbeddingMigrationStatusFilter<"EmbeddingMigration"> | $Enums.EmbeddingMigrationStatus
+  totalChunks?: Prisma.IntFilter<"EmbeddingMigration"> | number
+  processedChunks?: Prisma.IntFilter<"EmbeddingMigration"> | number
+  error?: Prisma.StringNullableFilter<"EmbeddingMigration"> | string | null
+  startedAt?: Prisma.DateTimeNullableFilter<"EmbeddingMigration"> | Date | string | null
+  completedAt?: Prisma.DateTimeNullableFilter<"EmbeddingMigration"> | Date | string | null
+  cutoverAt?: Prisma.DateTimeNullableFilter<"EmbeddingMigration"> | Date | string | null
+  createdAt?: Prisma.DateTimeFilter<"EmbeddingMigration"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"EmbeddingMigration"> | Date | string
+  tenant?: Prisma.XOR<Prisma.TenantScalarRelationFilter, Prisma.TenantWhereInput>
+}
+
+export type EmbeddingMigrationOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  tenantId?: Prisma.SortOrder
+  targetModel?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  totalChunks?: Prisma.SortOrder
+  processedChunks?: Prisma.SortOrder
+  error?: Prisma.SortOrderInput | Prisma.SortOrder
+  startedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  completedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  cutoverAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  tenant?: Prisma.TenantOrderByWithRelationInput
+}
+
+export type EmbeddingMigrationWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  AND?: Prisma.EmbeddingMigrationWhereInput | Prisma.EmbeddingMigrationWhereInput[]
+  OR?: Prisma.EmbeddingMigrationWhereInput[]
+  NOT?: Prisma.EmbeddingMigrationWhereInput | Prisma.EmbeddingMigrationWhereInput[]
+  tenantId?: Prisma.StringFilter<"EmbeddingMigration"> | string
+  targetModel?: Prisma.StringFilter<"EmbeddingMigration"> | string
+  status?: Prisma.EnumEmbeddingMigrationStatusFilter<"EmbeddingMigration"> | $Enums.EmbeddingMigrationStatus
+  totalChunks?: Prisma.IntFilter<"EmbeddingMigration"> | number
+  processedChunks?: Prisma.IntFilter<"EmbeddingMigration"> | number
+  error?: Prisma.StringNullableFilter<"EmbeddingMigration"> | string | null
+  startedAt?: Prisma.DateTimeNullableFilter<"EmbeddingMigration"> | Date | string | null
+  completedAt?: Prisma.DateTimeNullableFilter<"EmbeddingMigration"> | Date | string | null
+  cutoverAt?: Prisma.DateTimeNullableFilter<"EmbeddingMigration"> | Date | string | null
+  createdAt?: Prisma.DateTimeFilter<"EmbeddingMigration"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"EmbeddingMigration"> | Date | string
+  tenant?: Prisma.XOR<Prisma.TenantScalarRelationFilter, Prisma.TenantWhereInput>
+}, "id">
+
+export type EmbeddingMigrationOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  tenantId?: Prisma.SortOrder
+  targetModel?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  totalChunks?: Prisma.SortOrder
+  processedChunks?: Prisma.SortOrder
+  error?: Prisma.SortOrderInput | Prisma.SortOrder
+  startedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  completedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  cutoverAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  _count?: Prisma.EmbeddingMigrationCountOrderByAggregateInput
+  _avg?: Prisma.EmbeddingMigrationAvgOrderByAggregateInput
+  _max?: Prisma.EmbeddingMigrationMaxOrderByAggregateInput
+  _min?: Prisma.EmbeddingMigrationMinOrderByAggregateInput
+  _sum?: Prisma.EmbeddingMigrationSumOrderByAggregateInput
+}
+
+export type EmbeddingMigrationScalarWhereWithAggregatesInput = {
+  AND?: Prisma.EmbeddingMigrationScalarWhereWithAggregatesInput | Prisma.EmbeddingMigrationScalarWhereWithAggregatesInput[]
+  OR?: Prisma.EmbeddingMigrationScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.EmbeddingMigrationScalarWhereWithAggregatesInput | Prisma.EmbeddingMigrationScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"EmbeddingMigration"> | string
+  tenantId?: Prisma.StringWithAggregatesFilter<"EmbeddingMigration"> | string
+  targetModel?: Prisma.StringWithAggregatesFilter<"EmbeddingMigration"> | string
+  status?: Prisma.EnumEmbeddingMigrationStatusWithAggregatesFilter<"EmbeddingMigration"> | $Enums.EmbeddingMigrationStatus
+  totalChunks?: Prisma.IntWithAggregatesFilter<"EmbeddingMigration"> | number
+  processedChunks?: Prisma.IntWithAggregatesFilter<"EmbeddingMigration"> | number
+  error?: Prisma.StringNullableWithAggregatesFilter<"EmbeddingMigration"> | string | null
+  startedAt?: Prisma.DateTimeNullableWithAggregatesFilter<"EmbeddingMigration"> | Date | string | null
+  completedAt?: Prisma.DateTimeNullableWithAggregatesFilter<"EmbeddingMigration"> | Date | string | null
+  cutoverAt?: Prisma.DateTimeNullableWithAggregatesFilter<"EmbeddingMigration"> | Date | string | null
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"EmbeddingMigration"> | Date | string
+  updatedAt?: Prisma.DateTimeWithAggregatesFilter<"EmbeddingMigration"> | Date | string
+}
+
+export type EmbeddingMigrationCreateInput = {
+  id?: string
+  targetModel: string
+  status?: $Enums.EmbeddingMigrationStatus
+  totalChunks?: number
+  processedChunks?: number
+  error?: string | null
+  startedAt?: Date | string | null
+  completedAt?: Date | string | null
+  cutoverAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  tenant: Prisma.TenantCreateNestedOneWithoutEmbeddingMigrationsInput
+}
+
+export type EmbeddingMigrationUncheckedCreateInput = {
+  id?: string
+  tenantId: string
+  targetModel: string
+  status?: $Enums.EmbeddingMigrationStatus
+  totalChunks?: number
+  processedChunks?: number
+  error?: string | null
+  startedAt?: Date | string | null
+  completedAt?: Date | string | null
+  cutoverAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type EmbeddingMigrationUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  targetModel?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumEmbeddingMigrationStatusFieldUpdateOperationsInput | $Enums.EmbeddingMigrationStatus
+  totalChunks?: Prisma.IntFieldUpdateOperationsInput | number
+  processedChunks?: Prisma.IntFieldUpdateOperationsInput | number
+  error?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  completedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  cutoverAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  tenant?: Prisma.TenantUpdateOneRequiredWithoutEmbeddingMigrationsNestedInput
+}
+
+export type EmbeddingMigrationUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  tenantId?: Prisma.StringFieldUpdateOperationsInput | string
+  targetModel?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumEmbeddingMigrationStatusFieldUpdateOperationsInput | $Enums.EmbeddingMigrationStatus
+  totalChunks?: Prisma.IntFieldUpdateOperationsInput | number
+  processedChunks?: Prisma.IntFieldUpdateOperationsInput | number
+  error?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  completedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  cutoverAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type EmbeddingMigrationCreateManyInput = {
+  id?: string
+  tenantId: string
+  targetModel: string
+  status?: $Enums.EmbeddingMigrationStatus
+  totalChunks?: number
+  processedChunks?: number
+  error?: string | null
+  startedAt?: Date | string | null
+  completedAt?: Date | string | null
+  cutoverAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type EmbeddingMigrationUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  targetModel?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumEmbeddingMigrationStatusFieldUpdateOperationsInput | $Enums.EmbeddingMigrationStatus
+  totalChunks?: Prisma.IntFieldUpdateOperationsInput | number
+  processedChunks?: Prisma.IntFieldUpdateOperationsInput | number
+  error?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  completedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  cutoverAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type EmbeddingMigrationUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  tenantId?: Prisma.StringFieldUpdateOperationsInput | string
+  targetModel?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumEmbeddingMigrationStatusFieldUpdateOperationsInput | $Enums.EmbeddingMigrationStatus
+  totalChunks?: Prisma.IntFieldUpdateOperationsInput | number
+  processedChunks?: Prisma.IntFieldUpdateOperationsInput | number
+  error?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  completedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  cutoverAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type EmbeddingMigrationListRelationFilter = {
+  every?: Prisma.EmbeddingMigrationWhereInput
+  some?: Prisma.EmbeddingMigrationWhereInput
+  none?: Prisma.EmbeddingMigrationWhereInput
+}
+
+export type EmbeddingMigrationOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type EmbeddingMigrationCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  tenantId?: Prisma.SortOrder
+  targetModel?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  totalChunks?: Prisma.SortOrder
+  processedChunks?: Prisma.SortOrder
+  error?: Prisma.SortOrder
+  startedAt?: Prisma.SortOrder
+  completedAt?: Prisma.SortOrder
+  cutoverAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type EmbeddingMigrationAvgOrderByAggregateInput = {
+  totalChunks?: Prisma.SortOrder
+  processedChunks?: Prisma.SortOrder
+}
+
+export type EmbeddingMigrationMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  tenantId?: Prisma.SortOrder
+  targetModel?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  totalChunks?: Prisma.SortOrder
+  processedChunks?: Prisma.SortOrder
+  error?: Prisma.SortOrder
+  startedAt?: Prisma.SortOrder
+  completedAt?: Prisma.SortOrder
+  cutoverAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type EmbeddingMigrationMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  tenantId?: Prisma.SortOrder
+  targetModel?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  totalChunks?: Prisma.SortOrder
+  processedChunks?: Prisma.SortOrder
+  error?: Prisma.SortOrder
+  startedAt?: Prisma.SortOrder
+  completedAt?: Prisma.SortOrder
+  cutoverAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type EmbeddingMigrationSumOrderByAggregateInput = {
+  totalChunks?: Prisma.SortOrder
+  processedChunks?: Prisma.SortOrder
+}
+
+export type EmbeddingMigrationCreateNestedManyWithoutTenantInput = {
+  create?: Prisma.XOR<Prisma.EmbeddingMigrationCreateWithoutTenantInput, Prisma.EmbeddingMigrationUncheckedCreateWithoutTenantInput> | Prisma.EmbeddingMigrationCreateWithoutTenantInput[] | Prisma.EmbeddingMigrationUncheckedCreateWithoutTenantInput[]
+  connectOrCreate?: Prisma.EmbeddingMigrationCreateOrConnectWithoutTenantInput | Prisma.EmbeddingMigrationCreateOrConnectWithoutTenantInput[]
+  createMany?: Prisma.EmbeddingMigrationCreateManyTenantInputEnvelope
+  connect?: Prisma.EmbeddingMigrationWhereUniqueInput | Prisma.EmbeddingMigrationWhereUniqueInput[]
+}
+
+export type EmbeddingMigrationUncheckedCreateNestedManyWithoutTenantInput = {
+  create?: Prisma.XOR<Prisma.EmbeddingMigrationCreateWithoutTenantInput, Prisma.EmbeddingMigrationUncheckedCreateWithoutTenantInput> | Prisma.EmbeddingMigrationCreateWithoutTenantInput[] | Prisma.EmbeddingMigrationUncheckedCreateWithoutTenantInput[]
+  connectOrCreate?: Prisma.EmbeddingMigrationCreateOrConnectWithoutTenantInput | Prisma.EmbeddingMigrationCreateOrConnectWithoutTenantInput[]
+  createMany?: Prisma.EmbeddingMigrationCreateManyTenantInputEnvelope
+  connect?: Prisma.EmbeddingMigrationWhereUniqueInput | Prisma.EmbeddingMigrationWhereUniqueInput[]
+}
+
+export type EmbeddingMigrationUpdateManyWithoutTenantNestedInput = {
+  create?: Prisma.XOR<Prisma.EmbeddingMigrationCreateWithoutTenantInput, Prisma.EmbeddingMigrationUncheckedCreateWithoutTenantInput> | Prisma.EmbeddingMigrationCreateWithoutTenantInput[] | Prisma.EmbeddingMigrationUncheckedCreateWithoutTenantInput[]
+  connectOrCreate?: Prisma.EmbeddingMigrationCreateOrConnectWithoutTenantInput | Prisma.EmbeddingMigrationCreateOrConnectWithoutTenantInput[]
+  upsert?: Prisma.EmbeddingMigrationUpsertWithWhereUniqueWithoutTenantInput | Prisma.EmbeddingMigrationUpsertWithWhereUniqueWithoutTenantInput[]
+  createMany?: Prisma.EmbeddingMigrationCreateManyTenantInputEnvelope
+  set?: Prisma.EmbeddingMigrationWhereUniqueInput | Prisma.EmbeddingMigrationWhereUniqueInput[]
+  disconnect?: Prisma.EmbeddingMigrationWhereUniqueInput | Prisma.EmbeddingMigrationWhereUniqueInput[]
+  delete?: Prisma.EmbeddingMigrationWhereUniqueInput | Prisma.EmbeddingMigrationWhereUniqueInput[]
+  connect?: Prisma.EmbeddingMigrationWhereUniqueInput | Prisma.EmbeddingMigrationWhereUniqueInput[]
+  update?: Prisma.EmbeddingMigrationUpdateWithWhereUniqueWithoutTenantInput | Prisma.EmbeddingMigrationUpdateWithWhereUniqueWithoutTenantInput[]
+  updateMany?: Prisma.EmbeddingMigrationUpdateManyWithWhereWithoutTenantInput | Prisma.EmbeddingMigrationUpdateManyWithWhereWithoutTenantInput[]
+  deleteMany?: Prisma.EmbeddingMigrationScalarWhereInput | Prisma.EmbeddingMigrationScalarWhereInput[]
+}
+
+export type EmbeddingMigrationUncheckedUpdateManyWithoutTenantNestedInput = {
+  create?: Prisma.XOR<Prisma.EmbeddingMigrationCreateWithoutTenantInput, Prisma.EmbeddingMigrationUncheckedCreateWithoutTenantInput> | Prisma.EmbeddingMigrationCreateWithoutTenantInput[] | Prisma.EmbeddingMigrationUncheckedCreateWithoutTenantInput[]
+  connectOrCreate?: Prisma.EmbeddingMigrationCreateOrConnectWithoutTenantInput | Prisma.EmbeddingMigrationCreateOrConnectWithoutTenantInput[]
+  upsert?: Prisma.EmbeddingMigrationUpsertWithWhereUniqueWithoutTenantInput | Prisma.EmbeddingMigrationUpsertWithWhereUniqueWithoutTenantInput[]
+  createMany?: Prisma.EmbeddingMigrationCreateManyTenantInputEnvelope
+  set?: Prisma.EmbeddingMigrationWhereUniqueInput | Prisma.EmbeddingMigrationWhereUniqueInput[]
+  disconnect?: Prisma.EmbeddingMigrationWhereUniqueInput | Prisma.EmbeddingMigrationWhereUniqueInput[]
+  delete?: Prisma.EmbeddingMigrationWhereUniqueInput | Prisma.EmbeddingMigrationWhereUniqueInput[]
+  connect?: Prisma.EmbeddingMigrationWhereUniqueInput | Prisma.EmbeddingMigrationWhereUniqueInput[]
+  update?: Prisma.EmbeddingMigrationUpdateWithWhereUniqueWithoutTenantInput | Prisma.EmbeddingMigrationUpdateWithWhereUniqueWithoutTenantInput[]
+  updateMany?: Prisma.EmbeddingMigrationUpdateManyWithWhereWithoutTenantInput | Prisma.EmbeddingMigrationUpdateManyWithWhereWithoutTenantInput[]
+  deleteMany?: Prisma.EmbeddingMigrationScalarWhereInput | Prisma.EmbeddingMigrationScalarWhereInput[]
+}
+
+export type EnumEmbeddingMigrationStatusFieldUpdateOperationsInput = {
+  set?: $Enums.EmbeddingMigrationStatus
+}
+
+export type EmbeddingMigrationCreateWithoutTenantInput = {
+  id?: string
+  targetModel: string
+  status?: $Enums.EmbeddingMigrationStatus
+  totalChunks?: number
+  processedChunks?: number
+  error?: string | null
+  startedAt?: Date | string | null
+  completedAt?: Date | string | null
+  cutoverAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type EmbeddingMigrationUncheckedCreateWithoutTenantInput = {
+  id?: string
+  targetModel: string
+  status?: $Enums.EmbeddingMigrationStatus
+  totalChunks?: number
+  processedChunks?: number
+  error?: string | null
+  startedAt?: Date | string | null
+  completedAt?: Date | string | null
+  cutoverAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type EmbeddingMigrationCreateOrConnectWithoutTenantInput = {
+  where: Prisma.EmbeddingMigrationWhereUniqueInput
+  create: Prisma.XOR<Prisma.EmbeddingMigrationCreateWithoutTenantInput, Prisma.EmbeddingMigrationUncheckedCreateWithoutTenantInput>
+}
+
+export type EmbeddingMigrationCreateManyTenantInputEnvelope = {
+  data: Prisma.EmbeddingMigrationCreateManyTenantInput | Prisma.EmbeddingMigrationCreateManyTenantInput[]
+  skipDuplicates?: boolean
+}
+
+export type EmbeddingMigrationUpsertWithWhereUniqueWithoutTenantInput = {
+  where: Prisma.EmbeddingMigrationWhereUniqueInput
+  update: Prisma.XOR<Prisma.EmbeddingMigrationUpdateWithoutTenantInput, Prisma.EmbeddingMigrationUncheckedUpdateWithoutTenantInput>
+  create: Prisma.XOR<Prisma.EmbeddingMigrationCreateWithoutTenantInput, Prisma.EmbeddingMigrationUncheckedCreateWithoutTenantInput>
+}
+
+export type EmbeddingMigrationUpdateWithWhereUniqueWithoutTenantInput = {
+  where: Prisma.EmbeddingMigrationWhereUniqueInput
+  data: Prisma.XOR<Prisma.EmbeddingMigrationUpdateWithoutTenantInput, Prisma.EmbeddingMigrationUncheckedUpdateWithoutTenantInput>
+}
+
+export type EmbeddingMigrationUpdateManyWithWhereWithoutTenantInput = {
+  where: Prisma.EmbeddingMigrationScalarWhereInput
+  data: Prisma.XOR<Prisma.EmbeddingMigrationUpdateManyMutationInput, Prisma.EmbeddingMigrationUncheckedUpdateManyWithoutTenantInput>
+}
+
+export type EmbeddingMigrationScalarWhereInput = {
+  AND?: Prisma.EmbeddingMigrationScalarWhereInput | Prisma.EmbeddingMigrationScalarWhereInput[]
+  OR?: Prisma.EmbeddingMigrationScalarWhereInput[]
+  NOT?: Prisma.EmbeddingMigrationScalarWhereInput | Prisma.EmbeddingMigrationScalarWhereInput[]
+  id?: Prisma.StringFilter<"EmbeddingMigration"> | string
+  tenantId?: Prisma.StringFilter<"EmbeddingMigration"> | string
+  targetModel?: Prisma.StringFilter<"EmbeddingMigration"> | string
+  status?: Prisma.EnumEmbeddingMigrationStatusFilter<"EmbeddingMigration"> | $Enums.EmbeddingMigrationStatus
+  totalChunks?: Prisma.IntFilter<"EmbeddingMigration"> | number
+  processedChunks?: Prisma.IntFilter<"EmbeddingMigration"> | number
+  error?: Prisma.StringNullableFilter<"EmbeddingMigration"> | string | null
+  startedAt?: Prisma.DateTimeNullableFilter<"EmbeddingMigration"> | Date | string | null
+  completedAt?: Prisma.DateTimeNullableFilter<"EmbeddingMigration"> | Date | string | null
+  cutoverAt?: Prisma.DateTimeNullableFilter<"EmbeddingMigration"> | Date | string | null
+  createdAt?: Prisma.DateTimeFilter<"EmbeddingMigration"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"EmbeddingMigration"> | Date | string
+}
+
+export type EmbeddingMigrationCreateManyTenantInput = {
+  id?: string
+  targetModel: string
+  status?: $Enums.EmbeddingMigrationStatus
+  totalChunks?: number
+  processedChunks?: number
+  error?: string | null
+  startedAt?: Date | string | null
+  completedAt?: Date | string | null
+  cutoverAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type EmbeddingMigrationUpdateWithoutTenantInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  targetModel?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumEmbeddingMigrationStatusFieldUpdateOperationsInput | $Enums.EmbeddingMigrationStatus
+  totalChunks?: Prisma.IntFieldUpdateOperationsInput | number
+  processedChunks?: Prisma.IntFieldUpdateOperationsInput | number
+  error?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  completedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  cutoverAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type EmbeddingMigrationUncheckedUpdateWithoutTenantInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  targetModel?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumEmbeddingMigrationStatusFieldUpdateOperationsInput | $Enums.EmbeddingMigrationStatus
+  totalChunks?: Prisma.IntFieldUpdateOperationsInput | number
+  processedChunks?: Prisma.IntFieldUpdateOperationsInput | number
+  error?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  completedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  cutoverAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type EmbeddingMigrationUncheckedUpdateManyWithoutTenantInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  targetModel?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumEmbeddingMigrationStatusFieldUpdateOperationsInput | $Enums.EmbeddingMigrationStatus
+  totalChunks?: Prisma.IntFieldUpdateOperationsInput | number
+  processedChunks?: Prisma.IntFieldUpdateOperationsInput | number
+  error?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  completedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  cutoverAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type EmbeddingMigrationSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  tenantId?: boolean
+  targetModel?: boolean
+  status?: boolean
+  totalChunks?: boolean
+  processedChunks?: boolean
+  error?: boolean
+  startedAt?: boolean
+  completedAt?: boolean
+  cutoverAt?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  tenant?: boolean | Prisma.TenantDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["embeddingMigration"]>
+
+export type EmbeddingMigrationSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  tenantId?: boolean
+  targetModel?: boolean
+  status?: boolean
+  totalChunks?: boolean
+  processedChunks?: boolean
+  error?: boolean
+  startedAt?: boolean
+  completedAt?: boolean
+  cutoverAt?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  tenant?: boolean | Prisma.TenantDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["embeddingMigration"]>
+
+export type EmbeddingMigrationSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  tenantId?: boolean
+  targetModel?: boolean
+  status?: boolean
+  totalChunks?: boolean
+  processedChunks?: boolean
+  error?: boolean
+  startedAt?: boolean
+  completedAt?: boolean
+  cutoverAt?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  tenant?: boolean | Prisma.TenantDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["embeddingMigration"]>
+
+export type EmbeddingMigrationSelectScalar = {
+  id?: boolean
+  tenantId?: boolean
+  targetModel?: boolean
+  status?: boolean
+  totalChunks?: boolean
+  processedChunks?: boolean
+  error?: boolean
+  startedAt?: boolean
+  completedAt?: boolean
+  cutoverAt?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}
+
+export type EmbeddingMigrationOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "tenantId" | "targetModel" | "status" | "totalChunks" | "processedChunks" | "error" | "startedAt" | "completedAt" | "cutoverAt" | "createdAt" | "updatedAt", ExtArgs["result"]["embeddingMigration"]>
+export type EmbeddingMigrationInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  tenant?: boolean | Prisma.TenantDefaultArgs<ExtArgs>
+}
+export type EmbeddingMigrationIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  tenant?: boolean | Prisma.TenantDefaultArgs<ExtArgs>
+}
+export type EmbeddingMigrationIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  tenant?: boolean | Prisma.TenantDefaultArgs<ExtArgs>
+}
+
+export type $EmbeddingMigrationPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "EmbeddingMigration"
+  objects: {
+    tenant: Prisma.$TenantPayload<ExtArgs>
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    tenantId: string
+    targetModel: string
+    status: $Enums.EmbeddingMigrationStatus
+    totalChunks: number
+    processedChunks: number
+    error: string | null
+    startedAt: Date | null
+    completedAt: Date | null
+    cutoverAt: Date | null
+    createdAt: Date
+    updatedAt: Date
+  }, ExtArgs["result"]["embeddingMigration"]>
+  composites: {}
+}
+
+export type EmbeddingMigrationGetPayload<S extends boolean | null | undefined | EmbeddingMigrationDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$EmbeddingMigrationPayload, S>
+
+export type EmbeddingMigrationCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<EmbeddingMigrationFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: EmbeddingMigrationCountAggregateInputType | true
+  }
+
+export interface EmbeddingMigrationDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['EmbeddingMigration'], meta: { name: 'EmbeddingMigration' } }
+  /**
+   * Find zero or one EmbeddingMigration that matches the filter.
+   * @param {EmbeddingMigrationFindUniqueArgs} args - Arguments to find a EmbeddingMigration
+   * @example
+   * // Get one EmbeddingMigration
+   * const embeddingMigration = await prisma.embeddingMigration.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends EmbeddingMigrationFindUniqueArgs>(args: Prisma.SelectSubset<T, EmbeddingMigrationFindUniqueArgs<ExtArgs>>): Prisma.Prisma__EmbeddingMigrationClient<runtime.Types.Result.GetResult<Prisma.$EmbeddingMigrationPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one EmbeddingMigration that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {EmbeddingMigrationFindUniqueOrThrowArgs} args - Arguments to find a EmbeddingMigration
+   * @example
+   * // Get one EmbeddingMigration
+   * const embeddingMigration = await prisma.embeddingMigration.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends EmbeddingMigrationFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, EmbeddingMigrationFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__EmbeddingMigrationClient<runtime.Types.Result.GetResult<Prisma.$EmbeddingMigrationPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first EmbeddingMigration that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {EmbeddingMigrationFindFirstArgs} args - Arguments to find a EmbeddingMigration
+   * @example
+   * // Get one EmbeddingMigration
+   * const embeddingMigration = await prisma.embeddingMigration.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends EmbeddingMigrationFindFirstArgs>(args?: Prisma.SelectSubset<T, EmbeddingMigrationFindFirstArgs<ExtArgs>>): Prisma.Prisma__EmbeddingMigrationClient<runtime.Types.Result.GetResult<Prisma.$EmbeddingMigrationPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first EmbeddingMigration that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {EmbeddingMigrationFindFirstOrThrowArgs} args - Arguments to find a EmbeddingMigration
+   * @example
+   * // Get one EmbeddingMigration
+   * const embeddingMigration = await prisma.embeddingMigration.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends EmbeddingMigrationFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, EmbeddingMigrationFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__EmbeddingMigrationClient<runtime.Types.Result.GetResult<Prisma.$EmbeddingMigrationPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more EmbeddingMigrations that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {EmbeddingMigrationFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all EmbeddingMigrations
+   * const embeddingMigrations = await prisma.embeddingMigration.findMany()
+   * 
+   * // Get first 10 EmbeddingMigrations
+   * const embeddingMigrations = await prisma.embeddingMigration.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const embeddingMigrationWithIdOnly = await prisma.embeddingMigration.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends EmbeddingMigrationFindManyArgs>(args?: Prisma.SelectSubset<T, EmbeddingMigrationFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$EmbeddingMigrationPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a EmbeddingMigration.
+   * @param {EmbeddingMigrationCreateArgs} args - Arguments to create a EmbeddingMigration.
+   * @example
+   * // Create one EmbeddingMigration
+   * const EmbeddingMigration = await prisma.embeddingMigration.create({
+   *   data: {
+   *     // ... data to create a EmbeddingMigration
+   *   }
+   * })
+   * 
+   */
+  create<T extends EmbeddingMigrationCreateArgs>(args: Prisma.SelectSubset<T, EmbeddingMigrationCreateArgs<ExtArgs>>): Prisma.Prisma__EmbeddingMigrationClient<runtime.Types.Result.GetResult<Prisma.$EmbeddingMigrationPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many EmbeddingMigrations.
+   * @param {EmbeddingMigrationCreateManyArgs} args - Arguments to create many EmbeddingMigrations.
+   * @example
+   * // Create many EmbeddingMigrations
+   * const embeddingMigration = await prisma.embeddingMigration.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends EmbeddingMigrationCreateManyArgs>(args?: Prisma.SelectSubset<T, EmbeddingMigrationCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many EmbeddingMigrations and returns the data saved in the database.
+   * @param {EmbeddingMigrationCreateManyAndReturnArgs} args - Arguments to create many EmbeddingMigrations.
+   * @example
+   * // Create many EmbeddingMigrations
+   * const embeddingMigration = await prisma.embeddingMigration.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many EmbeddingMigrations and only return the `id`
+   * const embeddingMigrationWithIdOnly = await prisma.embeddingMigration.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends EmbeddingMigrationCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, EmbeddingMigrationCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$EmbeddingMigrationPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a EmbeddingMigration.
+   * @param {EmbeddingMigrationDeleteArgs} args - Arguments to delete one EmbeddingMigration.
+   * @example
+   * // Delete one EmbeddingMigration
+   * const EmbeddingMigration = await prisma.embeddingMigration.delete({
+   *   where: {
+   *     // ... filter to delete one EmbeddingMigration
+   *   }
+   * })
+   * 
+   */
+  delete<T extends EmbeddingMigrationDeleteArgs>(args: Prisma.SelectSubset<T, EmbeddingMigrationDeleteArgs<ExtArgs>>): Prisma.Prisma__EmbeddingMigrationClient<runtime.Types.Result.GetResult<Prisma.$EmbeddingMigrationPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one EmbeddingMigration.
+   * @param {EmbeddingMigrationUpdateArgs} args - Arguments to update one EmbeddingMigration.
+   * @example
+   * // Update one EmbeddingMigration
+   * const embeddingMigration = await prisma.embeddingMigration.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends EmbeddingMigrationUpdateArgs>(args: Prisma.SelectSubset<T, EmbeddingMigrationUpdateArgs<ExtArgs>>): Prisma.Prisma__EmbeddingMigrationClient<runtime.Types.Result.GetResult<Prisma.$EmbeddingMigrationPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more EmbeddingMigrations.
+   * @param {EmbeddingMigrationDeleteManyArgs} args - Arguments to filter EmbeddingMigrations to delete.
+   * @example
+   * // Delete a few EmbeddingMigrations
+   * const { count } = await prisma.embeddingMigration.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends EmbeddingMigrationDeleteManyArgs>(args?: Prisma.SelectSubset<T, EmbeddingMigrationDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more EmbeddingMigrations.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {EmbeddingMigrationUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many EmbeddingMigrations
+   * const embeddingMigration = await prisma.embeddingMigration.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends EmbeddingMigrationUpdateManyArgs>(args: Prisma.SelectSubset<T, EmbeddingMigrationUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more EmbeddingMigrations and returns the data updated in the database.
+   * @param {EmbeddingMigrationUpdateManyAndReturnArgs} args - Arguments to update many EmbeddingMigrations.
+   * @example
+   * // Update many EmbeddingMigrations
+   * const embeddingMigration = await prisma.embeddingMigration.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more EmbeddingMigrations and only return the `id`
+   * const embeddingMigrationWithIdOnly = await prisma.embeddingMigration.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends EmbeddingMigrationUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, EmbeddingMigrationUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$EmbeddingMigrationPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one EmbeddingMigration.
+   * @param {EmbeddingMigrationUpsertArgs} args - Arguments to update or create a EmbeddingMigration.
+   * @example
+   * // Update or create a EmbeddingMigration
+   * const embeddingMigration = await prisma.embeddingMigration.upsert({
+   *   create: {
+   *     // ... data to create a EmbeddingMigration
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the EmbeddingMigration we want to update
+   *   }
+   * })
+   */
+  upsert<T extends EmbeddingMigrationUpsertArgs>(args: Prisma.SelectSubset<T, EmbeddingMigrationUpsertArgs<ExtArgs>>): Prisma.Prisma__EmbeddingMigrationClient<runtime.Types.Result.GetResult<Prisma.$EmbeddingMigrationPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of EmbeddingMigrations.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {EmbeddingMigrationCountArgs} args - Arguments to filter EmbeddingMigrations to count.
+   * @example
+   * // Count the number of EmbeddingMigrations
+   * const count = await prisma.embeddingMigration.count({
+   *   where: {
+   *     // ... the filter for the EmbeddingMigrations we want to count
+   *   }
+   * })
+  **/
+  count<T extends EmbeddingMigrationCountArgs>(
+    args?: Prisma.Subset<T, EmbeddingMigrationCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], EmbeddingMigrationCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a EmbeddingMigration.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {EmbeddingMigrationAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends EmbeddingMigrationAggregateArgs>(args: Prisma.Subset<T, EmbeddingMigrationAggregateArgs>): Prisma.PrismaPromise<GetEmbeddingMigrationAggregateType<T>>
+
+  /**
+   * Group by EmbeddingMigration.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {EmbeddingMigrationGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends EmbeddingMigrationGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: EmbeddingMigrationGroupByArgs['orderBy'] }
+      : { orderBy?: EmbeddingMigrationGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, EmbeddingMigrationGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetEmbeddingMigrationGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the EmbeddingMigration model
+ */
+readonly fields: EmbeddingMigrationFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for EmbeddingMigration.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__EmbeddingMigrationClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  tenant<T extends Prisma.TenantDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.TenantDefaultArgs<ExtArgs>>): Prisma.Prisma__TenantClient<runtime.Types.Result.GetResult<Prisma.$TenantPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the EmbeddingMigration model
+ */
+export interface EmbeddingMigrationFieldRefs {
+  readonly id: Prisma.FieldRef<"EmbeddingMigration", 'String'>
+  readonly tenantId: Prisma.FieldRef<"EmbeddingMigration", 'String'>
+  readonly targetModel: Prisma.FieldRef<"EmbeddingMigration", 'String'>
+  readonly status: Prisma.FieldRef<"EmbeddingMigration", 'EmbeddingMigrationStatus'>
+  readonly totalChunks: Prisma.FieldRef<"EmbeddingMigration", 'Int'>
+  readonly processedChunks: Prisma.FieldRef<"EmbeddingMigration", 'Int'>
+  readonly error: Prisma.FieldRef<"EmbeddingMigration", 'String'>
+  readonly startedAt: Prisma.FieldRef<"EmbeddingMigration", 'DateTime'>
+  readonly completedAt: Prisma.FieldRef<"EmbeddingMigration", 'DateTime'>
+  readonly cutoverAt: Prisma.FieldRef<"EmbeddingMigration", 'DateTime'>
+  readonly createdAt: Prisma.FieldRef<"EmbeddingMigration", 'DateTime'>
+  readonly updatedAt: Prisma.FieldRef<"EmbeddingMigration", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * EmbeddingMigration findUnique
+ */
+export type EmbeddingMigrationFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the EmbeddingMigration
+   */
+  select?: Prisma.EmbeddingMigrationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the EmbeddingMigration
+   */
+  omit?: Prisma.EmbeddingMigrationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.EmbeddingMigrationInclude<ExtArgs> | null
+  /**
+   * Filter, which EmbeddingMigration to fetch.
+   */
+  where: Prisma.EmbeddingMigrationWhereUniqueInput
+}
+
+/**
+ * EmbeddingMigration findUniqueOrThrow
+ */
+export type EmbeddingMigrationFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the EmbeddingMigration
+   */
+  select?: Prisma.EmbeddingMigrationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the EmbeddingMigration
+   */
+  omit?: Prisma.EmbeddingMigrationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.EmbeddingMigrationInclude<ExtArgs> | null
+  /**
+   * Filter, which EmbeddingMigration to fetch.
+   */
+  where: Prisma.EmbeddingMigrationWhereUniqueInput
+}
+
+/**
+ * EmbeddingMigration findFirst
+ */
+export type EmbeddingMigrationFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the EmbeddingMigration
+   */
+  select?: Prisma.EmbeddingMigrationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the EmbeddingMigration
+   */
+  omit?: Prisma.EmbeddingMigrationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.EmbeddingMigrationInclude<ExtArgs> | null
+  /**
+   * Filter, which EmbeddingMigration to fetch.
+   */
+  where?: Prisma.EmbeddingMigrationWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of EmbeddingMigrations to fetch.
+   */
+  orderBy?: Prisma.EmbeddingMigrationOrderByWithRelationInput | Prisma.EmbeddingMigrationOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for EmbeddingMigrations.
+   */
+  cursor?: Prisma.EmbeddingMigrationWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` EmbeddingMigrations from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` EmbeddingMigrations.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of EmbeddingMigrations.
+   */
+  distinct?: Prisma.EmbeddingMigrationScalarFieldEnum | Prisma.EmbeddingMigrationScalarFieldEnum[]
+}
+
+/**
+ * EmbeddingMigration findFirstOrThrow
+ */
+export type EmbeddingMigrationFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the EmbeddingMigration
+   */
+  select?: Prisma.EmbeddingMigrationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the EmbeddingMigration
+   */
+  omit?: Prisma.EmbeddingMigrationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.EmbeddingMigrationInclude<ExtArgs> | null
+  /**
+   * Filter, which EmbeddingMigration to fetch.
+   */
+  where?: Prisma.EmbeddingMigrationWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of EmbeddingMigrations to fetch.
+   */
+  orderBy?: Prisma.EmbeddingMigrationOrderByWithRelationInput | Prisma.EmbeddingMigrationOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for EmbeddingMigrations.
+   */
+  cursor?: Prisma.EmbeddingMigrationWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` EmbeddingMigrations from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` EmbeddingMigrations.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of EmbeddingMigrations.
+   */
+  distinct?: Prisma.EmbeddingMigrationScalarFieldEnum | Prisma.EmbeddingMigrationScalarFieldEnum[]
+}
+
+/**
+ * EmbeddingMigration findMany
+ */
+export type EmbeddingMigrationFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the EmbeddingMigration
+   */
+  select?: Prisma.EmbeddingMigrationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the EmbeddingMigration
+   */
+  omit?: Prisma.EmbeddingMigrationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.EmbeddingMigrationInclude<ExtArgs> | null
+  /**
+   * Filter, which EmbeddingMigrations to fetch.
+   */
+  where?: Prisma.EmbeddingMigrationWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of EmbeddingMigrations to fetch.
+   */
+  orderBy?: Prisma.EmbeddingMigrationOrderByWithRelationInput | Prisma.EmbeddingMigrationOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing EmbeddingMigrations.
+   */
+  cursor?: Prisma.EmbeddingMigrationWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` EmbeddingMigrations from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` EmbeddingMigrations.
+   */
+  skip?: number
+  distinct?: Prisma.EmbeddingMigrationScalarFieldEnum | Prisma.EmbeddingMigrationScalarFieldEnum[]
+}
+
+/**
+ * EmbeddingMigration create
+ */
+export type EmbeddingMigrationCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the EmbeddingMigration
+   */
+  select?: Prisma.EmbeddingMigrationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the EmbeddingMigration
+   */
+  omit?: Prisma.EmbeddingMigrationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.EmbeddingMigrationInclude<ExtArgs> | null
+  /**
+   * The data needed to create a EmbeddingMigration.
+   */
+  data: Prisma.XOR<Prisma.EmbeddingMigrationCreateInput, Prisma.EmbeddingMigrationUncheckedCreateInput>
+}
+
+/**
+ * EmbeddingMigration createMany
+ */
+export type EmbeddingMigrationCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many EmbeddingMigrations.
+   */
+  data: Prisma.EmbeddingMigrationCreateManyInput | Prisma.EmbeddingMigrationCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * EmbeddingMigration createManyAndReturn
+ */
+export type EmbeddingMigrationCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the EmbeddingMigration
+   */
+  select?: Prisma.EmbeddingMigrationSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the EmbeddingMigration
+   */
+  omit?: Prisma.EmbeddingMigrationOmit<ExtArgs> | null
+  /**
+   * The data used to create many EmbeddingMigrations.
+   */
+  data: Prisma.EmbeddingMigrationCreateManyInput | Prisma.EmbeddingMigrationCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.EmbeddingMigrationIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * EmbeddingMigration update
+ */
+export type EmbeddingMigrationUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the EmbeddingMigration
+   */
+  select?: Prisma.EmbeddingMigrationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the EmbeddingMigration
+   */
+  omit?: Prisma.EmbeddingMigrationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.EmbeddingMigrationInclude<ExtArgs> | null
+  /**
+   * The data needed to update a EmbeddingMigration.
+   */
+  data: Prisma.XOR<Prisma.EmbeddingMigrationUpdateInput, Prisma.EmbeddingMigrationUncheckedUpdateInput>
+  /**
+   * Choose, which EmbeddingMigration to update.
+   */
+  where: Prisma.EmbeddingMigrationWhereUniqueInput
+}
+
+/**
+ * EmbeddingMigration updateMany
+ */
+export type EmbeddingMigrationUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update EmbeddingMigrations.
+   */
+  data: Prisma.XOR<Prisma.EmbeddingMigrationUpdateManyMutationInput, Prisma.EmbeddingMigrationUncheckedUpdateManyInput>
+  /**
+   * Filter which EmbeddingMigrations to update
+   */
+  where?: Prisma.EmbeddingMigrationWhereInput
+  /**
+   * Limit how many EmbeddingMigrations to update.
+   */
+  limit?: number
+}
+
+/**
+ * EmbeddingMigration updateManyAndReturn
+ */
+export type EmbeddingMigrationUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the EmbeddingMigration
+   */
+  select?: Prisma.EmbeddingMigrationSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the EmbeddingMigration
+   */
+  omit?: Prisma.EmbeddingMigrationOmit<ExtArgs> | null
+  /**
+   * The data used to update EmbeddingMigrations.
+   */
+  data: Prisma.XOR<Prisma.EmbeddingMigrationUpdateManyMutationInput, Prisma.EmbeddingMigrationUncheckedUpdateManyInput>
+  /**
+   * Filter which EmbeddingMigrations to update
+   */
+  where?: Prisma.EmbeddingMigrationWhereInput
+  /**
+   * Limit how many EmbeddingMigrations to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.EmbeddingMigrationIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * EmbeddingMigration upsert
+ */
+export type EmbeddingMigrationUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the EmbeddingMigration
+   */
+  select?: Prisma.EmbeddingMigrationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the EmbeddingMigration
+   */
+  omit?: Prisma.EmbeddingMigrationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.EmbeddingMigrationInclude<ExtArgs> | null
+  /**
+   * The filter to search for the EmbeddingMigration to update in case it exists.
+   */
+  where: Prisma.EmbeddingMigrationWhereUniqueInput
+  /**
+   * In case the EmbeddingMigration found by the `where` argument doesn't exist, create a new EmbeddingMigration with this data.
+   */
+  create: Prisma.XOR<Prisma.EmbeddingMigrationCreateInput, Prisma.EmbeddingMigrationUncheckedCreateInput>
+  /**
+   * In case the EmbeddingMigration was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.EmbeddingMigrationUpdateInput, Prisma.EmbeddingMigrationUncheckedUpdateInput>
+}
+
+/**
+ * EmbeddingMigration delete
+ */
+export type EmbeddingMigrationDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the EmbeddingMigration
+   */
+  select?: Prisma.EmbeddingMigrationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the EmbeddingMigration
+   */
+  omit?: Prisma.EmbeddingMigrationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.EmbeddingMigrationInclude<ExtArgs> | null
+  /**
+   * Filter which EmbeddingMigration to delete.
+   */
+  where: Prisma.EmbeddingMigrationWhereUniqueInput
+}
+
+/**
+ * EmbeddingMigration deleteMany
+ */
+export type EmbeddingMigrationDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which EmbeddingMigrations to delete
+   */
+  where?: Prisma.EmbeddingMigrationWhereInput
+  /**
+   * Limit how many EmbeddingMigrations to delete.
+   */
+  limit?: number
+}
+
+/**
+ * EmbeddingMigration without action
+ */
+export type EmbeddingMigrationDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the EmbeddingMigration
+   */
+  select?: Prisma.EmbeddingMigrationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the EmbeddingMigration
+   */
+  omit?: Prisma.EmbeddingMigrationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.EmbeddingMigrationInclude<ExtArgs> | null
+}
@@ -495,10 +495,6 @@ export type EnumJobStatusFieldUpdateOperationsInput = {
   set?: $Enums.JobStatus
 }
 
-export type NullableDateTimeFieldUpdateOperationsInput = {
-  set?: Date | string | null
-}
-
 export type IndexJobCreateWithoutTenantInput = {
   id?: string
   status?: $Enums.JobStatus
@@ -0,0 +1,1443 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `QaMessage` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums.js"
+import type * as Prisma from "../internal/prismaNamespace.js"
+
+/**
+ * Model QaMessage
+ * 
+ */
+export type QaMessageModel = runtime.Types.Result.DefaultSelection<Prisma.$QaMessagePayload>
+
+export type AggregateQaMessage = {
+  _count: QaMessageCountAggregateOutputType | null
+  _min: QaMessageMinAggregateOutputType | null
+  _max: QaMessageMaxAggregateOutputType | null
+}
+
+export type QaMessageMinAggregateOutputType = {
+  id: string | null
+  threadId: string | null
+  role: $Enums.QaMessageRole | null
+  content: string | null
+  retrievalQuery: string | null
+  noContext: boolean | null
+  createdAt: Date | null
+}
+
+export type QaMessageMaxAggregateOutputType = {
+  id: string | null
+  threadId: string | null
+  role: $Enums.QaMessageRole | null
+  content: string | null
+  retrievalQuery: string | null
+  noContext: boolean | null
+  createdAt: Date | null
+}
+
+export type QaMessageCountAggregateOutputType = {
+  id: number
+  threadId: number
+  role: number
+  content: number
+  retrievalQuery: number
+  citations: number
+  noContext: number
+  createdAt: number
+  _all: number
+}
+
+
+export type QaMessageMinAggregateInputType = {
+  id?: true
+  threadId?: true
+  role?: true
+  content?: true
+  retrievalQuery?: true
+  noContext?: true
+  createdAt?: true
+}
+
+export type QaMessageMaxAggregateInputType = {
+  id?: true
+  threadId?: true
+  role?: true
+  content?: true
+  retrievalQuery?: true
+  noContext?: true
+  createdAt?: true
+}
+
+export type QaMessageCountAggregateInputType = {
+  id?: true
+  threadId?: true
+  role?: true
+  content?: true
+  retrievalQuery?: true
+  citations?: true
+  noContext?: true
+  createdAt?: true
+  _all?: true
+}
+
+export type QaMessageAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which QaMessage to aggregate.
+   */
+  where?: Prisma.QaMessageWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of QaMessages to fetch.
+   */
+  orderBy?: Prisma.QaMessageOrderByWithRelationInput | Prisma.QaMessageOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.QaMessageWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` QaMessages from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` QaMessages.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned QaMessages
+  **/
+  _count?: true | QaMessageCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: QaMessageMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: QaMessageMaxAggregateInputType
+}
+
+export type GetQaMessageAggregateType<T extends QaMessageAggregateArgs> = {
+      [P in keyof T & keyof AggregateQaMessage]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateQaMessage[P]>
+    : Prisma.GetScalarType<T[P], AggregateQaMessage[P]>
+}
+
+
+
+
+export type QaMessageGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.QaMessageWhereInput
+  orderBy?: Prisma.QaMessageOrderByWithAggregationInput | Prisma.QaMessageOrderByWithAggregationInput[]
+  by: Prisma.QaMessageScalarFieldEnum[] | Prisma.QaMessageScalarFieldEnum
+  having?: Prisma.QaMessageScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: QaMessageCountAggregateInputType | true
+  _min?: QaMessageMinAggregateInputType
+  _max?: QaMessageMaxAggregateInputType
+}
+
+export type QaMessageGroupByOutputType = {
+  id: string
+  threadId: string
+  role: $Enums.QaMessageRole
+  content: string
+  retrievalQuery: string | null
+  citations: runtime.JsonValue | null
+  noContext: boolean
+  createdAt: Date
+  _count: QaMessageCountAggregateOutputType | null
+  _min: QaMessageMinAggregateOutputType | null
+  _max: QaMessageMaxAggregateOutputType | null
+}
+
+type GetQaMessageGroupByPayload<T extends QaMessageGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<QaMessageGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof QaMessageGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], QaMessageGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], QaMessageGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type QaMessageWhereInput = {
+  AND?: Prisma.QaMessageWhereInput | Prisma.QaMessageWhereInput[]
+  OR?: Prisma.QaMessageWhereInput[]
+  NOT?: Prisma.QaMessageWhereInput | Prisma.QaMessageWhereInput[]
+  id?: Prisma.StringFilter<"QaMessage"> | string
+  threadId?: Prisma.StringFilter<"QaMessage"> | string
+  role?: Prisma.EnumQaMessageRoleFilter<"QaMessage"> | $Enums.QaMessageRole
+  content?: Prisma.StringFilter<"QaMessage"> | string
+  retrievalQuery?: Prisma.StringNullableFilter<"QaMessage"> | string | null
+  citations?: Prisma.JsonNullableFilter<"QaMessage">
+  noContext?: Prisma.BoolFilter<"QaMessage"> | boolean
+  createdAt?: Prisma.DateTimeFilter<"QaMessage"> | Date | string
+  thread?: Prisma.XOR<Prisma.QaThreadScalarRelationFilter, Prisma.QaThreadWhereInput>
+}
+
+export type QaMessageOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  threadId?: Prisma.SortOrder
+  role?: Prisma.SortOrder
+  content?: Prisma.SortOrder
+  retrievalQuery?: Prisma.SortOrderInput | Prisma.SortOrder
+  citations?: Prisma.SortOrderInput | Prisma.SortOrder
+  noContext?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  thread?: Prisma.QaThreadOrderByWithRelationInput
+}
+
+export type QaMessageWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  AND?: Prisma.QaMessageWhereInput | Prisma.QaMessageWhereInput[]
+  OR?: Prisma.QaMessageWhereInput[]
+  NOT?: Prisma.QaMessageWhereInput | Prisma.QaMessageWhereInput[]
+  threadId?: Prisma.StringFilter<"QaMessage"> | string
+  role?: Prisma.EnumQaMessageRoleFilter<"QaMessage"> | $Enums.QaMessageRole
+  content?: Prisma.StringFilter<"QaMessage"> | string
+  retrievalQuery?: Prisma.StringNullableFilter<"QaMessage"> | string | null
+  citations?: Prisma.JsonNullableFilter<"QaMessage">
+  noContext?: Prisma.BoolFilter<"QaMessage"> | boolean
+  createdAt?: Prisma.DateTimeFilter<"QaMessage"> | Date | string
+  thread?: Prisma.XOR<Prisma.QaThreadScalarRelationFilter, Prisma.QaThreadWhereInput>
+}, "id">
+
+export type QaMessageOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  threadId?: Prisma.SortOrder
+  role?: Prisma.SortOrder
+  content?: Prisma.SortOrder
+  retrievalQuery?: Prisma.SortOrderInput | Prisma.SortOrder
+  citations?: Prisma.SortOrderInput | Prisma.SortOrder
+  noContext?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  _count?: Prisma.QaMessageCountOrderByAggregateInput
+  _max?: Prisma.QaMessageMaxOrderByAggregateInput
+  _min?: Prisma.QaMessageMinOrderByAggregateInput
+}
+
+export type QaMessageScalarWhereWithAggregatesInput = {
+  AND?: Prisma.QaMessageScalarWhereWithAggregatesInput | Prisma.QaMessageScalarWhereWithAggregatesInput[]
+  OR?: Prisma.QaMessageScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.QaMessageScalarWhereWithAggregatesInput | Prisma.QaMessageScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"QaMessage"> | string
+  threadId?: Prisma.StringWithAggregatesFilter<"QaMessage"> | string
+  role?: Prisma.EnumQaMessageRoleWithAggregatesFilter<"QaMessage"> | $Enums.QaMessageRole
+  content?: Prisma.StringWithAggregatesFilter<"QaMessage"> | string
+  retrievalQuery?: Prisma.StringNullableWithAggregatesFilter<"QaMessage"> | string | null
+  citations?: Prisma.JsonNullableWithAggregatesFilter<"QaMessage">
+  noContext?: Prisma.BoolWithAggregatesFilter<"QaMessage"> | boolean
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"QaMessage"> | Date | string
+}
+
+export type QaMessageCreateInput = {
+  id?: string
+  role: $Enums.QaMessageRole
+  content: string
+  retrievalQuery?: string | null
+  citations?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  noContext?: boolean
+  createdAt?: Date | string
+  thread: Prisma.QaThreadCreateNestedOneWithoutMessagesInput
+}
+
+export type QaMessageUncheckedCreateInput = {
+  id?: string
+  threadId: string
+  role: $Enums.QaMessageRole
+  content: string
+  retrievalQuery?: string | null
+  citations?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  noContext?: boolean
+  createdAt?: Date | string
+}
+
+export type QaMessageUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  role?: Prisma.EnumQaMessageRoleFieldUpdateOperationsInput | $Enums.QaMessageRole
+  content?: Prisma.StringFieldUpdateOperationsInput | string
+  retrievalQuery?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  citations?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  noContext?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  thread?: Prisma.QaThreadUpdateOneRequiredWithoutMessagesNestedInput
+}
+
+export type QaMessageUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  threadId?: Prisma.StringFieldUpdateOperationsInput | string
+  role?: Prisma.EnumQaMessageRoleFieldUpdateOperationsInput | $Enums.QaMessageRole
+  content?: Prisma.StringFieldUpdateOperationsInput | string
+  retrievalQuery?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  citations?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  noContext?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type QaMessageCreateManyInput = {
+  id?: string
+  threadId: string
+  role: $Enums.QaMessageRole
+  content: string
+  retrievalQuery?: string | null
+  citations?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  noContext?: boolean
+  createdAt?: Date | string
+}
+
+export type QaMessageUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  role?: Prisma.EnumQaMessageRoleFieldUpdateOperationsInput | $Enums.QaMessageRole
+  content?: Prisma.StringFieldUpdateOperationsInput | string
+  retrievalQuery?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  citations?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  noContext?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type QaMessageUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  threadId?: Prisma.StringFieldUpdateOperationsInput | string
+  role?: Prisma.EnumQaMessageRoleFieldUpdateOperationsInput | $Enums.QaMessageRole
+  content?: Prisma.StringFieldUpdateOperationsInput | string
+  retrievalQuery?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  citations?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  noContext?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type QaMessageListRelationFilter = {
+  every?: Prisma.QaMessageWhereInput
+  some?: Prisma.QaMessageWhereInput
+  none?: Prisma.QaMessageWhereInput
+}
+
+export type QaMessageOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type QaMessageCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  threadId?: Prisma.SortOrder
+  role?: Prisma.SortOrder
+  content?: Prisma.SortOrder
+  retrievalQuery?: Prisma.SortOrder
+  citations?: Prisma.SortOrder
+  noContext?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type QaMessageMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  threadId?: Prisma.SortOrder
+  role?: Prisma.SortOrder
+  content?: Prisma.SortOrder
+  retrievalQuery?: Prisma.SortOrder
+  noContext?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type QaMessageMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  threadId?: Prisma.SortOrder
+  role?: Prisma.SortOrder
+  content?: Prisma.SortOrder
+  retrievalQuery?: Prisma.SortOrder
+  noContext?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type QaMessageCreateNestedManyWithoutThreadInput = {
+  create?: Prisma.XOR<Prisma.QaMessageCreateWithoutThreadInput, Prisma.QaMessageUncheckedCreateWithoutThreadInput> | Prisma.QaMessageCreateWithoutThreadInput[] | Prisma.QaMessageUncheckedCreateWithoutThreadInput[]
+  connectOrCreate?: Prisma.QaMessageCreateOrConnectWithoutThreadInput | Prisma.QaMessageCreateOrConnectWithoutThreadInput[]
+  createMany?: Prisma.QaMessageCreateManyThreadInputEnvelope
+  connect?: Prisma.QaMessageWhereUniqueInput | Prisma.QaMessageWhereUniqueInput[]
+}
+
+export type QaMessageUncheckedCreateNestedManyWithoutThreadInput = {
+  create?: Prisma.XOR<Prisma.QaMessageCreateWithoutThreadInput, Prisma.QaMessageUncheckedCreateWithoutThreadInput> | Prisma.QaMessageCreateWithoutThreadInput[] | Prisma.QaMessageUncheckedCreateWithoutThreadInput[]
+  connectOrCreate?: Prisma.QaMessageCreateOrConnectWithoutThreadInput | Prisma.QaMessageCreateOrConnectWithoutThreadInput[]
+  createMany?: Prisma.QaMessageCreateManyThreadInputEnvelope
+  connect?: Prisma.QaMessageWhereUniqueInput | Prisma.QaMessageWhereUniqueInput[]
+}
+
+export type QaMessageUpdateManyWithoutThreadNestedInput = {
+  create?: Prisma.XOR<Prisma.QaMessageCreateWithoutThreadInput, Prisma.QaMessageUncheckedCreateWithoutThreadInput> | Prisma.QaMessageCreateWithoutThreadInput[] | Prisma.QaMessageUncheckedCreateWithoutThreadInput[]
+  connectOrCreate?: Prisma.QaMessageCreateOrConnectWithoutThreadInput | Prisma.QaMessageCreateOrConnectWithoutThreadInput[]
+  upsert?: Prisma.QaMessageUpsertWithWhereUniqueWithoutThreadInput | Prisma.QaMessageUpsertWithWhereUniqueWithoutThreadInput[]
+  createMany?: Prisma.QaMessageCreateManyThreadInputEnvelope
+  set?: Prisma.QaMessageWhereUniqueInput | Prisma.QaMessageWhereUniqueInput[]
+  disconnect?: Prisma.QaMessageWhereUniqueInput | Prisma.QaMessageWhereUniqueInput[]
+  delete?: Prisma.QaMessageWhereUniqueInput | Prisma.QaMessageWhereUniqueInput[]
+  connect?: Prisma.QaMessageWhereUniqueInput | Prisma.QaMessageWhereUniqueInput[]
+  update?: Prisma.QaMessageUpdateWithWhereUniqueWithoutThreadInput | Prisma.QaMessageUpdateWithWhereUniqueWithoutThreadInput[]
+  updateMany?: Prisma.QaMessageUpdateManyWithWhereWithoutThreadInput | Prisma.QaMessageUpdateManyWithWhereWithoutThreadInput[]
+  deleteMany?: Prisma.QaMessageScalarWhereInput | Prisma.QaMessageScalarWhereInput[]
+}
+
+export type QaMessageUncheckedUpdateManyWithoutThreadNestedInput = {
+  create?: Prisma.XOR<Prisma.QaMessageCreateWithoutThreadInput, Prisma.QaMessageUncheckedCreateWithoutThreadInput> | Prisma.QaMessageCreateWithoutThreadInput[] | Prisma.QaMessageUncheckedCreateWithoutThreadInput[]
+  connectOrCreate?: Prisma.QaMessageCreateOrConnectWithoutThreadInput | Prisma.QaMessageCreateOrConnectWithoutThreadInput[]
+  upsert?: Prisma.QaMessageUpsertWithWhereUniqueWithoutThreadInput | Prisma.QaMessageUpsertWithWhereUniqueWithoutThreadInput[]
+  createMany?: Prisma.QaMessageCreateManyThreadInputEnvelope
+  set?: Prisma.QaMessageWhereUniqueInput | Prisma.QaMessageWhereUniqueInput[]
+  disconnect?: Prisma.QaMessageWhereUniqueInput | Prisma.QaMessageWhereUniqueInput[]
+  delete?: Prisma.QaMessageWhereUniqueInput | Prisma.QaMessageWhereUniqueInput[]
+  connect?: Prisma.QaMessageWhereUniqueInput | Prisma.QaMessageWhereUniqueInput[]
+  update?: Prisma.QaMessageUpdateWithWhereUniqueWithoutThreadInput | Prisma.QaMessageUpdateWithWhereUniqueWithoutThreadInput[]
+  updateMany?: Prisma.QaMessageUpdateManyWithWhereWithoutThreadInput | Prisma.QaMessageUpdateManyWithWhereWithoutThreadInput[]
+  deleteMany?: Prisma.QaMessageScalarWhereInput | Prisma.QaMessageScalarWhereInput[]
+}
+
+export type EnumQaMessageRoleFieldUpdateOperationsInput = {
+  set?: $Enums.QaMessageRole
+}
+
+export type QaMessageCreateWithoutThreadInput = {
+  id?: string
+  role: $Enums.QaMessageRole
+  content: string
+  retrievalQuery?: string | null
+  citations?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  noContext?: boolean
+  createdAt?: Date | string
+}
+
+export type QaMessageUncheckedCreateWithoutThreadInput = {
+  id?: string
+  role: $Enums.QaMessageRole
+  content: string
+  retrievalQuery?: string | null
+  citations?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  noContext?: boolean
+  createdAt?: Date | string
+}
+
+export type QaMessageCreateOrConnectWithoutThreadInput = {
+  where: Prisma.QaMessageWhereUniqueInput
+  create: Prisma.XOR<Prisma.QaMessageCreateWithoutThreadInput, Prisma.QaMessageUncheckedCreateWithoutThreadInput>
+}
+
+export type QaMessageCreateManyThreadInputEnvelope = {
+  data: Prisma.QaMessageCreateManyThreadInput | Prisma.QaMessageCreateManyThreadInput[]
+  skipDuplicates?: boolean
+}
+
+export type QaMessageUpsertWithWhereUniqueWithoutThreadInput = {
+  where: Prisma.QaMessageWhereUniqueInput
+  update: Prisma.XOR<Prisma.QaMessageUpdateWithoutThreadInput, Prisma.QaMessageUncheckedUpdateWithoutThreadInput>
+  create: Prisma.XOR<Prisma.QaMessageCreateWithoutThreadInput, Prisma.QaMessageUncheckedCreateWithoutThreadInput>
+}
+
+export type QaMessageUpdateWithWhereUniqueWithoutThreadInput = {
+  where: Prisma.QaMessageWhereUniqueInput
+  data: Prisma.XOR<Prisma.QaMessageUpdateWithoutThreadInput, Prisma.QaMessageUncheckedUpdateWithoutThreadInput>
+}
+
+export type QaMessageUpdateManyWithWhereWithoutThreadInput = {
+  where: Prisma.QaMessageScalarWhereInput
+  data: Prisma.XOR<Prisma.QaMessageUpdateManyMutationInput, Prisma.QaMessageUncheckedUpdateManyWithoutThreadInput>
+}
+
+export type QaMessageScalarWhereInput = {
+  AND?: Prisma.QaMessageScalarWhereInput | Prisma.QaMessageScalarWhereInput[]
+  OR?: Prisma.QaMessageScalarWhereInput[]
+  NOT?: Prisma.QaMessageScalarWhereInput | Prisma.QaMessageScalarWhereInput[]
+  id?: Prisma.StringFilter<"QaMessage"> | string
+  threadId?: Prisma.StringFilter<"QaMessage"> | string
+  role?: Prisma.EnumQaMessageRoleFilter<"QaMessage"> | $Enums.QaMessageRole
+  content?: Prisma.StringFilter<"QaMessage"> | string
+  retrievalQuery?: Prisma.StringNullableFilter<"QaMessage"> | string | null
+  citations?: Prisma.JsonNullableFilter<"QaMessage">
+  noContext?: Prisma.BoolFilter<"QaMessage"> | boolean
+  createdAt?: Prisma.DateTimeFilter<"QaMessage"> | Date | string
+}
+
+export type QaMessageCreateManyThreadInput = {
+  id?: string
+  role: $Enums.QaMessageRole
+  content: string
+  retrievalQuery?: string | null
+  citations?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  noContext?: boolean
+  createdAt?: Date | string
+}
+
+export type QaMessageUpdateWithoutThreadInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  role?: Prisma.EnumQaMessageRoleFieldUpdateOperationsInput | $Enums.QaMessageRole
+  content?: Prisma.StringFieldUpdateOperationsInput | string
+  retrievalQuery?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  citations?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  noContext?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type QaMessageUncheckedUpdateWithoutThreadInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  role?: Prisma.EnumQaMessageRoleFieldUpdateOperationsInput | $Enums.QaMessageRole
+  content?: Prisma.StringFieldUpdateOperationsInput | string
+  retrievalQuery?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  citations?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  noContext?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type QaMessageUncheckedUpdateManyWithoutThreadInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  role?: Prisma.EnumQaMessageRoleFieldUpdateOperationsInput | $Enums.QaMessageRole
+  content?: Prisma.StringFieldUpdateOperationsInput | string
+  retrievalQuery?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  citations?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  noContext?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type QaMessageSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  threadId?: boolean
+  role?: boolean
+  content?: boolean
+  retrievalQuery?: boolean
+  citations?: boolean
+  noContext?: boolean
+  createdAt?: boolean
+  thread?: boolean | Prisma.QaThreadDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["qaMessage"]>
+
+export type QaMessageSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  threadId?: boolean
+  role?: boolean
+  content?: boolean
+  retrievalQuery?: boolean
+  citations?: boolean
+  noContext?: boolean
+  createdAt?: boolean
+  thread?: boolean | Prisma.QaThreadDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["qaMessage"]>
+
+export type QaMessageSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  threadId?: boolean
+  role?: boolean
+  content?: boolean
+  retrievalQuery?: boolean
+  citations?: boolean
+  noContext?: boolean
+  createdAt?: boolean
+  thread?: boolean | Prisma.QaThreadDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["qaMessage"]>
+
+export type QaMessageSelectScalar = {
+  id?: boolean
+  threadId?: boolean
+  role?: boolean
+  content?: boolean
+  retrievalQuery?: boolean
+  citations?: boolean
+  noContext?: boolean
+  createdAt?: boolean
+}
+
+export type QaMessageOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "threadId" | "role" | "content" | "retrievalQuery" | "citations" | "noContext" | "createdAt", ExtArgs["result"]["qaMessage"]>
+export type QaMessageInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  thread?: boolean | Prisma.QaThreadDefaultArgs<ExtArgs>
+}
+export type QaMessageIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  thread?: boolean | Prisma.QaThreadDefaultArgs<ExtArgs>
+}
+export type QaMessageIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  thread?: boolean | Prisma.QaThreadDefaultArgs<ExtArgs>
+}
+
+export type $QaMessagePayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "QaMessage"
+  objects: {
+    thread: Prisma.$QaThreadPayload<ExtArgs>
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    threadId: string
+    role: $Enums.QaMessageRole
+    content: string
+    retrievalQuery: string | null
+    citations: runtime.JsonValue | null
+    noContext: boolean
+    createdAt: Date
+  }, ExtArgs["result"]["qaMessage"]>
+  composites: {}
+}
+
+export type QaMessageGetPayload<S extends boolean | null | undefined | QaMessageDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$QaMessagePayload, S>
+
+export type QaMessageCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<QaMessageFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: QaMessageCountAggregateInputType | true
+  }
+
+export interface QaMessageDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['QaMessage'], meta: { name: 'QaMessage' } }
+  /**
+   * Find zero or one QaMessage that matches the filter.
+   * @param {QaMessageFindUniqueArgs} args - Arguments to find a QaMessage
+   * @example
+   * // Get one QaMessage
+   * const qaMessage = await prisma.qaMessage.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends QaMessageFindUniqueArgs>(args: Prisma.SelectSubset<T, QaMessageFindUniqueArgs<ExtArgs>>): Prisma.Prisma__QaMessageClient<runtime.Types.Result.GetResult<Prisma.$QaMessagePayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one QaMessage that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {QaMessageFindUniqueOrThrowArgs} args - Arguments to find a QaMessage
+   * @example
+   * // Get one QaMessage
+   * const qaMessage = await prisma.qaMessage.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends QaMessageFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, QaMessageFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__QaMessageClient<runtime.Types.Result.GetResult<Prisma.$QaMessagePayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first QaMessage that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {QaMessageFindFirstArgs} args - Arguments to find a QaMessage
+   * @example
+   * // Get one QaMessage
+   * const qaMessage = await prisma.qaMessage.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends QaMessageFindFirstArgs>(args?: Prisma.SelectSubset<T, QaMessageFindFirstArgs<ExtArgs>>): Prisma.Prisma__QaMessageClient<runtime.Types.Result.GetResult<Prisma.$QaMessagePayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first QaMessage that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {QaMessageFindFirstOrThrowArgs} args - Arguments to find a QaMessage
+   * @example
+   * // Get one QaMessage
+   * const qaMessage = await prisma.qaMessage.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends QaMessageFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, QaMessageFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__QaMessageClient<runtime.Types.Result.GetResult<Prisma.$QaMessagePayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more QaMessages that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {QaMessageFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all QaMessages
+   * const qaMessages = await prisma.qaMessage.findMany()
+   * 
+   * // Get first 10 QaMessages
+   * const qaMessages = await prisma.qaMessage.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const qaMessageWithIdOnly = await prisma.qaMessage.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends QaMessageFindManyArgs>(args?: Prisma.SelectSubset<T, QaMessageFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$QaMessagePayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a QaMessage.
+   * @param {QaMessageCreateArgs} args - Arguments to create a QaMessage.
+   * @example
+   * // Create one QaMessage
+   * const QaMessage = await prisma.qaMessage.create({
+   *   data: {
+   *     // ... data to create a QaMessage
+   *   }
+   * })
+   * 
+   */
+  create<T extends QaMessageCreateArgs>(args: Prisma.SelectSubset<T, QaMessageCreateArgs<ExtArgs>>): Prisma.Prisma__QaMessageClient<runtime.Types.Result.GetResult<Prisma.$QaMessagePayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many QaMessages.
+   * @param {QaMessageCreateManyArgs} args - Arguments to create many QaMessages.
+   * @example
+   * // Create many QaMessages
+   * const qaMessage = await prisma.qaMessage.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends QaMessageCreateManyArgs>(args?: Prisma.SelectSubset<T, QaMessageCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many QaMessages and returns the data saved in the database.
+   * @param {QaMessageCreateManyAndReturnArgs} args - Arguments to create many QaMessages.
+   * @example
+   * // Create many QaMessages
+   * const qaMessage = await prisma.qaMessage.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many QaMessages and only return the `id`
+   * const qaMessageWithIdOnly = await prisma.qaMessage.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends QaMessageCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, QaMessageCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$QaMessagePayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a QaMessage.
+   * @param {QaMessageDeleteArgs} args - Arguments to delete one QaMessage.
+   * @example
+   * // Delete one QaMessage
+   * const QaMessage = await prisma.qaMessage.delete({
+   *   where: {
+   *     // ... filter to delete one QaMessage
+   *   }
+   * })
+   * 
+   */
+  delete<T extends QaMessageDeleteArgs>(args: Prisma.SelectSubset<T, QaMessageDeleteArgs<ExtArgs>>): Prisma.Prisma__QaMessageClient<runtime.Types.Result.GetResult<Prisma.$QaMessagePayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one QaMessage.
+   * @param {QaMessageUpdateArgs} args - Arguments to update one QaMessage.
+   * @example
+   * // Update one QaMessage
+   * const qaMessage = await prisma.qaMessage.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends QaMessageUpdateArgs>(args: Prisma.SelectSubset<T, QaMessageUpdateArgs<ExtArgs>>): Prisma.Prisma__QaMessageClient<runtime.Types.Result.GetResult<Prisma.$QaMessagePayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more QaMessages.
+   * @param {QaMessageDeleteManyArgs} args - Arguments to filter QaMessages to delete.
+   * @example
+   * // Delete a few QaMessages
+   * const { count } = await prisma.qaMessage.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends QaMessageDeleteManyArgs>(args?: Prisma.SelectSubset<T, QaMessageDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more QaMessages.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {QaMessageUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many QaMessages
+   * const qaMessage = await prisma.qaMessage.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends QaMessageUpdateManyArgs>(args: Prisma.SelectSubset<T, QaMessageUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more QaMessages and returns the data updated in the database.
+   * @param {QaMessageUpdateManyAndReturnArgs} args - Arguments to update many QaMessages.
+   * @example
+   * // Update many QaMessages
+   * const qaMessage = await prisma.qaMessage.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more QaMessages and only return the `id`
+   * const qaMessageWithIdOnly = await prisma.qaMessage.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends QaMessageUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, QaMessageUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$QaMessagePayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one QaMessage.
+   * @param {QaMessageUpsertArgs} args - Arguments to update or create a QaMessage.
+   * @example
+   * // Update or create a QaMessage
+   * const qaMessage = await prisma.qaMessage.upsert({
+   *   create: {
+   *     // ... data to create a QaMessage
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the QaMessage we want to update
+   *   }
+   * })
+   */
+  upsert<T extends QaMessageUpsertArgs>(args: Prisma.SelectSubset<T, QaMessageUpsertArgs<ExtArgs>>): Prisma.Prisma__QaMessageClient<runtime.Types.Result.GetResult<Prisma.$QaMessagePayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of QaMessages.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {QaMessageCountArgs} args - Arguments to filter QaMessages to count.
+   * @example
+   * // Count the number of QaMessages
+   * const count = await prisma.qaMessage.count({
+   *   where: {
+   *     // ... the filter for the QaMessages we want to count
+   *   }
+   * })
+  **/
+  count<T extends QaMessageCountArgs>(
+    args?: Prisma.Subset<T, QaMessageCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], QaMessageCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a QaMessage.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {QaMessageAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends QaMessageAggregateArgs>(args: Prisma.Subset<T, QaMessageAggregateArgs>): Prisma.PrismaPromise<GetQaMessageAggregateType<T>>
+
+  /**
+   * Group by QaMessage.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {QaMessageGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends QaMessageGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: QaMessageGroupByArgs['orderBy'] }
+      : { orderBy?: QaMessageGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, QaMessageGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetQaMessageGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the QaMessage model
+ */
+readonly fields: QaMessageFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for QaMessage.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__QaMessageClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  thread<T extends Prisma.QaThreadDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.QaThreadDefaultArgs<ExtArgs>>): Prisma.Prisma__QaThreadClient<runtime.Types.Result.GetResult<Prisma.$QaThreadPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the QaMessage model
+ */
+export interface QaMessageFieldRefs {
+  readonly id: Prisma.FieldRef<"QaMessage", 'String'>
+  readonly threadId: Prisma.FieldRef<"QaMessage", 'String'>
+  readonly role: Prisma.FieldRef<"QaMessage", 'QaMessageRole'>
+  readonly content: Prisma.FieldRef<"QaMessage", 'String'>
+  readonly retrievalQuery: Prisma.FieldRef<"QaMessage", 'String'>
+  readonly citations: Prisma.FieldRef<"QaMessage", 'Json'>
+  readonly noContext: Prisma.FieldRef<"QaMessage", 'Boolean'>
+  readonly createdAt: Prisma.FieldRef<"QaMessage", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * QaMessage findUnique
+ */
+export type QaMessageFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the QaMessage
+   */
+  select?: Prisma.QaMessageSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the QaMessage
+   */
+  omit?: Prisma.QaMessageOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.QaMessageInclude<ExtArgs> | null
+  /**
+   * Filter, which QaMessage to fetch.
+   */
+  where: Prisma.QaMessageWhereUniqueInput
+}
+
+/**
+ * QaMessage findUniqueOrThrow
+ */
+export type QaMessageFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the QaMessage
+   */
+  select?: Prisma.QaMessageSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the QaMessage
+   */
+  omit?: Prisma.QaMessageOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.QaMessageInclude<ExtArgs> | null
+  /**
+   * Filter, which QaMessage to fetch.
+   */
+  where: Prisma.QaMessageWhereUniqueInput
+}
+
+/**
+ * QaMessage findFirst
+ */
+export type QaMessageFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the QaMessage
+   */
+  select?: Prisma.QaMessageSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the QaMessage
+   */
+  omit?: Prisma.QaMessageOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.QaMessageInclude<ExtArgs> | null
+  /**
+   * Filter, which QaMessage to fetch.
+   */
+  where?: Prisma.QaMessageWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of QaMessages to fetch.
+   */
+  orderBy?: Prisma.QaMessageOrderByWithRelationInput | Prisma.QaMessageOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for QaMessages.
+   */
+  cursor?: Prisma.QaMessageWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` QaMessages from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` QaMessages.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of QaMessages.
+   */
+  distinct?: Prisma.QaMessageScalarFieldEnum | Prisma.QaMessageScalarFieldEnum[]
+}
+
+/**
+ * QaMessage findFirstOrThrow
+ */
+export type QaMessageFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the QaMessage
+   */
+  select?: Prisma.QaMessageSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the QaMessage
+   */
+  omit?: Prisma.QaMessageOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.QaMessageInclude<ExtArgs> | null
+  /**
+   * Filter, which QaMessage to fetch.
+   */
+  where?: Prisma.QaMessageWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of QaMessages to fetch.
+   */
+  orderBy?: Prisma.QaMessageOrderByWithRelationInput | Prisma.QaMessageOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for QaMessages.
+   */
+  cursor?: Prisma.QaMessageWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` QaMessages from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` QaMessages.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of QaMessages.
+   */
+  distinct?: Prisma.QaMessageScalarFieldEnum | Prisma.QaMessageScalarFieldEnum[]
+}
+
+/**
+ * QaMessage findMany
+ */
+export type QaMessageFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the QaMessage
+   */
+  select?: Prisma.QaMessageSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the QaMessage
+   */
+  omit?: Prisma.QaMessageOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.QaMessageInclude<ExtArgs> | null
+  /**
+   * Filter, which QaMessages to fetch.
+   */
+  where?: Prisma.QaMessageWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of QaMessages to fetch.
+   */
+  orderBy?: Prisma.QaMessageOrderByWithRelationInput | Prisma.QaMessageOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing QaMessages.
+   */
+  cursor?: Prisma.QaMessageWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` QaMessages from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` QaMessages.
+   */
+  skip?: number
+  distinct?: Prisma.QaMessageScalarFieldEnum | Prisma.QaMessageScalarFieldEnum[]
+}
+
+/**
+ * QaMessage create
+ */
+export type QaMessageCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the QaMessage
+   */
+  select?: Prisma.QaMessageSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the QaMessage
+   */
+  omit?: Prisma.QaMessageOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.QaMessageInclude<ExtArgs> | null
+  /**
+   * The data needed to create a QaMessage.
+   */
+  data: Prisma.XOR<Prisma.QaMessageCreateInput, Prisma.QaMessageUncheckedCreateInput>
+}
+
+/**
+ * QaMessage createMany
+ */
+export type QaMessageCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many QaMessages.
+   */
+  data: Prisma.QaMessageCreateManyInput | Prisma.QaMessageCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * QaMessage createManyAndReturn
+ */
+export type QaMessageCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the QaMessage
+   */
+  select?: Prisma.QaMessageSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the QaMessage
+   */
+  omit?: Prisma.QaMessageOmit<ExtArgs> | null
+  /**
+   * The data used to create many QaMessages.
+   */
+  data: Prisma.QaMessageCreateManyInput | Prisma.QaMessageCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.QaMessageIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * QaMessage update
+ */
+export type QaMessageUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the QaMessage
+   */
+  select?: Prisma.QaMessageSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the QaMessage
+   */
+  omit?: Prisma.QaMessageOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.QaMessageInclude<ExtArgs> | null
+  /**
+   * The data needed to update a QaMessage.
+   */
+  data: Prisma.XOR<Prisma.QaMessageUpdateInput, Prisma.QaMessageUncheckedUpdateInput>
+  /**
+   * Choose, which QaMessage to update.
+   */
+  where: Prisma.QaMessageWhereUniqueInput
+}
+
+/**
+ * QaMessage updateMany
+ */
+export type QaMessageUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update QaMessages.
+   */
+  data: Prisma.XOR<Prisma.QaMessageUpdateManyMutationInput, Prisma.QaMessageUncheckedUpdateManyInput>
+  /**
+   * Filter which QaMessages to update
+   */
+  where?: Prisma.QaMessageWhereInput
+  /**
+   * Limit how many QaMessages to update.
+   */
+  limit?: number
+}
+
+/**
+ * QaMessage updateManyAndReturn
+ */
+export type QaMessageUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the QaMessage
+   */
+  select?: Prisma.QaMessageSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the QaMessage
+   */
+  omit?: Prisma.QaMessageOmit<ExtArgs> | null
+  /**
+   * The data used to update QaMessages.
+   */
+  data: Prisma.XOR<Prisma.QaMessageUpdateManyMutationInput, Prisma.QaMessageUncheckedUpdateManyInput>
+  /**
+   * Filter which QaMessages to update
+   */
+  where?: Prisma.QaMessageWhereInput
+  /**
+   * Limit how many QaMessages to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.QaMessageIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * QaMessage upsert
+ */
+export type QaMessageUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the QaMessage
+   */
+  select?: Prisma.QaMessageSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the QaMessage
+   */
+  omit?: Prisma.QaMessageOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.QaMessageInclude<ExtArgs> | null
+  /**
+   * The filter to search for the QaMessage to update in case it exists.
+   */
+  where: Prisma.QaMessageWhereUniqueInput
+  /**
+   * In case the QaMessage found by the `where` argument doesn't exist, create a new QaMessage with this data.
+   */
+  create: Prisma.XOR<Prisma.QaMessageCreateInput, Prisma.QaMessageUncheckedCreateInput>
+  /**
+   * In case the QaMessage was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.QaMessageUpdateInput, Prisma.QaMessageUncheckedUpdateInput>
+}
+
+/**
+ * QaMessage delete
+ */
+export type QaMessageDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the QaMessage
+   */
+  select?: Prisma.QaMessageSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the QaMessage
+   */
+  omit?: Prisma.QaMessageOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.QaMessageInclude<ExtArgs> | null
+  /**
+   * Filter which QaMessage to delete.
+   */
+  where: Prisma.QaMessageWhereUniqueInput
+}
+
+/**
+ * QaMessage deleteMany
+ */
+export type QaMessageDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which QaMessages to delete
+   */
+  where?: Prisma.QaMessageWhereInput
+  /**
+   * Limit how many QaMessages to delete.
+   */
+  limit?: number
+}
+
+/**
+ * QaMessage without action
+ */
+export type QaMessageDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the QaMessage
+   */
+  select?: Prisma.QaMessageSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the QaMessage
+   */
+  omit?: Prisma.QaMessageOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.QaMessageInclude<ExtArgs> | null
+}
@@ -0,0 +1,1646 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `QaThread` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums.js"
+import type * as Prisma from "../internal/prismaNamespace.js"
+
+/**
+ * Model QaThread
+ * 
+ */
+export type QaThreadModel = runtime.Types.Result.DefaultSelection<Prisma.$QaThreadPayload>
+
+export type AggregateQaThread = {
+  _count: QaThreadCountAggregateOutputType | null
+  _min: QaThreadMinAggregateOutputType | null
+  _max: QaThreadMaxAggregateOutputType | null
+}
+
+export type QaThreadMinAggregateOutputType = {
+  id: string | null
+  tenantId: string | null
+  userId: string | null
+  title: string | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type QaThreadMaxAggregateOutputType = {
+  id: string | null
+  tenantId: string | null
+  userId: string | null
+  title: string | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type QaThreadCountAggregateOutputType = {
+  id: number
+  tenantId: number
+  userId: number
+  title: number
+  createdAt: number
+  updatedAt: number
+  _all: number
+}
+
+
+export type QaThreadMinAggregateInputType = {
+  id?: true
+  tenantId?: true
+  userId?: true
+  title?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type QaThreadMaxAggregateInputType = {
+  id?: true
+  tenantId?: true
+  userId?: true
+  title?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type QaThreadCountAggregateInputType = {
+  id?: true
+  tenantId?: true
+  userId?: true
+  title?: true
+  createdAt?: true
+  updatedAt?: true
+  _all?: true
+}
+
+export type QaThreadAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which QaThread to aggregate.
+   */
+  where?: Prisma.QaThreadWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of QaThreads to fetch.
+   */
+  orderBy?: Prisma.QaThreadOrderByWithRelationInput | Prisma.QaThreadOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.QaThreadWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` QaThreads from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` QaThreads.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned QaThreads
+  **/
+  _count?: true | QaThreadCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: QaThreadMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: QaThreadMaxAggregateInputType
+}
+
+export type GetQaThreadAggregateType<T extends QaThreadAggregateArgs> = {
+      [P in keyof T & keyof AggregateQaThread]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateQaThread[P]>
+    : Prisma.GetScalarType<T[P], AggregateQaThread[P]>
+}
+
+
+
+
+export type QaThreadGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.QaThreadWhereInput
+  orderBy?: Prisma.QaThreadOrderByWithAggregationInput | Prisma.QaThreadOrderByWithAggregationInput[]
+  by: Prisma.QaThreadScalarFieldEnum[] | Prisma.QaThreadScalarFieldEnum
+  having?: Prisma.QaThreadScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: QaThreadCountAggregateInputType | true
+  _min?: QaThreadMinAggregateInputType
+  _max?: QaThreadMaxAggregateInputType
+}
+
+export type QaThreadGroupByOutputType = {
+  id: string
+  tenantId: string
+  userId: string
+  title: string | null
+  createdAt: Date
+  updatedAt: Date
+  _count: QaThreadCountAggregateOutputType | null
+  _min: QaThreadMinAggregateOutputType | null
+  _max: QaThreadMaxAggregateOutputType | null
+}
+
+type GetQaThreadGroupByPayload<T extends QaThreadGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<QaThreadGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof QaThreadGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], QaThreadGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], QaThreadGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type QaThreadWhereInput = {
+  AND?: Prisma.QaThreadWhereInput | Prisma.QaThreadWhereInput[]
+  OR?: Prisma.QaThreadWhereInput[]
+  NOT?: Prisma.QaThreadWhereInput | Prisma.QaThreadWhereInput[]
+  id?: Prisma.StringFilter<"QaThread"> | string
+  tenantId?: Prisma.StringFilter<"QaThread"> | string
+  userId?: Prisma.StringFilter<"QaThread"> | string
+  title?: Prisma.StringNullableFilter<"QaThread"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"QaThread"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"QaThread"> | Date | string
+  tenant?: Prisma.XOR<Prisma.TenantScalarRelationFilter, Prisma.TenantWhereInput>
+  user?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
+  messages?: Prisma.QaMessageListRelationFilter
+}
+
+export type QaThreadOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  tenantId?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  title?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  tenant?: Prisma.TenantOrderByWithRelationInput
+  user?: Prisma.UserOrderByWithRelationInput
+  messages?: Prisma.QaMessageOrderByRelationAggregateInput
+}
+
+export type QaThreadWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  AND?: Prisma.QaThreadWhereInput | Prisma.QaThreadWhereInput[]
+  OR?: Prisma.QaThreadWhereInput[]
+  NOT?: Prisma.QaThreadWhereInput | Prisma.QaThreadWhereInput[]
+  tenantId?: Prisma.StringFilter<"QaThread"> | string
+  userId?: Prisma.StringFilter<"QaThread"> | string
+  title?: Prisma.StringNullableFilter<"QaThread"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"QaThread"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"QaThread"> | Date | string
+  tenant?: Prisma.XOR<Prisma.TenantScalarRelationFilter, Prisma.TenantWhereInput>
+  user?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
+  messages?: Prisma.QaMessageListRelationFilter
+}, "id">
+
+export type QaThreadOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  tenantId?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  title?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  _count?: Prisma.QaThreadCountOrderByAggregateInput
+  _max?: Prisma.QaThreadMaxOrderByAggregateInput
+  _min?: Prisma.QaThreadMinOrderByAggregateInput
+}
+
+export type QaThreadScalarWhereWithAggregatesInput = {
+  AND?: Prisma.QaThreadScalarWhereWithAggregatesInput | Prisma.QaThreadScalarWhereWithAggregatesInput[]
+  OR?: Prisma.QaThreadScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.QaThreadScalarWhereWithAggregatesInput | Prisma.QaThreadScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"QaThread"> | string
+  tenantId?: Prisma.StringWithAggregatesFilter<"QaThread"> | string
+  userId?: Prisma.StringWithAggregatesFilter<"QaThread"> | string
+  title?: Prisma.StringNullableWithAggregatesFilter<"QaThread"> | string | null
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"QaThread"> | Date | string
+  updatedAt?: Prisma.DateTimeWithAggregatesFilter<"QaThread"> | Date | string
+}
+
+export type QaThreadCreateInput = {
+  id?: string
+  title?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  tenant: Prisma.TenantCreateNestedOneWithoutQaThreadsInput
+  user: Prisma.UserCreateNestedOneWithoutQaThreadsInput
+  messages?: Prisma.QaMessageCreateNestedManyWithoutThreadInput
+}
+
+export type QaThreadUncheckedCreateInput = {
+  id?: string
+  tenantId: string
+  userId: string
+  title?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  messages?: Prisma.QaMessageUncheckedCreateNestedManyWithoutThreadInput
+}
+
+export type QaThreadUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  title?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  tenant?: Prisma.TenantUpdateOneRequiredWithoutQaThreadsNestedInput
+  user?: Prisma.UserUpdateOneRequiredWithoutQaThreadsNestedInput
+  messages?: Prisma.QaMessageUpdateManyWithoutThreadNestedInput
+}
+
+export type QaThreadUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  tenantId?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  title?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  messages?: Prisma.QaMessageUncheckedUpdateManyWithoutThreadNestedInput
+}
+
+export type QaThreadCreateManyInput = {
+  id?: string
+  tenantId: string
+  userId: string
+  title?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type QaThreadUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  title?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type QaThreadUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  tenantId?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  title?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type QaThreadListRelationFilter = {
+  every?: Prisma.QaThreadWhereInput
+  some?: Prisma.QaThreadWhereInput
+  none?: Prisma.QaThreadWhereInput
+}
+
+export type QaThreadOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type QaThreadCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  tenantId?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  title?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type QaThreadMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  tenantId?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  title?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type QaThreadMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  tenantId?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  title?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type QaThreadScalarRelationFilter = {
+  is?: Prisma.QaThreadWhereInput
+  isNot?: Prisma.QaThreadWhereInput
+}
+
+export type QaThreadCreateNestedManyWithoutTenantInput = {
+  create?: Prisma.XOR<Prisma.QaThreadCreateWithoutTenantInput, Prisma.QaThreadUncheckedCreateWithoutTenantInput> | Prisma.QaThreadCreateWithoutTenantInput[] | Prisma.QaThreadUncheckedCreateWithoutTenantInput[]
+  connectOrCreate?: Prisma.QaThreadCreateOrConnectWithoutTenantInput | Prisma.QaThreadCreateOrConnectWithoutTenantInput[]
+  createMany?: Prisma.QaThreadCreateManyTenantInputEnvelope
+  connect?: Prisma.QaThreadWhereUniqueInput | Prisma.QaThreadWhereUniqueInput[]
+}
+
+export type QaThreadUncheckedCreateNestedManyWithoutTenantInput = {
+  create?: Prisma.XOR<Prisma.QaThreadCreateWithoutTenantInput, Prisma.QaThreadUncheckedCreateWithoutTenantInput> | Prisma.QaThreadCreateWithoutTenantInput[] | Prisma.QaThreadUncheckedCreateWithoutTenantInput[]
+  connectOrCreate?: Prisma.QaThreadCreateOrConnectWithoutTenantInput | Prisma.QaThreadCreateOrConnectWithoutTenantInput[]
+  createMany?: Prisma.QaThreadCreateManyTenantInputEnvelope
+  connect?: Prisma.QaThreadWhereUniqueInput | Prisma.QaThreadWhereUniqueInput[]
+}
+
+export type QaThreadUpdateManyWithoutTenantNestedInput = {
+  create?: Prisma.XOR<Prisma.QaThreadCreateWithoutTenantInput, Prisma.QaThreadUncheckedCreateWithoutTenantInput> | Prisma.QaThreadCreateWithoutTenantInput[] | Prisma.QaThreadUncheckedCreateWithoutTenantInput[]
+  connectOrCreate?: Prisma.QaThreadCreateOrConnectWithoutTenantInput | Prisma.QaThreadCreateOrConnectWithoutTenantInput[]
+  upsert?: Prisma.QaThreadUpsertWithWhereUniqueWithoutTenantInput | Prisma.QaThreadUpsertWithWhereUniqueWithoutTenantInput[]
+  createMany?: Prisma.QaThreadCreateManyTenantInputEnvelope
+  set?: Prisma.QaThreadWhereUniqueInput | Prisma.QaThreadWhereUniqueInput[]
+  disconnect?: Prisma.QaThreadWhereUniqueInput | Prisma.QaThreadWhereUniqueInput[]
+  delete?: Prisma.QaThreadWhereUniqueInput | Prisma.QaThreadWhereUniqueInput[]
+  connect?: Prisma.QaThreadWhereUniqueInput | Prisma.QaThreadWhereUniqueInput[]
+  update?: Prisma.QaThreadUpdateWithWhereUniqueWithoutTenantInput | Prisma.QaThreadUpdateWithWhereUniqueWithoutTenantInput[]
+  updateMany?: Prisma.QaThreadUpdateManyWithWhereWithoutTenantInput | Prisma.QaThreadUpdateManyWithWhereWithoutTenantInput[]
+  deleteMany?: Prisma.QaThreadScalarWhereInput | Prisma.QaThreadScalarWhereInput[]
+}
+
+export type QaThreadUncheckedUpdateManyWithoutTenantNestedInput = {
+  create?: Prisma.XOR<Prisma.QaThreadCreateWithoutTenantInput, Prisma.QaThreadUncheckedCreateWithoutTenantInput> | Prisma.QaThreadCreateWithoutTenantInput[] | Prisma.QaThreadUncheckedCreateWithoutTenantInput[]
+  connectOrCreate?: Prisma.QaThreadCreateOrConnectWithoutTenantInput | Prisma.QaThreadCreateOrConnectWithoutTenantInput[]
+  upsert?: Prisma.QaThreadUpsertWithWhereUniqueWithoutTenantInput | Prisma.QaThreadUpsertWithWhereUniqueWithoutTenantInput[]
+  createMany?: Prisma.QaThreadCreateManyTenantInputEnvelope
+  set?: Prisma.QaThreadWhereUniqueInput | Prisma.QaThreadWhereUniqueInput[]
+  disconnect?: Prisma.QaThreadWhereUniqueInput | Prisma.QaThreadWhereUniqueInput[]
+  delete?: Prisma.QaThreadWhereUniqueInput | Prisma.QaThreadWhereUniqueInput[]
+  connect?: Prisma.QaThreadWhereUniqueInput | Prisma.QaThreadWhereUniqueInput[]
+  update?: Prisma.QaThreadUpdateWithWhereUniqueWithoutTenantInput | Prisma.QaThreadUpdateWithWhereUniqueWithoutTenantInput[]
+  updateMany?: Prisma.QaThreadUpdateManyWithWhereWithoutTenantInput | Prisma.QaThreadUpdateManyWithWhereWithoutTenantInput[]
+  deleteMany?: Prisma.QaThreadScalarWhereInput | Prisma.QaThreadScalarWhereInput[]
+}
+
+export type QaThreadCreateNestedManyWithoutUserInput = {
+  create?: Prisma.XOR<Prisma.QaThreadCreateWithoutUserInput, Prisma.QaThreadUncheckedCreateWithoutUserInput> | Prisma.QaThreadCreateWithoutUserInput[] | Prisma.QaThreadUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.QaThreadCreateOrConnectWithoutUserInput | Prisma.QaThreadCreateOrConnectWithoutUserInput[]
+  createMany?: Prisma.QaThreadCreateManyUserInputEnvelope
+  connect?: Prisma.QaThreadWhereUniqueInput | Prisma.QaThreadWhereUniqueInput[]
+}
+
+export type QaThreadUncheckedCreateNestedManyWithoutUserInput = {
+  create?: Prisma.XOR<Prisma.QaThreadCreateWithoutUserInput, Prisma.QaThreadUncheckedCreateWithoutUserInput> | Prisma.QaThreadCreateWithoutUserInput[] | Prisma.QaThreadUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.QaThreadCreateOrConnectWithoutUserInput | Prisma.QaThreadCreateOrConnectWithoutUserInput[]
+  createMany?: Prisma.QaThreadCreateManyUserInputEnvelope
+  connect?: Prisma.QaThreadWhereUniqueInput | Prisma.QaThreadWhereUniqueInput[]
+}
+
+export type QaThreadUpdateManyWithoutUserNestedInput = {
+  create?: Prisma.XOR<Prisma.QaThreadCreateWithoutUserInput, Prisma.QaThreadUncheckedCreateWithoutUserInput> | Prisma.QaThreadCreateWithoutUserInput[] | Prisma.QaThreadUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.QaThreadCreateOrConnectWithoutUserInput | Prisma.QaThreadCreateOrConnectWithoutUserInput[]
+  upsert?: Prisma.QaThreadUpsertWithWhereUniqueWithoutUserInput | Prisma.QaThreadUpsertWithWhereUniqueWithoutUserInput[]
+  createMany?: Prisma.QaThreadCreateManyUserInputEnvelope
+  set?: Prisma.QaThreadWhereUniqueInput | Prisma.QaThreadWhereUniqueInput[]
+  disconnect?: Prisma.QaThreadWhereUniqueInput | Prisma.QaThreadWhereUniqueInput[]
+  delete?: Prisma.QaThreadWhereUniqueInput | Prisma.QaThreadWhereUniqueInput[]
+  connect?: Prisma.QaThreadWhereUniqueInput | Prisma.QaThreadWhereUniqueInput[]
+  update?: Prisma.QaThreadUpdateWithWhereUniqueWithoutUserInput | Prisma.QaThreadUpdateWithWhereUniqueWithoutUserInput[]
+  updateMany?: Prisma.QaThreadUpdateManyWithWhereWithoutUserInput | Prisma.QaThreadUpdateManyWithWhereWithoutUserInput[]
+  deleteMany?: Prisma.QaThreadScalarWhereInput | Prisma.QaThreadScalarWhereInput[]
+}
+
+export type QaThreadUncheckedUpdateManyWithoutUserNestedInput = {
+  create?: Prisma.XOR<Prisma.QaThreadCreateWithoutUserInput, Prisma.QaThreadUncheckedCreateWithoutUserInput> | Prisma.QaThreadCreateWithoutUserInput[] | Prisma.QaThreadUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.QaThreadCreateOrConnectWithoutUserInput | Prisma.QaThreadCreateOrConnectWithoutUserInput[]
+  upsert?: Prisma.QaThreadUpsertWithWhereUniqueWithoutUserInput | Prisma.QaThreadUpsertWithWhereUniqueWithoutUserInput[]
+  createMany?: Prisma.QaThreadCreateManyUserInputEnvelope
+  set?: Prisma.QaThreadWhereUniqueInput | Prisma.QaThreadWhereUniqueInput[]
+  disconnect?: Prisma.QaThreadWhereUniqueInput | Prisma.QaThreadWhereUniqueInput[]
+  delete?: Prisma.QaThreadWhereUniqueInput | Prisma.QaThreadWhereUniqueInput[]
+  connect?: Prisma.QaThreadWhereUniqueInput | Prisma.QaThreadWhereUniqueInput[]
+  update?: Prisma.QaThreadUpdateWithWhereUniqueWithoutUserInput | Prisma.QaThreadUpdateWithWhereUniqueWithoutUserInput[]
+  updateMany?: Prisma.QaThreadUpdateManyWithWhereWithoutUserInput | Prisma.QaThreadUpdateManyWithWhereWithoutUserInput[]
+  deleteMany?: Prisma.QaThreadScalarWhereInput | Prisma.QaThreadScalarWhereInput[]
+}
+
+export type QaThreadCreateNestedOneWithoutMessagesInput = {
+  create?: Prisma.XOR<Prisma.QaThreadCreateWithoutMessagesInput, Prisma.QaThreadUncheckedCreateWithoutMessagesInput>
+  connectOrCreate?: Prisma.QaThreadCreateOrConnectWithoutMessagesInput
+  connect?: Prisma.QaThreadWhereUniqueInput
+}
+
+export type QaThreadUpdateOneRequiredWithoutMessagesNestedInput = {
+  create?: Prisma.XOR<Prisma.QaThreadCreateWithoutMessagesInput, Prisma.QaThreadUncheckedCreateWithoutMessagesInput>
+  connectOrCreate?: Prisma.QaThreadCreateOrConnectWithoutMessagesInput
+  upsert?: Prisma.QaThreadUpsertWithoutMessagesInput
+  connect?: Prisma.QaThreadWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.QaThreadUpdateToOneWithWhereWithoutMessagesInput, Prisma.QaThreadUpdateWithoutMessagesInput>, Prisma.QaThreadUncheckedUpdateWithoutMessagesInput>
+}
+
+export type QaThreadCreateWithoutTenantInput = {
+  id?: string
+  title?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  user: Prisma.UserCreateNestedOneWithoutQaThreadsInput
+  messages?: Prisma.QaMessageCreateNestedManyWithoutThreadInput
+}
+
+export type QaThreadUncheckedCreateWithoutTenantInput = {
+  id?: string
+  userId: string
+  title?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  messages?: Prisma.QaMessageUncheckedCreateNestedManyWithoutThreadInput
+}
+
+export type QaThreadCreateOrConnectWithoutTenantInput = {
+  where: Prisma.QaThreadWhereUniqueInput
+  create: Prisma.XOR<Prisma.QaThreadCreateWithoutTenantInput, Prisma.QaThreadUncheckedCreateWithoutTenantInput>
+}
+
+export type QaThreadCreateManyTenantInputEnvelope = {
+  data: Prisma.QaThreadCreateManyTenantInput | Prisma.QaThreadCreateManyTenantInput[]
+  skipDuplicates?: boolean
+}
+
+export type QaThreadUpsertWithWhereUniqueWithoutTenantInput = {
+  where: Prisma.QaThreadWhereUniqueInput
+  update: Prisma.XOR<Prisma.QaThreadUpdateWithoutTenantInput, Prisma.QaThreadUncheckedUpdateWithoutTenantInput>
+  create: Prisma.XOR<Prisma.QaThreadCreateWithoutTenantInput, Prisma.QaThreadUncheckedCreateWithoutTenantInput>
+}
+
+export type QaThreadUpdateWithWhereUniqueWithoutTenantInput = {
+  where: Prisma.QaThreadWhereUniqueInput
+  data: Prisma.XOR<Prisma.QaThreadUpdateWithoutTenantInput, Prisma.QaThreadUncheckedUpdateWithoutTenantInput>
+}
+
+export type QaThreadUpdateManyWithWhereWithoutTenantInput = {
+  where: Prisma.QaThreadScalarWhereInput
+  data: Prisma.XOR<Prisma.QaThreadUpdateManyMutationInput, Prisma.QaThreadUncheckedUpdateManyWithoutTenantInput>
+}
+
+export type QaThreadScalarWhereInput = {
+  AND?: Prisma.QaThreadScalarWhereInput | Prisma.QaThreadScalarWhereInput[]
+  OR?: Prisma.QaThreadScalarWhereInput[]
+  NOT?: Prisma.QaThreadScalarWhereInput | Prisma.QaThreadScalarWhereInput[]
+  id?: Prisma.StringFilter<"QaThread"> | string
+  tenantId?: Prisma.StringFilter<"QaThread"> | string
+  userId?: Prisma.StringFilter<"QaThread"> | string
+  title?: Prisma.StringNullableFilter<"QaThread"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"QaThread"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"QaThread"> | Date | string
+}
+
+export type QaThreadCreateWithoutUserInput = {
+  id?: string
+  title?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  tenant: Prisma.TenantCreateNestedOneWithoutQaThreadsInput
+  messages?: Prisma.QaMessageCreateNestedManyWithoutThreadInput
+}
+
+export type QaThreadUncheckedCreateWithoutUserInput = {
+  id?: string
+  tenantId: string
+  title?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  messages?: Prisma.QaMessageUncheckedCreateNestedManyWithoutThreadInput
+}
+
+export type QaThreadCreateOrConnectWithoutUserInput = {
+  where: Prisma.QaThreadWhereUniqueInput
+  create: Prisma.XOR<Prisma.QaThreadCreateWithoutUserInput, Prisma.QaThreadUncheckedCreateWithoutUserInput>
+}
+
+export type QaThreadCreateManyUserInputEnvelope = {
+  data: Prisma.QaThreadCreateManyUserInput | Prisma.QaThreadCreateManyUserInput[]
+  skipDuplicates?: boolean
+}
+
+export type QaThreadUpsertWithWhereUniqueWithoutUserInput = {
+  where: Prisma.QaThreadWhereUniqueInput
+  update: Prisma.XOR<Prisma.QaThreadUpdateWithoutUserInput, Prisma.QaThreadUncheckedUpdateWithoutUserInput>
+  create: Prisma.XOR<Prisma.QaThreadCreateWithoutUserInput, Prisma.QaThreadUncheckedCreateWithoutUserInput>
+}
+
+export type QaThreadUpdateWithWhereUniqueWithoutUserInput = {
+  where: Prisma.QaThreadWhereUniqueInput
+  data: Prisma.XOR<Prisma.QaThreadUpdateWithoutUserInput, Prisma.QaThreadUncheckedUpdateWithoutUserInput>
+}
+
+export type QaThreadUpdateManyWithWhereWithoutUserInput = {
+  where: Prisma.QaThreadScalarWhereInput
+  data: Prisma.XOR<Prisma.QaThreadUpdateManyMutationInput, Prisma.QaThreadUncheckedUpdateManyWithoutUserInput>
+}
+
+export type QaThreadCreateWithoutMessagesInput = {
+  id?: string
+  title?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  tenant: Prisma.TenantCreateNestedOneWithoutQaThreadsInput
+  user: Prisma.UserCreateNestedOneWithoutQaThreadsInput
+}
+
+export type QaThreadUncheckedCreateWithoutMessagesInput = {
+  id?: string
+  tenantId: string
+  userId: string
+  title?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type QaThreadCreateOrConnectWithoutMessagesInput = {
+  where: Prisma.QaThreadWhereUniqueInput
+  create: Prisma.XOR<Prisma.QaThreadCreateWithoutMessagesInput, Prisma.QaThreadUncheckedCreateWithoutMessagesInput>
+}
+
+export type QaThreadUpsertWithoutMessagesInput = {
+  update: Prisma.XOR<Prisma.QaThreadUpdateWithoutMessagesInput, Prisma.QaThreadUncheckedUpdateWithoutMessagesInput>
+  create: Prisma.XOR<Prisma.QaThreadCreateWithoutMessagesInput, Prisma.QaThreadUncheckedCreateWithoutMessagesInput>
+  where?: Prisma.QaThreadWhereInput
+}
+
+export type QaThreadUpdateToOneWithWhereWithoutMessagesInput = {
+  where?: Prisma.QaThreadWhereInput
+  data: Prisma.XOR<Prisma.QaThreadUpdateWithoutMessagesInput, Prisma.QaThreadUncheckedUpdateWithoutMessagesInput>
+}
+
+export type QaThreadUpdateWithoutMessagesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  title?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  tenant?: Prisma.TenantUpdateOneRequiredWithoutQaThreadsNestedInput
+  user?: Prisma.UserUpdateOneRequiredWithoutQaThreadsNestedInput
+}
+
+export type QaThreadUncheckedUpdateWithoutMessagesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  tenantId?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  title?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type QaThreadCreateManyTenantInput = {
+  id?: string
+  userId: string
+  title?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type QaThreadUpdateWithoutTenantInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  title?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  user?: Prisma.UserUpdateOneRequiredWithoutQaThreadsNestedInput
+  messages?: Prisma.QaMessageUpdateManyWithoutThreadNestedInput
+}
+
+export type QaThreadUncheckedUpdateWithoutTenantInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  title?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  messages?: Prisma.QaMessageUncheckedUpdateManyWithoutThreadNestedInput
+}
+
+export type QaThreadUncheckedUpdateManyWithoutTenantInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  title?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type QaThreadCreateManyUserInput = {
+  id?: string
+  tenantId: string
+  title?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type QaThreadUpdateWithoutUserInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  title?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  tenant?: Prisma.TenantUpdateOneRequiredWithoutQaThreadsNestedInput
+  messages?: Prisma.QaMessageUpdateManyWithoutThreadNestedInput
+}
+
+export type QaThreadUncheckedUpdateWithoutUserInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  tenantId?: Prisma.StringFieldUpdateOperationsInput | string
+  title?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  messages?: Prisma.QaMessageUncheckedUpdateManyWithoutThreadNestedInput
+}
+
+export type QaThreadUncheckedUpdateManyWithoutUserInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  tenantId?: Prisma.StringFieldUpdateOperationsInput | string
+  title?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+/**
+ * Count Type QaThreadCountOutputType
+ */
+
+export type QaThreadCountOutputType = {
+  messages: number
+}
+
+export type QaThreadCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  messages?: boolean | QaThreadCountOutputTypeCountMessagesArgs
+}
+
+/**
+ * QaThreadCountOutputType without action
+ */
+export type QaThreadCountOutputTypeDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the QaThreadCountOutputType
+   */
+  select?: Prisma.QaThreadCountOutputTypeSelect<ExtArgs> | null
+}
+
+/**
+ * QaThreadCountOutputType without action
+ */
+export type QaThreadCountOutputTypeCountMessagesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.QaMessageWhereInput
+}
+
+
+export type QaThreadSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  tenantId?: boolean
+  userId?: boolean
+  title?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  tenant?: boolean | Prisma.TenantDefaultArgs<ExtArgs>
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  messages?: boolean | Prisma.QaThread$messagesArgs<ExtArgs>
+  _count?: boolean | Prisma.QaThreadCountOutputTypeDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["qaThread"]>
+
+export type QaThreadSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  tenantId?: boolean
+  userId?: boolean
+  title?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  tenant?: boolean | Prisma.TenantDefaultArgs<ExtArgs>
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["qaThread"]>
+
+export type QaThreadSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  tenantId?: boolean
+  userId?: boolean
+  title?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  tenant?: boolean | Prisma.TenantDefaultArgs<ExtArgs>
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["qaThread"]>
+
+export type QaThreadSelectScalar = {
+  id?: boolean
+  tenantId?: boolean
+  userId?: boolean
+  title?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}
+
+export type QaThreadOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "tenantId" | "userId" | "title" | "createdAt" | "updatedAt", ExtArgs["result"]["qaThread"]>
+export type QaThreadInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  tenant?: boolean | Prisma.TenantDefaultArgs<ExtArgs>
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  messages?: boolean | Prisma.QaThread$messagesArgs<ExtArgs>
+  _count?: boolean | Prisma.QaThreadCountOutputTypeDefaultArgs<ExtArgs>
+}
+export type QaThreadIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  tenant?: boolean | Prisma.TenantDefaultArgs<ExtArgs>
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}
+export type QaThreadIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  tenant?: boolean | Prisma.TenantDefaultArgs<ExtArgs>
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}
+
+export type $QaThreadPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "QaThread"
+  objects: {
+    tenant: Prisma.$TenantPayload<ExtArgs>
+    user: Prisma.$UserPayload<ExtArgs>
+    messages: Prisma.$QaMessagePayload<ExtArgs>[]
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    tenantId: string
+    userId: string
+    title: string | null
+    createdAt: Date
+    updatedAt: Date
+  }, ExtArgs["result"]["qaThread"]>
+  composites: {}
+}
+
+export type QaThreadGetPayload<S extends boolean | null | undefined | QaThreadDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$QaThreadPayload, S>
+
+export type QaThreadCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<QaThreadFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: QaThreadCountAggregateInputType | true
+  }
+
+export interface QaThreadDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['QaThread'], meta: { name: 'QaThread' } }
+  /**
+   * Find zero or one QaThread that matches the filter.
+   * @param {QaThreadFindUniqueArgs} args - Arguments to find a QaThread
+   * @example
+   * // Get one QaThread
+   * const qaThread = await prisma.qaThread.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends QaThreadFindUniqueArgs>(args: Prisma.SelectSubset<T, QaThreadFindUniqueArgs<ExtArgs>>): Prisma.Prisma__QaThreadClient<runtime.Types.Result.GetResult<Prisma.$QaThreadPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one QaThread that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {QaThreadFindUniqueOrThrowArgs} args - Arguments to find a QaThread
+   * @example
+   * // Get one QaThread
+   * const qaThread = await prisma.qaThread.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends QaThreadFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, QaThreadFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__QaThreadClient<runtime.Types.Result.GetResult<Prisma.$QaThreadPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first QaThread that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {QaThreadFindFirstArgs} args - Arguments to find a QaThread
+   * @example
+   * // Get one QaThread
+   * const qaThread = await prisma.qaThread.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends QaThreadFindFirstArgs>(args?: Prisma.SelectSubset<T, QaThreadFindFirstArgs<ExtArgs>>): Prisma.Prisma__QaThreadClient<runtime.Types.Result.GetResult<Prisma.$QaThreadPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first QaThread that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {QaThreadFindFirstOrThrowArgs} args - Arguments to find a QaThread
+   * @example
+   * // Get one QaThread
+   * const qaThread = await prisma.qaThread.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends QaThreadFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, QaThreadFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__QaThreadClient<runtime.Types.Result.GetResult<Prisma.$QaThreadPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more QaThreads that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {QaThreadFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all QaThreads
+   * const qaThreads = await prisma.qaThread.findMany()
+   * 
+   * // Get first 10 QaThreads
+   * const qaThreads = await prisma.qaThread.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const qaThreadWithIdOnly = await prisma.qaThread.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends QaThreadFindManyArgs>(args?: Prisma.SelectSubset<T, QaThreadFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$QaThreadPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a QaThread.
+   * @param {QaThreadCreateArgs} args - Arguments to create a QaThread.
+   * @example
+   * // Create one QaThread
+   * const QaThread = await prisma.qaThread.create({
+   *   data: {
+   *     // ... data to create a QaThread
+   *   }
+   * })
+   * 
+   */
+  create<T extends QaThreadCreateArgs>(args: Prisma.SelectSubset<T, QaThreadCreateArgs<ExtArgs>>): Prisma.Prisma__QaThreadClient<runtime.Types.Result.GetResult<Prisma.$QaThreadPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many QaThreads.
+   * @param {QaThreadCreateManyArgs} args - Arguments to create many QaThreads.
+   * @example
+   * // Create many QaThreads
+   * const qaThread = await prisma.qaThread.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends QaThreadCreateManyArgs>(args?: Prisma.SelectSubset<T, QaThreadCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many QaThreads and returns the data saved in the database.
+   * @param {QaThreadCreateManyAndReturnArgs} args - Arguments to create many QaThreads.
+   * @example
+   * // Create many QaThreads
+   * const qaThread = await prisma.qaThread.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many QaThreads and only return the `id`
+   * const qaThreadWithIdOnly = await prisma.qaThread.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends QaThreadCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, QaThreadCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$QaThreadPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a QaThread.
+   * @param {QaThreadDeleteArgs} args - Arguments to delete one QaThread.
+   * @example
+   * // Delete one QaThread
+   * const QaThread = await prisma.qaThread.delete({
+   *   where: {
+   *     // ... filter to delete one QaThread
+   *   }
+   * })
+   * 
+   */
+  delete<T extends QaThreadDeleteArgs>(args: Prisma.SelectSubset<T, QaThreadDeleteArgs<ExtArgs>>): Prisma.Prisma__QaThreadClient<runtime.Types.Result.GetResult<Prisma.$QaThreadPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one QaThread.
+   * @param {QaThreadUpdateArgs} args - Arguments to update one QaThread.
+   * @example
+   * // Update one QaThread
+   * const qaThread = await prisma.qaThread.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends QaThreadUpdateArgs>(args: Prisma.SelectSubset<T, QaThreadUpdateArgs<ExtArgs>>): Prisma.Prisma__QaThreadClient<runtime.Types.Result.GetResult<Prisma.$QaThreadPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more QaThreads.
+   * @param {QaThreadDeleteManyArgs} args - Arguments to filter QaThreads to delete.
+   * @example
+   * // Delete a few QaThreads
+   * const { count } = await prisma.qaThread.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends QaThreadDeleteManyArgs>(args?: Prisma.SelectSubset<T, QaThreadDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more QaThreads.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {QaThreadUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many QaThreads
+   * const qaThread = await prisma.qaThread.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends QaThreadUpdateManyArgs>(args: Prisma.SelectSubset<T, QaThreadUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more QaThreads and returns the data updated in the database.
+   * @param {QaThreadUpdateManyAndReturnArgs} args - Arguments to update many QaThreads.
+   * @example
+   * // Update many QaThreads
+   * const qaThread = await prisma.qaThread.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more QaThreads and only return the `id`
+   * const qaThreadWithIdOnly = await prisma.qaThread.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends QaThreadUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, QaThreadUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$QaThreadPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one QaThread.
+   * @param {QaThreadUpsertArgs} args - Arguments to update or create a QaThread.
+   * @example
+   * // Update or create a QaThread
+   * const qaThread = await prisma.qaThread.upsert({
+   *   create: {
+   *     // ... data to create a QaThread
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the QaThread we want to update
+   *   }
+   * })
+   */
+  upsert<T extends QaThreadUpsertArgs>(args: Prisma.SelectSubset<T, QaThreadUpsertArgs<ExtArgs>>): Prisma.Prisma__QaThreadClient<runtime.Types.Result.GetResult<Prisma.$QaThreadPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of QaThreads.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {QaThreadCountArgs} args - Arguments to filter QaThreads to count.
+   * @example
+   * // Count the number of QaThreads
+   * const count = await prisma.qaThread.count({
+   *   where: {
+   *     // ... the filter for the QaThreads we want to count
+   *   }
+   * })
+  **/
+  count<T extends QaThreadCountArgs>(
+    args?: Prisma.Subset<T, QaThreadCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], QaThreadCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a QaThread.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {QaThreadAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends QaThreadAggregateArgs>(args: Prisma.Subset<T, QaThreadAggregateArgs>): Prisma.PrismaPromise<GetQaThreadAggregateType<T>>
+
+  /**
+   * Group by QaThread.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {QaThreadGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends QaThreadGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: QaThreadGroupByArgs['orderBy'] }
+      : { orderBy?: QaThreadGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, QaThreadGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetQaThreadGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the QaThread model
+ */
+readonly fields: QaThreadFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for QaThread.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__QaThreadClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  tenant<T extends Prisma.TenantDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.TenantDefaultArgs<ExtArgs>>): Prisma.Prisma__TenantClient<runtime.Types.Result.GetResult<Prisma.$TenantPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  user<T extends Prisma.UserDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.UserDefaultArgs<ExtArgs>>): Prisma.Prisma__UserClient<runtime.Types.Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  messages<T extends Prisma.QaThread$messagesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.QaThread$messagesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$QaMessagePayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the QaThread model
+ */
+export interface QaThreadFieldRefs {
+  readonly id: Prisma.FieldRef<"QaThread", 'String'>
+  readonly tenantId: Prisma.FieldRef<"QaThread", 'String'>
+  readonly userId: Prisma.FieldRef<"QaThread", 'String'>
+  readonly title: Prisma.FieldRef<"QaThread", 'String'>
+  readonly createdAt: Prisma.FieldRef<"QaThread", 'DateTime'>
+  readonly updatedAt: Prisma.FieldRef<"QaThread", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * QaThread findUnique
+ */
+export type QaThreadFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the QaThread
+   */
+  select?: Prisma.QaThreadSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the QaThread
+   */
+  omit?: Prisma.QaThreadOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.QaThreadInclude<ExtArgs> | null
+  /**
+   * Filter, which QaThread to fetch.
+   */
+  where: Prisma.QaThreadWhereUniqueInput
+}
+
+/**
+ * QaThread findUniqueOrThrow
+ */
+export type QaThreadFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the QaThread
+   */
+  select?: Prisma.QaThreadSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the QaThread
+   */
+  omit?: Prisma.QaThreadOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.QaThreadInclude<ExtArgs> | null
+  /**
+   * Filter, which QaThread to fetch.
+   */
+  where: Prisma.QaThreadWhereUniqueInput
+}
+
+/**
+ * QaThread findFirst
+ */
+export type QaThreadFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the QaThread
+   */
+  select?: Prisma.QaThreadSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the QaThread
+   */
+  omit?: Prisma.QaThreadOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.QaThreadInclude<ExtArgs> | null
+  /**
+   * Filter, which QaThread to fetch.
+   */
+  where?: Prisma.QaThreadWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of QaThreads to fetch.
+   */
+  orderBy?: Prisma.QaThreadOrderByWithRelationInput | Prisma.QaThreadOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for QaThreads.
+   */
+  cursor?: Prisma.QaThreadWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` QaThreads from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` QaThreads.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of QaThreads.
+   */
+  distinct?: Prisma.QaThreadScalarFieldEnum | Prisma.QaThreadScalarFieldEnum[]
+}
+
+/**
+ * QaThread findFirstOrThrow
+ */
+export type QaThreadFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the QaThread
+   */
+  select?: Prisma.QaThreadSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the QaThread
+   */
+  omit?: Prisma.QaThreadOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.QaThreadInclude<ExtArgs> | null
+  /**
+   * Filter, which QaThread to fetch.
+   */
+  where?: Prisma.QaThreadWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of QaThreads to fetch.
+   */
+  orderBy?: Prisma.QaThreadOrderByWithRelationInput | Prisma.QaThreadOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for QaThreads.
+   */
+  cursor?: Prisma.QaThreadWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` QaThreads from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` QaThreads.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of QaThreads.
+   */
+  distinct?: Prisma.QaThreadScalarFieldEnum | Prisma.QaThreadScalarFieldEnum[]
+}
+
+/**
+ * QaThread findMany
+ */
+export type QaThreadFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the QaThread
+   */
+  select?: Prisma.QaThreadSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the QaThread
+   */
+  omit?: Prisma.QaThreadOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.QaThreadInclude<ExtArgs> | null
+  /**
+   * Filter, which QaThreads to fetch.
+   */
+  where?: Prisma.QaThreadWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of QaThreads to fetch.
+   */
+  orderBy?: Prisma.QaThreadOrderByWithRelationInput | Prisma.QaThreadOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing QaThreads.
+   */
+  cursor?: Prisma.QaThreadWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` QaThreads from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` QaThreads.
+   */
+  skip?: number
+  distinct?: Prisma.QaThreadScalarFieldEnum | Prisma.QaThreadScalarFieldEnum[]
+}
+
+/**
+ * QaThread create
+ */
+export type QaThreadCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the QaThread
+   */
+  select?: Prisma.QaThreadSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the QaThread
+   */
+  omit?: Prisma.QaThreadOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.QaThreadInclude<ExtArgs> | null
+  /**
+   * The data needed to create a QaThread.
+   */
+  data: Prisma.XOR<Prisma.QaThreadCreateInput, Prisma.QaThreadUncheckedCreateInput>
+}
+
+/**
+ * QaThread createMany
+ */
+export type QaThreadCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many QaThreads.
+   */
+  data: Prisma.QaThreadCreateManyInput | Prisma.QaThreadCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * QaThread createManyAndReturn
+ */
+export type QaThreadCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the QaThread
+   */
+  select?: Prisma.QaThreadSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the QaThread
+   */
+  omit?: Prisma.QaThreadOmit<ExtArgs> | null
+  /**
+   * The data used to create many QaThreads.
+   */
+  data: Prisma.QaThreadCreateManyInput | Prisma.QaThreadCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.QaThreadIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * QaThread update
+ */
+export type QaThreadUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the QaThread
+   */
+  select?: Prisma.QaThreadSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the QaThread
+   */
+  omit?: Prisma.QaThreadOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.QaThreadInclude<ExtArgs> | null
+  /**
+   * The data needed to update a QaThread.
+   */
+  data: Prisma.XOR<Prisma.QaThreadUpdateInput, Prisma.QaThreadUncheckedUpdateInput>
+  /**
+   * Choose, which QaThread to update.
+   */
+  where: Prisma.QaThreadWhereUniqueInput
+}
+
+/**
+ * QaThread updateMany
+ */
+export type QaThreadUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update QaThreads.
+   */
+  data: Prisma.XOR<Prisma.QaThreadUpdateManyMutationInput, Prisma.QaThreadUncheckedUpdateManyInput>
+  /**
+   * Filter which QaThreads to update
+   */
+  where?: Prisma.QaThreadWhereInput
+  /**
+   * Limit how many QaThreads to update.
+   */
+  limit?: number
+}
+
+/**
+ * QaThread updateManyAndReturn
+ */
+export type QaThreadUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the QaThread
+   */
+  select?: Prisma.QaThreadSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the QaThread
+   */
+  omit?: Prisma.QaThreadOmit<ExtArgs> | null
+  /**
+   * The data used to update QaThreads.
+   */
+  data: Prisma.XOR<Prisma.QaThreadUpdateManyMutationInput, Prisma.QaThreadUncheckedUpdateManyInput>
+  /**
+   * Filter which QaThreads to update
+   */
+  where?: Prisma.QaThreadWhereInput
+  /**
+   * Limit how many QaThreads to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.QaThreadIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * QaThread upsert
+ */
+export type QaThreadUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the QaThread
+   */
+  select?: Prisma.QaThreadSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the QaThread
+   */
+  omit?: Prisma.QaThreadOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.QaThreadInclude<ExtArgs> | null
+  /**
+   * The filter to search for the QaThread to update in case it exists.
+   */
+  where: Prisma.QaThreadWhereUniqueInput
+  /**
+   * In case the QaThread found by the `where` argument doesn't exist, create a new QaThread with this data.
+   */
+  create: Prisma.XOR<Prisma.QaThreadCreateInput, Prisma.QaThreadUncheckedCreateInput>
+  /**
+   * In case the QaThread was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.QaThreadUpdateInput, Prisma.QaThreadUncheckedUpdateInput>
+}
+
+/**
+ * QaThread delete
+ */
+export type QaThreadDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the QaThread
+   */
+  select?: Prisma.QaThreadSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the QaThread
+   */
+  omit?: Prisma.QaThreadOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.QaThreadInclude<ExtArgs> | null
+  /**
+   * Filter which QaThread to delete.
+   */
+  where: Prisma.QaThreadWhereUniqueInput
+}
+
+/**
+ * QaThread deleteMany
+ */
+export type QaThreadDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which QaThreads to delete
+   */
+  where?: Prisma.QaThreadWhereInput
+  /**
+   * Limit how many QaThreads to delete.
+   */
+  limit?: number
+}
+
+/**
+ * QaThread.messages
+ */
+export type QaThread$messagesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the QaMessage
+   */
+  select?: Prisma.QaMessageSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the QaMessage
+   */
+  omit?: Prisma.QaMessageOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.QaMessageInclude<ExtArgs> | null
+  where?: Prisma.QaMessageWhereInput
+  orderBy?: Prisma.QaMessageOrderByWithRelationInput | Prisma.QaMessageOrderByWithRelationInput[]
+  cursor?: Prisma.QaMessageWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.QaMessageScalarFieldEnum | Prisma.QaMessageScalarFieldEnum[]
+}
+
+/**
+ * QaThread without action
+ */
+export type QaThreadDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the QaThread
+   */
+  select?: Prisma.QaThreadSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the QaThread
+   */
+  omit?: Prisma.QaThreadOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.QaThreadInclude<ExtArgs> | null
+}
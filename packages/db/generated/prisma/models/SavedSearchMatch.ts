@@ -0,0 +1,1425 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `SavedSearchMatch` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums.js"
+import type * as Prisma from "../internal/prismaNamespace.js"
+
+/**
+ * Model SavedSearchMatch
+ * 
+ */
+export type SavedSearchMatchModel = runtime.Types.Result.DefaultSelection<Prisma.$SavedSearchMatchPayload>
+
+export type AggregateSavedSearchMatch = {
+  _count: SavedSearchMatchCountAggregateOutputType | null
+  _min: SavedSearchMatchMinAggregateOutputType | null
+  _max: SavedSearchMatchMaxAggregateOutputType | null
+}
+
+export type SavedSearchMatchMinAggregateOutputType = {
+  savedSearchId: string | null
+  documentId: string | null
+  matchedAt: Date | null
+  seenAt: Date | null
+}
+
+export type SavedSearchMatchMaxAggregateOutputType = {
+  savedSearchId: string | null
+  documentId: string | null
+  matchedAt: Date | null
+  seenAt: Date | null
+}
+
+export type SavedSearchMatchCountAggregateOutputType = {
+  savedSearchId: number
+  documentId: number
+  matchedAt: number
+  seenAt: number
+  _all: number
+}
+
+
+export type SavedSearchMatchMinAggregateInputType = {
+  savedSearchId?: true
+  documentId?: true
+  matchedAt?: true
+  seenAt?: true
+}
+
+export type SavedSearchMatchMaxAggregateInputType = {
+  savedSearchId?: true
+  documentId?: true
+  matchedAt?: true
+  seenAt?: true
+}
+
+export type SavedSearchMatchCountAggregateInputType = {
+  savedSearchId?: true
+  documentId?: true
+  matchedAt?: true
+  seenAt?: true
+  _all?: true
+}
+
+export type SavedSearchMatchAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which SavedSearchMatch to aggregate.
+   */
+  where?: Prisma.SavedSearchMatchWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of SavedSearchMatches to fetch.
+   */
+  orderBy?: Prisma.SavedSearchMatchOrderByWithRelationInput | Prisma.SavedSearchMatchOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.SavedSearchMatchWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` SavedSearchMatches from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` SavedSearchMatches.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned SavedSearchMatches
+  **/
+  _count?: true | SavedSearchMatchCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: SavedSearchMatchMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: SavedSearchMatchMaxAggregateInputType
+}
+
+export type GetSavedSearchMatchAggregateType<T extends SavedSearchMatchAggregateArgs> = {
+      [P in keyof T & keyof AggregateSavedSearchMatch]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateSavedSearchMatch[P]>
+    : Prisma.GetScalarType<T[P], AggregateSavedSearchMatch[P]>
+}
+
+
+
+
+export type SavedSearchMatchGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.SavedSearchMatchWhereInput
+  orderBy?: Prisma.SavedSearchMatchOrderByWithAggregationInput | Prisma.SavedSearchMatchOrderByWithAggregationInput[]
+  by: Prisma.SavedSearchMatchScalarFieldEnum[] | Prisma.SavedSearchMatchScalarFieldEnum
+  having?: Prisma.SavedSearchMatchScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: SavedSearchMatchCountAggregateInputType | true
+  _min?: SavedSearchMatchMinAggregateInputType
+  _max?: SavedSearchMatchMaxAggregateInputType
+}
+
+export type SavedSearchMatchGroupByOutputType = {
+  savedSearchId: string
+  documentId: string
+  matchedAt: Date
+  seenAt: Date | null
+  _count: SavedSearchMatchCountAggregateOutputType | null
+  _min: SavedSearchMatchMinAggregateOutputType | null
+  _max: SavedSearchMatchMaxAggregateOutputType | null
+}
+
+type GetSavedSearchMatchGroupByPayload<T extends SavedSearchMatchGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<SavedSearchMatchGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof SavedSearchMatchGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], SavedSearchMatchGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], SavedSearchMatchGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type SavedSearchMatchWhereInput = {
+  AND?: Prisma.SavedSearchMatchWhereInput | Prisma.SavedSearchMatchWhereInput[]
+  OR?: Prisma.SavedSearchMatchWhereInput[]
+  NOT?: Prisma.SavedSearchMatchWhereInput | Prisma.SavedSearchMatchWhereInput[]
+  savedSearchId?: Prisma.StringFilter<"SavedSearchMatch"> | string
+  documentId?: Prisma.StringFilter<"SavedSearchMatch"> | string
+  matchedAt?: Prisma.DateTimeFilter<"SavedSearchMatch"> | Date | string
+  seenAt?: Prisma.DateTimeNullableFilter<"SavedSearchMatch"> | Date | string | null
+  savedSearch?: Prisma.XOR<Prisma.SavedSearchScalarRelationFilter, Prisma.SavedSearchWhereInput>
+  document?: Prisma.XOR<Prisma.DocumentScalarRelationFilter, Prisma.DocumentWhereInput>
+}
+
+export type SavedSearchMatchOrderByWithRelationInput = {
+  savedSearchId?: Prisma.SortOrder
+  documentId?: Prisma.SortOrder
+  matchedAt?: Prisma.SortOrder
+  seenAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  savedSearch?: Prisma.SavedSearchOrderByWithRelationInput
+  document?: Prisma.DocumentOrderByWithRelationInput
+}
+
+export type SavedSearchMatchWhereUniqueInput = Prisma.AtLeast<{
+  savedSearchId_documentId?: Prisma.SavedSearchMatchSavedSearchIdDocumentIdCompoundUniqueInput
+  AND?: Prisma.SavedSearchMatchWhereInput | Prisma.SavedSearchMatchWhereInput[]
+  OR?: Prisma.SavedSearchMatchWhereInput[]
+  NOT?: Prisma.SavedSearchMatchWhereInput | Prisma.SavedSearchMatchWhereInput[]
+  savedSearchId?: Prisma.StringFilter<"SavedSearchMatch"> | string
+  documentId?: Prisma.StringFilter<"SavedSearchMatch"> | string
+  matchedAt?: Prisma.DateTimeFilter<"SavedSearchMatch"> | Date | string
+  seenAt?: Prisma.DateTimeNullableFilter<"SavedSearchMatch"> | Date | string | null
+  savedSearch?: Prisma.XOR<Prisma.SavedSearchScalarRelationFilter, Prisma.SavedSearchWhereInput>
+  document?: Prisma.XOR<Prisma.DocumentScalarRelationFilter, Prisma.DocumentWhereInput>
+}, "savedSearchId_documentId">
+
+export type SavedSearchMatchOrderByWithAggregationInput = {
+  savedSearchId?: Prisma.SortOrder
+  documentId?: Prisma.SortOrder
+  matchedAt?: Prisma.SortOrder
+  seenAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  _count?: Prisma.SavedSearchMatchCountOrderByAggregateInput
+  _max?: Prisma.SavedSearchMatchMaxOrderByAggregateInput
+  _min?: Prisma.SavedSearchMatchMinOrderByAggregateInput
+}
+
+export type SavedSearchMatchScalarWhereWithAggregatesInput = {
+  AND?: Prisma.SavedSearchMatchScalarWhereWithAggregatesInput | Prisma.SavedSearchMatchScalarWhereWithAggregatesInput[]
+  OR?: Prisma.SavedSearchMatchScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.SavedSearchMatchScalarWhereWithAggregatesInput | Prisma.SavedSearchMatchScalarWhereWithAggregatesInput[]
+  savedSearchId?: Prisma.StringWithAggregatesFilter<"SavedSearchMatch"> | string
+  documentId?: Prisma.StringWithAggregatesFilter<"SavedSearchMatch"> | string
+  matchedAt?: Prisma.DateTimeWithAggregatesFilter<"SavedSearchMatch"> | Date | string
+  seenAt?: Prisma.DateTimeNullableWithAggregatesFilter<"SavedSearchMatch"> | Date | string | null
+}
+
+export type SavedSearchMatchCreateInput = {
+  matchedAt?: Date | string
+  seenAt?: Date | string | null
+  savedSearch: Prisma.SavedSearchCreateNestedOneWithoutMatchesInput
+  document: Prisma.DocumentCreateNestedOneWithoutSavedSearchMatchesInput
+}
+
+export type SavedSearchMatchUncheckedCreateInput = {
+  savedSearchId: string
+  documentId: string
+  matchedAt?: Date | string
+  seenAt?: Date | string | null
+}
+
+export type SavedSearchMatchUpdateInput = {
+  matchedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  seenAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  savedSearch?: Prisma.SavedSearchUpdateOneRequiredWithoutMatchesNestedInput
+  document?: Prisma.DocumentUpdateOneRequiredWithoutSavedSearchMatchesNestedInput
+}
+
+export type SavedSearchMatchUncheckedUpdateInput = {
+  savedSearchId?: Prisma.StringFieldUpdateOperationsInput | string
+  documentId?: Prisma.StringFieldUpdateOperationsInput | string
+  matchedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  seenAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+}
+
+export type SavedSearchMatchCreateManyInput = {
+  savedSearchId: string
+  documentId: string
+  matchedAt?: Date | string
+  seenAt?: Date | string | null
+}
+
+export type SavedSearchMatchUpdateManyMutationInput = {
+  matchedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  seenAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+}
+
+export type SavedSearchMatchUncheckedUpdateManyInput = {
+  savedSearchId?: Prisma.StringFieldUpdateOperationsInput | string
+  documentId?: Prisma.StringFieldUpdateOperationsInput | string
+  matchedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  seenAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+}
+
+export type SavedSearchMatchListRelationFilter = {
+  every?: Prisma.SavedSearchMatchWhereInput
+  some?: Prisma.SavedSearchMatchWhereInput
+  none?: Prisma.SavedSearchMatchWhereInput
+}
+
+export type SavedSearchMatchOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type SavedSearchMatchSavedSearchIdDocumentIdCompoundUniqueInput = {
+  savedSearchId: string
+  documentId: string
+}
+
+export type SavedSearchMatchCountOrderByAggregateInput = {
+  savedSearchId?: Prisma.SortOrder
+  documentId?: Prisma.SortOrder
+  matchedAt?: Prisma.SortOrder
+  seenAt?: Prisma.SortOrder
+}
+
+export type SavedSearchMatchMaxOrderByAggregateInput = {
+  savedSearchId?: Prisma.SortOrder
+  documentId?: Prisma.SortOrder
+  matchedAt?: Prisma.SortOrder
+  seenAt?: Prisma.SortOrder
+}
+
+export type SavedSearchMatchMinOrderByAggregateInput = {
+  savedSearchId?: Prisma.SortOrder
+  documentId?: Prisma.SortOrder
+  matchedAt?: Prisma.SortOrder
+  seenAt?: Prisma.SortOrder
+}
+
+export type SavedSearchMatchCreateNestedManyWithoutDocumentInput = {
+  create?: Prisma.XOR<Prisma.SavedSearchMatchCreateWithoutDocumentInput, Prisma.SavedSearchMatchUncheckedCreateWithoutDocumentInput> | Prisma.SavedSearchMatchCreateWithoutDocumentInput[] | Prisma.SavedSearchMatchUncheckedCreateWithoutDocumentInput[]
+  connectOrCreate?: Prisma.SavedSearchMatchCreateOrConnectWithoutDocumentInput | Prisma.SavedSearchMatchCreateOrConnectWithoutDocumentInput[]
+  createMany?: Prisma.SavedSearchMatchCreateManyDocumentInputEnvelope
+  connect?: Prisma.SavedSearchMatchWhereUniqueInput | Prisma.SavedSearchMatchWhereUniqueInput[]
+}
+
+export type SavedSearchMatchUncheckedCreateNestedManyWithoutDocumentInput = {
+  create?: Prisma.XOR<Prisma.SavedSearchMatchCreateWithoutDocumentInput, Prisma.SavedSearchMatchUncheckedCreateWithoutDocumentInput> | Prisma.SavedSearchMatchCreateWithoutDocumentInput[] | Prisma.SavedSearchMatchUncheckedCreateWithoutDocumentInput[]
+  connectOrCreate?: Prisma.SavedSearchMatchCreateOrConnectWithoutDocumentInput | Prisma.SavedSearchMatchCreateOrConnectWithoutDocumentInput[]
+  createMany?: Prisma.SavedSearchMatchCreateManyDocumentInputEnvelope
+  connect?: Prisma.SavedSearchMatchWhereUniqueInput | Prisma.SavedSearchMatchWhereUniqueInput[]
+}
+
+export type SavedSearchMatchUpdateManyWithoutDocumentNestedInput = {
+  create?: Prisma.XOR<Prisma.SavedSearchMatchCreateWithoutDocumentInput, Prisma.SavedSearchMatchUncheckedCreateWithoutDocumentInput> | Prisma.SavedSearchMatchCreateWithoutDocumentInput[] | Prisma.SavedSearchMatchUncheckedCreateWithoutDocumentInput[]
+  connectOrCreate?: Prisma.SavedSearchMatchCreateOrConnectWithoutDocumentInput | Prisma.SavedSearchMatchCreateOrConnectWithoutDocumentInput[]
+  upsert?: Prisma.SavedSearchMatchUpsertWithWhereUniqueWithoutDocumentInput | Prisma.SavedSearchMatchUpsertWithWhereUniqueWithoutDocumentInput[]
+  createMany?: Prisma.SavedSearchMatchCreateManyDocumentInputEnvelope
+  set?: Prisma.SavedSearchMatchWhereUniqueInput | Prisma.SavedSearchMatchWhereUniqueInput[]
+  disconnect?: Prisma.SavedSearchMatchWhereUniqueInput | Prisma.SavedSearchMatchWhereUniqueInput[]
+  delete?: Prisma.SavedSearchMatchWhereUniqueInput | Prisma.SavedSearchMatchWhereUniqueInput[]
+  connect?: Prisma.SavedSearchMatchWhereUniqueInput | Prisma.SavedSearchMatchWhereUniqueInput[]
+  update?: Prisma.SavedSearchMatchUpdateWithWhereUniqueWithoutDocumentInput | Prisma.SavedSearchMatchUpdateWithWhereUniqueWithoutDocumentInput[]
+  updateMany?: Prisma.SavedSearchMatchUpdateManyWithWhereWithoutDocumentInput | Prisma.SavedSearchMatchUpdateManyWithWhereWithoutDocumentInput[]
+  deleteMany?: Prisma.SavedSearchMatchScalarWhereInput | Prisma.SavedSearchMatchScalarWhereInput[]
+}
+
+export type SavedSearchMatchUncheckedUpdateManyWithoutDocumentNestedInput = {
+  create?: Prisma.XOR<Prisma.SavedSearchMatchCreateWithoutDocumentInput, Prisma.SavedSearchMatchUncheckedCreateWithoutDocumentInput> | Prisma.SavedSearchMatchCreateWithoutDocumentInput[] | Prisma.SavedSearchMatchUncheckedCreateWithoutDocumentInput[]
+  connectOrCreate?: Prisma.SavedSearchMatchCreateOrConnectWithoutDocumentInput | Prisma.SavedSearchMatchCreateOrConnectWithoutDocumentInput[]
+  upsert?: Prisma.SavedSearchMatchUpsertWithWhereUniqueWithoutDocumentInput | Prisma.SavedSearchMatchUpsertWithWhereUniqueWithoutDocumentInput[]
+  createMany?: Prisma.SavedSearchMatchCreateManyDocumentInputEnvelope
+  set?: Prisma.SavedSearchMatchWhereUniqueInput | Prisma.SavedSearchMatchWhereUniqueInput[]
+  disconnect?: Prisma.SavedSearchMatchWhereUniqueInput | Prisma.SavedSearchMatchWhereUniqueInput[]
+  delete?: Prisma.SavedSearchMatchWhereUniqueInput | Prisma.SavedSearchMatchWhereUniqueInput[]
+  connect?: Prisma.SavedSearchMatchWhereUniqueInput | Prisma.SavedSearchMatchWhereUniqueInput[]
+  update?: Prisma.SavedSearchMatchUpdateWithWhereUniqueWithoutDocumentInput | Prisma.SavedSearchMatchUpdateWithWhereUniqueWithoutDocumentInput[]
+  updateMany?: Prisma.SavedSearchMatchUpdateManyWithWhereWithoutDocumentInput | Prisma.SavedSearchMatchUpdateManyWithWhereWithoutDocumentInput[]
+  deleteMany?: Prisma.SavedSearchMatchScalarWhereInput | Prisma.SavedSearchMatchScalarWhereInput[]
+}
+
+export type SavedSearchMatchCreateNestedManyWithoutSavedSearchInput = {
+  create?: Prisma.XOR<Prisma.SavedSearchMatchCreateWithoutSavedSearchInput, Prisma.SavedSearchMatchUncheckedCreateWithoutSavedSearchInput> | Prisma.SavedSearchMatchCreateWithoutSavedSearchInput[] | Prisma.SavedSearchMatchUncheckedCreateWithoutSavedSearchInput[]
+  connectOrCreate?: Prisma.SavedSearchMatchCreateOrConnectWithoutSavedSearchInput | Prisma.SavedSearchMatchCreateOrConnectWithoutSavedSearchInput[]
+  createMany?: Prisma.SavedSearchMatchCreateManySavedSearchInputEnvelope
+  connect?: Prisma.SavedSearchMatchWhereUniqueInput | Prisma.SavedSearchMatchWhereUniqueInput[]
+}
+
+export type SavedSearchMatchUncheckedCreateNestedManyWithoutSavedSearchInput = {
+  create?: Prisma.XOR<Prisma.SavedSearchMatchCreateWithoutSavedSearchInput, Prisma.SavedSearchMatchUncheckedCreateWithoutSavedSearchInput> | Prisma.SavedSearchMatchCreateWithoutSavedSearchInput[] | Prisma.SavedSearchMatchUncheckedCreateWithoutSavedSearchInput[]
+  connectOrCreate?: Prisma.SavedSearchMatchCreateOrConnectWithoutSavedSearchInput | Prisma.SavedSearchMatchCreateOrConnectWithoutSavedSearchInput[]
+  createMany?: Prisma.SavedSearchMatchCreateManySavedSearchInputEnvelope
+  connect?: Prisma.SavedSearchMatchWhereUniqueInput | Prisma.SavedSearchMatchWhereUniqueInput[]
+}
+
+export type SavedSearchMatchUpdateManyWithoutSavedSearchNestedInput = {
+  create?: Prisma.XOR<Prisma.SavedSearchMatchCreateWithoutSavedSearchInput, Prisma.SavedSearchMatchUncheckedCreateWithoutSavedSearchInput> | Prisma.SavedSearchMatchCreateWithoutSavedSearchInput[] | Prisma.SavedSearchMatchUncheckedCreateWithoutSavedSearchInput[]
+  connectOrCreate?: Prisma.SavedSearchMatchCreateOrConnectWithoutSavedSearchInput | Prisma.SavedSearchMatchCreateOrConnectWithoutSavedSearchInput[]
+  upsert?: Prisma.SavedSearchMatchUpsertWithWhereUniqueWithoutSavedSearchInput | Prisma.SavedSearchMatchUpsertWithWhereUniqueWithoutSavedSearchInput[]
+  createMany?: Prisma.SavedSearchMatchCreateManySavedSearchInputEnvelope
+  set?: Prisma.SavedSearchMatchWhereUniqueInput | Prisma.SavedSearchMatchWhereUniqueInput[]
+  disconnect?: Prisma.SavedSearchMatchWhereUniqueInput | Prisma.SavedSearchMatchWhereUniqueInput[]
+  delete?: Prisma.SavedSearchMatchWhereUniqueInput | Prisma.SavedSearchMatchWhereUniqueInput[]
+  connect?: Prisma.SavedSearchMatchWhereUniqueInput | Prisma.SavedSearchMatchWhereUniqueInput[]
+  update?: Prisma.SavedSearchMatchUpdateWithWhereUniqueWithoutSavedSearchInput | Prisma.SavedSearchMatchUpdateWithWhereUniqueWithoutSavedSearchInput[]
+  updateMany?: Prisma.SavedSearchMatchUpdateManyWithWhereWithoutSavedSearchInput | Prisma.SavedSearchMatchUpdateManyWithWhereWithoutSavedSearchInput[]
+  deleteMany?: Prisma.SavedSearchMatchScalarWhereInput | Prisma.SavedSearchMatchScalarWhereInput[]
+}
+
+export type SavedSearchMatchUncheckedUpdateManyWithoutSavedSearchNestedInput = {
+  create?: Prisma.XOR<Prisma.SavedSearchMatchCreateWithoutSavedSearchInput, Prisma.SavedSearchMatchUncheckedCreateWithoutSavedSearchInput> | Prisma.SavedSearchMatchCreateWithoutSavedSearchInput[] | Prisma.SavedSearchMatchUncheckedCreateWithoutSavedSearchInput[]
+  connectOrCreate?: Prisma.SavedSearchMatchCreateOrConnectWithoutSavedSearchInput | Prisma.SavedSearchMatchCreateOrConnectWithoutSavedSearchInput[]
+  upsert?: Prisma.SavedSearchMatchUpsertWithWhereUniqueWithoutSavedSearchInput | Prisma.SavedSearchMatchUpsertWithWhereUniqueWithoutSavedSearchInput[]
+  createMany?: Prisma.SavedSearchMatchCreateManySavedSearchInputEnvelope
+  set?: Prisma.SavedSearchMatchWhereUniqueInput | Prisma.SavedSearchMatchWhereUniqueInput[]
+  disconnect?: Prisma.SavedSearchMatchWhereUniqueInput | Prisma.SavedSearchMatchWhereUniqueInput[]
+  delete?: Prisma.SavedSearchMatchWhereUniqueInput | Prisma.SavedSearchMatchWhereUniqueInput[]
+  connect?: Prisma.SavedSearchMatchWhereUniqueInput | Prisma.SavedSearchMatchWhereUniqueInput[]
+  update?: Prisma.SavedSearchMatchUpdateWithWhereUniqueWithoutSavedSearchInput | Prisma.SavedSearchMatchUpdateWithWhereUniqueWithoutSavedSearchInput[]
+  updateMany?: Prisma.SavedSearchMatchUpdateManyWithWhereWithoutSavedSearchInput | Prisma.SavedSearchMatchUpdateManyWithWhereWithoutSavedSearchInput[]
+  deleteMany?: Prisma.SavedSearchMatchScalarWhereInput | Prisma.SavedSearchMatchScalarWhereInput[]
+}
+
+export type SavedSearchMatchCreateWithoutDocumentInput = {
+  matchedAt?: Date | string
+  seenAt?: Date | string | null
+  savedSearch: Prisma.SavedSearchCreateNestedOneWithoutMatchesInput
+}
+
+export type SavedSearchMatchUncheckedCreateWithoutDocumentInput = {
+  savedSearchId: string
+  matchedAt?: Date | string
+  seenAt?: Date | string | null
+}
+
+export type SavedSearchMatchCreateOrConnectWithoutDocumentInput = {
+  where: Prisma.SavedSearchMatchWhereUniqueInput
+  create: Prisma.XOR<Prisma.SavedSearchMatchCreateWithoutDocumentInput, Prisma.SavedSearchMatchUncheckedCreateWithoutDocumentInput>
+}
+
+export type SavedSearchMatchCreateManyDocumentInputEnvelope = {
+  data: Prisma.SavedSearchMatchCreateManyDocumentInput | Prisma.SavedSearchMatchCreateManyDocumentInput[]
+  skipDuplicates?: boolean
+}
+
+export type SavedSearchMatchUpsertWithWhereUniqueWithoutDocumentInput = {
+  where: Prisma.SavedSearchMatchWhereUniqueInput
+  update: Prisma.XOR<Prisma.SavedSearchMatchUpdateWithoutDocumentInput, Prisma.SavedSearchMatchUncheckedUpdateWithoutDocumentInput>
+  create: Prisma.XOR<Prisma.SavedSearchMatchCreateWithoutDocumentInput, Prisma.SavedSearchMatchUncheckedCreateWithoutDocumentInput>
+}
+
+export type SavedSearchMatchUpdateWithWhereUniqueWithoutDocumentInput = {
+  where: Prisma.SavedSearchMatchWhereUniqueInput
+  data: Prisma.XOR<Prisma.SavedSearchMatchUpdateWithoutDocumentInput, Prisma.SavedSearchMatchUncheckedUpdateWithoutDocumentInput>
+}
+
+export type SavedSearchMatchUpdateManyWithWhereWithoutDocumentInput = {
+  where: Prisma.SavedSearchMatchScalarWhereInput
+  data: Prisma.XOR<Prisma.SavedSearchMatchUpdateManyMutationInput, Prisma.SavedSearchMatchUncheckedUpdateManyWithoutDocumentInput>
+}
+
+export type SavedSearchMatchScalarWhereInput = {
+  AND?: Prisma.SavedSearchMatchScalarWhereInput | Prisma.SavedSearchMatchScalarWhereInput[]
+  OR?: Prisma.SavedSearchMatchScalarWhereInput[]
+  NOT?: Prisma.SavedSearchMatchScalarWhereInput | Prisma.SavedSearchMatchScalarWhereInput[]
+  savedSearchId?: Prisma.StringFilter<"SavedSearchMatch"> | string
+  documentId?: Prisma.StringFilter<"SavedSearchMatch"> | string
+  matchedAt?: Prisma.DateTimeFilter<"SavedSearchMatch"> | Date | string
+  seenAt?: Prisma.DateTimeNullableFilter<"SavedSearchMatch"> | Date | string | null
+}
+
+export type SavedSearchMatchCreateWithoutSavedSearchInput = {
+  matchedAt?: Date | string
+  seenAt?: Date | string | null
+  document: Prisma.DocumentCreateNestedOneWithoutSavedSearchMatchesInput
+}
+
+export type SavedSearchMatchUncheckedCreateWithoutSavedSearchInput = {
+  documentId: string
+  matchedAt?: Date | string
+  seenAt?: Date | string | null
+}
+
+export type SavedSearchMatchCreateOrConnectWithoutSavedSearchInput = {
+  where: Prisma.SavedSearchMatchWhereUniqueInput
+  create: Prisma.XOR<Prisma.SavedSearchMatchCreateWithoutSavedSearchInput, Prisma.SavedSearchMatchUncheckedCreateWithoutSavedSearchInput>
+}
+
+export type SavedSearchMatchCreateManySavedSearchInputEnvelope = {
+  data: Prisma.SavedSearchMatchCreateManySavedSearchInput | Prisma.SavedSearchMatchCreateManySavedSearchInput[]
+  skipDuplicates?: boolean
+}
+
+export type SavedSearchMatchUpsertWithWhereUniqueWithoutSavedSearchInput = {
+  where: Prisma.SavedSearchMatchWhereUniqueInput
+  update: Prisma.XOR<Prisma.SavedSearchMatchUpdateWithoutSavedSearchInput, Prisma.SavedSearchMatchUncheckedUpdateWithoutSavedSearchInput>
+  create: Prisma.XOR<Prisma.SavedSearchMatchCreateWithoutSavedSearchInput, Prisma.SavedSearchMatchUncheckedCreateWithoutSavedSearchInput>
+}
+
+export type SavedSearchMatchUpdateWithWhereUniqueWithoutSavedSearchInput = {
+  where: Prisma.SavedSearchMatchWhereUniqueInput
+  data: Prisma.XOR<Prisma.SavedSearchMatchUpdateWithoutSavedSearchInput, Prisma.SavedSearchMatchUncheckedUpdateWithoutSavedSearchInput>
+}
+
+export type SavedSearchMatchUpdateManyWithWhereWithoutSavedSearchInput = {
+  where: Prisma.SavedSearchMatchScalarWhereInput
+  data: Prisma.XOR<Prisma.SavedSearchMatchUpdateManyMutationInput, Prisma.SavedSearchMatchUncheckedUpdateManyWithoutSavedSearchInput>
+}
+
+export type SavedSearchMatchCreateManyDocumentInput = {
+  savedSearchId: string
+  matchedAt?: Date | string
+  seenAt?: Date | string | null
+}
+
+export type SavedSearchMatchUpdateWithoutDocumentInput = {
+  matchedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  seenAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  savedSearch?: Prisma.SavedSearchUpdateOneRequiredWithoutMatchesNestedInput
+}
+
+export type SavedSearchMatchUncheckedUpdateWithoutDocumentInput = {
+  savedSearchId?: Prisma.StringFieldUpdateOperationsInput | string
+  matchedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  seenAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+}
+
+export type SavedSearchMatchUncheckedUpdateManyWithoutDocumentInput = {
+  savedSearchId?: Prisma.StringFieldUpdateOperationsInput | string
+  matchedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  seenAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+}
+
+export type SavedSearchMatchCreateManySavedSearchInput = {
+  documentId: string
+  matchedAt?: Date | string
+  seenAt?: Date | string | null
+}
+
+export type SavedSearchMatchUpdateWithoutSavedSearchInput = {
+  matchedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  seenAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  document?: Prisma.DocumentUpdateOneRequiredWithoutSavedSearchMatchesNestedInput
+}
+
+export type SavedSearchMatchUncheckedUpdateWithoutSavedSearchInput = {
+  documentId?: Prisma.StringFieldUpdateOperationsInput | string
+  matchedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  seenAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+}
+
+export type SavedSearchMatchUncheckedUpdateManyWithoutSavedSearchInput = {
+  documentId?: Prisma.StringFieldUpdateOperationsInput | string
+  matchedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  seenAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+}
+
+
+
+export type SavedSearchMatchSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  savedSearchId?: boolean
+  documentId?: boolean
+  matchedAt?: boolean
+  seenAt?: boolean
+  savedSearch?: boolean | Prisma.SavedSearchDefaultArgs<ExtArgs>
+  document?: boolean | Prisma.DocumentDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["savedSearchMatch"]>
+
+export type SavedSearchMatchSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  savedSearchId?: boolean
+  documentId?: boolean
+  matchedAt?: boolean
+  seenAt?: boolean
+  savedSearch?: boolean | Prisma.SavedSearchDefaultArgs<ExtArgs>
+  document?: boolean | Prisma.DocumentDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["savedSearchMatch"]>
+
+export type SavedSearchMatchSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  savedSearchId?: boolean
+  documentId?: boolean
+  matchedAt?: boolean
+  seenAt?: boolean
+  savedSearch?: boolean | Prisma.SavedSearchDefaultArgs<ExtArgs>
+  document?: boolean | Prisma.DocumentDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["savedSearchMatch"]>
+
+export type SavedSearchMatchSelectScalar = {
+  savedSearchId?: boolean
+  documentId?: boolean
+  matchedAt?: boolean
+  seenAt?: boolean
+}
+
+export type SavedSearchMatchOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"savedSearchId" | "documentId" | "matchedAt" | "seenAt", ExtArgs["result"]["savedSearchMatch"]>
+export type SavedSearchMatchInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  savedSearch?: boolean | Prisma.SavedSearchDefaultArgs<ExtArgs>
+  document?: boolean | Prisma.DocumentDefaultArgs<ExtArgs>
+}
+export type SavedSearchMatchIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  savedSearch?: boolean | Prisma.SavedSearchDefaultArgs<ExtArgs>
+  document?: boolean | Prisma.DocumentDefaultArgs<ExtArgs>
+}
+export type SavedSearchMatchIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  savedSearch?: boolean | Prisma.SavedSearchDefaultArgs<ExtArgs>
+  document?: boolean | Prisma.DocumentDefaultArgs<ExtArgs>
+}
+
+export type $SavedSearchMatchPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "SavedSearchMatch"
+  objects: {
+    savedSearch: Prisma.$SavedSearchPayload<ExtArgs>
+    document: Prisma.$DocumentPayload<ExtArgs>
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    savedSearchId: string
+    documentId: string
+    matchedAt: Date
+    seenAt: Date | null
+  }, ExtArgs["result"]["savedSearchMatch"]>
+  composites: {}
+}
+
+export type SavedSearchMatchGetPayload<S extends boolean | null | undefined | SavedSearchMatchDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$SavedSearchMatchPayload, S>
+
+export type SavedSearchMatchCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<SavedSearchMatchFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: SavedSearchMatchCountAggregateInputType | true
+  }
+
+export interface SavedSearchMatchDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['SavedSearchMatch'], meta: { name: 'SavedSearchMatch' } }
+  /**
+   * Find zero or one SavedSearchMatch that matches the filter.
+   * @param {SavedSearchMatchFindUniqueArgs} args - Arguments to find a SavedSearchMatch
+   * @example
+   * // Get one SavedSearchMatch
+   * const savedSearchMatch = await prisma.savedSearchMatch.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends SavedSearchMatchFindUniqueArgs>(args: Prisma.SelectSubset<T, SavedSearchMatchFindUniqueArgs<ExtArgs>>): Prisma.Prisma__SavedSearchMatchClient<runtime.Types.Result.GetResult<Prisma.$SavedSearchMatchPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one SavedSearchMatch that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {SavedSearchMatchFindUniqueOrThrowArgs} args - Arguments to find a SavedSearchMatch
+   * @example
+   * // Get one SavedSearchMatch
+   * const savedSearchMatch = await prisma.savedSearchMatch.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends SavedSearchMatchFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, SavedSearchMatchFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__SavedSearchMatchClient<runtime.Types.Result.GetResult<Prisma.$SavedSearchMatchPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first SavedSearchMatch that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SavedSearchMatchFindFirstArgs} args - Arguments to find a SavedSearchMatch
+   * @example
+   * // Get one SavedSearchMatch
+   * const savedSearchMatch = await prisma.savedSearchMatch.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends SavedSearchMatchFindFirstArgs>(args?: Prisma.SelectSubset<T, SavedSearchMatchFindFirstArgs<ExtArgs>>): Prisma.Prisma__SavedSearchMatchClient<runtime.Types.Result.GetResult<Prisma.$SavedSearchMatchPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first SavedSearchMatch that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SavedSearchMatchFindFirstOrThrowArgs} args - Arguments to find a SavedSearchMatch
+   * @example
+   * // Get one SavedSearchMatch
+   * const savedSearchMatch = await prisma.savedSearchMatch.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends SavedSearchMatchFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, SavedSearchMatchFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__SavedSearchMatchClient<runtime.Types.Result.GetResult<Prisma.$SavedSearchMatchPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more SavedSearchMatches that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SavedSearchMatchFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all SavedSearchMatches
+   * const savedSearchMatches = await prisma.savedSearchMatch.findMany()
+   * 
+   * // Get first 10 SavedSearchMatches
+   * const savedSearchMatches = await prisma.savedSearchMatch.findMany({ take: 10 })
+   * 
+   * // Only select the `savedSearchId`
+   * const savedSearchMatchWithSavedSearchIdOnly = await prisma.savedSearchMatch.findMany({ select: { savedSearchId: true } })
+   * 
+   */
+  findMany<T extends SavedSearchMatchFindManyArgs>(args?: Prisma.SelectSubset<T, SavedSearchMatchFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$SavedSearchMatchPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a SavedSearchMatch.
+   * @param {SavedSearchMatchCreateArgs} args - Arguments to create a SavedSearchMatch.
+   * @example
+   * // Create one SavedSearchMatch
+   * const SavedSearchMatch = await prisma.savedSearchMatch.create({
+   *   data: {
+   *     // ... data to create a SavedSearchMatch
+   *   }
+   * })
+   * 
+   */
+  create<T extends SavedSearchMatchCreateArgs>(args: Prisma.SelectSubset<T, SavedSearchMatchCreateArgs<ExtArgs>>): Prisma.Prisma__SavedSearchMatchClient<runtime.Types.Result.GetResult<Prisma.$SavedSearchMatchPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many SavedSearchMatches.
+   * @param {SavedSearchMatchCreateManyArgs} args - Arguments to create many SavedSearchMatches.
+   * @example
+   * // Create many SavedSearchMatches
+   * const savedSearchMatch = await prisma.savedSearchMatch.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends SavedSearchMatchCreateManyArgs>(args?: Prisma.SelectSubset<T, SavedSearchMatchCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many SavedSearchMatches and returns the data saved in the database.
+   * @param {SavedSearchMatchCreateManyAndReturnArgs} args - Arguments to create many SavedSearchMatches.
+   * @example
+   * // Create many SavedSearchMatches
+   * const savedSearchMatch = await prisma.savedSearchMatch.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many SavedSearchMatches and only return the `savedSearchId`
+   * const savedSearchMatchWithSavedSearchIdOnly = await prisma.savedSearchMatch.createManyAndReturn({
+   *   select: { savedSearchId: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends SavedSearchMatchCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, SavedSearchMatchCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$SavedSearchMatchPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a SavedSearchMatch.
+   * @param {SavedSearchMatchDeleteArgs} args - Arguments to delete one SavedSearchMatch.
+   * @example
+   * // Delete one SavedSearchMatch
+   * const SavedSearchMatch = await prisma.savedSearchMatch.delete({
+   *   where: {
+   *     // ... filter to delete one SavedSearchMatch
+   *   }
+   * })
+   * 
+   */
+  delete<T extends SavedSearchMatchDeleteArgs>(args: Prisma.SelectSubset<T, SavedSearchMatchDeleteArgs<ExtArgs>>): Prisma.Prisma__SavedSearchMatchClient<runtime.Types.Result.GetResult<Prisma.$SavedSearchMatchPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one SavedSearchMatch.
+   * @param {SavedSearchMatchUpdateArgs} args - Arguments to update one SavedSearchMatch.
+   * @example
+   * // Update one SavedSearchMatch
+   * const savedSearchMatch = await prisma.savedSearchMatch.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends SavedSearchMatchUpdateArgs>(args: Prisma.SelectSubset<T, SavedSearchMatchUpdateArgs<ExtArgs>>): Prisma.Prisma__SavedSearchMatchClient<runtime.Types.Result.GetResult<Prisma.$SavedSearchMatchPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more SavedSearchMatches.
+   * @param {SavedSearchMatchDeleteManyArgs} args - Arguments to filter SavedSearchMatches to delete.
+   * @example
+   * // Delete a few SavedSearchMatches
+   * const { count } = await prisma.savedSearchMatch.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends SavedSearchMatchDeleteManyArgs>(args?: Prisma.SelectSubset<T, SavedSearchMatchDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more SavedSearchMatches.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SavedSearchMatchUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many SavedSearchMatches
+   * const savedSearchMatch = await prisma.savedSearchMatch.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends SavedSearchMatchUpdateManyArgs>(args: Prisma.SelectSubset<T, SavedSearchMatchUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more SavedSearchMatches and returns the data updated in the database.
+   * @param {SavedSearchMatchUpdateManyAndReturnArgs} args - Arguments to update many SavedSearchMatches.
+   * @example
+   * // Update many SavedSearchMatches
+   * const savedSearchMatch = await prisma.savedSearchMatch.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more SavedSearchMatches and only return the `savedSearchId`
+   * const savedSearchMatchWithSavedSearchIdOnly = await prisma.savedSearchMatch.updateManyAndReturn({
+   *   select: { savedSearchId: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends SavedSearchMatchUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, SavedSearchMatchUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$SavedSearchMatchPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one SavedSearchMatch.
+   * @param {SavedSearchMatchUpsertArgs} args - Arguments to update or create a SavedSearchMatch.
+   * @example
+   * // Update or create a SavedSearchMatch
+   * const savedSearchMatch = await prisma.savedSearchMatch.upsert({
+   *   create: {
+   *     // ... data to create a SavedSearchMatch
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the SavedSearchMatch we want to update
+   *   }
+   * })
+   */
+  upsert<T extends SavedSearchMatchUpsertArgs>(args: Prisma.SelectSubset<T, SavedSearchMatchUpsertArgs<ExtArgs>>): Prisma.Prisma__SavedSearchMatchClient<runtime.Types.Result.GetResult<Prisma.$SavedSearchMatchPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of SavedSearchMatches.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SavedSearchMatchCountArgs} args - Arguments to filter SavedSearchMatches to count.
+   * @example
+   * // Count the number of SavedSearchMatches
+   * const count = await prisma.savedSearchMatch.count({
+   *   where: {
+   *     // ... the filter for the SavedSearchMatches we want to count
+   *   }
+   * })
+  **/
+  count<T extends SavedSearchMatchCountArgs>(
+    args?: Prisma.Subset<T, SavedSearchMatchCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], SavedSearchMatchCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a SavedSearchMatch.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SavedSearchMatchAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends SavedSearchMatchAggregateArgs>(args: Prisma.Subset<T, SavedSearchMatchAggregateArgs>): Prisma.PrismaPromise<GetSavedSearchMatchAggregateType<T>>
+
+  /**
+   * Group by SavedSearchMatch.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SavedSearchMatchGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends SavedSearchMatchGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: SavedSearchMatchGroupByArgs['orderBy'] }
+      : { orderBy?: SavedSearchMatchGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, SavedSearchMatchGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetSavedSearchMatchGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the SavedSearchMatch model
+ */
+readonly fields: SavedSearchMatchFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for SavedSearchMatch.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__SavedSearchMatchClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  savedSearch<T extends Prisma.SavedSearchDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.SavedSearchDefaultArgs<ExtArgs>>): Prisma.Prisma__SavedSearchClient<runtime.Types.Result.GetResult<Prisma.$SavedSearchPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  document<T extends Prisma.DocumentDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.DocumentDefaultArgs<ExtArgs>>): Prisma.Prisma__DocumentClient<runtime.Types.Result.GetResult<Prisma.$DocumentPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the SavedSearchMatch model
+ */
+export interface SavedSearchMatchFieldRefs {
+  readonly savedSearchId: Prisma.FieldRef<"SavedSearchMatch", 'String'>
+  readonly documentId: Prisma.FieldRef<"SavedSearchMatch", 'String'>
+  readonly matchedAt: Prisma.FieldRef<"SavedSearchMatch", 'DateTime'>
+  readonly seenAt: Prisma.FieldRef<"SavedSearchMatch", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * SavedSearchMatch findUnique
+ */
+export type SavedSearchMatchFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SavedSearchMatch
+   */
+  select?: Prisma.SavedSearchMatchSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SavedSearchMatch
+   */
+  omit?: Prisma.SavedSearchMatchOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SavedSearchMatchInclude<ExtArgs> | null
+  /**
+   * Filter, which SavedSearchMatch to fetch.
+   */
+  where: Prisma.SavedSearchMatchWhereUniqueInput
+}
+
+/**
+ * SavedSearchMatch findUniqueOrThrow
+ */
+export type SavedSearchMatchFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SavedSearchMatch
+   */
+  select?: Prisma.SavedSearchMatchSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SavedSearchMatch
+   */
+  omit?: Prisma.SavedSearchMatchOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SavedSearchMatchInclude<ExtArgs> | null
+  /**
+   * Filter, which SavedSearchMatch to fetch.
+   */
+  where: Prisma.SavedSearchMatchWhereUniqueInput
+}
+
+/**
+ * SavedSearchMatch findFirst
+ */
+export type SavedSearchMatchFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SavedSearchMatch
+   */
+  select?: Prisma.SavedSearchMatchSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SavedSearchMatch
+   */
+  omit?: Prisma.SavedSearchMatchOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SavedSearchMatchInclude<ExtArgs> | null
+  /**
+   * Filter, which SavedSearchMatch to fetch.
+   */
+  where?: Prisma.SavedSearchMatchWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of SavedSearchMatches to fetch.
+   */
+  orderBy?: Prisma.SavedSearchMatchOrderByWithRelationInput | Prisma.SavedSearchMatchOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for SavedSearchMatches.
+   */
+  cursor?: Prisma.SavedSearchMatchWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` SavedSearchMatches from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` SavedSearchMatches.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of SavedSearchMatches.
+   */
+  distinct?: Prisma.SavedSearchMatchScalarFieldEnum | Prisma.SavedSearchMatchScalarFieldEnum[]
+}
+
+/**
+ * SavedSearchMatch findFirstOrThrow
+ */
+export type SavedSearchMatchFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SavedSearchMatch
+   */
+  select?: Prisma.SavedSearchMatchSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SavedSearchMatch
+   */
+  omit?: Prisma.SavedSearchMatchOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SavedSearchMatchInclude<ExtArgs> | null
+  /**
+   * Filter, which SavedSearchMatch to fetch.
+   */
+  where?: Prisma.SavedSearchMatchWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of SavedSearchMatches to fetch.
+   */
+  orderBy?: Prisma.SavedSearchMatchOrderByWithRelationInput | Prisma.SavedSearchMatchOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for SavedSearchMatches.
+   */
+  cursor?: Prisma.SavedSearchMatchWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` SavedSearchMatches from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` SavedSearchMatches.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of SavedSearchMatches.
+   */
+  distinct?: Prisma.SavedSearchMatchScalarFieldEnum | Prisma.SavedSearchMatchScalarFieldEnum[]
+}
+
+/**
+ * SavedSearchMatch findMany
+ */
+export type SavedSearchMatchFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SavedSearchMatch
+   */
+  select?: Prisma.SavedSearchMatchSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SavedSearchMatch
+   */
+  omit?: Prisma.SavedSearchMatchOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SavedSearchMatchInclude<ExtArgs> | null
+  /**
+   * Filter, which SavedSearchMatches to fetch.
+   */
+  where?: Prisma.SavedSearchMatchWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of SavedSearchMatches to fetch.
+   */
+  orderBy?: Prisma.SavedSearchMatchOrderByWithRelationInput | Prisma.SavedSearchMatchOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing SavedSearchMatches.
+   */
+  cursor?: Prisma.SavedSearchMatchWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` SavedSearchMatches from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` SavedSearchMatches.
+   */
+  skip?: number
+  distinct?: Prisma.SavedSearchMatchScalarFieldEnum | Prisma.SavedSearchMatchScalarFieldEnum[]
+}
+
+/**
+ * SavedSearchMatch create
+ */
+export type SavedSearchMatchCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SavedSearchMatch
+   */
+  select?: Prisma.SavedSearchMatchSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SavedSearchMatch
+   */
+  omit?: Prisma.SavedSearchMatchOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SavedSearchMatchInclude<ExtArgs> | null
+  /**
+   * The data needed to create a SavedSearchMatch.
+   */
+  data: Prisma.XOR<Prisma.SavedSearchMatchCreateInput, Prisma.SavedSearchMatchUncheckedCreateInput>
+}
+
+/**
+ * SavedSearchMatch createMany
+ */
+export type SavedSearchMatchCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many SavedSearchMatches.
+   */
+  data: Prisma.SavedSearchMatchCreateManyInput | Prisma.SavedSearchMatchCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * SavedSearchMatch createManyAndReturn
+ */
+export type SavedSearchMatchCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SavedSearchMatch
+   */
+  select?: Prisma.SavedSearchMatchSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the SavedSearchMatch
+   */
+  omit?: Prisma.SavedSearchMatchOmit<ExtArgs> | null
+  /**
+   * The data used to create many SavedSearchMatches.
+   */
+  data: Prisma.SavedSearchMatchCreateManyInput | Prisma.SavedSearchMatchCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SavedSearchMatchIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * SavedSearchMatch update
+ */
+export type SavedSearchMatchUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SavedSearchMatch
+   */
+  select?: Prisma.SavedSearchMatchSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SavedSearchMatch
+   */
+  omit?: Prisma.SavedSearchMatchOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SavedSearchMatchInclude<ExtArgs> | null
+  /**
+   * The data needed to update a SavedSearchMatch.
+   */
+  data: Prisma.XOR<Prisma.SavedSearchMatchUpdateInput, Prisma.SavedSearchMatchUncheckedUpdateInput>
+  /**
+   * Choose, which SavedSearchMatch to update.
+   */
+  where: Prisma.SavedSearchMatchWhereUniqueInput
+}
+
+/**
+ * SavedSearchMatch updateMany
+ */
+export type SavedSearchMatchUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update SavedSearchMatches.
+   */
+  data: Prisma.XOR<Prisma.SavedSearchMatchUpdateManyMutationInput, Prisma.SavedSearchMatchUncheckedUpdateManyInput>
+  /**
+   * Filter which SavedSearchMatches to update
+   */
+  where?: Prisma.SavedSearchMatchWhereInput
+  /**
+   * Limit how many SavedSearchMatches to update.
+   */
+  limit?: number
+}
+
+/**
+ * SavedSearchMatch updateManyAndReturn
+ */
+export type SavedSearchMatchUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SavedSearchMatch
+   */
+  select?: Prisma.SavedSearchMatchSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the SavedSearchMatch
+   */
+  omit?: Prisma.SavedSearchMatchOmit<ExtArgs> | null
+  /**
+   * The data used to update SavedSearchMatches.
+   */
+  data: Prisma.XOR<Prisma.SavedSearchMatchUpdateManyMutationInput, Prisma.SavedSearchMatchUncheckedUpdateManyInput>
+  /**
+   * Filter which SavedSearchMatches to update
+   */
+  where?: Prisma.SavedSearchMatchWhereInput
+  /**
+   * Limit how many SavedSearchMatches to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SavedSearchMatchIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * SavedSearchMatch upsert
+ */
+export type SavedSearchMatchUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SavedSearchMatch
+   */
+  select?: Prisma.SavedSearchMatchSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SavedSearchMatch
+   */
+  omit?: Prisma.SavedSearchMatchOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SavedSearchMatchInclude<ExtArgs> | null
+  /**
+   * The filter to search for the SavedSearchMatch to update in case it exists.
+   */
+  where: Prisma.SavedSearchMatchWhereUniqueInput
+  /**
+   * In case the SavedSearchMatch found by the `where` argument doesn't exist, create a new SavedSearchMatch with this data.
+   */
+  create: Prisma.XOR<Prisma.SavedSearchMatchCreateInput, Prisma.SavedSearchMatchUncheckedCreateInput>
+  /**
+   * In case the SavedSearchMatch was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.SavedSearchMatchUpdateInput, Prisma.SavedSearchMatchUncheckedUpdateInput>
+}
+
+/**
+ * SavedSearchMatch delete
+ */
+export type SavedSearchMatchDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SavedSearchMatch
+   */
+  select?: Prisma.SavedSearchMatchSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SavedSearchMatch
+   */
+  omit?: Prisma.SavedSearchMatchOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SavedSearchMatchInclude<ExtArgs> | null
+  /**
+   * Filter which SavedSearchMatch to delete.
+   */
+  where: Prisma.SavedSearchMatchWhereUniqueInput
+}
+
+/**
+ * SavedSearchMatch deleteMany
+ */
+export type SavedSearchMatchDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which SavedSearchMatches to delete
+   */
+  where?: Prisma.SavedSearchMatchWhereInput
+  /**
+   * Limit how many SavedSearchMatches to delete.
+   */
+  limit?: number
+}
+
+/**
+ * SavedSearchMatch without action
+ */
+export type SavedSearchMatchDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SavedSearchMatch
+   */
+  select?: Prisma.SavedSearchMatchSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SavedSearchMatch
+   */
+  omit?: Prisma.SavedSearchMatchOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SavedSearchMatchInclude<ExtArgs> | null
+}
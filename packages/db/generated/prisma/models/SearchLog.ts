@@ -45,6 +45,7 @@ export type SearchLogMinAggregateOutputType = {
   resultCount: number | null
   duration: number | null
   status: string | null
+  fusionMode: string | null
   createdAt: Date | null
 }
 
@@ -57,6 +58,7 @@ export type SearchLogMaxAggregateOutputType = {
   resultCount: number | null
   duration: number | null
   status: string | null
+  fusionMode: string | null
   createdAt: Date | null
 }
 
@@ -69,6 +71,8 @@ export type SearchLogCountAggregateOutputType = {
   resultCount: number
   duration: number
   status: number
+  fusionMode: number
+  fusionParams: number
   createdAt: number
   _all: number
 }
@@ -93,6 +97,7 @@ export type SearchLogMinAggregateInputType = {
   resultCount?: true
   duration?: true
   status?: true
+  fusionMode?: true
   createdAt?: true
 }
 
@@ -105,6 +110,7 @@ export type SearchLogMaxAggregateInputType = {
   resultCount?: true
   duration?: true
   status?: true
+  fusionMode?: true
   createdAt?: true
 }
 
@@ -117,6 +123,8 @@ export type SearchLogCountAggregateInputType = {
   resultCount?: true
   duration?: true
   status?: true
+  fusionMode?: true
+  fusionParams?: true
   createdAt?: true
   _all?: true
 }
@@ -216,6 +224,8 @@ export type SearchLogGroupByOutputType = {
   resultCount: number
   duration: number
   status: string
+  fusionMode: string | null
+  fusionParams: runtime.JsonValue | null
   createdAt: Date
   _count: SearchLogCountAggregateOutputType | null
   _avg: SearchLogAvgAggregateOutputType | null
@@ -251,6 +261,8 @@ export type SearchLogWhereInput = {
   resultCount?: Prisma.IntFilter<"SearchLog"> | number
   duration?: Prisma.IntFilter<"SearchLog"> | number
   status?: Prisma.StringFilter<"SearchLog"> | string
+  fusionMode?: Prisma.StringNullableFilter<"SearchLog"> | string | null
+  fusionParams?: Prisma.JsonNullableFilter<"SearchLog">
   createdAt?: Prisma.DateTimeFilter<"SearchLog"> | Date | string
   tenant?: Prisma.XOR<Prisma.TenantScalarRelationFilter, Prisma.TenantWhereInput>
   user?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
@@ -265,6 +277,8 @@ export type SearchLogOrderByWithRelationInput = {
   resultCount?: Prisma.SortOrder
   duration?: Prisma.SortOrder
   status?: Prisma.SortOrder
+  fusionMode?: Prisma.SortOrderInput | Prisma.SortOrder
+  fusionParams?: Prisma.SortOrderInput | Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   tenant?: Prisma.TenantOrderByWithRelationInput
   user?: Prisma.UserOrderByWithRelationInput
@@ -282,6 +296,8 @@ export type SearchLogWhereUniqueInput = Prisma.AtLeast<{
   resultCount?: Prisma.IntFilter<"SearchLog"> | number
   duration?: Prisma.IntFilter<"SearchLog"> | number
   status?: Prisma.StringFilter<"SearchLog"> | string
+  fusionMode?: Prisma.StringNullableFilter<"SearchLog"> | string | null
+  fusionParams?: Prisma.JsonNullableFilter<"SearchLog">
   createdAt?: Prisma.DateTimeFilter<"SearchLog"> | Date | string
   tenant?: Prisma.XOR<Prisma.TenantScalarRelationFilter, Prisma.TenantWhereInput>
   user?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
@@ -296,6 +312,8 @@ export type SearchLogOrderByWithAggregationInput = {
   resultCount?: Prisma.SortOrder
   duration?: Prisma.SortOrder
   status?: Prisma.SortOrder
+  fusionMode?: Prisma.SortOrderInput | Prisma.SortOrder
+  fusionParams?: Prisma.SortOrderInput | Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   _count?: Prisma.SearchLogCountOrderByAggregateInput
   _avg?: Prisma.SearchLogAvgOrderByAggregateInput
@@ -316,6 +334,8 @@ export type SearchLogScalarWhereWithAggregatesInput = {
   resultCount?: Prisma.IntWithAggregatesFilter<"SearchLog"> | number
   duration?: Prisma.IntWithAggregatesFilter<"SearchLog"> | number
   status?: Prisma.StringWithAggregatesFilter<"SearchLog"> | string
+  fusionMode?: Prisma.StringNullableWithAggregatesFilter<"SearchLog"> | string | null
+  fusionParams?: Prisma.JsonNullableWithAggregatesFilter<"SearchLog">
   createdAt?: Prisma.DateTimeWithAggregatesFilter<"SearchLog"> | Date | string
 }
 
@@ -326,6 +346,8 @@ export type SearchLogCreateInput = {
   resultCount: number
   duration: number
   status: string
+  fusionMode?: string | null
+  fusionParams?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   createdAt?: Date | string
   tenant: Prisma.TenantCreateNestedOneWithoutSearchLogsInput
   user: Prisma.UserCreateNestedOneWithoutSearchLogsInput
@@ -340,6 +362,8 @@ export type SearchLogUncheckedCreateInput = {
   resultCount: number
   duration: number
   status: string
+  fusionMode?: string | null
+  fusionParams?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   createdAt?: Date | string
 }
 
@@ -350,6 +374,8 @@ export type SearchLogUpdateInput = {
   resultCount?: Prisma.IntFieldUpdateOperationsInput | number
   duration?: Prisma.IntFieldUpdateOperationsInput | number
   status?: Prisma.StringFieldUpdateOperationsInput | string
+  fusionMode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  fusionParams?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   tenant?: Prisma.TenantUpdateOneRequiredWithoutSearchLogsNestedInput
   user?: Prisma.UserUpdateOneRequiredWithoutSearchLogsNestedInput
@@ -364,6 +390,8 @@ export type SearchLogUncheckedUpdateInput = {
   resultCount?: Prisma.IntFieldUpdateOperationsInput | number
   duration?: Prisma.IntFieldUpdateOperationsInput | number
   status?: Prisma.StringFieldUpdateOperationsInput | string
+  fusionMode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  fusionParams?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
 
@@ -376,6 +404,8 @@ export type SearchLogCreateManyInput = {
   resultCount: number
   duration: number
   status: string
+  fusionMode?: string | null
+  fusionParams?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   createdAt?: Date | string
 }
 
@@ -386,6 +416,8 @@ export type SearchLogUpdateManyMutationInput = {
   resultCount?: Prisma.IntFieldUpdateOperationsInput | number
   duration?: Prisma.IntFieldUpdateOperationsInput | number
   status?: Prisma.StringFieldUpdateOperationsInput | string
+  fusionMode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  fusionParams?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
 
@@ -398,6 +430,8 @@ export type SearchLogUncheckedUpdateManyInput = {
   resultCount?: Prisma.IntFieldUpdateOperationsInput | number
   duration?: Prisma.IntFieldUpdateOperationsInput | number
   status?: Prisma.StringFieldUpdateOperationsInput | string
+  fusionMode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  fusionParams?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
 
@@ -420,6 +454,8 @@ export type SearchLogCountOrderByAggregateInput = {
   resultCount?: Prisma.SortOrder
   duration?: Prisma.SortOrder
   status?: Prisma.SortOrder
+  fusionMode?: Prisma.SortOrder
+  fusionParams?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
 }
 
@@ -437,6 +473,7 @@ export type SearchLogMaxOrderByAggregateInput = {
   resultCount?: Prisma.SortOrder
   duration?: Prisma.SortOrder
   status?: Prisma.SortOrder
+  fusionMode?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
 }
 
@@ -449,6 +486,7 @@ export type SearchLogMinOrderByAggregateInput = {
   resultCount?: Prisma.SortOrder
   duration?: Prisma.SortOrder
   status?: Prisma.SortOrder
+  fusionMode?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
 }
 
@@ -548,6 +586,8 @@ export type SearchLogCreateWithoutTenantInput = {
   resultCount: number
   duration: number
   status: string
+  fusionMode?: string | null
+  fusionParams?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   createdAt?: Date | string
   user: Prisma.UserCreateNestedOneWithoutSearchLogsInput
 }
@@ -560,6 +600,8 @@ export type SearchLogUncheckedCreateWithoutTenantInput = {
   resultCount: number
   duration: number
   status: string
+  fusionMode?: string | null
+  fusionParams?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   createdAt?: Date | string
 }
 
@@ -601,6 +643,8 @@ export type SearchLogScalarWhereInput = {
   resultCount?: Prisma.IntFilter<"SearchLog"> | number
   duration?: Prisma.IntFilter<"SearchLog"> | number
   status?: Prisma.StringFilter<"SearchLog"> | string
+  fusionMode?: Prisma.StringNullableFilter<"SearchLog"> | string | null
+  fusionParams?: Prisma.JsonNullableFilter<"SearchLog">
   createdAt?: Prisma.DateTimeFilter<"SearchLog"> | Date | string
 }
 
@@ -611,6 +655,8 @@ export type SearchLogCreateWithoutUserInput = {
   resultCount: number
   duration: number
   status: string
+  fusionMode?: string | null
+  fusionParams?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   createdAt?: Date | string
   tenant: Prisma.TenantCreateNestedOneWithoutSearchLogsInput
 }
@@ -623,6 +669,8 @@ export type SearchLogUncheckedCreateWithoutUserInput = {
   resultCount: number
   duration: number
   status: string
+  fusionMode?: string | null
+  fusionParams?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   createdAt?: Date | string
 }
 
@@ -660,6 +708,8 @@ export type SearchLogCreateManyTenantInput = {
   resultCount: number
   duration: number
   status: string
+  fusionMode?: string | null
+  fusionParams?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   createdAt?: Date | string
 }
 
@@ -670,6 +720,8 @@ export type SearchLogUpdateWithoutTenantInput = {
   resultCount?: Prisma.IntFieldUpdateOperationsInput | number
   duration?: Prisma.IntFieldUpdateOperationsInput | number
   status?: Prisma.StringFieldUpdateOperationsInput | string
+  fusionMode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  fusionParams?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   user?: Prisma.UserUpdateOneRequiredWithoutSearchLogsNestedInput
 }
@@ -682,6 +734,8 @@ export type SearchLogUncheckedUpdateWithoutTenantInput = {
   resultCount?: Prisma.IntFieldUpdateOperationsInput | number
   duration?: Prisma.IntFieldUpdateOperationsInput | number
   status?: Prisma.StringFieldUpdateOperationsInput | string
+  fusionMode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  fusionParams?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
 
@@ -693,6 +747,8 @@ export type SearchLogUncheckedUpdateManyWithoutTenantInput = {
   resultCount?: Prisma.IntFieldUpdateOperationsInput | number
   duration?: Prisma.IntFieldUpdateOperationsInput | number
   status?: Prisma.StringFieldUpdateOperationsInput | string
+  fusionMode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  fusionParams?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
 
@@ -704,6 +760,8 @@ export type SearchLogCreateManyUserInput = {
   resultCount: number
   duration: number
   status: string
+  fusionMode?: string | null
+  fusionParams?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   createdAt?: Date | string
 }
 
@@ -714,6 +772,8 @@ export type SearchLogUpdateWithoutUserInput = {
   resultCount?: Prisma.IntFieldUpdateOperationsInput | number
   duration?: Prisma.IntFieldUpdateOperationsInput | number
   status?: Prisma.StringFieldUpdateOperationsInput | string
+  fusionMode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  fusionParams?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   tenant?: Prisma.TenantUpdateOneRequiredWithoutSearchLogsNestedInput
 }
@@ -726,6 +786,8 @@ export type SearchLogUncheckedUpdateWithoutUserInput = {
   resultCount?: Prisma.IntFieldUpdateOperationsInput | number
   duration?: Prisma.IntFieldUpdateOperationsInput | number
   status?: Prisma.StringFieldUpdateOperationsInput | string
+  fusionMode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  fusionParams?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
 
@@ -737,6 +799,8 @@ export type SearchLogUncheckedUpdateManyWithoutUserInput = {
   resultCount?: Prisma.IntFieldUpdateOperationsInput | number
   duration?: Prisma.IntFieldUpdateOperationsInput | number
   status?: Prisma.StringFieldUpdateOperationsInput | string
+  fusionMode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  fusionParams?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
 
@@ -751,6 +815,8 @@ export type SearchLogSelect<ExtArgs extends runtime.Types.Extensions.InternalArg
   resultCount?: boolean
   duration?: boolean
   status?: boolean
+  fusionMode?: boolean
+  fusionParams?: boolean
   createdAt?: boolean
   tenant?: boolean | Prisma.TenantDefaultArgs<ExtArgs>
   user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
@@ -765,6 +831,8 @@ export type SearchLogSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Ext
   resultCount?: boolean
   duration?: boolean
   status?: boolean
+  fusionMode?: boolean
+  fusionParams?: boolean
   createdAt?: boolean
   tenant?: boolean | Prisma.TenantDefaultArgs<ExtArgs>
   user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
@@ -779,6 +847,8 @@ export type SearchLogSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Ext
   resultCount?: boolean
   duration?: boolean
   status?: boolean
+  fusionMode?: boolean
+  fusionParams?: boolean
   createdAt?: boolean
   tenant?: boolean | Prisma.TenantDefaultArgs<ExtArgs>
   user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
@@ -793,10 +863,12 @@ export type SearchLogSelectScalar = {
   resultCount?: boolean
   duration?: boolean
   status?: boolean
+  fusionMode?: boolean
+  fusionParams?: boolean
   createdAt?: boolean
 }
 
-export type SearchLogOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "tenantId" | "userId" | "query" | "searchType" | "resultCount" | "duration" | "status" | "createdAt", ExtArgs["result"]["searchLog"]>
+export type SearchLogOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "tenantId" | "userId" | "query" | "searchType" | "resultCount" | "duration" | "status" | "fusionMode" | "fusionParams" | "createdAt", ExtArgs["result"]["searchLog"]>
 export type SearchLogInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   tenant?: boolean | Prisma.TenantDefaultArgs<ExtArgs>
   user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
@@ -825,6 +897,8 @@ export type $SearchLogPayload<ExtArgs extends runtime.Types.Extensions.InternalA
     resultCount: number
     duration: number
     status: string
+    fusionMode: string | null
+    fusionParams: runtime.JsonValue | null
     createdAt: Date
   }, ExtArgs["result"]["searchLog"]>
   composites: {}
@@ -1259,6 +1333,8 @@ export interface SearchLogFieldRefs {
   readonly resultCount: Prisma.FieldRef<"SearchLog", 'Int'>
   readonly duration: Prisma.FieldRef<"SearchLog", 'Int'>
   readonly status: Prisma.FieldRef<"SearchLog", 'String'>
+  readonly fusionMode: Prisma.FieldRef<"SearchLog", 'String'>
+  readonly fusionParams: Prisma.FieldRef<"SearchLog", 'Json'>
   readonly createdAt: Prisma.FieldRef<"SearchLog", 'DateTime'>
 }
     
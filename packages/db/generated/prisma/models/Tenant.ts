@@ -20,15 +20,30 @@ export type TenantModel = runtime.Types.Result.DefaultSelection<Prisma.$TenantPa
 
 export type AggregateTenant = {
   _count: TenantCountAggregateOutputType | null
+  _avg: TenantAvgAggregateOutputType | null
+  _sum: TenantSumAggregateOutputType | null
   _min: TenantMinAggregateOutputType | null
   _max: TenantMaxAggregateOutputType | null
 }
 
+export type TenantAvgAggregateOutputType = {
+  summaryDailyTokenBudget: number | null
+}
+
+export type TenantSumAggregateOutputType = {
+  summaryDailyTokenBudget: number | null
+}
+
 export type TenantMinAggregateOutputType = {
   id: string | null
   name: string | null
   createdAt: Date | null
   updatedAt: Date | null
+  textSearchConfig: string | null
+  embeddingModel: string | null
+  llmModel: string | null
+  duplicateScanAt: Date | null
+  summaryDailyTokenBudget: number | null
 }
 
 export type TenantMaxAggregateOutputType = {
@@ -36,6 +51,11 @@ export type TenantMaxAggregateOutputType = {
   name: string | null
   createdAt: Date | null
   updatedAt: Date | null
+  textSearchConfig: string | null
+  embeddingModel: string | null
+  llmModel: string | null
+  duplicateScanAt: Date | null
+  summaryDailyTokenBudget: number | null
 }
 
 export type TenantCountAggregateOutputType = {
@@ -43,15 +63,35 @@ export type TenantCountAggregateOutputType = {
   name: number
   createdAt: number
   updatedAt: number
+  searchRankWeights: number
+  textSearchConfig: number
+  embeddingModel: number
+  hybridFusion: number
+  llmModel: number
+  duplicateScanAt: number
+  summaryDailyTokenBudget: number
   _all: number
 }
 
 
+export type TenantAvgAggregateInputType = {
+  summaryDailyTokenBudget?: true
+}
+
+export type TenantSumAggregateInputType = {
+  summaryDailyTokenBudget?: true
+}
+
 export type TenantMinAggregateInputType = {
   id?: true
   name?: true
   createdAt?: true
   updatedAt?: true
+  textSearchConfig?: true
+  embeddingModel?: true
+  llmModel?: true
+  duplicateScanAt?: true
+  summaryDailyTokenBudget?: true
 }
 
 export type TenantMaxAggregateInputType = {
@@ -59,6 +99,11 @@ export type TenantMaxAggregateInputType = {
   name?: true
   createdAt?: true
   updatedAt?: true
+  textSearchConfig?: true
+  embeddingModel?: true
+  llmModel?: true
+  duplicateScanAt?: true
+  summaryDailyTokenBudget?: true
 }
 
 export type TenantCountAggregateInputType = {
@@ -66,6 +111,13 @@ export type TenantCountAggregateInputType = {
   name?: true
   createdAt?: true
   updatedAt?: true
+  searchRankWeights?: true
+  textSearchConfig?: true
+  embeddingModel?: true
+  hybridFusion?: true
+  llmModel?: true
+  duplicateScanAt?: true
+  summaryDailyTokenBudget?: true
   _all?: true
 }
 
@@ -104,6 +156,18 @@ export type TenantAggregateArgs<ExtArgs extends runtime.Types.Extensions.Interna
    * Count returned Tenants
   **/
   _count?: true | TenantCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: TenantAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: TenantSumAggregateInputType
   /**
    * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
    * 
@@ -137,6 +201,8 @@ export type TenantGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalA
   take?: number
   skip?: number
   _count?: TenantCountAggregateInputType | true
+  _avg?: TenantAvgAggregateInputType
+  _sum?: TenantSumAggregateInputType
   _min?: TenantMinAggregateInputType
   _max?: TenantMaxAggregateInputType
 }
@@ -146,7 +212,16 @@ export type TenantGroupByOutputType = {
   name: string
   createdAt: Date
   updatedAt: Date
+  searchRankWeights: runtime.JsonValue | null
+  textSearchConfig: string
+  embeddingModel: string | null
+  hybridFusion: runtime.JsonValue | null
+  llmModel: string | null
+  duplicateScanAt: Date | null
+  summaryDailyTokenBudget: number | null
   _count: TenantCountAggregateOutputType | null
+  _avg: TenantAvgAggregateOutputType | null
+  _sum: TenantSumAggregateOutputType | null
   _min: TenantMinAggregateOutputType | null
   _max: TenantMaxAggregateOutputType | null
 }
@@ -174,11 +249,24 @@ export type TenantWhereInput = {
   name?: Prisma.StringFilter<"Tenant"> | string
   createdAt?: Prisma.DateTimeFilter<"Tenant"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"Tenant"> | Date | string
+  searchRankWeights?: Prisma.JsonNullableFilter<"Tenant">
+  textSearchConfig?: Prisma.StringFilter<"Tenant"> | string
+  embeddingModel?: Prisma.StringNullableFilter<"Tenant"> | string | null
+  hybridFusion?: Prisma.JsonNullableFilter<"Tenant">
+  llmModel?: Prisma.StringNullableFilter<"Tenant"> | string | null
+  duplicateScanAt?: Prisma.DateTimeNullableFilter<"Tenant"> | Date | string | null
+  summaryDailyTokenBudget?: Prisma.IntNullableFilter<"Tenant"> | number | null
   memberships?: Prisma.TenantMembershipListRelationFilter
   documents?: Prisma.DocumentListRelationFilter
   jobs?: Prisma.IndexJobListRelationFilter
   tags?: Prisma.TagListRelationFilter
   searchLogs?: Prisma.SearchLogListRelationFilter
+  embeddingMigrations?: Prisma.EmbeddingMigrationListRelationFilter
+  savedSearches?: Prisma.SavedSearchListRelationFilter
+  documentDuplicates?: Prisma.DocumentDuplicateListRelationFilter
+  qaThreads?: Prisma.QaThreadListRelationFilter
+  tokenUsage?: Prisma.TenantTokenUsageListRelationFilter
+  digests?: Prisma.WorkspaceDigestListRelationFilter
 }
 
 export type TenantOrderByWithRelationInput = {
@@ -186,11 +274,24 @@ export type TenantOrderByWithRelationInput = {
   name?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
+  searchRankWeights?: Prisma.SortOrderInput | Prisma.SortOrder
+  textSearchConfig?: Prisma.SortOrder
+  embeddingModel?: Prisma.SortOrderInput | Prisma.SortOrder
+  hybridFusion?: Prisma.SortOrderInput | Prisma.SortOrder
+  llmModel?: Prisma.SortOrderInput | Prisma.SortOrder
+  duplicateScanAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  summaryDailyTokenBudget?: Prisma.SortOrderInput | Prisma.SortOrder
   memberships?: Prisma.TenantMembershipOrderByRelationAggregateInput
   documents?: Prisma.DocumentOrderByRelationAggregateInput
   jobs?: Prisma.IndexJobOrderByRelationAggregateInput
   tags?: Prisma.TagOrderByRelationAggregateInput
   searchLogs?: Prisma.SearchLogOrderByRelationAggregateInput
+  embeddingMigrations?: Prisma.EmbeddingMigrationOrderByRelationAggregateInput
+  savedSearches?: Prisma.SavedSearchOrderByRelationAggregateInput
+  documentDuplicates?: Prisma.DocumentDuplicateOrderByRelationAggregateInput
+  qaThreads?: Prisma.QaThreadOrderByRelationAggregateInput
+  tokenUsage?: Prisma.TenantTokenUsageOrderByRelationAggregateInput
+  digests?: Prisma.WorkspaceDigestOrderByRelationAggregateInput
 }
 
 export type TenantWhereUniqueInput = Prisma.AtLeast<{
@@ -201,11 +302,24 @@ export type TenantWhereUniqueInput = Prisma.AtLeast<{
   name?: Prisma.StringFilter<"Tenant"> | string
   createdAt?: Prisma.DateTimeFilter<"Tenant"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"Tenant"> | Date | string
+  searchRankWeights?: Prisma.JsonNullableFilter<"Tenant">
+  textSearchConfig?: Prisma.StringFilter<"Tenant"> | string
+  embeddingModel?: Prisma.StringNullableFilter<"Tenant"> | string | null
+  hybridFusion?: Prisma.JsonNullableFilter<"Tenant">
+  llmModel?: Prisma.StringNullableFilter<"Tenant"> | string | null
+  duplicateScanAt?: Prisma.DateTimeNullableFilter<"Tenant"> | Date | string | null
+  summaryDailyTokenBudget?: Prisma.IntNullableFilter<"Tenant"> | number | null
   memberships?: Prisma.TenantMembershipListRelationFilter
   documents?: Prisma.DocumentListRelationFilter
   jobs?: Prisma.IndexJobListRelationFilter
   tags?: Prisma.TagListRelationFilter
   searchLogs?: Prisma.SearchLogListRelationFilter
+  embeddingMigrations?: Prisma.EmbeddingMigrationListRelationFilter
+  savedSearches?: Prisma.SavedSearchListRelationFilter
+  documentDuplicates?: Prisma.DocumentDuplicateListRelationFilter
+  qaThreads?: Prisma.QaThreadListRelationFilter
+  tokenUsage?: Prisma.TenantTokenUsageListRelationFilter
+  digests?: Prisma.WorkspaceDigestListRelationFilter
 }, "id">
 
 export type TenantOrderByWithAggregationInput = {
@@ -213,9 +327,18 @@ export type TenantOrderByWithAggregationInput = {
   name?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
+  searchRankWeights?: Prisma.SortOrderInput | Prisma.SortOrder
+  textSearchConfig?: Prisma.SortOrder
+  embeddingModel?: Prisma.SortOrderInput | Prisma.SortOrder
+  hybridFusion?: Prisma.SortOrderInput | Prisma.SortOrder
+  llmModel?: Prisma.SortOrderInput | Prisma.SortOrder
+  duplicateScanAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  summaryDailyTokenBudget?: Prisma.SortOrderInput | Prisma.SortOrder
   _count?: Prisma.TenantCountOrderByAggregateInput
+  _avg?: Prisma.TenantAvgOrderByAggregateInput
   _max?: Prisma.TenantMaxOrderByAggregateInput
   _min?: Prisma.TenantMinOrderByAggregateInput
+  _sum?: Prisma.TenantSumOrderByAggregateInput
 }
 
 export type TenantScalarWhereWithAggregatesInput = {
@@ -226,6 +349,13 @@ export type TenantScalarWhereWithAggregatesInput = {
   name?: Prisma.StringWithAggregatesFilter<"Tenant"> | string
   createdAt?: Prisma.DateTimeWithAggregatesFilter<"Tenant"> | Date | string
   updatedAt?: Prisma.DateTimeWithAggregatesFilter<"Tenant"> | Date | string
+  searchRankWeights?: Prisma.JsonNullableWithAggregatesFilter<"Tenant">
+  textSearchConfig?: Prisma.StringWithAggregatesFilter<"Tenant"> | string
+  embeddingModel?: Prisma.StringNullableWithAggregatesFilter<"Tenant"> | string | null
+  hybridFusion?: Prisma.JsonNullableWithAggregatesFilter<"Tenant">
+  llmModel?: Prisma.StringNullableWithAggregatesFilter<"Tenant"> | string | null
+  duplicateScanAt?: Prisma.DateTimeNullableWithAggregatesFilter<"Tenant"> | Date | string | null
+  summaryDailyTokenBudget?: Prisma.IntNullableWithAggregatesFilter<"Tenant"> | number | null
 }
 
 export type TenantCreateInput = {
@@ -233,11 +363,24 @@ export type TenantCreateInput = {
   name: string
   createdAt?: Date | string
   updatedAt?: Date | string
+  searchRankWeights?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  textSearchConfig?: string
+  embeddingModel?: string | null
+  hybridFusion?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  llmModel?: string | null
+  duplicateScanAt?: Date | string | null
+  summaryDailyTokenBudget?: number | null
   memberships?: Prisma.TenantMembershipCreateNestedManyWithoutTenantInput
   documents?: Prisma.DocumentCreateNestedManyWithoutTenantInput
   jobs?: Prisma.IndexJobCreateNestedManyWithoutTenantInput
   tags?: Prisma.TagCreateNestedManyWithoutTenantInput
   searchLogs?: Prisma.SearchLogCreateNestedManyWithoutTenantInput
+  embeddingMigrations?: Prisma.EmbeddingMigrationCreateNestedManyWithoutTenantInput
+  savedSearches?: Prisma.SavedSearchCreateNestedManyWithoutTenantInput
+  documentDuplicates?: Prisma.DocumentDuplicateCreateNestedManyWithoutTenantInput
+  qaThreads?: Prisma.QaThreadCreateNestedManyWithoutTenantInput
+  tokenUsage?: Prisma.TenantTokenUsageCreateNestedManyWithoutTenantInput
+  digests?: Prisma.WorkspaceDigestCreateNestedManyWithoutTenantInput
 }
 
 export type TenantUncheckedCreateInput = {
@@ -245,11 +388,24 @@ export type TenantUncheckedCreateInput = {
   name: string
   createdAt?: Date | string
   updatedAt?: Date | string
+  searchRankWeights?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  textSearchConfig?: string
+  embeddingModel?: string | null
+  hybridFusion?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  llmModel?: string | null
+  duplicateScanAt?: Date | string | null
+  summaryDailyTokenBudget?: number | null
   memberships?: Prisma.TenantMembershipUncheckedCreateNestedManyWithoutTenantInput
   documents?: Prisma.DocumentUncheckedCreateNestedManyWithoutTenantInput
   jobs?: Prisma.IndexJobUncheckedCreateNestedManyWithoutTenantInput
   tags?: Prisma.TagUncheckedCreateNestedManyWithoutTenantInput
   searchLogs?: Prisma.SearchLogUncheckedCreateNestedManyWithoutTenantInput
+  embeddingMigrations?: Prisma.EmbeddingMigrationUncheckedCreateNestedManyWithoutTenantInput
+  savedSearches?: Prisma.SavedSearchUncheckedCreateNestedManyWithoutTenantInput
+  documentDuplicates?: Prisma.DocumentDuplicateUncheckedCreateNestedManyWithoutTenantInput
+  qaThreads?: Prisma.QaThreadUncheckedCreateNestedManyWithoutTenantInput
+  tokenUsage?: Prisma.TenantTokenUsageUncheckedCreateNestedManyWithoutTenantInput
+  digests?: Prisma.WorkspaceDigestUncheckedCreateNestedManyWithoutTenantInput
 }
 
 export type TenantUpdateInput = {
@@ -257,11 +413,24 @@ export type TenantUpdateInput = {
   name?: Prisma.StringFieldUpdateOperationsInput | string
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  searchRankWeights?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  textSearchConfig?: Prisma.StringFieldUpdateOperationsInput | string
+  embeddingModel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  hybridFusion?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  llmModel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  duplicateScanAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  summaryDailyTokenBudget?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   memberships?: Prisma.TenantMembershipUpdateManyWithoutTenantNestedInput
   documents?: Prisma.DocumentUpdateManyWithoutTenantNestedInput
   jobs?: Prisma.IndexJobUpdateManyWithoutTenantNestedInput
   tags?: Prisma.TagUpdateManyWithoutTenantNestedInput
   searchLogs?: Prisma.SearchLogUpdateManyWithoutTenantNestedInput
+  embeddingMigrations?: Prisma.EmbeddingMigrationUpdateManyWithoutTenantNestedInput
+  savedSearches?: Prisma.SavedSearchUpdateManyWithoutTenantNestedInput
+  documentDuplicates?: Prisma.DocumentDuplicateUpdateManyWithoutTenantNestedInput
+  qaThreads?: Prisma.QaThreadUpdateManyWithoutTenantNestedInput
+  tokenUsage?: Prisma.TenantTokenUsageUpdateManyWithoutTenantNestedInput
+  digests?: Prisma.WorkspaceDigestUpdateManyWithoutTenantNestedInput
 }
 
 export type TenantUncheckedUpdateInput = {
@@ -269,11 +438,24 @@ export type TenantUncheckedUpdateInput = {
   name?: Prisma.StringFieldUpdateOperationsInput | string
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  searchRankWeights?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  textSearchConfig?: Prisma.StringFieldUpdateOperationsInput | string
+  embeddingModel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  hybridFusion?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  llmModel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  duplicateScanAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  summaryDailyTokenBudget?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   memberships?: Prisma.TenantMembershipUncheckedUpdateManyWithoutTenantNestedInput
   documents?: Prisma.DocumentUncheckedUpdateManyWithoutTenantNestedInput
   jobs?: Prisma.IndexJobUncheckedUpdateManyWithoutTenantNestedInput
   tags?: Prisma.TagUncheckedUpdateManyWithoutTenantNestedInput
   searchLogs?: Prisma.SearchLogUncheckedUpdateManyWithoutTenantNestedInput
+  embeddingMigrations?: Prisma.EmbeddingMigrationUncheckedUpdateManyWithoutTenantNestedInput
+  savedSearches?: Prisma.SavedSearchUncheckedUpdateManyWithoutTenantNestedInput
+  documentDuplicates?: Prisma.DocumentDuplicateUncheckedUpdateManyWithoutTenantNestedInput
+  qaThreads?: Prisma.QaThreadUncheckedUpdateManyWithoutTenantNestedInput
+  tokenUsage?: Prisma.TenantTokenUsageUncheckedUpdateManyWithoutTenantNestedInput
+  digests?: Prisma.WorkspaceDigestUncheckedUpdateManyWithoutTenantNestedInput
 }
 
 export type TenantCreateManyInput = {
@@ -281,6 +463,13 @@ export type TenantCreateManyInput = {
   name: string
   createdAt?: Date | string
   updatedAt?: Date | string
+  searchRankWeights?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  textSearchConfig?: string
+  embeddingModel?: string | null
+  hybridFusion?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  llmModel?: string | null
+  duplicateScanAt?: Date | string | null
+  summaryDailyTokenBudget?: number | null
 }
 
 export type TenantUpdateManyMutationInput = {
@@ -288,6 +477,13 @@ export type TenantUpdateManyMutationInput = {
   name?: Prisma.StringFieldUpdateOperationsInput | string
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  searchRankWeights?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  textSearchConfig?: Prisma.StringFieldUpdateOperationsInput | string
+  embeddingModel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  hybridFusion?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  llmModel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  duplicateScanAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  summaryDailyTokenBudget?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
 }
 
 export type TenantUncheckedUpdateManyInput = {
@@ -295,6 +491,13 @@ export type TenantUncheckedUpdateManyInput = {
   name?: Prisma.StringFieldUpdateOperationsInput | string
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  searchRankWeights?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  textSearchConfig?: Prisma.StringFieldUpdateOperationsInput | string
+  embeddingModel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  hybridFusion?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  llmModel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  duplicateScanAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  summaryDailyTokenBudget?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
 }
 
 export type TenantCountOrderByAggregateInput = {
@@ -302,6 +505,17 @@ export type TenantCountOrderByAggregateInput = {
   name?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
+  searchRankWeights?: Prisma.SortOrder
+  textSearchConfig?: Prisma.SortOrder
+  embeddingModel?: Prisma.SortOrder
+  hybridFusion?: Prisma.SortOrder
+  llmModel?: Prisma.SortOrder
+  duplicateScanAt?: Prisma.SortOrder
+  summaryDailyTokenBudget?: Prisma.SortOrder
+}
+
+export type TenantAvgOrderByAggregateInput = {
+  summaryDailyTokenBudget?: Prisma.SortOrder
 }
 
 export type TenantMaxOrderByAggregateInput = {
@@ -309,6 +523,11 @@ export type TenantMaxOrderByAggregateInput = {
   name?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
+  textSearchConfig?: Prisma.SortOrder
+  embeddingModel?: Prisma.SortOrder
+  llmModel?: Prisma.SortOrder
+  duplicateScanAt?: Prisma.SortOrder
+  summaryDailyTokenBudget?: Prisma.SortOrder
 }
 
 export type TenantMinOrderByAggregateInput = {
@@ -316,6 +535,15 @@ export type TenantMinOrderByAggregateInput = {
   name?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
+  textSearchConfig?: Prisma.SortOrder
+  embeddingModel?: Prisma.SortOrder
+  llmModel?: Prisma.SortOrder
+  duplicateScanAt?: Prisma.SortOrder
+  summaryDailyTokenBudget?: Prisma.SortOrder
+}
+
+export type TenantSumOrderByAggregateInput = {
+  summaryDailyTokenBudget?: Prisma.SortOrder
 }
 
 export type TenantScalarRelationFilter = {
@@ -331,6 +559,22 @@ export type DateTimeFieldUpdateOperationsInput = {
   set?: Date | string
 }
 
+export type NullableStringFieldUpdateOperationsInput = {
+  set?: string | null
+}
+
+export type NullableDateTimeFieldUpdateOperationsInput = {
+  set?: Date | string | null
+}
+
+export type NullableIntFieldUpdateOperationsInput = {
+  set?: number | null
+  increment?: number
+  decrement?: number
+  multiply?: number
+  divide?: number
+}
+
 export type TenantCreateNestedOneWithoutMembershipsInput = {
   create?: Prisma.XOR<Prisma.TenantCreateWithoutMembershipsInput, Prisma.TenantUncheckedCreateWithoutMembershipsInput>
   connectOrCreate?: Prisma.TenantCreateOrConnectWithoutMembershipsInput
@@ -373,6 +617,20 @@ export type TenantUpdateOneRequiredWithoutTagsNestedInput = {
   update?: Prisma.XOR<Prisma.XOR<Prisma.TenantUpdateToOneWithWhereWithoutTagsInput, Prisma.TenantUpdateWithoutTagsInput>, Prisma.TenantUncheckedUpdateWithoutTagsInput>
 }
 
+export type TenantCreateNestedOneWithoutEmbeddingMigrationsInput = {
+  create?: Prisma.XOR<Prisma.TenantCreateWithoutEmbeddingMigrationsInput, Prisma.TenantUncheckedCreateWithoutEmbeddingMigrationsInput>
+  connectOrCreate?: Prisma.TenantCreateOrConnectWithoutEmbeddingMigrationsInput
+  connect?: Prisma.TenantWhereUniqueInput
+}
+
+export type TenantUpdateOneRequiredWithoutEmbeddingMigrationsNestedInput = {
+  create?: Prisma.XOR<Prisma.TenantCreateWithoutEmbeddingMigrationsInput, Prisma.TenantUncheckedCreateWithoutEmbeddingMigrationsInput>
+  connectOrCreate?: Prisma.TenantCreateOrConnectWithoutEmbeddingMigrationsInput
+  upsert?: Prisma.TenantUpsertWithoutEmbeddingMigrationsInput
+  connect?: Prisma.TenantWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.TenantUpdateToOneWithWhereWithoutEmbeddingMigrationsInput, Prisma.TenantUpdateWithoutEmbeddingMigrationsInput>, Prisma.TenantUncheckedUpdateWithoutEmbeddingMigrationsInput>
+}
+
 export type TenantCreateNestedOneWithoutJobsInput = {
   create?: Prisma.XOR<Prisma.TenantCreateWithoutJobsInput, Prisma.TenantUncheckedCreateWithoutJobsInput>
   connectOrCreate?: Prisma.TenantCreateOrConnectWithoutJobsInput
@@ -401,15 +659,98 @@ export type TenantUpdateOneRequiredWithoutSearchLogsNestedInput = {
   update?: Prisma.XOR<Prisma.XOR<Prisma.TenantUpdateToOneWithWhereWithoutSearchLogsInput, Prisma.TenantUpdateWithoutSearchLogsInput>, Prisma.TenantUncheckedUpdateWithoutSearchLogsInput>
 }
 
+export type TenantCreateNestedOneWithoutSavedSearchesInput = {
+  create?: Prisma.XOR<Prisma.TenantCreateWithoutSavedSearchesInput, Prisma.TenantUncheckedCreateWithoutSavedSearchesInput>
+  connectOrCreate?: Prisma.TenantCreateOrConnectWithoutSavedSearchesInput
+  connect?: Prisma.TenantWhereUniqueInput
+}
+
+export type TenantUpdateOneRequiredWithoutSavedSearchesNestedInput = {
+  create?: Prisma.XOR<Prisma.TenantCreateWithoutSavedSearchesInput, Prisma.TenantUncheckedCreateWithoutSavedSearchesInput>
+  connectOrCreate?: Prisma.TenantCreateOrConnectWithoutSavedSearchesInput
+  upsert?: Prisma.TenantUpsertWithoutSavedSearchesInput
+  connect?: Prisma.TenantWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.TenantUpdateToOneWithWhereWithoutSavedSearchesInput, Prisma.TenantUpdateWithoutSavedSearchesInput>, Prisma.TenantUncheckedUpdateWithoutSavedSearchesInput>
+}
+
+export type TenantCreateNestedOneWithoutDocumentDuplicatesInput = {
+  create?: Prisma.XOR<Prisma.TenantCreateWithoutDocumentDuplicatesInput, Prisma.TenantUncheckedCreateWithoutDocumentDuplicatesInput>
+  connectOrCreate?: Prisma.TenantCreateOrConnectWithoutDocumentDuplicatesInput
+  connect?: Prisma.TenantWhereUniqueInput
+}
+
+export type TenantUpdateOneRequiredWithoutDocumentDuplicatesNestedInput = {
+  create?: Prisma.XOR<Prisma.TenantCreateWithoutDocumentDuplicatesInput, Prisma.TenantUncheckedCreateWithoutDocumentDuplicatesInput>
+  connectOrCreate?: Prisma.TenantCreateOrConnectWithoutDocumentDuplicatesInput
+  upsert?: Prisma.TenantUpsertWithoutDocumentDuplicatesInput
+  connect?: Prisma.TenantWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.TenantUpdateToOneWithWhereWithoutDocumentDuplicatesInput, Prisma.TenantUpdateWithoutDocumentDuplicatesInput>, Prisma.TenantUncheckedUpdateWithoutDocumentDuplicatesInput>
+}
+
+export type TenantCreateNestedOneWithoutQaThreadsInput = {
+  create?: Prisma.XOR<Prisma.TenantCreateWithoutQaThreadsInput, Prisma.TenantUncheckedCreateWithoutQaThreadsInput>
+  connectOrCreate?: Prisma.TenantCreateOrConnectWithoutQaThreadsInput
+  connect?: Prisma.TenantWhereUniqueInput
+}
+
+export type TenantUpdateOneRequiredWithoutQaThreadsNestedInput = {
+  create?: Prisma.XOR<Prisma.TenantCreateWithoutQaThreadsInput, Prisma.TenantUncheckedCreateWithoutQaThreadsInput>
+  connectOrCreate?: Prisma.TenantCreateOrConnectWithoutQaThreadsInput
+  upsert?: Prisma.TenantUpsertWithoutQaThreadsInput
+  connect?: Prisma.TenantWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.TenantUpdateToOneWithWhereWithoutQaThreadsInput, Prisma.TenantUpdateWithoutQaThreadsInput>, Prisma.TenantUncheckedUpdateWithoutQaThreadsInput>
+}
+
+export type TenantCreateNestedOneWithoutTokenUsageInput = {
+  create?: Prisma.XOR<Prisma.TenantCreateWithoutTokenUsageInput, Prisma.TenantUncheckedCreateWithoutTokenUsageInput>
+  connectOrCreate?: Prisma.TenantCreateOrConnectWithoutTokenUsageInput
+  connect?: Prisma.TenantWhereUniqueInput
+}
+
+export type TenantUpdateOneRequiredWithoutTokenUsageNestedInput = {
+  create?: Prisma.XOR<Prisma.TenantCreateWithoutTokenUsageInput, Prisma.TenantUncheckedCreateWithoutTokenUsageInput>
+  connectOrCreate?: Prisma.TenantCreateOrConnectWithoutTokenUsageInput
+  upsert?: Prisma.TenantUpsertWithoutTokenUsageInput
+  connect?: Prisma.TenantWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.TenantUpdateToOneWithWhereWithoutTokenUsageInput, Prisma.TenantUpdateWithoutTokenUsageInput>, Prisma.TenantUncheckedUpdateWithoutTokenUsageInput>
+}
+
+export type TenantCreateNestedOneWithoutDigestsInput = {
+  create?: Prisma.XOR<Prisma.TenantCreateWithoutDigestsInput, Prisma.TenantUncheckedCreateWithoutDigestsInput>
+  connectOrCreate?: Prisma.TenantCreateOrConnectWithoutDigestsInput
+  connect?: Prisma.TenantWhereUniqueInput
+}
+
+export type TenantUpdateOneRequiredWithoutDigestsNestedInput = {
+  create?: Prisma.XOR<Prisma.TenantCreateWithoutDigestsInput, Prisma.TenantUncheckedCreateWithoutDigestsInput>
+  connectOrCreate?: Prisma.TenantCreateOrConnectWithoutDigestsInput
+  upsert?: Prisma.TenantUpsertWithoutDigestsInput
+  connect?: Prisma.TenantWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.TenantUpdateToOneWithWhereWithoutDigestsInput, Prisma.TenantUpdateWithoutDigestsInput>, Prisma.TenantUncheckedUpdateWithoutDigestsInput>
+}
+
 export type TenantCreateWithoutMembershipsInput = {
   id?: string
   name: string
   createdAt?: Date | string
   updatedAt?: Date | string
+  searchRankWeights?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  textSearchConfig?: string
+  embeddingModel?: string | null
+  hybridFusion?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  llmModel?: string | null
+  duplicateScanAt?: Date | string | null
+  summaryDailyTokenBudget?: number | null
   documents?: Prisma.DocumentCreateNestedManyWithoutTenantInput
   jobs?: Prisma.IndexJobCreateNestedManyWithoutTenantInput
   tags?: Prisma.TagCreateNestedManyWithoutTenantInput
   searchLogs?: Prisma.SearchLogCreateNestedManyWithoutTenantInput
+  embeddingMigrations?: Prisma.EmbeddingMigrationCreateNestedManyWithoutTenantInput
+  savedSearches?: Prisma.SavedSearchCreateNestedManyWithoutTenantInput
+  documentDuplicates?: Prisma.DocumentDuplicateCreateNestedManyWithoutTenantInput
+  qaThreads?: Prisma.QaThreadCreateNestedManyWithoutTenantInput
+  tokenUsage?: Prisma.TenantTokenUsageCreateNestedManyWithoutTenantInput
+  digests?: Prisma.WorkspaceDigestCreateNestedManyWithoutTenantInput
 }
 
 export type TenantUncheckedCreateWithoutMembershipsInput = {
@@ -417,10 +758,23 @@ export type TenantUncheckedCreateWithoutMembershipsInput = {
   name: string
   createdAt?: Date | string
   updatedAt?: Date | string
+  searchRankWeights?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  textSearchConfig?: string
+  embeddingModel?: string | null
+  hybridFusion?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  llmModel?: string | null
+  duplicateScanAt?: Date | string | null
+  summaryDailyTokenBudget?: number | null
   documents?: Prisma.DocumentUncheckedCreateNestedManyWithoutTenantInput
   jobs?: Prisma.IndexJobUncheckedCreateNestedManyWithoutTenantInput
   tags?: Prisma.TagUncheckedCreateNestedManyWithoutTenantInput
   searchLogs?: Prisma.SearchLogUncheckedCreateNestedManyWithoutTenantInput
+  embeddingMigrations?: Prisma.EmbeddingMigrationUncheckedCreateNestedManyWithoutTenantInput
+  savedSearches?: Prisma.SavedSearchUncheckedCreateNestedManyWithoutTenantInput
+  documentDuplicates?: Prisma.DocumentDuplicateUncheckedCreateNestedManyWithoutTenantInput
+  qaThreads?: Prisma.QaThreadUncheckedCreateNestedManyWithoutTenantInput
+  tokenUsage?: Prisma.TenantTokenUsageUncheckedCreateNestedManyWithoutTenantInput
+  digests?: Prisma.WorkspaceDigestUncheckedCreateNestedManyWithoutTenantInput
 }
 
 export type TenantCreateOrConnectWithoutMembershipsInput = {
@@ -444,10 +798,23 @@ export type TenantUpdateWithoutMembershipsInput = {
   name?: Prisma.StringFieldUpdateOperationsInput | string
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  searchRankWeights?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  textSearchConfig?: Prisma.StringFieldUpdateOperationsInput | string
+  embeddingModel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  hybridFusion?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  llmModel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  duplicateScanAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  summaryDailyTokenBudget?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   documents?: Prisma.DocumentUpdateManyWithoutTenantNestedInput
   jobs?: Prisma.IndexJobUpdateManyWithoutTenantNestedInput
   tags?: Prisma.TagUpdateManyWithoutTenantNestedInput
   searchLogs?: Prisma.SearchLogUpdateManyWithoutTenantNestedInput
+  embeddingMigrations?: Prisma.EmbeddingMigrationUpdateManyWithoutTenantNestedInput
+  savedSearches?: Prisma.SavedSearchUpdateManyWithoutTenantNestedInput
+  documentDuplicates?: Prisma.DocumentDuplicateUpdateManyWithoutTenantNestedInput
+  qaThreads?: Prisma.QaThreadUpdateManyWithoutTenantNestedInput
+  tokenUsage?: Prisma.TenantTokenUsageUpdateManyWithoutTenantNestedInput
+  digests?: Prisma.WorkspaceDigestUpdateManyWithoutTenantNestedInput
 }
 
 export type TenantUncheckedUpdateWithoutMembershipsInput = {
@@ -455,10 +822,23 @@ export type TenantUncheckedUpdateWithoutMembershipsInput = {
   name?: Prisma.StringFieldUpdateOperationsInput | string
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  searchRankWeights?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  textSearchConfig?: Prisma.StringFieldUpdateOperationsInput | string
+  embeddingModel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  hybridFusion?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  llmModel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  duplicateScanAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  summaryDailyTokenBudget?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   documents?: Prisma.DocumentUncheckedUpdateManyWithoutTenantNestedInput
   jobs?: Prisma.IndexJobUncheckedUpdateManyWithoutTenantNestedInput
   tags?: Prisma.TagUncheckedUpdateManyWithoutTenantNestedInput
   searchLogs?: Prisma.SearchLogUncheckedUpdateManyWithoutTenantNestedInput
+  embeddingMigrations?: Prisma.EmbeddingMigrationUncheckedUpdateManyWithoutTenantNestedInput
+  savedSearches?: Prisma.SavedSearchUncheckedUpdateManyWithoutTenantNestedInput
+  documentDuplicates?: Prisma.DocumentDuplicateUncheckedUpdateManyWithoutTenantNestedInput
+  qaThreads?: Prisma.QaThreadUncheckedUpdateManyWithoutTenantNestedInput
+  tokenUsage?: Prisma.TenantTokenUsageUncheckedUpdateManyWithoutTenantNestedInput
+  digests?: Prisma.WorkspaceDigestUncheckedUpdateManyWithoutTenantNestedInput
 }
 
 export type TenantCreateWithoutDocumentsInput = {
@@ -466,10 +846,23 @@ export type TenantCreateWithoutDocumentsInput = {
   name: string
   createdAt?: Date | string
   updatedAt?: Date | string
+  searchRankWeights?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  textSearchConfig?: string
+  embeddingModel?: string | null
+  hybridFusion?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  llmModel?: string | null
+  duplicateScanAt?: Date | string | null
+  summaryDailyTokenBudget?: number | null
   memberships?: Prisma.TenantMembershipCreateNestedManyWithoutTenantInput
   jobs?: Prisma.IndexJobCreateNestedManyWithoutTenantInput
   tags?: Prisma.TagCreateNestedManyWithoutTenantInput
   searchLogs?: Prisma.SearchLogCreateNestedManyWithoutTenantInput
+  embeddingMigrations?: Prisma.EmbeddingMigrationCreateNestedManyWithoutTenantInput
+  savedSearches?: Prisma.SavedSearchCreateNestedManyWithoutTenantInput
+  documentDuplicates?: Prisma.DocumentDuplicateCreateNestedManyWithoutTenantInput
+  qaThreads?: Prisma.QaThreadCreateNestedManyWithoutTenantInput
+  tokenUsage?: Prisma.TenantTokenUsageCreateNestedManyWithoutTenantInput
+  digests?: Prisma.WorkspaceDigestCreateNestedManyWithoutTenantInput
 }
 
 export type TenantUncheckedCreateWithoutDocumentsInput = {
@@ -477,10 +870,23 @@ export type TenantUncheckedCreateWithoutDocumentsInput = {
   name: string
   createdAt?: Date | string
   updatedAt?: Date | string
+  searchRankWeights?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  textSearchConfig?: string
+  embeddingModel?: string | null
+  hybridFusion?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  llmModel?: string | null
+  duplicateScanAt?: Date | string | null
+  summaryDailyTokenBudget?: number | null
   memberships?: Prisma.TenantMembershipUncheckedCreateNestedManyWithoutTenantInput
   jobs?: Prisma.IndexJobUncheckedCreateNestedManyWithoutTenantInput
   tags?: Prisma.TagUncheckedCreateNestedManyWithoutTenantInput
   searchLogs?: Prisma.SearchLogUncheckedCreateNestedManyWithoutTenantInput
+  embeddingMigrations?: Prisma.EmbeddingMigrationUncheckedCreateNestedManyWithoutTenantInput
+  savedSearches?: Prisma.SavedSearchUncheckedCreateNestedManyWithoutTenantInput
+  documentDuplicates?: Prisma.DocumentDuplicateUncheckedCreateNestedManyWithoutTenantInput
+  qaThreads?: Prisma.QaThreadUncheckedCreateNestedManyWithoutTenantInput
+  tokenUsage?: Prisma.TenantTokenUsageUncheckedCreateNestedManyWithoutTenantInput
+  digests?: Prisma.WorkspaceDigestUncheckedCreateNestedManyWithoutTenantInput
 }
 
 export type TenantCreateOrConnectWithoutDocumentsInput = {
@@ -504,10 +910,23 @@ export type TenantUpdateWithoutDocumentsInput = {
   name?: Prisma.StringFieldUpdateOperationsInput | string
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  searchRankWeights?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  textSearchConfig?: Prisma.StringFieldUpdateOperationsInput | string
+  embeddingModel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  hybridFusion?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  llmModel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  duplicateScanAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  summaryDailyTokenBudget?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   memberships?: Prisma.TenantMembershipUpdateManyWithoutTenantNestedInput
   jobs?: Prisma.IndexJobUpdateManyWithoutTenantNestedInput
   tags?: Prisma.TagUpdateManyWithoutTenantNestedInput
   searchLogs?: Prisma.SearchLogUpdateManyWithoutTenantNestedInput
+  embeddingMigrations?: Prisma.EmbeddingMigrationUpdateManyWithoutTenantNestedInput
+  savedSearches?: Prisma.SavedSearchUpdateManyWithoutTenantNestedInput
+  documentDuplicates?: Prisma.DocumentDuplicateUpdateManyWithoutTenantNestedInput
+  qaThreads?: Prisma.QaThreadUpdateManyWithoutTenantNestedInput
+  tokenUsage?: Prisma.TenantTokenUsageUpdateManyWithoutTenantNestedInput
+  digests?: Prisma.WorkspaceDigestUpdateManyWithoutTenantNestedInput
 }
 
 export type TenantUncheckedUpdateWithoutDocumentsInput = {
@@ -515,10 +934,23 @@ export type TenantUncheckedUpdateWithoutDocumentsInput = {
   name?: Prisma.StringFieldUpdateOperationsInput | string
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  searchRankWeights?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  textSearchConfig?: Prisma.StringFieldUpdateOperationsInput | string
+  embeddingModel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  hybridFusion?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  llmModel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  duplicateScanAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  summaryDailyTokenBudget?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   memberships?: Prisma.TenantMembershipUncheckedUpdateManyWithoutTenantNestedInput
   jobs?: Prisma.IndexJobUncheckedUpdateManyWithoutTenantNestedInput
   tags?: Prisma.TagUncheckedUpdateManyWithoutTenantNestedInput
   searchLogs?: Prisma.SearchLogUncheckedUpdateManyWithoutTenantNestedInput
+  embeddingMigrations?: Prisma.EmbeddingMigrationUncheckedUpdateManyWithoutTenantNestedInput
+  savedSearches?: Prisma.SavedSearchUncheckedUpdateManyWithoutTenantNestedInput
+  documentDuplicates?: Prisma.DocumentDuplicateUncheckedUpdateManyWithoutTenantNestedInput
+  qaThreads?: Prisma.QaThreadUncheckedUpdateManyWithoutTenantNestedInput
+  tokenUsage?: Prisma.TenantTokenUsageUncheckedUpdateManyWithoutTenantNestedInput
+  digests?: Prisma.WorkspaceDigestUncheckedUpdateManyWithoutTenantNestedInput
 }
 
 export type TenantCreateWithoutTagsInput = {
@@ -526,10 +958,23 @@ export type TenantCreateWithoutTagsInput = {
   name: string
   createdAt?: Date | string
   updatedAt?: Date | string
+  searchRankWeights?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  textSearchConfig?: string
+  embeddingModel?: string | null
+  hybridFusion?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  llmModel?: string | null
+  duplicateScanAt?: Date | string | null
+  summaryDailyTokenBudget?: number | null
   memberships?: Prisma.TenantMembershipCreateNestedManyWithoutTenantInput
   documents?: Prisma.DocumentCreateNestedManyWithoutTenantInput
   jobs?: Prisma.IndexJobCreateNestedManyWithoutTenantInput
   searchLogs?: Prisma.SearchLogCreateNestedManyWithoutTenantInput
+  embeddingMigrations?: Prisma.EmbeddingMigrationCreateNestedManyWithoutTenantInput
+  savedSearches?: Prisma.SavedSearchCreateNestedManyWithoutTenantInput
+  documentDuplicates?: Prisma.DocumentDuplicateCreateNestedManyWithoutTenantInput
+  qaThreads?: Prisma.QaThreadCreateNestedManyWithoutTenantInput
+  tokenUsage?: Prisma.TenantTokenUsageCreateNestedManyWithoutTenantInput
+  digests?: Prisma.WorkspaceDigestCreateNestedManyWithoutTenantInput
 }
 
 export type TenantUncheckedCreateWithoutTagsInput = {
@@ -537,10 +982,23 @@ export type TenantUncheckedCreateWithoutTagsInput = {
   name: string
   createdAt?: Date | string
   updatedAt?: Date | string
+  searchRankWeights?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  textSearchConfig?: string
+  embeddingModel?: string | null
+  hybridFusion?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  llmModel?: string | null
+  duplicateScanAt?: Date | string | null
+  summaryDailyTokenBudget?: number | null
   memberships?: Prisma.TenantMembershipUncheckedCreateNestedManyWithoutTenantInput
   documents?: Prisma.DocumentUncheckedCreateNestedManyWithoutTenantInput
   jobs?: Prisma.IndexJobUncheckedCreateNestedManyWithoutTenantInput
   searchLogs?: Prisma.SearchLogUncheckedCreateNestedManyWithoutTenantInput
+  embeddingMigrations?: Prisma.EmbeddingMigrationUncheckedCreateNestedManyWithoutTenantInput
+  savedSearches?: Prisma.SavedSearchUncheckedCreateNestedManyWithoutTenantInput
+  documentDuplicates?: Prisma.DocumentDuplicateUncheckedCreateNestedManyWithoutTenantInput
+  qaThreads?: Prisma.QaThreadUncheckedCreateNestedManyWithoutTenantInput
+  tokenUsage?: Prisma.TenantTokenUsageUncheckedCreateNestedManyWithoutTenantInput
+  digests?: Prisma.WorkspaceDigestUncheckedCreateNestedManyWithoutTenantInput
 }
 
 export type TenantCreateOrConnectWithoutTagsInput = {
@@ -564,10 +1022,23 @@ export type TenantUpdateWithoutTagsInput = {
   name?: Prisma.StringFieldUpdateOperationsInput | string
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  searchRankWeights?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  textSearchConfig?: Prisma.StringFieldUpdateOperationsInput | string
+  embeddingModel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  hybridFusion?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  llmModel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  duplicateScanAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  summaryDailyTokenBudget?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   memberships?: Prisma.TenantMembershipUpdateManyWithoutTenantNestedInput
   documents?: Prisma.DocumentUpdateManyWithoutTenantNestedInput
   jobs?: Prisma.IndexJobUpdateManyWithoutTenantNestedInput
   searchLogs?: Prisma.SearchLogUpdateManyWithoutTenantNestedInput
+  embeddingMigrations?: Prisma.EmbeddingMigrationUpdateManyWithoutTenantNestedInput
+  savedSearches?: Prisma.SavedSearchUpdateManyWithoutTenantNestedInput
+  documentDuplicates?: Prisma.DocumentDuplicateUpdateManyWithoutTenantNestedInput
+  qaThreads?: Prisma.QaThreadUpdateManyWithoutTenantNestedInput
+  tokenUsage?: Prisma.TenantTokenUsageUpdateManyWithoutTenantNestedInput
+  digests?: Prisma.WorkspaceDigestUpdateManyWithoutTenantNestedInput
 }
 
 export type TenantUncheckedUpdateWithoutTagsInput = {
@@ -575,10 +1046,135 @@ export type TenantUncheckedUpdateWithoutTagsInput = {
   name?: Prisma.StringFieldUpdateOperationsInput | string
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  searchRankWeights?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  textSearchConfig?: Prisma.StringFieldUpdateOperationsInput | string
+  embeddingModel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  hybridFusion?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  llmModel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  duplicateScanAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  summaryDailyTokenBudget?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   memberships?: Prisma.TenantMembershipUncheckedUpdateManyWithoutTenantNestedInput
   documents?: Prisma.DocumentUncheckedUpdateManyWithoutTenantNestedInput
   jobs?: Prisma.IndexJobUncheckedUpdateManyWithoutTenantNestedInput
   searchLogs?: Prisma.SearchLogUncheckedUpdateManyWithoutTenantNestedInput
+  embeddingMigrations?: Prisma.EmbeddingMigrationUncheckedUpdateManyWithoutTenantNestedInput
+  savedSearches?: Prisma.SavedSearchUncheckedUpdateManyWithoutTenantNestedInput
+  documentDuplicates?: Prisma.DocumentDuplicateUncheckedUpdateManyWithoutTenantNestedInput
+  qaThreads?: Prisma.QaThreadUncheckedUpdateManyWithoutTenantNestedInput
+  tokenUsage?: Prisma.TenantTokenUsageUncheckedUpdateManyWithoutTenantNestedInput
+  digests?: Prisma.WorkspaceDigestUncheckedUpdateManyWithoutTenantNestedInput
+}
+
+export type TenantCreateWithoutEmbeddingMigrationsInput = {
+  id?: string
+  name: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  searchRankWeights?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  textSearchConfig?: string
+  embeddingModel?: string | null
+  hybridFusion?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  llmModel?: string | null
+  duplicateScanAt?: Date | string | null
+  summaryDailyTokenBudget?: number | null
+  memberships?: Prisma.TenantMembershipCreateNestedManyWithoutTenantInput
+  documents?: Prisma.DocumentCreateNestedManyWithoutTenantInput
+  jobs?: Prisma.IndexJobCreateNestedManyWithoutTenantInput
+  tags?: Prisma.TagCreateNestedManyWithoutTenantInput
+  searchLogs?: Prisma.SearchLogCreateNestedManyWithoutTenantInput
+  savedSearches?: Prisma.SavedSearchCreateNestedManyWithoutTenantInput
+  documentDuplicates?: Prisma.DocumentDuplicateCreateNestedManyWithoutTenantInput
+  qaThreads?: Prisma.QaThreadCreateNestedManyWithoutTenantInput
+  tokenUsage?: Prisma.TenantTokenUsageCreateNestedManyWithoutTenantInput
+  digests?: Prisma.WorkspaceDigestCreateNestedManyWithoutTenantInput
+}
+
+export type TenantUncheckedCreateWithoutEmbeddingMigrationsInput = {
+  id?: string
+  name: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  searchRankWeights?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  textSearchConfig?: string
+  embeddingModel?: string | null
+  hybridFusion?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  llmModel?: string | null
+  duplicateScanAt?: Date | string | null
+  summaryDailyTokenBudget?: number | null
+  memberships?: Prisma.TenantMembershipUncheckedCreateNestedManyWithoutTenantInput
+  documents?: Prisma.DocumentUncheckedCreateNestedManyWithoutTenantInput
+  jobs?: Prisma.IndexJobUncheckedCreateNestedManyWithoutTenantInput
+  tags?: Prisma.TagUncheckedCreateNestedManyWithoutTenantInput
+  searchLogs?: Prisma.SearchLogUncheckedCreateNestedManyWithoutTenantInput
+  savedSearches?: Prisma.SavedSearchUncheckedCreateNestedManyWithoutTenantInput
+  documentDuplicates?: Prisma.DocumentDuplicateUncheckedCreateNestedManyWithoutTenantInput
+  qaThreads?: Prisma.QaThreadUncheckedCreateNestedManyWithoutTenantInput
+  tokenUsage?: Prisma.TenantTokenUsageUncheckedCreateNestedManyWithoutTenantInput
+  digests?: Prisma.WorkspaceDigestUncheckedCreateNestedManyWithoutTenantInput
+}
+
+export type TenantCreateOrConnectWithoutEmbeddingMigrationsInput = {
+  where: Prisma.TenantWhereUniqueInput
+  create: Prisma.XOR<Prisma.TenantCreateWithoutEmbeddingMigrationsInput, Prisma.TenantUncheckedCreateWithoutEmbeddingMigrationsInput>
+}
+
+export type TenantUpsertWithoutEmbeddingMigrationsInput = {
+  update: Prisma.XOR<Prisma.TenantUpdateWithoutEmbeddingMigrationsInput, Prisma.TenantUncheckedUpdateWithoutEmbeddingMigrationsInput>
+  create: Prisma.XOR<Prisma.TenantCreateWithoutEmbeddingMigrationsInput, Prisma.TenantUncheckedCreateWithoutEmbeddingMigrationsInput>
+  where?: Prisma.TenantWhereInput
+}
+
+export type TenantUpdateToOneWithWhereWithoutEmbeddingMigrationsInput = {
+  where?: Prisma.TenantWhereInput
+  data: Prisma.XOR<Prisma.TenantUpdateWithoutEmbeddingMigrationsInput, Prisma.TenantUncheckedUpdateWithoutEmbeddingMigrationsInput>
+}
+
+export type TenantUpdateWithoutEmbeddingMigrationsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  searchRankWeights?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  textSearchConfig?: Prisma.StringFieldUpdateOperationsInput | string
+  embeddingModel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  hybridFusion?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  llmModel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  duplicateScanAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  summaryDailyTokenBudget?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  memberships?: Prisma.TenantMembershipUpdateManyWithoutTenantNestedInput
+  documents?: Prisma.DocumentUpdateManyWithoutTenantNestedInput
+  jobs?: Prisma.IndexJobUpdateManyWithoutTenantNestedInput
+  tags?: Prisma.TagUpdateManyWithoutTenantNestedInput
+  searchLogs?: Prisma.SearchLogUpdateManyWithoutTenantNestedInput
+  savedSearches?: Prisma.SavedSearchUpdateManyWithoutTenantNestedInput
+  documentDuplicates?: Prisma.DocumentDuplicateUpdateManyWithoutTenantNestedInput
+  qaThreads?: Prisma.QaThreadUpdateManyWithoutTenantNestedInput
+  tokenUsage?: Prisma.TenantTokenUsageUpdateManyWithoutTenantNestedInput
+  digests?: Prisma.WorkspaceDigestUpdateManyWithoutTenantNestedInput
+}
+
+export type TenantUncheckedUpdateWithoutEmbeddingMigrationsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  searchRankWeights?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  textSearchConfig?: Prisma.StringFieldUpdateOperationsInput | string
+  embeddingModel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  hybridFusion?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  llmModel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  duplicateScanAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  summaryDailyTokenBudget?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  memberships?: Prisma.TenantMembershipUncheckedUpdateManyWithoutTenantNestedInput
+  documents?: Prisma.DocumentUncheckedUpdateManyWithoutTenantNestedInput
+  jobs?: Prisma.IndexJobUncheckedUpdateManyWithoutTenantNestedInput
+  tags?: Prisma.TagUncheckedUpdateManyWithoutTenantNestedInput
+  searchLogs?: Prisma.SearchLogUncheckedUpdateManyWithoutTenantNestedInput
+  savedSearches?: Prisma.SavedSearchUncheckedUpdateManyWithoutTenantNestedInput
+  documentDuplicates?: Prisma.DocumentDuplicateUncheckedUpdateManyWithoutTenantNestedInput
+  qaThreads?: Prisma.QaThreadUncheckedUpdateManyWithoutTenantNestedInput
+  tokenUsage?: Prisma.TenantTokenUsageUncheckedUpdateManyWithoutTenantNestedInput
+  digests?: Prisma.WorkspaceDigestUncheckedUpdateManyWithoutTenantNestedInput
 }
 
 export type TenantCreateWithoutJobsInput = {
@@ -586,10 +1182,23 @@ export type TenantCreateWithoutJobsInput = {
   name: string
   createdAt?: Date | string
   updatedAt?: Date | string
+  searchRankWeights?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  textSearchConfig?: string
+  embeddingModel?: string | null
+  hybridFusion?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  llmModel?: string | null
+  duplicateScanAt?: Date | string | null
+  summaryDailyTokenBudget?: number | null
   memberships?: Prisma.TenantMembershipCreateNestedManyWithoutTenantInput
   documents?: Prisma.DocumentCreateNestedManyWithoutTenantInput
   tags?: Prisma.TagCreateNestedManyWithoutTenantInput
   searchLogs?: Prisma.SearchLogCreateNestedManyWithoutTenantInput
+  embeddingMigrations?: Prisma.EmbeddingMigrationCreateNestedManyWithoutTenantInput
+  savedSearches?: Prisma.SavedSearchCreateNestedManyWithoutTenantInput
+  documentDuplicates?: Prisma.DocumentDuplicateCreateNestedManyWithoutTenantInput
+  qaThreads?: Prisma.QaThreadCreateNestedManyWithoutTenantInput
+  tokenUsage?: Prisma.TenantTokenUsageCreateNestedManyWithoutTenantInput
+  digests?: Prisma.WorkspaceDigestCreateNestedManyWithoutTenantInput
 }
 
 export type TenantUncheckedCreateWithoutJobsInput = {
@@ -597,10 +1206,23 @@ export type TenantUncheckedCreateWithoutJobsInput = {
   name: string
   createdAt?: Date | string
   updatedAt?: Date | string
+  searchRankWeights?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  textSearchConfig?: string
+  embeddingModel?: string | null
+  hybridFusion?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  llmModel?: string | null
+  duplicateScanAt?: Date | string | null
+  summaryDailyTokenBudget?: number | null
   memberships?: Prisma.TenantMembershipUncheckedCreateNestedManyWithoutTenantInput
   documents?: Prisma.DocumentUncheckedCreateNestedManyWithoutTenantInput
   tags?: Prisma.TagUncheckedCreateNestedManyWithoutTenantInput
   searchLogs?: Prisma.SearchLogUncheckedCreateNestedManyWithoutTenantInput
+  embeddingMigrations?: Prisma.EmbeddingMigrationUncheckedCreateNestedManyWithoutTenantInput
+  savedSearches?: Prisma.SavedSearchUncheckedCreateNestedManyWithoutTenantInput
+  documentDuplicates?: Prisma.DocumentDuplicateUncheckedCreateNestedManyWithoutTenantInput
+  qaThreads?: Prisma.QaThreadUncheckedCreateNestedManyWithoutTenantInput
+  tokenUsage?: Prisma.TenantTokenUsageUncheckedCreateNestedManyWithoutTenantInput
+  digests?: Prisma.WorkspaceDigestUncheckedCreateNestedManyWithoutTenantInput
 }
 
 export type TenantCreateOrConnectWithoutJobsInput = {
@@ -624,10 +1246,23 @@ export type TenantUpdateWithoutJobsInput = {
   name?: Prisma.StringFieldUpdateOperationsInput | string
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  searchRankWeights?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  textSearchConfig?: Prisma.StringFieldUpdateOperationsInput | string
+  embeddingModel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  hybridFusion?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  llmModel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  duplicateScanAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  summaryDailyTokenBudget?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   memberships?: Prisma.TenantMembershipUpdateManyWithoutTenantNestedInput
   documents?: Prisma.DocumentUpdateManyWithoutTenantNestedInput
   tags?: Prisma.TagUpdateManyWithoutTenantNestedInput
   searchLogs?: Prisma.SearchLogUpdateManyWithoutTenantNestedInput
+  embeddingMigrations?: Prisma.EmbeddingMigrationUpdateManyWithoutTenantNestedInput
+  savedSearches?: Prisma.SavedSearchUpdateManyWithoutTenantNestedInput
+  documentDuplicates?: Prisma.DocumentDuplicateUpdateManyWithoutTenantNestedInput
+  qaThreads?: Prisma.QaThreadUpdateManyWithoutTenantNestedInput
+  tokenUsage?: Prisma.TenantTokenUsageUpdateManyWithoutTenantNestedInput
+  digests?: Prisma.WorkspaceDigestUpdateManyWithoutTenantNestedInput
 }
 
 export type TenantUncheckedUpdateWithoutJobsInput = {
@@ -635,10 +1270,23 @@ export type TenantUncheckedUpdateWithoutJobsInput = {
   name?: Prisma.StringFieldUpdateOperationsInput | string
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  searchRankWeights?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  textSearchConfig?: Prisma.StringFieldUpdateOperationsInput | string
+  embeddingModel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  hybridFusion?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  llmModel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  duplicateScanAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  summaryDailyTokenBudget?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   memberships?: Prisma.TenantMembershipUncheckedUpdateManyWithoutTenantNestedInput
   documents?: Prisma.DocumentUncheckedUpdateManyWithoutTenantNestedInput
   tags?: Prisma.TagUncheckedUpdateManyWithoutTenantNestedInput
   searchLogs?: Prisma.SearchLogUncheckedUpdateManyWithoutTenantNestedInput
+  embeddingMigrations?: Prisma.EmbeddingMigrationUncheckedUpdateManyWithoutTenantNestedInput
+  savedSearches?: Prisma.SavedSearchUncheckedUpdateManyWithoutTenantNestedInput
+  documentDuplicates?: Prisma.DocumentDuplicateUncheckedUpdateManyWithoutTenantNestedInput
+  qaThreads?: Prisma.QaThreadUncheckedUpdateManyWithoutTenantNestedInput
+  tokenUsage?: Prisma.TenantTokenUsageUncheckedUpdateManyWithoutTenantNestedInput
+  digests?: Prisma.WorkspaceDigestUncheckedUpdateManyWithoutTenantNestedInput
 }
 
 export type TenantCreateWithoutSearchLogsInput = {
@@ -646,10 +1294,23 @@ export type TenantCreateWithoutSearchLogsInput = {
   name: string
   createdAt?: Date | string
   updatedAt?: Date | string
+  searchRankWeights?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  textSearchConfig?: string
+  embeddingModel?: string | null
+  hybridFusion?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  llmModel?: string | null
+  duplicateScanAt?: Date | string | null
+  summaryDailyTokenBudget?: number | null
   memberships?: Prisma.TenantMembershipCreateNestedManyWithoutTenantInput
   documents?: Prisma.DocumentCreateNestedManyWithoutTenantInput
   jobs?: Prisma.IndexJobCreateNestedManyWithoutTenantInput
   tags?: Prisma.TagCreateNestedManyWithoutTenantInput
+  embeddingMigrations?: Prisma.EmbeddingMigrationCreateNestedManyWithoutTenantInput
+  savedSearches?: Prisma.SavedSearchCreateNestedManyWithoutTenantInput
+  documentDuplicates?: Prisma.DocumentDuplicateCreateNestedManyWithoutTenantInput
+  qaThreads?: Prisma.QaThreadCreateNestedManyWithoutTenantInput
+  tokenUsage?: Prisma.TenantTokenUsageCreateNestedManyWithoutTenantInput
+  digests?: Prisma.WorkspaceDigestCreateNestedManyWithoutTenantInput
 }
 
 export type TenantUncheckedCreateWithoutSearchLogsInput = {
@@ -657,10 +1318,23 @@ export type TenantUncheckedCreateWithoutSearchLogsInput = {
   name: string
   createdAt?: Date | string
   updatedAt?: Date | string
+  searchRankWeights?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  textSearchConfig?: string
+  embeddingModel?: string | null
+  hybridFusion?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  llmModel?: string | null
+  duplicateScanAt?: Date | string | null
+  summaryDailyTokenBudget?: number | null
   memberships?: Prisma.TenantMembershipUncheckedCreateNestedManyWithoutTenantInput
   documents?: Prisma.DocumentUncheckedCreateNestedManyWithoutTenantInput
   jobs?: Prisma.IndexJobUncheckedCreateNestedManyWithoutTenantInput
   tags?: Prisma.TagUncheckedCreateNestedManyWithoutTenantInput
+  embeddingMigrations?: Prisma.EmbeddingMigrationUncheckedCreateNestedManyWithoutTenantInput
+  savedSearches?: Prisma.SavedSearchUncheckedCreateNestedManyWithoutTenantInput
+  documentDuplicates?: Prisma.DocumentDuplicateUncheckedCreateNestedManyWithoutTenantInput
+  qaThreads?: Prisma.QaThreadUncheckedCreateNestedManyWithoutTenantInput
+  tokenUsage?: Prisma.TenantTokenUsageUncheckedCreateNestedManyWithoutTenantInput
+  digests?: Prisma.WorkspaceDigestUncheckedCreateNestedManyWithoutTenantInput
 }
 
 export type TenantCreateOrConnectWithoutSearchLogsInput = {
@@ -684,10 +1358,23 @@ export type TenantUpdateWithoutSearchLogsInput = {
   name?: Prisma.StringFieldUpdateOperationsInput | string
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  searchRankWeights?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  textSearchConfig?: Prisma.StringFieldUpdateOperationsInput | string
+  embeddingModel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  hybridFusion?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  llmModel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  duplicateScanAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  summaryDailyTokenBudget?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   memberships?: Prisma.TenantMembershipUpdateManyWithoutTenantNestedInput
   documents?: Prisma.DocumentUpdateManyWithoutTenantNestedInput
   jobs?: Prisma.IndexJobUpdateManyWithoutTenantNestedInput
   tags?: Prisma.TagUpdateManyWithoutTenantNestedInput
+  embeddingMigrations?: Prisma.EmbeddingMigrationUpdateManyWithoutTenantNestedInput
+  savedSearches?: Prisma.SavedSearchUpdateManyWithoutTenantNestedInput
+  documentDuplicates?: Prisma.DocumentDuplicateUpdateManyWithoutTenantNestedInput
+  qaThreads?: Prisma.QaThreadUpdateManyWithoutTenantNestedInput
+  tokenUsage?: Prisma.TenantTokenUsageUpdateManyWithoutTenantNestedInput
+  digests?: Prisma.WorkspaceDigestUpdateManyWithoutTenantNestedInput
 }
 
 export type TenantUncheckedUpdateWithoutSearchLogsInput = {
@@ -695,10 +1382,583 @@ export type TenantUncheckedUpdateWithoutSearchLogsInput = {
   name?: Prisma.StringFieldUpdateOperationsInput | string
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  searchRankWeights?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  textSearchConfig?: Prisma.StringFieldUpdateOperationsInput | string
+  embeddingModel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  hybridFusion?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  llmModel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  duplicateScanAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  summaryDailyTokenBudget?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  memberships?: Prisma.TenantMembershipUncheckedUpdateManyWithoutTenantNestedInput
+  documents?: Prisma.DocumentUncheckedUpdateManyWithoutTenantNestedInput
+  jobs?: Prisma.IndexJobUncheckedUpdateManyWithoutTenantNestedInput
+  tags?: Prisma.TagUncheckedUpdateManyWithoutTenantNestedInput
+  embeddingMigrations?: Prisma.EmbeddingMigrationUncheckedUpdateManyWithoutTenantNestedInput
+  savedSearches?: Prisma.SavedSearchUncheckedUpdateManyWithoutTenantNestedInput
+  documentDuplicates?: Prisma.DocumentDuplicateUncheckedUpdateManyWithoutTenantNestedInput
+  qaThreads?: Prisma.QaThreadUncheckedUpdateManyWithoutTenantNestedInput
+  tokenUsage?: Prisma.TenantTokenUsageUncheckedUpdateManyWithoutTenantNestedInput
+  digests?: Prisma.WorkspaceDigestUncheckedUpdateManyWithoutTenantNestedInput
+}
+
+export type TenantCreateWithoutSavedSearchesInput = {
+  id?: string
+  name: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  searchRankWeights?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  textSearchConfig?: string
+  embeddingModel?: string | null
+  hybridFusion?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  llmModel?: string | null
+  duplicateScanAt?: Date | string | null
+  summaryDailyTokenBudget?: number | null
+  memberships?: Prisma.TenantMembershipCreateNestedManyWithoutTenantInput
+  documents?: Prisma.DocumentCreateNestedManyWithoutTenantInput
+  jobs?: Prisma.IndexJobCreateNestedManyWithoutTenantInput
+  tags?: Prisma.TagCreateNestedManyWithoutTenantInput
+  searchLogs?: Prisma.SearchLogCreateNestedManyWithoutTenantInput
+  embeddingMigrations?: Prisma.EmbeddingMigrationCreateNestedManyWithoutTenantInput
+  documentDuplicates?: Prisma.DocumentDuplicateCreateNestedManyWithoutTenantInput
+  qaThreads?: Prisma.QaThreadCreateNestedManyWithoutTenantInput
+  tokenUsage?: Prisma.TenantTokenUsageCreateNestedManyWithoutTenantInput
+  digests?: Prisma.WorkspaceDigestCreateNestedManyWithoutTenantInput
+}
+
+export type TenantUncheckedCreateWithoutSavedSearchesInput = {
+  id?: string
+  name: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  searchRankWeights?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  textSearchConfig?: string
+  embeddingModel?: string | null
+  hybridFusion?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  llmModel?: string | null
+  duplicateScanAt?: Date | string | null
+  summaryDailyTokenBudget?: number | null
+  memberships?: Prisma.TenantMembershipUncheckedCreateNestedManyWithoutTenantInput
+  documents?: Prisma.DocumentUncheckedCreateNestedManyWithoutTenantInput
+  jobs?: Prisma.IndexJobUncheckedCreateNestedManyWithoutTenantInput
+  tags?: Prisma.TagUncheckedCreateNestedManyWithoutTenantInput
+  searchLogs?: Prisma.SearchLogUncheckedCreateNestedManyWithoutTenantInput
+  embeddingMigrations?: Prisma.EmbeddingMigrationUncheckedCreateNestedManyWithoutTenantInput
+  documentDuplicates?: Prisma.DocumentDuplicateUncheckedCreateNestedManyWithoutTenantInput
+  qaThreads?: Prisma.QaThreadUncheckedCreateNestedManyWithoutTenantInput
+  tokenUsage?: Prisma.TenantTokenUsageUncheckedCreateNestedManyWithoutTenantInput
+  digests?: Prisma.WorkspaceDigestUncheckedCreateNestedManyWithoutTenantInput
+}
+
+export type TenantCreateOrConnectWithoutSavedSearchesInput = {
+  where: Prisma.TenantWhereUniqueInput
+  create: Prisma.XOR<Prisma.TenantCreateWithoutSavedSearchesInput, Prisma.TenantUncheckedCreateWithoutSavedSearchesInput>
+}
+
+export type TenantUpsertWithoutSavedSearchesInput = {
+  update: Prisma.XOR<Prisma.TenantUpdateWithoutSavedSearchesInput, Prisma.TenantUncheckedUpdateWithoutSavedSearchesInput>
+  create: Prisma.XOR<Prisma.TenantCreateWithoutSavedSearchesInput, Prisma.TenantUncheckedCreateWithoutSavedSearchesInput>
+  where?: Prisma.TenantWhereInput
+}
+
+export type TenantUpdateToOneWithWhereWithoutSavedSearchesInput = {
+  where?: Prisma.TenantWhereInput
+  data: Prisma.XOR<Prisma.TenantUpdateWithoutSavedSearchesInput, Prisma.TenantUncheckedUpdateWithoutSavedSearchesInput>
+}
+
+export type TenantUpdateWithoutSavedSearchesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  searchRankWeights?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  textSearchConfig?: Prisma.StringFieldUpdateOperationsInput | string
+  embeddingModel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  hybridFusion?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  llmModel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  duplicateScanAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  summaryDailyTokenBudget?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  memberships?: Prisma.TenantMembershipUpdateManyWithoutTenantNestedInput
+  documents?: Prisma.DocumentUpdateManyWithoutTenantNestedInput
+  jobs?: Prisma.IndexJobUpdateManyWithoutTenantNestedInput
+  tags?: Prisma.TagUpdateManyWithoutTenantNestedInput
+  searchLogs?: Prisma.SearchLogUpdateManyWithoutTenantNestedInput
+  embeddingMigrations?: Prisma.EmbeddingMigrationUpdateManyWithoutTenantNestedInput
+  documentDuplicates?: Prisma.DocumentDuplicateUpdateManyWithoutTenantNestedInput
+  qaThreads?: Prisma.QaThreadUpdateManyWithoutTenantNestedInput
+  tokenUsage?: Prisma.TenantTokenUsageUpdateManyWithoutTenantNestedInput
+  digests?: Prisma.WorkspaceDigestUpdateManyWithoutTenantNestedInput
+}
+
+export type TenantUncheckedUpdateWithoutSavedSearchesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  searchRankWeights?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  textSearchConfig?: Prisma.StringFieldUpdateOperationsInput | string
+  embeddingModel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  hybridFusion?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  llmModel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  duplicateScanAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  summaryDailyTokenBudget?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  memberships?: Prisma.TenantMembershipUncheckedUpdateManyWithoutTenantNestedInput
+  documents?: Prisma.DocumentUncheckedUpdateManyWithoutTenantNestedInput
+  jobs?: Prisma.IndexJobUncheckedUpdateManyWithoutTenantNestedInput
+  tags?: Prisma.TagUncheckedUpdateManyWithoutTenantNestedInput
+  searchLogs?: Prisma.SearchLogUncheckedUpdateManyWithoutTenantNestedInput
+  embeddingMigrations?: Prisma.EmbeddingMigrationUncheckedUpdateManyWithoutTenantNestedInput
+  documentDuplicates?: Prisma.DocumentDuplicateUncheckedUpdateManyWithoutTenantNestedInput
+  qaThreads?: Prisma.QaThreadUncheckedUpdateManyWithoutTenantNestedInput
+  tokenUsage?: Prisma.TenantTokenUsageUncheckedUpdateManyWithoutTenantNestedInput
+  digests?: Prisma.WorkspaceDigestUncheckedUpdateManyWithoutTenantNestedInput
+}
+
+export type TenantCreateWithoutDocumentDuplicatesInput = {
+  id?: string
+  name: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  searchRankWeights?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  textSearchConfig?: string
+  embeddingModel?: string | null
+  hybridFusion?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  llmModel?: string | null
+  duplicateScanAt?: Date | string | null
+  summaryDailyTokenBudget?: number | null
+  memberships?: Prisma.TenantMembershipCreateNestedManyWithoutTenantInput
+  documents?: Prisma.DocumentCreateNestedManyWithoutTenantInput
+  jobs?: Prisma.IndexJobCreateNestedManyWithoutTenantInput
+  tags?: Prisma.TagCreateNestedManyWithoutTenantInput
+  searchLogs?: Prisma.SearchLogCreateNestedManyWithoutTenantInput
+  embeddingMigrations?: Prisma.EmbeddingMigrationCreateNestedManyWithoutTenantInput
+  savedSearches?: Prisma.SavedSearchCreateNestedManyWithoutTenantInput
+  qaThreads?: Prisma.QaThreadCreateNestedManyWithoutTenantInput
+  tokenUsage?: Prisma.TenantTokenUsageCreateNestedManyWithoutTenantInput
+  digests?: Prisma.WorkspaceDigestCreateNestedManyWithoutTenantInput
+}
+
+export type TenantUncheckedCreateWithoutDocumentDuplicatesInput = {
+  id?: string
+  name: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  searchRankWeights?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  textSearchConfig?: string
+  embeddingModel?: string | null
+  hybridFusion?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  llmModel?: string | null
+  duplicateScanAt?: Date | string | null
+  summaryDailyTokenBudget?: number | null
+  memberships?: Prisma.TenantMembershipUncheckedCreateNestedManyWithoutTenantInput
+  documents?: Prisma.DocumentUncheckedCreateNestedManyWithoutTenantInput
+  jobs?: Prisma.IndexJobUncheckedCreateNestedManyWithoutTenantInput
+  tags?: Prisma.TagUncheckedCreateNestedManyWithoutTenantInput
+  searchLogs?: Prisma.SearchLogUncheckedCreateNestedManyWithoutTenantInput
+  embeddingMigrations?: Prisma.EmbeddingMigrationUncheckedCreateNestedManyWithoutTenantInput
+  savedSearches?: Prisma.SavedSearchUncheckedCreateNestedManyWithoutTenantInput
+  qaThreads?: Prisma.QaThreadUncheckedCreateNestedManyWithoutTenantInput
+  tokenUsage?: Prisma.TenantTokenUsageUncheckedCreateNestedManyWithoutTenantInput
+  digests?: Prisma.WorkspaceDigestUncheckedCreateNestedManyWithoutTenantInput
+}
+
+export type TenantCreateOrConnectWithoutDocumentDuplicatesInput = {
+  where: Prisma.TenantWhereUniqueInput
+  create: Prisma.XOR<Prisma.TenantCreateWithoutDocumentDuplicatesInput, Prisma.TenantUncheckedCreateWithoutDocumentDuplicatesInput>
+}
+
+export type TenantUpsertWithoutDocumentDuplicatesInput = {
+  update: Prisma.XOR<Prisma.TenantUpdateWithoutDocumentDuplicatesInput, Prisma.TenantUncheckedUpdateWithoutDocumentDuplicatesInput>
+  create: Prisma.XOR<Prisma.TenantCreateWithoutDocumentDuplicatesInput, Prisma.TenantUncheckedCreateWithoutDocumentDuplicatesInput>
+  where?: Prisma.TenantWhereInput
+}
+
+export type TenantUpdateToOneWithWhereWithoutDocumentDuplicatesInput = {
+  where?: Prisma.TenantWhereInput
+  data: Prisma.XOR<Prisma.TenantUpdateWithoutDocumentDuplicatesInput, Prisma.TenantUncheckedUpdateWithoutDocumentDuplicatesInput>
+}
+
+export type TenantUpdateWithoutDocumentDuplicatesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  searchRankWeights?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  textSearchConfig?: Prisma.StringFieldUpdateOperationsInput | string
+  embeddingModel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  hybridFusion?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  llmModel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  duplicateScanAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  summaryDailyTokenBudget?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  memberships?: Prisma.TenantMembershipUpdateManyWithoutTenantNestedInput
+  documents?: Prisma.DocumentUpdateManyWithoutTenantNestedInput
+  jobs?: Prisma.IndexJobUpdateManyWithoutTenantNestedInput
+  tags?: Prisma.TagUpdateManyWithoutTenantNestedInput
+  searchLogs?: Prisma.SearchLogUpdateManyWithoutTenantNestedInput
+  embeddingMigrations?: Prisma.EmbeddingMigrationUpdateManyWithoutTenantNestedInput
+  savedSearches?: Prisma.SavedSearchUpdateManyWithoutTenantNestedInput
+  qaThreads?: Prisma.QaThreadUpdateManyWithoutTenantNestedInput
+  tokenUsage?: Prisma.TenantTokenUsageUpdateManyWithoutTenantNestedInput
+  digests?: Prisma.WorkspaceDigestUpdateManyWithoutTenantNestedInput
+}
+
+export type TenantUncheckedUpdateWithoutDocumentDuplicatesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  searchRankWeights?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  textSearchConfig?: Prisma.StringFieldUpdateOperationsInput | string
+  embeddingModel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  hybridFusion?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  llmModel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  duplicateScanAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  summaryDailyTokenBudget?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  memberships?: Prisma.TenantMembershipUncheckedUpdateManyWithoutTenantNestedInput
+  documents?: Prisma.DocumentUncheckedUpdateManyWithoutTenantNestedInput
+  jobs?: Prisma.IndexJobUncheckedUpdateManyWithoutTenantNestedInput
+  tags?: Prisma.TagUncheckedUpdateManyWithoutTenantNestedInput
+  searchLogs?: Prisma.SearchLogUncheckedUpdateManyWithoutTenantNestedInput
+  embeddingMigrations?: Prisma.EmbeddingMigrationUncheckedUpdateManyWithoutTenantNestedInput
+  savedSearches?: Prisma.SavedSearchUncheckedUpdateManyWithoutTenantNestedInput
+  qaThreads?: Prisma.QaThreadUncheckedUpdateManyWithoutTenantNestedInput
+  tokenUsage?: Prisma.TenantTokenUsageUncheckedUpdateManyWithoutTenantNestedInput
+  digests?: Prisma.WorkspaceDigestUncheckedUpdateManyWithoutTenantNestedInput
+}
+
+export type TenantCreateWithoutQaThreadsInput = {
+  id?: string
+  name: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  searchRankWeights?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  textSearchConfig?: string
+  embeddingModel?: string | null
+  hybridFusion?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  llmModel?: string | null
+  duplicateScanAt?: Date | string | null
+  summaryDailyTokenBudget?: number | null
+  memberships?: Prisma.TenantMembershipCreateNestedManyWithoutTenantInput
+  documents?: Prisma.DocumentCreateNestedManyWithoutTenantInput
+  jobs?: Prisma.IndexJobCreateNestedManyWithoutTenantInput
+  tags?: Prisma.TagCreateNestedManyWithoutTenantInput
+  searchLogs?: Prisma.SearchLogCreateNestedManyWithoutTenantInput
+  embeddingMigrations?: Prisma.EmbeddingMigrationCreateNestedManyWithoutTenantInput
+  savedSearches?: Prisma.SavedSearchCreateNestedManyWithoutTenantInput
+  documentDuplicates?: Prisma.DocumentDuplicateCreateNestedManyWithoutTenantInput
+  tokenUsage?: Prisma.TenantTokenUsageCreateNestedManyWithoutTenantInput
+  digests?: Prisma.WorkspaceDigestCreateNestedManyWithoutTenantInput
+}
+
+export type TenantUncheckedCreateWithoutQaThreadsInput = {
+  id?: string
+  name: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  searchRankWeights?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  textSearchConfig?: string
+  embeddingModel?: string | null
+  hybridFusion?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  llmModel?: string | null
+  duplicateScanAt?: Date | string | null
+  summaryDailyTokenBudget?: number | null
+  memberships?: Prisma.TenantMembershipUncheckedCreateNestedManyWithoutTenantInput
+  documents?: Prisma.DocumentUncheckedCreateNestedManyWithoutTenantInput
+  jobs?: Prisma.IndexJobUncheckedCreateNestedManyWithoutTenantInput
+  tags?: Prisma.TagUncheckedCreateNestedManyWithoutTenantInput
+  searchLogs?: Prisma.SearchLogUncheckedCreateNestedManyWithoutTenantInput
+  embeddingMigrations?: Prisma.EmbeddingMigrationUncheckedCreateNestedManyWithoutTenantInput
+  savedSearches?: Prisma.SavedSearchUncheckedCreateNestedManyWithoutTenantInput
+  documentDuplicates?: Prisma.DocumentDuplicateUncheckedCreateNestedManyWithoutTenantInput
+  tokenUsage?: Prisma.TenantTokenUsageUncheckedCreateNestedManyWithoutTenantInput
+  digests?: Prisma.WorkspaceDigestUncheckedCreateNestedManyWithoutTenantInput
+}
+
+export type TenantCreateOrConnectWithoutQaThreadsInput = {
+  where: Prisma.TenantWhereUniqueInput
+  create: Prisma.XOR<Prisma.TenantCreateWithoutQaThreadsInput, Prisma.TenantUncheckedCreateWithoutQaThreadsInput>
+}
+
+export type TenantUpsertWithoutQaThreadsInput = {
+  update: Prisma.XOR<Prisma.TenantUpdateWithoutQaThreadsInput, Prisma.TenantUncheckedUpdateWithoutQaThreadsInput>
+  create: Prisma.XOR<Prisma.TenantCreateWithoutQaThreadsInput, Prisma.TenantUncheckedCreateWithoutQaThreadsInput>
+  where?: Prisma.TenantWhereInput
+}
+
+export type TenantUpdateToOneWithWhereWithoutQaThreadsInput = {
+  where?: Prisma.TenantWhereInput
+  data: Prisma.XOR<Prisma.TenantUpdateWithoutQaThreadsInput, Prisma.TenantUncheckedUpdateWithoutQaThreadsInput>
+}
+
+export type TenantUpdateWithoutQaThreadsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  searchRankWeights?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  textSearchConfig?: Prisma.StringFieldUpdateOperationsInput | string
+  embeddingModel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  hybridFusion?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  llmModel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  duplicateScanAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  summaryDailyTokenBudget?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  memberships?: Prisma.TenantMembershipUpdateManyWithoutTenantNestedInput
+  documents?: Prisma.DocumentUpdateManyWithoutTenantNestedInput
+  jobs?: Prisma.IndexJobUpdateManyWithoutTenantNestedInput
+  tags?: Prisma.TagUpdateManyWithoutTenantNestedInput
+  searchLogs?: Prisma.SearchLogUpdateManyWithoutTenantNestedInput
+  embeddingMigrations?: Prisma.EmbeddingMigrationUpdateManyWithoutTenantNestedInput
+  savedSearches?: Prisma.SavedSearchUpdateManyWithoutTenantNestedInput
+  documentDuplicates?: Prisma.DocumentDuplicateUpdateManyWithoutTenantNestedInput
+  tokenUsage?: Prisma.TenantTokenUsageUpdateManyWithoutTenantNestedInput
+  digests?: Prisma.WorkspaceDigestUpdateManyWithoutTenantNestedInput
+}
+
+export type TenantUncheckedUpdateWithoutQaThreadsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  searchRankWeights?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  textSearchConfig?: Prisma.StringFieldUpdateOperationsInput | string
+  embeddingModel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  hybridFusion?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  llmModel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  duplicateScanAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  summaryDailyTokenBudget?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  memberships?: Prisma.TenantMembershipUncheckedUpdateManyWithoutTenantNestedInput
+  documents?: Prisma.DocumentUncheckedUpdateManyWithoutTenantNestedInput
+  jobs?: Prisma.IndexJobUncheckedUpdateManyWithoutTenantNestedInput
+  tags?: Prisma.TagUncheckedUpdateManyWithoutTenantNestedInput
+  searchLogs?: Prisma.SearchLogUncheckedUpdateManyWithoutTenantNestedInput
+  embeddingMigrations?: Prisma.EmbeddingMigrationUncheckedUpdateManyWithoutTenantNestedInput
+  savedSearches?: Prisma.SavedSearchUncheckedUpdateManyWithoutTenantNestedInput
+  documentDuplicates?: Prisma.DocumentDuplicateUncheckedUpdateManyWithoutTenantNestedInput
+  tokenUsage?: Prisma.TenantTokenUsageUncheckedUpdateManyWithoutTenantNestedInput
+  digests?: Prisma.WorkspaceDigestUncheckedUpdateManyWithoutTenantNestedInput
+}
+
+export type TenantCreateWithoutTokenUsageInput = {
+  id?: string
+  name: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  searchRankWeights?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  textSearchConfig?: string
+  embeddingModel?: string | null
+  hybridFusion?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  llmModel?: string | null
+  duplicateScanAt?: Date | string | null
+  summaryDailyTokenBudget?: number | null
+  memberships?: Prisma.TenantMembershipCreateNestedManyWithoutTenantInput
+  documents?: Prisma.DocumentCreateNestedManyWithoutTenantInput
+  jobs?: Prisma.IndexJobCreateNestedManyWithoutTenantInput
+  tags?: Prisma.TagCreateNestedManyWithoutTenantInput
+  searchLogs?: Prisma.SearchLogCreateNestedManyWithoutTenantInput
+  embeddingMigrations?: Prisma.EmbeddingMigrationCreateNestedManyWithoutTenantInput
+  savedSearches?: Prisma.SavedSearchCreateNestedManyWithoutTenantInput
+  documentDuplicates?: Prisma.DocumentDuplicateCreateNestedManyWithoutTenantInput
+  qaThreads?: Prisma.QaThreadCreateNestedManyWithoutTenantInput
+  digests?: Prisma.WorkspaceDigestCreateNestedManyWithoutTenantInput
+}
+
+export type TenantUncheckedCreateWithoutTokenUsageInput = {
+  id?: string
+  name: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  searchRankWeights?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  textSearchConfig?: string
+  embeddingModel?: string | null
+  hybridFusion?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  llmModel?: string | null
+  duplicateScanAt?: Date | string | null
+  summaryDailyTokenBudget?: number | null
+  memberships?: Prisma.TenantMembershipUncheckedCreateNestedManyWithoutTenantInput
+  documents?: Prisma.DocumentUncheckedCreateNestedManyWithoutTenantInput
+  jobs?: Prisma.IndexJobUncheckedCreateNestedManyWithoutTenantInput
+  tags?: Prisma.TagUncheckedCreateNestedManyWithoutTenantInput
+  searchLogs?: Prisma.SearchLogUncheckedCreateNestedManyWithoutTenantInput
+  embeddingMigrations?: Prisma.EmbeddingMigrationUncheckedCreateNestedManyWithoutTenantInput
+  savedSearches?: Prisma.SavedSearchUncheckedCreateNestedManyWithoutTenantInput
+  documentDuplicates?: Prisma.DocumentDuplicateUncheckedCreateNestedManyWithoutTenantInput
+  qaThreads?: Prisma.QaThreadUncheckedCreateNestedManyWithoutTenantInput
+  digests?: Prisma.WorkspaceDigestUncheckedCreateNestedManyWithoutTenantInput
+}
+
+export type TenantCreateOrConnectWithoutTokenUsageInput = {
+  where: Prisma.TenantWhereUniqueInput
+  create: Prisma.XOR<Prisma.TenantCreateWithoutTokenUsageInput, Prisma.TenantUncheckedCreateWithoutTokenUsageInput>
+}
+
+export type TenantUpsertWithoutTokenUsageInput = {
+  update: Prisma.XOR<Prisma.TenantUpdateWithoutTokenUsageInput, Prisma.TenantUncheckedUpdateWithoutTokenUsageInput>
+  create: Prisma.XOR<Prisma.TenantCreateWithoutTokenUsageInput, Prisma.TenantUncheckedCreateWithoutTokenUsageInput>
+  where?: Prisma.TenantWhereInput
+}
+
+export type TenantUpdateToOneWithWhereWithoutTokenUsageInput = {
+  where?: Prisma.TenantWhereInput
+  data: Prisma.XOR<Prisma.TenantUpdateWithoutTokenUsageInput, Prisma.TenantUncheckedUpdateWithoutTokenUsageInput>
+}
+
+export type TenantUpdateWithoutTokenUsageInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  searchRankWeights?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  textSearchConfig?: Prisma.StringFieldUpdateOperationsInput | string
+  embeddingModel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  hybridFusion?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  llmModel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  duplicateScanAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  summaryDailyTokenBudget?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  memberships?: Prisma.TenantMembershipUpdateManyWithoutTenantNestedInput
+  documents?: Prisma.DocumentUpdateManyWithoutTenantNestedInput
+  jobs?: Prisma.IndexJobUpdateManyWithoutTenantNestedInput
+  tags?: Prisma.TagUpdateManyWithoutTenantNestedInput
+  searchLogs?: Prisma.SearchLogUpdateManyWithoutTenantNestedInput
+  embeddingMigrations?: Prisma.EmbeddingMigrationUpdateManyWithoutTenantNestedInput
+  savedSearches?: Prisma.SavedSearchUpdateManyWithoutTenantNestedInput
+  documentDuplicates?: Prisma.DocumentDuplicateUpdateManyWithoutTenantNestedInput
+  qaThreads?: Prisma.QaThreadUpdateManyWithoutTenantNestedInput
+  digests?: Prisma.WorkspaceDigestUpdateManyWithoutTenantNestedInput
+}
+
+export type TenantUncheckedUpdateWithoutTokenUsageInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  searchRankWeights?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  textSearchConfig?: Prisma.StringFieldUpdateOperationsInput | string
+  embeddingModel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  hybridFusion?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  llmModel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  duplicateScanAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  summaryDailyTokenBudget?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  memberships?: Prisma.TenantMembershipUncheckedUpdateManyWithoutTenantNestedInput
+  documents?: Prisma.DocumentUncheckedUpdateManyWithoutTenantNestedInput
+  jobs?: Prisma.IndexJobUncheckedUpdateManyWithoutTenantNestedInput
+  tags?: Prisma.TagUncheckedUpdateManyWithoutTenantNestedInput
+  searchLogs?: Prisma.SearchLogUncheckedUpdateManyWithoutTenantNestedInput
+  embeddingMigrations?: Prisma.EmbeddingMigrationUncheckedUpdateManyWithoutTenantNestedInput
+  savedSearches?: Prisma.SavedSearchUncheckedUpdateManyWithoutTenantNestedInput
+  documentDuplicates?: Prisma.DocumentDuplicateUncheckedUpdateManyWithoutTenantNestedInput
+  qaThreads?: Prisma.QaThreadUncheckedUpdateManyWithoutTenantNestedInput
+  digests?: Prisma.WorkspaceDigestUncheckedUpdateManyWithoutTenantNestedInput
+}
+
+export type TenantCreateWithoutDigestsInput = {
+  id?: string
+  name: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  searchRankWeights?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  textSearchConfig?: string
+  embeddingModel?: string | null
+  hybridFusion?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  llmModel?: string | null
+  duplicateScanAt?: Date | string | null
+  summaryDailyTokenBudget?: number | null
+  memberships?: Prisma.TenantMembershipCreateNestedManyWithoutTenantInput
+  documents?: Prisma.DocumentCreateNestedManyWithoutTenantInput
+  jobs?: Prisma.IndexJobCreateNestedManyWithoutTenantInput
+  tags?: Prisma.TagCreateNestedManyWithoutTenantInput
+  searchLogs?: Prisma.SearchLogCreateNestedManyWithoutTenantInput
+  embeddingMigrations?: Prisma.EmbeddingMigrationCreateNestedManyWithoutTenantInput
+  savedSearches?: Prisma.SavedSearchCreateNestedManyWithoutTenantInput
+  documentDuplicates?: Prisma.DocumentDuplicateCreateNestedManyWithoutTenantInput
+  qaThreads?: Prisma.QaThreadCreateNestedManyWithoutTenantInput
+  tokenUsage?: Prisma.TenantTokenUsageCreateNestedManyWithoutTenantInput
+}
+
+export type TenantUncheckedCreateWithoutDigestsInput = {
+  id?: string
+  name: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  searchRankWeights?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  textSearchConfig?: string
+  embeddingModel?: string | null
+  hybridFusion?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  llmModel?: string | null
+  duplicateScanAt?: Date | string | null
+  summaryDailyTokenBudget?: number | null
+  memberships?: Prisma.TenantMembershipUncheckedCreateNestedManyWithoutTenantInput
+  documents?: Prisma.DocumentUncheckedCreateNestedManyWithoutTenantInput
+  jobs?: Prisma.IndexJobUncheckedCreateNestedManyWithoutTenantInput
+  tags?: Prisma.TagUncheckedCreateNestedManyWithoutTenantInput
+  searchLogs?: Prisma.SearchLogUncheckedCreateNestedManyWithoutTenantInput
+  embeddingMigrations?: Prisma.EmbeddingMigrationUncheckedCreateNestedManyWithoutTenantInput
+  savedSearches?: Prisma.SavedSearchUncheckedCreateNestedManyWithoutTenantInput
+  documentDuplicates?: Prisma.DocumentDuplicateUncheckedCreateNestedManyWithoutTenantInput
+  qaThreads?: Prisma.QaThreadUncheckedCreateNestedManyWithoutTenantInput
+  tokenUsage?: Prisma.TenantTokenUsageUncheckedCreateNestedManyWithoutTenantInput
+}
+
+export type TenantCreateOrConnectWithoutDigestsInput = {
+  where: Prisma.TenantWhereUniqueInput
+  create: Prisma.XOR<Prisma.TenantCreateWithoutDigestsInput, Prisma.TenantUncheckedCreateWithoutDigestsInput>
+}
+
+export type TenantUpsertWithoutDigestsInput = {
+  update: Prisma.XOR<Prisma.TenantUpdateWithoutDigestsInput, Prisma.TenantUncheckedUpdateWithoutDigestsInput>
+  create: Prisma.XOR<Prisma.TenantCreateWithoutDigestsInput, Prisma.TenantUncheckedCreateWithoutDigestsInput>
+  where?: Prisma.TenantWhereInput
+}
+
+export type TenantUpdateToOneWithWhereWithoutDigestsInput = {
+  where?: Prisma.TenantWhereInput
+  data: Prisma.XOR<Prisma.TenantUpdateWithoutDigestsInput, Prisma.TenantUncheckedUpdateWithoutDigestsInput>
+}
+
+export type TenantUpdateWithoutDigestsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  searchRankWeights?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  textSearchConfig?: Prisma.StringFieldUpdateOperationsInput | string
+  embeddingModel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  hybridFusion?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  llmModel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  duplicateScanAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  summaryDailyTokenBudget?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  memberships?: Prisma.TenantMembershipUpdateManyWithoutTenantNestedInput
+  documents?: Prisma.DocumentUpdateManyWithoutTenantNestedInput
+  jobs?: Prisma.IndexJobUpdateManyWithoutTenantNestedInput
+  tags?: Prisma.TagUpdateManyWithoutTenantNestedInput
+  searchLogs?: Prisma.SearchLogUpdateManyWithoutTenantNestedInput
+  embeddingMigrations?: Prisma.EmbeddingMigrationUpdateManyWithoutTenantNestedInput
+  savedSearches?: Prisma.SavedSearchUpdateManyWithoutTenantNestedInput
+  documentDuplicates?: Prisma.DocumentDuplicateUpdateManyWithoutTenantNestedInput
+  qaThreads?: Prisma.QaThreadUpdateManyWithoutTenantNestedInput
+  tokenUsage?: Prisma.TenantTokenUsageUpdateManyWithoutTenantNestedInput
+}
+
+export type TenantUncheckedUpdateWithoutDigestsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  searchRankWeights?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  textSearchConfig?: Prisma.StringFieldUpdateOperationsInput | string
+  embeddingModel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  hybridFusion?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  llmModel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  duplicateScanAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  summaryDailyTokenBudget?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   memberships?: Prisma.TenantMembershipUncheckedUpdateManyWithoutTenantNestedInput
   documents?: Prisma.DocumentUncheckedUpdateManyWithoutTenantNestedInput
   jobs?: Prisma.IndexJobUncheckedUpdateManyWithoutTenantNestedInput
   tags?: Prisma.TagUncheckedUpdateManyWithoutTenantNestedInput
+  searchLogs?: Prisma.SearchLogUncheckedUpdateManyWithoutTenantNestedInput
+  embeddingMigrations?: Prisma.EmbeddingMigrationUncheckedUpdateManyWithoutTenantNestedInput
+  savedSearches?: Prisma.SavedSearchUncheckedUpdateManyWithoutTenantNestedInput
+  documentDuplicates?: Prisma.DocumentDuplicateUncheckedUpdateManyWithoutTenantNestedInput
+  qaThreads?: Prisma.QaThreadUncheckedUpdateManyWithoutTenantNestedInput
+  tokenUsage?: Prisma.TenantTokenUsageUncheckedUpdateManyWithoutTenantNestedInput
 }
 
 
@@ -712,6 +1972,12 @@ export type TenantCountOutputType = {
   jobs: number
   tags: number
   searchLogs: number
+  embeddingMigrations: number
+  savedSearches: number
+  documentDuplicates: number
+  qaThreads: number
+  tokenUsage: number
+  digests: number
 }
 
 export type TenantCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
@@ -720,6 +1986,12 @@ export type TenantCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions
   jobs?: boolean | TenantCountOutputTypeCountJobsArgs
   tags?: boolean | TenantCountOutputTypeCountTagsArgs
   searchLogs?: boolean | TenantCountOutputTypeCountSearchLogsArgs
+  embeddingMigrations?: boolean | TenantCountOutputTypeCountEmbeddingMigrationsArgs
+  savedSearches?: boolean | TenantCountOutputTypeCountSavedSearchesArgs
+  documentDuplicates?: boolean | TenantCountOutputTypeCountDocumentDuplicatesArgs
+  qaThreads?: boolean | TenantCountOutputTypeCountQaThreadsArgs
+  tokenUsage?: boolean | TenantCountOutputTypeCountTokenUsageArgs
+  digests?: boolean | TenantCountOutputTypeCountDigestsArgs
 }
 
 /**
@@ -767,17 +2039,72 @@ export type TenantCountOutputTypeCountSearchLogsArgs<ExtArgs extends runtime.Typ
   where?: Prisma.SearchLogWhereInput
 }
 
+/**
+ * TenantCountOutputType without action
+ */
+export type TenantCountOutputTypeCountEmbeddingMigrationsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.EmbeddingMigrationWhereInput
+}
+
+/**
+ * TenantCountOutputType without action
+ */
+export type TenantCountOutputTypeCountSavedSearchesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.SavedSearchWhereInput
+}
+
+/**
+ * TenantCountOutputType without action
+ */
+export type TenantCountOutputTypeCountDocumentDuplicatesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.DocumentDuplicateWhereInput
+}
+
+/**
+ * TenantCountOutputType without action
+ */
+export type TenantCountOutputTypeCountQaThreadsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.QaThreadWhereInput
+}
+
+/**
+ * TenantCountOutputType without action
+ */
+export type TenantCountOutputTypeCountTokenUsageArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.TenantTokenUsageWhereInput
+}
+
+/**
+ * TenantCountOutputType without action
+ */
+export type TenantCountOutputTypeCountDigestsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.WorkspaceDigestWhereInput
+}
+
 
 export type TenantSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
   id?: boolean
   name?: boolean
   createdAt?: boolean
   updatedAt?: boolean
+  searchRankWeights?: boolean
+  textSearchConfig?: boolean
+  embeddingModel?: boolean
+  hybridFusion?: boolean
+  llmModel?: boolean
+  duplicateScanAt?: boolean
+  summaryDailyTokenBudget?: boolean
   memberships?: boolean | Prisma.Tenant$membershipsArgs<ExtArgs>
   documents?: boolean | Prisma.Tenant$documentsArgs<ExtArgs>
   jobs?: boolean | Prisma.Tenant$jobsArgs<ExtArgs>
   tags?: boolean | Prisma.Tenant$tagsArgs<ExtArgs>
   searchLogs?: boolean | Prisma.Tenant$searchLogsArgs<ExtArgs>
+  embeddingMigrations?: boolean | Prisma.Tenant$embeddingMigrationsArgs<ExtArgs>
+  savedSearches?: boolean | Prisma.Tenant$savedSearchesArgs<ExtArgs>
+  documentDuplicates?: boolean | Prisma.Tenant$documentDuplicatesArgs<ExtArgs>
+  qaThreads?: boolean | Prisma.Tenant$qaThreadsArgs<ExtArgs>
+  tokenUsage?: boolean | Prisma.Tenant$tokenUsageArgs<ExtArgs>
+  digests?: boolean | Prisma.Tenant$digestsArgs<ExtArgs>
   _count?: boolean | Prisma.TenantCountOutputTypeDefaultArgs<ExtArgs>
 }, ExtArgs["result"]["tenant"]>
 
@@ -786,6 +2113,13 @@ export type TenantSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extens
   name?: boolean
   createdAt?: boolean
   updatedAt?: boolean
+  searchRankWeights?: boolean
+  textSearchConfig?: boolean
+  embeddingModel?: boolean
+  hybridFusion?: boolean
+  llmModel?: boolean
+  duplicateScanAt?: boolean
+  summaryDailyTokenBudget?: boolean
 }, ExtArgs["result"]["tenant"]>
 
 export type TenantSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
@@ -793,6 +2127,13 @@ export type TenantSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extens
   name?: boolean
   createdAt?: boolean
   updatedAt?: boolean
+  searchRankWeights?: boolean
+  textSearchConfig?: boolean
+  embeddingModel?: boolean
+  hybridFusion?: boolean
+  llmModel?: boolean
+  duplicateScanAt?: boolean
+  summaryDailyTokenBudget?: boolean
 }, ExtArgs["result"]["tenant"]>
 
 export type TenantSelectScalar = {
@@ -800,15 +2141,28 @@ export type TenantSelectScalar = {
   name?: boolean
   createdAt?: boolean
   updatedAt?: boolean
+  searchRankWeights?: boolean
+  textSearchConfig?: boolean
+  embeddingModel?: boolean
+  hybridFusion?: boolean
+  llmModel?: boolean
+  duplicateScanAt?: boolean
+  summaryDailyTokenBudget?: boolean
 }
 
-export type TenantOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "name" | "createdAt" | "updatedAt", ExtArgs["result"]["tenant"]>
+export type TenantOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "name" | "createdAt" | "updatedAt" | "searchRankWeights" | "textSearchConfig" | "embeddingModel" | "hybridFusion" | "llmModel" | "duplicateScanAt" | "summaryDailyTokenBudget", ExtArgs["result"]["tenant"]>
 export type TenantInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   memberships?: boolean | Prisma.Tenant$membershipsArgs<ExtArgs>
   documents?: boolean | Prisma.Tenant$documentsArgs<ExtArgs>
   jobs?: boolean | Prisma.Tenant$jobsArgs<ExtArgs>
   tags?: boolean | Prisma.Tenant$tagsArgs<ExtArgs>
   searchLogs?: boolean | Prisma.Tenant$searchLogsArgs<ExtArgs>
+  embeddingMigrations?: boolean | Prisma.Tenant$embeddingMigrationsArgs<ExtArgs>
+  savedSearches?: boolean | Prisma.Tenant$savedSearchesArgs<ExtArgs>
+  documentDuplicates?: boolean | Prisma.Tenant$documentDuplicatesArgs<ExtArgs>
+  qaThreads?: boolean | Prisma.Tenant$qaThreadsArgs<ExtArgs>
+  tokenUsage?: boolean | Prisma.Tenant$tokenUsageArgs<ExtArgs>
+  digests?: boolean | Prisma.Tenant$digestsArgs<ExtArgs>
   _count?: boolean | Prisma.TenantCountOutputTypeDefaultArgs<ExtArgs>
 }
 export type TenantIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {}
@@ -822,12 +2176,25 @@ export type $TenantPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs
     jobs: Prisma.$IndexJobPayload<ExtArgs>[]
     tags: Prisma.$TagPayload<ExtArgs>[]
     searchLogs: Prisma.$SearchLogPayload<ExtArgs>[]
+    embeddingMigrations: Prisma.$EmbeddingMigrationPayload<ExtArgs>[]
+    savedSearches: Prisma.$SavedSearchPayload<ExtArgs>[]
+    documentDuplicates: Prisma.$DocumentDuplicatePayload<ExtArgs>[]
+    qaThreads: Prisma.$QaThreadPayload<ExtArgs>[]
+    tokenUsage: Prisma.$TenantTokenUsagePayload<ExtArgs>[]
+    digests: Prisma.$WorkspaceDigestPayload<ExtArgs>[]
   }
   scalars: runtime.Types.Extensions.GetPayloadResult<{
     id: string
     name: string
     createdAt: Date
     updatedAt: Date
+    searchRankWeights: runtime.JsonValue | null
+    textSearchConfig: string
+    embeddingModel: string | null
+    hybridFusion: runtime.JsonValue | null
+    llmModel: string | null
+    duplicateScanAt: Date | null
+    summaryDailyTokenBudget: number | null
   }, ExtArgs["result"]["tenant"]>
   composites: {}
 }
@@ -1227,6 +2594,12 @@ export interface Prisma__TenantClient<T, Null = never, ExtArgs extends runtime.T
   jobs<T extends Prisma.Tenant$jobsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Tenant$jobsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$IndexJobPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   tags<T extends Prisma.Tenant$tagsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Tenant$tagsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$TagPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   searchLogs<T extends Prisma.Tenant$searchLogsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Tenant$searchLogsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$SearchLogPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  embeddingMigrations<T extends Prisma.Tenant$embeddingMigrationsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Tenant$embeddingMigrationsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$EmbeddingMigrationPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  savedSearches<T extends Prisma.Tenant$savedSearchesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Tenant$savedSearchesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$SavedSearchPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  documentDuplicates<T extends Prisma.Tenant$documentDuplicatesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Tenant$documentDuplicatesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$DocumentDuplicatePayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  qaThreads<T extends Prisma.Tenant$qaThreadsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Tenant$qaThreadsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$QaThreadPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  tokenUsage<T extends Prisma.Tenant$tokenUsageArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Tenant$tokenUsageArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$TenantTokenUsagePayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  digests<T extends Prisma.Tenant$digestsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Tenant$digestsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$WorkspaceDigestPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   /**
    * Attaches callbacks for the resolution and/or rejection of the Promise.
    * @param onfulfilled The callback to execute when the Promise is resolved.
@@ -1260,6 +2633,13 @@ export interface TenantFieldRefs {
   readonly name: Prisma.FieldRef<"Tenant", 'String'>
   readonly createdAt: Prisma.FieldRef<"Tenant", 'DateTime'>
   readonly updatedAt: Prisma.FieldRef<"Tenant", 'DateTime'>
+  readonly searchRankWeights: Prisma.FieldRef<"Tenant", 'Json'>
+  readonly textSearchConfig: Prisma.FieldRef<"Tenant", 'String'>
+  readonly embeddingModel: Prisma.FieldRef<"Tenant", 'String'>
+  readonly hybridFusion: Prisma.FieldRef<"Tenant", 'Json'>
+  readonly llmModel: Prisma.FieldRef<"Tenant", 'String'>
+  readonly duplicateScanAt: Prisma.FieldRef<"Tenant", 'DateTime'>
+  readonly summaryDailyTokenBudget: Prisma.FieldRef<"Tenant", 'Int'>
 }
     
 
@@ -1767,6 +3147,150 @@ export type Tenant$searchLogsArgs<ExtArgs extends runtime.Types.Extensions.Inter
   distinct?: Prisma.SearchLogScalarFieldEnum | Prisma.SearchLogScalarFieldEnum[]
 }
 
+/**
+ * Tenant.embeddingMigrations
+ */
+export type Tenant$embeddingMigrationsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the EmbeddingMigration
+   */
+  select?: Prisma.EmbeddingMigrationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the EmbeddingMigration
+   */
+  omit?: Prisma.EmbeddingMigrationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.EmbeddingMigrationInclude<ExtArgs> | null
+  where?: Prisma.EmbeddingMigrationWhereInput
+  orderBy?: Prisma.EmbeddingMigrationOrderByWithRelationInput | Prisma.EmbeddingMigrationOrderByWithRelationInput[]
+  cursor?: Prisma.EmbeddingMigrationWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.EmbeddingMigrationScalarFieldEnum | Prisma.EmbeddingMigrationScalarFieldEnum[]
+}
+
+/**
+ * Tenant.savedSearches
+ */
+export type Tenant$savedSearchesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SavedSearch
+   */
+  select?: Prisma.SavedSearchSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SavedSearch
+   */
+  omit?: Prisma.SavedSearchOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SavedSearchInclude<ExtArgs> | null
+  where?: Prisma.SavedSearchWhereInput
+  orderBy?: Prisma.SavedSearchOrderByWithRelationInput | Prisma.SavedSearchOrderByWithRelationInput[]
+  cursor?: Prisma.SavedSearchWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.SavedSearchScalarFieldEnum | Prisma.SavedSearchScalarFieldEnum[]
+}
+
+/**
+ * Tenant.documentDuplicates
+ */
+export type Tenant$documentDuplicatesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the DocumentDuplicate
+   */
+  select?: Prisma.DocumentDuplicateSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the DocumentDuplicate
+   */
+  omit?: Prisma.DocumentDuplicateOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.DocumentDuplicateInclude<ExtArgs> | null
+  where?: Prisma.DocumentDuplicateWhereInput
+  orderBy?: Prisma.DocumentDuplicateOrderByWithRelationInput | Prisma.DocumentDuplicateOrderByWithRelationInput[]
+  cursor?: Prisma.DocumentDuplicateWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.DocumentDuplicateScalarFieldEnum | Prisma.DocumentDuplicateScalarFieldEnum[]
+}
+
+/**
+ * Tenant.qaThreads
+ */
+export type Tenant$qaThreadsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the QaThread
+   */
+  select?: Prisma.QaThreadSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the QaThread
+   */
+  omit?: Prisma.QaThreadOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.QaThreadInclude<ExtArgs> | null
+  where?: Prisma.QaThreadWhereInput
+  orderBy?: Prisma.QaThreadOrderByWithRelationInput | Prisma.QaThreadOrderByWithRelationInput[]
+  cursor?: Prisma.QaThreadWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.QaThreadScalarFieldEnum | Prisma.QaThreadScalarFieldEnum[]
+}
+
+/**
+ * Tenant.tokenUsage
+ */
+export type Tenant$tokenUsageArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TenantTokenUsage
+   */
+  select?: Prisma.TenantTokenUsageSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TenantTokenUsage
+   */
+  omit?: Prisma.TenantTokenUsageOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TenantTokenUsageInclude<ExtArgs> | null
+  where?: Prisma.TenantTokenUsageWhereInput
+  orderBy?: Prisma.TenantTokenUsageOrderByWithRelationInput | Prisma.TenantTokenUsageOrderByWithRelationInput[]
+  cursor?: Prisma.TenantTokenUsageWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.TenantTokenUsageScalarFieldEnum | Prisma.TenantTokenUsageScalarFieldEnum[]
+}
+
+/**
+ * Tenant.digests
+ */
+export type Tenant$digestsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WorkspaceDigest
+   */
+  select?: Prisma.WorkspaceDigestSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WorkspaceDigest
+   */
+  omit?: Prisma.WorkspaceDigestOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WorkspaceDigestInclude<ExtArgs> | null
+  where?: Prisma.WorkspaceDigestWhereInput
+  orderBy?: Prisma.WorkspaceDigestOrderByWithRelationInput | Prisma.WorkspaceDigestOrderByWithRelationInput[]
+  cursor?: Prisma.WorkspaceDigestWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.WorkspaceDigestScalarFieldEnum | Prisma.WorkspaceDigestScalarFieldEnum[]
+}
+
 /**
  * Tenant without action
  */
@@ -0,0 +1,1356 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `TenantTokenUsage` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums.js"
+import type * as Prisma from "../internal/prismaNamespace.js"
+
+/**
+ * Model TenantTokenUsage
+ * 
+ */
+export type TenantTokenUsageModel = runtime.Types.Result.DefaultSelection<Prisma.$TenantTokenUsagePayload>
+
+export type AggregateTenantTokenUsage = {
+  _count: TenantTokenUsageCountAggregateOutputType | null
+  _avg: TenantTokenUsageAvgAggregateOutputType | null
+  _sum: TenantTokenUsageSumAggregateOutputType | null
+  _min: TenantTokenUsageMinAggregateOutputType | null
+  _max: TenantTokenUsageMaxAggregateOutputType | null
+}
+
+export type TenantTokenUsageAvgAggregateOutputType = {
+  tokens: number | null
+}
+
+export type TenantTokenUsageSumAggregateOutputType = {
+  tokens: number | null
+}
+
+export type TenantTokenUsageMinAggregateOutputType = {
+  tenantId: string | null
+  feature: string | null
+  day: Date | null
+  tokens: number | null
+}
+
+export type TenantTokenUsageMaxAggregateOutputType = {
+  tenantId: string | null
+  feature: string | null
+  day: Date | null
+  tokens: number | null
+}
+
+export type TenantTokenUsageCountAggregateOutputType = {
+  tenantId: number
+  feature: number
+  day: number
+  tokens: number
+  _all: number
+}
+
+
+export type TenantTokenUsageAvgAggregateInputType = {
+  tokens?: true
+}
+
+export type TenantTokenUsageSumAggregateInputType = {
+  tokens?: true
+}
+
+export type TenantTokenUsageMinAggregateInputType = {
+  tenantId?: true
+  feature?: true
+  day?: true
+  tokens?: true
+}
+
+export type TenantTokenUsageMaxAggregateInputType = {
+  tenantId?: true
+  feature?: true
+  day?: true
+  tokens?: true
+}
+
+export type TenantTokenUsageCountAggregateInputType = {
+  tenantId?: true
+  feature?: true
+  day?: true
+  tokens?: true
+  _all?: true
+}
+
+export type TenantTokenUsageAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which TenantTokenUsage to aggregate.
+   */
+  where?: Prisma.TenantTokenUsageWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of TenantTokenUsages to fetch.
+   */
+  orderBy?: Prisma.TenantTokenUsageOrderByWithRelationInput | Prisma.TenantTokenUsageOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.TenantTokenUsageWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` TenantTokenUsages from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` TenantTokenUsages.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned TenantTokenUsages
+  **/
+  _count?: true | TenantTokenUsageCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: TenantTokenUsageAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: TenantTokenUsageSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: TenantTokenUsageMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: TenantTokenUsageMaxAggregateInputType
+}
+
+export type GetTenantTokenUsageAggregateType<T extends TenantTokenUsageAggregateArgs> = {
+      [P in keyof T & keyof AggregateTenantTokenUsage]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateTenantTokenUsage[P]>
+    : Prisma.GetScalarType<T[P], AggregateTenantTokenUsage[P]>
+}
+
+
+
+
+export type TenantTokenUsageGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.TenantTokenUsageWhereInput
+  orderBy?: Prisma.TenantTokenUsageOrderByWithAggregationInput | Prisma.TenantTokenUsageOrderByWithAggregationInput[]
+  by: Prisma.TenantTokenUsageScalarFieldEnum[] | Prisma.TenantTokenUsageScalarFieldEnum
+  having?: Prisma.TenantTokenUsageScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: TenantTokenUsageCountAggregateInputType | true
+  _avg?: TenantTokenUsageAvgAggregateInputType
+  _sum?: TenantTokenUsageSumAggregateInputType
+  _min?: TenantTokenUsageMinAggregateInputType
+  _max?: TenantTokenUsageMaxAggregateInputType
+}
+
+export type TenantTokenUsageGroupByOutputType = {
+  tenantId: string
+  feature: string
+  day: Date
+  tokens: number
+  _count: TenantTokenUsageCountAggregateOutputType | null
+  _avg: TenantTokenUsageAvgAggregateOutputType | null
+  _sum: TenantTokenUsageSumAggregateOutputType | null
+  _min: TenantTokenUsageMinAggregateOutputType | null
+  _max: TenantTokenUsageMaxAggregateOutputType | null
+}
+
+type GetTenantTokenUsageGroupByPayload<T extends TenantTokenUsageGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<TenantTokenUsageGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof TenantTokenUsageGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], TenantTokenUsageGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], TenantTokenUsageGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type TenantTokenUsageWhereInput = {
+  AND?: Prisma.TenantTokenUsageWhereInput | Prisma.TenantTokenUsageWhereInput[]
+  OR?: Prisma.TenantTokenUsageWhereInput[]
+  NOT?: Prisma.TenantTokenUsageWhereInput | Prisma.TenantTokenUsageWhereInput[]
+  tenantId?: Prisma.StringFilter<"TenantTokenUsage"> | string
+  feature?: Prisma.StringFilter<"TenantTokenUsage"> | string
+  day?: Prisma.DateTimeFilter<"TenantTokenUsage"> | Date | string
+  tokens?: Prisma.IntFilter<"TenantTokenUsage"> | number
+  tenant?: Prisma.XOR<Prisma.TenantScalarRelationFilter, Prisma.TenantWhereInput>
+}
+
+export type TenantTokenUsageOrderByWithRelationInput = {
+  tenantId?: Prisma.SortOrder
+  feature?: Prisma.SortOrder
+  day?: Prisma.SortOrder
+  tokens?: Prisma.SortOrder
+  tenant?: Prisma.TenantOrderByWithRelationInput
+}
+
+export type TenantTokenUsageWhereUniqueInput = Prisma.AtLeast<{
+  tenantId_feature_day?: Prisma.TenantTokenUsageTenantIdFeatureDayCompoundUniqueInput
+  AND?: Prisma.TenantTokenUsageWhereInput | Prisma.TenantTokenUsageWhereInput[]
+  OR?: Prisma.TenantTokenUsageWhereInput[]
+  NOT?: Prisma.TenantTokenUsageWhereInput | Prisma.TenantTokenUsageWhereInput[]
+  tenantId?: Prisma.StringFilter<"TenantTokenUsage"> | string
+  feature?: Prisma.StringFilter<"TenantTokenUsage"> | string
+  day?: Prisma.DateTimeFilter<"TenantTokenUsage"> | Date | string
+  tokens?: Prisma.IntFilter<"TenantTokenUsage"> | number
+  tenant?: Prisma.XOR<Prisma.TenantScalarRelationFilter, Prisma.TenantWhereInput>
+}, "tenantId_feature_day">
+
+export type TenantTokenUsageOrderByWithAggregationInput = {
+  tenantId?: Prisma.SortOrder
+  feature?: Prisma.SortOrder
+  day?: Prisma.SortOrder
+  tokens?: Prisma.SortOrder
+  _count?: Prisma.TenantTokenUsageCountOrderByAggregateInput
+  _avg?: Prisma.TenantTokenUsageAvgOrderByAggregateInput
+  _max?: Prisma.TenantTokenUsageMaxOrderByAggregateInput
+  _min?: Prisma.TenantTokenUsageMinOrderByAggregateInput
+  _sum?: Prisma.TenantTokenUsageSumOrderByAggregateInput
+}
+
+export type TenantTokenUsageScalarWhereWithAggregatesInput = {
+  AND?: Prisma.TenantTokenUsageScalarWhereWithAggregatesInput | Prisma.TenantTokenUsageScalarWhereWithAggregatesInput[]
+  OR?: Prisma.TenantTokenUsageScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.TenantTokenUsageScalarWhereWithAggregatesInput | Prisma.TenantTokenUsageScalarWhereWithAggregatesInput[]
+  tenantId?: Prisma.StringWithAggregatesFilter<"TenantTokenUsage"> | string
+  feature?: Prisma.StringWithAggregatesFilter<"TenantTokenUsage"> | string
+  day?: Prisma.DateTimeWithAggregatesFilter<"TenantTokenUsage"> | Date | string
+  tokens?: Prisma.IntWithAggregatesFilter<"TenantTokenUsage"> | number
+}
+
+export type TenantTokenUsageCreateInput = {
+  feature: string
+  day: Date | string
+  tokens?: number
+  tenant: Prisma.TenantCreateNestedOneWithoutTokenUsageInput
+}
+
+export type TenantTokenUsageUncheckedCreateInput = {
+  tenantId: string
+  feature: string
+  day: Date | string
+  tokens?: number
+}
+
+export type TenantTokenUsageUpdateInput = {
+  feature?: Prisma.StringFieldUpdateOperationsInput | string
+  day?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  tokens?: Prisma.IntFieldUpdateOperationsInput | number
+  tenant?: Prisma.TenantUpdateOneRequiredWithoutTokenUsageNestedInput
+}
+
+export type TenantTokenUsageUncheckedUpdateInput = {
+  tenantId?: Prisma.StringFieldUpdateOperationsInput | string
+  feature?: Prisma.StringFieldUpdateOperationsInput | string
+  day?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  tokens?: Prisma.IntFieldUpdateOperationsInput | number
+}
+
+export type TenantTokenUsageCreateManyInput = {
+  tenantId: string
+  feature: string
+  day: Date | string
+  tokens?: number
+}
+
+export type TenantTokenUsageUpdateManyMutationInput = {
+  feature?: Prisma.StringFieldUpdateOperationsInput | string
+  day?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  tokens?: Prisma.IntFieldUpdateOperationsInput | number
+}
+
+export type TenantTokenUsageUncheckedUpdateManyInput = {
+  tenantId?: Prisma.StringFieldUpdateOperationsInput | string
+  feature?: Prisma.StringFieldUpdateOperationsInput | string
+  day?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  tokens?: Prisma.IntFieldUpdateOperationsInput | number
+}
+
+export type TenantTokenUsageListRelationFilter = {
+  every?: Prisma.TenantTokenUsageWhereInput
+  some?: Prisma.TenantTokenUsageWhereInput
+  none?: Prisma.TenantTokenUsageWhereInput
+}
+
+export type TenantTokenUsageOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type TenantTokenUsageTenantIdFeatureDayCompoundUniqueInput = {
+  tenantId: string
+  feature: string
+  day: Date | string
+}
+
+export type TenantTokenUsageCountOrderByAggregateInput = {
+  tenantId?: Prisma.SortOrder
+  feature?: Prisma.SortOrder
+  day?: Prisma.SortOrder
+  tokens?: Prisma.SortOrder
+}
+
+export type TenantTokenUsageAvgOrderByAggregateInput = {
+  tokens?: Prisma.SortOrder
+}
+
+export type TenantTokenUsageMaxOrderByAggregateInput = {
+  tenantId?: Prisma.SortOrder
+  feature?: Prisma.SortOrder
+  day?: Prisma.SortOrder
+  tokens?: Prisma.SortOrder
+}
+
+export type TenantTokenUsageMinOrderByAggregateInput = {
+  tenantId?: Prisma.SortOrder
+  feature?: Prisma.SortOrder
+  day?: Prisma.SortOrder
+  tokens?: Prisma.SortOrder
+}
+
+export type TenantTokenUsageSumOrderByAggregateInput = {
+  tokens?: Prisma.SortOrder
+}
+
+export type TenantTokenUsageCreateNestedManyWithoutTenantInput = {
+  create?: Prisma.XOR<Prisma.TenantTokenUsageCreateWithoutTenantInput, Prisma.TenantTokenUsageUncheckedCreateWithoutTenantInput> | Prisma.TenantTokenUsageCreateWithoutTenantInput[] | Prisma.TenantTokenUsageUncheckedCreateWithoutTenantInput[]
+  connectOrCreate?: Prisma.TenantTokenUsageCreateOrConnectWithoutTenantInput | Prisma.TenantTokenUsageCreateOrConnectWithoutTenantInput[]
+  createMany?: Prisma.TenantTokenUsageCreateManyTenantInputEnvelope
+  connect?: Prisma.TenantTokenUsageWhereUniqueInput | Prisma.TenantTokenUsageWhereUniqueInput[]
+}
+
+export type TenantTokenUsageUncheckedCreateNestedManyWithoutTenantInput = {
+  create?: Prisma.XOR<Prisma.TenantTokenUsageCreateWithoutTenantInput, Prisma.TenantTokenUsageUncheckedCreateWithoutTenantInput> | Prisma.TenantTokenUsageCreateWithoutTenantInput[] | Prisma.TenantTokenUsageUncheckedCreateWithoutTenantInput[]
+  connectOrCreate?: Prisma.TenantTokenUsageCreateOrConnectWithoutTenantInput | Prisma.TenantTokenUsageCreateOrConnectWithoutTenantInput[]
+  createMany?: Prisma.TenantTokenUsageCreateManyTenantInputEnvelope
+  connect?: Prisma.TenantTokenUsageWhereUniqueInput | Prisma.TenantTokenUsageWhereUniqueInput[]
+}
+
+export type TenantTokenUsageUpdateManyWithoutTenantNestedInput = {
+  create?: Prisma.XOR<Prisma.TenantTokenUsageCreateWithoutTenantInput, Prisma.TenantTokenUsageUncheckedCreateWithoutTenantInput> | Prisma.TenantTokenUsageCreateWithoutTenantInput[] | Prisma.TenantTokenUsageUncheckedCreateWithoutTenantInput[]
+  connectOrCreate?: Prisma.TenantTokenUsageCreateOrConnectWithoutTenantInput | Prisma.TenantTokenUsageCreateOrConnectWithoutTenantInput[]
+  upsert?: Prisma.TenantTokenUsageUpsertWithWhereUniqueWithoutTenantInput | Prisma.TenantTokenUsageUpsertWithWhereUniqueWithoutTenantInput[]
+  createMany?: Prisma.TenantTokenUsageCreateManyTenantInputEnvelope
+  set?: Prisma.TenantTokenUsageWhereUniqueInput | Prisma.TenantTokenUsageWhereUniqueInput[]
+  disconnect?: Prisma.TenantTokenUsageWhereUniqueInput | Prisma.TenantTokenUsageWhereUniqueInput[]
+  delete?: Prisma.TenantTokenUsageWhereUniqueInput | Prisma.TenantTokenUsageWhereUniqueInput[]
+  connect?: Prisma.TenantTokenUsageWhereUniqueInput | Prisma.TenantTokenUsageWhereUniqueInput[]
+  update?: Prisma.TenantTokenUsageUpdateWithWhereUniqueWithoutTenantInput | Prisma.TenantTokenUsageUpdateWithWhereUniqueWithoutTenantInput[]
+  updateMany?: Prisma.TenantTokenUsageUpdateManyWithWhereWithoutTenantInput | Prisma.TenantTokenUsageUpdateManyWithWhereWithoutTenantInput[]
+  deleteMany?: Prisma.TenantTokenUsageScalarWhereInput | Prisma.TenantTokenUsageScalarWhereInput[]
+}
+
+export type TenantTokenUsageUncheckedUpdateManyWithoutTenantNestedInput = {
+  create?: Prisma.XOR<Prisma.TenantTokenUsageCreateWithoutTenantInput, Prisma.TenantTokenUsageUncheckedCreateWithoutTenantInput> | Prisma.TenantTokenUsageCreateWithoutTenantInput[] | Prisma.TenantTokenUsageUncheckedCreateWithoutTenantInput[]
+  connectOrCreate?: Prisma.TenantTokenUsageCreateOrConnectWithoutTenantInput | Prisma.TenantTokenUsageCreateOrConnectWithoutTenantInput[]
+  upsert?: Prisma.TenantTokenUsageUpsertWithWhereUniqueWithoutTenantInput | Prisma.TenantTokenUsageUpsertWithWhereUniqueWithoutTenantInput[]
+  createMany?: Prisma.TenantTokenUsageCreateManyTenantInputEnvelope
+  set?: Prisma.TenantTokenUsageWhereUniqueInput | Prisma.TenantTokenUsageWhereUniqueInput[]
+  disconnect?: Prisma.TenantTokenUsageWhereUniqueInput | Prisma.TenantTokenUsageWhereUniqueInput[]
+  delete?: Prisma.TenantTokenUsageWhereUniqueInput | Prisma.TenantTokenUsageWhereUniqueInput[]
+  connect?: Prisma.TenantTokenUsageWhereUniqueInput | Prisma.TenantTokenUsageWhereUniqueInput[]
+  update?: Prisma.TenantTokenUsageUpdateWithWhereUniqueWithoutTenantInput | Prisma.TenantTokenUsageUpdateWithWhereUniqueWithoutTenantInput[]
+  updateMany?: Prisma.TenantTokenUsageUpdateManyWithWhereWithoutTenantInput | Prisma.TenantTokenUsageUpdateManyWithWhereWithoutTenantInput[]
+  deleteMany?: Prisma.TenantTokenUsageScalarWhereInput | Prisma.TenantTokenUsageScalarWhereInput[]
+}
+
+export type TenantTokenUsageCreateWithoutTenantInput = {
+  feature: string
+  day: Date | string
+  tokens?: number
+}
+
+export type TenantTokenUsageUncheckedCreateWithoutTenantInput = {
+  feature: string
+  day: Date | string
+  tokens?: number
+}
+
+export type TenantTokenUsageCreateOrConnectWithoutTenantInput = {
+  where: Prisma.TenantTokenUsageWhereUniqueInput
+  create: Prisma.XOR<Prisma.TenantTokenUsageCreateWithoutTenantInput, Prisma.TenantTokenUsageUncheckedCreateWithoutTenantInput>
+}
+
+export type TenantTokenUsageCreateManyTenantInputEnvelope = {
+  data: Prisma.TenantTokenUsageCreateManyTenantInput | Prisma.TenantTokenUsageCreateManyTenantInput[]
+  skipDuplicates?: boolean
+}
+
+export type TenantTokenUsageUpsertWithWhereUniqueWithoutTenantInput = {
+  where: Prisma.TenantTokenUsageWhereUniqueInput
+  update: Prisma.XOR<Prisma.TenantTokenUsageUpdateWithoutTenantInput, Prisma.TenantTokenUsageUncheckedUpdateWithoutTenantInput>
+  create: Prisma.XOR<Prisma.TenantTokenUsageCreateWithoutTenantInput, Prisma.TenantTokenUsageUncheckedCreateWithoutTenantInput>
+}
+
+export type TenantTokenUsageUpdateWithWhereUniqueWithoutTenantInput = {
+  where: Prisma.TenantTokenUsageWhereUniqueInput
+  data: Prisma.XOR<Prisma.TenantTokenUsageUpdateWithoutTenantInput, Prisma.TenantTokenUsageUncheckedUpdateWithoutTenantInput>
+}
+
+export type TenantTokenUsageUpdateManyWithWhereWithoutTenantInput = {
+  where: Prisma.TenantTokenUsageScalarWhereInput
+  data: Prisma.XOR<Prisma.TenantTokenUsageUpdateManyMutationInput, Prisma.TenantTokenUsageUncheckedUpdateManyWithoutTenantInput>
+}
+
+export type TenantTokenUsageScalarWhereInput = {
+  AND?: Prisma.TenantTokenUsageScalarWhereInput | Prisma.TenantTokenUsageScalarWhereInput[]
+  OR?: Prisma.TenantTokenUsageScalarWhereInput[]
+  NOT?: Prisma.TenantTokenUsageScalarWhereInput | Prisma.TenantTokenUsageScalarWhereInput[]
+  tenantId?: Prisma.StringFilter<"TenantTokenUsage"> | string
+  feature?: Prisma.StringFilter<"TenantTokenUsage"> | string
+  day?: Prisma.DateTimeFilter<"TenantTokenUsage"> | Date | string
+  tokens?: Prisma.IntFilter<"TenantTokenUsage"> | number
+}
+
+export type TenantTokenUsageCreateManyTenantInput = {
+  feature: string
+  day: Date | string
+  tokens?: number
+}
+
+export type TenantTokenUsageUpdateWithoutTenantInput = {
+  feature?: Prisma.StringFieldUpdateOperationsInput | string
+  day?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  tokens?: Prisma.IntFieldUpdateOperationsInput | number
+}
+
+export type TenantTokenUsageUncheckedUpdateWithoutTenantInput = {
+  feature?: Prisma.StringFieldUpdateOperationsInput | string
+  day?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  tokens?: Prisma.IntFieldUpdateOperationsInput | number
+}
+
+export type TenantTokenUsageUncheckedUpdateManyWithoutTenantInput = {
+  feature?: Prisma.StringFieldUpdateOperationsInput | string
+  day?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  tokens?: Prisma.IntFieldUpdateOperationsInput | number
+}
+
+
+
+export type TenantTokenUsageSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  tenantId?: boolean
+  feature?: boolean
+  day?: boolean
+  tokens?: boolean
+  tenant?: boolean | Prisma.TenantDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["tenantTokenUsage"]>
+
+export type TenantTokenUsageSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  tenantId?: boolean
+  feature?: boolean
+  day?: boolean
+  tokens?: boolean
+  tenant?: boolean | Prisma.TenantDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["tenantTokenUsage"]>
+
+export type TenantTokenUsageSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  tenantId?: boolean
+  feature?: boolean
+  day?: boolean
+  tokens?: boolean
+  tenant?: boolean | Prisma.TenantDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["tenantTokenUsage"]>
+
+export type TenantTokenUsageSelectScalar = {
+  tenantId?: boolean
+  feature?: boolean
+  day?: boolean
+  tokens?: boolean
+}
+
+export type TenantTokenUsageOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"tenantId" | "feature" | "day" | "tokens", ExtArgs["result"]["tenantTokenUsage"]>
+export type TenantTokenUsageInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  tenant?: boolean | Prisma.TenantDefaultArgs<ExtArgs>
+}
+export type TenantTokenUsageIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  tenant?: boolean | Prisma.TenantDefaultArgs<ExtArgs>
+}
+export type TenantTokenUsageIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  tenant?: boolean | Prisma.TenantDefaultArgs<ExtArgs>
+}
+
+export type $TenantTokenUsagePayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "TenantTokenUsage"
+  objects: {
+    tenant: Prisma.$TenantPayload<ExtArgs>
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    tenantId: string
+    feature: string
+    day: Date
+    tokens: number
+  }, ExtArgs["result"]["tenantTokenUsage"]>
+  composites: {}
+}
+
+export type TenantTokenUsageGetPayload<S extends boolean | null | undefined | TenantTokenUsageDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$TenantTokenUsagePayload, S>
+
+export type TenantTokenUsageCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<TenantTokenUsageFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: TenantTokenUsageCountAggregateInputType | true
+  }
+
+export interface TenantTokenUsageDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['TenantTokenUsage'], meta: { name: 'TenantTokenUsage' } }
+  /**
+   * Find zero or one TenantTokenUsage that matches the filter.
+   * @param {TenantTokenUsageFindUniqueArgs} args - Arguments to find a TenantTokenUsage
+   * @example
+   * // Get one TenantTokenUsage
+   * const tenantTokenUsage = await prisma.tenantTokenUsage.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends TenantTokenUsageFindUniqueArgs>(args: Prisma.SelectSubset<T, TenantTokenUsageFindUniqueArgs<ExtArgs>>): Prisma.Prisma__TenantTokenUsageClient<runtime.Types.Result.GetResult<Prisma.$TenantTokenUsagePayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one TenantTokenUsage that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {TenantTokenUsageFindUniqueOrThrowArgs} args - Arguments to find a TenantTokenUsage
+   * @example
+   * // Get one TenantTokenUsage
+   * const tenantTokenUsage = await prisma.tenantTokenUsage.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends TenantTokenUsageFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, TenantTokenUsageFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__TenantTokenUsageClient<runtime.Types.Result.GetResult<Prisma.$TenantTokenUsagePayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first TenantTokenUsage that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {TenantTokenUsageFindFirstArgs} args - Arguments to find a TenantTokenUsage
+   * @example
+   * // Get one TenantTokenUsage
+   * const tenantTokenUsage = await prisma.tenantTokenUsage.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends TenantTokenUsageFindFirstArgs>(args?: Prisma.SelectSubset<T, TenantTokenUsageFindFirstArgs<ExtArgs>>): Prisma.Prisma__TenantTokenUsageClient<runtime.Types.Result.GetResult<Prisma.$TenantTokenUsagePayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first TenantTokenUsage that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {TenantTokenUsageFindFirstOrThrowArgs} args - Arguments to find a TenantTokenUsage
+   * @example
+   * // Get one TenantTokenUsage
+   * const tenantTokenUsage = await prisma.tenantTokenUsage.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends TenantTokenUsageFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, TenantTokenUsageFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__TenantTokenUsageClient<runtime.Types.Result.GetResult<Prisma.$TenantTokenUsagePayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more TenantTokenUsages that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {TenantTokenUsageFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all TenantTokenUsages
+   * const tenantTokenUsages = await prisma.tenantTokenUsage.findMany()
+   * 
+   * // Get first 10 TenantTokenUsages
+   * const tenantTokenUsages = await prisma.tenantTokenUsage.findMany({ take: 10 })
+   * 
+   * // Only select the `tenantId`
+   * const tenantTokenUsageWithTenantIdOnly = await prisma.tenantTokenUsage.findMany({ select: { tenantId: true } })
+   * 
+   */
+  findMany<T extends TenantTokenUsageFindManyArgs>(args?: Prisma.SelectSubset<T, TenantTokenUsageFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$TenantTokenUsagePayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a TenantTokenUsage.
+   * @param {TenantTokenUsageCreateArgs} args - Arguments to create a TenantTokenUsage.
+   * @example
+   * // Create one TenantTokenUsage
+   * const TenantTokenUsage = await prisma.tenantTokenUsage.create({
+   *   data: {
+   *     // ... data to create a TenantTokenUsage
+   *   }
+   * })
+   * 
+   */
+  create<T extends TenantTokenUsageCreateArgs>(args: Prisma.SelectSubset<T, TenantTokenUsageCreateArgs<ExtArgs>>): Prisma.Prisma__TenantTokenUsageClient<runtime.Types.Result.GetResult<Prisma.$TenantTokenUsagePayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many TenantTokenUsages.
+   * @param {TenantTokenUsageCreateManyArgs} args - Arguments to create many TenantTokenUsages.
+   * @example
+   * // Create many TenantTokenUsages
+   * const tenantTokenUsage = await prisma.tenantTokenUsage.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends TenantTokenUsageCreateManyArgs>(args?: Prisma.SelectSubset<T, TenantTokenUsageCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many TenantTokenUsages and returns the data saved in the database.
+   * @param {TenantTokenUsageCreateManyAndReturnArgs} args - Arguments to create many TenantTokenUsages.
+   * @example
+   * // Create many TenantTokenUsages
+   * const tenantTokenUsage = await prisma.tenantTokenUsage.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many TenantTokenUsages and only return the `tenantId`
+   * const tenantTokenUsageWithTenantIdOnly = await prisma.tenantTokenUsage.createManyAndReturn({
+   *   select: { tenantId: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends TenantTokenUsageCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, TenantTokenUsageCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$TenantTokenUsagePayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a TenantTokenUsage.
+   * @param {TenantTokenUsageDeleteArgs} args - Arguments to delete one TenantTokenUsage.
+   * @example
+   * // Delete one TenantTokenUsage
+   * const TenantTokenUsage = await prisma.tenantTokenUsage.delete({
+   *   where: {
+   *     // ... filter to delete one TenantTokenUsage
+   *   }
+   * })
+   * 
+   */
+  delete<T extends TenantTokenUsageDeleteArgs>(args: Prisma.SelectSubset<T, TenantTokenUsageDeleteArgs<ExtArgs>>): Prisma.Prisma__TenantTokenUsageClient<runtime.Types.Result.GetResult<Prisma.$TenantTokenUsagePayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one TenantTokenUsage.
+   * @param {TenantTokenUsageUpdateArgs} args - Arguments to update one TenantTokenUsage.
+   * @example
+   * // Update one TenantTokenUsage
+   * const tenantTokenUsage = await prisma.tenantTokenUsage.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends TenantTokenUsageUpdateArgs>(args: Prisma.SelectSubset<T, TenantTokenUsageUpdateArgs<ExtArgs>>): Prisma.Prisma__TenantTokenUsageClient<runtime.Types.Result.GetResult<Prisma.$TenantTokenUsagePayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more TenantTokenUsages.
+   * @param {TenantTokenUsageDeleteManyArgs} args - Arguments to filter TenantTokenUsages to delete.
+   * @example
+   * // Delete a few TenantTokenUsages
+   * const { count } = await prisma.tenantTokenUsage.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends TenantTokenUsageDeleteManyArgs>(args?: Prisma.SelectSubset<T, TenantTokenUsageDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more TenantTokenUsages.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {TenantTokenUsageUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many TenantTokenUsages
+   * const tenantTokenUsage = await prisma.tenantTokenUsage.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends TenantTokenUsageUpdateManyArgs>(args: Prisma.SelectSubset<T, TenantTokenUsageUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more TenantTokenUsages and returns the data updated in the database.
+   * @param {TenantTokenUsageUpdateManyAndReturnArgs} args - Arguments to update many TenantTokenUsages.
+   * @example
+   * // Update many TenantTokenUsages
+   * const tenantTokenUsage = await prisma.tenantTokenUsage.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more TenantTokenUsages and only return the `tenantId`
+   * const tenantTokenUsageWithTenantIdOnly = await prisma.tenantTokenUsage.updateManyAndReturn({
+   *   select: { tenantId: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends TenantTokenUsageUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, TenantTokenUsageUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$TenantTokenUsagePayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one TenantTokenUsage.
+   * @param {TenantTokenUsageUpsertArgs} args - Arguments to update or create a TenantTokenUsage.
+   * @example
+   * // Update or create a TenantTokenUsage
+   * const tenantTokenUsage = await prisma.tenantTokenUsage.upsert({
+   *   create: {
+   *     // ... data to create a TenantTokenUsage
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the TenantTokenUsage we want to update
+   *   }
+   * })
+   */
+  upsert<T extends TenantTokenUsageUpsertArgs>(args: Prisma.SelectSubset<T, TenantTokenUsageUpsertArgs<ExtArgs>>): Prisma.Prisma__TenantTokenUsageClient<runtime.Types.Result.GetResult<Prisma.$TenantTokenUsagePayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of TenantTokenUsages.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {TenantTokenUsageCountArgs} args - Arguments to filter TenantTokenUsages to count.
+   * @example
+   * // Count the number of TenantTokenUsages
+   * const count = await prisma.tenantTokenUsage.count({
+   *   where: {
+   *     // ... the filter for the TenantTokenUsages we want to count
+   *   }
+   * })
+  **/
+  count<T extends TenantTokenUsageCountArgs>(
+    args?: Prisma.Subset<T, TenantTokenUsageCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], TenantTokenUsageCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a TenantTokenUsage.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {TenantTokenUsageAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends TenantTokenUsageAggregateArgs>(args: Prisma.Subset<T, TenantTokenUsageAggregateArgs>): Prisma.PrismaPromise<GetTenantTokenUsageAggregateType<T>>
+
+  /**
+   * Group by TenantTokenUsage.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {TenantTokenUsageGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends TenantTokenUsageGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: TenantTokenUsageGroupByArgs['orderBy'] }
+      : { orderBy?: TenantTokenUsageGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, TenantTokenUsageGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetTenantTokenUsageGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the TenantTokenUsage model
+ */
+readonly fields: TenantTokenUsageFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for TenantTokenUsage.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__TenantTokenUsageClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  tenant<T extends Prisma.TenantDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.TenantDefaultArgs<ExtArgs>>): Prisma.Prisma__TenantClient<runtime.Types.Result.GetResult<Prisma.$TenantPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the TenantTokenUsage model
+ */
+export interface TenantTokenUsageFieldRefs {
+  readonly tenantId: Prisma.FieldRef<"TenantTokenUsage", 'String'>
+  readonly feature: Prisma.FieldRef<"TenantTokenUsage", 'String'>
+  readonly day: Prisma.FieldRef<"TenantTokenUsage", 'DateTime'>
+  readonly tokens: Prisma.FieldRef<"TenantTokenUsage", 'Int'>
+}
+    
+
+// Custom InputTypes
+/**
+ * TenantTokenUsage findUnique
+ */
+export type TenantTokenUsageFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TenantTokenUsage
+   */
+  select?: Prisma.TenantTokenUsageSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TenantTokenUsage
+   */
+  omit?: Prisma.TenantTokenUsageOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TenantTokenUsageInclude<ExtArgs> | null
+  /**
+   * Filter, which TenantTokenUsage to fetch.
+   */
+  where: Prisma.TenantTokenUsageWhereUniqueInput
+}
+
+/**
+ * TenantTokenUsage findUniqueOrThrow
+ */
+export type TenantTokenUsageFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TenantTokenUsage
+   */
+  select?: Prisma.TenantTokenUsageSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TenantTokenUsage
+   */
+  omit?: Prisma.TenantTokenUsageOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TenantTokenUsageInclude<ExtArgs> | null
+  /**
+   * Filter, which TenantTokenUsage to fetch.
+   */
+  where: Prisma.TenantTokenUsageWhereUniqueInput
+}
+
+/**
+ * TenantTokenUsage findFirst
+ */
+export type TenantTokenUsageFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TenantTokenUsage
+   */
+  select?: Prisma.TenantTokenUsageSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TenantTokenUsage
+   */
+  omit?: Prisma.TenantTokenUsageOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TenantTokenUsageInclude<ExtArgs> | null
+  /**
+   * Filter, which TenantTokenUsage to fetch.
+   */
+  where?: Prisma.TenantTokenUsageWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of TenantTokenUsages to fetch.
+   */
+  orderBy?: Prisma.TenantTokenUsageOrderByWithRelationInput | Prisma.TenantTokenUsageOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for TenantTokenUsages.
+   */
+  cursor?: Prisma.TenantTokenUsageWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` TenantTokenUsages from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` TenantTokenUsages.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of TenantTokenUsages.
+   */
+  distinct?: Prisma.TenantTokenUsageScalarFieldEnum | Prisma.TenantTokenUsageScalarFieldEnum[]
+}
+
+/**
+ * TenantTokenUsage findFirstOrThrow
+ */
+export type TenantTokenUsageFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TenantTokenUsage
+   */
+  select?: Prisma.TenantTokenUsageSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TenantTokenUsage
+   */
+  omit?: Prisma.TenantTokenUsageOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TenantTokenUsageInclude<ExtArgs> | null
+  /**
+   * Filter, which TenantTokenUsage to fetch.
+   */
+  where?: Prisma.TenantTokenUsageWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of TenantTokenUsages to fetch.
+   */
+  orderBy?: Prisma.TenantTokenUsageOrderByWithRelationInput | Prisma.TenantTokenUsageOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for TenantTokenUsages.
+   */
+  cursor?: Prisma.TenantTokenUsageWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` TenantTokenUsages from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` TenantTokenUsages.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of TenantTokenUsages.
+   */
+  distinct?: Prisma.TenantTokenUsageScalarFieldEnum | Prisma.TenantTokenUsageScalarFieldEnum[]
+}
+
+/**
+ * TenantTokenUsage findMany
+ */
+export type TenantTokenUsageFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TenantTokenUsage
+   */
+  select?: Prisma.TenantTokenUsageSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TenantTokenUsage
+   */
+  omit?: Prisma.TenantTokenUsageOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TenantTokenUsageInclude<ExtArgs> | null
+  /**
+   * Filter, which TenantTokenUsages to fetch.
+   */
+  where?: Prisma.TenantTokenUsageWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of TenantTokenUsages to fetch.
+   */
+  orderBy?: Prisma.TenantTokenUsageOrderByWithRelationInput | Prisma.TenantTokenUsageOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing TenantTokenUsages.
+   */
+  cursor?: Prisma.TenantTokenUsageWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` TenantTokenUsages from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` TenantTokenUsages.
+   */
+  skip?: number
+  distinct?: Prisma.TenantTokenUsageScalarFieldEnum | Prisma.TenantTokenUsageScalarFieldEnum[]
+}
+
+/**
+ * TenantTokenUsage create
+ */
+export type TenantTokenUsageCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TenantTokenUsage
+   */
+  select?: Prisma.TenantTokenUsageSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TenantTokenUsage
+   */
+  omit?: Prisma.TenantTokenUsageOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TenantTokenUsageInclude<ExtArgs> | null
+  /**
+   * The data needed to create a TenantTokenUsage.
+   */
+  data: Prisma.XOR<Prisma.TenantTokenUsageCreateInput, Prisma.TenantTokenUsageUncheckedCreateInput>
+}
+
+/**
+ * TenantTokenUsage createMany
+ */
+export type TenantTokenUsageCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many TenantTokenUsages.
+   */
+  data: Prisma.TenantTokenUsageCreateManyInput | Prisma.TenantTokenUsageCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * TenantTokenUsage createManyAndReturn
+ */
+export type TenantTokenUsageCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TenantTokenUsage
+   */
+  select?: Prisma.TenantTokenUsageSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the TenantTokenUsage
+   */
+  omit?: Prisma.TenantTokenUsageOmit<ExtArgs> | null
+  /**
+   * The data used to create many TenantTokenUsages.
+   */
+  data: Prisma.TenantTokenUsageCreateManyInput | Prisma.TenantTokenUsageCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TenantTokenUsageIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * TenantTokenUsage update
+ */
+export type TenantTokenUsageUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TenantTokenUsage
+   */
+  select?: Prisma.TenantTokenUsageSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TenantTokenUsage
+   */
+  omit?: Prisma.TenantTokenUsageOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TenantTokenUsageInclude<ExtArgs> | null
+  /**
+   * The data needed to update a TenantTokenUsage.
+   */
+  data: Prisma.XOR<Prisma.TenantTokenUsageUpdateInput, Prisma.TenantTokenUsageUncheckedUpdateInput>
+  /**
+   * Choose, which TenantTokenUsage to update.
+   */
+  where: Prisma.TenantTokenUsageWhereUniqueInput
+}
+
+/**
+ * TenantTokenUsage updateMany
+ */
+export type TenantTokenUsageUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update TenantTokenUsages.
+   */
+  data: Prisma.XOR<Prisma.TenantTokenUsageUpdateManyMutationInput, Prisma.TenantTokenUsageUncheckedUpdateManyInput>
+  /**
+   * Filter which TenantTokenUsages to update
+   */
+  where?: Prisma.TenantTokenUsageWhereInput
+  /**
+   * Limit how many TenantTokenUsages to update.
+   */
+  limit?: number
+}
+
+/**
+ * TenantTokenUsage updateManyAndReturn
+ */
+export type TenantTokenUsageUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TenantTokenUsage
+   */
+  select?: Prisma.TenantTokenUsageSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the TenantTokenUsage
+   */
+  omit?: Prisma.TenantTokenUsageOmit<ExtArgs> | null
+  /**
+   * The data used to update TenantTokenUsages.
+   */
+  data: Prisma.XOR<Prisma.TenantTokenUsageUpdateManyMutationInput, Prisma.TenantTokenUsageUncheckedUpdateManyInput>
+  /**
+   * Filter which TenantTokenUsages to update
+   */
+  where?: Prisma.TenantTokenUsageWhereInput
+  /**
+   * Limit how many TenantTokenUsages to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TenantTokenUsageIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * TenantTokenUsage upsert
+ */
+export type TenantTokenUsageUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TenantTokenUsage
+   */
+  select?: Prisma.TenantTokenUsageSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TenantTokenUsage
+   */
+  omit?: Prisma.TenantTokenUsageOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TenantTokenUsageInclude<ExtArgs> | null
+  /**
+   * The filter to search for the TenantTokenUsage to update in case it exists.
+   */
+  where: Prisma.TenantTokenUsageWhereUniqueInput
+  /**
+   * In case the TenantTokenUsage found by the `where` argument doesn't exist, create a new TenantTokenUsage with this data.
+   */
+  create: Prisma.XOR<Prisma.TenantTokenUsageCreateInput, Prisma.TenantTokenUsageUncheckedCreateInput>
+  /**
+   * In case the TenantTokenUsage was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.TenantTokenUsageUpdateInput, Prisma.TenantTokenUsageUncheckedUpdateInput>
+}
+
+/**
+ * TenantTokenUsage delete
+ */
+export type TenantTokenUsageDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TenantTokenUsage
+   */
+  select?: Prisma.TenantTokenUsageSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TenantTokenUsage
+   */
+  omit?: Prisma.TenantTokenUsageOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TenantTokenUsageInclude<ExtArgs> | null
+  /**
+   * Filter which TenantTokenUsage to delete.
+   */
+  where: Prisma.TenantTokenUsageWhereUniqueInput
+}
+
+/**
+ * TenantTokenUsage deleteMany
+ */
+export type TenantTokenUsageDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which TenantTokenUsages to delete
+   */
+  where?: Prisma.TenantTokenUsageWhereInput
+  /**
+   * Limit how many TenantTokenUsages to delete.
+   */
+  limit?: number
+}
+
+/**
+ * TenantTokenUsage without action
+ */
+export type TenantTokenUsageDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TenantTokenUsage
+   */
+  select?: Prisma.TenantTokenUsageSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TenantTokenUsage
+   */
+  omit?: Prisma.TenantTokenUsageOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TenantTokenUsageInclude<ExtArgs> | null
+}
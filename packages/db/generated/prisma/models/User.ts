@@ -214,6 +214,8 @@ export type UserWhereInput = {
   createdTags?: Prisma.TagListRelationFilter
   addedDocumentTags?: Prisma.DocumentTagListRelationFilter
   searchLogs?: Prisma.SearchLogListRelationFilter
+  savedSearches?: Prisma.SavedSearchListRelationFilter
+  qaThreads?: Prisma.QaThreadListRelationFilter
 }
 
 export type UserOrderByWithRelationInput = {
@@ -233,6 +235,8 @@ export type UserOrderByWithRelationInput = {
   createdTags?: Prisma.TagOrderByRelationAggregateInput
   addedDocumentTags?: Prisma.DocumentTagOrderByRelationAggregateInput
   searchLogs?: Prisma.SearchLogOrderByRelationAggregateInput
+  savedSearches?: Prisma.SavedSearchOrderByRelationAggregateInput
+  qaThreads?: Prisma.QaThreadOrderByRelationAggregateInput
 }
 
 export type UserWhereUniqueInput = Prisma.AtLeast<{
@@ -256,6 +260,8 @@ export type UserWhereUniqueInput = Prisma.AtLeast<{
   createdTags?: Prisma.TagListRelationFilter
   addedDocumentTags?: Prisma.DocumentTagListRelationFilter
   searchLogs?: Prisma.SearchLogListRelationFilter
+  savedSearches?: Prisma.SavedSearchListRelationFilter
+  qaThreads?: Prisma.QaThreadListRelationFilter
 }, "id" | "email" | "oauthProvider_oauthAccountId">
 
 export type UserOrderByWithAggregationInput = {
@@ -303,6 +309,8 @@ export type UserCreateInput = {
   createdTags?: Prisma.TagCreateNestedManyWithoutCreatedByInput
   addedDocumentTags?: Prisma.DocumentTagCreateNestedManyWithoutAddedByInput
   searchLogs?: Prisma.SearchLogCreateNestedManyWithoutUserInput
+  savedSearches?: Prisma.SavedSearchCreateNestedManyWithoutUserInput
+  qaThreads?: Prisma.QaThreadCreateNestedManyWithoutUserInput
 }
 
 export type UserUncheckedCreateInput = {
@@ -322,6 +330,8 @@ export type UserUncheckedCreateInput = {
   createdTags?: Prisma.TagUncheckedCreateNestedManyWithoutCreatedByInput
   addedDocumentTags?: Prisma.DocumentTagUncheckedCreateNestedManyWithoutAddedByInput
   searchLogs?: Prisma.SearchLogUncheckedCreateNestedManyWithoutUserInput
+  savedSearches?: Prisma.SavedSearchUncheckedCreateNestedManyWithoutUserInput
+  qaThreads?: Prisma.QaThreadUncheckedCreateNestedManyWithoutUserInput
 }
 
 export type UserUpdateInput = {
@@ -341,6 +351,8 @@ export type UserUpdateInput = {
   createdTags?: Prisma.TagUpdateManyWithoutCreatedByNestedInput
   addedDocumentTags?: Prisma.DocumentTagUpdateManyWithoutAddedByNestedInput
   searchLogs?: Prisma.SearchLogUpdateManyWithoutUserNestedInput
+  savedSearches?: Prisma.SavedSearchUpdateManyWithoutUserNestedInput
+  qaThreads?: Prisma.QaThreadUpdateManyWithoutUserNestedInput
 }
 
 export type UserUncheckedUpdateInput = {
@@ -360,6 +372,8 @@ export type UserUncheckedUpdateInput = {
   createdTags?: Prisma.TagUncheckedUpdateManyWithoutCreatedByNestedInput
   addedDocumentTags?: Prisma.DocumentTagUncheckedUpdateManyWithoutAddedByNestedInput
   searchLogs?: Prisma.SearchLogUncheckedUpdateManyWithoutUserNestedInput
+  savedSearches?: Prisma.SavedSearchUncheckedUpdateManyWithoutUserNestedInput
+  qaThreads?: Prisma.QaThreadUncheckedUpdateManyWithoutUserNestedInput
 }
 
 export type UserCreateManyInput = {
@@ -438,10 +452,6 @@ export type UserScalarRelationFilter = {
   isNot?: Prisma.UserWhereInput
 }
 
-export type NullableStringFieldUpdateOperationsInput = {
-  set?: string | null
-}
-
 export type UserCreateNestedOneWithoutMembershipsInput = {
   create?: Prisma.XOR<Prisma.UserCreateWithoutMembershipsInput, Prisma.UserUncheckedCreateWithoutMembershipsInput>
   connectOrCreate?: Prisma.UserCreateOrConnectWithoutMembershipsInput
@@ -554,6 +564,34 @@ export type UserUpdateOneRequiredWithoutSearchLogsNestedInput = {
   update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutSearchLogsInput, Prisma.UserUpdateWithoutSearchLogsInput>, Prisma.UserUncheckedUpdateWithoutSearchLogsInput>
 }
 
+export type UserCreateNestedOneWithoutSavedSearchesInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutSavedSearchesInput, Prisma.UserUncheckedCreateWithoutSavedSearchesInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutSavedSearchesInput
+  connect?: Prisma.UserWhereUniqueInput
+}
+
+export type UserUpdateOneRequiredWithoutSavedSearchesNestedInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutSavedSearchesInput, Prisma.UserUncheckedCreateWithoutSavedSearchesInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutSavedSearchesInput
+  upsert?: Prisma.UserUpsertWithoutSavedSearchesInput
+  connect?: Prisma.UserWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutSavedSearchesInput, Prisma.UserUpdateWithoutSavedSearchesInput>, Prisma.UserUncheckedUpdateWithoutSavedSearchesInput>
+}
+
+export type UserCreateNestedOneWithoutQaThreadsInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutQaThreadsInput, Prisma.UserUncheckedCreateWithoutQaThreadsInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutQaThreadsInput
+  connect?: Prisma.UserWhereUniqueInput
+}
+
+export type UserUpdateOneRequiredWithoutQaThreadsNestedInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutQaThreadsInput, Prisma.UserUncheckedCreateWithoutQaThreadsInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutQaThreadsInput
+  upsert?: Prisma.UserUpsertWithoutQaThreadsInput
+  connect?: Prisma.UserWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutQaThreadsInput, Prisma.UserUpdateWithoutQaThreadsInput>, Prisma.UserUncheckedUpdateWithoutQaThreadsInput>
+}
+
 export type UserCreateWithoutMembershipsInput = {
   id?: string
   email: string
@@ -570,6 +608,8 @@ export type UserCreateWithoutMembershipsInput = {
   createdTags?: Prisma.TagCreateNestedManyWithoutCreatedByInput
   addedDocumentTags?: Prisma.DocumentTagCreateNestedManyWithoutAddedByInput
   searchLogs?: Prisma.SearchLogCreateNestedManyWithoutUserInput
+  savedSearches?: Prisma.SavedSearchCreateNestedManyWithoutUserInput
+  qaThreads?: Prisma.QaThreadCreateNestedManyWithoutUserInput
 }
 
 export type UserUncheckedCreateWithoutMembershipsInput = {
@@ -588,6 +628,8 @@ export type UserUncheckedCreateWithoutMembershipsInput = {
   createdTags?: Prisma.TagUncheckedCreateNestedManyWithoutCreatedByInput
   addedDocumentTags?: Prisma.DocumentTagUncheckedCreateNestedManyWithoutAddedByInput
   searchLogs?: Prisma.SearchLogUncheckedCreateNestedManyWithoutUserInput
+  savedSearches?: Prisma.SavedSearchUncheckedCreateNestedManyWithoutUserInput
+  qaThreads?: Prisma.QaThreadUncheckedCreateNestedManyWithoutUserInput
 }
 
 export type UserCreateOrConnectWithoutMembershipsInput = {
@@ -622,6 +664,8 @@ export type UserUpdateWithoutMembershipsInput = {
   createdTags?: Prisma.TagUpdateManyWithoutCreatedByNestedInput
   addedDocumentTags?: Prisma.DocumentTagUpdateManyWithoutAddedByNestedInput
   searchLogs?: Prisma.SearchLogUpdateManyWithoutUserNestedInput
+  savedSearches?: Prisma.SavedSearchUpdateManyWithoutUserNestedInput
+  qaThreads?: Prisma.QaThreadUpdateManyWithoutUserNestedInput
 }
 
 export type UserUncheckedUpdateWithoutMembershipsInput = {
@@ -640,6 +684,8 @@ export type UserUncheckedUpdateWithoutMembershipsInput = {
   createdTags?: Prisma.TagUncheckedUpdateManyWithoutCreatedByNestedInput
   addedDocumentTags?: Prisma.DocumentTagUncheckedUpdateManyWithoutAddedByNestedInput
   searchLogs?: Prisma.SearchLogUncheckedUpdateManyWithoutUserNestedInput
+  savedSearches?: Prisma.SavedSearchUncheckedUpdateManyWithoutUserNestedInput
+  qaThreads?: Prisma.QaThreadUncheckedUpdateManyWithoutUserNestedInput
 }
 
 export type UserCreateWithoutCreatedDocumentsInput = {
@@ -658,6 +704,8 @@ export type UserCreateWithoutCreatedDocumentsInput = {
   createdTags?: Prisma.TagCreateNestedManyWithoutCreatedByInput
   addedDocumentTags?: Prisma.DocumentTagCreateNestedManyWithoutAddedByInput
   searchLogs?: Prisma.SearchLogCreateNestedManyWithoutUserInput
+  savedSearches?: Prisma.SavedSearchCreateNestedManyWithoutUserInput
+  qaThreads?: Prisma.QaThreadCreateNestedManyWithoutUserInput
 }
 
 export type UserUncheckedCreateWithoutCreatedDocumentsInput = {
@@ -676,6 +724,8 @@ export type UserUncheckedCreateWithoutCreatedDocumentsInput = {
   createdTags?: Prisma.TagUncheckedCreateNestedManyWithoutCreatedByInput
   addedDocumentTags?: Prisma.DocumentTagUncheckedCreateNestedManyWithoutAddedByInput
   searchLogs?: Prisma.SearchLogUncheckedCreateNestedManyWithoutUserInput
+  savedSearches?: Prisma.SavedSearchUncheckedCreateNestedManyWithoutUserInput
+  qaThreads?: Prisma.QaThreadUncheckedCreateNestedManyWithoutUserInput
 }
 
 export type UserCreateOrConnectWithoutCreatedDocumentsInput = {
@@ -699,6 +749,8 @@ export type UserCreateWithoutUpdatedDocumentsInput = {
   createdTags?: Prisma.TagCreateNestedManyWithoutCreatedByInput
   addedDocumentTags?: Prisma.DocumentTagCreateNestedManyWithoutAddedByInput
   searchLogs?: Prisma.SearchLogCreateNestedManyWithoutUserInput
+  savedSearches?: Prisma.SavedSearchCreateNestedManyWithoutUserInput
+  qaThreads?: Prisma.QaThreadCreateNestedManyWithoutUserInput
 }
 
 export type UserUncheckedCreateWithoutUpdatedDocumentsInput = {
@@ -717,6 +769,8 @@ export type UserUncheckedCreateWithoutUpdatedDocumentsInput = {
   createdTags?: Prisma.TagUncheckedCreateNestedManyWithoutCreatedByInput
   addedDocumentTags?: Prisma.DocumentTagUncheckedCreateNestedManyWithoutAddedByInput
   searchLogs?: Prisma.SearchLogUncheckedCreateNestedManyWithoutUserInput
+  savedSearches?: Prisma.SavedSearchUncheckedCreateNestedManyWithoutUserInput
+  qaThreads?: Prisma.QaThreadUncheckedCreateNestedManyWithoutUserInput
 }
 
 export type UserCreateOrConnectWithoutUpdatedDocumentsInput = {
@@ -751,6 +805,8 @@ export type UserUpdateWithoutCreatedDocumentsInput = {
   createdTags?: Prisma.TagUpdateManyWithoutCreatedByNestedInput
   addedDocumentTags?: Prisma.DocumentTagUpdateManyWithoutAddedByNestedInput
   searchLogs?: Prisma.SearchLogUpdateManyWithoutUserNestedInput
+  savedSearches?: Prisma.SavedSearchUpdateManyWithoutUserNestedInput
+  qaThreads?: Prisma.QaThreadUpdateManyWithoutUserNestedInput
 }
 
 export type UserUncheckedUpdateWithoutCreatedDocumentsInput = {
@@ -769,6 +825,8 @@ export type UserUncheckedUpdateWithoutCreatedDocumentsInput = {
   createdTags?: Prisma.TagUncheckedUpdateManyWithoutCreatedByNestedInput
   addedDocumentTags?: Prisma.DocumentTagUncheckedUpdateManyWithoutAddedByNestedInput
   searchLogs?: Prisma.SearchLogUncheckedUpdateManyWithoutUserNestedInput
+  savedSearches?: Prisma.SavedSearchUncheckedUpdateManyWithoutUserNestedInput
+  qaThreads?: Prisma.QaThreadUncheckedUpdateManyWithoutUserNestedInput
 }
 
 export type UserUpsertWithoutUpdatedDocumentsInput = {
@@ -798,6 +856,8 @@ export type UserUpdateWithoutUpdatedDocumentsInput = {
   createdTags?: Prisma.TagUpdateManyWithoutCreatedByNestedInput
   addedDocumentTags?: Prisma.DocumentTagUpdateManyWithoutAddedByNestedInput
   searchLogs?: Prisma.SearchLogUpdateManyWithoutUserNestedInput
+  savedSearches?: Prisma.SavedSearchUpdateManyWithoutUserNestedInput
+  qaThreads?: Prisma.QaThreadUpdateManyWithoutUserNestedInput
 }
 
 export type UserUncheckedUpdateWithoutUpdatedDocumentsInput = {
@@ -816,6 +876,8 @@ export type UserUncheckedUpdateWithoutUpdatedDocumentsInput = {
   createdTags?: Prisma.TagUncheckedUpdateManyWithoutCreatedByNestedInput
   addedDocumentTags?: Prisma.DocumentTagUncheckedUpdateManyWithoutAddedByNestedInput
   searchLogs?: Prisma.SearchLogUncheckedUpdateManyWithoutUserNestedInput
+  savedSearches?: Prisma.SavedSearchUncheckedUpdateManyWithoutUserNestedInput
+  qaThreads?: Prisma.QaThreadUncheckedUpdateManyWithoutUserNestedInput
 }
 
 export type UserCreateWithoutCreatedTagsInput = {
@@ -834,6 +896,8 @@ export type UserCreateWithoutCreatedTagsInput = {
   documentCommands?: Prisma.DocumentCommandCreateNestedManyWithoutUserInput
   addedDocumentTags?: Prisma.DocumentTagCreateNestedManyWithoutAddedByInput
   searchLogs?: Prisma.SearchLogCreateNestedManyWithoutUserInput
+  savedSearches?: Prisma.SavedSearchCreateNestedManyWithoutUserInput
+  qaThreads?: Prisma.QaThreadCreateNestedManyWithoutUserInput
 }
 
 export type UserUncheckedCreateWithoutCreatedTagsInput = {
@@ -852,6 +916,8 @@ export type UserUncheckedCreateWithoutCreatedTagsInput = {
   documentCommands?: Prisma.DocumentCommandUncheckedCreateNestedManyWithoutUserInput
   addedDocumentTags?: Prisma.DocumentTagUncheckedCreateNestedManyWithoutAddedByInput
   searchLogs?: Prisma.SearchLogUncheckedCreateNestedManyWithoutUserInput
+  savedSearches?: Prisma.SavedSearchUncheckedCreateNestedManyWithoutUserInput
+  qaThreads?: Prisma.QaThreadUncheckedCreateNestedManyWithoutUserInput
 }
 
 export type UserCreateOrConnectWithoutCreatedTagsInput = {
@@ -886,6 +952,8 @@ export type UserUpdateWithoutCreatedTagsInput = {
   documentCommands?: Prisma.DocumentCommandUpdateManyWithoutUserNestedInput
   addedDocumentTags?: Prisma.DocumentTagUpdateManyWithoutAddedByNestedInput
   searchLogs?: Prisma.SearchLogUpdateManyWithoutUserNestedInput
+  savedSearches?: Prisma.SavedSearchUpdateManyWithoutUserNestedInput
+  qaThreads?: Prisma.QaThreadUpdateManyWithoutUserNestedInput
 }
 
 export type UserUncheckedUpdateWithoutCreatedTagsInput = {
@@ -904,6 +972,8 @@ export type UserUncheckedUpdateWithoutCreatedTagsInput = {
   documentCommands?: Prisma.DocumentCommandUncheckedUpdateManyWithoutUserNestedInput
   addedDocumentTags?: Prisma.DocumentTagUncheckedUpdateManyWithoutAddedByNestedInput
   searchLogs?: Prisma.SearchLogUncheckedUpdateManyWithoutUserNestedInput
+  savedSearches?: Prisma.SavedSearchUncheckedUpdateManyWithoutUserNestedInput
+  qaThreads?: Prisma.QaThreadUncheckedUpdateManyWithoutUserNestedInput
 }
 
 export type UserCreateWithoutAddedDocumentTagsInput = {
@@ -922,6 +992,8 @@ export type UserCreateWithoutAddedDocumentTagsInput = {
   documentCommands?: Prisma.DocumentCommandCreateNestedManyWithoutUserInput
   createdTags?: Prisma.TagCreateNestedManyWithoutCreatedByInput
   searchLogs?: Prisma.SearchLogCreateNestedManyWithoutUserInput
+  savedSearches?: Prisma.SavedSearchCreateNestedManyWithoutUserInput
+  qaThreads?: Prisma.QaThreadCreateNestedManyWithoutUserInput
 }
 
 export type UserUncheckedCreateWithoutAddedDocumentTagsInput = {
@@ -940,6 +1012,8 @@ export type UserUncheckedCreateWithoutAddedDocumentTagsInput = {
   documentCommands?: Prisma.DocumentCommandUncheckedCreateNestedManyWithoutUserInput
   createdTags?: Prisma.TagUncheckedCreateNestedManyWithoutCreatedByInput
   searchLogs?: Prisma.SearchLogUncheckedCreateNestedManyWithoutUserInput
+  savedSearches?: Prisma.SavedSearchUncheckedCreateNestedManyWithoutUserInput
+  qaThreads?: Prisma.QaThreadUncheckedCreateNestedManyWithoutUserInput
 }
 
 export type UserCreateOrConnectWithoutAddedDocumentTagsInput = {
@@ -974,6 +1048,8 @@ export type UserUpdateWithoutAddedDocumentTagsInput = {
   documentCommands?: Prisma.DocumentCommandUpdateManyWithoutUserNestedInput
   createdTags?: Prisma.TagUpdateManyWithoutCreatedByNestedInput
   searchLogs?: Prisma.SearchLogUpdateManyWithoutUserNestedInput
+  savedSearches?: Prisma.SavedSearchUpdateManyWithoutUserNestedInput
+  qaThreads?: Prisma.QaThreadUpdateManyWithoutUserNestedInput
 }
 
 export type UserUncheckedUpdateWithoutAddedDocumentTagsInput = {
@@ -992,6 +1068,8 @@ export type UserUncheckedUpdateWithoutAddedDocumentTagsInput = {
   documentCommands?: Prisma.DocumentCommandUncheckedUpdateManyWithoutUserNestedInput
   createdTags?: Prisma.TagUncheckedUpdateManyWithoutCreatedByNestedInput
   searchLogs?: Prisma.SearchLogUncheckedUpdateManyWithoutUserNestedInput
+  savedSearches?: Prisma.SavedSearchUncheckedUpdateManyWithoutUserNestedInput
+  qaThreads?: Prisma.QaThreadUncheckedUpdateManyWithoutUserNestedInput
 }
 
 export type UserCreateWithoutFavoriteDocumentsInput = {
@@ -1010,6 +1088,8 @@ export type UserCreateWithoutFavoriteDocumentsInput = {
   createdTags?: Prisma.TagCreateNestedManyWithoutCreatedByInput
   addedDocumentTags?: Prisma.DocumentTagCreateNestedManyWithoutAddedByInput
   searchLogs?: Prisma.SearchLogCreateNestedManyWithoutUserInput
+  savedSearches?: Prisma.SavedSearchCreateNestedManyWithoutUserInput
+  qaThreads?: Prisma.QaThreadCreateNestedManyWithoutUserInput
 }
 
 export type UserUncheckedCreateWithoutFavoriteDocumentsInput = {
@@ -1028,6 +1108,8 @@ export type UserUncheckedCreateWithoutFavoriteDocumentsInput = {
   createdTags?: Prisma.TagUncheckedCreateNestedManyWithoutCreatedByInput
   addedDocumentTags?: Prisma.DocumentTagUncheckedCreateNestedManyWithoutAddedByInput
   searchLogs?: Prisma.SearchLogUncheckedCreateNestedManyWithoutUserInput
+  savedSearches?: Prisma.SavedSearchUncheckedCreateNestedManyWithoutUserInput
+  qaThreads?: Prisma.QaThreadUncheckedCreateNestedManyWithoutUserInput
 }
 
 export type UserCreateOrConnectWithoutFavoriteDocumentsInput = {
@@ -1062,6 +1144,8 @@ export type UserUpdateWithoutFavoriteDocumentsInput = {
   createdTags?: Prisma.TagUpdateManyWithoutCreatedByNestedInput
   addedDocumentTags?: Prisma.DocumentTagUpdateManyWithoutAddedByNestedInput
   searchLogs?: Prisma.SearchLogUpdateManyWithoutUserNestedInput
+  savedSearches?: Prisma.SavedSearchUpdateManyWithoutUserNestedInput
+  qaThreads?: Prisma.QaThreadUpdateManyWithoutUserNestedInput
 }
 
 export type UserUncheckedUpdateWithoutFavoriteDocumentsInput = {
@@ -1080,6 +1164,8 @@ export type UserUncheckedUpdateWithoutFavoriteDocumentsInput = {
   createdTags?: Prisma.TagUncheckedUpdateManyWithoutCreatedByNestedInput
   addedDocumentTags?: Prisma.DocumentTagUncheckedUpdateManyWithoutAddedByNestedInput
   searchLogs?: Prisma.SearchLogUncheckedUpdateManyWithoutUserNestedInput
+  savedSearches?: Prisma.SavedSearchUncheckedUpdateManyWithoutUserNestedInput
+  qaThreads?: Prisma.QaThreadUncheckedUpdateManyWithoutUserNestedInput
 }
 
 export type UserCreateWithoutDocumentCommandsInput = {
@@ -1098,6 +1184,8 @@ export type UserCreateWithoutDocumentCommandsInput = {
   createdTags?: Prisma.TagCreateNestedManyWithoutCreatedByInput
   addedDocumentTags?: Prisma.DocumentTagCreateNestedManyWithoutAddedByInput
   searchLogs?: Prisma.SearchLogCreateNestedManyWithoutUserInput
+  savedSearches?: Prisma.SavedSearchCreateNestedManyWithoutUserInput
+  qaThreads?: Prisma.QaThreadCreateNestedManyWithoutUserInput
 }
 
 export type UserUncheckedCreateWithoutDocumentCommandsInput = {
@@ -1116,6 +1204,8 @@ export type UserUncheckedCreateWithoutDocumentCommandsInput = {
   createdTags?: Prisma.TagUncheckedCreateNestedManyWithoutCreatedByInput
   addedDocumentTags?: Prisma.DocumentTagUncheckedCreateNestedManyWithoutAddedByInput
   searchLogs?: Prisma.SearchLogUncheckedCreateNestedManyWithoutUserInput
+  savedSearches?: Prisma.SavedSearchUncheckedCreateNestedManyWithoutUserInput
+  qaThreads?: Prisma.QaThreadUncheckedCreateNestedManyWithoutUserInput
 }
 
 export type UserCreateOrConnectWithoutDocumentCommandsInput = {
@@ -1150,6 +1240,8 @@ export type UserUpdateWithoutDocumentCommandsInput = {
   createdTags?: Prisma.TagUpdateManyWithoutCreatedByNestedInput
   addedDocumentTags?: Prisma.DocumentTagUpdateManyWithoutAddedByNestedInput
   searchLogs?: Prisma.SearchLogUpdateManyWithoutUserNestedInput
+  savedSearches?: Prisma.SavedSearchUpdateManyWithoutUserNestedInput
+  qaThreads?: Prisma.QaThreadUpdateManyWithoutUserNestedInput
 }
 
 export type UserUncheckedUpdateWithoutDocumentCommandsInput = {
@@ -1168,6 +1260,8 @@ export type UserUncheckedUpdateWithoutDocumentCommandsInput = {
   createdTags?: Prisma.TagUncheckedUpdateManyWithoutCreatedByNestedInput
   addedDocumentTags?: Prisma.DocumentTagUncheckedUpdateManyWithoutAddedByNestedInput
   searchLogs?: Prisma.SearchLogUncheckedUpdateManyWithoutUserNestedInput
+  savedSearches?: Prisma.SavedSearchUncheckedUpdateManyWithoutUserNestedInput
+  qaThreads?: Prisma.QaThreadUncheckedUpdateManyWithoutUserNestedInput
 }
 
 export type UserCreateWithoutSearchLogsInput = {
@@ -1186,6 +1280,8 @@ export type UserCreateWithoutSearchLogsInput = {
   documentCommands?: Prisma.DocumentCommandCreateNestedManyWithoutUserInput
   createdTags?: Prisma.TagCreateNestedManyWithoutCreatedByInput
   addedDocumentTags?: Prisma.DocumentTagCreateNestedManyWithoutAddedByInput
+  savedSearches?: Prisma.SavedSearchCreateNestedManyWithoutUserInput
+  qaThreads?: Prisma.QaThreadCreateNestedManyWithoutUserInput
 }
 
 export type UserUncheckedCreateWithoutSearchLogsInput = {
@@ -1204,6 +1300,8 @@ export type UserUncheckedCreateWithoutSearchLogsInput = {
   documentCommands?: Prisma.DocumentCommandUncheckedCreateNestedManyWithoutUserInput
   createdTags?: Prisma.TagUncheckedCreateNestedManyWithoutCreatedByInput
   addedDocumentTags?: Prisma.DocumentTagUncheckedCreateNestedManyWithoutAddedByInput
+  savedSearches?: Prisma.SavedSearchUncheckedCreateNestedManyWithoutUserInput
+  qaThreads?: Prisma.QaThreadUncheckedCreateNestedManyWithoutUserInput
 }
 
 export type UserCreateOrConnectWithoutSearchLogsInput = {
@@ -1238,6 +1336,8 @@ export type UserUpdateWithoutSearchLogsInput = {
   documentCommands?: Prisma.DocumentCommandUpdateManyWithoutUserNestedInput
   createdTags?: Prisma.TagUpdateManyWithoutCreatedByNestedInput
   addedDocumentTags?: Prisma.DocumentTagUpdateManyWithoutAddedByNestedInput
+  savedSearches?: Prisma.SavedSearchUpdateManyWithoutUserNestedInput
+  qaThreads?: Prisma.QaThreadUpdateManyWithoutUserNestedInput
 }
 
 export type UserUncheckedUpdateWithoutSearchLogsInput = {
@@ -1256,6 +1356,200 @@ export type UserUncheckedUpdateWithoutSearchLogsInput = {
   documentCommands?: Prisma.DocumentCommandUncheckedUpdateManyWithoutUserNestedInput
   createdTags?: Prisma.TagUncheckedUpdateManyWithoutCreatedByNestedInput
   addedDocumentTags?: Prisma.DocumentTagUncheckedUpdateManyWithoutAddedByNestedInput
+  savedSearches?: Prisma.SavedSearchUncheckedUpdateManyWithoutUserNestedInput
+  qaThreads?: Prisma.QaThreadUncheckedUpdateManyWithoutUserNestedInput
+}
+
+export type UserCreateWithoutSavedSearchesInput = {
+  id?: string
+  email: string
+  name?: string | null
+  passwordHash?: string | null
+  oauthProvider?: string | null
+  oauthAccountId?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  memberships?: Prisma.TenantMembershipCreateNestedManyWithoutUserInput
+  createdDocuments?: Prisma.DocumentCreateNestedManyWithoutCreatedByInput
+  updatedDocuments?: Prisma.DocumentCreateNestedManyWithoutUpdatedByInput
+  favoriteDocuments?: Prisma.DocumentFavoriteCreateNestedManyWithoutUserInput
+  documentCommands?: Prisma.DocumentCommandCreateNestedManyWithoutUserInput
+  createdTags?: Prisma.TagCreateNestedManyWithoutCreatedByInput
+  addedDocumentTags?: Prisma.DocumentTagCreateNestedManyWithoutAddedByInput
+  searchLogs?: Prisma.SearchLogCreateNestedManyWithoutUserInput
+  qaThreads?: Prisma.QaThreadCreateNestedManyWithoutUserInput
+}
+
+export type UserUncheckedCreateWithoutSavedSearchesInput = {
+  id?: string
+  email: string
+  name?: string | null
+  passwordHash?: string | null
+  oauthProvider?: string | null
+  oauthAccountId?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  memberships?: Prisma.TenantMembershipUncheckedCreateNestedManyWithoutUserInput
+  createdDocuments?: Prisma.DocumentUncheckedCreateNestedManyWithoutCreatedByInput
+  updatedDocuments?: Prisma.DocumentUncheckedCreateNestedManyWithoutUpdatedByInput
+  favoriteDocuments?: Prisma.DocumentFavoriteUncheckedCreateNestedManyWithoutUserInput
+  documentCommands?: Prisma.DocumentCommandUncheckedCreateNestedManyWithoutUserInput
+  createdTags?: Prisma.TagUncheckedCreateNestedManyWithoutCreatedByInput
+  addedDocumentTags?: Prisma.DocumentTagUncheckedCreateNestedManyWithoutAddedByInput
+  searchLogs?: Prisma.SearchLogUncheckedCreateNestedManyWithoutUserInput
+  qaThreads?: Prisma.QaThreadUncheckedCreateNestedManyWithoutUserInput
+}
+
+export type UserCreateOrConnectWithoutSavedSearchesInput = {
+  where: Prisma.UserWhereUniqueInput
+  create: Prisma.XOR<Prisma.UserCreateWithoutSavedSearchesInput, Prisma.UserUncheckedCreateWithoutSavedSearchesInput>
+}
+
+export type UserUpsertWithoutSavedSearchesInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutSavedSearchesInput, Prisma.UserUncheckedUpdateWithoutSavedSearchesInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutSavedSearchesInput, Prisma.UserUncheckedCreateWithoutSavedSearchesInput>
+  where?: Prisma.UserWhereInput
+}
+
+export type UserUpdateToOneWithWhereWithoutSavedSearchesInput = {
+  where?: Prisma.UserWhereInput
+  data: Prisma.XOR<Prisma.UserUpdateWithoutSavedSearchesInput, Prisma.UserUncheckedUpdateWithoutSavedSearchesInput>
+}
+
+export type UserUpdateWithoutSavedSearchesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  passwordHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  oauthProvider?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  oauthAccountId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  memberships?: Prisma.TenantMembershipUpdateManyWithoutUserNestedInput
+  createdDocuments?: Prisma.DocumentUpdateManyWithoutCreatedByNestedInput
+  updatedDocuments?: Prisma.DocumentUpdateManyWithoutUpdatedByNestedInput
+  favoriteDocuments?: Prisma.DocumentFavoriteUpdateManyWithoutUserNestedInput
+  documentCommands?: Prisma.DocumentCommandUpdateManyWithoutUserNestedInput
+  createdTags?: Prisma.TagUpdateManyWithoutCreatedByNestedInput
+  addedDocumentTags?: Prisma.DocumentTagUpdateManyWithoutAddedByNestedInput
+  searchLogs?: Prisma.SearchLogUpdateManyWithoutUserNestedInput
+  qaThreads?: Prisma.QaThreadUpdateManyWithoutUserNestedInput
+}
+
+export type UserUncheckedUpdateWithoutSavedSearchesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  passwordHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  oauthProvider?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  oauthAccountId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  memberships?: Prisma.TenantMembershipUncheckedUpdateManyWithoutUserNestedInput
+  createdDocuments?: Prisma.DocumentUncheckedUpdateManyWithoutCreatedByNestedInput
+  updatedDocuments?: Prisma.DocumentUncheckedUpdateManyWithoutUpdatedByNestedInput
+  favoriteDocuments?: Prisma.DocumentFavoriteUncheckedUpdateManyWithoutUserNestedInput
+  documentCommands?: Prisma.DocumentCommandUncheckedUpdateManyWithoutUserNestedInput
+  createdTags?: Prisma.TagUncheckedUpdateManyWithoutCreatedByNestedInput
+  addedDocumentTags?: Prisma.DocumentTagUncheckedUpdateManyWithoutAddedByNestedInput
+  searchLogs?: Prisma.SearchLogUncheckedUpdateManyWithoutUserNestedInput
+  qaThreads?: Prisma.QaThreadUncheckedUpdateManyWithoutUserNestedInput
+}
+
+export type UserCreateWithoutQaThreadsInput = {
+  id?: string
+  email: string
+  name?: string | null
+  passwordHash?: string | null
+  oauthProvider?: string | null
+  oauthAccountId?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  memberships?: Prisma.TenantMembershipCreateNestedManyWithoutUserInput
+  createdDocuments?: Prisma.DocumentCreateNestedManyWithoutCreatedByInput
+  updatedDocuments?: Prisma.DocumentCreateNestedManyWithoutUpdatedByInput
+  favoriteDocuments?: Prisma.DocumentFavoriteCreateNestedManyWithoutUserInput
+  documentCommands?: Prisma.DocumentCommandCreateNestedManyWithoutUserInput
+  createdTags?: Prisma.TagCreateNestedManyWithoutCreatedByInput
+  addedDocumentTags?: Prisma.DocumentTagCreateNestedManyWithoutAddedByInput
+  searchLogs?: Prisma.SearchLogCreateNestedManyWithoutUserInput
+  savedSearches?: Prisma.SavedSearchCreateNestedManyWithoutUserInput
+}
+
+export type UserUncheckedCreateWithoutQaThreadsInput = {
+  id?: string
+  email: string
+  name?: string | null
+  passwordHash?: string | null
+  oauthProvider?: string | null
+  oauthAccountId?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  memberships?: Prisma.TenantMembershipUncheckedCreateNestedManyWithoutUserInput
+  createdDocuments?: Prisma.DocumentUncheckedCreateNestedManyWithoutCreatedByInput
+  updatedDocuments?: Prisma.DocumentUncheckedCreateNestedManyWithoutUpdatedByInput
+  favoriteDocuments?: Prisma.DocumentFavoriteUncheckedCreateNestedManyWithoutUserInput
+  documentCommands?: Prisma.DocumentCommandUncheckedCreateNestedManyWithoutUserInput
+  createdTags?: Prisma.TagUncheckedCreateNestedManyWithoutCreatedByInput
+  addedDocumentTags?: Prisma.DocumentTagUncheckedCreateNestedManyWithoutAddedByInput
+  searchLogs?: Prisma.SearchLogUncheckedCreateNestedManyWithoutUserInput
+  savedSearches?: Prisma.SavedSearchUncheckedCreateNestedManyWithoutUserInput
+}
+
+export type UserCreateOrConnectWithoutQaThreadsInput = {
+  where: Prisma.UserWhereUniqueInput
+  create: Prisma.XOR<Prisma.UserCreateWithoutQaThreadsInput, Prisma.UserUncheckedCreateWithoutQaThreadsInput>
+}
+
+export type UserUpsertWithoutQaThreadsInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutQaThreadsInput, Prisma.UserUncheckedUpdateWithoutQaThreadsInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutQaThreadsInput, Prisma.UserUncheckedCreateWithoutQaThreadsInput>
+  where?: Prisma.UserWhereInput
+}
+
+export type UserUpdateToOneWithWhereWithoutQaThreadsInput = {
+  where?: Prisma.UserWhereInput
+  data: Prisma.XOR<Prisma.UserUpdateWithoutQaThreadsInput, Prisma.UserUncheckedUpdateWithoutQaThreadsInput>
+}
+
+export type UserUpdateWithoutQaThreadsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  passwordHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  oauthProvider?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  oauthAccountId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  memberships?: Prisma.TenantMembershipUpdateManyWithoutUserNestedInput
+  createdDocuments?: Prisma.DocumentUpdateManyWithoutCreatedByNestedInput
+  updatedDocuments?: Prisma.DocumentUpdateManyWithoutUpdatedByNestedInput
+  favoriteDocuments?: Prisma.DocumentFavoriteUpdateManyWithoutUserNestedInput
+  documentCommands?: Prisma.DocumentCommandUpdateManyWithoutUserNestedInput
+  createdTags?: Prisma.TagUpdateManyWithoutCreatedByNestedInput
+  addedDocumentTags?: Prisma.DocumentTagUpdateManyWithoutAddedByNestedInput
+  searchLogs?: Prisma.SearchLogUpdateManyWithoutUserNestedInput
+  savedSearches?: Prisma.SavedSearchUpdateManyWithoutUserNestedInput
+}
+
+export type UserUncheckedUpdateWithoutQaThreadsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  passwordHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  oauthProvider?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  oauthAccountId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  memberships?: Prisma.TenantMembershipUncheckedUpdateManyWithoutUserNestedInput
+  createdDocuments?: Prisma.DocumentUncheckedUpdateManyWithoutCreatedByNestedInput
+  updatedDocuments?: Prisma.DocumentUncheckedUpdateManyWithoutUpdatedByNestedInput
+  favoriteDocuments?: Prisma.DocumentFavoriteUncheckedUpdateManyWithoutUserNestedInput
+  documentCommands?: Prisma.DocumentCommandUncheckedUpdateManyWithoutUserNestedInput
+  createdTags?: Prisma.TagUncheckedUpdateManyWithoutCreatedByNestedInput
+  addedDocumentTags?: Prisma.DocumentTagUncheckedUpdateManyWithoutAddedByNestedInput
+  searchLogs?: Prisma.SearchLogUncheckedUpdateManyWithoutUserNestedInput
+  savedSearches?: Prisma.SavedSearchUncheckedUpdateManyWithoutUserNestedInput
 }
 
 
@@ -1272,6 +1566,8 @@ export type UserCountOutputType = {
   createdTags: number
   addedDocumentTags: number
   searchLogs: number
+  savedSearches: number
+  qaThreads: number
 }
 
 export type UserCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
@@ -1283,6 +1579,8 @@ export type UserCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.I
   createdTags?: boolean | UserCountOutputTypeCountCreatedTagsArgs
   addedDocumentTags?: boolean | UserCountOutputTypeCountAddedDocumentTagsArgs
   searchLogs?: boolean | UserCountOutputTypeCountSearchLogsArgs
+  savedSearches?: boolean | UserCountOutputTypeCountSavedSearchesArgs
+  qaThreads?: boolean | UserCountOutputTypeCountQaThreadsArgs
 }
 
 /**
@@ -1351,6 +1649,20 @@ export type UserCountOutputTypeCountSearchLogsArgs<ExtArgs extends runtime.Types
   where?: Prisma.SearchLogWhereInput
 }
 
+/**
+ * UserCountOutputType without action
+ */
+export type UserCountOutputTypeCountSavedSearchesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.SavedSearchWhereInput
+}
+
+/**
+ * UserCountOutputType without action
+ */
+export type UserCountOutputTypeCountQaThreadsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.QaThreadWhereInput
+}
+
 
 export type UserSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
   id?: boolean
@@ -1369,6 +1681,8 @@ export type UserSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = r
   createdTags?: boolean | Prisma.User$createdTagsArgs<ExtArgs>
   addedDocumentTags?: boolean | Prisma.User$addedDocumentTagsArgs<ExtArgs>
   searchLogs?: boolean | Prisma.User$searchLogsArgs<ExtArgs>
+  savedSearches?: boolean | Prisma.User$savedSearchesArgs<ExtArgs>
+  qaThreads?: boolean | Prisma.User$qaThreadsArgs<ExtArgs>
   _count?: boolean | Prisma.UserCountOutputTypeDefaultArgs<ExtArgs>
 }, ExtArgs["result"]["user"]>
 
@@ -1415,6 +1729,8 @@ export type UserInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs =
   createdTags?: boolean | Prisma.User$createdTagsArgs<ExtArgs>
   addedDocumentTags?: boolean | Prisma.User$addedDocumentTagsArgs<ExtArgs>
   searchLogs?: boolean | Prisma.User$searchLogsArgs<ExtArgs>
+  savedSearches?: boolean | Prisma.User$savedSearchesArgs<ExtArgs>
+  qaThreads?: boolean | Prisma.User$qaThreadsArgs<ExtArgs>
   _count?: boolean | Prisma.UserCountOutputTypeDefaultArgs<ExtArgs>
 }
 export type UserIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {}
@@ -1431,6 +1747,8 @@ export type $UserPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs =
     createdTags: Prisma.$TagPayload<ExtArgs>[]
     addedDocumentTags: Prisma.$DocumentTagPayload<ExtArgs>[]
     searchLogs: Prisma.$SearchLogPayload<ExtArgs>[]
+    savedSearches: Prisma.$SavedSearchPayload<ExtArgs>[]
+    qaThreads: Prisma.$QaThreadPayload<ExtArgs>[]
   }
   scalars: runtime.Types.Extensions.GetPayloadResult<{
     id: string
@@ -1843,6 +2161,8 @@ export interface Prisma__UserClient<T, Null = never, ExtArgs extends runtime.Typ
   createdTags<T extends Prisma.User$createdTagsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$createdTagsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$TagPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   addedDocumentTags<T extends Prisma.User$addedDocumentTagsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$addedDocumentTagsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$DocumentTagPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   searchLogs<T extends Prisma.User$searchLogsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$searchLogsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$SearchLogPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  savedSearches<T extends Prisma.User$savedSearchesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$savedSearchesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$SavedSearchPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  qaThreads<T extends Prisma.User$qaThreadsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$qaThreadsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$QaThreadPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   /**
    * Attaches callbacks for the resolution and/or rejection of the Promise.
    * @param onfulfilled The callback to execute when the Promise is resolved.
@@ -2459,6 +2779,54 @@ export type User$searchLogsArgs<ExtArgs extends runtime.Types.Extensions.Interna
   distinct?: Prisma.SearchLogScalarFieldEnum | Prisma.SearchLogScalarFieldEnum[]
 }
 
+/**
+ * User.savedSearches
+ */
+export type User$savedSearchesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SavedSearch
+   */
+  select?: Prisma.SavedSearchSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SavedSearch
+   */
+  omit?: Prisma.SavedSearchOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SavedSearchInclude<ExtArgs> | null
+  where?: Prisma.SavedSearchWhereInput
+  orderBy?: Prisma.SavedSearchOrderByWithRelationInput | Prisma.SavedSearchOrderByWithRelationInput[]
+  cursor?: Prisma.SavedSearchWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.SavedSearchScalarFieldEnum | Prisma.SavedSearchScalarFieldEnum[]
+}
+
+/**
+ * User.qaThreads
+ */
+export type User$qaThreadsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the QaThread
+   */
+  select?: Prisma.QaThreadSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the QaThread
+   */
+  omit?: Prisma.QaThreadOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.QaThreadInclude<ExtArgs> | null
+  where?: Prisma.QaThreadWhereInput
+  orderBy?: Prisma.QaThreadOrderByWithRelationInput | Prisma.QaThreadOrderByWithRelationInput[]
+  cursor?: Prisma.QaThreadWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.QaThreadScalarFieldEnum | Prisma.QaThreadScalarFieldEnum[]
+}
+
 /**
  * User without action
  */
@@ -0,0 +1,1445 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `WorkspaceDigest` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums.js"
+import type * as Prisma from "../internal/prismaNamespace.js"
+
+/**
+ * Model WorkspaceDigest
+ * 
+ */
+export type WorkspaceDigestModel = runtime.Types.Result.DefaultSelection<Prisma.$WorkspaceDigestPayload>
+
+export type AggregateWorkspaceDigest = {
+  _count: WorkspaceDigestCountAggregateOutputType | null
+  _min: WorkspaceDigestMinAggregateOutputType | null
+  _max: WorkspaceDigestMaxAggregateOutputType | null
+}
+
+export type WorkspaceDigestMinAggregateOutputType = {
+  id: string | null
+  tenantId: string | null
+  periodStart: Date | null
+  periodEnd: Date | null
+  summary: string | null
+  model: string | null
+  createdAt: Date | null
+}
+
+export type WorkspaceDigestMaxAggregateOutputType = {
+  id: string | null
+  tenantId: string | null
+  periodStart: Date | null
+  periodEnd: Date | null
+  summary: string | null
+  model: string | null
+  createdAt: Date | null
+}
+
+export type WorkspaceDigestCountAggregateOutputType = {
+  id: number
+  tenantId: number
+  periodStart: number
+  periodEnd: number
+  summary: number
+  activity: number
+  model: number
+  createdAt: number
+  _all: number
+}
+
+
+export type WorkspaceDigestMinAggregateInputType = {
+  id?: true
+  tenantId?: true
+  periodStart?: true
+  periodEnd?: true
+  summary?: true
+  model?: true
+  createdAt?: true
+}
+
+export type WorkspaceDigestMaxAggregateInputType = {
+  id?: true
+  tenantId?: true
+  periodStart?: true
+  periodEnd?: true
+  summary?: true
+  model?: true
+  createdAt?: true
+}
+
+export type WorkspaceDigestCountAggregateInputType = {
+  id?: true
+  tenantId?: true
+  periodStart?: true
+  periodEnd?: true
+  summary?: true
+  activity?: true
+  model?: true
+  createdAt?: true
+  _all?: true
+}
+
+export type WorkspaceDigestAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which WorkspaceDigest to aggregate.
+   */
+  where?: Prisma.WorkspaceDigestWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of WorkspaceDigests to fetch.
+   */
+  orderBy?: Prisma.WorkspaceDigestOrderByWithRelationInput | Prisma.WorkspaceDigestOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.WorkspaceDigestWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` WorkspaceDigests from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` WorkspaceDigests.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned WorkspaceDigests
+  **/
+  _count?: true | WorkspaceDigestCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: WorkspaceDigestMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: WorkspaceDigestMaxAggregateInputType
+}
+
+export type GetWorkspaceDigestAggregateType<T extends WorkspaceDigestAggregateArgs> = {
+      [P in keyof T & keyof AggregateWorkspaceDigest]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateWorkspaceDigest[P]>
+    : Prisma.GetScalarType<T[P], AggregateWorkspaceDigest[P]>
+}
+
+
+
+
+export type WorkspaceDigestGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.WorkspaceDigestWhereInput
+  orderBy?: Prisma.WorkspaceDigestOrderByWithAggregationInput | Prisma.WorkspaceDigestOrderByWithAggregationInput[]
+  by: Prisma.WorkspaceDigestScalarFieldEnum[] | Prisma.WorkspaceDigestScalarFieldEnum
+  having?: Prisma.WorkspaceDigestScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: WorkspaceDigestCountAggregateInputType | true
+  _min?: WorkspaceDigestMinAggregateInputType
+  _max?: WorkspaceDigestMaxAggregateInputType
+}
+
+export type WorkspaceDigestGroupByOutputType = {
+  id: string
+  tenantId: string
+  periodStart: Date
+  periodEnd: Date
+  summary: string
+  activity: runtime.JsonValue
+  model: string
+  createdAt: Date
+  _count: WorkspaceDigestCountAggregateOutputType | null
+  _min: WorkspaceDigestMinAggregateOutputType | null
+  _max: WorkspaceDigestMaxAggregateOutputType | null
+}
+
+type GetWorkspaceDigestGroupByPayload<T extends WorkspaceDigestGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<WorkspaceDigestGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof WorkspaceDigestGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], WorkspaceDigestGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], WorkspaceDigestGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type WorkspaceDigestWhereInput = {
+  AND?: Prisma.WorkspaceDigestWhereInput | Prisma.WorkspaceDigestWhereInput[]
+  OR?: Prisma.WorkspaceDigestWhereInput[]
+  NOT?: Prisma.WorkspaceDigestWhereInput | Prisma.WorkspaceDigestWhereInput[]
+  id?: Prisma.StringFilter<"WorkspaceDigest"> | string
+  tenantId?: Prisma.StringFilter<"WorkspaceDigest"> | string
+  periodStart?: Prisma.DateTimeFilter<"WorkspaceDigest"> | Date | string
+  periodEnd?: Prisma.DateTimeFilter<"WorkspaceDigest"> | Date | string
+  summary?: Prisma.StringFilter<"WorkspaceDigest"> | string
+  activity?: Prisma.JsonFilter<"WorkspaceDigest">
+  model?: Prisma.StringFilter<"WorkspaceDigest"> | string
+  createdAt?: Prisma.DateTimeFilter<"WorkspaceDigest"> | Date | string
+  tenant?: Prisma.XOR<Prisma.TenantScalarRelationFilter, Prisma.TenantWhereInput>
+}
+
+export type WorkspaceDigestOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  tenantId?: Prisma.SortOrder
+  periodStart?: Prisma.SortOrder
+  periodEnd?: Prisma.SortOrder
+  summary?: Prisma.SortOrder
+  activity?: Prisma.SortOrder
+  model?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  tenant?: Prisma.TenantOrderByWithRelationInput
+}
+
+export type WorkspaceDigestWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  tenantId_periodStart?: Prisma.WorkspaceDigestTenantIdPeriodStartCompoundUniqueInput
+  AND?: Prisma.WorkspaceDigestWhereInput | Prisma.WorkspaceDigestWhereInput[]
+  OR?: Prisma.WorkspaceDigestWhereInput[]
+  NOT?: Prisma.WorkspaceDigestWhereInput | Prisma.WorkspaceDigestWhereInput[]
+  tenantId?: Prisma.StringFilter<"WorkspaceDigest"> | string
+  periodStart?: Prisma.DateTimeFilter<"WorkspaceDigest"> | Date | string
+  periodEnd?: Prisma.DateTimeFilter<"WorkspaceDigest"> | Date | string
+  summary?: Prisma.StringFilter<"WorkspaceDigest"> | string
+  activity?: Prisma.JsonFilter<"WorkspaceDigest">
+  model?: Prisma.StringFilter<"WorkspaceDigest"> | string
+  createdAt?: Prisma.DateTimeFilter<"WorkspaceDigest"> | Date | string
+  tenant?: Prisma.XOR<Prisma.TenantScalarRelationFilter, Prisma.TenantWhereInput>
+}, "id" | "tenantId_periodStart">
+
+export type WorkspaceDigestOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  tenantId?: Prisma.SortOrder
+  periodStart?: Prisma.SortOrder
+  periodEnd?: Prisma.SortOrder
+  summary?: Prisma.SortOrder
+  activity?: Prisma.SortOrder
+  model?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  _count?: Prisma.WorkspaceDigestCountOrderByAggregateInput
+  _max?: Prisma.WorkspaceDigestMaxOrderByAggregateInput
+  _min?: Prisma.WorkspaceDigestMinOrderByAggregateInput
+}
+
+export type WorkspaceDigestScalarWhereWithAggregatesInput = {
+  AND?: Prisma.WorkspaceDigestScalarWhereWithAggregatesInput | Prisma.WorkspaceDigestScalarWhereWithAggregatesInput[]
+  OR?: Prisma.WorkspaceDigestScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.WorkspaceDigestScalarWhereWithAggregatesInput | Prisma.WorkspaceDigestScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"WorkspaceDigest"> | string
+  tenantId?: Prisma.StringWithAggregatesFilter<"WorkspaceDigest"> | string
+  periodStart?: Prisma.DateTimeWithAggregatesFilter<"WorkspaceDigest"> | Date | string
+  periodEnd?: Prisma.DateTimeWithAggregatesFilter<"WorkspaceDigest"> | Date | string
+  summary?: Prisma.StringWithAggregatesFilter<"WorkspaceDigest"> | string
+  activity?: Prisma.JsonWithAggregatesFilter<"WorkspaceDigest">
+  model?: Prisma.StringWithAggregatesFilter<"WorkspaceDigest"> | string
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"WorkspaceDigest"> | Date | string
+}
+
+export type WorkspaceDigestCreateInput = {
+  id?: string
+  periodStart: Date | string
+  periodEnd: Date | string
+  summary: string
+  activity: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  model: string
+  createdAt?: Date | string
+  tenant: Prisma.TenantCreateNestedOneWithoutDigestsInput
+}
+
+export type WorkspaceDigestUncheckedCreateInput = {
+  id?: string
+  tenantId: string
+  periodStart: Date | string
+  periodEnd: Date | string
+  summary: string
+  activity: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  model: string
+  createdAt?: Date | string
+}
+
+export type WorkspaceDigestUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  periodStart?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  periodEnd?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  summary?: Prisma.StringFieldUpdateOperationsInput | string
+  activity?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  model?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  tenant?: Prisma.TenantUpdateOneRequiredWithoutDigestsNestedInput
+}
+
+export type WorkspaceDigestUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  tenantId?: Prisma.StringFieldUpdateOperationsInput | string
+  periodStart?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  periodEnd?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  summary?: Prisma.StringFieldUpdateOperationsInput | string
+  activity?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  model?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type WorkspaceDigestCreateManyInput = {
+  id?: string
+  tenantId: string
+  periodStart: Date | string
+  periodEnd: Date | string
+  summary: string
+  activity: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  model: string
+  createdAt?: Date | string
+}
+
+export type WorkspaceDigestUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  periodStart?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  periodEnd?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  summary?: Prisma.StringFieldUpdateOperationsInput | string
+  activity?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  model?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type WorkspaceDigestUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  tenantId?: Prisma.StringFieldUpdateOperationsInput | string
+  periodStart?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  periodEnd?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  summary?: Prisma.StringFieldUpdateOperationsInput | string
+  activity?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  model?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type WorkspaceDigestListRelationFilter = {
+  every?: Prisma.WorkspaceDigestWhereInput
+  some?: Prisma.WorkspaceDigestWhereInput
+  none?: Prisma.WorkspaceDigestWhereInput
+}
+
+export type WorkspaceDigestOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type WorkspaceDigestTenantIdPeriodStartCompoundUniqueInput = {
+  tenantId: string
+  periodStart: Date | string
+}
+
+export type WorkspaceDigestCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  tenantId?: Prisma.SortOrder
+  periodStart?: Prisma.SortOrder
+  periodEnd?: Prisma.SortOrder
+  summary?: Prisma.SortOrder
+  activity?: Prisma.SortOrder
+  model?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type WorkspaceDigestMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  tenantId?: Prisma.SortOrder
+  periodStart?: Prisma.SortOrder
+  periodEnd?: Prisma.SortOrder
+  summary?: Prisma.SortOrder
+  model?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type WorkspaceDigestMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  tenantId?: Prisma.SortOrder
+  periodStart?: Prisma.SortOrder
+  periodEnd?: Prisma.SortOrder
+  summary?: Prisma.SortOrder
+  model?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type WorkspaceDigestCreateNestedManyWithoutTenantInput = {
+  create?: Prisma.XOR<Prisma.WorkspaceDigestCreateWithoutTenantInput, Prisma.WorkspaceDigestUncheckedCreateWithoutTenantInput> | Prisma.WorkspaceDigestCreateWithoutTenantInput[] | Prisma.WorkspaceDigestUncheckedCreateWithoutTenantInput[]
+  connectOrCreate?: Prisma.WorkspaceDigestCreateOrConnectWithoutTenantInput | Prisma.WorkspaceDigestCreateOrConnectWithoutTenantInput[]
+  createMany?: Prisma.WorkspaceDigestCreateManyTenantInputEnvelope
+  connect?: Prisma.WorkspaceDigestWhereUniqueInput | Prisma.WorkspaceDigestWhereUniqueInput[]
+}
+
+export type WorkspaceDigestUncheckedCreateNestedManyWithoutTenantInput = {
+  create?: Prisma.XOR<Prisma.WorkspaceDigestCreateWithoutTenantInput, Prisma.WorkspaceDigestUncheckedCreateWithoutTenantInput> | Prisma.WorkspaceDigestCreateWithoutTenantInput[] | Prisma.WorkspaceDigestUncheckedCreateWithoutTenantInput[]
+  connectOrCreate?: Prisma.WorkspaceDigestCreateOrConnectWithoutTenantInput | Prisma.WorkspaceDigestCreateOrConnectWithoutTenantInput[]
+  createMany?: Prisma.WorkspaceDigestCreateManyTenantInputEnvelope
+  connect?: Prisma.WorkspaceDigestWhereUniqueInput | Prisma.WorkspaceDigestWhereUniqueInput[]
+}
+
+export type WorkspaceDigestUpdateManyWithoutTenantNestedInput = {
+  create?: Prisma.XOR<Prisma.WorkspaceDigestCreateWithoutTenantInput, Prisma.WorkspaceDigestUncheckedCreateWithoutTenantInput> | Prisma.WorkspaceDigestCreateWithoutTenantInput[] | Prisma.WorkspaceDigestUncheckedCreateWithoutTenantInput[]
+  connectOrCreate?: Prisma.WorkspaceDigestCreateOrConnectWithoutTenantInput | Prisma.WorkspaceDigestCreateOrConnectWithoutTenantInput[]
+  upsert?: Prisma.WorkspaceDigestUpsertWithWhereUniqueWithoutTenantInput | Prisma.WorkspaceDigestUpsertWithWhereUniqueWithoutTenantInput[]
+  createMany?: Prisma.WorkspaceDigestCreateManyTenantInputEnvelope
+  set?: Prisma.WorkspaceDigestWhereUniqueInput | Prisma.WorkspaceDigestWhereUniqueInput[]
+  disconnect?: Prisma.WorkspaceDigestWhereUniqueInput | Prisma.WorkspaceDigestWhereUniqueInput[]
+  delete?: Prisma.WorkspaceDigestWhereUniqueInput | Prisma.WorkspaceDigestWhereUniqueInput[]
+  connect?: Prisma.WorkspaceDigestWhereUniqueInput | Prisma.WorkspaceDigestWhereUniqueInput[]
+  update?: Prisma.WorkspaceDigestUpdateWithWhereUniqueWithoutTenantInput | Prisma.WorkspaceDigestUpdateWithWhereUniqueWithoutTenantInput[]
+  updateMany?: Prisma.WorkspaceDigestUpdateManyWithWhereWithoutTenantInput | Prisma.WorkspaceDigestUpdateManyWithWhereWithoutTenantInput[]
+  deleteMany?: Prisma.WorkspaceDigestScalarWhereInput | Prisma.WorkspaceDigestScalarWhereInput[]
+}
+
+export type WorkspaceDigestUncheckedUpdateManyWithoutTenantNestedInput = {
+  create?: Prisma.XOR<Prisma.WorkspaceDigestCreateWithoutTenantInput, Prisma.WorkspaceDigestUncheckedCreateWithoutTenantInput> | Prisma.WorkspaceDigestCreateWithoutTenantInput[] | Prisma.WorkspaceDigestUncheckedCreateWithoutTenantInput[]
+  connectOrCreate?: Prisma.WorkspaceDigestCreateOrConnectWithoutTenantInput | Prisma.WorkspaceDigestCreateOrConnectWithoutTenantInput[]
+  upsert?: Prisma.WorkspaceDigestUpsertWithWhereUniqueWithoutTenantInput | Prisma.WorkspaceDigestUpsertWithWhereUniqueWithoutTenantInput[]
+  createMany?: Prisma.WorkspaceDigestCreateManyTenantInputEnvelope
+  set?: Prisma.WorkspaceDigestWhereUniqueInput | Prisma.WorkspaceDigestWhereUniqueInput[]
+  disconnect?: Prisma.WorkspaceDigestWhereUniqueInput | Prisma.WorkspaceDigestWhereUniqueInput[]
+  delete?: Prisma.WorkspaceDigestWhereUniqueInput | Prisma.WorkspaceDigestWhereUniqueInput[]
+  connect?: Prisma.WorkspaceDigestWhereUniqueInput | Prisma.WorkspaceDigestWhereUniqueInput[]
+  update?: Prisma.WorkspaceDigestUpdateWithWhereUniqueWithoutTenantInput | Prisma.WorkspaceDigestUpdateWithWhereUniqueWithoutTenantInput[]
+  updateMany?: Prisma.WorkspaceDigestUpdateManyWithWhereWithoutTenantInput | Prisma.WorkspaceDigestUpdateManyWithWhereWithoutTenantInput[]
+  deleteMany?: Prisma.WorkspaceDigestScalarWhereInput | Prisma.WorkspaceDigestScalarWhereInput[]
+}
+
+export type WorkspaceDigestCreateWithoutTenantInput = {
+  id?: string
+  periodStart: Date | string
+  periodEnd: Date | string
+  summary: string
+  activity: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  model: string
+  createdAt?: Date | string
+}
+
+export type WorkspaceDigestUncheckedCreateWithoutTenantInput = {
+  id?: string
+  periodStart: Date | string
+  periodEnd: Date | string
+  summary: string
+  activity: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  model: string
+  createdAt?: Date | string
+}
+
+export type WorkspaceDigestCreateOrConnectWithoutTenantInput = {
+  where: Prisma.WorkspaceDigestWhereUniqueInput
+  create: Prisma.XOR<Prisma.WorkspaceDigestCreateWithoutTenantInput, Prisma.WorkspaceDigestUncheckedCreateWithoutTenantInput>
+}
+
+export type WorkspaceDigestCreateManyTenantInputEnvelope = {
+  data: Prisma.WorkspaceDigestCreateManyTenantInput | Prisma.WorkspaceDigestCreateManyTenantInput[]
+  skipDuplicates?: boolean
+}
+
+export type WorkspaceDigestUpsertWithWhereUniqueWithoutTenantInput = {
+  where: Prisma.WorkspaceDigestWhereUniqueInput
+  update: Prisma.XOR<Prisma.WorkspaceDigestUpdateWithoutTenantInput, Prisma.WorkspaceDigestUncheckedUpdateWithoutTenantInput>
+  create: Prisma.XOR<Prisma.WorkspaceDigestCreateWithoutTenantInput, Prisma.WorkspaceDigestUncheckedCreateWithoutTenantInput>
+}
+
+export type WorkspaceDigestUpdateWithWhereUniqueWithoutTenantInput = {
+  where: Prisma.WorkspaceDigestWhereUniqueInput
+  data: Prisma.XOR<Prisma.WorkspaceDigestUpdateWithoutTenantInput, Prisma.WorkspaceDigestUncheckedUpdateWithoutTenantInput>
+}
+
+export type WorkspaceDigestUpdateManyWithWhereWithoutTenantInput = {
+  where: Prisma.WorkspaceDigestScalarWhereInput
+  data: Prisma.XOR<Prisma.WorkspaceDigestUpdateManyMutationInput, Prisma.WorkspaceDigestUncheckedUpdateManyWithoutTenantInput>
+}
+
+export type WorkspaceDigestScalarWhereInput = {
+  AND?: Prisma.WorkspaceDigestScalarWhereInput | Prisma.WorkspaceDigestScalarWhereInput[]
+  OR?: Prisma.WorkspaceDigestScalarWhereInput[]
+  NOT?: Prisma.WorkspaceDigestScalarWhereInput | Prisma.WorkspaceDigestScalarWhereInput[]
+  id?: Prisma.StringFilter<"WorkspaceDigest"> | string
+  tenantId?: Prisma.StringFilter<"WorkspaceDigest"> | string
+  periodStart?: Prisma.DateTimeFilter<"WorkspaceDigest"> | Date | string
+  periodEnd?: Prisma.DateTimeFilter<"WorkspaceDigest"> | Date | string
+  summary?: Prisma.StringFilter<"WorkspaceDigest"> | string
+  activity?: Prisma.JsonFilter<"WorkspaceDigest">
+  model?: Prisma.StringFilter<"WorkspaceDigest"> | string
+  createdAt?: Prisma.DateTimeFilter<"WorkspaceDigest"> | Date | string
+}
+
+export type WorkspaceDigestCreateManyTenantInput = {
+  id?: string
+  periodStart: Date | string
+  periodEnd: Date | string
+  summary: string
+  activity: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  model: string
+  createdAt?: Date | string
+}
+
+export type WorkspaceDigestUpdateWithoutTenantInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  periodStart?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  periodEnd?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  summary?: Prisma.StringFieldUpdateOperationsInput | string
+  activity?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  model?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type WorkspaceDigestUncheckedUpdateWithoutTenantInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  periodStart?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  periodEnd?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  summary?: Prisma.StringFieldUpdateOperationsInput | string
+  activity?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  model?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type WorkspaceDigestUncheckedUpdateManyWithoutTenantInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  periodStart?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  periodEnd?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  summary?: Prisma.StringFieldUpdateOperationsInput | string
+  activity?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  model?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type WorkspaceDigestSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  tenantId?: boolean
+  periodStart?: boolean
+  periodEnd?: boolean
+  summary?: boolean
+  activity?: boolean
+  model?: boolean
+  createdAt?: boolean
+  tenant?: boolean | Prisma.TenantDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["workspaceDigest"]>
+
+export type WorkspaceDigestSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  tenantId?: boolean
+  periodStart?: boolean
+  periodEnd?: boolean
+  summary?: boolean
+  activity?: boolean
+  model?: boolean
+  createdAt?: boolean
+  tenant?: boolean | Prisma.TenantDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["workspaceDigest"]>
+
+export type WorkspaceDigestSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  tenantId?: boolean
+  periodStart?: boolean
+  periodEnd?: boolean
+  summary?: boolean
+  activity?: boolean
+  model?: boolean
+  createdAt?: boolean
+  tenant?: boolean | Prisma.TenantDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["workspaceDigest"]>
+
+export type WorkspaceDigestSelectScalar = {
+  id?: boolean
+  tenantId?: boolean
+  periodStart?: boolean
+  periodEnd?: boolean
+  summary?: boolean
+  activity?: boolean
+  model?: boolean
+  createdAt?: boolean
+}
+
+export type WorkspaceDigestOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "tenantId" | "periodStart" | "periodEnd" | "summary" | "activity" | "model" | "createdAt", ExtArgs["result"]["workspaceDigest"]>
+export type WorkspaceDigestInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  tenant?: boolean | Prisma.TenantDefaultArgs<ExtArgs>
+}
+export type WorkspaceDigestIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  tenant?: boolean | Prisma.TenantDefaultArgs<ExtArgs>
+}
+export type WorkspaceDigestIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  tenant?: boolean | Prisma.TenantDefaultArgs<ExtArgs>
+}
+
+export type $WorkspaceDigestPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "WorkspaceDigest"
+  objects: {
+    tenant: Prisma.$TenantPayload<ExtArgs>
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    tenantId: string
+    periodStart: Date
+    periodEnd: Date
+    summary: string
+    activity: runtime.JsonValue
+    model: string
+    createdAt: Date
+  }, ExtArgs["result"]["workspaceDigest"]>
+  composites: {}
+}
+
+export type WorkspaceDigestGetPayload<S extends boolean | null | undefined | WorkspaceDigestDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$WorkspaceDigestPayload, S>
+
+export type WorkspaceDigestCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<WorkspaceDigestFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: WorkspaceDigestCountAggregateInputType | true
+  }
+
+export interface WorkspaceDigestDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['WorkspaceDigest'], meta: { name: 'WorkspaceDigest' } }
+  /**
+   * Find zero or one WorkspaceDigest that matches the filter.
+   * @param {WorkspaceDigestFindUniqueArgs} args - Arguments to find a WorkspaceDigest
+   * @example
+   * // Get one WorkspaceDigest
+   * const workspaceDigest = await prisma.workspaceDigest.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends WorkspaceDigestFindUniqueArgs>(args: Prisma.SelectSubset<T, WorkspaceDigestFindUniqueArgs<ExtArgs>>): Prisma.Prisma__WorkspaceDigestClient<runtime.Types.Result.GetResult<Prisma.$WorkspaceDigestPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one WorkspaceDigest that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {WorkspaceDigestFindUniqueOrThrowArgs} args - Arguments to find a WorkspaceDigest
+   * @example
+   * // Get one WorkspaceDigest
+   * const workspaceDigest = await prisma.workspaceDigest.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends WorkspaceDigestFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, WorkspaceDigestFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__WorkspaceDigestClient<runtime.Types.Result.GetResult<Prisma.$WorkspaceDigestPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first WorkspaceDigest that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {WorkspaceDigestFindFirstArgs} args - Arguments to find a WorkspaceDigest
+   * @example
+   * // Get one WorkspaceDigest
+   * const workspaceDigest = await prisma.workspaceDigest.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends WorkspaceDigestFindFirstArgs>(args?: Prisma.SelectSubset<T, WorkspaceDigestFindFirstArgs<ExtArgs>>): Prisma.Prisma__WorkspaceDigestClient<runtime.Types.Result.GetResult<Prisma.$WorkspaceDigestPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first WorkspaceDigest that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {WorkspaceDigestFindFirstOrThrowArgs} args - Arguments to find a WorkspaceDigest
+   * @example
+   * // Get one WorkspaceDigest
+   * const workspaceDigest = await prisma.workspaceDigest.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends WorkspaceDigestFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, WorkspaceDigestFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__WorkspaceDigestClient<runtime.Types.Result.GetResult<Prisma.$WorkspaceDigestPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more WorkspaceDigests that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {WorkspaceDigestFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all WorkspaceDigests
+   * const workspaceDigests = await prisma.workspaceDigest.findMany()
+   * 
+   * // Get first 10 WorkspaceDigests
+   * const workspaceDigests = await prisma.workspaceDigest.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const workspaceDigestWithIdOnly = await prisma.workspaceDigest.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends WorkspaceDigestFindManyArgs>(args?: Prisma.SelectSubset<T, WorkspaceDigestFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$WorkspaceDigestPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a WorkspaceDigest.
+   * @param {WorkspaceDigestCreateArgs} args - Arguments to create a WorkspaceDigest.
+   * @example
+   * // Create one WorkspaceDigest
+   * const WorkspaceDigest = await prisma.workspaceDigest.create({
+   *   data: {
+   *     // ... data to create a WorkspaceDigest
+   *   }
+   * })
+   * 
+   */
+  create<T extends WorkspaceDigestCreateArgs>(args: Prisma.SelectSubset<T, WorkspaceDigestCreateArgs<ExtArgs>>): Prisma.Prisma__WorkspaceDigestClient<runtime.Types.Result.GetResult<Prisma.$WorkspaceDigestPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many WorkspaceDigests.
+   * @param {WorkspaceDigestCreateManyArgs} args - Arguments to create many WorkspaceDigests.
+   * @example
+   * // Create many WorkspaceDigests
+   * const workspaceDigest = await prisma.workspaceDigest.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends WorkspaceDigestCreateManyArgs>(args?: Prisma.SelectSubset<T, WorkspaceDigestCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many WorkspaceDigests and returns the data saved in the database.
+   * @param {WorkspaceDigestCreateManyAndReturnArgs} args - Arguments to create many WorkspaceDigests.
+   * @example
+   * // Create many WorkspaceDigests
+   * const workspaceDigest = await prisma.workspaceDigest.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many WorkspaceDigests and only return the `id`
+   * const workspaceDigestWithIdOnly = await prisma.workspaceDigest.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends WorkspaceDigestCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, WorkspaceDigestCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$WorkspaceDigestPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a WorkspaceDigest.
+   * @param {WorkspaceDigestDeleteArgs} args - Arguments to delete one WorkspaceDigest.
+   * @example
+   * // Delete one WorkspaceDigest
+   * const WorkspaceDigest = await prisma.workspaceDigest.delete({
+   *   where: {
+   *     // ... filter to delete one WorkspaceDigest
+   *   }
+   * })
+   * 
+   */
+  delete<T extends WorkspaceDigestDeleteArgs>(args: Prisma.SelectSubset<T, WorkspaceDigestDeleteArgs<ExtArgs>>): Prisma.Prisma__WorkspaceDigestClient<runtime.Types.Result.GetResult<Prisma.$WorkspaceDigestPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one WorkspaceDigest.
+   * @param {WorkspaceDigestUpdateArgs} args - Arguments to update one WorkspaceDigest.
+   * @example
+   * // Update one WorkspaceDigest
+   * const workspaceDigest = await prisma.workspaceDigest.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends WorkspaceDigestUpdateArgs>(args: Prisma.SelectSubset<T, WorkspaceDigestUpdateArgs<ExtArgs>>): Prisma.Prisma__WorkspaceDigestClient<runtime.Types.Result.GetResult<Prisma.$WorkspaceDigestPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more WorkspaceDigests.
+   * @param {WorkspaceDigestDeleteManyArgs} args - Arguments to filter WorkspaceDigests to delete.
+   * @example
+   * // Delete a few WorkspaceDigests
+   * const { count } = await prisma.workspaceDigest.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends WorkspaceDigestDeleteManyArgs>(args?: Prisma.SelectSubset<T, WorkspaceDigestDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more WorkspaceDigests.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {WorkspaceDigestUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many WorkspaceDigests
+   * const workspaceDigest = await prisma.workspaceDigest.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends WorkspaceDigestUpdateManyArgs>(args: Prisma.SelectSubset<T, WorkspaceDigestUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more WorkspaceDigests and returns the data updated in the database.
+   * @param {WorkspaceDigestUpdateManyAndReturnArgs} args - Arguments to update many WorkspaceDigests.
+   * @example
+   * // Update many WorkspaceDigests
+   * const workspaceDigest = await prisma.workspaceDigest.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more WorkspaceDigests and only return the `id`
+   * const workspaceDigestWithIdOnly = await prisma.workspaceDigest.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends WorkspaceDigestUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, WorkspaceDigestUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$WorkspaceDigestPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one WorkspaceDigest.
+   * @param {WorkspaceDigestUpsertArgs} args - Arguments to update or create a WorkspaceDigest.
+   * @example
+   * // Update or create a WorkspaceDigest
+   * const workspaceDigest = await prisma.workspaceDigest.upsert({
+   *   create: {
+   *     // ... data to create a WorkspaceDigest
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the WorkspaceDigest we want to update
+   *   }
+   * })
+   */
+  upsert<T extends WorkspaceDigestUpsertArgs>(args: Prisma.SelectSubset<T, WorkspaceDigestUpsertArgs<ExtArgs>>): Prisma.Prisma__WorkspaceDigestClient<runtime.Types.Result.GetResult<Prisma.$WorkspaceDigestPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of WorkspaceDigests.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {WorkspaceDigestCountArgs} args - Arguments to filter WorkspaceDigests to count.
+   * @example
+   * // Count the number of WorkspaceDigests
+   * const count = await prisma.workspaceDigest.count({
+   *   where: {
+   *     // ... the filter for the WorkspaceDigests we want to count
+   *   }
+   * })
+  **/
+  count<T extends WorkspaceDigestCountArgs>(
+    args?: Prisma.Subset<T, WorkspaceDigestCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], WorkspaceDigestCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a WorkspaceDigest.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {WorkspaceDigestAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends WorkspaceDigestAggregateArgs>(args: Prisma.Subset<T, WorkspaceDigestAggregateArgs>): Prisma.PrismaPromise<GetWorkspaceDigestAggregateType<T>>
+
+  /**
+   * Group by WorkspaceDigest.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {WorkspaceDigestGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends WorkspaceDigestGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: WorkspaceDigestGroupByArgs['orderBy'] }
+      : { orderBy?: WorkspaceDigestGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, WorkspaceDigestGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetWorkspaceDigestGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the WorkspaceDigest model
+ */
+readonly fields: WorkspaceDigestFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for WorkspaceDigest.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__WorkspaceDigestClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  tenant<T extends Prisma.TenantDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.TenantDefaultArgs<ExtArgs>>): Prisma.Prisma__TenantClient<runtime.Types.Result.GetResult<Prisma.$TenantPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the WorkspaceDigest model
+ */
+export interface WorkspaceDigestFieldRefs {
+  readonly id: Prisma.FieldRef<"WorkspaceDigest", 'String'>
+  readonly tenantId: Prisma.FieldRef<"WorkspaceDigest", 'String'>
+  readonly periodStart: Prisma.FieldRef<"WorkspaceDigest", 'DateTime'>
+  readonly periodEnd: Prisma.FieldRef<"WorkspaceDigest", 'DateTime'>
+  readonly summary: Prisma.FieldRef<"WorkspaceDigest", 'String'>
+  readonly activity: Prisma.FieldRef<"WorkspaceDigest", 'Json'>
+  readonly model: Prisma.FieldRef<"WorkspaceDigest", 'String'>
+  readonly createdAt: Prisma.FieldRef<"WorkspaceDigest", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * WorkspaceDigest findUnique
+ */
+export type WorkspaceDigestFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WorkspaceDigest
+   */
+  select?: Prisma.WorkspaceDigestSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WorkspaceDigest
+   */
+  omit?: Prisma.WorkspaceDigestOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WorkspaceDigestInclude<ExtArgs> | null
+  /**
+   * Filter, which WorkspaceDigest to fetch.
+   */
+  where: Prisma.WorkspaceDigestWhereUniqueInput
+}
+
+/**
+ * WorkspaceDigest findUniqueOrThrow
+ */
+export type WorkspaceDigestFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WorkspaceDigest
+   */
+  select?: Prisma.WorkspaceDigestSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WorkspaceDigest
+   */
+  omit?: Prisma.WorkspaceDigestOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WorkspaceDigestInclude<ExtArgs> | null
+  /**
+   * Filter, which WorkspaceDigest to fetch.
+   */
+  where: Prisma.WorkspaceDigestWhereUniqueInput
+}
+
+/**
+ * WorkspaceDigest findFirst
+ */
+export type WorkspaceDigestFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WorkspaceDigest
+   */
+  select?: Prisma.WorkspaceDigestSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WorkspaceDigest
+   */
+  omit?: Prisma.WorkspaceDigestOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WorkspaceDigestInclude<ExtArgs> | null
+  /**
+   * Filter, which WorkspaceDigest to fetch.
+   */
+  where?: Prisma.WorkspaceDigestWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of WorkspaceDigests to fetch.
+   */
+  orderBy?: Prisma.WorkspaceDigestOrderByWithRelationInput | Prisma.WorkspaceDigestOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for WorkspaceDigests.
+   */
+  cursor?: Prisma.WorkspaceDigestWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` WorkspaceDigests from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` WorkspaceDigests.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of WorkspaceDigests.
+   */
+  distinct?: Prisma.WorkspaceDigestScalarFieldEnum | Prisma.WorkspaceDigestScalarFieldEnum[]
+}
+
+/**
+ * WorkspaceDigest findFirstOrThrow
+ */
+export type WorkspaceDigestFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WorkspaceDigest
+   */
+  select?: Prisma.WorkspaceDigestSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WorkspaceDigest
+   */
+  omit?: Prisma.WorkspaceDigestOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WorkspaceDigestInclude<ExtArgs> | null
+  /**
+   * Filter, which WorkspaceDigest to fetch.
+   */
+  where?: Prisma.WorkspaceDigestWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of WorkspaceDigests to fetch.
+   */
+  orderBy?: Prisma.WorkspaceDigestOrderByWithRelationInput | Prisma.WorkspaceDigestOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for WorkspaceDigests.
+   */
+  cursor?: Prisma.WorkspaceDigestWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` WorkspaceDigests from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` WorkspaceDigests.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of WorkspaceDigests.
+   */
+  distinct?: Prisma.WorkspaceDigestScalarFieldEnum | Prisma.WorkspaceDigestScalarFieldEnum[]
+}
+
+/**
+ * WorkspaceDigest findMany
+ */
+export type WorkspaceDigestFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WorkspaceDigest
+   */
+  select?: Prisma.WorkspaceDigestSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WorkspaceDigest
+   */
+  omit?: Prisma.WorkspaceDigestOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WorkspaceDigestInclude<ExtArgs> | null
+  /**
+   * Filter, which WorkspaceDigests to fetch.
+   */
+  where?: Prisma.WorkspaceDigestWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of WorkspaceDigests to fetch.
+   */
+  orderBy?: Prisma.WorkspaceDigestOrderByWithRelationInput | Prisma.WorkspaceDigestOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing WorkspaceDigests.
+   */
+  cursor?: Prisma.WorkspaceDigestWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` WorkspaceDigests from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` WorkspaceDigests.
+   */
+  skip?: number
+  distinct?: Prisma.WorkspaceDigestScalarFieldEnum | Prisma.WorkspaceDigestScalarFieldEnum[]
+}
+
+/**
+ * WorkspaceDigest create
+ */
+export type WorkspaceDigestCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WorkspaceDigest
+   */
+  select?: Prisma.WorkspaceDigestSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WorkspaceDigest
+   */
+  omit?: Prisma.WorkspaceDigestOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WorkspaceDigestInclude<ExtArgs> | null
+  /**
+   * The data needed to create a WorkspaceDigest.
+   */
+  data: Prisma.XOR<Prisma.WorkspaceDigestCreateInput, Prisma.WorkspaceDigestUncheckedCreateInput>
+}
+
+/**
+ * WorkspaceDigest createMany
+ */
+export type WorkspaceDigestCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many WorkspaceDigests.
+   */
+  data: Prisma.WorkspaceDigestCreateManyInput | Prisma.WorkspaceDigestCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * WorkspaceDigest createManyAndReturn
+ */
+export type WorkspaceDigestCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WorkspaceDigest
+   */
+  select?: Prisma.WorkspaceDigestSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the WorkspaceDigest
+   */
+  omit?: Prisma.WorkspaceDigestOmit<ExtArgs> | null
+  /**
+   * The data used to create many WorkspaceDigests.
+   */
+  data: Prisma.WorkspaceDigestCreateManyInput | Prisma.WorkspaceDigestCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WorkspaceDigestIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * WorkspaceDigest update
+ */
+export type WorkspaceDigestUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WorkspaceDigest
+   */
+  select?: Prisma.WorkspaceDigestSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WorkspaceDigest
+   */
+  omit?: Prisma.WorkspaceDigestOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WorkspaceDigestInclude<ExtArgs> | null
+  /**
+   * The data needed to update a WorkspaceDigest.
+   */
+  data: Prisma.XOR<Prisma.WorkspaceDigestUpdateInput, Prisma.WorkspaceDigestUncheckedUpdateInput>
+  /**
+   * Choose, which WorkspaceDigest to update.
+   */
+  where: Prisma.WorkspaceDigestWhereUniqueInput
+}
+
+/**
+ * WorkspaceDigest updateMany
+ */
+export type WorkspaceDigestUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update WorkspaceDigests.
+   */
+  data: Prisma.XOR<Prisma.WorkspaceDigestUpdateManyMutationInput, Prisma.WorkspaceDigestUncheckedUpdateManyInput>
+  /**
+   * Filter which WorkspaceDigests to update
+   */
+  where?: Prisma.WorkspaceDigestWhereInput
+  /**
+   * Limit how many WorkspaceDigests to update.
+   */
+  limit?: number
+}
+
+/**
+ * WorkspaceDigest updateManyAndReturn
+ */
+export type WorkspaceDigestUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WorkspaceDigest
+   */
+  select?: Prisma.WorkspaceDigestSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the WorkspaceDigest
+   */
+  omit?: Prisma.WorkspaceDigestOmit<ExtArgs> | null
+  /**
+   * The data used to update WorkspaceDigests.
+   */
+  data: Prisma.XOR<Prisma.WorkspaceDigestUpdateManyMutationInput, Prisma.WorkspaceDigestUncheckedUpdateManyInput>
+  /**
+   * Filter which WorkspaceDigests to update
+   */
+  where?: Prisma.WorkspaceDigestWhereInput
+  /**
+   * Limit how many WorkspaceDigests to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WorkspaceDigestIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * WorkspaceDigest upsert
+ */
+export type WorkspaceDigestUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WorkspaceDigest
+   */
+  select?: Prisma.WorkspaceDigestSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WorkspaceDigest
+   */
+  omit?: Prisma.WorkspaceDigestOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WorkspaceDigestInclude<ExtArgs> | null
+  /**
+   * The filter to search for the WorkspaceDigest to update in case it exists.
+   */
+  where: Prisma.WorkspaceDigestWhereUniqueInput
+  /**
+   * In case the WorkspaceDigest found by the `where` argument doesn't exist, create a new WorkspaceDigest with this data.
+   */
+  create: Prisma.XOR<Prisma.WorkspaceDigestCreateInput, Prisma.WorkspaceDigestUncheckedCreateInput>
+  /**
+   * In case the WorkspaceDigest was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.WorkspaceDigestUpdateInput, Prisma.WorkspaceDigestUncheckedUpdateInput>
+}
+
+/**
+ * WorkspaceDigest delete
+ */
+export type WorkspaceDigestDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WorkspaceDigest
+   */
+  select?: Prisma.WorkspaceDigestSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WorkspaceDigest
+   */
+  omit?: Prisma.WorkspaceDigestOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WorkspaceDigestInclude<ExtArgs> | null
+  /**
+   * Filter which WorkspaceDigest to delete.
+   */
+  where: Prisma.WorkspaceDigestWhereUniqueInput
+}
+
+/**
+ * WorkspaceDigest deleteMany
+ */
+export type WorkspaceDigestDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which WorkspaceDigests to delete
+   */
+  where?: Prisma.WorkspaceDigestWhereInput
+  /**
+   * Limit how many WorkspaceDigests to delete.
+   */
+  limit?: number
+}
+
+/**
+ * WorkspaceDigest without action
+ */
+export type WorkspaceDigestDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WorkspaceDigest
+   */
+  select?: Prisma.WorkspaceDigestSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WorkspaceDigest
+   */
+  omit?: Prisma.WorkspaceDigestOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WorkspaceDigestInclude<ExtArgs> | null
+}
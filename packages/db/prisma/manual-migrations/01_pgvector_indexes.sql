@@ -1,16 +1,11 @@
 -- Manual pgvector indexes (not managed by Prisma)
--- Run this after migrations if the index doesn't exist
+-- Run this after migrations
 
--- Check if the index exists before creating
-DO $$ 
-BEGIN
-    IF NOT EXISTS (
-        SELECT 1 FROM pg_indexes 
-        WHERE indexname = 'DocumentChunk_embedding_cosine_idx'
-    ) THEN
-        CREATE INDEX "DocumentChunk_embedding_cosine_idx" 
-        ON "public"."DocumentChunk" 
-        USING ivfflat ("embedding" vector_cosine_ops) 
-        WITH (lists = 100);
-    END IF;
-END $$;
+-- ANN indexes are per tenant: large tenants get a partial HNSW index
+--   "DocumentChunk_embedding_hnsw_<tenantId>" ... WHERE "tenantId" = '<tenantId>'
+-- built with `pnpm --filter api vector-index create <tenantId>`.
+-- Smaller tenants are searched exactly through the tenantId btree.
+
+-- The original global ivfflat index filtered by tenant after the ANN scan,
+-- which dropped recall for every tenant but the largest; remove it
+DROP INDEX IF EXISTS "public"."DocumentChunk_embedding_cosine_idx";
@@ -0,0 +1,73 @@
+-- Field-weighted searchVector
+-- A: title
+-- B: headings collected from DocumentChunk.headingPath
+-- C: lead (first chunk, or the first 2000 chars of content before chunking)
+-- D: rest of the body
+-- Ranking weights per class are applied at query time (Tenant.searchRankWeights)
+
+CREATE OR REPLACE FUNCTION document_search_vector(
+    doc_id TEXT,
+    doc_title TEXT,
+    doc_content TEXT
+)
+RETURNS tsvector AS $$
+DECLARE
+    headings TEXT;
+    lead TEXT;
+    body TEXT;
+BEGIN
+    -- parent headings repeat across chunks, so only count each once
+    SELECT string_agg(DISTINCT heading, ' ')
+    INTO headings
+    FROM "DocumentChunk" dc
+    CROSS JOIN LATERAL jsonb_array_elements_text(
+        CASE
+            WHEN jsonb_typeof(dc."headingPath") = 'array' THEN dc."headingPath"
+            ELSE '[]'::jsonb
+        END
+    ) AS heading
+    WHERE dc."documentId" = doc_id;
+
+    SELECT dc."content"
+    INTO lead
+    FROM "DocumentChunk" dc
+    WHERE dc."documentId" = doc_id
+    ORDER BY dc."idx"
+    LIMIT 1;
+
+    IF lead IS NULL THEN
+        -- not chunked yet: split the raw content instead
+        lead := LEFT(COALESCE(doc_content, ''), 2000);
+        body := SUBSTRING(COALESCE(doc_content, '') FROM 2001);
+    ELSE
+        SELECT string_agg(rest."content", ' ' ORDER BY rest."idx")
+        INTO body
+        FROM (
+            SELECT dc."content", dc."idx"
+            FROM "DocumentChunk" dc
+            WHERE dc."documentId" = doc_id
+            ORDER BY dc."idx"
+            OFFSET 1
+        ) rest;
+    END IF;
+
+    RETURN
+        setweight(to_tsvector('english', COALESCE(doc_title, '')), 'A') ||
+        setweight(to_tsvector('english', COALESCE(headings, '')), 'B') ||
+        setweight(to_tsvector('english', COALESCE(lead, '')), 'C') ||
+        setweight(to_tsvector('english', COALESCE(body, '')), 'D');
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Replace the trigger function from 02_searchvector_trigger.sql
+CREATE OR REPLACE FUNCTION update_document_search_vector()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW."searchVector" := document_search_vector(NEW."id", NEW.title, NEW.content);
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Rebuild existing documents with the weighted layout
+UPDATE "Document" d
+SET "searchVector" = document_search_vector(d."id", d."title", d."content");
@@ -0,0 +1,121 @@
+-- Per-tenant / per-document text search configuration
+-- Document."textSearchConfig" (detected at index time) wins over Tenant."textSearchConfig".
+-- Names without an installed configuration (e.g. 'chinese' without zhparser) fall back to 'simple'.
+
+CREATE OR REPLACE FUNCTION resolve_text_search_config(config_name TEXT)
+RETURNS regconfig AS $$
+    SELECT COALESCE(
+        (
+            SELECT c.oid::regconfig
+            FROM pg_ts_config c
+            JOIN pg_namespace n ON n.oid = c.cfgnamespace
+            WHERE c.cfgname = lower(config_name)
+              AND n.nspname IN ('pg_catalog', 'public')
+            ORDER BY n.nspname = 'public' DESC
+            LIMIT 1
+        ),
+        'simple'::regconfig
+    );
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION document_text_search_config(
+    doc_config TEXT,
+    doc_tenant_id TEXT
+)
+RETURNS regconfig AS $$
+    SELECT resolve_text_search_config(
+        COALESCE(
+            doc_config,
+            (SELECT t."textSearchConfig" FROM "Tenant" t WHERE t."id" = doc_tenant_id)
+        )
+    );
+$$ LANGUAGE sql STABLE;
+
+-- Replace the english-only version from 03_weighted_searchvector.sql
+DROP FUNCTION IF EXISTS document_search_vector(TEXT, TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION document_search_vector(
+    doc_id TEXT,
+    doc_title TEXT,
+    doc_content TEXT,
+    doc_config regconfig
+)
+RETURNS tsvector AS $$
+DECLARE
+    headings TEXT;
+    lead TEXT;
+    body TEXT;
+BEGIN
+    -- parent headings repeat across chunks, so only count each once
+    SELECT string_agg(DISTINCT heading, ' ')
+    INTO headings
+    FROM "DocumentChunk" dc
+    CROSS JOIN LATERAL jsonb_array_elements_text(
+        CASE
+            WHEN jsonb_typeof(dc."headingPath") = 'array' THEN dc."headingPath"
+            ELSE '[]'::jsonb
+        END
+    ) AS heading
+    WHERE dc."documentId" = doc_id;
+
+    SELECT dc."content"
+    INTO lead
+    FROM "DocumentChunk" dc
+    WHERE dc."documentId" = doc_id
+    ORDER BY dc."idx"
+    LIMIT 1;
+
+    IF lead IS NULL THEN
+        -- not chunked yet: split the raw content instead
+        lead := LEFT(COALESCE(doc_content, ''), 2000);
+        body := SUBSTRING(COALESCE(doc_content, '') FROM 2001);
+    ELSE
+        SELECT string_agg(rest."content", ' ' ORDER BY rest."idx")
+        INTO body
+        FROM (
+            SELECT dc."content", dc."idx"
+            FROM "DocumentChunk" dc
+            WHERE dc."documentId" = doc_id
+            ORDER BY dc."idx"
+            OFFSET 1
+        ) rest;
+    END IF;
+
+    RETURN
+        setweight(to_tsvector(doc_config, COALESCE(doc_title, '')), 'A') ||
+        setweight(to_tsvector(doc_config, COALESCE(headings, '')), 'B') ||
+        setweight(to_tsvector(doc_config, COALESCE(lead, '')), 'C') ||
+        setweight(to_tsvector(doc_config, COALESCE(body, '')), 'D');
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+CREATE OR REPLACE FUNCTION update_document_search_vector()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW."searchVector" := document_search_vector(
+        NEW."id",
+        NEW.title,
+        NEW.content,
+        document_text_search_config(NEW."textSearchConfig", NEW."tenantId")
+    );
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Also rebuild when the detected language changes
+DROP TRIGGER IF EXISTS document_search_vector_update ON "Document";
+
+CREATE TRIGGER document_search_vector_update
+    BEFORE INSERT OR UPDATE OF title, content, "textSearchConfig"
+    ON "Document"
+    FOR EACH ROW
+    EXECUTE FUNCTION update_document_search_vector();
+
+-- Rebuild existing documents with their configuration
+UPDATE "Document" d
+SET "searchVector" = document_search_vector(
+    d."id",
+    d."title",
+    d."content",
+    document_text_search_config(d."textSearchConfig", d."tenantId")
+);
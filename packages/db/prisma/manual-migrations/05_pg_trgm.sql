@@ -0,0 +1,60 @@
+-- Typo tolerance: trigram indexes for the fuzzy fallback and the tenant vocabulary
+-- behind "did you mean" suggestions (DocumentTerm)
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+CREATE INDEX IF NOT EXISTS "Document_title_trgm_idx"
+    ON "Document" USING gin ("title" gin_trgm_ops);
+
+CREATE INDEX IF NOT EXISTS "DocumentChunk_content_trgm_idx"
+    ON "DocumentChunk" USING gin ("content" gin_trgm_ops);
+
+CREATE INDEX IF NOT EXISTS "DocumentTerm_term_trgm_idx"
+    ON "DocumentTerm" USING gin ("term" gin_trgm_ops);
+
+-- Distinct lowercased words of a document's title and text (chunks, or raw content
+-- before chunking). Very short words make poor suggestions and long ones are noise.
+CREATE OR REPLACE FUNCTION document_terms(doc_id TEXT)
+RETURNS SETOF TEXT AS $$
+    SELECT DISTINCT w.term
+    FROM "Document" d
+    CROSS JOIN LATERAL regexp_split_to_table(
+        lower(
+            d."title" || ' ' ||
+            COALESCE(
+                (
+                    SELECT string_agg(dc."content", ' ')
+                    FROM "DocumentChunk" dc
+                    WHERE dc."documentId" = d."id"
+                ),
+                d."content",
+                ''
+            )
+        ),
+        '[^[:alnum:]]+'
+    ) AS w(term)
+    WHERE d."id" = doc_id
+      AND length(w.term) BETWEEN 4 AND 32
+      AND w.term !~ '^[0-9]+$';
+$$ LANGUAGE sql STABLE;
+
+-- Called after a document's title or chunks change
+CREATE OR REPLACE FUNCTION refresh_document_terms(doc_id TEXT)
+RETURNS void AS $$
+BEGIN
+    DELETE FROM "DocumentTerm" WHERE "documentId" = doc_id;
+
+    INSERT INTO "DocumentTerm" ("documentId", "tenantId", "term")
+    SELECT d."id", d."tenantId", t.term
+    FROM "Document" d
+    CROSS JOIN LATERAL document_terms(d."id") AS t(term)
+    WHERE d."id" = doc_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Backfill the vocabulary for existing documents
+INSERT INTO "DocumentTerm" ("documentId", "tenantId", "term")
+SELECT d."id", d."tenantId", t.term
+FROM "Document" d
+CROSS JOIN LATERAL document_terms(d."id") AS t(term)
+ON CONFLICT DO NOTHING;
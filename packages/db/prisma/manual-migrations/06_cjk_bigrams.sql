@@ -0,0 +1,105 @@
+-- CJK retrieval without a segmenter
+-- chinese/japanese/korean resolve to 'simple', which keeps a whole run of CJK
+-- characters as one token: 搜索 would never match 搜索服务的文档. Runs are split into
+-- overlapping bigrams (搜索服务 -> 搜索 索服 服务) both here at index time and in
+-- queries (see buildTermTsQuerySql), so any word inside a run can match.
+
+-- kana, CJK ideographs and hangul syllables
+CREATE OR REPLACE FUNCTION has_cjk(input TEXT)
+RETURNS BOOLEAN AS $$
+    SELECT input ~ '[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7af\uf900-\ufaff]';
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION cjk_bigrams(input TEXT)
+RETURNS TEXT AS $$
+    SELECT COALESCE(
+        string_agg(
+            CASE
+                WHEN char_length(m.part[1]) > 1 AND has_cjk(m.part[1])
+                THEN (
+                    SELECT string_agg(substr(m.part[1], i, 2), ' ' ORDER BY i)
+                    FROM generate_series(1, char_length(m.part[1]) - 1) AS i
+                )
+                ELSE m.part[1]
+            END,
+            ' ' ORDER BY m.ord
+        ),
+        ''
+    )
+    FROM regexp_matches(
+        input,
+        '[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7af\uf900-\ufaff]+|[^\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7af\uf900-\ufaff]+',
+        'g'
+    ) WITH ORDINALITY AS m(part, ord);
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Same as 04_text_search_config.sql, with every field passed through cjk_bigrams()
+CREATE OR REPLACE FUNCTION document_search_vector(
+    doc_id TEXT,
+    doc_title TEXT,
+    doc_content TEXT,
+    doc_config regconfig
+)
+RETURNS tsvector AS $$
+DECLARE
+    headings TEXT;
+    lead TEXT;
+    body TEXT;
+BEGIN
+    -- parent headings repeat across chunks, so only count each once
+    SELECT string_agg(DISTINCT heading, ' ')
+    INTO headings
+    FROM "DocumentChunk" dc
+    CROSS JOIN LATERAL jsonb_array_elements_text(
+        CASE
+            WHEN jsonb_typeof(dc."headingPath") = 'array' THEN dc."headingPath"
+            ELSE '[]'::jsonb
+        END
+    ) AS heading
+    WHERE dc."documentId" = doc_id;
+
+    SELECT dc."content"
+    INTO lead
+    FROM "DocumentChunk" dc
+    WHERE dc."documentId" = doc_id
+    ORDER BY dc."idx"
+    LIMIT 1;
+
+    IF lead IS NULL THEN
+        -- not chunked yet: split the raw content instead
+        lead := LEFT(COALESCE(doc_content, ''), 2000);
+        body := SUBSTRING(COALESCE(doc_content, '') FROM 2001);
+    ELSE
+        SELECT string_agg(rest."content", ' ' ORDER BY rest."idx")
+        INTO body
+        FROM (
+            SELECT dc."content", dc."idx"
+            FROM "DocumentChunk" dc
+            WHERE dc."documentId" = doc_id
+            ORDER BY dc."idx"
+            OFFSET 1
+        ) rest;
+    END IF;
+
+    RETURN
+        setweight(to_tsvector(doc_config, cjk_bigrams(COALESCE(doc_title, ''))), 'A') ||
+        setweight(to_tsvector(doc_config, cjk_bigrams(COALESCE(headings, ''))), 'B') ||
+        setweight(to_tsvector(doc_config, cjk_bigrams(COALESCE(lead, ''))), 'C') ||
+        setweight(to_tsvector(doc_config, cjk_bigrams(COALESCE(body, ''))), 'D');
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Rebuild the documents that contain CJK text; the vectors of others are unchanged
+UPDATE "Document" d
+SET "searchVector" = document_search_vector(
+    d."id",
+    d."title",
+    d."content",
+    document_text_search_config(d."textSearchConfig", d."tenantId")
+)
+WHERE has_cjk(d."title")
+   OR has_cjk(d."content")
+   OR EXISTS (
+       SELECT 1 FROM "DocumentChunk" dc
+       WHERE dc."documentId" = d."id" AND has_cjk(dc."content")
+   );
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "Tenant" ADD COLUMN     "textSearchConfig" TEXT NOT NULL DEFAULT 'english';
+
+-- AlterTable
+ALTER TABLE "Document" ADD COLUMN     "textSearchConfig" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Document_tenantId_textSearchConfig_idx" ON "Document"("tenantId", "textSearchConfig");
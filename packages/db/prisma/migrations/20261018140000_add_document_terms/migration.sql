@@ -0,0 +1,14 @@
+-- CreateTable
+CREATE TABLE "DocumentTerm" (
+    "documentId" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "term" TEXT NOT NULL,
+
+    CONSTRAINT "DocumentTerm_pkey" PRIMARY KEY ("documentId","term")
+);
+
+-- CreateIndex
+CREATE INDEX "DocumentTerm_tenantId_term_idx" ON "DocumentTerm"("tenantId", "term");
+
+-- AddForeignKey
+ALTER TABLE "DocumentTerm" ADD CONSTRAINT "DocumentTerm_tenantId_documentId_fkey" FOREIGN KEY ("tenantId", "documentId") REFERENCES "Document"("tenantId", "id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,56 @@
+-- CreateEnum
+CREATE TYPE "EmbeddingMigrationStatus" AS ENUM ('queued', 'running', 'completed', 'failed');
+
+-- AlterTable
+ALTER TABLE "Tenant" ADD COLUMN "embeddingModel" TEXT;
+
+-- AlterTable: every existing vector came from the original voyage-3.5 setup
+ALTER TABLE "DocumentChunk" ADD COLUMN "embeddingModel" TEXT NOT NULL DEFAULT 'voyage:voyage-3.5:1024';
+ALTER TABLE "DocumentChunk" ALTER COLUMN "embeddingModel" DROP DEFAULT;
+
+-- CreateTable
+CREATE TABLE "DocumentChunkEmbedding" (
+    "chunkId" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "embeddingModel" TEXT NOT NULL,
+    "embedding" vector NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "DocumentChunkEmbedding_pkey" PRIMARY KEY ("chunkId","embeddingModel")
+);
+
+-- CreateTable
+CREATE TABLE "EmbeddingMigration" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "targetModel" TEXT NOT NULL,
+    "status" "EmbeddingMigrationStatus" NOT NULL DEFAULT 'queued',
+    "totalChunks" INTEGER NOT NULL DEFAULT 0,
+    "processedChunks" INTEGER NOT NULL DEFAULT 0,
+    "error" TEXT,
+    "startedAt" TIMESTAMP(3),
+    "completedAt" TIMESTAMP(3),
+    "cutoverAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "EmbeddingMigration_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "DocumentChunk_tenantId_embeddingModel_idx" ON "DocumentChunk"("tenantId", "embeddingModel");
+
+-- CreateIndex
+CREATE INDEX "DocumentChunkEmbedding_tenantId_embeddingModel_idx" ON "DocumentChunkEmbedding"("tenantId", "embeddingModel");
+
+-- CreateIndex
+CREATE INDEX "EmbeddingMigration_tenantId_createdAt_idx" ON "EmbeddingMigration"("tenantId", "createdAt" DESC);
+
+-- CreateIndex
+CREATE INDEX "EmbeddingMigration_tenantId_status_idx" ON "EmbeddingMigration"("tenantId", "status");
+
+-- AddForeignKey
+ALTER TABLE "DocumentChunkEmbedding" ADD CONSTRAINT "DocumentChunkEmbedding_chunkId_fkey" FOREIGN KEY ("chunkId") REFERENCES "DocumentChunk"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "EmbeddingMigration" ADD CONSTRAINT "EmbeddingMigration_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "Tenant" ADD COLUMN "hybridFusion" JSONB;
+
+-- AlterTable
+ALTER TABLE "SearchLog" ADD COLUMN "fusionMode" TEXT,
+ADD COLUMN "fusionParams" JSONB;
@@ -0,0 +1,50 @@
+-- CreateTable
+CREATE TABLE "SavedSearch" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "query" TEXT NOT NULL,
+    "filters" JSONB,
+    "textQuery" JSONB NOT NULL,
+    "filterOptions" JSONB,
+    "lastRunAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SavedSearch_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "SavedSearchMatch" (
+    "savedSearchId" TEXT NOT NULL,
+    "documentId" TEXT NOT NULL,
+    "matchedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "seenAt" TIMESTAMP(3),
+
+    CONSTRAINT "SavedSearchMatch_pkey" PRIMARY KEY ("savedSearchId","documentId")
+);
+
+-- CreateIndex
+CREATE INDEX "SavedSearch_tenantId_userId_createdAt_idx" ON "SavedSearch"("tenantId", "userId", "createdAt" DESC);
+
+-- CreateIndex
+CREATE INDEX "SavedSearch_lastRunAt_idx" ON "SavedSearch"("lastRunAt");
+
+-- CreateIndex
+CREATE INDEX "SavedSearchMatch_savedSearchId_seenAt_idx" ON "SavedSearchMatch"("savedSearchId", "seenAt");
+
+-- CreateIndex
+CREATE INDEX "SavedSearchMatch_documentId_idx" ON "SavedSearchMatch"("documentId");
+
+-- AddForeignKey
+ALTER TABLE "SavedSearch" ADD CONSTRAINT "SavedSearch_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SavedSearch" ADD CONSTRAINT "SavedSearch_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SavedSearchMatch" ADD CONSTRAINT "SavedSearchMatch_savedSearchId_fkey" FOREIGN KEY ("savedSearchId") REFERENCES "SavedSearch"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SavedSearchMatch" ADD CONSTRAINT "SavedSearchMatch_documentId_fkey" FOREIGN KEY ("documentId") REFERENCES "Document"("id") ON DELETE CASCADE ON UPDATE CASCADE;
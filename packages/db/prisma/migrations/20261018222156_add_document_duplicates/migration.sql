@@ -0,0 +1,45 @@
+-- CreateEnum
+CREATE TYPE "DuplicateStatus" AS ENUM ('open', 'dismissed', 'resolved');
+
+-- AlterTable
+ALTER TABLE "Tenant" ADD COLUMN     "duplicateScanAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "Document" ADD COLUMN     "archivedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "DocumentDuplicate" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "documentId" TEXT NOT NULL,
+    "duplicateId" TEXT NOT NULL,
+    "similarity" DOUBLE PRECISION NOT NULL,
+    "exactMatch" BOOLEAN NOT NULL DEFAULT false,
+    "status" "DuplicateStatus" NOT NULL DEFAULT 'open',
+    "detectedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "resolvedAt" TIMESTAMP(3),
+
+    CONSTRAINT "DocumentDuplicate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "DocumentIndexState_lastChecksum_idx" ON "DocumentIndexState"("lastChecksum");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DocumentDuplicate_documentId_duplicateId_key" ON "DocumentDuplicate"("documentId", "duplicateId");
+
+-- CreateIndex
+CREATE INDEX "DocumentDuplicate_tenantId_status_similarity_idx" ON "DocumentDuplicate"("tenantId", "status", "similarity" DESC);
+
+-- CreateIndex
+CREATE INDEX "DocumentDuplicate_duplicateId_idx" ON "DocumentDuplicate"("duplicateId");
+
+-- AddForeignKey
+ALTER TABLE "DocumentDuplicate" ADD CONSTRAINT "DocumentDuplicate_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DocumentDuplicate" ADD CONSTRAINT "DocumentDuplicate_documentId_fkey" FOREIGN KEY ("documentId") REFERENCES "Document"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DocumentDuplicate" ADD CONSTRAINT "DocumentDuplicate_duplicateId_fkey" FOREIGN KEY ("duplicateId") REFERENCES "Document"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,43 @@
+-- CreateEnum
+CREATE TYPE "QaMessageRole" AS ENUM ('user', 'assistant');
+
+-- CreateTable
+CREATE TABLE "QaThread" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "title" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "QaThread_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "QaMessage" (
+    "id" TEXT NOT NULL,
+    "threadId" TEXT NOT NULL,
+    "role" "QaMessageRole" NOT NULL,
+    "content" TEXT NOT NULL,
+    "retrievalQuery" TEXT,
+    "citations" JSONB,
+    "noContext" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "QaMessage_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "QaThread_tenantId_userId_updatedAt_idx" ON "QaThread"("tenantId", "userId", "updatedAt" DESC);
+
+-- CreateIndex
+CREATE INDEX "QaMessage_threadId_createdAt_idx" ON "QaMessage"("threadId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "QaThread" ADD CONSTRAINT "QaThread_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "QaThread" ADD CONSTRAINT "QaThread_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "QaMessage" ADD CONSTRAINT "QaMessage_threadId_fkey" FOREIGN KEY ("threadId") REFERENCES "QaThread"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,16 @@
+-- AlterTable
+ALTER TABLE "Document" ADD COLUMN "summaryChecksum" TEXT,
+ADD COLUMN "summarizedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "TenantTokenUsage" (
+    "tenantId" TEXT NOT NULL,
+    "feature" TEXT NOT NULL,
+    "day" DATE NOT NULL,
+    "tokens" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "TenantTokenUsage_pkey" PRIMARY KEY ("tenantId","feature","day")
+);
+
+-- AddForeignKey
+ALTER TABLE "TenantTokenUsage" ADD CONSTRAINT "TenantTokenUsage_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "WorkspaceDigest" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "periodStart" TIMESTAMP(3) NOT NULL,
+    "periodEnd" TIMESTAMP(3) NOT NULL,
+    "summary" TEXT NOT NULL,
+    "activity" JSONB NOT NULL,
+    "model" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "WorkspaceDigest_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "WorkspaceDigest_tenantId_periodStart_key" ON "WorkspaceDigest"("tenantId", "periodStart");
+
+-- AddForeignKey
+ALTER TABLE "WorkspaceDigest" ADD CONSTRAINT "WorkspaceDigest_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -31,4 +31,20 @@ psql "$PSQL_URL" -f "$MANUAL_MIGRATIONS_DIR/01_pgvector_indexes.sql"
 echo "- Applying searchVector trigger..."
 psql "$PSQL_URL" -f "$MANUAL_MIGRATIONS_DIR/02_searchvector_trigger.sql"
 
+# Apply field-weighted searchVector (title/headings/lead/body)
+echo "- Applying weighted searchVector..."
+psql "$PSQL_URL" -f "$MANUAL_MIGRATIONS_DIR/03_weighted_searchvector.sql"
+
+# Apply per-tenant/per-document text search configuration
+echo "- Applying text search configuration..."
+psql "$PSQL_URL" -f "$MANUAL_MIGRATIONS_DIR/04_text_search_config.sql"
+
+# Apply pg_trgm indexes and the search vocabulary
+echo "- Applying pg_trgm indexes..."
+psql "$PSQL_URL" -f "$MANUAL_MIGRATIONS_DIR/05_pg_trgm.sql"
+
+# Apply CJK bigram splitting of the searchVector
+echo "- Applying CJK bigrams..."
+psql "$PSQL_URL" -f "$MANUAL_MIGRATIONS_DIR/06_cjk_bigrams.sql"
+
 echo "✅ Manual migrations applied successfully"
@@ -9,6 +9,17 @@ import { documentCommandRepository } from './repositories/documentCommand.reposi
 import { searchRepository } from './repositories/search.repository.js';
 import { searchAnalyticsRepository } from './repositories/searchAnalytics.repository.js';
 import { searchLogRepository } from './repositories/searchLog.repository.js';
+import { embeddingMigrationRepository } from './repositories/embeddingMigration.repository.js';
+import { vectorIndexRepository } from './repositories/vectorIndex.repository.js';
+import { savedSearchRepository } from './repositories/savedSearch.repository.js';
+import { documentDuplicateRepository } from './repositories/documentDuplicate.repository.js';
+import { qaThreadRepository } from './repositories/qaThread.repository.js';
+export type {
+    DigestPeriod,
+    WorkspaceDigestInput,
+} from './repositories/workspaceDigest.repository.js';
+import { tokenUsageRepository } from './repositories/tokenUsage.repository.js';
+import { workspaceDigestRepository } from './repositories/workspaceDigest.repository.js';
 
 // Re-exports
 export { prisma } from './client.js';
@@ -16,11 +27,37 @@ export type { PrismaClient } from './client.js';
 export type { UserTenant } from './types.js';
 export type {
     SearchCandidate,
+    ChunkPassage,
     DocumentTitleInfo,
     LexicalSearchResult,
     LexicalSearchResultItem,
+    LexicalChunkHit,
     DocumentDetailInfo,
+    SearchFilterOptions,
+    SearchFacetsResult,
+    UpdatedAtRange,
+    SearchSuggestionsResult,
+    TextQuery,
+    TextQueryTerm,
+    SearchRankWeights,
+    TermCorrection,
+    EmbeddingSource,
+    RelatedDocumentCandidate,
 } from './repositories/search.repository.js';
+export type { ChunkToEmbed } from './repositories/embeddingMigration.repository.js';
+export type { VectorIndexInfo } from './repositories/vectorIndex.repository.js';
+export type {
+    SavedSearchCriteria,
+    SavedSearchInput,
+} from './repositories/savedSearch.repository.js';
+export type {
+    DuplicateCandidate,
+    DuplicateScanDocument,
+} from './repositories/documentDuplicate.repository.js';
+export type {
+    QaCitation,
+    QaExchangeInput,
+} from './repositories/qaThread.repository.js';
 
 export const db = {
     user: userRepository,
@@ -34,4 +71,11 @@ export const db = {
     search: searchRepository,
     searchAnalytics: searchAnalyticsRepository,
     searchLog: searchLogRepository,
+    embeddingMigration: embeddingMigrationRepository,
+    vectorIndex: vectorIndexRepository,
+    savedSearch: savedSearchRepository,
+    documentDuplicate: documentDuplicateRepository,
+    qaThread: qaThreadRepository,
+    tokenUsage: tokenUsageRepository,
+    workspaceDigest: workspaceDigestRepository,
 };
@@ -3,6 +3,32 @@ import { AppError } from '@search-hub/schemas';
 import { prisma } from '../client.js';
 import { DocumentSourceType } from '@search-hub/schemas';
 
+/**
+ * Rebuild a document's field-weighted searchVector (title A, headings B, lead C, body D)
+ * in the document's own text search configuration, falling back to the tenant's.
+ * The SQL functions live in prisma/manual-migrations/04_text_search_config.sql
+ */
+function refreshSearchVectorSql(documentId: string): Prisma.Sql {
+    return Prisma.sql`
+        UPDATE "Document" d
+        SET "searchVector" = document_search_vector(
+            d."id",
+            d."title",
+            d."content",
+            document_text_search_config(d."textSearchConfig", d."tenantId")
+        )
+        WHERE d."id" = ${documentId}
+    `;
+}
+
+/**
+ * Rebuild a document's vocabulary used for "did you mean" suggestions.
+ * refresh_document_terms() lives in prisma/manual-migrations/05_pg_trgm.sql
+ */
+function refreshDocumentTermsSql(documentId: string): Prisma.Sql {
+    return Prisma.sql`SELECT refresh_document_terms(${documentId})`;
+}
+
 export const documentRepository = {
     create: async ({
         tenantId,
@@ -210,6 +236,48 @@ export const documentRepository = {
             },
         });
     },
+    /**
+     * Content to summarize, plus the checksum of the content the current
+     * summary was generated from
+     */
+    findForSummary: async (documentId: string) => {
+        return prisma.document.findUnique({
+            where: { id: documentId },
+            select: {
+                id: true,
+                tenantId: true,
+                title: true,
+                content: true,
+                summaryChecksum: true,
+            },
+        });
+    },
+    /** Cleaned chunk text in document order */
+    getChunkContents: async (documentId: string, tenantId: string) => {
+        const chunks = await prisma.documentChunk.findMany({
+            where: { documentId, tenantId },
+            orderBy: { idx: 'asc' },
+            select: { content: true },
+        });
+        return chunks.map((chunk) => chunk.content);
+    },
+    /**
+     * Raw update so `updatedAt` stays put: a summary isn't an edit, and the
+     * stale-document sync would otherwise reindex the document
+     */
+    updateSummary: async (
+        documentId: string,
+        summary: string,
+        checksum: string
+    ) => {
+        return prisma.$executeRaw`
+            UPDATE "Document"
+            SET "summary" = ${summary},
+                "summaryChecksum" = ${checksum},
+                "summarizedAt" = now()
+            WHERE "id" = ${documentId}
+        `;
+    },
     getById: async ({
         documentId,
         userId,
@@ -268,6 +336,7 @@ export const documentRepository = {
         try {
             const where: Prisma.DocumentWhereInput = {
                 tenantId,
+                archivedAt: null,
                 ...(favoritesOnly
                     ? {
                           favorites: {
@@ -509,29 +578,9 @@ export const documentRepository = {
                 data: { title },
             });
 
-            // Update searchVector to reflect new title
-            // Weight A for title (higher priority), Weight B for content
-            await tx.$executeRaw`
-                    UPDATE "Document" d
-                    SET "searchVector" =
-                        setweight(to_tsvector('english', d."title"), 'A') ||
-                        setweight(
-                            to_tsvector(
-                                'english',
-                                COALESCE(
-                                    (
-                                        SELECT string_agg(dc."content", ' ' ORDER BY dc."idx")
-                                        FROM "DocumentChunk" dc
-                                        WHERE dc."documentId" = d."id"
-                                    ),
-                                    d."content",
-                                    ''
-                                )
-                            ),
-                            'B'
-                        )
-                    WHERE d."id" = ${documentId};
-                `;
+            // Update searchVector and vocabulary to reflect new title
+            await tx.$executeRaw(refreshSearchVectorSql(documentId));
+            await tx.$executeRaw(refreshDocumentTermsSql(documentId));
 
             return updated;
         });
@@ -593,7 +642,10 @@ export const documentRepository = {
         documentId,
         chunks,
         vectors,
+        embeddingModel,
+        shadowEmbeddings = [],
         checksum,
+        textSearchConfig,
     }: {
         tenantId: string;
         documentId: string;
@@ -606,9 +658,17 @@ export const documentRepository = {
             endPos?: number;
         }[];
         vectors: number[][];
+        embeddingModel: string; // model id that produced `vectors`
+        // vectors from other models a re-embedding migration keeps in sync
+        shadowEmbeddings?: { embeddingModel: string; vectors: number[][] }[];
         checksum: string;
+        textSearchConfig?: string | null; // detected language; undefined keeps the current value
     }) => {
-        if (chunks.length !== vectors.length) {
+        if (
+            [vectors, ...shadowEmbeddings.map((shadow) => shadow.vectors)].some(
+                (set) => set.length !== chunks.length
+            )
+        ) {
             throw new Error('Chunk count and vector count must match');
         }
 
@@ -623,12 +683,13 @@ export const documentRepository = {
                     throw new Error(`Chunk/vector mismatch at index ${i}`);
                 }
 
-                await tx.$executeRawUnsafe(
+                const [inserted] = await tx.$queryRawUnsafe<{ id: string }[]>(
                     `
                         INSERT INTO "DocumentChunk"
-                          ("id","tenantId","documentId","idx","content","rawMarkdown","headingPath","startPos","endPos","embedding","createdAt")
+                          ("id","tenantId","documentId","idx","content","rawMarkdown","headingPath","startPos","endPos","embedding","embeddingModel","createdAt")
                         VALUES
-                          (gen_random_uuid(), $1, $2, $3, $4, $5, $6, $7, $8, $9::vector, now())
+                          (gen_random_uuid(), $1, $2, $3, $4, $5, $6, $7, $8, $9::vector, $10, now())
+                        RETURNING "id"
                         `,
                     tenantId,
                     documentId,
@@ -640,31 +701,31 @@ export const documentRepository = {
                         : null,
                     chunk.startPos ?? null,
                     chunk.endPos ?? null,
-                    `[${vector.join(',')}]`
+                    `[${vector.join(',')}]`,
+                    embeddingModel
                 );
+
+                for (const shadow of shadowEmbeddings) {
+                    const shadowVector = `[${(shadow.vectors[i] ?? []).join(',')}]`;
+                    await tx.$executeRaw`
+                        INSERT INTO "DocumentChunkEmbedding"
+                          ("chunkId","tenantId","embeddingModel","embedding","createdAt")
+                        VALUES
+                          (${inserted?.id}, ${tenantId}, ${shadow.embeddingModel}, ${shadowVector}::vector, now())
+                    `;
+                }
+            }
+
+            if (textSearchConfig !== undefined) {
+                await tx.document.update({
+                    where: { id: documentId },
+                    data: { textSearchConfig },
+                });
             }
 
-            await tx.$executeRaw`
-                    UPDATE "Document" d
-                    SET "searchVector" =
-                        setweight(to_tsvector('english', d."title"), 'A') ||
-                        setweight(
-                            to_tsvector(
-                                'english',
-                                COALESCE(
-                                    (
-                                        SELECT string_agg(dc."content", ' ' ORDER BY dc."idx")
-                                        FROM "DocumentChunk" dc
-                                        WHERE dc."documentId" = d."id"
-                                    ),
-                                    d."content",
-                                    ''
-                                )
-                            ),
-                            'B'
-                        )
-                    WHERE d."id" = ${documentId};
-                `;
+            // headings and lead/body split come from the new chunks
+            await tx.$executeRaw(refreshSearchVectorSql(documentId));
+            await tx.$executeRaw(refreshDocumentTermsSql(documentId));
 
             await tx.documentIndexState.upsert({
                 where: { documentId },
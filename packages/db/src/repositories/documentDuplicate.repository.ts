@@ -0,0 +1,358 @@
+import { Prisma, type DuplicateStatus } from '../../generated/prisma/client.js';
+import { prisma } from '../client.js';
+import {
+    embeddingSourceSql,
+    type EmbeddingSource,
+} from './search.repository.js';
+import { annSettingsSql } from './vectorIndex.repository.js';
+
+export interface DuplicateScanDocument {
+    documentId: string;
+    checksum: string;
+    lastIndexedAt: Date;
+}
+
+export interface DuplicateCandidate {
+    documentId: string; // the other document of the pair
+    similarity: number;
+    exactMatch: boolean;
+}
+
+export interface NearDuplicateOptions {
+    chunkSimilarity: number; // cosine similarity for two chunks to count as the same passage
+    minSimilarity: number; // share of matching chunks for a pair to be flagged
+    efSearch?: number;
+}
+
+interface NearDuplicateRow {
+    documentId: string;
+    similarity: number;
+}
+
+// candidate chunks per source chunk; >1 so a third copy isn't hidden behind the second
+const CHUNK_NEIGHBOURS = 5;
+
+const pairDocumentSelect = {
+    select: {
+        id: true,
+        title: true,
+        updatedAt: true,
+        createdBy: { select: { name: true } },
+    },
+} as const;
+
+// pairs are stored once, ordered by id
+function orderPair(a: string, b: string) {
+    return a < b
+        ? { documentId: a, duplicateId: b }
+        : { documentId: b, duplicateId: a };
+}
+
+export const documentDuplicateRepository = {
+    /**
+     * Worker: tenants with documents indexed since their last duplicate scan
+     */
+    listTenantsToScan: async () => {
+        return prisma.$queryRaw<{ id: string; duplicateScanAt: Date | null }[]>`
+            SELECT t."id", t."duplicateScanAt"
+            FROM "Tenant" t
+            WHERE EXISTS (
+                SELECT 1
+                FROM "Document" d
+                JOIN "DocumentIndexState" s ON s."documentId" = d."id"
+                WHERE d."tenantId" = t."id"
+                  AND d."archivedAt" IS NULL
+                  AND (t."duplicateScanAt" IS NULL OR s."lastIndexedAt" > t."duplicateScanAt")
+            )
+        `;
+    },
+
+    /**
+     * Worker: documents indexed after `since` (all indexed documents when null), oldest first
+     */
+    listDocumentsToScan: async (
+        tenantId: string,
+        since: Date | null,
+        limit: number
+    ): Promise<DuplicateScanDocument[]> => {
+        const rows = await prisma.documentIndexState.findMany({
+            where: {
+                document: { tenantId, archivedAt: null },
+                ...(since ? { lastIndexedAt: { gt: since } } : {}),
+            },
+            orderBy: { lastIndexedAt: 'asc' },
+            take: limit,
+        });
+
+        return rows.map((row) => ({
+            documentId: row.documentId,
+            checksum: row.lastChecksum,
+            lastIndexedAt: row.lastIndexedAt,
+        }));
+    },
+
+    /**
+     * Other documents in the tenant with identical content (same checksum)
+     * or whose passages mostly have a near-identical counterpart in this document.
+     * Near-duplicate similarity is the share of chunks matched, relative to the
+     * longer of the two documents, so a short note quoted inside a long runbook
+     * isn't flagged.
+     */
+    findCandidates: async (
+        tenantId: string,
+        document: DuplicateScanDocument,
+        source: EmbeddingSource,
+        options: NearDuplicateOptions
+    ): Promise<DuplicateCandidate[]> => {
+        const exact = await prisma.documentIndexState.findMany({
+            where: {
+                lastChecksum: document.checksum,
+                documentId: { not: document.documentId },
+                document: { tenantId, archivedAt: null },
+            },
+            select: { documentId: true },
+        });
+
+        const src = embeddingSourceSql(source, 'dc', 'e');
+        const other = embeddingSourceSql(source, 'oc', 'oe');
+        const maxDistance = 1 - options.chunkSimilarity;
+
+        const query = Prisma.sql`
+            WITH src AS (
+                SELECT dc."id", ${src.embedding} AS embedding
+                FROM "DocumentChunk" dc
+                ${src.shadowJoin}
+                WHERE dc."tenantId" = ${tenantId}
+                  AND dc."documentId" = ${document.documentId}
+                  ${src.modelFilter}
+            ),
+            matched AS (
+                SELECT n."documentId", COUNT(DISTINCT src."id")::int AS matched
+                FROM src
+                CROSS JOIN LATERAL (
+                    SELECT oc."documentId",
+                           (${other.embedding} <=> src.embedding) AS distance
+                    FROM "DocumentChunk" oc
+                    ${other.shadowJoin}
+                    WHERE oc."tenantId" = ${tenantId}
+                      AND oc."documentId" <> ${document.documentId}
+                      ${other.modelFilter}
+                    ORDER BY distance ASC
+                    LIMIT ${CHUNK_NEIGHBOURS}
+                ) n
+                WHERE n.distance <= ${maxDistance}
+                GROUP BY n."documentId"
+            ),
+            sizes AS (
+                SELECT oc."documentId", COUNT(*)::int AS chunks
+                FROM "DocumentChunk" oc
+                ${other.shadowJoin}
+                WHERE oc."documentId" IN (SELECT "documentId" FROM matched)
+                  ${other.modelFilter}
+                GROUP BY oc."documentId"
+            )
+            SELECT m."documentId",
+                   m.matched::float / GREATEST((SELECT COUNT(*) FROM src), s.chunks) AS similarity
+            FROM matched m
+            JOIN sizes s ON s."documentId" = m."documentId"
+            JOIN "Document" d ON d."id" = m."documentId"
+            WHERE d."archivedAt" IS NULL
+              AND m.matched::float / GREATEST((SELECT COUNT(*) FROM src), s.chunks) >= ${options.minSimilarity}
+        `;
+
+        const efSearch = options.efSearch;
+        const near =
+            source.shadow || !efSearch
+                ? await prisma.$queryRaw<NearDuplicateRow[]>(query)
+                : await prisma.$transaction(async (tx) => {
+                      await tx.$queryRaw(
+                          annSettingsSql(Math.max(efSearch, CHUNK_NEIGHBOURS))
+                      );
+                      return tx.$queryRaw<NearDuplicateRow[]>(query);
+                  });
+
+        const candidates = new Map<string, DuplicateCandidate>();
+        for (const row of near) {
+            candidates.set(row.documentId, {
+                documentId: row.documentId,
+                similarity: Math.min(Number(row.similarity), 1),
+                exactMatch: false,
+            });
+        }
+        for (const row of exact) {
+            candidates.set(row.documentId, {
+                documentId: row.documentId,
+                similarity: 1,
+                exactMatch: true,
+            });
+        }
+
+        return [...candidates.values()];
+    },
+
+    /**
+     * Worker: store the pairs found for a document. Dismissed and resolved pairs
+     * keep their status; open pairs that no longer qualify (the document was
+     * edited) are removed.
+     */
+    recordDetection: async (
+        tenantId: string,
+        documentId: string,
+        candidates: DuplicateCandidate[]
+    ) => {
+        return prisma.$transaction(async (tx) => {
+            for (const candidate of candidates) {
+                const pair = orderPair(documentId, candidate.documentId);
+                await tx.documentDuplicate.upsert({
+                    where: { documentId_duplicateId: pair },
+                    create: {
+                        tenantId,
+                        ...pair,
+                        similarity: candidate.similarity,
+                        exactMatch: candidate.exactMatch,
+                    },
+                    update: {
+                        similarity: candidate.similarity,
+                        exactMatch: candidate.exactMatch,
+                    },
+                });
+            }
+
+            const keep = candidates.map((candidate) => candidate.documentId);
+            await tx.documentDuplicate.deleteMany({
+                where: {
+                    status: 'open',
+                    OR: [
+                        { documentId, duplicateId: { notIn: keep } },
+                        {
+                            duplicateId: documentId,
+                            documentId: { notIn: keep },
+                        },
+                    ],
+                },
+            });
+        });
+    },
+
+    markScanned: async (tenantId: string, scannedAt: Date) => {
+        await prisma.tenant.update({
+            where: { id: tenantId },
+            data: { duplicateScanAt: scannedAt },
+        });
+    },
+
+    listForTenant: async (
+        tenantId: string,
+        status: DuplicateStatus,
+        limit = 50
+    ) => {
+        return prisma.documentDuplicate.findMany({
+            where: { tenantId, status },
+            orderBy: [{ similarity: 'desc' }, { detectedAt: 'desc' }],
+            take: limit,
+            include: {
+                document: pairDocumentSelect,
+                duplicate: pairDocumentSelect,
+            },
+        });
+    },
+
+    findById: async (id: string, tenantId: string) => {
+        return prisma.documentDuplicate.findFirst({
+            where: { id, tenantId },
+            include: {
+                document: pairDocumentSelect,
+                duplicate: pairDocumentSelect,
+            },
+        });
+    },
+
+    /**
+     * Returns false when the pair is missing or no longer open
+     */
+    dismiss: async (id: string, tenantId: string) => {
+        const result = await prisma.documentDuplicate.updateMany({
+            where: { id, tenantId, status: 'open' },
+            data: { status: 'dismissed', resolvedAt: new Date() },
+        });
+        return result.count > 0;
+    },
+
+    /**
+     * Archive one document of an open pair. `merge` first copies its tags and
+     * favorites onto the kept document. Other open pairs of the archived
+     * document are resolved too.
+     */
+    resolve: async (
+        id: string,
+        tenantId: string,
+        {
+            keepDocumentId,
+            archiveDocumentId,
+            merge,
+            userId,
+        }: {
+            keepDocumentId: string;
+            archiveDocumentId: string;
+            merge: boolean;
+            userId: string;
+        }
+    ) => {
+        return prisma.$transaction(async (tx) => {
+            const now = new Date();
+            const claimed = await tx.documentDuplicate.updateMany({
+                where: { id, tenantId, status: 'open' },
+                data: { status: 'resolved', resolvedAt: now },
+            });
+            if (claimed.count === 0) {
+                return false;
+            }
+
+            if (merge) {
+                const tags = await tx.documentTag.findMany({
+                    where: { documentId: archiveDocumentId },
+                    select: { tagId: true },
+                });
+                await tx.documentTag.createMany({
+                    data: tags.map(({ tagId }) => ({
+                        documentId: keepDocumentId,
+                        tagId,
+                        addedById: userId,
+                    })),
+                    skipDuplicates: true,
+                });
+
+                const favorites = await tx.documentFavorite.findMany({
+                    where: { documentId: archiveDocumentId },
+                    select: { userId: true },
+                });
+                await tx.documentFavorite.createMany({
+                    data: favorites.map((favorite) => ({
+                        documentId: keepDocumentId,
+                        userId: favorite.userId,
+                    })),
+                    skipDuplicates: true,
+                });
+            }
+
+            await tx.document.update({
+                where: { id: archiveDocumentId },
+                data: { archivedAt: now },
+            });
+
+            await tx.documentDuplicate.updateMany({
+                where: {
+                    tenantId,
+                    status: 'open',
+                    OR: [
+                        { documentId: archiveDocumentId },
+                        { duplicateId: archiveDocumentId },
+                    ],
+                },
+                data: { status: 'resolved', resolvedAt: now },
+            });
+
+            return true;
+        });
+    },
+};
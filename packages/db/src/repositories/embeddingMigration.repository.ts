@@ -0,0 +1,217 @@
+import { Prisma } from '../../generated/prisma/client.js';
+import { prisma } from '../client.js';
+
+export interface ChunkToEmbed {
+    id: string;
+    content: string;
+}
+
+/**
+ * Chunks with no vector from `model` yet. Primary targets compare the
+ * DocumentChunk.embeddingModel tag, shadow targets look for a missing shadow row.
+ */
+function missingEmbeddingSql(
+    tenantId: string,
+    model: string,
+    primary: boolean
+): Prisma.Sql {
+    return primary
+        ? Prisma.sql`
+            dc."tenantId" = ${tenantId}
+            AND dc."embeddingModel" <> ${model}
+        `
+        : Prisma.sql`
+            dc."tenantId" = ${tenantId}
+            AND NOT EXISTS (
+                SELECT 1 FROM "DocumentChunkEmbedding" e
+                WHERE e."chunkId" = dc."id" AND e."embeddingModel" = ${model}
+            )
+        `;
+}
+
+export const embeddingMigrationRepository = {
+    /** API: record a migration before queueing the re-embed job */
+    create: async (tenantId: string, targetModel: string) => {
+        const totalChunks = await prisma.documentChunk.count({
+            where: { tenantId },
+        });
+
+        return prisma.embeddingMigration.create({
+            data: { tenantId, targetModel, totalChunks },
+        });
+    },
+
+    findById: async (tenantId: string, migrationId: string) => {
+        return prisma.embeddingMigration.findFirst({
+            where: { id: migrationId, tenantId },
+        });
+    },
+
+    /** Most recent first */
+    listByTenant: async (tenantId: string, limit = 20) => {
+        return prisma.embeddingMigration.findMany({
+            where: { tenantId },
+            orderBy: { createdAt: 'desc' },
+            take: limit,
+        });
+    },
+
+    /** The queued or running migration of a tenant, if any */
+    findInProgress: async (tenantId: string) => {
+        return prisma.embeddingMigration.findFirst({
+            where: { tenantId, status: { in: ['queued', 'running'] } },
+            orderBy: { createdAt: 'desc' },
+        });
+    },
+
+    /**
+     * Shadow models the indexer must keep in sync for new and edited documents:
+     * the tenant's active model and every migration not yet cut over
+     */
+    listMaintainedModels: async (tenantId: string) => {
+        const [tenant, migrations] = await Promise.all([
+            prisma.tenant.findUnique({
+                where: { id: tenantId },
+                select: { embeddingModel: true },
+            }),
+            prisma.embeddingMigration.findMany({
+                where: {
+                    tenantId,
+                    status: { in: ['queued', 'running', 'completed'] },
+                    cutoverAt: null,
+                },
+                select: { targetModel: true },
+            }),
+        ]);
+
+        const models = new Set(migrations.map((m) => m.targetModel));
+        if (tenant?.embeddingModel) {
+            models.add(tenant.embeddingModel);
+        }
+        return [...models];
+    },
+
+    /** Worker: queued -> running */
+    markRunning: async (migrationId: string) => {
+        return prisma.embeddingMigration.update({
+            where: { id: migrationId },
+            data: { status: 'running', startedAt: new Date(), error: null },
+        });
+    },
+
+    updateProgress: async (migrationId: string, processedChunks: number) => {
+        await prisma.embeddingMigration.update({
+            where: { id: migrationId },
+            data: { processedChunks },
+        });
+    },
+
+    /** Worker: running -> completed */
+    markCompleted: async (migrationId: string, processedChunks: number) => {
+        return prisma.embeddingMigration.update({
+            where: { id: migrationId },
+            data: {
+                status: 'completed',
+                processedChunks,
+                completedAt: new Date(),
+            },
+        });
+    },
+
+    /** Worker: running -> failed (records error text) */
+    markFailed: async (migrationId: string, error: string) => {
+        await prisma.embeddingMigration.update({
+            where: { id: migrationId },
+            data: { status: 'failed', error, completedAt: new Date() },
+        });
+    },
+
+    /**
+     * Point the tenant's semantic search at the migration's model.
+     * Earlier cut-over migrations keep their cutoverAt as history.
+     */
+    cutover: async (tenantId: string, migrationId: string) => {
+        return prisma.$transaction(async (tx) => {
+            const migration = await tx.embeddingMigration.update({
+                where: { id: migrationId, tenantId },
+                data: { cutoverAt: new Date() },
+            });
+            await tx.tenant.update({
+                where: { id: tenantId },
+                data: { embeddingModel: migration.targetModel },
+            });
+            return migration;
+        });
+    },
+
+    countChunksToEmbed: async (
+        tenantId: string,
+        model: string,
+        primary: boolean
+    ) => {
+        const [row] = await prisma.$queryRaw<{ count: bigint }[]>`
+            SELECT COUNT(*) AS count
+            FROM "DocumentChunk" dc
+            WHERE ${missingEmbeddingSql(tenantId, model, primary)}
+        `;
+        return Number(row?.count ?? 0);
+    },
+
+    findChunksToEmbed: async (
+        tenantId: string,
+        model: string,
+        primary: boolean,
+        limit: number
+    ) => {
+        return prisma.$queryRaw<ChunkToEmbed[]>`
+            SELECT dc."id", dc."content"
+            FROM "DocumentChunk" dc
+            WHERE ${missingEmbeddingSql(tenantId, model, primary)}
+            ORDER BY dc."id"
+            LIMIT ${limit}
+        `;
+    },
+
+    /**
+     * Store a batch of re-embedded vectors. Chunks deleted by a concurrent
+     * reindex since they were read are skipped.
+     */
+    saveChunkEmbeddings: async ({
+        tenantId,
+        model,
+        primary,
+        chunkIds,
+        vectors,
+    }: {
+        tenantId: string;
+        model: string;
+        primary: boolean;
+        chunkIds: string[];
+        vectors: number[][];
+    }) => {
+        if (chunkIds.length !== vectors.length) {
+            throw new Error('Chunk count and vector count must match');
+        }
+        const literals = vectors.map((vector) => `[${vector.join(',')}]`);
+
+        if (primary) {
+            return prisma.$executeRaw`
+                UPDATE "DocumentChunk" dc
+                SET "embedding" = v.embedding::vector,
+                    "embeddingModel" = ${model}
+                FROM unnest(${chunkIds}::text[], ${literals}::text[]) AS v(id, embedding)
+                WHERE dc."id" = v.id AND dc."tenantId" = ${tenantId}
+            `;
+        }
+
+        return prisma.$executeRaw`
+            INSERT INTO "DocumentChunkEmbedding"
+              ("chunkId","tenantId","embeddingModel","embedding","createdAt")
+            SELECT dc."id", dc."tenantId", ${model}, v.embedding::vector, now()
+            FROM unnest(${chunkIds}::text[], ${literals}::text[]) AS v(id, embedding)
+            JOIN "DocumentChunk" dc ON dc."id" = v.id AND dc."tenantId" = ${tenantId}
+            ON CONFLICT ("chunkId","embeddingModel")
+            DO UPDATE SET "embedding" = EXCLUDED."embedding", "createdAt" = now()
+        `;
+    },
+};
@@ -0,0 +1,117 @@
+import { Prisma } from '../../generated/prisma/client.js';
+import { prisma } from '../client.js';
+
+export interface QaThreadOwner {
+    tenantId: string;
+    userId: string;
+}
+
+export interface QaCitation {
+    id: string;
+    title: string;
+    snippet: string;
+    score: number;
+}
+
+export interface QaExchangeInput {
+    question: string;
+    answer: string;
+    retrievalQuery: string;
+    citations: QaCitation[];
+    noContext: boolean;
+}
+
+const withMessageCount = {
+    _count: { select: { messages: true } },
+} as const;
+
+export const qaThreadRepository = {
+    create: async (owner: QaThreadOwner, title: string | null) => {
+        return prisma.qaThread.create({
+            data: { tenantId: owner.tenantId, userId: owner.userId, title },
+            include: withMessageCount,
+        });
+    },
+
+    findById: async (id: string, owner: QaThreadOwner) => {
+        return prisma.qaThread.findFirst({
+            where: { id, tenantId: owner.tenantId, userId: owner.userId },
+            include: withMessageCount,
+        });
+    },
+
+    /** Most recently active first */
+    listByOwner: async (owner: QaThreadOwner, limit = 50) => {
+        return prisma.qaThread.findMany({
+            where: { tenantId: owner.tenantId, userId: owner.userId },
+            orderBy: { updatedAt: 'desc' },
+            take: limit,
+            include: withMessageCount,
+        });
+    },
+
+    /** Returns false when the thread doesn't exist for this owner */
+    delete: async (id: string, owner: QaThreadOwner) => {
+        const { count } = await prisma.qaThread.deleteMany({
+            where: { id, tenantId: owner.tenantId, userId: owner.userId },
+        });
+        return count > 0;
+    },
+
+    /** Oldest first */
+    listMessages: async (threadId: string) => {
+        return prisma.qaMessage.findMany({
+            where: { threadId },
+            orderBy: { createdAt: 'asc' },
+        });
+    },
+
+    /** The last `limit` messages, oldest first */
+    recentMessages: async (threadId: string, limit: number) => {
+        const rows = await prisma.qaMessage.findMany({
+            where: { threadId },
+            orderBy: { createdAt: 'desc' },
+            take: limit,
+        });
+        return rows.reverse();
+    },
+
+    /**
+     * Store a question and its answer. The first question becomes the title of
+     * an untitled thread.
+     */
+    appendExchange: async (threadId: string, input: QaExchangeInput) => {
+        return prisma.$transaction(async (tx) => {
+            const question = await tx.qaMessage.create({
+                data: { threadId, role: 'user', content: input.question },
+            });
+            const answer = await tx.qaMessage.create({
+                data: {
+                    threadId,
+                    role: 'assistant',
+                    content: input.answer,
+                    retrievalQuery: input.retrievalQuery,
+                    citations:
+                        input.citations as unknown as Prisma.InputJsonArray,
+                    noContext: input.noContext,
+                    // keep the answer ordered after the question
+                    createdAt: new Date(question.createdAt.getTime() + 1),
+                },
+            });
+
+            const thread = await tx.qaThread.findUniqueOrThrow({
+                where: { id: threadId },
+                select: { title: true },
+            });
+            await tx.qaThread.update({
+                where: { id: threadId },
+                data: {
+                    title: thread.title ?? input.question.slice(0, 120),
+                    updatedAt: new Date(),
+                },
+            });
+
+            return { question, answer };
+        });
+    },
+};
@@ -0,0 +1,223 @@
+import { Prisma } from '../../generated/prisma/client.js';
+import { prisma } from '../client.js';
+import type { SearchFilterOptions, TextQuery } from './search.repository.js';
+
+export interface SavedSearchOwner {
+    tenantId: string;
+    userId: string;
+}
+
+export interface SavedSearchInput {
+    name: string;
+    query: string;
+    filters: object | null; // request filters, echoed back to clients
+    textQuery: TextQuery;
+    filterOptions: SearchFilterOptions | undefined;
+}
+
+/**
+ * What the worker runs: the compiled query of a saved search
+ */
+export interface SavedSearchCriteria {
+    id: string;
+    tenantId: string;
+    textQuery: TextQuery;
+    filterOptions: SearchFilterOptions | undefined;
+    baseline: boolean; // first run: record matches as already seen
+}
+
+// the unseen-match count shown as "N new matches"
+const withNewMatchCount = {
+    _count: { select: { matches: { where: { seenAt: null } } } },
+} as const;
+
+function toJson(value: object): Prisma.InputJsonObject {
+    return JSON.parse(JSON.stringify(value)) as Prisma.InputJsonObject;
+}
+
+// Dates are stored as ISO strings inside the JSON column
+function reviveFilterOptions(value: unknown): SearchFilterOptions | undefined {
+    if (!value || typeof value !== 'object') {
+        return undefined;
+    }
+
+    const stored = value as Record<string, unknown>;
+    return {
+        ...(stored as SearchFilterOptions),
+        updatedAfter:
+            typeof stored.updatedAfter === 'string'
+                ? new Date(stored.updatedAfter)
+                : undefined,
+        updatedBefore:
+            typeof stored.updatedBefore === 'string'
+                ? new Date(stored.updatedBefore)
+                : undefined,
+    };
+}
+
+function criteriaData(input: Omit<SavedSearchInput, 'name'>) {
+    return {
+        query: input.query,
+        filters: input.filters ? toJson(input.filters) : Prisma.DbNull,
+        textQuery: toJson(input.textQuery),
+        filterOptions: input.filterOptions
+            ? toJson(input.filterOptions)
+            : Prisma.DbNull,
+    };
+}
+
+export const savedSearchRepository = {
+    create: async (owner: SavedSearchOwner, input: SavedSearchInput) => {
+        return prisma.savedSearch.create({
+            data: {
+                tenantId: owner.tenantId,
+                userId: owner.userId,
+                name: input.name,
+                ...criteriaData(input),
+            },
+            include: withNewMatchCount,
+        });
+    },
+
+    findById: async (id: string, owner: SavedSearchOwner) => {
+        return prisma.savedSearch.findFirst({
+            where: { id, tenantId: owner.tenantId, userId: owner.userId },
+            include: withNewMatchCount,
+        });
+    },
+
+    /** Newest first */
+    listByOwner: async (owner: SavedSearchOwner) => {
+        return prisma.savedSearch.findMany({
+            where: { tenantId: owner.tenantId, userId: owner.userId },
+            orderBy: { createdAt: 'desc' },
+            include: withNewMatchCount,
+        });
+    },
+
+    /**
+     * Rename and/or change the criteria. New criteria invalidate the recorded
+     * matches, so they are cleared and the next run records a fresh baseline.
+     * Returns null when the saved search doesn't exist for this owner.
+     */
+    update: async (
+        id: string,
+        owner: SavedSearchOwner,
+        input: { name?: string; criteria?: Omit<SavedSearchInput, 'name'> }
+    ) => {
+        return prisma.$transaction(async (tx) => {
+            const existing = await tx.savedSearch.findFirst({
+                where: { id, tenantId: owner.tenantId, userId: owner.userId },
+                select: { id: true },
+            });
+            if (!existing) {
+                return null;
+            }
+
+            if (input.criteria) {
+                await tx.savedSearchMatch.deleteMany({
+                    where: { savedSearchId: id },
+                });
+            }
+
+            return tx.savedSearch.update({
+                where: { id },
+                data: {
+                    name: input.name,
+                    ...(input.criteria
+                        ? { ...criteriaData(input.criteria), lastRunAt: null }
+                        : {}),
+                },
+                include: withNewMatchCount,
+            });
+        });
+    },
+
+    /** Returns false when the saved search doesn't exist for this owner */
+    delete: async (id: string, owner: SavedSearchOwner) => {
+        const { count } = await prisma.savedSearch.deleteMany({
+            where: { id, tenantId: owner.tenantId, userId: owner.userId },
+        });
+        return count > 0;
+    },
+
+    /** Unseen matches first, then most recently matched */
+    listMatches: async (savedSearchId: string, limit = 50) => {
+        return prisma.savedSearchMatch.findMany({
+            where: { savedSearchId },
+            orderBy: [
+                { seenAt: { sort: 'desc', nulls: 'first' } },
+                { matchedAt: 'desc' },
+            ],
+            take: limit,
+            include: { document: { select: { title: true } } },
+        });
+    },
+
+    markMatchesSeen: async (savedSearchId: string) => {
+        const { count } = await prisma.savedSearchMatch.updateMany({
+            where: { savedSearchId, seenAt: null },
+            data: { seenAt: new Date() },
+        });
+        return count;
+    },
+
+    /**
+     * Worker: saved searches not run since `runBefore`, never-run ones first
+     */
+    listDueForRun: async (
+        runBefore: Date,
+        limit = 100
+    ): Promise<SavedSearchCriteria[]> => {
+        const rows = await prisma.savedSearch.findMany({
+            where: {
+                OR: [{ lastRunAt: null }, { lastRunAt: { lt: runBefore } }],
+            },
+            orderBy: { lastRunAt: { sort: 'asc', nulls: 'first' } },
+            take: limit,
+            select: {
+                id: true,
+                tenantId: true,
+                textQuery: true,
+                filterOptions: true,
+                lastRunAt: true,
+            },
+        });
+
+        return rows.map((row) => ({
+            id: row.id,
+            tenantId: row.tenantId,
+            textQuery: row.textQuery as unknown as TextQuery,
+            filterOptions: reviveFilterOptions(row.filterOptions),
+            baseline: row.lastRunAt === null,
+        }));
+    },
+
+    /**
+     * Worker: record the documents a run matched. Already recorded documents are
+     * left alone; returns how many were new.
+     */
+    recordRun: async (
+        savedSearchId: string,
+        documentIds: string[],
+        { baseline }: { baseline: boolean }
+    ) => {
+        const now = new Date();
+        const [{ count }] = await prisma.$transaction([
+            prisma.savedSearchMatch.createMany({
+                data: documentIds.map((documentId) => ({
+                    savedSearchId,
+                    documentId,
+                    matchedAt: now,
+                    seenAt: baseline ? now : null,
+                })),
+                skipDuplicates: true,
+            }),
+            prisma.savedSearch.update({
+                where: { id: savedSearchId },
+                data: { lastRunAt: now },
+            }),
+        ]);
+        return baseline ? 0 : count;
+    },
+};
@@ -1,45 +1,296 @@
+import { Prisma } from '../../generated/prisma/client.js';
 import { prisma } from '../client.js';
+import { annSettingsSql } from './vectorIndex.repository.js';
 
 export interface SearchCandidate {
     documentId: string;
     idx: number;
     content: string;
+    headingPath: string[] | null; // heading breadcrumb of the chunk
+    startPos: number | null; // character range in the indexed markdown
+    endPos: number | null;
     distance: number;
     similarity: number;
     totalChunks?: number; // Total chunks in the document (for context window bounds)
 }
 
+/**
+ * Where a hit landed inside its document: the best matching chunk
+ */
+export interface ChunkPassage {
+    idx: number;
+    headingPath: string[];
+    startPos: number | null; // -1/null when the chunker couldn't map the range
+    endPos: number | null;
+}
+
 export interface DocumentTitleInfo {
     id: string;
     title: string;
 }
 
 /**
- * Find nearest document chunks using vector similarity search
+ * Structured document filters shared by lexical and vector retrieval
+ */
+export interface SearchFilterOptions {
+    tagIds?: string[]; // match documents with any of these tags
+    tagNames?: string[]; // match documents carrying every one of these tags (case-insensitive)
+    authorId?: string; // Document.createdById
+    authorHandle?: string; // creator email, email local part or name (case-insensitive)
+    updatedAfter?: Date; // inclusive
+    updatedBefore?: Date; // exclusive
+    favoritedByUserId?: string; // only documents this user has favorited
+}
+
+/**
+ * Build the AND-clauses for structured filters against the "Document" row aliased as d.
+ * Applied inside the retrieval queries so filtering happens before
+ * ranking/LIMIT rather than on an already truncated result set.
+ * Archived documents are always excluded.
+ */
+function buildDocumentFilterSql(
+    filters: SearchFilterOptions | undefined
+): Prisma.Sql {
+    const notArchived = Prisma.sql`AND d."archivedAt" IS NULL`;
+
+    if (!filters) {
+        return notArchived;
+    }
+
+    const clauses: Prisma.Sql[] = [notArchived];
+
+    if (filters.tagIds && filters.tagIds.length > 0) {
+        clauses.push(Prisma.sql`
+            AND EXISTS (
+                SELECT 1 FROM "DocumentTag" ft
+                WHERE ft."documentId" = d."id"
+                  AND ft."tagId" IN (${Prisma.join(filters.tagIds)})
+            )`);
+    }
+
+    for (const tagName of filters.tagNames ?? []) {
+        clauses.push(Prisma.sql`
+            AND EXISTS (
+                SELECT 1 FROM "DocumentTag" nt
+                JOIN "Tag" t ON t."id" = nt."tagId"
+                WHERE nt."documentId" = d."id"
+                  AND lower(t."name") = lower(${tagName})
+            )`);
+    }
+
+    if (filters.authorId) {
+        clauses.push(Prisma.sql`AND d."createdById" = ${filters.authorId}`);
+    }
+
+    if (filters.authorHandle) {
+        clauses.push(Prisma.sql`
+            AND EXISTS (
+                SELECT 1 FROM "User" au
+                WHERE au."id" = d."createdById"
+                  AND (
+                      lower(au."email") = lower(${filters.authorHandle})
+                      OR lower(split_part(au."email", '@', 1)) = lower(${filters.authorHandle})
+                      OR lower(au."name") = lower(${filters.authorHandle})
+                  )
+            )`);
+    }
+
+    clauses.push(...buildUpdatedAtRangeSql(filters));
+
+    if (filters.favoritedByUserId) {
+        clauses.push(Prisma.sql`
+            AND EXISTS (
+                SELECT 1 FROM "DocumentFavorite" ff
+                WHERE ff."documentId" = d."id"
+                  AND ff."userId" = ${filters.favoritedByUserId}
+            )`);
+    }
+
+    return Prisma.join(clauses, ' ');
+}
+
+/**
+ * AND-clauses bounding d."updatedAt"; facet buckets reuse them so a bucket
+ * counts exactly the documents its filter returns
+ */
+function buildUpdatedAtRangeSql(range: UpdatedAtRange): Prisma.Sql[] {
+    const clauses: Prisma.Sql[] = [];
+
+    if (range.updatedAfter) {
+        clauses.push(Prisma.sql`AND d."updatedAt" >= ${range.updatedAfter}`);
+    }
+
+    if (range.updatedBefore) {
+        clauses.push(Prisma.sql`AND d."updatedAt" < ${range.updatedBefore}`);
+    }
+
+    return clauses;
+}
+
+/**
+ * Which stored vectors a query vector is compared against
+ */
+export interface EmbeddingSource {
+    model: string; // embedding model id ("provider:model:dimensions")
+    // true reads DocumentChunkEmbedding (vectors from re-embedding migrations)
+    // instead of the primary DocumentChunk.embedding column
+    shadow: boolean;
+}
+
+/**
+ * SQL fragments selecting the stored vectors of one model, for queries over
+ * "DocumentChunk" aliased as dc (or `chunkAlias`).
+ * Primary vectors keep the ORDER BY on the indexed column so the ANN index applies;
+ * the shadow table has no ANN index (mixed dimensions) and is scanned per tenant/model.
+ */
+export function embeddingSourceSql(
+    source: EmbeddingSource,
+    chunkAlias = 'dc',
+    shadowAlias = 'e'
+) {
+    const chunk = Prisma.raw(chunkAlias);
+    const shadow = Prisma.raw(shadowAlias);
+
+    return {
+        embedding: source.shadow
+            ? Prisma.sql`${shadow}.embedding`
+            : Prisma.sql`${chunk}.embedding`,
+        shadowJoin: source.shadow
+            ? Prisma.sql`JOIN "DocumentChunkEmbedding" ${shadow} ON ${shadow}."chunkId" = ${chunk}."id" AND ${shadow}."embeddingModel" = ${source.model}`
+            : Prisma.empty,
+        modelFilter: source.shadow
+            ? Prisma.empty
+            : Prisma.sql`AND ${chunk}."embeddingModel" = ${source.model}`,
+    };
+}
+
+/**
+ * Find nearest document chunks using vector similarity search.
+ * Only vectors produced by the same model are compared.
  */
 async function findNearestChunks(
     tenantId: string,
     embeddingVector: number[],
-    limit: number
+    limit: number,
+    filters: SearchFilterOptions | undefined,
+    source: EmbeddingSource,
+    { efSearch }: { efSearch?: number } = {}
 ): Promise<SearchCandidate[]> {
-    const candidates = await prisma.$queryRawUnsafe<SearchCandidate[]>(
-        `
-        SELECT "documentId",
-               "idx",
-               "content",
-               (embedding <=> $1::vector) AS distance,
-               1 - (embedding <=> $1::vector) AS similarity
-        FROM "DocumentChunk"
-        WHERE "tenantId" = $2
+    const vector = `[${embeddingVector.join(',')}]`;
+
+    const { embedding, shadowJoin, modelFilter } = embeddingSourceSql(source);
+
+    const query = Prisma.sql`
+        SELECT dc."documentId",
+               dc."idx",
+               dc."content",
+               dc."headingPath",
+               dc."startPos",
+               dc."endPos",
+               (${embedding} <=> ${vector}::vector) AS distance,
+               1 - (${embedding} <=> ${vector}::vector) AS similarity
+        FROM "DocumentChunk" dc
+        ${shadowJoin}
+        JOIN "Document" d ON d."id" = dc."documentId"
+        WHERE dc."tenantId" = ${tenantId}
+        ${modelFilter}
+        ${buildDocumentFilterSql(filters)}
         ORDER BY distance ASC
-        LIMIT $3
-        `,
-        `[${embeddingVector.join(',')}]`,
-        tenantId,
-        limit
-    );
+        LIMIT ${limit}
+    `;
+
+    if (source.shadow || !efSearch) {
+        return prisma.$queryRaw<SearchCandidate[]>(query);
+    }
+
+    // ef_search below the limit would cap the HNSW result size, so never go under it
+    return prisma.$transaction(async (tx) => {
+        await tx.$queryRaw(annSettingsSql(Math.max(efSearch, limit)));
+        return tx.$queryRaw<SearchCandidate[]>(query);
+    });
+}
+
+/**
+ * Document-level vector: the mean of the document's chunk vectors from one model.
+ * Null when the document has no chunks embedded with that model.
+ */
+async function getDocumentVector(
+    tenantId: string,
+    documentId: string,
+    source: EmbeddingSource
+): Promise<number[] | null> {
+    const { embedding, shadowJoin, modelFilter } = embeddingSourceSql(source);
+
+    const rows = await prisma.$queryRaw<{ vector: string | null }[]>`
+        SELECT AVG(${embedding})::text AS vector
+        FROM "DocumentChunk" dc
+        ${shadowJoin}
+        WHERE dc."tenantId" = ${tenantId}
+          AND dc."documentId" = ${documentId}
+          ${modelFilter}
+    `;
+
+    const vector = rows[0]?.vector;
+    // pgvector's text form is a JSON array
+    return vector ? (JSON.parse(vector) as number[]) : null;
+}
 
-    return candidates;
+export interface RelatedDocumentCandidate {
+    documentId: string;
+    title: string;
+    score: number; // best chunk similarity to the source document's vector
+}
+
+/**
+ * Documents whose chunks lie nearest to a document vector, excluding the
+ * document itself. Each document is scored by its closest chunk, so the ANN
+ * index on chunk vectors is used rather than a scan of per-document vectors.
+ */
+async function findRelatedDocuments(
+    tenantId: string,
+    documentId: string,
+    vector: number[],
+    limit: number,
+    source: EmbeddingSource,
+    { efSearch }: { efSearch?: number } = {}
+): Promise<RelatedDocumentCandidate[]> {
+    const vectorSql = `[${vector.join(',')}]`;
+    // several chunks of one document tend to be neighbours; over-fetch before grouping
+    const chunkLimit = limit * 8;
+
+    const { embedding, shadowJoin, modelFilter } = embeddingSourceSql(source);
+
+    const query = Prisma.sql`
+        SELECT n."documentId",
+               d."title",
+               MAX(n.similarity) AS score
+        FROM (
+            SELECT dc."documentId",
+                   (${embedding} <=> ${vectorSql}::vector) AS distance,
+                   1 - (${embedding} <=> ${vectorSql}::vector) AS similarity
+            FROM "DocumentChunk" dc
+            ${shadowJoin}
+            WHERE dc."tenantId" = ${tenantId}
+              AND dc."documentId" <> ${documentId}
+              ${modelFilter}
+            ORDER BY distance ASC
+            LIMIT ${chunkLimit}
+        ) n
+        JOIN "Document" d ON d."id" = n."documentId"
+        WHERE d."archivedAt" IS NULL
+        GROUP BY n."documentId", d."title"
+        ORDER BY score DESC
+        LIMIT ${limit}
+    `;
+
+    if (source.shadow || !efSearch) {
+        return prisma.$queryRaw<RelatedDocumentCandidate[]>(query);
+    }
+
+    return prisma.$transaction(async (tx) => {
+        await tx.$queryRaw(annSettingsSql(Math.max(efSearch, chunkLimit)));
+        return tx.$queryRaw<RelatedDocumentCandidate[]>(query);
+    });
 }
 
 /**
@@ -63,11 +314,49 @@ async function getDocumentTitlesByIds(
     return documents;
 }
 
+/**
+ * Per-field ranking weights for the weighted searchVector
+ * (title = A, headings = B, lead = C, body = D)
+ */
+export interface SearchRankWeights {
+    title: number;
+    headings: number;
+    lead: number;
+    body: number;
+}
+
+// ts_rank_cd expects weights ordered {D, C, B, A}
+function toRankWeightsArray(weights: SearchRankWeights): string {
+    return `{${[weights.body, weights.lead, weights.headings, weights.title].join(',')}}`;
+}
+
 export interface LexicalSearchResultItem {
     id: string;
     title: string;
     snippet: string | null;
     score: number;
+    passage: ChunkPassage | null;
+}
+
+// flat passage columns as selected by the raw queries below
+interface PassageColumns {
+    passage_idx: number | null;
+    passage_heading_path: string[] | null;
+    passage_start: number | null;
+    passage_end: number | null;
+}
+
+function toChunkPassage(row: PassageColumns): ChunkPassage | null {
+    if (row.passage_idx === null) {
+        return null;
+    }
+
+    return {
+        idx: row.passage_idx,
+        headingPath: row.passage_heading_path ?? [],
+        startPos: row.passage_start,
+        endPos: row.passage_end,
+    };
 }
 
 export interface LexicalSearchResult {
@@ -75,30 +364,170 @@ export interface LexicalSearchResult {
     total: number;
 }
 
+/**
+ * A single search term or quoted phrase from a parsed query
+ */
+export interface TextQueryTerm {
+    value: string;
+    phrase: boolean;
+    negated: boolean;
+}
+
+/**
+ * Parsed full-text query: every group must match, any term within a group may match.
+ * titleTerms must additionally match the document title.
+ */
+export interface TextQuery {
+    groups: TextQueryTerm[][];
+    titleTerms: TextQueryTerm[];
+}
+
+// single words eligible for prefix matching; anything else goes through plainto_tsquery
+const PREFIX_WORD_PATTERN = /^[\p{L}\p{N}_]{4,}$/u;
+// documents index CJK runs as bigrams (cjk_bigrams() in 06_cjk_bigrams.sql)
+const CJK_PATTERN =
+    /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/u;
+const SINGLE_CJK_PATTERN =
+    /^[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]$/u;
+
+/**
+ * Build the tsquery for one term. User text is only ever passed as a bound
+ * parameter to the to_tsquery family, and raw to_tsquery input is restricted
+ * to a plain word, so punctuation can never produce a tsquery syntax error.
+ */
+function buildTermTsQuerySql(
+    term: TextQueryTerm,
+    config: Prisma.Sql
+): Prisma.Sql {
+    let query: Prisma.Sql;
+    if (SINGLE_CJK_PATTERN.test(term.value)) {
+        // one character is shorter than a bigram: match the bigrams it starts
+        query = Prisma.sql`to_tsquery(${config}, ${`${term.value}:*`})`;
+    } else if (CJK_PATTERN.test(term.value)) {
+        // bigrams of the term, adjacent and in order, like the indexed text
+        query = Prisma.sql`phraseto_tsquery(${config}, cjk_bigrams(${term.value}))`;
+    } else if (term.phrase) {
+        query = Prisma.sql`phraseto_tsquery(${config}, ${term.value})`;
+    } else if (PREFIX_WORD_PATTERN.test(term.value)) {
+        // Use prefix matching only for longer tokens to reduce noise on very short queries
+        query = Prisma.sql`to_tsquery(${config}, ${`${term.value}:*`})`;
+    } else {
+        query = Prisma.sql`plainto_tsquery(${config}, ${term.value})`;
+    }
+
+    return term.negated ? Prisma.sql`(!! ${query})` : query;
+}
+
+function buildGroupsTsQuerySql(
+    groups: TextQueryTerm[][],
+    config: Prisma.Sql
+): Prisma.Sql | null {
+    const nonEmpty = groups.filter((group) => group.length > 0);
+    if (nonEmpty.length === 0) {
+        return null;
+    }
+
+    const groupSql = nonEmpty.map(
+        (group) =>
+            Prisma.sql`(${Prisma.join(
+                group.map((term) => buildTermTsQuerySql(term, config)),
+                ' || '
+            )})`
+    );
+
+    return Prisma.join(groupSql, ' && ');
+}
+
+/**
+ * Effective text search configuration of the "Document" aliased as d:
+ * the language detected at index time, else the tenant's configuration
+ */
+function documentConfigSql(textSearchConfig: string): Prisma.Sql {
+    return Prisma.sql`resolve_text_search_config(COALESCE(d."textSearchConfig", ${textSearchConfig}))`;
+}
+
+/**
+ * Build the query CTE for a parsed query, null when it has no terms.
+ * Documents are stemmed in their own language, so the query is compiled once per
+ * configuration used in the tenant: one row of (cfg, query, title_query) each.
+ */
+function buildQueryConfigsSql(
+    tenantId: string,
+    textQuery: TextQuery,
+    textSearchConfig: string
+): Prisma.Sql | null {
+    const config = Prisma.sql`c.cfg`;
+    const tsQuery = buildGroupsTsQuerySql(
+        [...textQuery.groups, ...textQuery.titleTerms.map((term) => [term])],
+        config
+    );
+
+    if (!tsQuery) {
+        return null;
+    }
+
+    const titleQuery = buildGroupsTsQuerySql(
+        textQuery.titleTerms.map((term) => [term]),
+        config
+    );
+
+    return Prisma.sql`
+        SELECT c.cfg,
+               ${tsQuery} AS query,
+               ${titleQuery ?? Prisma.sql`NULL::tsquery`} AS title_query
+        FROM (
+            SELECT resolve_text_search_config(${textSearchConfig}) AS cfg
+            UNION
+            SELECT resolve_text_search_config(cd."textSearchConfig")
+            FROM "Document" cd
+            WHERE cd."tenantId" = ${tenantId}
+              AND cd."textSearchConfig" IS NOT NULL
+        ) c
+    `;
+}
+
+/**
+ * Extra AND-clause restricting title: terms to the "Document" title aliased as d,
+ * against the query CTE aliased as q
+ */
+function buildTitleMatchSql(textQuery: TextQuery): Prisma.Sql {
+    return textQuery.titleTerms.length > 0
+        ? Prisma.sql`AND to_tsvector(q.cfg, cjk_bigrams(d."title")) @@ q.title_query`
+        : Prisma.empty;
+}
+
 /**
  * Perform full-text search on documents with prefix matching support
  */
 async function lexicalSearchDocuments(
     tenantId: string,
-    searchQuery: string,
+    textQuery: TextQuery,
     limit: number,
-    offset: number
+    offset: number,
+    filters?: SearchFilterOptions,
+    rankWeights?: SearchRankWeights,
+    textSearchConfig = 'english'
 ): Promise<LexicalSearchResult> {
-    const terms = searchQuery.trim().split(/\s+/).filter(Boolean);
+    const queryConfigs = buildQueryConfigsSql(
+        tenantId,
+        textQuery,
+        textSearchConfig
+    );
 
-    if (terms.length === 0) {
+    if (!queryConfigs) {
         return { items: [], total: 0 };
     }
 
-    // Use prefix matching only for longer tokens to reduce noise on very short queries
-    const tsQuery = terms
-        .map((term) => (term.length > 3 ? `${term}:*` : term))
-        .join(' & ');
-
     const rows = await prisma.$queryRaw<
-        (LexicalSearchResultItem & { total: number })[]
+        (Omit<LexicalSearchResultItem, 'passage'> &
+            PassageColumns & { total: number })[]
     >`
-        WITH doc_text AS (
+        WITH q AS (
+            SELECT qc.*,
+                   ${rankWeights ? toRankWeightsArray(rankWeights) : '{0.1,0.2,0.4,1.0}'}::float4[] AS weights
+            FROM (${queryConfigs}) qc
+        ),
+        doc_text AS (
             SELECT 
                 d."id",
                 d."title",
@@ -113,42 +542,467 @@ async function lexicalSearchDocuments(
                 ) AS body
             FROM "Document" d
             WHERE d."tenantId" = ${tenantId}
-        )
-        SELECT dt.id,
-               dt.title,
-               COALESCE(
-                   NULLIF(
-                       ts_headline(
-                           'english',
-                           dt.body,
-                           to_tsquery('english', ${tsQuery}),
-                           'StartSel=<mark>,StopSel=</mark>,MaxFragments=1,MaxWords=50,MinWords=15,FragmentDelimiter= ... '
+            ${buildDocumentFilterSql(filters)}
+        ),
+        page AS (
+            SELECT dt.id,
+                   dt.title,
+                   COALESCE(
+                       NULLIF(
+                           ts_headline(
+                               q.cfg,
+                               dt.body,
+                               q.query,
+                               'StartSel=<mark>,StopSel=</mark>,MaxFragments=1,MaxWords=50,MinWords=15,FragmentDelimiter= ... '
+                           ),
+                           ''
                        ),
-                       ''
-                   ),
-                   LEFT(dt.body, 280)
-               ) AS snippet,
-               ts_rank_cd(d."searchVector", to_tsquery('english', ${tsQuery}), 32) AS score,
-               COUNT(*) OVER()::int AS total
-        FROM doc_text dt
-        JOIN "Document" d ON d."id" = dt.id
-        WHERE d."searchVector" @@ to_tsquery('english', ${tsQuery})
-        ORDER BY score DESC, d."createdAt" DESC
-        LIMIT ${limit}
-        OFFSET ${offset};
+                       LEFT(dt.body, 280)
+                   ) AS snippet,
+                   -- 1: damp long documents so passing mentions don't outrank focused ones
+                   -- 32: scale into 0..1
+                   ts_rank_cd(q.weights, d."searchVector", q.query, 1 | 32) AS score,
+                   COUNT(*) OVER()::int AS total,
+                   d."createdAt",
+                   q.cfg,
+                   q.query
+            FROM doc_text dt
+            JOIN "Document" d ON d."id" = dt.id
+            JOIN q ON q.cfg = ${documentConfigSql(textSearchConfig)}
+            WHERE d."searchVector" @@ q.query
+            ${buildTitleMatchSql(textQuery)}
+            ORDER BY score DESC, d."createdAt" DESC
+            LIMIT ${limit}
+            OFFSET ${offset}
+        )
+        -- best matching chunk per hit, ranked only for the returned page
+        SELECT p.id,
+               p.title,
+               p.snippet,
+               p.score,
+               p.total,
+               bc."idx" AS passage_idx,
+               bc."headingPath" AS passage_heading_path,
+               bc."startPos" AS passage_start,
+               bc."endPos" AS passage_end
+        FROM page p
+        LEFT JOIN LATERAL (
+            SELECT dc."idx", dc."headingPath", dc."startPos", dc."endPos"
+            FROM "DocumentChunk" dc
+            WHERE dc."documentId" = p.id
+            ORDER BY ts_rank_cd(to_tsvector(p.cfg, cjk_bigrams(dc."content")), p.query) DESC,
+                     dc."idx"
+            LIMIT 1
+        ) bc ON true
+        ORDER BY p.score DESC, p."createdAt" DESC;
     `;
 
     const total = rows[0]?.total ?? 0;
-    const items = rows.map(({ id, title, snippet, score }) => ({
-        id,
-        title,
-        snippet: snippet || null, // Convert empty string to null
-        score,
+    const items = rows.map((row) => ({
+        id: row.id,
+        title: row.title,
+        snippet: row.snippet || null, // Convert empty string to null
+        score: row.score,
+        passage: toChunkPassage(row),
     }));
 
     return { items, total };
 }
 
+export interface LexicalChunkHit {
+    chunkId: string;
+    documentId: string;
+    documentTitle: string;
+    idx: number;
+    content: string;
+    headingPath: string[] | null;
+    startPos: number | null;
+    endPos: number | null;
+    score: number; // ts_rank_cd of the chunk, 0..1
+}
+
+// a document rarely answers a question from more than a couple of places
+const LEXICAL_CHUNKS_PER_DOCUMENT = 2;
+
+/**
+ * Full-text search at chunk level, for Q&A context. Documents are matched
+ * through the indexed searchVector first, then their chunks are ranked
+ * against the same query, so a question naming an error code or ticket
+ * number lands on the passage that mentions it.
+ */
+async function lexicalSearchChunks(
+    tenantId: string,
+    textQuery: TextQuery,
+    limit: number,
+    filters?: SearchFilterOptions,
+    textSearchConfig = 'english'
+): Promise<LexicalChunkHit[]> {
+    const queryConfigs = buildQueryConfigsSql(
+        tenantId,
+        textQuery,
+        textSearchConfig
+    );
+
+    if (!queryConfigs) {
+        return [];
+    }
+
+    const rows = await prisma.$queryRaw<LexicalChunkHit[]>`
+        WITH q AS (${queryConfigs}),
+        docs AS (
+            SELECT d."id",
+                   d."title",
+                   q.cfg,
+                   q.query,
+                   ts_rank_cd(d."searchVector", q.query, 1 | 32) AS score
+            FROM "Document" d
+            JOIN q ON q.cfg = ${documentConfigSql(textSearchConfig)}
+            WHERE d."tenantId" = ${tenantId}
+              AND d."searchVector" @@ q.query
+              ${buildDocumentFilterSql(filters)}
+              ${buildTitleMatchSql(textQuery)}
+            ORDER BY score DESC
+            LIMIT ${limit}
+        )
+        SELECT dc."id" AS "chunkId",
+               dc."documentId",
+               docs."title" AS "documentTitle",
+               dc."idx",
+               dc."content",
+               dc."headingPath",
+               dc."startPos",
+               dc."endPos",
+               c.score
+        FROM docs
+        CROSS JOIN LATERAL (
+            SELECT cc."id",
+                   ts_rank_cd(to_tsvector(docs.cfg, cjk_bigrams(cc."content")), docs.query, 32) AS score
+            FROM "DocumentChunk" cc
+            WHERE cc."documentId" = docs."id"
+              AND to_tsvector(docs.cfg, cjk_bigrams(cc."content")) @@ docs.query
+            ORDER BY score DESC, cc."idx"
+            LIMIT ${LEXICAL_CHUNKS_PER_DOCUMENT}
+        ) c
+        JOIN "DocumentChunk" dc ON dc."id" = c."id"
+        ORDER BY c.score DESC, docs.score DESC
+        LIMIT ${limit};
+    `;
+
+    return rows.map((row) => ({ ...row, score: Number(row.score) }));
+}
+
+/**
+ * Typo-tolerant fallback for queries the tsquery barely matches.
+ * Uses pg_trgm word similarity against titles and chunk content, so
+ * "kuberentes" still finds documents about kubernetes. Needs the trigram
+ * indexes from prisma/manual-migrations/05_pg_trgm.sql.
+ */
+async function fuzzySearchDocuments(
+    tenantId: string,
+    text: string,
+    limit: number,
+    filters?: SearchFilterOptions,
+    excludeDocumentIds: string[] = []
+): Promise<LexicalSearchResultItem[]> {
+    const exclude =
+        excludeDocumentIds.length > 0
+            ? Prisma.sql`AND d."id" NOT IN (${Prisma.join(excludeDocumentIds)})`
+            : Prisma.empty;
+
+    const rows = await prisma.$queryRaw<
+        (Omit<LexicalSearchResultItem, 'passage'> & PassageColumns)[]
+    >`
+        WITH candidates AS (
+            SELECT d."id",
+                   d."title",
+                   NULL::text AS snippet,
+                   word_similarity(${text}, d."title") AS score,
+                   NULL::int AS passage_idx,
+                   NULL::jsonb AS passage_heading_path,
+                   NULL::int AS passage_start,
+                   NULL::int AS passage_end
+            FROM "Document" d
+            WHERE d."tenantId" = ${tenantId}
+              AND ${text} <% d."title"
+            ${exclude}
+            ${buildDocumentFilterSql(filters)}
+            UNION ALL
+            SELECT d."id",
+                   d."title",
+                   LEFT(dc."content", 280) AS snippet,
+                   word_similarity(${text}, dc."content") AS score,
+                   dc."idx",
+                   dc."headingPath",
+                   dc."startPos",
+                   dc."endPos"
+            FROM "DocumentChunk" dc
+            JOIN "Document" d ON d."id" = dc."documentId"
+            WHERE dc."tenantId" = ${tenantId}
+              AND ${text} <% dc."content"
+            ${exclude}
+            ${buildDocumentFilterSql(filters)}
+        ),
+        best AS (
+            -- best match per document; prefer a body snippet on ties
+            SELECT DISTINCT ON (c."id") c.*
+            FROM candidates c
+            ORDER BY c."id", c.score DESC, c.snippet NULLS LAST
+        )
+        SELECT *
+        FROM best
+        ORDER BY score DESC
+        LIMIT ${limit};
+    `;
+
+    return rows.map((row) => ({
+        id: row.id,
+        title: row.title,
+        snippet: row.snippet,
+        score: row.score,
+        passage: toChunkPassage(row),
+    }));
+}
+
+export interface TermCorrection {
+    term: string;
+    suggestion: string;
+}
+
+/**
+ * Closest words from the tenant's own vocabulary for terms it doesn't contain.
+ * Terms that appear in any document are left alone; ties on similarity go to
+ * the word used by more documents.
+ */
+async function suggestTermCorrections(
+    tenantId: string,
+    terms: string[]
+): Promise<TermCorrection[]> {
+    if (terms.length === 0) {
+        return [];
+    }
+
+    return prisma.$queryRaw<TermCorrection[]>`
+        SELECT input.term, best.term AS suggestion
+        FROM unnest(${terms.map((term) => term.toLowerCase())}::text[]) AS input(term)
+        CROSS JOIN LATERAL (
+            SELECT dt."term", COUNT(*) AS documents
+            FROM "DocumentTerm" dt
+            WHERE dt."tenantId" = ${tenantId}
+              AND dt."term" % input.term
+            GROUP BY dt."term"
+            ORDER BY similarity(dt."term", input.term) DESC, documents DESC
+            LIMIT 1
+        ) best
+        WHERE best.term <> input.term
+          AND NOT EXISTS (
+              SELECT 1 FROM "DocumentTerm" known
+              WHERE known."tenantId" = ${tenantId}
+                AND known."term" = input.term
+          );
+    `;
+}
+
+export interface SearchSuggestionsResult {
+    documents: { id: string; title: string }[];
+    tags: { id: string; name: string; color: string | null }[];
+    recentQueries: string[];
+}
+
+// escape LIKE wildcards so user input only ever matches literally
+function escapeLikePattern(value: string): string {
+    return value.replace(/[\\%_]/g, '\\$&');
+}
+
+/**
+ * Cheap completions for search-as-you-type: titles with a word starting with
+ * the prefix (title trigram index), tags and the user's own recent queries.
+ */
+async function getSearchSuggestions(
+    tenantId: string,
+    userId: string,
+    prefix: string,
+    limit = 5
+): Promise<SearchSuggestionsResult> {
+    const startsWith = `${escapeLikePattern(prefix)}%`;
+    const wordStartsWith = `% ${startsWith}`;
+
+    const [documents, tags, recentQueries] = await Promise.all([
+        prisma.$queryRaw<{ id: string; title: string }[]>`
+            SELECT d."id", d."title"
+            FROM "Document" d
+            WHERE d."tenantId" = ${tenantId}
+              AND d."archivedAt" IS NULL
+              AND (d."title" ILIKE ${startsWith} OR d."title" ILIKE ${wordStartsWith})
+            ORDER BY (d."title" ILIKE ${startsWith}) DESC, d."updatedAt" DESC
+            LIMIT ${limit}
+        `,
+        prisma.tag.findMany({
+            where: {
+                tenantId,
+                name: { startsWith: prefix, mode: 'insensitive' },
+            },
+            select: { id: true, name: true, color: true },
+            orderBy: { name: 'asc' },
+            take: limit,
+        }),
+        prisma.$queryRaw<{ query: string }[]>`
+            SELECT r."query"
+            FROM (
+                SELECT DISTINCT ON (lower(sl."query")) sl."query", sl."createdAt"
+                FROM "SearchLog" sl
+                WHERE sl."tenantId" = ${tenantId}
+                  AND sl."userId" = ${userId}
+                  AND sl."status" = 'success'
+                  AND sl."createdAt" >= now() - interval '90 days'
+                  AND sl."query" ILIKE ${startsWith}
+                ORDER BY lower(sl."query"), sl."createdAt" DESC
+            ) r
+            ORDER BY r."createdAt" DESC
+            LIMIT ${limit}
+        `,
+    ]);
+
+    return {
+        documents,
+        tags,
+        recentQueries: recentQueries.map((row) => row.query),
+    };
+}
+
+export interface TagFacetRow {
+    id: string;
+    name: string;
+    color: string | null;
+    count: number;
+}
+
+export interface CreatorFacetRow {
+    id: string;
+    name: string | null;
+    count: number;
+}
+
+export type UpdatedAtBucketName = 'day' | 'week' | 'month' | 'year' | 'older';
+
+export type UpdatedAtRange = Pick<
+    SearchFilterOptions,
+    'updatedAfter' | 'updatedBefore'
+>;
+
+export interface UpdatedAtFacetRow {
+    bucket: UpdatedAtBucketName;
+    count: number;
+}
+
+export interface SearchFacetsResult {
+    tags: TagFacetRow[];
+    creators: CreatorFacetRow[];
+    updatedAt: UpdatedAtFacetRow[];
+}
+
+/**
+ * Compute facet counts over every document matching the query, not just a page.
+ * The matched set is the lexical match set plus any extra document ids
+ * (e.g. semantic-only hits from hybrid search), narrowed by the same filters.
+ * updatedAt is counted per window in `updatedAtRanges`; windows may overlap.
+ */
+async function getSearchFacets(
+    tenantId: string,
+    textQuery: TextQuery,
+    filters?: SearchFilterOptions,
+    additionalDocumentIds: string[] = [],
+    textSearchConfig = 'english',
+    updatedAtRanges: Partial<Record<UpdatedAtBucketName, UpdatedAtRange>> = {},
+    limit = 10
+): Promise<SearchFacetsResult> {
+    const queryConfigs = buildQueryConfigsSql(
+        tenantId,
+        textQuery,
+        textSearchConfig
+    );
+
+    const matchConditions: Prisma.Sql[] = [];
+    if (queryConfigs) {
+        matchConditions.push(
+            Prisma.sql`(d."searchVector" @@ q.query ${buildTitleMatchSql(textQuery)})`
+        );
+    }
+    if (additionalDocumentIds.length > 0) {
+        matchConditions.push(
+            Prisma.sql`d."id" IN (${Prisma.join(additionalDocumentIds)})`
+        );
+    }
+
+    if (matchConditions.length === 0) {
+        return { tags: [], creators: [], updatedAt: [] };
+    }
+
+    const matched = Prisma.sql`
+        ${queryConfigs ? Prisma.sql`WITH q AS (${queryConfigs})` : Prisma.empty}
+        SELECT d."id", d."createdById", d."updatedAt"
+        FROM "Document" d
+        ${queryConfigs ? Prisma.sql`LEFT JOIN q ON q.cfg = ${documentConfigSql(textSearchConfig)}` : Prisma.empty}
+        WHERE d."tenantId" = ${tenantId}
+          AND (${Prisma.join(matchConditions, ' OR ')})
+        ${buildDocumentFilterSql(filters)}
+    `;
+
+    const bucketQueries = Object.entries(updatedAtRanges).map(
+        ([bucket, range]) => {
+            const bounds = buildUpdatedAtRangeSql(range);
+            return Prisma.sql`
+                SELECT ${bucket}::text AS bucket, COUNT(*)::int AS count
+                FROM matched d
+                WHERE TRUE ${bounds.length > 0 ? Prisma.join(bounds, ' ') : Prisma.empty}`;
+        }
+    );
+
+    const [tags, creators, bucketCounts] = await Promise.all([
+        prisma.$queryRaw<TagFacetRow[]>`
+            WITH matched AS (${matched})
+            SELECT t."id", t."name", t."color", COUNT(*)::int AS count
+            FROM matched m
+            JOIN "DocumentTag" dt ON dt."documentId" = m."id"
+            JOIN "Tag" t ON t."id" = dt."tagId"
+            GROUP BY t."id", t."name", t."color"
+            ORDER BY count DESC, t."name" ASC
+            LIMIT ${limit}
+        `,
+        prisma.$queryRaw<CreatorFacetRow[]>`
+            WITH matched AS (${matched})
+            SELECT u."id", u."name", COUNT(*)::int AS count
+            FROM matched m
+            JOIN "User" u ON u."id" = m."createdById"
+            GROUP BY u."id", u."name"
+            ORDER BY count DESC, u."name" ASC
+            LIMIT ${limit}
+        `,
+        bucketQueries.length > 0
+            ? prisma.$queryRaw<UpdatedAtFacetRow[]>`
+                WITH matched AS (${matched})
+                ${Prisma.join(bucketQueries, ' UNION ALL ')}
+            `
+            : Promise.resolve([]),
+    ]);
+
+    // keep buckets in chronological order regardless of SQL grouping order
+    const bucketOrder: UpdatedAtBucketName[] = [
+        'day',
+        'week',
+        'month',
+        'year',
+        'older',
+    ];
+    const updatedAt = bucketCounts
+        .filter((row) => row.count > 0)
+        .sort(
+            (a, b) =>
+                bucketOrder.indexOf(a.bucket) - bucketOrder.indexOf(b.bucket)
+        );
+
+    return { tags, creators, updatedAt };
+}
+
 export interface DocumentDetailInfo {
     id: string;
     title: string;
@@ -178,8 +1032,11 @@ async function getDocumentDetailsByIds(
 }
 
 export interface AdjacentChunk {
+    id: string;
     idx: number;
     content: string;
+    startPos: number | null; // character range in the indexed markdown
+    endPos: number | null;
 }
 
 /**
@@ -205,8 +1062,11 @@ async function getAdjacentChunks(
             },
         },
         select: {
+            id: true,
             idx: true,
             content: true,
+            startPos: true,
+            endPos: true,
         },
         orderBy: {
             idx: 'asc',
@@ -218,8 +1078,15 @@ async function getAdjacentChunks(
 
 export const searchRepository = {
     findNearestChunks,
+    getDocumentVector,
+    findRelatedDocuments,
     getDocumentTitlesByIds,
     lexicalSearchDocuments,
+    lexicalSearchChunks,
     getDocumentDetailsByIds,
     getAdjacentChunks,
+    getSearchFacets,
+    fuzzySearchDocuments,
+    suggestTermCorrections,
+    getSearchSuggestions,
 };
@@ -1,3 +1,4 @@
+import { Prisma } from '../../generated/prisma/client.js';
 import { prisma } from '../client.js';
 
 export interface CreateSearchLogInput {
@@ -8,6 +9,8 @@ export interface CreateSearchLogInput {
     resultCount: number;
     duration: number; // milliseconds
     status: 'success' | 'error' | 'partial';
+    fusionMode?: string; // hybrid searches only
+    fusionParams?: Prisma.InputJsonObject;
 }
 
 export const searchLogRepository = {
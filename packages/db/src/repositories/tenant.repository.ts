@@ -490,6 +490,115 @@ export const tenantRepository = {
             throw error;
         }
     },
+    /**
+     * Stored lexical search settings; rank weights are raw JSON, validated by callers
+     */
+    getSearchSettings: async (tenantId: string) => {
+        return prisma.tenant.findUnique({
+            where: { id: tenantId },
+            select: {
+                searchRankWeights: true,
+                textSearchConfig: true,
+                embeddingModel: true,
+                hybridFusion: true,
+                llmModel: true,
+            },
+        });
+    },
+    /** Operator override of the daily summary token budget; null = server default */
+    getSummaryTokenBudget: async (tenantId: string) => {
+        const tenant = await prisma.tenant.findUnique({
+            where: { id: tenantId },
+            select: { summaryDailyTokenBudget: true },
+        });
+        return tenant?.summaryDailyTokenBudget ?? null;
+    },
+    /**
+     * Update search settings (lexical ranking, language, hybrid fusion, chat
+     * model). Changing the text search configuration rebuilds the searchVector
+     * of every document without a detected language.
+     */
+    updateSearchSettings: async (
+        tenantId: string,
+        settings: {
+            searchRankWeights?: Prisma.InputJsonObject | null;
+            textSearchConfig?: string;
+            hybridFusion?: Prisma.InputJsonObject | null;
+            llmModel?: string | null;
+        }
+    ) => {
+        try {
+            return await prisma.$transaction(async (tx) => {
+                const previous = await tx.tenant.findUniqueOrThrow({
+                    where: { id: tenantId },
+                    select: { textSearchConfig: true },
+                });
+
+                const tenant = await tx.tenant.update({
+                    where: { id: tenantId },
+                    data: {
+                        ...(settings.searchRankWeights !== undefined && {
+                            searchRankWeights:
+                                settings.searchRankWeights ?? Prisma.DbNull,
+                        }),
+                        ...(settings.textSearchConfig !== undefined && {
+                            textSearchConfig: settings.textSearchConfig,
+                        }),
+                        ...(settings.hybridFusion !== undefined && {
+                            hybridFusion:
+                                settings.hybridFusion ?? Prisma.DbNull,
+                        }),
+                        ...(settings.llmModel !== undefined && {
+                            llmModel: settings.llmModel,
+                        }),
+                    },
+                    select: {
+                        searchRankWeights: true,
+                        textSearchConfig: true,
+                        hybridFusion: true,
+                        llmModel: true,
+                    },
+                });
+
+                if (tenant.textSearchConfig !== previous.textSearchConfig) {
+                    await tx.$executeRaw`
+                        UPDATE "Document" d
+                        SET "searchVector" = document_search_vector(
+                            d."id",
+                            d."title",
+                            d."content",
+                            resolve_text_search_config(${tenant.textSearchConfig})
+                        )
+                        WHERE d."tenantId" = ${tenantId}
+                          AND d."textSearchConfig" IS NULL
+                    `;
+                }
+
+                return tenant;
+            });
+        } catch (error) {
+            if (
+                error instanceof Prisma.PrismaClientKnownRequestError &&
+                error.code === 'P2025'
+            ) {
+                throw AppError.notFound(
+                    'TENANT_NOT_FOUND',
+                    'Tenant not found',
+                    {
+                        context: {
+                            origin: 'database',
+                            domain: 'tenants',
+                            resource: 'Tenant',
+                            resourceId: tenantId,
+                            operation: 'updateSearchSettings',
+                        },
+                    }
+                );
+            }
+
+            throw error;
+        }
+    },
     getActivity: async ({ tenantId }: { tenantId: string }) => {
         try {
             const activities = { tenantId };
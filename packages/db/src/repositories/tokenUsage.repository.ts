@@ -0,0 +1,65 @@
+import { prisma } from '../client.js';
+
+// usage is bucketed by UTC day
+function utcDay(at: Date): Date {
+    return new Date(
+        Date.UTC(at.getUTCFullYear(), at.getUTCMonth(), at.getUTCDate())
+    );
+}
+
+export const tokenUsageRepository = {
+    /** Tokens a tenant spent on a feature during the UTC day of `at` */
+    getDailyUsage: async (
+        tenantId: string,
+        feature: string,
+        at: Date = new Date()
+    ) => {
+        const row = await prisma.tenantTokenUsage.findUnique({
+            where: {
+                tenantId_feature_day: { tenantId, feature, day: utcDay(at) },
+            },
+            select: { tokens: true },
+        });
+        return row?.tokens ?? 0;
+    },
+
+    record: async (
+        tenantId: string,
+        feature: string,
+        tokens: number,
+        at: Date = new Date()
+    ) => {
+        const day = utcDay(at);
+        return prisma.tenantTokenUsage.upsert({
+            where: { tenantId_feature_day: { tenantId, feature, day } },
+            create: { tenantId, feature, day, tokens },
+            update: { tokens: { increment: tokens } },
+            select: { tokens: true },
+        });
+    },
+
+    /**
+     * Add `tokens` to the day's usage only if the total stays within `limit`.
+     * The check and the increment are one statement, so concurrent callers
+     * can't both squeeze under the limit. Returns whether tokens were reserved.
+     */
+    reserve: async (
+        tenantId: string,
+        feature: string,
+        tokens: number,
+        limit: number,
+        at: Date = new Date()
+    ) => {
+        const day = utcDay(at).toISOString().slice(0, 10);
+        const rows = await prisma.$queryRaw<{ tokens: number }[]>`
+            INSERT INTO "TenantTokenUsage" ("tenantId", "feature", "day", "tokens")
+            SELECT ${tenantId}, ${feature}, ${day}::date, ${tokens}::int
+            WHERE ${tokens}::int <= ${limit}::int
+            ON CONFLICT ("tenantId", "feature", "day") DO UPDATE
+            SET "tokens" = "TenantTokenUsage"."tokens" + EXCLUDED."tokens"
+            WHERE "TenantTokenUsage"."tokens" + EXCLUDED."tokens" <= ${limit}::int
+            RETURNING "tokens"
+        `;
+        return rows.length > 0;
+    },
+};
@@ -0,0 +1,182 @@
+import { Prisma } from '../../generated/prisma/client.js';
+import { prisma } from '../client.js';
+
+/**
+ * pgvector ANN indexes on DocumentChunk.embedding.
+ *
+ * One global index serves every tenant badly: the ANN scan returns the nearest
+ * rows across all tenants and the tenant filter throws most of them away. Large
+ * tenants instead get a partial HNSW index covering only their rows, and the
+ * planner picks it whenever a query filters on that tenant. Everyone else is
+ * searched exactly through the tenantId btree, which is fast at that size.
+ */
+
+export interface VectorIndexInfo {
+    name: string;
+    method: string; // hnsw, ivfflat
+    tenantId: string | null; // null = not tenant-scoped
+    valid: boolean; // false after a failed CREATE INDEX CONCURRENTLY
+    sizeBytes: number;
+    definition: string;
+}
+
+const TENANT_ID_PATTERN = /^[A-Za-z0-9_-]{1,40}$/;
+const TENANT_INDEX_PREFIX = 'DocumentChunk_embedding_hnsw_';
+
+// DDL can't take bind parameters, so the id is inlined only after this check
+function assertSafeTenantId(tenantId: string) {
+    if (!TENANT_ID_PATTERN.test(tenantId)) {
+        throw new Error(
+            `Refusing to build index DDL for tenant id ${tenantId}`
+        );
+    }
+}
+
+function tenantIndexName(tenantId: string): string {
+    assertSafeTenantId(tenantId);
+    return `${TENANT_INDEX_PREFIX}${tenantId}`;
+}
+
+/**
+ * Every ANN index on DocumentChunk, with validity and on-disk size
+ */
+async function listIndexes(): Promise<VectorIndexInfo[]> {
+    const rows = await prisma.$queryRaw<
+        {
+            name: string;
+            method: string;
+            valid: boolean;
+            sizeBytes: bigint;
+            definition: string;
+        }[]
+    >`
+        SELECT c.relname AS name,
+               am.amname AS method,
+               i.indisvalid AS valid,
+               pg_relation_size(c.oid) AS "sizeBytes",
+               pg_get_indexdef(c.oid) AS definition
+        FROM pg_index i
+        JOIN pg_class c ON c.oid = i.indexrelid
+        JOIN pg_am am ON am.oid = c.relam
+        WHERE i.indrelid = '"DocumentChunk"'::regclass
+          AND am.amname IN ('hnsw', 'ivfflat')
+        ORDER BY c.relname
+    `;
+
+    return rows.map((row) => ({
+        ...row,
+        sizeBytes: Number(row.sizeBytes),
+        tenantId: row.name.startsWith(TENANT_INDEX_PREFIX)
+            ? row.name.slice(TENANT_INDEX_PREFIX.length)
+            : null,
+    }));
+}
+
+/**
+ * True when the tenant has a usable partial HNSW index
+ */
+async function hasTenantIndex(tenantId: string): Promise<boolean> {
+    const [row] = await prisma.$queryRaw<{ exists: boolean }[]>`
+        SELECT EXISTS (
+            SELECT 1
+            FROM pg_class c
+            JOIN pg_index i ON i.indexrelid = c.oid
+            WHERE c.relname = ${tenantIndexName(tenantId)}
+              AND i.indisvalid
+        ) AS exists
+    `;
+    return row?.exists ?? false;
+}
+
+/**
+ * Build the tenant's partial HNSW index without blocking writes.
+ * CONCURRENTLY can't run inside a transaction, so this must not be wrapped in one.
+ * A failed build leaves an invalid index behind; it is dropped and rebuilt here.
+ */
+async function createTenantIndex(
+    tenantId: string,
+    {
+        m = 16,
+        efConstruction = 64,
+    }: { m?: number; efConstruction?: number } = {}
+) {
+    const name = tenantIndexName(tenantId);
+    if (!Number.isInteger(m) || !Number.isInteger(efConstruction)) {
+        throw new Error('HNSW build parameters must be integers');
+    }
+
+    await prisma.$executeRawUnsafe(
+        `DROP INDEX CONCURRENTLY IF EXISTS "${name}"`
+    );
+    await prisma.$executeRawUnsafe(`
+        CREATE INDEX CONCURRENTLY "${name}"
+        ON "DocumentChunk"
+        USING hnsw ("embedding" vector_cosine_ops)
+        WITH (m = ${m}, ef_construction = ${efConstruction})
+        WHERE "tenantId" = '${tenantId}'
+    `);
+}
+
+async function dropTenantIndex(tenantId: string) {
+    await prisma.$executeRawUnsafe(
+        `DROP INDEX CONCURRENTLY IF EXISTS "${tenantIndexName(tenantId)}"`
+    );
+}
+
+/**
+ * Declared size of DocumentChunk.embedding, e.g. 1024 for vector(1024).
+ * HNSW needs a fixed size, so unlike DocumentChunkEmbedding the primary column
+ * keeps one; null if it has none.
+ */
+async function getEmbeddingDimensions(): Promise<number | null> {
+    const rows = await prisma.$queryRaw<{ dimensions: number }[]>`
+        SELECT a.atttypmod AS dimensions
+        FROM pg_attribute a
+        WHERE a.attrelid = '"DocumentChunk"'::regclass
+          AND a.attname = 'embedding'
+    `;
+    const dimensions = rows[0]?.dimensions ?? -1;
+    return dimensions > 0 ? dimensions : null;
+}
+
+/**
+ * Primary-column chunk counts per tenant, largest first
+ */
+async function countChunksByTenant(limit = 100) {
+    const rows = await prisma.$queryRaw<{ tenantId: string; chunks: bigint }[]>`
+        SELECT "tenantId", COUNT(*) AS chunks
+        FROM "DocumentChunk"
+        GROUP BY "tenantId"
+        ORDER BY chunks DESC
+        LIMIT ${limit}
+    `;
+    return rows.map((row) => ({
+        tenantId: row.tenantId,
+        chunks: Number(row.chunks),
+    }));
+}
+
+/**
+ * Session settings for one ANN query; only meaningful inside a transaction.
+ * strict_order iterative scans (pgvector >= 0.8) keep fetching candidates until
+ * document filters are satisfied, instead of returning fewer than `limit` rows.
+ * A generic plan for a prepared statement can't match a partial index predicate,
+ * so custom plans are forced as well.
+ */
+export function annSettingsSql(efSearch: number): Prisma.Sql {
+    return Prisma.sql`
+        SELECT set_config('hnsw.ef_search', ${String(efSearch)}, true),
+               set_config('hnsw.iterative_scan', 'strict_order', true),
+               set_config('plan_cache_mode', 'force_custom_plan', true)
+    `;
+}
+
+export const vectorIndexRepository = {
+    listIndexes,
+    hasTenantIndex,
+    createTenantIndex,
+    dropTenantIndex,
+    countChunksByTenant,
+    getEmbeddingDimensions,
+    tenantIndexName,
+};
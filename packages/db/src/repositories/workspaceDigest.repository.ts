@@ -0,0 +1,127 @@
+import type { Prisma } from '../../generated/prisma/client.js';
+import { prisma } from '../client.js';
+
+export interface DigestPeriod {
+    start: Date;
+    end: Date; // exclusive
+}
+
+export interface WorkspaceDigestInput {
+    summary: string;
+    activity: Prisma.InputJsonValue;
+    model: string;
+}
+
+export const workspaceDigestRepository = {
+    /**
+     * Worker: tenants with documents changed or searches run during the period
+     * and no digest for it yet, so a retried run picks up where it stopped
+     */
+    listTenantsToDigest: async ({ start, end }: DigestPeriod) => {
+        const during = { gte: start, lt: end };
+        return prisma.tenant.findMany({
+            where: {
+                digests: { none: { periodStart: start } },
+                OR: [
+                    {
+                        documents: {
+                            some: { updatedAt: during, archivedAt: null },
+                        },
+                    },
+                    { searchLogs: { some: { createdAt: during } } },
+                ],
+            },
+            select: { id: true, name: true, llmModel: true },
+            orderBy: { id: 'asc' },
+        });
+    },
+
+    /**
+     * Worker: documents created or edited during the period, most recent
+     * first, with totals for the whole period
+     */
+    getDocumentActivity: async (
+        tenantId: string,
+        { start, end }: DigestPeriod,
+        limit = 20
+    ) => {
+        const during = { gte: start, lt: end };
+        const [created, updated, documents] = await Promise.all([
+            prisma.document.count({
+                where: { tenantId, archivedAt: null, createdAt: during },
+            }),
+            prisma.document.count({
+                where: {
+                    tenantId,
+                    archivedAt: null,
+                    createdAt: { lt: start },
+                    updatedAt: during,
+                },
+            }),
+            prisma.document.findMany({
+                where: { tenantId, archivedAt: null, updatedAt: during },
+                orderBy: { updatedAt: 'desc' },
+                take: limit,
+                select: {
+                    id: true,
+                    title: true,
+                    createdAt: true,
+                    updatedAt: true,
+                },
+            }),
+        ]);
+        return { created, updated, documents };
+    },
+
+    /**
+     * Worker: search count and most frequent queries during the period
+     * (case and surrounding whitespace ignored)
+     */
+    getSearchActivity: async (
+        tenantId: string,
+        { start, end }: DigestPeriod,
+        limit = 5
+    ) => {
+        const [total, topQueries] = await Promise.all([
+            prisma.searchLog.count({
+                where: { tenantId, createdAt: { gte: start, lt: end } },
+            }),
+            prisma.$queryRaw<{ query: string; count: number }[]>`
+                SELECT LOWER(TRIM(query)) AS query, COUNT(*)::int AS count
+                FROM "SearchLog"
+                WHERE "tenantId" = ${tenantId}
+                  AND "createdAt" >= ${start}
+                  AND "createdAt" < ${end}
+                  AND LENGTH(TRIM(query)) >= 2
+                GROUP BY LOWER(TRIM(query))
+                ORDER BY count DESC, query ASC
+                LIMIT ${limit}
+            `,
+        ]);
+        return { total, topQueries };
+    },
+
+    /**
+     * Store the digest for a period, replacing an earlier one
+     */
+    save: async (
+        tenantId: string,
+        { start, end }: DigestPeriod,
+        data: WorkspaceDigestInput
+    ) => {
+        return prisma.workspaceDigest.upsert({
+            where: { tenantId_periodStart: { tenantId, periodStart: start } },
+            create: { tenantId, periodStart: start, periodEnd: end, ...data },
+            update: { periodEnd: end, ...data },
+        });
+    },
+
+    /** Most recent weeks first */
+    listForTenant: async (tenantId: string, limit = 4) => {
+        return prisma.workspaceDigest.findMany({
+            where: { tenantId },
+            orderBy: { periodStart: 'desc' },
+            take: limit,
+        });
+    },
+};
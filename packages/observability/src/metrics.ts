@@ -68,6 +68,20 @@ export const metrics = {
         labelNames: ['job_type', 'error_code'],
     }),
 
+    // How often search reuses a cached query embedding, rerank result or document vector
+    searchCacheHits: new client.Counter({
+        name: 'search_cache_hits_total',
+        help: 'Total search cache hits',
+        labelNames: ['cache'], // query_embedding, rerank, document_vector
+    }),
+
+    // How often search had to call the provider (includes bypassed lookups)
+    searchCacheMisses: new client.Counter({
+        name: 'search_cache_misses_total',
+        help: 'Total search cache misses',
+        labelNames: ['cache'], // query_embedding, rerank, document_vector
+    }),
+
     // How long background jobs take to process
     jobDuration: new client.Histogram({
         name: 'job_duration_seconds',
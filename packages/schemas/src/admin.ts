@@ -178,3 +178,40 @@ export const QueueStatusQuerySchema = z.object({
         .transform((val) => val === 'true'),
 });
 export type QueueStatusQuery = z.infer<typeof QueueStatusQuerySchema>;
+
+// ===== Vector Index Health =====
+
+export const VectorIndexSchema = z.object({
+    name: z.string(),
+    method: z.string(),
+    tenantId: z.string().nullable(),
+    valid: z.boolean(),
+    sizeBytes: z.number().int().nonnegative(),
+    definition: z.string(),
+});
+export type VectorIndex = z.infer<typeof VectorIndexSchema>;
+
+export const VectorIndexRecommendationSchema = z.enum([
+    'ok',
+    'create_tenant_index', // tenant outgrew exact search
+    'drop_tenant_index', // tenant shrank below the threshold
+    'rebuild_invalid_index', // an interrupted concurrent build left it unusable
+]);
+export type VectorIndexRecommendation = z.infer<
+    typeof VectorIndexRecommendationSchema
+>;
+
+// "exact" tenants are searched without an ANN index
+export const VectorIndexHealthResponseSchema = z.object({
+    tenantId: z.string(),
+    strategy: z.enum(['hnsw', 'exact']),
+    chunkCount: z.number().int().nonnegative(),
+    threshold: z.number().int().nonnegative(),
+    efSearch: z.number().int().positive(),
+    tenantIndex: VectorIndexSchema.nullable(),
+    globalIndexes: z.array(VectorIndexSchema),
+    recommendation: VectorIndexRecommendationSchema,
+});
+export type VectorIndexHealthResponse = z.infer<
+    typeof VectorIndexHealthResponseSchema
+>;
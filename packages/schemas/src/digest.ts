@@ -0,0 +1,91 @@
+import { z } from 'zod';
+import { Id, IsoDate } from './common.js';
+
+/**
+ * Weekly workspace digests: what changed in a workspace over a week, written
+ * up by the worker every Monday
+ */
+
+export const DigestDocumentSchema = z.object({
+    id: Id,
+    title: z.string(),
+    change: z.enum(['created', 'updated']).meta({
+        description: 'Whether the document was new this week or edited',
+        example: 'updated',
+    }),
+    updatedAt: IsoDate,
+});
+
+export const DigestSearchSchema = z.object({
+    query: z.string(),
+    count: z.number().int().min(1),
+});
+
+export const DigestReminderSchema = z.object({
+    documentId: Id,
+    documentTitle: z.string(),
+    whenText: z.string().meta({
+        description: 'The reminder as written in the document',
+        example: 'next Friday',
+    }),
+    dueAt: IsoDate,
+});
+
+export const WorkspaceDigestActivitySchema = z.object({
+    documentsCreated: z.number().int().min(0),
+    documentsUpdated: z.number().int().min(0).meta({
+        description: 'Edited this week but created earlier',
+    }),
+    searches: z.number().int().min(0),
+    overdueReminders: z.number().int().min(0).meta({
+        description: 'Reminders past due and not done when the digest was made',
+    }),
+    documents: z.array(DigestDocumentSchema).meta({
+        description: 'Most recently changed documents',
+    }),
+    topSearches: z.array(DigestSearchSchema),
+    reminders: z.array(DigestReminderSchema).meta({
+        description: 'Overdue reminders, longest overdue first',
+    }),
+});
+
+export const WorkspaceDigestSchema = z.object({
+    id: Id,
+    periodStart: IsoDate.meta({
+        description: 'Start of the week covered (Monday 00:00 UTC)',
+    }),
+    periodEnd: IsoDate.meta({
+        description: 'End of the week covered, exclusive',
+    }),
+    summary: z.string().meta({
+        description: 'Generated write-up of the week',
+    }),
+    activity: WorkspaceDigestActivitySchema,
+    createdAt: IsoDate,
+});
+
+export const DigestParams = z.object({
+    tenantId: Id,
+});
+
+export const ListDigestsQuery = z.object({
+    limit: z.coerce.number().int().min(1).max(52).default(4).meta({
+        description: 'Number of weeks to return, most recent first',
+        example: 4,
+    }),
+});
+
+export const DigestListResponse = z.object({
+    digests: z.array(WorkspaceDigestSchema),
+});
+
+export type DigestDocument = z.infer<typeof DigestDocumentSchema>;
+export type DigestSearch = z.infer<typeof DigestSearchSchema>;
+export type DigestReminder = z.infer<typeof DigestReminderSchema>;
+export type WorkspaceDigestActivity = z.infer<
+    typeof WorkspaceDigestActivitySchema
+>;
+export type WorkspaceDigest = z.infer<typeof WorkspaceDigestSchema>;
+export type DigestParams = z.infer<typeof DigestParams>;
+export type ListDigestsQuery = z.infer<typeof ListDigestsQuery>;
+export type DigestListResponse = z.infer<typeof DigestListResponse>;
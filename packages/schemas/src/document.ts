@@ -272,6 +272,16 @@ export type ReindexDocumentResponseType = z.infer<
     typeof reindexDocumentResponseSchema
 >;
 
+// Regenerate summary endpoint
+export const summarizeDocumentResponseSchema = z.object({
+    message: z.string(),
+    jobId: z.string(),
+});
+
+export type SummarizeDocumentResponseType = z.infer<
+    typeof summarizeDocumentResponseSchema
+>;
+
 export const documentCommandPayloadSchema = z
     .record(z.string(), z.any())
     .describe('Structured representation of an inline document command');
@@ -421,3 +431,40 @@ export const dismissReminderResponseSchema = z.object({
 export type DismissReminderResponseType = z.infer<
     typeof dismissReminderResponseSchema
 >;
+
+// Related documents ("more like this")
+export const getRelatedDocumentsQuerySchema = z.object({
+    limit: z.coerce.number().int().min(1).max(20).default(5).meta({
+        description: 'Maximum number of related documents',
+        example: 5,
+    }),
+});
+
+export type GetRelatedDocumentsQueryType = z.infer<
+    typeof getRelatedDocumentsQuerySchema
+>;
+
+export const relatedDocumentSchema = z.object({
+    id: Id,
+    title: documentSchema.shape.title,
+    score: z.number().meta({
+        description:
+            'Cosine similarity between the document and the closest passage of the related document',
+        example: 0.82,
+    }),
+});
+
+export type RelatedDocumentType = z.infer<typeof relatedDocumentSchema>;
+
+export const getRelatedDocumentsResponseSchema = z.object({
+    items: z.array(relatedDocumentSchema),
+    status: z.enum(['ok', 'not_indexed']).meta({
+        description:
+            'not_indexed: the document has no vectors from the workspace embedding model yet',
+        example: 'ok',
+    }),
+});
+
+export type GetRelatedDocumentsResponseType = z.infer<
+    typeof getRelatedDocumentsResponseSchema
+>;
@@ -0,0 +1,74 @@
+import { z } from 'zod';
+import { Id, IsoDate } from './common.js';
+
+/**
+ * Near-duplicate documents: pairs the worker flags within a workspace for an
+ * owner or admin to merge, archive, or dismiss
+ */
+
+export const DuplicateStatus = z.enum(['open', 'dismissed', 'resolved']);
+
+export const DuplicateParams = z.object({
+    id: Id,
+});
+
+export const ListDuplicatesQuery = z.object({
+    status: DuplicateStatus.default('open').meta({
+        description: 'Review status to list',
+        example: 'open',
+    }),
+});
+
+export const ResolveDuplicatePayload = z
+    .object({
+        action: z.enum(['merge', 'archive']).meta({
+            description:
+                'archive: archive the other document. merge: copy its tags and favorites onto the kept document first, then archive it',
+            example: 'merge',
+        }),
+        keepDocumentId: Id.meta({
+            description: 'The document of the pair that stays active',
+            example: 'doc_123',
+        }),
+    })
+    .strict();
+
+export const DuplicateDocumentSchema = z.object({
+    id: Id,
+    title: z.string(),
+    updatedAt: IsoDate,
+    createdByName: z.string().nullable(),
+});
+
+export const DocumentDuplicateSchema = z.object({
+    id: Id,
+    documents: z.tuple([DuplicateDocumentSchema, DuplicateDocumentSchema]),
+    similarity: z.number().min(0).max(1).meta({
+        description:
+            'Share of passages with a near-identical counterpart in the other document',
+        example: 0.92,
+    }),
+    exactMatch: z.boolean().meta({
+        description: 'Both documents have identical content',
+    }),
+    status: DuplicateStatus,
+    detectedAt: IsoDate,
+    resolvedAt: IsoDate.nullable(),
+});
+
+export const DuplicateListResponse = z.object({
+    duplicates: z.array(DocumentDuplicateSchema),
+});
+
+export const DuplicateResponse = z.object({
+    duplicate: DocumentDuplicateSchema,
+});
+
+export type DuplicateStatus = z.infer<typeof DuplicateStatus>;
+export type DuplicateParams = z.infer<typeof DuplicateParams>;
+export type ListDuplicatesQuery = z.infer<typeof ListDuplicatesQuery>;
+export type ResolveDuplicatePayload = z.infer<typeof ResolveDuplicatePayload>;
+export type DuplicateDocument = z.infer<typeof DuplicateDocumentSchema>;
+export type DocumentDuplicate = z.infer<typeof DocumentDuplicateSchema>;
+export type DuplicateListResponse = z.infer<typeof DuplicateListResponse>;
+export type DuplicateResponse = z.infer<typeof DuplicateResponse>;
@@ -13,3 +13,6 @@ export * from './errors.js';
 export * from './tag.js';
 export * from './admin.js';
 export * from './qa.js';
+export * from './savedSearch.js';
+export * from './duplicate.js';
+export * from './digest.js';
@@ -8,6 +8,11 @@ export const JOBS = {
     INDEX_DOCUMENT: 'index-document',
     SEND_REMINDER: 'send-reminder',
     SYNC_STALE_DOCUMENTS: 'sync-stale-documents',
+    REEMBED_TENANT: 'reembed-tenant',
+    RUN_SAVED_SEARCHES: 'run-saved-searches',
+    DETECT_DUPLICATES: 'detect-duplicates',
+    SUMMARIZE_DOCUMENT: 'summarize-document',
+    GENERATE_DIGESTS: 'generate-digests',
 } as const;
 
 /**
@@ -52,3 +57,76 @@ export type SendReminderJob = z.infer<typeof SendReminderJobSchema>;
 export const SyncStaleDocumentsJobSchema = z.object({});
 
 export type SyncStaleDocumentsJob = z.infer<typeof SyncStaleDocumentsJobSchema>;
+
+/**
+ * Re-embed every chunk of a tenant with the migration's target model
+ */
+export const ReembedTenantJobSchema = z.object({
+    tenantId: Id.meta({
+        description: 'The Tenant Id whose chunks are re-embedded',
+        example: 'tenant_123',
+    }),
+    migrationId: Id.meta({
+        description: 'The EmbeddingMigration Id tracking progress',
+        example: 'emig_123',
+    }),
+});
+
+export type ReembedTenantJob = z.infer<typeof ReembedTenantJobSchema>;
+
+/**
+ * Run saved searches - no payload needed (picks the ones due across all tenants)
+ */
+export const RunSavedSearchesJobSchema = z.object({});
+
+export type RunSavedSearchesJob = z.infer<typeof RunSavedSearchesJobSchema>;
+
+/**
+ * Detect duplicate documents - no payload needed (scans tenants with newly indexed documents)
+ */
+export const DetectDuplicatesJobSchema = z.object({});
+
+export type DetectDuplicatesJob = z.infer<typeof DetectDuplicatesJobSchema>;
+
+/**
+ * Generate a document's summary from its chunks; queued after indexing and by
+ * manual regeneration
+ */
+export const SummarizeDocumentJobSchema = z.object({
+    tenantId: Id.meta({
+        description: 'The Tenant Id that owns the Document',
+        example: 'tenant_123',
+    }),
+    documentId: Id.meta({
+        description: 'The Document Id to summarize',
+        example: 'doc_123',
+    }),
+    force: z.boolean().optional().default(false).meta({
+        description:
+            'Regenerate even if the content is unchanged since the last summary',
+    }),
+});
+
+export type SummarizeDocumentJob = z.infer<typeof SummarizeDocumentJobSchema>;
+
+/**
+ * Summary budgeting, shared by the worker and the API's regenerate check.
+ * Usage is recorded per day in TenantTokenUsage under SUMMARY_FEATURE.
+ */
+export const SUMMARY_FEATURE = 'summary';
+// chunk text sent per summary; the opening of a long document is usually enough
+export const SUMMARY_MAX_INPUT_TOKENS = 3000;
+export const SUMMARY_MAX_REPLY_TOKENS = 200;
+// English prose averages about four characters per token
+export const SUMMARY_CHARS_PER_TOKEN = 4;
+
+export function estimateSummaryTokens(text: string): number {
+    return Math.ceil(text.length / SUMMARY_CHARS_PER_TOKEN);
+}
+
+/**
+ * Weekly workspace digests - no payload needed (covers every tenant with activity last week)
+ */
+export const GenerateDigestsJobSchema = z.object({});
+
+export type GenerateDigestsJob = z.infer<typeof GenerateDigestsJobSchema>;
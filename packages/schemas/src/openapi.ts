@@ -10,6 +10,7 @@ import {
     getDocumentListParamsSchema,
     getDocumentListResponseSchema,
     getDocumentDetailsResponseSchema,
+    getDocumentDetailsParamsSchema,
     updateDocumentTitlePayloadSchema,
     updateDocumentTitleResponseSchema,
     updateDocumentContentPayloadSchema,
@@ -17,13 +18,21 @@ import {
     updateDocumentIconPayloadSchema,
     updateDocumentIconResponseSchema,
     reindexDocumentResponseSchema,
+    summarizeDocumentResponseSchema,
+    getRelatedDocumentsQuerySchema,
+    getRelatedDocumentsResponseSchema,
     getPendingRemindersResponseSchema,
     getDocumentRemindersResponseSchema,
     dismissReminderResponseSchema,
     favoriteDocumentResponseSchema,
     unfavoriteDocumentResponseSchema,
 } from './document.js';
-import { SearchQuery, SearchResponse } from './search.js';
+import {
+    HybridSearchQuery,
+    SearchResponse,
+    SearchSuggestQuery,
+    SearchSuggestResponse,
+} from './search.js';
 import {
     CreateTenantPayload,
     CreateTenantResponse,
@@ -31,6 +40,11 @@ import {
     TenantListResponse,
     ActiveTenantPayload,
     GetTenantWithStatsResponseSchema,
+    TenantSearchSettingsResponse,
+    UpdateTenantSearchSettingsPayload,
+    CreateEmbeddingMigrationPayload,
+    EmbeddingMigrationSchema,
+    EmbeddingMigrationListResponse,
 } from './tenant.js';
 import { Id } from './common.js';
 import {
@@ -56,6 +70,7 @@ import {
 import {
     IndexingStatusQuerySchema,
     IndexingStatusResponseSchema,
+    VectorIndexHealthResponseSchema,
 } from './admin.js';
 import {
     RecentSearchesQuery,
@@ -69,6 +84,33 @@ import {
     SearchAnalyticsDetailQuery,
     SearchAnalyticsDetailResponse,
 } from './searchAnalytics.js';
+import {
+    SavedSearchParams,
+    CreateSavedSearchPayload,
+    UpdateSavedSearchPayload,
+    SavedSearchListResponse,
+    SavedSearchResponse,
+    SavedSearchMatchesResponse,
+} from './savedSearch.js';
+import {
+    QaRequest,
+    QaStreamEvent,
+    QaThreadParams,
+    CreateQaThreadPayload,
+    PostQaMessagePayload,
+    QaThreadListResponse,
+    QaThreadResponse,
+    QaThreadDetailResponse,
+    PostQaMessageResponse,
+} from './qa.js';
+import {
+    DuplicateParams,
+    ListDuplicatesQuery,
+    ResolveDuplicatePayload,
+    DuplicateListResponse,
+    DuplicateResponse,
+} from './duplicate.js';
+import { ListDigestsQuery, DigestListResponse } from './digest.js';
 
 /**
  * OpenAPI 3.0 for Zod schemas
@@ -438,26 +480,22 @@ export function buildOpenApi(
                     },
                 },
             },
-
-            // Document routes
-            '/v1/documents': {
+            '/v1/tenants/{tenantId}/search-settings': {
                 get: {
-                    requestParams: { query: getDocumentListParamsSchema },
+                    summary: 'Get workspace search settings',
+                    requestParams: {
+                        path: tenantIdPathParams,
+                    },
                     responses: {
                         200: {
-                            description: 'OK',
+                            description:
+                                'Effective lexical ranking weights (defaults merged with overrides) and search language',
                             content: {
                                 'application/json': {
-                                    schema: getDocumentListResponseSchema,
+                                    schema: TenantSearchSettingsResponse,
                                 },
                             },
                         },
-                        400: {
-                            description: 'Bad Request - Validation error',
-                            content: {
-                                'application/json': { schema: ApiError },
-                            },
-                        },
                         401: {
                             description:
                                 'Unauthorized - Authentication required',
@@ -466,7 +504,8 @@ export function buildOpenApi(
                             },
                         },
                         403: {
-                            description: 'Forbidden - Tenant access denied',
+                            description:
+                                'Forbidden - User not member of tenant',
                             content: {
                                 'application/json': { schema: ApiError },
                             },
@@ -479,21 +518,27 @@ export function buildOpenApi(
                         },
                     },
                 },
-                post: {
+                patch: {
+                    summary: 'Update workspace search settings',
+                    description:
+                        'Owners and admins can tune how strongly title, heading, lead and body matches count in lexical ranking, and set the language used for stemming and stop words.',
+                    requestParams: {
+                        path: tenantIdPathParams,
+                    },
                     requestBody: {
                         required: true,
                         content: {
                             'application/json': {
-                                schema: createDocumentRequestSchema,
+                                schema: UpdateTenantSearchSettingsPayload,
                             },
                         },
                     },
                     responses: {
-                        202: {
-                            description: 'Queued',
+                        200: {
+                            description: 'Updated search settings',
                             content: {
                                 'application/json': {
-                                    schema: createDocumentResponseSchema,
+                                    schema: TenantSearchSettingsResponse,
                                 },
                             },
                         },
@@ -511,7 +556,8 @@ export function buildOpenApi(
                             },
                         },
                         403: {
-                            description: 'Forbidden - Tenant access denied',
+                            description:
+                                'Forbidden - Owner or admin role required',
                             content: {
                                 'application/json': { schema: ApiError },
                             },
@@ -525,23 +571,23 @@ export function buildOpenApi(
                     },
                 },
             },
-            '/v1/documents/{id}': {
+
+            '/v1/tenants/{tenantId}/embedding-migrations': {
                 get: {
+                    summary: 'List embedding model migrations',
+                    requestParams: {
+                        path: tenantIdPathParams,
+                    },
                     responses: {
                         200: {
-                            description: 'OK',
+                            description:
+                                'Active embedding model and recent migrations, newest first',
                             content: {
                                 'application/json': {
-                                    schema: getDocumentDetailsResponseSchema,
+                                    schema: EmbeddingMigrationListResponse,
                                 },
                             },
                         },
-                        400: {
-                            description: 'Bad Request - Validation error',
-                            content: {
-                                'application/json': { schema: ApiError },
-                            },
-                        },
                         401: {
                             description:
                                 'Unauthorized - Authentication required',
@@ -550,13 +596,8 @@ export function buildOpenApi(
                             },
                         },
                         403: {
-                            description: 'Forbidden - Access denied',
-                            content: {
-                                'application/json': { schema: ApiError },
-                            },
-                        },
-                        404: {
-                            description: 'Not Found - Document does not exist',
+                            description:
+                                'Forbidden - Owner or admin role required',
                             content: {
                                 'application/json': { schema: ApiError },
                             },
@@ -569,11 +610,35 @@ export function buildOpenApi(
                         },
                     },
                 },
-                delete: {
+                post: {
+                    summary: 'Start re-embedding the workspace with another model',
+                    description:
+                        'Owners and admins can re-embed every chunk with a new model in the background. Search keeps using the current model until the migration is cut over.',
+                    requestParams: {
+                        path: tenantIdPathParams,
+                    },
+                    requestBody: {
+                        required: true,
+                        content: {
+                            'application/json': {
+                                schema: CreateEmbeddingMigrationPayload,
+                            },
+                        },
+                    },
                     responses: {
-                        204: {
-                            description:
-                                'No Content - Document deleted successfully',
+                        202: {
+                            description: 'Migration queued',
+                            content: {
+                                'application/json': {
+                                    schema: EmbeddingMigrationSchema,
+                                },
+                            },
+                        },
+                        400: {
+                            description: 'Bad Request - Validation error',
+                            content: {
+                                'application/json': { schema: ApiError },
+                            },
                         },
                         401: {
                             description:
@@ -584,13 +649,13 @@ export function buildOpenApi(
                         },
                         403: {
                             description:
-                                'Forbidden - Only owners/admins can delete documents',
+                                'Forbidden - Owner or admin role required',
                             content: {
                                 'application/json': { schema: ApiError },
                             },
                         },
-                        404: {
-                            description: 'Not Found - Document does not exist',
+                        409: {
+                            description: 'Conflict - A migration is already in progress',
                             content: {
                                 'application/json': { schema: ApiError },
                             },
@@ -604,22 +669,75 @@ export function buildOpenApi(
                     },
                 },
             },
-            '/v1/documents/{id}/title': {
-                patch: {
-                    requestBody: {
-                        required: true,
-                        content: {
-                            'application/json': {
-                                schema: updateDocumentTitlePayloadSchema,
+            '/v1/tenants/{tenantId}/embedding-migrations/{migrationId}/cutover':
+                {
+                    post: {
+                        summary: 'Switch semantic search to a migrated model',
+                        requestParams: {
+                            path: z.object({
+                                tenantId: Id,
+                                migrationId: Id,
+                            }),
+                        },
+                        responses: {
+                            200: {
+                                description: 'Migration cut over',
+                                content: {
+                                    'application/json': {
+                                        schema: EmbeddingMigrationSchema,
+                                    },
+                                },
+                            },
+                            401: {
+                                description:
+                                    'Unauthorized - Authentication required',
+                                content: {
+                                    'application/json': { schema: ApiError },
+                                },
+                            },
+                            403: {
+                                description:
+                                    'Forbidden - Owner or admin role required',
+                                content: {
+                                    'application/json': { schema: ApiError },
+                                },
+                            },
+                            404: {
+                                description: 'Migration not found',
+                                content: {
+                                    'application/json': { schema: ApiError },
+                                },
+                            },
+                            409: {
+                                description: 'Conflict - Migration has not completed',
+                                content: {
+                                    'application/json': { schema: ApiError },
+                                },
+                            },
+                            500: {
+                                description: 'Internal Server Error',
+                                content: {
+                                    'application/json': { schema: ApiError },
+                                },
                             },
                         },
                     },
+                },
+            '/v1/tenants/{tenantId}/digests': {
+                get: {
+                    summary: 'List weekly workspace digests',
+                    description:
+                        'Generated every Monday for the previous week (UTC) in workspaces with activity. Most recent first.',
+                    requestParams: {
+                        path: tenantIdPathParams,
+                        query: ListDigestsQuery,
+                    },
                     responses: {
                         200: {
-                            description: 'Document title updated',
+                            description: 'OK',
                             content: {
                                 'application/json': {
-                                    schema: updateDocumentTitleResponseSchema,
+                                    schema: DigestListResponse,
                                 },
                             },
                         },
@@ -637,13 +755,8 @@ export function buildOpenApi(
                             },
                         },
                         403: {
-                            description: 'Forbidden - Access denied',
-                            content: {
-                                'application/json': { schema: ApiError },
-                            },
-                        },
-                        404: {
-                            description: 'Not Found - Document does not exist',
+                            description:
+                                'Forbidden - User is not a member of this tenant',
                             content: {
                                 'application/json': { schema: ApiError },
                             },
@@ -657,22 +770,17 @@ export function buildOpenApi(
                     },
                 },
             },
-            '/v1/documents/{id}/content': {
-                patch: {
-                    requestBody: {
-                        required: true,
-                        content: {
-                            'application/json': {
-                                schema: updateDocumentContentPayloadSchema,
-                            },
-                        },
-                    },
+
+            // Document routes
+            '/v1/documents': {
+                get: {
+                    requestParams: { query: getDocumentListParamsSchema },
                     responses: {
                         200: {
-                            description: 'Document content updated',
+                            description: 'OK',
                             content: {
                                 'application/json': {
-                                    schema: updateDocumentContentResponseSchema,
+                                    schema: getDocumentListResponseSchema,
                                 },
                             },
                         },
@@ -690,13 +798,7 @@ export function buildOpenApi(
                             },
                         },
                         403: {
-                            description: 'Forbidden - Access denied',
-                            content: {
-                                'application/json': { schema: ApiError },
-                            },
-                        },
-                        404: {
-                            description: 'Not Found - Document does not exist',
+                            description: 'Forbidden - Tenant access denied',
                             content: {
                                 'application/json': { schema: ApiError },
                             },
@@ -709,23 +811,21 @@ export function buildOpenApi(
                         },
                     },
                 },
-            },
-            '/v1/documents/{id}/icon': {
-                patch: {
+                post: {
                     requestBody: {
                         required: true,
                         content: {
                             'application/json': {
-                                schema: updateDocumentIconPayloadSchema,
+                                schema: createDocumentRequestSchema,
                             },
                         },
                     },
                     responses: {
-                        200: {
-                            description: 'Document icon updated',
+                        202: {
+                            description: 'Queued',
                             content: {
                                 'application/json': {
-                                    schema: updateDocumentIconResponseSchema,
+                                    schema: createDocumentResponseSchema,
                                 },
                             },
                         },
@@ -743,13 +843,7 @@ export function buildOpenApi(
                             },
                         },
                         403: {
-                            description: 'Forbidden - Access denied',
-                            content: {
-                                'application/json': { schema: ApiError },
-                            },
-                        },
-                        404: {
-                            description: 'Not Found - Document does not exist',
+                            description: 'Forbidden - Tenant access denied',
                             content: {
                                 'application/json': { schema: ApiError },
                             },
@@ -763,27 +857,23 @@ export function buildOpenApi(
                     },
                 },
             },
-            '/v1/documents/{id}/reindex': {
-                post: {
-                    parameters: [
-                        {
-                            in: 'query',
-                            name: 'reindex',
-                            required: false,
-                            schema: { type: 'boolean', default: false },
-                            description: 'Force reindex even if checksum matches',
-                        },
-                    ],
+            '/v1/documents/{id}': {
+                get: {
                     responses: {
-                        202: {
-                            description:
-                                'Accepted - Re-index job queued successfully',
+                        200: {
+                            description: 'OK',
                             content: {
                                 'application/json': {
-                                    schema: reindexDocumentResponseSchema,
+                                    schema: getDocumentDetailsResponseSchema,
                                 },
                             },
                         },
+                        400: {
+                            description: 'Bad Request - Validation error',
+                            content: {
+                                'application/json': { schema: ApiError },
+                            },
+                        },
                         401: {
                             description:
                                 'Unauthorized - Authentication required',
@@ -811,23 +901,11 @@ export function buildOpenApi(
                         },
                     },
                 },
-            },
-            '/v1/documents/{id}/tags': {
-                get: {
+                delete: {
                     responses: {
-                        200: {
-                            description: 'OK',
-                            content: {
-                                'application/json': {
-                                    schema: getDocumentTagsResponseSchema,
-                                },
-                            },
-                        },
-                        400: {
-                            description: 'Bad Request - Validation error',
-                            content: {
-                                'application/json': { schema: ApiError },
-                            },
+                        204: {
+                            description:
+                                'No Content - Document deleted successfully',
                         },
                         401: {
                             description:
@@ -837,7 +915,8 @@ export function buildOpenApi(
                             },
                         },
                         403: {
-                            description: 'Forbidden - Access denied',
+                            description:
+                                'Forbidden - Only owners/admins can delete documents',
                             content: {
                                 'application/json': { schema: ApiError },
                             },
@@ -856,21 +935,23 @@ export function buildOpenApi(
                         },
                     },
                 },
-                post: {
+            },
+            '/v1/documents/{id}/title': {
+                patch: {
                     requestBody: {
                         required: true,
                         content: {
                             'application/json': {
-                                schema: addTagsToDocumentRequestSchema,
+                                schema: updateDocumentTitlePayloadSchema,
                             },
                         },
                     },
                     responses: {
                         200: {
-                            description: 'Tags added to document',
+                            description: 'Document title updated',
                             content: {
                                 'application/json': {
-                                    schema: addTagsToDocumentResponseSchema,
+                                    schema: updateDocumentTitleResponseSchema,
                                 },
                             },
                         },
@@ -908,14 +989,22 @@ export function buildOpenApi(
                     },
                 },
             },
-            '/v1/documents/{id}/tags/{tagId}': {
-                delete: {
+            '/v1/documents/{id}/content': {
+                patch: {
+                    requestBody: {
+                        required: true,
+                        content: {
+                            'application/json': {
+                                schema: updateDocumentContentPayloadSchema,
+                            },
+                        },
+                    },
                     responses: {
                         200: {
-                            description: 'Tag removed from document',
+                            description: 'Document content updated',
                             content: {
                                 'application/json': {
-                                    schema: removeTagFromDocumentResponseSchema,
+                                    schema: updateDocumentContentResponseSchema,
                                 },
                             },
                         },
@@ -939,8 +1028,7 @@ export function buildOpenApi(
                             },
                         },
                         404: {
-                            description:
-                                'Not Found - Document or tag not found',
+                            description: 'Not Found - Document does not exist',
                             content: {
                                 'application/json': { schema: ApiError },
                             },
@@ -954,14 +1042,262 @@ export function buildOpenApi(
                     },
                 },
             },
-            '/v1/documents/{id}/favorite': {
-                post: {
-                    responses: {
-                        200: {
-                            description: 'Document favorited',
-                            content: {
-                                'application/json': {
-                                    schema: favoriteDocumentResponseSchema,
+            '/v1/documents/{id}/icon': {
+                patch: {
+                    requestBody: {
+                        required: true,
+                        content: {
+                            'application/json': {
+                                schema: updateDocumentIconPayloadSchema,
+                            },
+                        },
+                    },
+                    responses: {
+                        200: {
+                            description: 'Document icon updated',
+                            content: {
+                                'application/json': {
+                                    schema: updateDocumentIconResponseSchema,
+                                },
+                            },
+                        },
+                        400: {
+                            description: 'Bad Request - Validation error',
+                            content: {
+                                'application/json': { schema: ApiError },
+                            },
+                        },
+                        401: {
+                            description:
+                                'Unauthorized - Authentication required',
+                            content: {
+                                'application/json': { schema: ApiError },
+                            },
+                        },
+                        403: {
+                            description: 'Forbidden - Access denied',
+                            content: {
+                                'application/json': { schema: ApiError },
+                            },
+                        },
+                        404: {
+                            description: 'Not Found - Document does not exist',
+                            content: {
+                                'application/json': { schema: ApiError },
+                            },
+                        },
+                        500: {
+                            description: 'Internal Server Error',
+                            content: {
+                                'application/json': { schema: ApiError },
+                            },
+                        },
+                    },
+                },
+            },
+            '/v1/documents/{id}/related': {
+                get: {
+                    summary:
+                        'Documents similar to this one ("more like this"), by embedding similarity',
+                    requestParams: {
+                        path: getDocumentDetailsParamsSchema,
+                        query: getRelatedDocumentsQuerySchema,
+                    },
+                    responses: {
+                        200: {
+                            description: 'OK',
+                            content: {
+                                'application/json': {
+                                    schema: getRelatedDocumentsResponseSchema,
+                                },
+                            },
+                        },
+                        400: {
+                            description: 'Bad Request - Validation error',
+                            content: {
+                                'application/json': { schema: ApiError },
+                            },
+                        },
+                        401: {
+                            description:
+                                'Unauthorized - Authentication required',
+                            content: {
+                                'application/json': { schema: ApiError },
+                            },
+                        },
+                        404: {
+                            description: 'Not Found - Document does not exist',
+                            content: {
+                                'application/json': { schema: ApiError },
+                            },
+                        },
+                        500: {
+                            description: 'Internal Server Error',
+                            content: {
+                                'application/json': { schema: ApiError },
+                            },
+                        },
+                    },
+                },
+            },
+            '/v1/documents/{id}/reindex': {
+                post: {
+                    parameters: [
+                        {
+                            in: 'query',
+                            name: 'reindex',
+                            required: false,
+                            schema: { type: 'boolean', default: false },
+                            description: 'Force reindex even if checksum matches',
+                        },
+                    ],
+                    responses: {
+                        202: {
+                            description:
+                                'Accepted - Re-index job queued successfully',
+                            content: {
+                                'application/json': {
+                                    schema: reindexDocumentResponseSchema,
+                                },
+                            },
+                        },
+                        401: {
+                            description:
+                                'Unauthorized - Authentication required',
+                            content: {
+                                'application/json': { schema: ApiError },
+                            },
+                        },
+                        403: {
+                            description: 'Forbidden - Access denied',
+                            content: {
+                                'application/json': { schema: ApiError },
+                            },
+                        },
+                        404: {
+                            description: 'Not Found - Document does not exist',
+                            content: {
+                                'application/json': { schema: ApiError },
+                            },
+                        },
+                        500: {
+                            description: 'Internal Server Error',
+                            content: {
+                                'application/json': { schema: ApiError },
+                            },
+                        },
+                    },
+                },
+            },
+            '/v1/documents/{id}/summary': {
+                post: {
+                    summary: 'Regenerate the AI summary of a document',
+                    description:
+                        "Queues a summary job that runs even if the content is unchanged. Refused with 429 when the workspace's daily summary token budget can't cover the document.",
+                    responses: {
+                        202: {
+                            description:
+                                'Accepted - Summary job queued successfully',
+                            content: {
+                                'application/json': {
+                                    schema: summarizeDocumentResponseSchema,
+                                },
+                            },
+                        },
+                        401: {
+                            description:
+                                'Unauthorized - Authentication required',
+                            content: {
+                                'application/json': { schema: ApiError },
+                            },
+                        },
+                        403: {
+                            description: 'Forbidden - Access denied',
+                            content: {
+                                'application/json': { schema: ApiError },
+                            },
+                        },
+                        404: {
+                            description: 'Not Found - Document does not exist',
+                            content: {
+                                'application/json': { schema: ApiError },
+                            },
+                        },
+                        429: {
+                            description:
+                                'Too Many Requests - Daily summary budget spent or summaries disabled',
+                            content: {
+                                'application/json': { schema: ApiError },
+                            },
+                        },
+                        500: {
+                            description: 'Internal Server Error',
+                            content: {
+                                'application/json': { schema: ApiError },
+                            },
+                        },
+                    },
+                },
+            },
+            '/v1/documents/{id}/tags': {
+                get: {
+                    responses: {
+                        200: {
+                            description: 'OK',
+                            content: {
+                                'application/json': {
+                                    schema: getDocumentTagsResponseSchema,
+                                },
+                            },
+                        },
+                        400: {
+                            description: 'Bad Request - Validation error',
+                            content: {
+                                'application/json': { schema: ApiError },
+                            },
+                        },
+                        401: {
+                            description:
+                                'Unauthorized - Authentication required',
+                            content: {
+                                'application/json': { schema: ApiError },
+                            },
+                        },
+                        403: {
+                            description: 'Forbidden - Access denied',
+                            content: {
+                                'application/json': { schema: ApiError },
+                            },
+                        },
+                        404: {
+                            description: 'Not Found - Document does not exist',
+                            content: {
+                                'application/json': { schema: ApiError },
+                            },
+                        },
+                        500: {
+                            description: 'Internal Server Error',
+                            content: {
+                                'application/json': { schema: ApiError },
+                            },
+                        },
+                    },
+                },
+                post: {
+                    requestBody: {
+                        required: true,
+                        content: {
+                            'application/json': {
+                                schema: addTagsToDocumentRequestSchema,
+                            },
+                        },
+                    },
+                    responses: {
+                        200: {
+                            description: 'Tags added to document',
+                            content: {
+                                'application/json': {
+                                    schema: addTagsToDocumentResponseSchema,
                                 },
                             },
                         },
@@ -978,14 +1314,672 @@ export function buildOpenApi(
                                 'application/json': { schema: ApiError },
                             },
                         },
-                        403: {
-                            description: 'Forbidden - Access denied',
+                        403: {
+                            description: 'Forbidden - Access denied',
+                            content: {
+                                'application/json': { schema: ApiError },
+                            },
+                        },
+                        404: {
+                            description: 'Not Found - Document does not exist',
+                            content: {
+                                'application/json': { schema: ApiError },
+                            },
+                        },
+                        500: {
+                            description: 'Internal Server Error',
+                            content: {
+                                'application/json': { schema: ApiError },
+                            },
+                        },
+                    },
+                },
+            },
+            '/v1/documents/{id}/tags/{tagId}': {
+                delete: {
+                    responses: {
+                        200: {
+                            description: 'Tag removed from document',
+                            content: {
+                                'application/json': {
+                                    schema: removeTagFromDocumentResponseSchema,
+                                },
+                            },
+                        },
+                        400: {
+                            description: 'Bad Request - Validation error',
+                            content: {
+                                'application/json': { schema: ApiError },
+                            },
+                        },
+                        401: {
+                            description:
+                                'Unauthorized - Authentication required',
+                            content: {
+                                'application/json': { schema: ApiError },
+                            },
+                        },
+                        403: {
+                            description: 'Forbidden - Access denied',
+                            content: {
+                                'application/json': { schema: ApiError },
+                            },
+                        },
+                        404: {
+                            description:
+                                'Not Found - Document or tag not found',
+                            content: {
+                                'application/json': { schema: ApiError },
+                            },
+                        },
+                        500: {
+                            description: 'Internal Server Error',
+                            content: {
+                                'application/json': { schema: ApiError },
+                            },
+                        },
+                    },
+                },
+            },
+            '/v1/documents/{id}/favorite': {
+                post: {
+                    responses: {
+                        200: {
+                            description: 'Document favorited',
+                            content: {
+                                'application/json': {
+                                    schema: favoriteDocumentResponseSchema,
+                                },
+                            },
+                        },
+                        400: {
+                            description: 'Bad Request - Validation error',
+                            content: {
+                                'application/json': { schema: ApiError },
+                            },
+                        },
+                        401: {
+                            description:
+                                'Unauthorized - Authentication required',
+                            content: {
+                                'application/json': { schema: ApiError },
+                            },
+                        },
+                        403: {
+                            description: 'Forbidden - Access denied',
+                            content: {
+                                'application/json': { schema: ApiError },
+                            },
+                        },
+                        404: {
+                            description: 'Not Found - Document does not exist',
+                            content: {
+                                'application/json': { schema: ApiError },
+                            },
+                        },
+                        500: {
+                            description: 'Internal Server Error',
+                            content: {
+                                'application/json': { schema: ApiError },
+                            },
+                        },
+                    },
+                },
+            },
+            '/v1/documents/{id}/unfavorite': {
+                post: {
+                    responses: {
+                        200: {
+                            description: 'Document unfavorited',
+                            content: {
+                                'application/json': {
+                                    schema: unfavoriteDocumentResponseSchema,
+                                },
+                            },
+                        },
+                        400: {
+                            description: 'Bad Request - Validation error',
+                            content: {
+                                'application/json': { schema: ApiError },
+                            },
+                        },
+                        401: {
+                            description:
+                                'Unauthorized - Authentication required',
+                            content: {
+                                'application/json': { schema: ApiError },
+                            },
+                        },
+                        403: {
+                            description: 'Forbidden - Access denied',
+                            content: {
+                                'application/json': { schema: ApiError },
+                            },
+                        },
+                        404: {
+                            description: 'Not Found - Document does not exist',
+                            content: {
+                                'application/json': { schema: ApiError },
+                            },
+                        },
+                        500: {
+                            description: 'Internal Server Error',
+                            content: {
+                                'application/json': { schema: ApiError },
+                            },
+                        },
+                    },
+                },
+            },
+
+            // Tag routes
+            '/v1/tags': {
+                get: {
+                    requestParams: { query: listTagsQuerySchema },
+                    responses: {
+                        200: {
+                            description: 'OK',
+                            content: {
+                                'application/json': {
+                                    schema: listTagsResponseSchema,
+                                },
+                            },
+                        },
+                        400: {
+                            description: 'Bad Request - Validation error',
+                            content: {
+                                'application/json': { schema: ApiError },
+                            },
+                        },
+                        401: {
+                            description:
+                                'Unauthorized - Authentication required',
+                            content: {
+                                'application/json': { schema: ApiError },
+                            },
+                        },
+                        403: {
+                            description: 'Forbidden - Access denied',
+                            content: {
+                                'application/json': { schema: ApiError },
+                            },
+                        },
+                        500: {
+                            description: 'Internal Server Error',
+                            content: {
+                                'application/json': { schema: ApiError },
+                            },
+                        },
+                    },
+                },
+                post: {
+                    requestBody: {
+                        required: true,
+                        content: {
+                            'application/json': {
+                                schema: createTagRequestSchema,
+                            },
+                        },
+                    },
+                    responses: {
+                        201: {
+                            description: 'Tag created',
+                            content: {
+                                'application/json': {
+                                    schema: createTagResponseSchema,
+                                },
+                            },
+                        },
+                        400: {
+                            description: 'Bad Request - Validation error',
+                            content: {
+                                'application/json': { schema: ApiError },
+                            },
+                        },
+                        401: {
+                            description:
+                                'Unauthorized - Authentication required',
+                            content: {
+                                'application/json': { schema: ApiError },
+                            },
+                        },
+                        403: {
+                            description: 'Forbidden - Access denied',
+                            content: {
+                                'application/json': { schema: ApiError },
+                            },
+                        },
+                        409: {
+                            description: 'Conflict - Tag already exists',
+                            content: {
+                                'application/json': { schema: ApiError },
+                            },
+                        },
+                        500: {
+                            description: 'Internal Server Error',
+                            content: {
+                                'application/json': { schema: ApiError },
+                            },
+                        },
+                    },
+                },
+            },
+            '/v1/tags/{id}': {
+                get: {
+                    responses: {
+                        200: {
+                            description: 'OK',
+                            content: {
+                                'application/json': {
+                                    schema: getTagResponseSchema,
+                                },
+                            },
+                        },
+                        400: {
+                            description: 'Bad Request - Validation error',
+                            content: {
+                                'application/json': { schema: ApiError },
+                            },
+                        },
+                        401: {
+                            description:
+                                'Unauthorized - Authentication required',
+                            content: {
+                                'application/json': { schema: ApiError },
+                            },
+                        },
+                        403: {
+                            description: 'Forbidden - Access denied',
+                            content: {
+                                'application/json': { schema: ApiError },
+                            },
+                        },
+                        404: {
+                            description: 'Not Found - Tag does not exist',
+                            content: {
+                                'application/json': { schema: ApiError },
+                            },
+                        },
+                        500: {
+                            description: 'Internal Server Error',
+                            content: {
+                                'application/json': { schema: ApiError },
+                            },
+                        },
+                    },
+                },
+                patch: {
+                    requestBody: {
+                        required: true,
+                        content: {
+                            'application/json': {
+                                schema: updateTagRequestSchema,
+                            },
+                        },
+                    },
+                    responses: {
+                        200: {
+                            description: 'Tag updated',
+                            content: {
+                                'application/json': {
+                                    schema: updateTagResponseSchema,
+                                },
+                            },
+                        },
+                        400: {
+                            description: 'Bad Request - Validation error',
+                            content: {
+                                'application/json': { schema: ApiError },
+                            },
+                        },
+                        401: {
+                            description:
+                                'Unauthorized - Authentication required',
+                            content: {
+                                'application/json': { schema: ApiError },
+                            },
+                        },
+                        403: {
+                            description: 'Forbidden - Access denied',
+                            content: {
+                                'application/json': { schema: ApiError },
+                            },
+                        },
+                        404: {
+                            description: 'Not Found - Tag does not exist',
+                            content: {
+                                'application/json': { schema: ApiError },
+                            },
+                        },
+                        409: {
+                            description: 'Conflict - Tag already exists',
+                            content: {
+                                'application/json': { schema: ApiError },
+                            },
+                        },
+                        500: {
+                            description: 'Internal Server Error',
+                            content: {
+                                'application/json': { schema: ApiError },
+                            },
+                        },
+                    },
+                },
+                delete: {
+                    responses: {
+                        204: {
+                            description:
+                                'No Content - Tag deleted successfully',
+                        },
+                        400: {
+                            description: 'Bad Request - Validation error',
+                            content: {
+                                'application/json': { schema: ApiError },
+                            },
+                        },
+                        401: {
+                            description:
+                                'Unauthorized - Authentication required',
+                            content: {
+                                'application/json': { schema: ApiError },
+                            },
+                        },
+                        403: {
+                            description: 'Forbidden - Access denied',
+                            content: {
+                                'application/json': { schema: ApiError },
+                            },
+                        },
+                        404: {
+                            description: 'Not Found - Tag does not exist',
+                            content: {
+                                'application/json': { schema: ApiError },
+                            },
+                        },
+                        500: {
+                            description: 'Internal Server Error',
+                            content: {
+                                'application/json': { schema: ApiError },
+                            },
+                        },
+                    },
+                },
+            },
+
+            // Saved search routes
+            '/v1/saved-searches': {
+                get: {
+                    summary: "List the caller's saved searches with new-match counts",
+                    responses: {
+                        200: {
+                            description: 'OK',
+                            content: {
+                                'application/json': {
+                                    schema: SavedSearchListResponse,
+                                },
+                            },
+                        },
+                        401: {
+                            description: 'Unauthorized - Authentication required',
+                            content: {
+                                'application/json': { schema: ApiError },
+                            },
+                        },
+                        500: {
+                            description: 'Internal Server Error',
+                            content: {
+                                'application/json': { schema: ApiError },
+                            },
+                        },
+                    },
+                },
+                post: {
+                    summary: 'Save a search',
+                    description:
+                        'The query is validated and compiled when saved. A background job re-runs it periodically; its first run records the current matches as seen, later runs record newly matching documents.',
+                    requestBody: {
+                        required: true,
+                        content: {
+                            'application/json': {
+                                schema: CreateSavedSearchPayload,
+                            },
+                        },
+                    },
+                    responses: {
+                        201: {
+                            description: 'Saved search created',
+                            content: {
+                                'application/json': {
+                                    schema: SavedSearchResponse,
+                                },
+                            },
+                        },
+                        400: {
+                            description:
+                                'Bad Request - Validation error or invalid query syntax',
+                            content: {
+                                'application/json': { schema: ApiError },
+                            },
+                        },
+                        401: {
+                            description: 'Unauthorized - Authentication required',
+                            content: {
+                                'application/json': { schema: ApiError },
+                            },
+                        },
+                        500: {
+                            description: 'Internal Server Error',
+                            content: {
+                                'application/json': { schema: ApiError },
+                            },
+                        },
+                    },
+                },
+            },
+            '/v1/saved-searches/{id}': {
+                get: {
+                    summary: 'Get a saved search',
+                    requestParams: { path: SavedSearchParams },
+                    responses: {
+                        200: {
+                            description: 'OK',
+                            content: {
+                                'application/json': {
+                                    schema: SavedSearchResponse,
+                                },
+                            },
+                        },
+                        401: {
+                            description: 'Unauthorized - Authentication required',
+                            content: {
+                                'application/json': { schema: ApiError },
+                            },
+                        },
+                        404: {
+                            description: 'Not Found - Saved search does not exist',
+                            content: {
+                                'application/json': { schema: ApiError },
+                            },
+                        },
+                        500: {
+                            description: 'Internal Server Error',
+                            content: {
+                                'application/json': { schema: ApiError },
+                            },
+                        },
+                    },
+                },
+                patch: {
+                    summary: 'Rename a saved search or change its query',
+                    description:
+                        'Changing q or filters clears the recorded matches; the next run records a fresh baseline.',
+                    requestParams: { path: SavedSearchParams },
+                    requestBody: {
+                        required: true,
+                        content: {
+                            'application/json': {
+                                schema: UpdateSavedSearchPayload,
+                            },
+                        },
+                    },
+                    responses: {
+                        200: {
+                            description: 'Saved search updated',
+                            content: {
+                                'application/json': {
+                                    schema: SavedSearchResponse,
+                                },
+                            },
+                        },
+                        400: {
+                            description:
+                                'Bad Request - Validation error or invalid query syntax',
+                            content: {
+                                'application/json': { schema: ApiError },
+                            },
+                        },
+                        401: {
+                            description: 'Unauthorized - Authentication required',
+                            content: {
+                                'application/json': { schema: ApiError },
+                            },
+                        },
+                        404: {
+                            description: 'Not Found - Saved search does not exist',
+                            content: {
+                                'application/json': { schema: ApiError },
+                            },
+                        },
+                        500: {
+                            description: 'Internal Server Error',
+                            content: {
+                                'application/json': { schema: ApiError },
+                            },
+                        },
+                    },
+                },
+                delete: {
+                    summary: 'Delete a saved search',
+                    requestParams: { path: SavedSearchParams },
+                    responses: {
+                        204: {
+                            description:
+                                'No Content - Saved search deleted successfully',
+                        },
+                        401: {
+                            description: 'Unauthorized - Authentication required',
+                            content: {
+                                'application/json': { schema: ApiError },
+                            },
+                        },
+                        404: {
+                            description: 'Not Found - Saved search does not exist',
+                            content: {
+                                'application/json': { schema: ApiError },
+                            },
+                        },
+                        500: {
+                            description: 'Internal Server Error',
+                            content: {
+                                'application/json': { schema: ApiError },
+                            },
+                        },
+                    },
+                },
+            },
+            '/v1/saved-searches/{id}/matches': {
+                get: {
+                    summary: 'List documents matched by a saved search, new ones first',
+                    requestParams: { path: SavedSearchParams },
+                    responses: {
+                        200: {
+                            description: 'OK',
+                            content: {
+                                'application/json': {
+                                    schema: SavedSearchMatchesResponse,
+                                },
+                            },
+                        },
+                        401: {
+                            description: 'Unauthorized - Authentication required',
+                            content: {
+                                'application/json': { schema: ApiError },
+                            },
+                        },
+                        404: {
+                            description: 'Not Found - Saved search does not exist',
+                            content: {
+                                'application/json': { schema: ApiError },
+                            },
+                        },
+                        500: {
+                            description: 'Internal Server Error',
+                            content: {
+                                'application/json': { schema: ApiError },
+                            },
+                        },
+                    },
+                },
+            },
+            '/v1/saved-searches/{id}/seen': {
+                post: {
+                    summary: 'Mark all matches of a saved search as seen',
+                    requestParams: { path: SavedSearchParams },
+                    responses: {
+                        200: {
+                            description: 'OK - newMatchCount is reset to 0',
+                            content: {
+                                'application/json': {
+                                    schema: SavedSearchResponse,
+                                },
+                            },
+                        },
+                        401: {
+                            description: 'Unauthorized - Authentication required',
+                            content: {
+                                'application/json': { schema: ApiError },
+                            },
+                        },
+                        404: {
+                            description: 'Not Found - Saved search does not exist',
+                            content: {
+                                'application/json': { schema: ApiError },
+                            },
+                        },
+                        500: {
+                            description: 'Internal Server Error',
+                            content: {
+                                'application/json': { schema: ApiError },
+                            },
+                        },
+                    },
+                },
+            },
+
+            // Duplicate document routes
+            '/v1/duplicates': {
+                get: {
+                    summary: 'List duplicate document pairs in the active workspace',
+                    description:
+                        'Pairs are flagged by a background job, highest similarity first. Owners and admins only.',
+                    requestParams: { query: ListDuplicatesQuery },
+                    responses: {
+                        200: {
+                            description: 'OK',
+                            content: {
+                                'application/json': {
+                                    schema: DuplicateListResponse,
+                                },
+                            },
+                        },
+                        401: {
+                            description: 'Unauthorized - Authentication required',
                             content: {
                                 'application/json': { schema: ApiError },
                             },
                         },
-                        404: {
-                            description: 'Not Found - Document does not exist',
+                        403: {
+                            description: 'Forbidden - Workspace owner or admin role required',
                             content: {
                                 'application/json': { schema: ApiError },
                             },
@@ -999,38 +1993,41 @@ export function buildOpenApi(
                     },
                 },
             },
-            '/v1/documents/{id}/unfavorite': {
+            '/v1/duplicates/{id}/dismiss': {
                 post: {
+                    summary: 'Dismiss a duplicate pair',
+                    description:
+                        'Dismissed pairs are not flagged again, even if the documents change.',
+                    requestParams: { path: DuplicateParams },
                     responses: {
                         200: {
-                            description: 'Document unfavorited',
+                            description: 'OK',
                             content: {
                                 'application/json': {
-                                    schema: unfavoriteDocumentResponseSchema,
+                                    schema: DuplicateResponse,
                                 },
                             },
                         },
-                        400: {
-                            description: 'Bad Request - Validation error',
+                        401: {
+                            description: 'Unauthorized - Authentication required',
                             content: {
                                 'application/json': { schema: ApiError },
                             },
                         },
-                        401: {
-                            description:
-                                'Unauthorized - Authentication required',
+                        403: {
+                            description: 'Forbidden - Workspace owner or admin role required',
                             content: {
                                 'application/json': { schema: ApiError },
                             },
                         },
-                        403: {
-                            description: 'Forbidden - Access denied',
+                        404: {
+                            description: 'Not Found - Duplicate pair does not exist',
                             content: {
                                 'application/json': { schema: ApiError },
                             },
                         },
-                        404: {
-                            description: 'Not Found - Document does not exist',
+                        409: {
+                            description: 'Conflict - Pair is no longer open',
                             content: {
                                 'application/json': { schema: ApiError },
                             },
@@ -1044,35 +2041,55 @@ export function buildOpenApi(
                     },
                 },
             },
-
-            // Tag routes
-            '/v1/tags': {
-                get: {
-                    requestParams: { query: listTagsQuerySchema },
+            '/v1/duplicates/{id}/resolve': {
+                post: {
+                    summary: 'Merge or archive one document of a duplicate pair',
+                    description:
+                        'Archived documents stay reachable by link but are excluded from search, related documents and document lists.',
+                    requestParams: { path: DuplicateParams },
+                    requestBody: {
+                        required: true,
+                        content: {
+                            'application/json': {
+                                schema: ResolveDuplicatePayload,
+                            },
+                        },
+                    },
                     responses: {
                         200: {
                             description: 'OK',
                             content: {
                                 'application/json': {
-                                    schema: listTagsResponseSchema,
+                                    schema: DuplicateResponse,
                                 },
                             },
                         },
                         400: {
-                            description: 'Bad Request - Validation error',
+                            description: 'Bad Request - keepDocumentId is not part of the pair',
                             content: {
                                 'application/json': { schema: ApiError },
                             },
                         },
                         401: {
-                            description:
-                                'Unauthorized - Authentication required',
+                            description: 'Unauthorized - Authentication required',
                             content: {
                                 'application/json': { schema: ApiError },
                             },
                         },
                         403: {
-                            description: 'Forbidden - Access denied',
+                            description: 'Forbidden - Workspace owner or admin role required',
+                            content: {
+                                'application/json': { schema: ApiError },
+                            },
+                        },
+                        404: {
+                            description: 'Not Found - Duplicate pair does not exist',
+                            content: {
+                                'application/json': { schema: ApiError },
+                            },
+                        },
+                        409: {
+                            description: 'Conflict - Pair is no longer open',
                             content: {
                                 'application/json': { schema: ApiError },
                             },
@@ -1085,45 +2102,39 @@ export function buildOpenApi(
                         },
                     },
                 },
+            },
+
+            // Q&A routes
+            '/v1/qa/stream': {
                 post: {
+                    summary: 'Answer a question from workspace sources, streamed',
+                    description:
+                        'Server-Sent Events: a `sources` event with the retrieved sources, `delta` events with answer text as it is generated, then a `citations` event with the sources the answer cites. Closing the connection cancels generation. Failures after the stream started are sent as an `error` event.',
                     requestBody: {
                         required: true,
                         content: {
                             'application/json': {
-                                schema: createTagRequestSchema,
+                                schema: QaRequest,
                             },
                         },
                     },
                     responses: {
-                        201: {
-                            description: 'Tag created',
+                        200: {
+                            description: 'OK - Event stream',
                             content: {
-                                'application/json': {
-                                    schema: createTagResponseSchema,
+                                'text/event-stream': {
+                                    schema: QaStreamEvent,
                                 },
                             },
                         },
                         400: {
-                            description: 'Bad Request - Validation error',
+                            description: 'Bad Request - Validation error or no active tenant',
                             content: {
                                 'application/json': { schema: ApiError },
                             },
                         },
                         401: {
-                            description:
-                                'Unauthorized - Authentication required',
-                            content: {
-                                'application/json': { schema: ApiError },
-                            },
-                        },
-                        403: {
-                            description: 'Forbidden - Access denied',
-                            content: {
-                                'application/json': { schema: ApiError },
-                            },
-                        },
-                        409: {
-                            description: 'Conflict - Tag already exists',
+                            description: 'Unauthorized - Authentication required',
                             content: {
                                 'application/json': { schema: ApiError },
                             },
@@ -1137,38 +2148,27 @@ export function buildOpenApi(
                     },
                 },
             },
-            '/v1/tags/{id}': {
+
+            '/v1/qa/threads': {
                 get: {
+                    summary: "List the caller's Q&A threads, most recently active first",
                     responses: {
                         200: {
                             description: 'OK',
                             content: {
                                 'application/json': {
-                                    schema: getTagResponseSchema,
+                                    schema: QaThreadListResponse,
                                 },
                             },
                         },
                         400: {
-                            description: 'Bad Request - Validation error',
+                            description: 'Bad Request - Validation error or no active tenant',
                             content: {
                                 'application/json': { schema: ApiError },
                             },
                         },
                         401: {
-                            description:
-                                'Unauthorized - Authentication required',
-                            content: {
-                                'application/json': { schema: ApiError },
-                            },
-                        },
-                        403: {
-                            description: 'Forbidden - Access denied',
-                            content: {
-                                'application/json': { schema: ApiError },
-                            },
-                        },
-                        404: {
-                            description: 'Not Found - Tag does not exist',
+                            description: 'Unauthorized - Authentication required',
                             content: {
                                 'application/json': { schema: ApiError },
                             },
@@ -1181,51 +2181,67 @@ export function buildOpenApi(
                         },
                     },
                 },
-                patch: {
+                post: {
+                    summary: 'Start a Q&A thread',
                     requestBody: {
                         required: true,
                         content: {
                             'application/json': {
-                                schema: updateTagRequestSchema,
+                                schema: CreateQaThreadPayload,
                             },
                         },
                     },
                     responses: {
-                        200: {
-                            description: 'Tag updated',
+                        201: {
+                            description: 'Thread created',
                             content: {
                                 'application/json': {
-                                    schema: updateTagResponseSchema,
+                                    schema: QaThreadResponse,
                                 },
                             },
                         },
                         400: {
-                            description: 'Bad Request - Validation error',
+                            description: 'Bad Request - Validation error or no active tenant',
                             content: {
                                 'application/json': { schema: ApiError },
                             },
                         },
                         401: {
-                            description:
-                                'Unauthorized - Authentication required',
+                            description: 'Unauthorized - Authentication required',
                             content: {
                                 'application/json': { schema: ApiError },
                             },
                         },
-                        403: {
-                            description: 'Forbidden - Access denied',
+                        500: {
+                            description: 'Internal Server Error',
                             content: {
                                 'application/json': { schema: ApiError },
                             },
                         },
-                        404: {
-                            description: 'Not Found - Tag does not exist',
+                    },
+                },
+            },
+            '/v1/qa/threads/{id}': {
+                get: {
+                    summary: 'Get a Q&A thread with its messages and cited documents',
+                    requestParams: { path: QaThreadParams },
+                    responses: {
+                        200: {
+                            description: 'OK',
+                            content: {
+                                'application/json': {
+                                    schema: QaThreadDetailResponse,
+                                },
+                            },
+                        },
+                        401: {
+                            description: 'Unauthorized - Authentication required',
                             content: {
                                 'application/json': { schema: ApiError },
                             },
                         },
-                        409: {
-                            description: 'Conflict - Tag already exists',
+                        404: {
+                            description: 'Not Found - Thread does not exist',
                             content: {
                                 'application/json': { schema: ApiError },
                             },
@@ -1239,32 +2255,70 @@ export function buildOpenApi(
                     },
                 },
                 delete: {
+                    summary: 'Delete a Q&A thread',
+                    requestParams: { path: QaThreadParams },
                     responses: {
                         204: {
-                            description:
-                                'No Content - Tag deleted successfully',
+                            description: 'Thread deleted',
                         },
-                        400: {
-                            description: 'Bad Request - Validation error',
+                        401: {
+                            description: 'Unauthorized - Authentication required',
                             content: {
                                 'application/json': { schema: ApiError },
                             },
                         },
-                        401: {
-                            description:
-                                'Unauthorized - Authentication required',
+                        404: {
+                            description: 'Not Found - Thread does not exist',
                             content: {
                                 'application/json': { schema: ApiError },
                             },
                         },
-                        403: {
-                            description: 'Forbidden - Access denied',
+                        500: {
+                            description: 'Internal Server Error',
+                            content: {
+                                'application/json': { schema: ApiError },
+                            },
+                        },
+                    },
+                },
+            },
+            '/v1/qa/threads/{id}/messages': {
+                post: {
+                    summary: 'Ask a question in a thread',
+                    description:
+                        'Earlier turns are condensed with the question into a standalone retrieval query, so follow-ups like "and on staging?" retrieve the right sources. Recent turns are also given to the model when answering.',
+                    requestParams: { path: QaThreadParams },
+                    requestBody: {
+                        required: true,
+                        content: {
+                            'application/json': {
+                                schema: PostQaMessagePayload,
+                            },
+                        },
+                    },
+                    responses: {
+                        200: {
+                            description: 'OK - The stored question and answer',
+                            content: {
+                                'application/json': {
+                                    schema: PostQaMessageResponse,
+                                },
+                            },
+                        },
+                        400: {
+                            description: 'Bad Request - Validation error or no active tenant',
+                            content: {
+                                'application/json': { schema: ApiError },
+                            },
+                        },
+                        401: {
+                            description: 'Unauthorized - Authentication required',
                             content: {
                                 'application/json': { schema: ApiError },
                             },
                         },
                         404: {
-                            description: 'Not Found - Tag does not exist',
+                            description: 'Not Found - Thread does not exist',
                             content: {
                                 'application/json': { schema: ApiError },
                             },
@@ -1411,9 +2465,56 @@ export function buildOpenApi(
             },
 
             // Search routes
+            '/v1/search/suggest': {
+                get: {
+                    summary: 'Search-as-you-type suggestions',
+                    description:
+                        'Matching document titles, tag names and the caller\'s recent queries for a prefix. Lexical lookups only, with its own rate limit so typing does not use up the general /v1 budget.',
+                    requestParams: { query: SearchSuggestQuery },
+                    responses: {
+                        200: {
+                            description: 'OK',
+                            content: {
+                                'application/json': {
+                                    schema: SearchSuggestResponse,
+                                },
+                            },
+                        },
+                        400: {
+                            description: 'Bad Request - Validation error',
+                            content: {
+                                'application/json': { schema: ApiError },
+                            },
+                        },
+                        401: {
+                            description:
+                                'Unauthorized - Authentication required',
+                            content: {
+                                'application/json': { schema: ApiError },
+                            },
+                        },
+                        429: {
+                            description:
+                                'Too Many Requests - Rate limit exceeded',
+                            content: {
+                                'application/json': { schema: ApiError },
+                            },
+                        },
+                        500: {
+                            description: 'Internal Server Error',
+                            content: {
+                                'application/json': { schema: ApiError },
+                            },
+                        },
+                    },
+                },
+            },
             '/v1/search': {
                 get: {
-                    requestParams: { query: SearchQuery },
+                    summary: 'Hybrid search with optional structured filters',
+                    description:
+                        'Fuses lexical and semantic retrieval. Tag, author, updatedAt and favorites filters are applied before ranking in both retrieval paths. The query supports "quoted phrases", -exclusions, OR and title:/tag:/author:/before:/after: prefixes. Owners and admins can pass explain=true for per-result lexical ranks, rerank scores, threshold decisions and fused scores.',
+                    requestParams: { query: HybridSearchQuery },
                     responses: {
                         200: {
                             description: 'OK',
@@ -1427,6 +2528,13 @@ export function buildOpenApi(
                                 'application/json': { schema: ApiError },
                             },
                         },
+                        422: {
+                            description:
+                                'Unprocessable Entity - Malformed query syntax (INVALID_SEARCH_QUERY)',
+                            content: {
+                                'application/json': { schema: ApiError },
+                            },
+                        },
                         401: {
                             description:
                                 'Unauthorized - Authentication required',
@@ -1435,7 +2543,8 @@ export function buildOpenApi(
                             },
                         },
                         403: {
-                            description: 'Forbidden - Tenant access denied',
+                            description:
+                                'Forbidden - Tenant access denied, or explain=true without owner/admin role',
                             content: {
                                 'application/json': { schema: ApiError },
                             },
@@ -1709,6 +2818,50 @@ export function buildOpenApi(
                     },
                 },
             },
+            '/v1/admin/vector-index': {
+                get: {
+                    summary: 'Get vector index health for the current workspace',
+                    description:
+                        'Reports whether semantic search uses a per-workspace HNSW index or exact search, the index size and validity, the configured ef_search, and a recommended action. Large workspaces get their own partial HNSW index; smaller ones are searched exactly.',
+                    responses: {
+                        200: {
+                            description: 'OK - Vector index health',
+                            content: {
+                                'application/json': {
+                                    schema: VectorIndexHealthResponseSchema,
+                                },
+                            },
+                        },
+                        400: {
+                            description:
+                                'Bad Request - No active tenant selected',
+                            content: {
+                                'application/json': { schema: ApiError },
+                            },
+                        },
+                        401: {
+                            description:
+                                'Unauthorized - Authentication required',
+                            content: {
+                                'application/json': { schema: ApiError },
+                            },
+                        },
+                        403: {
+                            description:
+                                'Forbidden - Requires admin/owner role',
+                            content: {
+                                'application/json': { schema: ApiError },
+                            },
+                        },
+                        500: {
+                            description: 'Internal Server Error',
+                            content: {
+                                'application/json': { schema: ApiError },
+                            },
+                        },
+                    },
+                },
+            },
         },
     });
 }
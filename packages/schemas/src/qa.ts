@@ -1,5 +1,5 @@
 import { z } from 'zod';
-import { Id } from './common.js';
+import { Id, IsoDate } from './common.js';
 
 export const QaSource = z.object({
     id: Id,
@@ -23,19 +23,196 @@ export const QaRequest = z.object({
         description: 'Candidates to retrieve before rerank',
         example: 15,
     }),
-    maxSources: z.coerce.number().int().min(1).max(20).default(5).meta({
-        description: 'Maximum sources to send to the LLM',
-        example: 5,
+    maxSources: z.coerce.number().int().min(1).max(20).default(10).meta({
+        description:
+            'Upper bound on sources sent to the LLM; usually contextTokens decides how many fit',
+        example: 10,
     }),
+    contextTokens: z.coerce
+        .number()
+        .int()
+        .min(200)
+        .max(12000)
+        .default(2000)
+        .meta({
+            description:
+                'Token budget for the retrieved passages; sources are added best first while they fit',
+            example: 2000,
+        }),
 });
 
 export type QaRequest = z.infer<typeof QaRequest>;
 export type QaRequestWithTenant = QaRequest & { tenantId: string };
 
+/**
+ * The passage that best supports an answer sentence. `start`/`end` are
+ * character offsets into the content of the DocumentChunk.
+ */
+export const QaCitationSpan = z.object({
+    documentId: Id,
+    chunkId: Id,
+    chunkIdx: z.number().int().nonnegative(),
+    start: z.number().int().nonnegative(),
+    end: z.number().int().nonnegative(),
+    text: z.string(),
+    passageStartPos: z.number().int().nonnegative().nullable().meta({
+        description:
+            'Start of the chunk in the indexed markdown, for the document passage deep link',
+    }),
+    passageEndPos: z.number().int().nonnegative().nullable(),
+});
+
+export const QaClaim = z.object({
+    start: z.number().int().nonnegative().meta({
+        description: 'Offset of the sentence in the answer',
+    }),
+    end: z.number().int().nonnegative(),
+    supported: z.boolean().meta({
+        description: 'False when no retrieved passage backs the sentence',
+    }),
+    support: z.number().min(0).max(1).meta({
+        description: "Share of the sentence's content words found in `span`",
+        example: 0.8,
+    }),
+    span: QaCitationSpan.nullable(),
+});
+
 export const QaResponse = z.object({
     answer: z.string(),
     sources: z.array(QaSource),
     noContext: z.boolean().optional(),
+    claims: z.array(QaClaim).meta({
+        description: 'Answer sentences that make a claim, in answer order',
+    }),
+    groundedness: z.number().min(0).max(1).nullable().meta({
+        description:
+            'Share of claims supported by a retrieved passage; null when the answer makes none',
+        example: 0.75,
+    }),
 });
 
+export type QaCitationSpan = z.infer<typeof QaCitationSpan>;
+export type QaClaim = z.infer<typeof QaClaim>;
 export type QaResponse = z.infer<typeof QaResponse>;
+
+/**
+ * Events of POST /v1/qa/stream, sent as Server-Sent Events in this order:
+ * one `sources`, any number of `delta`, then `citations` with the verified
+ * claims of the complete answer. An `error` event replaces whatever had not
+ * been sent yet.
+ */
+export const QaStreamEvent = z.discriminatedUnion('type', [
+    z.object({
+        type: z.literal('sources'),
+        sources: z.array(QaSource).meta({
+            description: 'Retrieved sources, numbered [1], [2]… in order',
+        }),
+    }),
+    z.object({
+        type: z.literal('delta'),
+        text: z.string().meta({ description: 'Next piece of the answer' }),
+    }),
+    z.object({
+        type: z.literal('citations'),
+        sources: z.array(QaSource).meta({
+            description: 'Sources the answer cites',
+        }),
+        noContext: z.boolean(),
+        claims: z.array(QaClaim),
+        groundedness: z.number().min(0).max(1).nullable(),
+    }),
+    z.object({
+        type: z.literal('error'),
+        error: z.object({ code: z.string(), message: z.string() }),
+    }),
+]);
+
+export type QaStreamEvent = z.infer<typeof QaStreamEvent>;
+
+/**
+ * Conversational Q&A: threads of questions and answers, private to their user.
+ * Follow-up questions are rewritten into a standalone query before retrieval.
+ */
+
+export const QaThreadParams = z.object({
+    id: Id,
+});
+
+export const CreateQaThreadPayload = z
+    .object({
+        title: z.string().trim().min(1).max(120).optional().meta({
+            description: 'Defaults to the first question',
+            example: 'Deploy rollback',
+        }),
+    })
+    .strict();
+
+// a follow-up in a thread; same retrieval options as POST /v1/qa
+export const PostQaMessagePayload = QaRequest;
+
+export const QaMessageSchema = z.object({
+    id: Id,
+    role: z.enum(['user', 'assistant']),
+    content: z.string(),
+    retrievalQuery: z.string().nullable().meta({
+        description:
+            'Assistant messages: the standalone query the sources were retrieved with',
+        example: 'rollback procedure for the staging deployment',
+    }),
+    citations: z.array(QaSource).meta({
+        description: 'Assistant messages: sources the answer cites',
+    }),
+    noContext: z.boolean(),
+    createdAt: IsoDate,
+});
+
+export const QaThreadSchema = z.object({
+    id: Id,
+    title: z.string().nullable(),
+    messageCount: z.number().int().nonnegative(),
+    createdAt: IsoDate,
+    updatedAt: IsoDate,
+});
+
+// documents cited anywhere in a thread
+export const QaThreadCitationSchema = z.object({
+    id: Id,
+    title: z.string(),
+    citedCount: z.number().int().positive().meta({
+        description: 'Answers in the thread citing this document',
+        example: 2,
+    }),
+    lastCitedAt: IsoDate,
+});
+
+export const QaThreadListResponse = z.object({
+    threads: z.array(QaThreadSchema),
+});
+
+export const QaThreadResponse = z.object({
+    thread: QaThreadSchema,
+});
+
+export const QaThreadDetailResponse = z.object({
+    thread: QaThreadSchema,
+    messages: z.array(QaMessageSchema),
+    citations: z.array(QaThreadCitationSchema).meta({
+        description: 'Cited documents, most recently cited first',
+    }),
+});
+
+export const PostQaMessageResponse = z.object({
+    question: QaMessageSchema,
+    answer: QaMessageSchema,
+});
+
+export type QaThreadParams = z.infer<typeof QaThreadParams>;
+export type CreateQaThreadPayload = z.infer<typeof CreateQaThreadPayload>;
+export type PostQaMessagePayload = z.infer<typeof PostQaMessagePayload>;
+export type QaMessage = z.infer<typeof QaMessageSchema>;
+export type QaThread = z.infer<typeof QaThreadSchema>;
+export type QaThreadCitation = z.infer<typeof QaThreadCitationSchema>;
+export type QaThreadListResponse = z.infer<typeof QaThreadListResponse>;
+export type QaThreadResponse = z.infer<typeof QaThreadResponse>;
+export type QaThreadDetailResponse = z.infer<typeof QaThreadDetailResponse>;
+export type PostQaMessageResponse = z.infer<typeof PostQaMessageResponse>;
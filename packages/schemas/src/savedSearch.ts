@@ -0,0 +1,110 @@
+import { z } from 'zod';
+import { Id, IsoDate } from './common.js';
+import { SearchFilters } from './search.js';
+
+/**
+ * Saved searches: a user's query that the worker re-runs periodically,
+ * recording documents that start matching it
+ */
+
+const savedSearchName = z.string().trim().min(1).max(100);
+const savedSearchQuery = z.string().trim().min(1).max(500);
+
+export const SavedSearchParams = z.object({
+    id: Id,
+});
+
+export const CreateSavedSearchPayload = z
+    .object({
+        name: savedSearchName.meta({
+            description: 'Display name',
+            example: 'Incident postmortems',
+        }),
+        q: savedSearchQuery.meta({
+            description:
+                'Search query, same syntax as /v1/search (phrases, -exclusions, OR, field prefixes)',
+            example: '"incident postmortem" -draft',
+        }),
+        filters: SearchFilters.optional().meta({
+            description: 'Structured filters applied on every run',
+        }),
+    })
+    .strict();
+
+export const UpdateSavedSearchPayload = z
+    .object({
+        name: savedSearchName.optional(),
+        q: savedSearchQuery.optional(),
+        filters: SearchFilters.nullable().optional().meta({
+            description: 'Replaces the stored filters; null clears them',
+        }),
+    })
+    .strict()
+    .refine(
+        (data) =>
+            data.name !== undefined ||
+            data.q !== undefined ||
+            data.filters !== undefined,
+        { message: 'Provide at least one of name, q, or filters.' }
+    );
+
+// request filters as stored and echoed back (dates as ISO strings)
+export const SavedSearchFiltersSchema = z.object({
+    tagIds: z.array(Id).optional(),
+    authorId: Id.optional(),
+    updatedAfter: IsoDate.optional(),
+    updatedBefore: IsoDate.optional(),
+    favoritesOnly: z.boolean().optional(),
+});
+
+export const SavedSearchSchema = z.object({
+    id: Id,
+    name: z.string(),
+    q: z.string(),
+    filters: SavedSearchFiltersSchema.nullable(),
+    newMatchCount: z.number().int().nonnegative().meta({
+        description: 'Matches recorded since the saved search was last viewed',
+        example: 3,
+    }),
+    lastRunAt: IsoDate.nullable().meta({
+        description: 'Last worker run; null until the first run',
+    }),
+    createdAt: IsoDate,
+    updatedAt: IsoDate,
+});
+
+export const SavedSearchListResponse = z.object({
+    savedSearches: z.array(SavedSearchSchema),
+    newMatchCount: z.number().int().nonnegative().meta({
+        description: 'New matches across all saved searches',
+        example: 5,
+    }),
+});
+
+export const SavedSearchResponse = z.object({
+    savedSearch: SavedSearchSchema,
+});
+
+export const SavedSearchMatchSchema = z.object({
+    documentId: Id,
+    title: z.string(),
+    matchedAt: IsoDate,
+    isNew: z.boolean(),
+});
+
+export const SavedSearchMatchesResponse = z.object({
+    savedSearch: SavedSearchSchema,
+    matches: z.array(SavedSearchMatchSchema),
+});
+
+export type SavedSearchParams = z.infer<typeof SavedSearchParams>;
+export type CreateSavedSearchPayload = z.infer<typeof CreateSavedSearchPayload>;
+export type UpdateSavedSearchPayload = z.infer<typeof UpdateSavedSearchPayload>;
+export type SavedSearchFilters = z.infer<typeof SavedSearchFiltersSchema>;
+export type SavedSearch = z.infer<typeof SavedSearchSchema>;
+export type SavedSearchListResponse = z.infer<typeof SavedSearchListResponse>;
+export type SavedSearchResponse = z.infer<typeof SavedSearchResponse>;
+export type SavedSearchMatch = z.infer<typeof SavedSearchMatchSchema>;
+export type SavedSearchMatchesResponse = z.infer<
+    typeof SavedSearchMatchesResponse
+>;
@@ -2,7 +2,11 @@ import { z } from 'zod';
 import { Id, Pagination } from './common.js';
 
 export const SearchQuery = z.object({
-    q: z.string().min(1).meta({ example: 'typescript' }), // the query itself
+    q: z.string().min(1).meta({
+        description:
+            'Search query. Supports "quoted phrases", -exclusions, OR, and title:, tag:, author:, before:, after: prefixes',
+        example: 'typescript',
+    }), // the query itself
     limit: z.coerce.number().int().min(1).max(50).default(10).meta({
         description: 'Maximum number of results to return',
         example: 10,
@@ -19,18 +23,214 @@ export const SemanticQuery = z.object({
     recall_k: z.coerce.number().int().min(1).max(50).default(5),
 });
 
+// accepts `?tagIds=a,b` as well as repeated `?tagIds=a&tagIds=b`
+const idListParamSchema = z.preprocess(
+    (value) =>
+        typeof value === 'string'
+            ? value
+                  .split(',')
+                  .map((part) => part.trim())
+                  .filter(Boolean)
+            : value,
+    z.array(Id).max(20)
+);
+
+const booleanParamSchema = z
+    .union([z.boolean(), z.literal('true'), z.literal('false')])
+    .transform((value) =>
+        typeof value === 'string' ? value === 'true' : value
+    );
+
+// structured filters, applied before ranking in both lexical and semantic retrieval
+export const SearchFilters = z.object({
+    tagIds: idListParamSchema.optional().meta({
+        description:
+            'Only match documents carrying at least one of these tag ids (comma-separated)',
+        example: ['tag_123', 'tag_456'],
+    }),
+    authorId: Id.optional().meta({
+        description: 'Only match documents created by this user',
+        example: 'user_123',
+    }),
+    updatedAfter: z.coerce.date().optional().meta({
+        description: 'Only match documents updated at or after this time',
+        example: '2025-01-01T00:00:00.000Z',
+    }),
+    updatedBefore: z.coerce.date().optional().meta({
+        description: 'Only match documents updated before this time',
+        example: '2025-12-31T00:00:00.000Z',
+    }),
+    favoritesOnly: booleanParamSchema.optional().meta({
+        description: "Only match documents in the caller's favorites",
+        example: false,
+    }),
+});
+
+const rankWeightSchema = z.number().min(0).max(1);
+
+// per-field lexical ranking weights; defaults match Postgres' ts_rank_cd defaults
+export const SearchRankWeights = z.object({
+    title: rankWeightSchema.default(1).meta({
+        description: 'Weight of title matches',
+        example: 1,
+    }),
+    headings: rankWeightSchema.default(0.4).meta({
+        description: 'Weight of section heading matches',
+        example: 0.4,
+    }),
+    lead: rankWeightSchema.default(0.2).meta({
+        description: 'Weight of matches in the opening section of the body',
+        example: 0.2,
+    }),
+    body: rankWeightSchema.default(0.1).meta({
+        description: 'Weight of matches in the rest of the body',
+        example: 0.1,
+    }),
+});
+
+// Postgres' built-in text search configurations plus common languages without one;
+// names with no installed configuration are searched with 'simple' (no stemming or stop words)
+export const TextSearchConfig = z
+    .enum([
+        'simple',
+        'arabic',
+        'armenian',
+        'basque',
+        'catalan',
+        'danish',
+        'dutch',
+        'english',
+        'finnish',
+        'french',
+        'german',
+        'greek',
+        'hindi',
+        'hungarian',
+        'indonesian',
+        'irish',
+        'italian',
+        'lithuanian',
+        'nepali',
+        'norwegian',
+        'portuguese',
+        'romanian',
+        'russian',
+        'serbian',
+        'spanish',
+        'swedish',
+        'tamil',
+        'turkish',
+        'yiddish',
+        'chinese',
+        'japanese',
+        'korean',
+    ])
+    .meta({
+        description:
+            'Full-text search language; languages without a Postgres configuration fall back to simple, and chinese, japanese and korean text is matched by character bigrams',
+        example: 'english',
+    });
+
+// how hybrid search combines the lexical and semantic rankings
+export const HybridFusionMode = z
+    .enum(['rrf', 'minmax', 'zscore', 'semantic_first'])
+    .meta({
+        description:
+            'rrf = Reciprocal Rank Fusion; minmax/zscore = normalized ts_rank and rerank scores blended by alpha; semantic_first = semantic hits first, then lexical-only hits',
+        example: 'rrf',
+    });
+
+const fusionAlphaSchema = z.number().min(0).max(1);
+const rrfKSchema = z.number().int().min(1).max(100);
+
+// tenant default; request parameters override each field
+export const HybridFusion = z.object({
+    mode: HybridFusionMode.default('rrf'),
+    alpha: fusionAlphaSchema.default(0.5).meta({
+        description:
+            'Weight of the semantic score in minmax/zscore fusion (0 = lexical only, 1 = semantic only)',
+        example: 0.5,
+    }),
+    rrfK: rrfKSchema.default(60).meta({
+        description:
+            'Reciprocal Rank Fusion constant. Lower values favor top ranks more strongly.',
+        example: 60,
+    }),
+});
+
+// Search-as-you-type completions (titles, tags, recent queries); no embeddings involved
+export const SearchSuggestQuery = z.object({
+    prefix: z.string().trim().min(1).max(100).meta({
+        description: 'What the user has typed so far',
+        example: 'onb',
+    }),
+    limit: z.coerce.number().int().min(1).max(10).default(5).meta({
+        description: 'Maximum suggestions per group',
+        example: 5,
+    }),
+});
+
+export const SearchSuggestResponse = z.object({
+    prefix: z.string(),
+    documents: z.array(z.object({ id: Id, title: z.string() })).meta({
+        description:
+            'Documents whose title has a word starting with the prefix',
+    }),
+    tags: z
+        .array(
+            z.object({ id: Id, name: z.string(), color: z.string().nullable() })
+        )
+        .meta({ description: 'Workspace tags starting with the prefix' }),
+    recentQueries: z.array(z.string()).meta({
+        description:
+            "The caller's recent successful searches starting with the prefix",
+    }),
+});
+
 // Export types for use in services/routes
 export type SearchQuery = z.infer<typeof SearchQuery>;
 export type SemanticQuery = z.infer<typeof SemanticQuery>;
 export type HybridSearchQuery = z.infer<typeof HybridSearchQuery>;
+export type LexicalSearchQuery = z.infer<typeof LexicalSearchQuery>;
+export type SearchFilters = z.infer<typeof SearchFilters>;
+export type SearchRankWeights = z.infer<typeof SearchRankWeights>;
+export type TextSearchConfig = z.infer<typeof TextSearchConfig>;
+export type HybridFusionMode = z.infer<typeof HybridFusionMode>;
+export type HybridFusion = z.infer<typeof HybridFusion>;
+export type SearchExplain = z.infer<typeof SearchExplain>;
+export type SearchExplainItem = z.infer<typeof SearchExplainItem>;
+export type SearchSuggestQuery = z.infer<typeof SearchSuggestQuery>;
+export type SearchSuggestResponse = z.infer<typeof SearchSuggestResponse>;
 export type SearchResponse = z.infer<typeof SearchResponse>;
 export type SearchResultItem = z.infer<typeof SearchResultItem>;
+export type SearchResultPassage = z.infer<typeof SearchResultPassage>;
+export type UpdatedAtBucket = z.infer<typeof UpdatedAtBucket>;
+export type TagFacet = z.infer<typeof TagFacet>;
+export type CreatorFacet = z.infer<typeof CreatorFacet>;
+export type UpdatedAtFacet = z.infer<typeof UpdatedAtFacet>;
+export type SearchFacets = z.infer<typeof SearchFacets>;
 
 // Internal types with tenantId (added by routes layer, not from frontend)
-export type SearchQueryWithTenant = SearchQuery & { tenantId: string };
-export type SemanticQueryWithTenant = SemanticQuery & { tenantId: string };
+// userId is required to resolve the favoritesOnly filter
+export type SearchQueryWithTenant = SearchQuery & {
+    tenantId: string;
+    userId?: string;
+    filters?: SearchFilters;
+};
+export type SemanticQueryWithTenant = SemanticQuery & {
+    tenantId: string;
+    userId?: string;
+    filters?: SearchFilters;
+    bypassCache?: boolean; // skip cached embeddings/rerank results (Cache-Control: no-cache)
+};
 export type HybridSearchQueryWithTenant = HybridSearchQuery & {
     tenantId: string;
+    userId?: string;
+    bypassCache?: boolean;
+};
+export type SearchSuggestQueryWithTenant = SearchSuggestQuery & {
+    tenantId: string;
+    userId: string;
 };
 
 export const HybridSearchQuery = SearchQuery.extend({
@@ -44,11 +244,51 @@ export const HybridSearchQuery = SearchQuery.extend({
             'Number of semantic candidates to retrieve before rerank (defaults to semanticK or limit)',
         example: 20,
     }), // number of semantic candidates to retrieve before rerank
-    rrfK: z.coerce.number().int().min(1).max(100).default(60).meta({
+    fusion: HybridFusionMode.optional().meta({
         description:
-            'Reciprocal Rank Fusion constant. Lower values favor top ranks more strongly.',
+            "Fusion mode for this request (defaults to the workspace's setting, rrf unless changed)",
+        example: 'minmax',
+    }),
+    alpha: z.coerce.number().min(0).max(1).optional().meta({
+        description:
+            'Weight of the semantic score for minmax/zscore fusion (defaults to the workspace setting, 0.5)',
+        example: 0.7,
+    }),
+    rrfK: z.coerce.number().int().min(1).max(100).optional().meta({
+        description:
+            'Reciprocal Rank Fusion constant. Lower values favor top ranks more strongly (defaults to the workspace setting, 60).',
         example: 60,
     }), // RRF k constant
+    includeFacets: booleanParamSchema.optional().meta({
+        description:
+            'Include tag, creator and updatedAt facet counts for the full matched set',
+        example: true,
+    }),
+    explain: booleanParamSchema.optional().meta({
+        description:
+            'Return per-result ranking details (workspace owners and admins only)',
+        example: false,
+    }),
+}).extend(SearchFilters.shape);
+
+// keyword-only search takes the same structured filters as hybrid search
+export const LexicalSearchQuery = SearchQuery.extend(SearchFilters.shape);
+
+// best matching chunk of a hit, so clients can deep link into the document
+export const SearchResultPassage = z.object({
+    headingPath: z.array(z.string()).meta({
+        description: 'Heading breadcrumb of the matching passage',
+        example: ['Deployment', 'Rolling updates'],
+    }),
+    startPos: z.number().int().nonnegative().optional().meta({
+        description:
+            'Start offset of the passage in the indexed markdown (trimmed document content)',
+        example: 1840,
+    }),
+    endPos: z.number().int().nonnegative().optional().meta({
+        description: 'End offset (exclusive) of the passage',
+        example: 2410,
+    }),
 });
 
 // inside searchresponse.items
@@ -68,6 +308,134 @@ export const SearchResultItem = z.object({
         description: 'Link to the full document or resource',
         example: 'https://www.typescriptlang.org/docs/',
     }), // deep link for detail page or external source
+    passage: SearchResultPassage.optional().meta({
+        description:
+            'Best matching chunk; omitted when the document has no indexed chunks',
+    }),
+});
+
+export const UpdatedAtBucket = z.enum([
+    'day',
+    'week',
+    'month',
+    'year',
+    'older',
+]);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const updatedAtBucketDays: Record<Exclude<UpdatedAtBucket, 'older'>, number> = {
+    day: 1,
+    week: 7,
+    month: 30,
+    year: 365,
+};
+
+/**
+ * The updatedAfter/updatedBefore filters selecting an updatedAt bucket. Facet
+ * counts use the same windows, so they are cumulative (a document edited today
+ * counts towards day, week, month and year) and match what selecting them returns.
+ */
+export function updatedAtBucketRange(
+    bucket: UpdatedAtBucket,
+    now = new Date()
+): { updatedAfter?: Date; updatedBefore?: Date } {
+    if (bucket === 'older') {
+        return {
+            updatedBefore: new Date(
+                now.getTime() - updatedAtBucketDays.year * DAY_MS
+            ),
+        };
+    }
+    return {
+        updatedAfter: new Date(
+            now.getTime() - updatedAtBucketDays[bucket] * DAY_MS
+        ),
+    };
+}
+
+export const TagFacet = z.object({
+    id: Id,
+    name: z.string().meta({ example: 'backend' }),
+    color: z.string().nullable().optional(),
+    count: z.number().int().nonnegative().meta({ example: 12 }),
+});
+
+export const CreatorFacet = z.object({
+    id: Id,
+    name: z.string().nullable().meta({ example: 'Ada Lovelace' }),
+    count: z.number().int().nonnegative().meta({ example: 4 }),
+});
+
+export const UpdatedAtFacet = z.object({
+    bucket: UpdatedAtBucket.meta({
+        description:
+            'Window of Document.updatedAt (day = last 24h, week = last 7 days, month = 30, year = 365, older = over a year ago); windows overlap, so a document counts towards each one it falls in',
+        example: 'week',
+    }),
+    count: z.number().int().nonnegative().meta({ example: 7 }),
+});
+
+// counts over the full matched set, not only the returned page
+export const SearchFacets = z.object({
+    tags: z.array(TagFacet),
+    creators: z.array(CreatorFacet),
+    updatedAt: z.array(UpdatedAtFacet),
+});
+
+// ranking details of one hybrid result, present with explain=true
+export const SearchExplainItem = z.object({
+    id: Id,
+    lexical: z
+        .object({
+            rank: z.number().int().positive().meta({
+                description: 'Position in the lexical ranking (1 = best)',
+            }),
+            tsRank: z.number().meta({ description: 'Weighted ts_rank_cd score' }),
+        })
+        .nullable()
+        .meta({ description: 'Null when the document had no lexical match' }),
+    semantic: z
+        .object({
+            rank: z.number().int().positive().nullable().meta({
+                description:
+                    'Position in the semantic ranking used for fusion; null when filtered out',
+            }),
+            chunkIdx: z.number().int().nonnegative().meta({
+                description: 'Index of the best matching chunk',
+            }),
+            rerankScore: z.number(),
+            passedThreshold: z.boolean().meta({
+                description:
+                    'False when the rerank score was below semanticRerankThreshold and the hit did not count',
+            }),
+        })
+        .nullable()
+        .meta({ description: 'Null when no chunk of the document was retrieved' }),
+    finalScore: z.number().nullable().meta({
+        description: 'Score the result was ordered by',
+    }),
+});
+
+export const SearchExplain = z.object({
+    fusion: HybridFusion,
+    semanticStatus: z
+        .enum([
+            'used',
+            'skipped', // query too short or only stop words
+            'unavailable', // circuit breaker open
+            'failed',
+            'no_results',
+            'top_score_cutoff', // no lexical hits and the best rerank score was below the cutoff
+        ])
+        .meta({ description: 'What happened to the semantic half of the search' }),
+    calibrated: z.boolean().nullable().meta({
+        description:
+            'Whether rerank scores were calibrated; thresholds only apply when true',
+    }),
+    semanticRerankThreshold: z.number(),
+    semanticTopScoreCutoff: z.number(),
+    topSemanticScore: z.number().nullable(),
+    items: z.array(SearchExplainItem),
 });
 
 // full response schema
@@ -83,4 +451,19 @@ export const SearchResponse = z.object({
         .boolean()
         .optional()
         .meta({ description: 'True when results were filtered out due to low confidence' }),
+    facets: SearchFacets.optional().meta({
+        description: 'Facet counts, present when includeFacets=true',
+    }),
+    didYouMean: z.string().optional().meta({
+        description:
+            "Spelling-corrected query built from the workspace's vocabulary, present when the query matched few documents",
+        example: 'kubernetes deployment',
+    }),
+    fusion: HybridFusion.optional().meta({
+        description:
+            'Fusion settings hybrid search ranked with, after applying workspace defaults',
+    }),
+    explain: SearchExplain.optional().meta({
+        description: 'Ranking details, present when explain=true',
+    }),
 });
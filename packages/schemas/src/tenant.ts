@@ -2,6 +2,12 @@ import { z } from 'zod';
 import { Id, IsoDate } from './common.js';
 import { documentSchema } from './document.js';
 import { TenantMembership } from './tenantMembership.js';
+import {
+    HybridFusion,
+    HybridFusionMode,
+    SearchRankWeights,
+    TextSearchConfig,
+} from './search.js';
 
 // Tenant schema
 export const Tenant = z.object({
@@ -143,3 +149,171 @@ export const TenantActivityResponse = z.object({
 });
 
 export type TenantActivityResponseType = z.infer<typeof TenantActivityResponse>;
+
+// Tenant search settings
+export const LlmModelName = z
+    .string()
+    .trim()
+    .min(1)
+    .max(100)
+    .regex(/^[\w.:/-]+$/, 'Invalid model name')
+    .meta({
+        description:
+            'Chat model name as the configured LLM provider knows it (Groq model id, Ollama tag, ...)',
+        example: 'llama-3.1-8b-instant',
+    });
+export type LlmModelName = z.infer<typeof LlmModelName>;
+
+export const TenantSearchSettingsResponse = z.object({
+    rankWeights: SearchRankWeights.meta({
+        description:
+            'Lexical ranking weights per field (title, headings, lead, body)',
+    }),
+    textSearchConfig: TextSearchConfig.meta({
+        description:
+            'Default full-text search language; documents detected as another language at index time keep their own',
+    }),
+    hybridFusion: HybridFusion.meta({
+        description:
+            'Default fusion of lexical and semantic rankings in hybrid search',
+    }),
+    llmModel: LlmModelName.nullable().meta({
+        description:
+            'Chat model for Q&A answers; null uses the server default (LLM_MODEL)',
+    }),
+});
+export type TenantSearchSettingsResponse = z.infer<
+    typeof TenantSearchSettingsResponse
+>;
+
+// stored overrides that fail validation fall back to the defaults
+const StoredRankWeights = SearchRankWeights.catch(SearchRankWeights.parse({}));
+// mirrors resolve_text_search_config(): unknown names are searched as 'simple'
+const StoredTextSearchConfig = TextSearchConfig.catch('simple');
+const StoredHybridFusion = HybridFusion.catch(HybridFusion.parse({}));
+
+/**
+ * Effective search settings from the row db.tenant.getSearchSettings() returns
+ * (null for a missing tenant). The API and the worker both resolve them here so
+ * saved searches rank exactly like interactive ones.
+ */
+export function resolveTenantSearchSettings(
+    stored: {
+        searchRankWeights: unknown;
+        textSearchConfig: string;
+        hybridFusion: unknown;
+        llmModel: string | null;
+    } | null
+): TenantSearchSettingsResponse {
+    return {
+        rankWeights: StoredRankWeights.parse(stored?.searchRankWeights ?? {}),
+        textSearchConfig: StoredTextSearchConfig.parse(
+            stored?.textSearchConfig ?? 'english'
+        ),
+        hybridFusion: StoredHybridFusion.parse(stored?.hybridFusion ?? {}),
+        llmModel: stored?.llmModel ?? null,
+    };
+}
+
+const rankWeightOverride = z.number().min(0).max(1).optional();
+
+export const UpdateTenantSearchSettingsPayload = z.object({
+    rankWeights: z
+        .object({
+            title: rankWeightOverride,
+            headings: rankWeightOverride,
+            lead: rankWeightOverride,
+            body: rankWeightOverride,
+        })
+        .nullable()
+        .optional()
+        .meta({
+            description:
+                'Weights to change; omitted fields keep their current value, null resets all to defaults',
+            example: { title: 1, body: 0.05 },
+        }),
+    textSearchConfig: TextSearchConfig.optional().meta({
+        description:
+            'Default full-text search language; changing it rebuilds the search index of affected documents',
+        example: 'french',
+    }),
+    hybridFusion: z
+        .object({
+            mode: HybridFusionMode.optional(),
+            alpha: z.number().min(0).max(1).optional(),
+            rrfK: z.number().int().min(1).max(100).optional(),
+        })
+        .nullable()
+        .optional()
+        .meta({
+            description:
+                'Fusion settings to change; omitted fields keep their current value, null resets to RRF with k = 60',
+            example: { mode: 'minmax', alpha: 0.6 },
+        }),
+    llmModel: LlmModelName.nullable().optional().meta({
+        description:
+            'Chat model for Q&A answers; null resets to the server default',
+        example: 'llama-3.1-8b-instant',
+    }),
+});
+export type UpdateTenantSearchSettingsPayload = z.infer<
+    typeof UpdateTenantSearchSettingsPayload
+>;
+
+// Embedding model migrations
+export const EmbeddingMigrationStatus = z.enum([
+    'queued',
+    'running',
+    'completed',
+    'failed',
+]);
+export type EmbeddingMigrationStatus = z.infer<typeof EmbeddingMigrationStatus>;
+
+export const EmbeddingMigrationSchema = z.object({
+    id: Id,
+    tenantId: Id,
+    targetModel: z.string().meta({
+        description: 'Embedding model id as "provider:model:dimensions"',
+        example: 'openai:text-embedding-3-small:1024',
+    }),
+    status: EmbeddingMigrationStatus,
+    totalChunks: z.number().int(),
+    processedChunks: z.number().int(),
+    error: z.string().nullable(),
+    startedAt: IsoDate.nullable(),
+    completedAt: IsoDate.nullable(),
+    cutoverAt: IsoDate.nullable().meta({
+        description: 'When semantic search switched to the target model',
+    }),
+    createdAt: IsoDate,
+});
+export type EmbeddingMigration = z.infer<typeof EmbeddingMigrationSchema>;
+
+export const CreateEmbeddingMigrationPayload = z.object({
+    provider: z.enum(['voyage', 'openai', 'local']).meta({
+        description: 'Embedding provider; credentials come from the server',
+        example: 'openai',
+    }),
+    model: z.string().trim().min(1).max(128).meta({
+        description: 'Provider model name',
+        example: 'text-embedding-3-small',
+    }),
+    dimensions: z.number().int().min(1).max(4096).meta({
+        description: 'Vector size requested from the model',
+        example: 1024,
+    }),
+});
+export type CreateEmbeddingMigrationPayload = z.infer<
+    typeof CreateEmbeddingMigrationPayload
+>;
+
+export const EmbeddingMigrationListResponse = z.object({
+    activeModel: z.string().nullable().meta({
+        description:
+            "Model semantic search compares against; null = the deployment's default model",
+    }),
+    migrations: z.array(EmbeddingMigrationSchema),
+});
+export type EmbeddingMigrationListResponse = z.infer<
+    typeof EmbeddingMigrationListResponse
+>;
@@ -11,6 +11,11 @@ export interface ClientOptions {
     headers?: Record<string, string>;
 }
 
+export type QaStreamRequest =
+    paths['/v1/qa/stream']['post']['requestBody']['content']['application/json'];
+export type QaStreamEvent =
+    paths['/v1/qa/stream']['post']['responses']['200']['content']['text/event-stream'];
+
 export class SearchHubClient {
     private baseUrl: string;
     private fetcher: Fetcher;
@@ -251,6 +256,121 @@ export class SearchHubClient {
         return (await res.json()) as paths['/v1/tenants/{tenantId}/stats']['get']['responses']['200']['content']['application/json'];
     }
 
+    /** GET /v1/tenants/{tenantId}/search-settings */
+    async getTenantSearchSettings(
+        tenantId: string
+    ): Promise<
+        paths['/v1/tenants/{tenantId}/search-settings']['get']['responses']['200']['content']['application/json']
+    > {
+        const url = `${this.baseUrl}/v1/tenants/${tenantId}/search-settings`;
+        const res = await this.fetcher(url, {
+            method: 'GET',
+            headers: this.defaultHeaders,
+        });
+
+        await this.ensureOk(res, 'getTenantSearchSettings');
+        return (await res.json()) as paths['/v1/tenants/{tenantId}/search-settings']['get']['responses']['200']['content']['application/json'];
+    }
+
+    /** PATCH /v1/tenants/{tenantId}/search-settings */
+    async updateTenantSearchSettings(
+        tenantId: string,
+        body: paths['/v1/tenants/{tenantId}/search-settings']['patch']['requestBody']['content']['application/json']
+    ): Promise<
+        paths['/v1/tenants/{tenantId}/search-settings']['patch']['responses']['200']['content']['application/json']
+    > {
+        const url = `${this.baseUrl}/v1/tenants/${tenantId}/search-settings`;
+        const res = await this.fetcher(url, {
+            method: 'PATCH',
+            headers: {
+                ...this.defaultHeaders,
+                'content-type': 'application/json',
+            },
+            body: JSON.stringify(body),
+        });
+
+        await this.ensureOk(res, 'updateTenantSearchSettings');
+        return (await res.json()) as paths['/v1/tenants/{tenantId}/search-settings']['patch']['responses']['200']['content']['application/json'];
+    }
+
+    /** GET /v1/tenants/{tenantId}/embedding-migrations */
+    async listEmbeddingMigrations(
+        tenantId: string
+    ): Promise<
+        paths['/v1/tenants/{tenantId}/embedding-migrations']['get']['responses']['200']['content']['application/json']
+    > {
+        const url = `${this.baseUrl}/v1/tenants/${tenantId}/embedding-migrations`;
+        const res = await this.fetcher(url, {
+            method: 'GET',
+            headers: this.defaultHeaders,
+        });
+
+        await this.ensureOk(res, 'listEmbeddingMigrations');
+        return (await res.json()) as paths['/v1/tenants/{tenantId}/embedding-migrations']['get']['responses']['200']['content']['application/json'];
+    }
+
+    /** POST /v1/tenants/{tenantId}/embedding-migrations */
+    async createEmbeddingMigration(
+        tenantId: string,
+        body: paths['/v1/tenants/{tenantId}/embedding-migrations']['post']['requestBody']['content']['application/json']
+    ): Promise<
+        paths['/v1/tenants/{tenantId}/embedding-migrations']['post']['responses']['202']['content']['application/json']
+    > {
+        const url = `${this.baseUrl}/v1/tenants/${tenantId}/embedding-migrations`;
+        const res = await this.fetcher(url, {
+            method: 'POST',
+            headers: {
+                ...this.defaultHeaders,
+                'content-type': 'application/json',
+            },
+            body: JSON.stringify(body),
+        });
+
+        await this.ensureOk(res, 'createEmbeddingMigration');
+        return (await res.json()) as paths['/v1/tenants/{tenantId}/embedding-migrations']['post']['responses']['202']['content']['application/json'];
+    }
+
+    /** POST /v1/tenants/{tenantId}/embedding-migrations/{migrationId}/cutover */
+    async cutoverEmbeddingMigration(
+        tenantId: string,
+        migrationId: string
+    ): Promise<
+        paths['/v1/tenants/{tenantId}/embedding-migrations/{migrationId}/cutover']['post']['responses']['200']['content']['application/json']
+    > {
+        const url = `${this.baseUrl}/v1/tenants/${tenantId}/embedding-migrations/${migrationId}/cutover`;
+        const res = await this.fetcher(url, {
+            method: 'POST',
+            headers: this.defaultHeaders,
+        });
+
+        await this.ensureOk(res, 'cutoverEmbeddingMigration');
+        return (await res.json()) as paths['/v1/tenants/{tenantId}/embedding-migrations/{migrationId}/cutover']['post']['responses']['200']['content']['application/json'];
+    }
+
+    /** GET /v1/tenants/{tenantId}/digests */
+    async listWorkspaceDigests(
+        tenantId: string,
+        opts?: { limit?: number }
+    ): Promise<
+        paths['/v1/tenants/{tenantId}/digests']['get']['responses']['200']['content']['application/json']
+    > {
+        const params = new URLSearchParams();
+        if (opts?.limit !== undefined) {
+            params.set('limit', String(opts.limit));
+        }
+        const query = params.toString();
+        const url = `${this.baseUrl}/v1/tenants/${tenantId}/digests${
+            query ? `?${query}` : ''
+        }`;
+        const res = await this.fetcher(url, {
+            method: 'GET',
+            headers: this.defaultHeaders,
+        });
+
+        await this.ensureOk(res, 'listWorkspaceDigests');
+        return (await res.json()) as paths['/v1/tenants/{tenantId}/digests']['get']['responses']['200']['content']['application/json'];
+    }
+
     /** POST /v1/document */
     async createDocument(
         body: paths['/v1/documents']['post']['requestBody']['content']['application/json']
@@ -320,6 +440,30 @@ export class SearchHubClient {
         return (await res.json()) as paths['/v1/documents/{id}']['get']['responses']['200']['content']['application/json'];
     }
 
+    /** GET /v1/documents/{id}/related */
+    async getRelatedDocuments(
+        id: string,
+        opts?: { limit?: number }
+    ): Promise<
+        paths['/v1/documents/{id}/related']['get']['responses']['200']['content']['application/json']
+    > {
+        const params = new URLSearchParams();
+        if (opts?.limit !== undefined) {
+            params.set('limit', String(opts.limit));
+        }
+        const query = params.toString();
+        const url = `${this.baseUrl}/v1/documents/${encodeURIComponent(
+            id
+        )}/related${query ? `?${query}` : ''}`;
+        const res = await this.fetcher(url, {
+            method: 'GET',
+            headers: this.defaultHeaders,
+        });
+
+        await this.ensureOk(res, 'getRelatedDocuments');
+        return (await res.json()) as paths['/v1/documents/{id}/related']['get']['responses']['200']['content']['application/json'];
+    }
+
     /** DELETE /v1/documents/{id} */
     async deleteDocument(id: string): Promise<void> {
         const url = `${this.baseUrl}/v1/documents/${encodeURIComponent(id)}`;
@@ -397,6 +541,26 @@ export class SearchHubClient {
         await this.ensureOk(res, 'reindexDocument');
     }
 
+    /** POST /v1/documents/{id}/summary */
+    async regenerateDocumentSummary(
+        id: string
+    ): Promise<
+        paths['/v1/documents/{id}/summary']['post']['responses']['202']['content']['application/json']
+    > {
+        const url = `${this.baseUrl}/v1/documents/${encodeURIComponent(
+            id
+        )}/summary`;
+        const res = await this.fetcher(url, {
+            method: 'POST',
+            headers: {
+                ...this.defaultHeaders,
+            },
+        });
+
+        await this.ensureOk(res, 'regenerateDocumentSummary');
+        return (await res.json()) as paths['/v1/documents/{id}/summary']['post']['responses']['202']['content']['application/json'];
+    }
+
     /** POST /v1/documents/{id}/favorite */
     async favoriteDocument(
         id: string
@@ -576,6 +740,272 @@ export class SearchHubClient {
         await this.ensureOk(res, 'deleteTag');
     }
 
+    /** GET /v1/saved-searches */
+    async listSavedSearches(): Promise<
+        paths['/v1/saved-searches']['get']['responses']['200']['content']['application/json']
+    > {
+        const url = `${this.baseUrl}/v1/saved-searches`;
+        const res = await this.fetcher(url, {
+            method: 'GET',
+            headers: this.defaultHeaders,
+        });
+        await this.ensureOk(res, 'listSavedSearches');
+        return (await res.json()) as paths['/v1/saved-searches']['get']['responses']['200']['content']['application/json'];
+    }
+
+    /** POST /v1/saved-searches */
+    async createSavedSearch(
+        body: paths['/v1/saved-searches']['post']['requestBody']['content']['application/json']
+    ): Promise<
+        paths['/v1/saved-searches']['post']['responses']['201']['content']['application/json']
+    > {
+        const url = `${this.baseUrl}/v1/saved-searches`;
+        const res = await this.fetcher(url, {
+            method: 'POST',
+            headers: {
+                'content-type': 'application/json',
+                ...this.defaultHeaders,
+            },
+            body: JSON.stringify(body),
+        });
+
+        await this.ensureOk(res, 'createSavedSearch');
+        return (await res.json()) as paths['/v1/saved-searches']['post']['responses']['201']['content']['application/json'];
+    }
+
+    /** PATCH /v1/saved-searches/{id} */
+    async updateSavedSearch(
+        id: string,
+        body: paths['/v1/saved-searches/{id}']['patch']['requestBody']['content']['application/json']
+    ): Promise<
+        paths['/v1/saved-searches/{id}']['patch']['responses']['200']['content']['application/json']
+    > {
+        const url = `${this.baseUrl}/v1/saved-searches/${encodeURIComponent(id)}`;
+        const res = await this.fetcher(url, {
+            method: 'PATCH',
+            headers: {
+                'content-type': 'application/json',
+                ...this.defaultHeaders,
+            },
+            body: JSON.stringify(body),
+        });
+
+        await this.ensureOk(res, 'updateSavedSearch');
+        return (await res.json()) as paths['/v1/saved-searches/{id}']['patch']['responses']['200']['content']['application/json'];
+    }
+
+    /** DELETE /v1/saved-searches/{id} */
+    async deleteSavedSearch(id: string): Promise<void> {
+        const url = `${this.baseUrl}/v1/saved-searches/${encodeURIComponent(id)}`;
+        const res = await this.fetcher(url, {
+            method: 'DELETE',
+            headers: this.defaultHeaders,
+        });
+
+        await this.ensureOk(res, 'deleteSavedSearch');
+    }
+
+    /** GET /v1/saved-searches/{id}/matches */
+    async getSavedSearchMatches(
+        id: string
+    ): Promise<
+        paths['/v1/saved-searches/{id}/matches']['get']['responses']['200']['content']['application/json']
+    > {
+        const url = `${this.baseUrl}/v1/saved-searches/${encodeURIComponent(id)}/matches`;
+        const res = await this.fetcher(url, {
+            method: 'GET',
+            headers: this.defaultHeaders,
+        });
+        await this.ensureOk(res, 'getSavedSearchMatches');
+        return (await res.json()) as paths['/v1/saved-searches/{id}/matches']['get']['responses']['200']['content']['application/json'];
+    }
+
+    /** POST /v1/saved-searches/{id}/seen */
+    async markSavedSearchSeen(
+        id: string
+    ): Promise<
+        paths['/v1/saved-searches/{id}/seen']['post']['responses']['200']['content']['application/json']
+    > {
+        const url = `${this.baseUrl}/v1/saved-searches/${encodeURIComponent(id)}/seen`;
+        const res = await this.fetcher(url, {
+            method: 'POST',
+            headers: this.defaultHeaders,
+        });
+        await this.ensureOk(res, 'markSavedSearchSeen');
+        return (await res.json()) as paths['/v1/saved-searches/{id}/seen']['post']['responses']['200']['content']['application/json'];
+    }
+
+    /** GET /v1/duplicates */
+    async listDuplicates(params?: {
+        status?: 'open' | 'dismissed' | 'resolved';
+    }): Promise<
+        paths['/v1/duplicates']['get']['responses']['200']['content']['application/json']
+    > {
+        const queryParams = new URLSearchParams();
+        if (params?.status) {
+            queryParams.append('status', params.status);
+        }
+        const queryString = queryParams.toString();
+        const url = `${this.baseUrl}/v1/duplicates${
+            queryString ? `?${queryString}` : ''
+        }`;
+        const res = await this.fetcher(url, {
+            method: 'GET',
+            headers: this.defaultHeaders,
+        });
+        await this.ensureOk(res, 'listDuplicates');
+        return (await res.json()) as paths['/v1/duplicates']['get']['responses']['200']['content']['application/json'];
+    }
+
+    /** POST /v1/duplicates/{id}/dismiss */
+    async dismissDuplicate(
+        id: string
+    ): Promise<
+        paths['/v1/duplicates/{id}/dismiss']['post']['responses']['200']['content']['application/json']
+    > {
+        const url = `${this.baseUrl}/v1/duplicates/${encodeURIComponent(id)}/dismiss`;
+        const res = await this.fetcher(url, {
+            method: 'POST',
+            headers: this.defaultHeaders,
+        });
+        await this.ensureOk(res, 'dismissDuplicate');
+        return (await res.json()) as paths['/v1/duplicates/{id}/dismiss']['post']['responses']['200']['content']['application/json'];
+    }
+
+    /** POST /v1/duplicates/{id}/resolve */
+    async resolveDuplicate(
+        id: string,
+        body: paths['/v1/duplicates/{id}/resolve']['post']['requestBody']['content']['application/json']
+    ): Promise<
+        paths['/v1/duplicates/{id}/resolve']['post']['responses']['200']['content']['application/json']
+    > {
+        const url = `${this.baseUrl}/v1/duplicates/${encodeURIComponent(id)}/resolve`;
+        const res = await this.fetcher(url, {
+            method: 'POST',
+            headers: {
+                'content-type': 'application/json',
+                ...this.defaultHeaders,
+            },
+            body: JSON.stringify(body),
+        });
+
+        await this.ensureOk(res, 'resolveDuplicate');
+        return (await res.json()) as paths['/v1/duplicates/{id}/resolve']['post']['responses']['200']['content']['application/json'];
+    }
+
+    /** POST /v1/qa/stream - the raw event stream, e.g. to proxy it */
+    async openQaStream(
+        body: QaStreamRequest,
+        opts?: { signal?: AbortSignal }
+    ): Promise<Response> {
+        const url = `${this.baseUrl}/v1/qa/stream`;
+        const res = await this.fetcher(url, {
+            method: 'POST',
+            headers: {
+                'content-type': 'application/json',
+                accept: 'text/event-stream',
+                ...this.defaultHeaders,
+            },
+            body: JSON.stringify(body),
+            signal: opts?.signal,
+        });
+
+        await this.ensureOk(res, 'openQaStream');
+        return res;
+    }
+
+    /** POST /v1/qa/stream - parsed events; aborting `signal` cancels generation */
+    async *streamQa(
+        body: QaStreamRequest,
+        opts?: { signal?: AbortSignal }
+    ): AsyncGenerator<QaStreamEvent> {
+        const res = await this.openQaStream(body, opts);
+        if (!res.body) {
+            throw new Error('openQaStream failed: empty response body');
+        }
+        yield* readQaStream(res.body);
+    }
+
+    /** GET /v1/qa/threads */
+    async listQaThreads(): Promise<
+        paths['/v1/qa/threads']['get']['responses']['200']['content']['application/json']
+    > {
+        const url = `${this.baseUrl}/v1/qa/threads`;
+        const res = await this.fetcher(url, {
+            method: 'GET',
+            headers: this.defaultHeaders,
+        });
+        await this.ensureOk(res, 'listQaThreads');
+        return (await res.json()) as paths['/v1/qa/threads']['get']['responses']['200']['content']['application/json'];
+    }
+
+    /** POST /v1/qa/threads */
+    async createQaThread(
+        body: paths['/v1/qa/threads']['post']['requestBody']['content']['application/json'] = {}
+    ): Promise<
+        paths['/v1/qa/threads']['post']['responses']['201']['content']['application/json']
+    > {
+        const url = `${this.baseUrl}/v1/qa/threads`;
+        const res = await this.fetcher(url, {
+            method: 'POST',
+            headers: {
+                'content-type': 'application/json',
+                ...this.defaultHeaders,
+            },
+            body: JSON.stringify(body),
+        });
+
+        await this.ensureOk(res, 'createQaThread');
+        return (await res.json()) as paths['/v1/qa/threads']['post']['responses']['201']['content']['application/json'];
+    }
+
+    /** GET /v1/qa/threads/{id} */
+    async getQaThread(
+        id: string
+    ): Promise<
+        paths['/v1/qa/threads/{id}']['get']['responses']['200']['content']['application/json']
+    > {
+        const url = `${this.baseUrl}/v1/qa/threads/${encodeURIComponent(id)}`;
+        const res = await this.fetcher(url, {
+            method: 'GET',
+            headers: this.defaultHeaders,
+        });
+        await this.ensureOk(res, 'getQaThread');
+        return (await res.json()) as paths['/v1/qa/threads/{id}']['get']['responses']['200']['content']['application/json'];
+    }
+
+    /** DELETE /v1/qa/threads/{id} */
+    async deleteQaThread(id: string): Promise<void> {
+        const url = `${this.baseUrl}/v1/qa/threads/${encodeURIComponent(id)}`;
+        const res = await this.fetcher(url, {
+            method: 'DELETE',
+            headers: this.defaultHeaders,
+        });
+
+        await this.ensureOk(res, 'deleteQaThread');
+    }
+
+    /** POST /v1/qa/threads/{id}/messages */
+    async postQaMessage(
+        id: string,
+        body: paths['/v1/qa/threads/{id}/messages']['post']['requestBody']['content']['application/json']
+    ): Promise<
+        paths['/v1/qa/threads/{id}/messages']['post']['responses']['200']['content']['application/json']
+    > {
+        const url = `${this.baseUrl}/v1/qa/threads/${encodeURIComponent(id)}/messages`;
+        const res = await this.fetcher(url, {
+            method: 'POST',
+            headers: {
+                'content-type': 'application/json',
+                ...this.defaultHeaders,
+            },
+            body: JSON.stringify(body),
+        });
+
+        await this.ensureOk(res, 'postQaMessage');
+        return (await res.json()) as paths['/v1/qa/threads/{id}/messages']['post']['responses']['200']['content']['application/json'];
+    }
+
     /** GET /v1/reminders/pending */
     async getPendingReminders(): Promise<
         paths['/v1/reminders/pending']['get']['responses']['200']['content']['application/json']
@@ -634,7 +1064,11 @@ export class SearchHubClient {
             if (value === undefined || value === null) {
                 return;
             }
-            searchParams.append(key, String(value));
+            // list filters (e.g. tagIds) are sent comma-separated
+            searchParams.append(
+                key,
+                Array.isArray(value) ? value.join(',') : String(value)
+            );
         });
         const qs = searchParams.toString();
         const url = `${this.baseUrl}/v1/search${qs ? `?${qs}` : ''}`;
@@ -646,6 +1080,26 @@ export class SearchHubClient {
         return (await res.json()) as paths['/v1/search']['get']['responses']['200']['content']['application/json'];
     }
 
+    /** GET /v1/search/suggest */
+    async suggest(
+        params: paths['/v1/search/suggest']['get']['parameters']['query']
+    ): Promise<
+        paths['/v1/search/suggest']['get']['responses']['200']['content']['application/json']
+    > {
+        const searchParams = new URLSearchParams();
+        searchParams.set('prefix', params.prefix);
+        if (params.limit !== undefined) {
+            searchParams.set('limit', String(params.limit));
+        }
+        const url = `${this.baseUrl}/v1/search/suggest?${searchParams.toString()}`;
+        const res = await this.fetcher(url, {
+            method: 'GET',
+            headers: this.defaultHeaders,
+        });
+        await this.ensureOk(res, 'suggest');
+        return (await res.json()) as paths['/v1/search/suggest']['get']['responses']['200']['content']['application/json'];
+    }
+
     /** GET /v1/admin/indexing */
     async getIndexingStatus(params?: {
         includeRecent?: boolean;
@@ -680,6 +1134,19 @@ export class SearchHubClient {
         return (await res.json()) as paths['/v1/admin/indexing']['get']['responses']['200']['content']['application/json'];
     }
 
+    /** GET /v1/admin/vector-index */
+    async getVectorIndexHealth(): Promise<
+        paths['/v1/admin/vector-index']['get']['responses']['200']['content']['application/json']
+    > {
+        const url = `${this.baseUrl}/v1/admin/vector-index`;
+        const res = await this.fetcher(url, {
+            method: 'GET',
+            headers: this.defaultHeaders,
+        });
+        await this.ensureOk(res, 'getVectorIndexHealth');
+        return (await res.json()) as paths['/v1/admin/vector-index']['get']['responses']['200']['content']['application/json'];
+    }
+
     /** GET /v1/search-analytics/recent */
     async getRecentSearches(params?: {
         limit?: number;
@@ -888,6 +1355,48 @@ export class SearchHubClient {
     }
 }
 
+/**
+ * Parse a POST /v1/qa/stream response body into its events. Stopping early
+ * cancels the underlying stream.
+ */
+export async function* readQaStream(
+    body: ReadableStream<Uint8Array>
+): AsyncGenerator<QaStreamEvent> {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let finished = false;
+
+    try {
+        while (!finished) {
+            const { done, value } = await reader.read();
+            finished = done;
+            buffer += decoder.decode(value, { stream: !done });
+
+            // events are separated by a blank line; only `data:` lines carry the payload
+            let boundary = buffer.indexOf('\n\n');
+            while (boundary !== -1) {
+                const data = buffer
+                    .slice(0, boundary)
+                    .split('\n')
+                    .filter((line) => line.startsWith('data:'))
+                    .map((line) => line.slice(5).trimStart())
+                    .join('\n');
+                buffer = buffer.slice(boundary + 2);
+                if (data) {
+                    yield JSON.parse(data) as QaStreamEvent;
+                }
+                boundary = buffer.indexOf('\n\n');
+            }
+        }
+    } finally {
+        if (!finished) {
+            await reader.cancel().catch(() => undefined);
+        }
+        reader.releaseLock();
+    }
+}
+
 async function safeText(res: Response) {
     try {
         return await res.text();
@@ -1045,104 +1045,93 @@ export interface paths {
         patch?: never;
         trace?: never;
     };
-    "/v1/documents": {
+    "/v1/tenants/{tenantId}/search-settings": {
         parameters: {
             query?: never;
             header?: never;
             path?: never;
             cookie?: never;
         };
+        /** Get workspace search settings */
         get: {
             parameters: {
-                query?: {
-                    limit?: number;
-                    cursor?: string;
-                    favoritesOnly?: boolean | "true" | "false";
-                };
+                query?: never;
                 header?: never;
-                path?: never;
+                path: {
+                    /** @description A unique identifier string */
+                    tenantId: string;
+                };
                 cookie?: never;
             };
             requestBody?: never;
             responses: {
-                /** @description OK */
+                /** @description Effective lexical ranking weights (defaults merged with overrides) and search language */
                 200: {
                     headers: {
                         [name: string]: unknown;
                     };
                     content: {
                         "application/json": {
-                            documents: {
-                                items: {
-                                    /**
-                                     * @description A unique identifier string
-                                     * @example abc123
-                                     */
-                                    id: string;
-                                    /**
-                                     * @description Document title
-                                     * @example Launch plan
-                                     */
-                                    title: string;
-                                    /**
-                                     * Format: date-time
-                                     * @description Document last update timestamp
-                                     */
-                                    updatedAt: string;
-                                    /** @description List of tags associated with the document */
-                                    tags: {
-                                        /**
-                                         * @description A unique identifier string
-                                         * @example abc123
-                                         */
-                                        id: string;
-                                        name: string;
-                                        color: string | null;
-                                        description?: string | null;
-                                        documentCount?: number;
-                                    }[];
-                                    /** @description Indicator whether the document is owned by the current user */
-                                    ownedByMe: boolean;
-                                    /** @description Indicator whether the document has any active reminders */
-                                    hasReminders: boolean;
-                                    /**
-                                     * @description User who created the document
-                                     * @example abc123
-                                     */
-                                    createdById: string;
-                                    /** @description Name of the user who created the document */
-                                    createdByName: string;
-                                    /** @description Optional brief summary or excerpt of the document */
-                                    summary: string | null;
-                                    /** @description Arbitrary document metadata such as tags or ingestion details. */
-                                    metadata?: {
-                                        [key: string]: unknown;
-                                    } | null;
-                                    /** @description Indicator whether the document is marked as favorite by the user */
-                                    isFavorite: boolean;
-                                }[];
-                                nextCursor?: string;
-                                /** @default false */
-                                hasMore: boolean;
+                            /** @description Lexical ranking weights per field (title, headings, lead, body) */
+                            rankWeights: {
+                                /**
+                                 * @description Weight of title matches
+                                 * @default 1
+                                 * @example 1
+                                 */
+                                title: number;
+                                /**
+                                 * @description Weight of section heading matches
+                                 * @default 0.4
+                                 * @example 0.4
+                                 */
+                                headings: number;
+                                /**
+                                 * @description Weight of matches in the opening section of the body
+                                 * @default 0.2
+                                 * @example 0.2
+                                 */
+                                lead: number;
+                                /**
+                                 * @description Weight of matches in the rest of the body
+                                 * @default 0.1
+                                 * @example 0.1
+                                 */
+                                body: number;
                             };
-                        };
-                    };
-                };
-                /** @description Bad Request - Validation error */
-                400: {
-                    headers: {
-                        [name: string]: unknown;
-                    };
-                    content: {
-                        "application/json": {
-                            error: {
-                                message: string;
-                                code: string;
-                                traceId: string;
-                                details?: {
-                                    [key: string]: unknown;
-                                };
+                            /**
+                             * @description Default full-text search language; documents detected as another language at index time keep their own
+                             * @example english
+                             * @enum {string}
+                             */
+                            textSearchConfig: "simple" | "arabic" | "armenian" | "basque" | "catalan" | "danish" | "dutch" | "english" | "finnish" | "french" | "german" | "greek" | "hindi" | "hungarian" | "indonesian" | "irish" | "italian" | "lithuanian" | "nepali" | "norwegian" | "portuguese" | "romanian" | "russian" | "serbian" | "spanish" | "swedish" | "tamil" | "turkish" | "yiddish" | "chinese" | "japanese" | "korean";
+                            /** @description Default fusion of lexical and semantic rankings in hybrid search */
+                            hybridFusion: {
+                                /**
+                                 * @description rrf = Reciprocal Rank Fusion; minmax/zscore = normalized ts_rank and rerank scores blended by alpha; semantic_first = semantic hits first, then lexical-only hits
+                                 * @default rrf
+                                 * @example rrf
+                                 * @enum {string}
+                                 */
+                                mode: "rrf" | "minmax" | "zscore" | "semantic_first";
+                                /**
+                                 * @description Weight of the semantic score in minmax/zscore fusion (0 = lexical only, 1 = semantic only)
+                                 * @default 0.5
+                                 * @example 0.5
+                                 */
+                                alpha: number;
+                                /**
+                                 * @description Reciprocal Rank Fusion constant. Lower values favor top ranks more strongly.
+                                 * @default 60
+                                 * @example 60
+                                 */
+                                rrfK: number;
                             };
+                            /**
+                             * @description Chat model for Q&A answers; null uses the server default (LLM_MODEL)
+                             * @example llama-3.1-8b-instant
+                             */
+                            llmModel: string | null;
                         };
                     };
                 };
@@ -1164,7 +1153,7 @@ export interface paths {
                         };
                     };
                 };
-                /** @description Forbidden - Tenant access denied */
+                /** @description Forbidden - User not member of tenant */
                 403: {
                     headers: {
                         [name: string]: unknown;
@@ -1203,95 +1192,139 @@ export interface paths {
             };
         };
         put?: never;
-        post: {
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        /**
+         * Update workspace search settings
+         * @description Owners and admins can tune how strongly title, heading, lead and body matches count in lexical ranking, and set the language used for stemming and stop words.
+         */
+        patch: {
             parameters: {
                 query?: never;
                 header?: never;
-                path?: never;
+                path: {
+                    /** @description A unique identifier string */
+                    tenantId: string;
+                };
                 cookie?: never;
             };
             requestBody: {
                 content: {
                     "application/json": {
-                        title?: string;
                         /**
-                         * @description How the document was created/imported
-                         * @default editor
+                         * @description Weights to change; omitted fields keep their current value, null resets all to defaults
+                         * @example {
+                         *       "title": 1,
+                         *       "body": 0.05
+                         *     }
+                         */
+                        rankWeights?: {
+                            title?: number;
+                            headings?: number;
+                            lead?: number;
+                            body?: number;
+                        } | null;
+                        /**
+                         * @description Default full-text search language; changing it rebuilds the search index of affected documents
+                         * @example french
                          * @enum {string}
                          */
-                        source?: "editor" | "url";
-                        /** Format: uri */
-                        sourceUrl?: string | null;
-                        content?: string | null;
+                        textSearchConfig?: "simple" | "arabic" | "armenian" | "basque" | "catalan" | "danish" | "dutch" | "english" | "finnish" | "french" | "german" | "greek" | "hindi" | "hungarian" | "indonesian" | "irish" | "italian" | "lithuanian" | "nepali" | "norwegian" | "portuguese" | "romanian" | "russian" | "serbian" | "spanish" | "swedish" | "tamil" | "turkish" | "yiddish" | "chinese" | "japanese" | "korean";
                         /**
-                         * @description Arbitrary document metadata such as tags or ingestion details.
-                         * @default {}
+                         * @description Fusion settings to change; omitted fields keep their current value, null resets to RRF with k = 60
+                         * @example {
+                         *       "mode": "minmax",
+                         *       "alpha": 0.6
+                         *     }
                          */
-                        metadata?: {
-                            [key: string]: unknown;
-                        };
+                        hybridFusion?: {
+                            /**
+                             * @description rrf = Reciprocal Rank Fusion; minmax/zscore = normalized ts_rank and rerank scores blended by alpha; semantic_first = semantic hits first, then lexical-only hits
+                             * @example rrf
+                             * @enum {string}
+                             */
+                            mode?: "rrf" | "minmax" | "zscore" | "semantic_first";
+                            alpha?: number;
+                            rrfK?: number;
+                        } | null;
+                        /**
+                         * @description Chat model for Q&A answers; null resets to the server default
+                         * @example llama-3.1-8b-instant
+                         */
+                        llmModel?: string | null;
                     };
                 };
             };
             responses: {
-                /** @description Queued */
-                202: {
+                /** @description Updated search settings */
+                200: {
                     headers: {
                         [name: string]: unknown;
                     };
                     content: {
                         "application/json": {
+                            /** @description Lexical ranking weights per field (title, headings, lead, body) */
+                            rankWeights: {
+                                /**
+                                 * @description Weight of title matches
+                                 * @default 1
+                                 * @example 1
+                                 */
+                                title: number;
+                                /**
+                                 * @description Weight of section heading matches
+                                 * @default 0.4
+                                 * @example 0.4
+                                 */
+                                headings: number;
+                                /**
+                                 * @description Weight of matches in the opening section of the body
+                                 * @default 0.2
+                                 * @example 0.2
+                                 */
+                                lead: number;
+                                /**
+                                 * @description Weight of matches in the rest of the body
+                                 * @default 0.1
+                                 * @example 0.1
+                                 */
+                                body: number;
+                            };
                             /**
-                             * @description Document identifier assigned by the server
-                             * @example doc_123
-                             */
-                            id: string;
-                            /**
-                             * @description Owning tenant identifier
-                             * @example tenant_123
-                             */
-                            tenantId: string;
-                            /**
-                             * @description Document title
-                             * @example Launch plan
-                             */
-                            title: string;
-                            /**
-                             * @description Creation source
+                             * @description Default full-text search language; documents detected as another language at index time keep their own
+                             * @example english
                              * @enum {string}
                              */
-                            source: "editor" | "url";
-                            /**
-                             * Format: uri
-                             * @description Original URL when the document was generated from a link
-                             */
-                            sourceUrl: string | null;
-                            /** @description Markdown or raw document body */
-                            content: string | null;
-                            /** @description Additional metadata such as tags or ingestion info */
-                            metadata: {
-                                [key: string]: unknown;
+                            textSearchConfig: "simple" | "arabic" | "armenian" | "basque" | "catalan" | "danish" | "dutch" | "english" | "finnish" | "french" | "german" | "greek" | "hindi" | "hungarian" | "indonesian" | "irish" | "italian" | "lithuanian" | "nepali" | "norwegian" | "portuguese" | "romanian" | "russian" | "serbian" | "spanish" | "swedish" | "tamil" | "turkish" | "yiddish" | "chinese" | "japanese" | "korean";
+                            /** @description Default fusion of lexical and semantic rankings in hybrid search */
+                            hybridFusion: {
+                                /**
+                                 * @description rrf = Reciprocal Rank Fusion; minmax/zscore = normalized ts_rank and rerank scores blended by alpha; semantic_first = semantic hits first, then lexical-only hits
+                                 * @default rrf
+                                 * @example rrf
+                                 * @enum {string}
+                                 */
+                                mode: "rrf" | "minmax" | "zscore" | "semantic_first";
+                                /**
+                                 * @description Weight of the semantic score in minmax/zscore fusion (0 = lexical only, 1 = semantic only)
+                                 * @default 0.5
+                                 * @example 0.5
+                                 */
+                                alpha: number;
+                                /**
+                                 * @description Reciprocal Rank Fusion constant. Lower values favor top ranks more strongly.
+                                 * @default 60
+                                 * @example 60
+                                 */
+                                rrfK: number;
                             };
                             /**
-                             * @description User who created the document
-                             * @example abc123
-                             */
-                            createdById: string;
-                            /**
-                             * @description User who last updated the document
-                             * @example abc123
-                             */
-                            updatedById: string;
-                            /**
-                             * Format: date-time
-                             * @description Document creation timestamp
-                             */
-                            createdAt: string;
-                            /**
-                             * Format: date-time
-                             * @description Document last update timestamp
+                             * @description Chat model for Q&A answers; null uses the server default (LLM_MODEL)
+                             * @example llama-3.1-8b-instant
                              */
-                            updatedAt: string;
+                            llmModel: string | null;
                         };
                     };
                 };
@@ -1331,7 +1364,7 @@ export interface paths {
                         };
                     };
                 };
-                /** @description Forbidden - Tenant access denied */
+                /** @description Forbidden - Owner or admin role required */
                 403: {
                     headers: {
                         [name: string]: unknown;
@@ -1369,109 +1402,3149 @@ export interface paths {
                 };
             };
         };
-        delete?: never;
-        options?: never;
-        head?: never;
-        patch?: never;
         trace?: never;
     };
-    "/v1/documents/{id}": {
+    "/v1/tenants/{tenantId}/embedding-migrations": {
         parameters: {
             query?: never;
             header?: never;
             path?: never;
             cookie?: never;
         };
+        /** List embedding model migrations */
         get: {
             parameters: {
                 query?: never;
                 header?: never;
-                path?: never;
+                path: {
+                    /** @description A unique identifier string */
+                    tenantId: string;
+                };
                 cookie?: never;
             };
             requestBody?: never;
             responses: {
-                /** @description OK */
+                /** @description Active embedding model and recent migrations, newest first */
                 200: {
                     headers: {
                         [name: string]: unknown;
                     };
                     content: {
                         "application/json": {
-                            document: {
+                            /** @description Model semantic search compares against; null = the deployment's default model */
+                            activeModel: string | null;
+                            migrations: {
                                 /**
-                                 * @description Document identifier assigned by the server
-                                 * @example doc_123
+                                 * @description A unique identifier string
+                                 * @example abc123
                                  */
                                 id: string;
                                 /**
-                                 * @description Owning tenant identifier
-                                 * @example tenant_123
-                                 */
-                                tenantId: string;
-                                /**
-                                 * @description Document title
-                                 * @example Launch plan
-                                 */
-                                title: string;
-                                /**
-                                 * @description Creation source
-                                 * @enum {string}
-                                 */
-                                source: "editor" | "url";
-                                /**
-                                 * Format: uri
-                                 * @description Original URL when the document was generated from a link
-                                 */
-                                sourceUrl: string | null;
-                                /** @description Markdown or raw document body */
-                                content: string | null;
-                                /** @description Additional metadata such as tags or ingestion info */
-                                metadata: {
-                                    [key: string]: unknown;
-                                };
-                                /**
-                                 * @description User who created the document
+                                 * @description A unique identifier string
                                  * @example abc123
                                  */
-                                createdById: string;
+                                tenantId: string;
                                 /**
-                                 * @description User who last updated the document
-                                 * @example abc123
+                                 * @description Embedding model id as "provider:model:dimensions"
+                                 * @example openai:text-embedding-3-small:1024
                                  */
-                                updatedById: string;
+                                targetModel: string;
+                                /** @enum {string} */
+                                status: "queued" | "running" | "completed" | "failed";
+                                totalChunks: number;
+                                processedChunks: number;
+                                error: string | null;
+                                /** Format: date-time */
+                                startedAt: string | null;
+                                /** Format: date-time */
+                                completedAt: string | null;
                                 /**
                                  * Format: date-time
-                                 * @description Document creation timestamp
+                                 * @description When semantic search switched to the target model
                                  */
+                                cutoverAt: string | null;
+                                /** Format: date-time */
+                                createdAt: string;
+                            }[];
+                        };
+                    };
+                };
+                /** @description Unauthorized - Authentication required */
+                401: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            error: {
+                                message: string;
+                                code: string;
+                                traceId: string;
+                                details?: {
+                                    [key: string]: unknown;
+                                };
+                            };
+                        };
+                    };
+                };
+                /** @description Forbidden - Owner or admin role required */
+                403: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            error: {
+                                message: string;
+                                code: string;
+                                traceId: string;
+                                details?: {
+                                    [key: string]: unknown;
+                                };
+                            };
+                        };
+                    };
+                };
+                /** @description Internal Server Error */
+                500: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            error: {
+                                message: string;
+                                code: string;
+                                traceId: string;
+                                details?: {
+                                    [key: string]: unknown;
+                                };
+                            };
+                        };
+                    };
+                };
+            };
+        };
+        put?: never;
+        /**
+         * Start re-embedding the workspace with another model
+         * @description Owners and admins can re-embed every chunk with a new model in the background. Search keeps using the current model until the migration is cut over.
+         */
+        post: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path: {
+                    /** @description A unique identifier string */
+                    tenantId: string;
+                };
+                cookie?: never;
+            };
+            requestBody: {
+                content: {
+                    "application/json": {
+                        /**
+                         * @description Embedding provider; credentials come from the server
+                         * @example openai
+                         * @enum {string}
+                         */
+                        provider: "voyage" | "openai" | "local";
+                        /**
+                         * @description Provider model name
+                         * @example text-embedding-3-small
+                         */
+                        model: string;
+                        /**
+                         * @description Vector size requested from the model
+                         * @example 1024
+                         */
+                        dimensions: number;
+                    };
+                };
+            };
+            responses: {
+                /** @description Migration queued */
+                202: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            /**
+                             * @description A unique identifier string
+                             * @example abc123
+                             */
+                            id: string;
+                            /**
+                             * @description A unique identifier string
+                             * @example abc123
+                             */
+                            tenantId: string;
+                            /**
+                             * @description Embedding model id as "provider:model:dimensions"
+                             * @example openai:text-embedding-3-small:1024
+                             */
+                            targetModel: string;
+                            /** @enum {string} */
+                            status: "queued" | "running" | "completed" | "failed";
+                            totalChunks: number;
+                            processedChunks: number;
+                            error: string | null;
+                            /** Format: date-time */
+                            startedAt: string | null;
+                            /** Format: date-time */
+                            completedAt: string | null;
+                            /**
+                             * Format: date-time
+                             * @description When semantic search switched to the target model
+                             */
+                            cutoverAt: string | null;
+                            /** Format: date-time */
+                            createdAt: string;
+                        };
+                    };
+                };
+                /** @description Bad Request - Validation error */
+                400: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            error: {
+                                message: string;
+                                code: string;
+                                traceId: string;
+                                details?: {
+                                    [key: string]: unknown;
+                                };
+                            };
+                        };
+                    };
+                };
+                /** @description Unauthorized - Authentication required */
+                401: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            error: {
+                                message: string;
+                                code: string;
+                                traceId: string;
+                                details?: {
+                                    [key: string]: unknown;
+                                };
+                            };
+                        };
+                    };
+                };
+                /** @description Forbidden - Owner or admin role required */
+                403: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            error: {
+                                message: string;
+                                code: string;
+                                traceId: string;
+                                details?: {
+                                    [key: string]: unknown;
+                                };
+                            };
+                        };
+                    };
+                };
+                /** @description Conflict - A migration is already in progress */
+                409: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            error: {
+                                message: string;
+                                code: string;
+                                traceId: string;
+                                details?: {
+                                    [key: string]: unknown;
+                                };
+                            };
+                        };
+                    };
+                };
+                /** @description Internal Server Error */
+                500: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            error: {
+                                message: string;
+                                code: string;
+                                traceId: string;
+                                details?: {
+                                    [key: string]: unknown;
+                                };
+                            };
+                        };
+                    };
+                };
+            };
+        };
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/v1/tenants/{tenantId}/embedding-migrations/{migrationId}/cutover": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /** Switch semantic search to a migrated model */
+        post: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path: {
+                    /** @description A unique identifier string */
+                    tenantId: string;
+                    /** @description A unique identifier string */
+                    migrationId: string;
+                };
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description Migration cut over */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            /**
+                             * @description A unique identifier string
+                             * @example abc123
+                             */
+                            id: string;
+                            /**
+                             * @description A unique identifier string
+                             * @example abc123
+                             */
+                            tenantId: string;
+                            /**
+                             * @description Embedding model id as "provider:model:dimensions"
+                             * @example openai:text-embedding-3-small:1024
+                             */
+                            targetModel: string;
+                            /** @enum {string} */
+                            status: "queued" | "running" | "completed" | "failed";
+                            totalChunks: number;
+                            processedChunks: number;
+                            error: string | null;
+                            /** Format: date-time */
+                            startedAt: string | null;
+                            /** Format: date-time */
+                            completedAt: string | null;
+                            /**
+                             * Format: date-time
+                             * @description When semantic search switched to the target model
+                             */
+                            cutoverAt: string | null;
+                            /** Format: date-time */
+                            createdAt: string;
+                        };
+                    };
+                };
+                /** @description Unauthorized - Authentication required */
+                401: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            error: {
+                                message: string;
+                                code: string;
+                                traceId: string;
+                                details?: {
+                                    [key: string]: unknown;
+                                };
+                            };
+                        };
+                    };
+                };
+                /** @description Forbidden - Owner or admin role required */
+                403: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            error: {
+                                message: string;
+                                code: string;
+                                traceId: string;
+                                details?: {
+                                    [key: string]: unknown;
+                                };
+                            };
+                        };
+                    };
+                };
+                /** @description Migration not found */
+                404: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            error: {
+                                message: string;
+                                code: string;
+                                traceId: string;
+                                details?: {
+                                    [key: string]: unknown;
+                                };
+                            };
+                        };
+                    };
+                };
+                /** @description Conflict - Migration has not completed */
+                409: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            error: {
+                                message: string;
+                                code: string;
+                                traceId: string;
+                                details?: {
+                                    [key: string]: unknown;
+                                };
+                            };
+                        };
+                    };
+                };
+                /** @description Internal Server Error */
+                500: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            error: {
+                                message: string;
+                                code: string;
+                                traceId: string;
+                                details?: {
+                                    [key: string]: unknown;
+                                };
+                            };
+                        };
+                    };
+                };
+            };
+        };
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/v1/tenants/{tenantId}/digests": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /**
+         * List weekly workspace digests
+         * @description Generated every Monday for the previous week (UTC) in workspaces with activity. Most recent first.
+         */
+        get: {
+            parameters: {
+                query?: {
+                    /** @description Number of weeks to return, most recent first */
+                    limit?: number;
+                };
+                header?: never;
+                path: {
+                    /** @description A unique identifier string */
+                    tenantId: string;
+                };
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description OK */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            digests: {
+                                /**
+                                 * @description A unique identifier string
+                                 * @example abc123
+                                 */
+                                id: string;
+                                /**
+                                 * Format: date-time
+                                 * @description Start of the week covered (Monday 00:00 UTC)
+                                 */
+                                periodStart: string;
+                                /**
+                                 * Format: date-time
+                                 * @description End of the week covered, exclusive
+                                 */
+                                periodEnd: string;
+                                /** @description Generated write-up of the week */
+                                summary: string;
+                                activity: {
+                                    documentsCreated: number;
+                                    /** @description Edited this week but created earlier */
+                                    documentsUpdated: number;
+                                    searches: number;
+                                    /** @description Reminders past due and not done when the digest was made */
+                                    overdueReminders: number;
+                                    /** @description Most recently changed documents */
+                                    documents: {
+                                        /**
+                                         * @description A unique identifier string
+                                         * @example abc123
+                                         */
+                                        id: string;
+                                        title: string;
+                                        /**
+                                         * @description Whether the document was new this week or edited
+                                         * @example updated
+                                         * @enum {string}
+                                         */
+                                        change: "created" | "updated";
+                                        /** Format: date-time */
+                                        updatedAt: string;
+                                    }[];
+                                    topSearches: {
+                                        query: string;
+                                        count: number;
+                                    }[];
+                                    /** @description Overdue reminders, longest overdue first */
+                                    reminders: {
+                                        /**
+                                         * @description A unique identifier string
+                                         * @example abc123
+                                         */
+                                        documentId: string;
+                                        documentTitle: string;
+                                        /**
+                                         * @description The reminder as written in the document
+                                         * @example next Friday
+                                         */
+                                        whenText: string;
+                                        /** Format: date-time */
+                                        dueAt: string;
+                                    }[];
+                                };
+                                /** Format: date-time */
+                                createdAt: string;
+                            }[];
+                        };
+                    };
+                };
+                /** @description Bad Request - Validation error */
+                400: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            error: {
+                                message: string;
+                                code: string;
+                                traceId: string;
+                                details?: {
+                                    [key: string]: unknown;
+                                };
+                            };
+                        };
+                    };
+                };
+                /** @description Unauthorized - Authentication required */
+                401: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            error: {
+                                message: string;
+                                code: string;
+                                traceId: string;
+                                details?: {
+                                    [key: string]: unknown;
+                                };
+                            };
+                        };
+                    };
+                };
+                /** @description Forbidden - User is not a member of this tenant */
+                403: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            error: {
+                                message: string;
+                                code: string;
+                                traceId: string;
+                                details?: {
+                                    [key: string]: unknown;
+                                };
+                            };
+                        };
+                    };
+                };
+                /** @description Internal Server Error */
+                500: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            error: {
+                                message: string;
+                                code: string;
+                                traceId: string;
+                                details?: {
+                                    [key: string]: unknown;
+                                };
+                            };
+                        };
+                    };
+                };
+            };
+        };
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/v1/documents": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get: {
+            parameters: {
+                query?: {
+                    limit?: number;
+                    cursor?: string;
+                    favoritesOnly?: boolean | "true" | "false";
+                };
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description OK */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            documents: {
+                                items: {
+                                    /**
+                                     * @description A unique identifier string
+                                     * @example abc123
+                                     */
+                                    id: string;
+                                    /**
+                                     * @description Document title
+                                     * @example Launch plan
+                                     */
+                                    title: string;
+                                    /**
+                                     * Format: date-time
+                                     * @description Document last update timestamp
+                                     */
+                                    updatedAt: string;
+                                    /** @description List of tags associated with the document */
+                                    tags: {
+                                        /**
+                                         * @description A unique identifier string
+                                         * @example abc123
+                                         */
+                                        id: string;
+                                        name: string;
+                                        color: string | null;
+                                        description?: string | null;
+                                        documentCount?: number;
+                                    }[];
+                                    /** @description Indicator whether the document is owned by the current user */
+                                    ownedByMe: boolean;
+                                    /** @description Indicator whether the document has any active reminders */
+                                    hasReminders: boolean;
+                                    /**
+                                     * @description User who created the document
+                                     * @example abc123
+                                     */
+                                    createdById: string;
+                                    /** @description Name of the user who created the document */
+                                    createdByName: string;
+                                    /** @description Optional brief summary or excerpt of the document */
+                                    summary: string | null;
+                                    /** @description Arbitrary document metadata such as tags or ingestion details. */
+                                    metadata?: {
+                                        [key: string]: unknown;
+                                    } | null;
+                                    /** @description Indicator whether the document is marked as favorite by the user */
+                                    isFavorite: boolean;
+                                }[];
+                                nextCursor?: string;
+                                /** @default false */
+                                hasMore: boolean;
+                            };
+                        };
+                    };
+                };
+                /** @description Bad Request - Validation error */
+                400: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            error: {
+                                message: string;
+                                code: string;
+                                traceId: string;
+                                details?: {
+                                    [key: string]: unknown;
+                                };
+                            };
+                        };
+                    };
+                };
+                /** @description Unauthorized - Authentication required */
+                401: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            error: {
+                                message: string;
+                                code: string;
+                                traceId: string;
+                                details?: {
+                                    [key: string]: unknown;
+                                };
+                            };
+                        };
+                    };
+                };
+                /** @description Forbidden - Tenant access denied */
+                403: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            error: {
+                                message: string;
+                                code: string;
+                                traceId: string;
+                                details?: {
+                                    [key: string]: unknown;
+                                };
+                            };
+                        };
+                    };
+                };
+                /** @description Internal Server Error */
+                500: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            error: {
+                                message: string;
+                                code: string;
+                                traceId: string;
+                                details?: {
+                                    [key: string]: unknown;
+                                };
+                            };
+                        };
+                    };
+                };
+            };
+        };
+        put?: never;
+        post: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody: {
+                content: {
+                    "application/json": {
+                        title?: string;
+                        /**
+                         * @description How the document was created/imported
+                         * @default editor
+                         * @enum {string}
+                         */
+                        source?: "editor" | "url";
+                        /** Format: uri */
+                        sourceUrl?: string | null;
+                        content?: string | null;
+                        /**
+                         * @description Arbitrary document metadata such as tags or ingestion details.
+                         * @default {}
+                         */
+                        metadata?: {
+                            [key: string]: unknown;
+                        };
+                    };
+                };
+            };
+            responses: {
+                /** @description Queued */
+                202: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            /**
+                             * @description Document identifier assigned by the server
+                             * @example doc_123
+                             */
+                            id: string;
+                            /**
+                             * @description Owning tenant identifier
+                             * @example tenant_123
+                             */
+                            tenantId: string;
+                            /**
+                             * @description Document title
+                             * @example Launch plan
+                             */
+                            title: string;
+                            /**
+                             * @description Creation source
+                             * @enum {string}
+                             */
+                            source: "editor" | "url";
+                            /**
+                             * Format: uri
+                             * @description Original URL when the document was generated from a link
+                             */
+                            sourceUrl: string | null;
+                            /** @description Markdown or raw document body */
+                            content: string | null;
+                            /** @description Additional metadata such as tags or ingestion info */
+                            metadata: {
+                                [key: string]: unknown;
+                            };
+                            /**
+                             * @description User who created the document
+                             * @example abc123
+                             */
+                            createdById: string;
+                            /**
+                             * @description User who last updated the document
+                             * @example abc123
+                             */
+                            updatedById: string;
+                            /**
+                             * Format: date-time
+                             * @description Document creation timestamp
+                             */
+                            createdAt: string;
+                            /**
+                             * Format: date-time
+                             * @description Document last update timestamp
+                             */
+                            updatedAt: string;
+                        };
+                    };
+                };
+                /** @description Bad Request - Validation error */
+                400: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            error: {
+                                message: string;
+                                code: string;
+                                traceId: string;
+                                details?: {
+                                    [key: string]: unknown;
+                                };
+                            };
+                        };
+                    };
+                };
+                /** @description Unauthorized - Authentication required */
+                401: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            error: {
+                                message: string;
+                                code: string;
+                                traceId: string;
+                                details?: {
+                                    [key: string]: unknown;
+                                };
+                            };
+                        };
+                    };
+                };
+                /** @description Forbidden - Tenant access denied */
+                403: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            error: {
+                                message: string;
+                                code: string;
+                                traceId: string;
+                                details?: {
+                                    [key: string]: unknown;
+                                };
+                            };
+                        };
+                    };
+                };
+                /** @description Internal Server Error */
+                500: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            error: {
+                                message: string;
+                                code: string;
+                                traceId: string;
+                                details?: {
+                                    [key: string]: unknown;
+                                };
+                            };
+                        };
+                    };
+                };
+            };
+        };
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/v1/documents/{id}": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description OK */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            document: {
+                                /**
+                                 * @description Document identifier assigned by the server
+                                 * @example doc_123
+                                 */
+                                id: string;
+                                /**
+                                 * @description Owning tenant identifier
+                                 * @example tenant_123
+                                 */
+                                tenantId: string;
+                                /**
+                                 * @description Document title
+                                 * @example Launch plan
+                                 */
+                                title: string;
+                                /**
+                                 * @description Creation source
+                                 * @enum {string}
+                                 */
+                                source: "editor" | "url";
+                                /**
+                                 * Format: uri
+                                 * @description Original URL when the document was generated from a link
+                                 */
+                                sourceUrl: string | null;
+                                /** @description Markdown or raw document body */
+                                content: string | null;
+                                /** @description Additional metadata such as tags or ingestion info */
+                                metadata: {
+                                    [key: string]: unknown;
+                                };
+                                /**
+                                 * @description User who created the document
+                                 * @example abc123
+                                 */
+                                createdById: string;
+                                /**
+                                 * @description User who last updated the document
+                                 * @example abc123
+                                 */
+                                updatedById: string;
+                                /**
+                                 * Format: date-time
+                                 * @description Document creation timestamp
+                                 */
+                                createdAt: string;
+                                /**
+                                 * Format: date-time
+                                 * @description Document last update timestamp
+                                 */
+                                updatedAt: string;
+                                /** @description Whether the current user has favorited this document */
+                                isFavorite: boolean;
+                                /** @description Inline commands associated with this document */
+                                commands: {
+                                    /**
+                                     * @description A unique identifier string
+                                     * @example abc123
+                                     */
+                                    id: string;
+                                    body: unknown;
+                                    /** Format: date-time */
+                                    createdAt: string;
+                                    /**
+                                     * @description A unique identifier string
+                                     * @example abc123
+                                     */
+                                    userId: string;
+                                }[];
+                            };
+                        };
+                    };
+                };
+                /** @description Bad Request - Validation error */
+                400: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            error: {
+                                message: string;
+                                code: string;
+                                traceId: string;
+                                details?: {
+                                    [key: string]: unknown;
+                                };
+                            };
+                        };
+                    };
+                };
+                /** @description Unauthorized - Authentication required */
+                401: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            error: {
+                                message: string;
+                                code: string;
+                                traceId: string;
+                                details?: {
+                                    [key: string]: unknown;
+                                };
+                            };
+                        };
+                    };
+                };
+                /** @description Forbidden - Access denied */
+                403: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            error: {
+                                message: string;
+                                code: string;
+                                traceId: string;
+                                details?: {
+                                    [key: string]: unknown;
+                                };
+                            };
+                        };
+                    };
+                };
+                /** @description Not Found - Document does not exist */
+                404: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            error: {
+                                message: string;
+                                code: string;
+                                traceId: string;
+                                details?: {
+                                    [key: string]: unknown;
+                                };
+                            };
+                        };
+                    };
+                };
+                /** @description Internal Server Error */
+                500: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            error: {
+                                message: string;
+                                code: string;
+                                traceId: string;
+                                details?: {
+                                    [key: string]: unknown;
+                                };
+                            };
+                        };
+                    };
+                };
+            };
+        };
+        put?: never;
+        post?: never;
+        delete: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description No Content - Document deleted successfully */
+                204: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content?: never;
+                };
+                /** @description Unauthorized - Authentication required */
+                401: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            error: {
+                                message: string;
+                                code: string;
+                                traceId: string;
+                                details?: {
+                                    [key: string]: unknown;
+                                };
+                            };
+                        };
+                    };
+                };
+                /** @description Forbidden - Only owners/admins can delete documents */
+                403: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            error: {
+                                message: string;
+                                code: string;
+                                traceId: string;
+                                details?: {
+                                    [key: string]: unknown;
+                                };
+                            };
+                        };
+                    };
+                };
+                /** @description Not Found - Document does not exist */
+                404: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            error: {
+                                message: string;
+                                code: string;
+                                traceId: string;
+                                details?: {
+                                    [key: string]: unknown;
+                                };
+                            };
+                        };
+                    };
+                };
+                /** @description Internal Server Error */
+                500: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            error: {
+                                message: string;
+                                code: string;
+                                traceId: string;
+                                details?: {
+                                    [key: string]: unknown;
+                                };
+                            };
+                        };
+                    };
+                };
+            };
+        };
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/v1/documents/{id}/title": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody: {
+                content: {
+                    "application/json": {
+                        title: string;
+                    };
+                };
+            };
+            responses: {
+                /** @description Document title updated */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            document: {
+                                /**
+                                 * @description A unique identifier string
+                                 * @example abc123
+                                 */
+                                id: string;
+                                title: string;
+                            };
+                        };
+                    };
+                };
+                /** @description Bad Request - Validation error */
+                400: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            error: {
+                                message: string;
+                                code: string;
+                                traceId: string;
+                                details?: {
+                                    [key: string]: unknown;
+                                };
+                            };
+                        };
+                    };
+                };
+                /** @description Unauthorized - Authentication required */
+                401: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            error: {
+                                message: string;
+                                code: string;
+                                traceId: string;
+                                details?: {
+                                    [key: string]: unknown;
+                                };
+                            };
+                        };
+                    };
+                };
+                /** @description Forbidden - Access denied */
+                403: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            error: {
+                                message: string;
+                                code: string;
+                                traceId: string;
+                                details?: {
+                                    [key: string]: unknown;
+                                };
+                            };
+                        };
+                    };
+                };
+                /** @description Not Found - Document does not exist */
+                404: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            error: {
+                                message: string;
+                                code: string;
+                                traceId: string;
+                                details?: {
+                                    [key: string]: unknown;
+                                };
+                            };
+                        };
+                    };
+                };
+                /** @description Internal Server Error */
+                500: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            error: {
+                                message: string;
+                                code: string;
+                                traceId: string;
+                                details?: {
+                                    [key: string]: unknown;
+                                };
+                            };
+                        };
+                    };
+                };
+            };
+        };
+        trace?: never;
+    };
+    "/v1/documents/{id}/content": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody: {
+                content: {
+                    "application/json": {
+                        content?: string;
+                    };
+                };
+            };
+            responses: {
+                /** @description Document content updated */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            document: {
+                                /**
+                                 * @description A unique identifier string
+                                 * @example abc123
+                                 */
+                                id: string;
+                                /** Format: date-time */
+                                updatedAt: string;
+                            };
+                        };
+                    };
+                };
+                /** @description Bad Request - Validation error */
+                400: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            error: {
+                                message: string;
+                                code: string;
+                                traceId: string;
+                                details?: {
+                                    [key: string]: unknown;
+                                };
+                            };
+                        };
+                    };
+                };
+                /** @description Unauthorized - Authentication required */
+                401: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            error: {
+                                message: string;
+                                code: string;
+                                traceId: string;
+                                details?: {
+                                    [key: string]: unknown;
+                                };
+                            };
+                        };
+                    };
+                };
+                /** @description Forbidden - Access denied */
+                403: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            error: {
+                                message: string;
+                                code: string;
+                                traceId: string;
+                                details?: {
+                                    [key: string]: unknown;
+                                };
+                            };
+                        };
+                    };
+                };
+                /** @description Not Found - Document does not exist */
+                404: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            error: {
+                                message: string;
+                                code: string;
+                                traceId: string;
+                                details?: {
+                                    [key: string]: unknown;
+                                };
+                            };
+                        };
+                    };
+                };
+                /** @description Internal Server Error */
+                500: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            error: {
+                                message: string;
+                                code: string;
+                                traceId: string;
+                                details?: {
+                                    [key: string]: unknown;
+                                };
+                            };
+                        };
+                    };
+                };
+            };
+        };
+        trace?: never;
+    };
+    "/v1/documents/{id}/icon": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody: {
+                content: {
+                    "application/json": {
+                        /** @description Emoji used to visually represent a document */
+                        iconEmoji?: string | null;
+                    };
+                };
+            };
+            responses: {
+                /** @description Document icon updated */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            document: {
+                                /**
+                                 * @description A unique identifier string
+                                 * @example abc123
+                                 */
+                                id: string;
+                                /** @description Emoji used to visually represent a document */
+                                iconEmoji: string | null;
+                            };
+                        };
+                    };
+                };
+                /** @description Bad Request - Validation error */
+                400: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            error: {
+                                message: string;
+                                code: string;
+                                traceId: string;
+                                details?: {
+                                    [key: string]: unknown;
+                                };
+                            };
+                        };
+                    };
+                };
+                /** @description Unauthorized - Authentication required */
+                401: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            error: {
+                                message: string;
+                                code: string;
+                                traceId: string;
+                                details?: {
+                                    [key: string]: unknown;
+                                };
+                            };
+                        };
+                    };
+                };
+                /** @description Forbidden - Access denied */
+                403: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            error: {
+                                message: string;
+                                code: string;
+                                traceId: string;
+                                details?: {
+                                    [key: string]: unknown;
+                                };
+                            };
+                        };
+                    };
+                };
+                /** @description Not Found - Document does not exist */
+                404: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            error: {
+                                message: string;
+                                code: string;
+                                traceId: string;
+                                details?: {
+                                    [key: string]: unknown;
+                                };
+                            };
+                        };
+                    };
+                };
+                /** @description Internal Server Error */
+                500: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            error: {
+                                message: string;
+                                code: string;
+                                traceId: string;
+                                details?: {
+                                    [key: string]: unknown;
+                                };
+                            };
+                        };
+                    };
+                };
+            };
+        };
+        trace?: never;
+    };
+    "/v1/documents/{id}/related": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /** Documents similar to this one ("more like this"), by embedding similarity */
+        get: {
+            parameters: {
+                query?: {
+                    /** @description Maximum number of related documents */
+                    limit?: number;
+                };
+                header?: never;
+                path: {
+                    /** @description A unique identifier string */
+                    id: string;
+                };
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description OK */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            items: {
+                                /**
+                                 * @description A unique identifier string
+                                 * @example abc123
+                                 */
+                                id: string;
+                                /**
+                                 * @description Document title
+                                 * @example Launch plan
+                                 */
+                                title: string;
+                                /**
+                                 * @description Cosine similarity between the document and the closest passage of the related document
+                                 * @example 0.82
+                                 */
+                                score: number;
+                            }[];
+                            /**
+                             * @description not_indexed: the document has no vectors from the workspace embedding model yet
+                             * @example ok
+                             * @enum {string}
+                             */
+                            status: "ok" | "not_indexed";
+                        };
+                    };
+                };
+                /** @description Bad Request - Validation error */
+                400: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            error: {
+                                message: string;
+                                code: string;
+                                traceId: string;
+                                details?: {
+                                    [key: string]: unknown;
+                                };
+                            };
+                        };
+                    };
+                };
+                /** @description Unauthorized - Authentication required */
+                401: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            error: {
+                                message: string;
+                                code: string;
+                                traceId: string;
+                                details?: {
+                                    [key: string]: unknown;
+                                };
+                            };
+                        };
+                    };
+                };
+                /** @description Not Found - Document does not exist */
+                404: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            error: {
+                                message: string;
+                                code: string;
+                                traceId: string;
+                                details?: {
+                                    [key: string]: unknown;
+                                };
+                            };
+                        };
+                    };
+                };
+                /** @description Internal Server Error */
+                500: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            error: {
+                                message: string;
+                                code: string;
+                                traceId: string;
+                                details?: {
+                                    [key: string]: unknown;
+                                };
+                            };
+                        };
+                    };
+                };
+            };
+        };
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/v1/documents/{id}/reindex": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        post: {
+            parameters: {
+                query?: {
+                    /** @description Force reindex even if checksum matches */
+                    reindex?: boolean;
+                };
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description Accepted - Re-index job queued successfully */
+                202: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            message: string;
+                            jobId: string;
+                        };
+                    };
+                };
+                /** @description Unauthorized - Authentication required */
+                401: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            error: {
+                                message: string;
+                                code: string;
+                                traceId: string;
+                                details?: {
+                                    [key: string]: unknown;
+                                };
+                            };
+                        };
+                    };
+                };
+                /** @description Forbidden - Access denied */
+                403: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            error: {
+                                message: string;
+                                code: string;
+                                traceId: string;
+                                details?: {
+                                    [key: string]: unknown;
+                                };
+                            };
+                        };
+                    };
+                };
+                /** @description Not Found - Document does not exist */
+                404: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            error: {
+                                message: string;
+                                code: string;
+                                traceId: string;
+                                details?: {
+                                    [key: string]: unknown;
+                                };
+                            };
+                        };
+                    };
+                };
+                /** @description Internal Server Error */
+                500: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            error: {
+                                message: string;
+                                code: string;
+                                traceId: string;
+                                details?: {
+                                    [key: string]: unknown;
+                                };
+                            };
+                        };
+                    };
+                };
+            };
+        };
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/v1/documents/{id}/summary": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /**
+         * Regenerate the AI summary of a document
+         * @description Queues a summary job that runs even if the content is unchanged. Refused with 429 when the workspace's daily summary token budget can't cover the document.
+         */
+        post: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description Accepted - Summary job queued successfully */
+                202: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            message: string;
+                            jobId: string;
+                        };
+                    };
+                };
+                /** @description Unauthorized - Authentication required */
+                401: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            error: {
+                                message: string;
+                                code: string;
+                                traceId: string;
+                                details?: {
+                                    [key: string]: unknown;
+                                };
+                            };
+                        };
+                    };
+                };
+                /** @description Forbidden - Access denied */
+                403: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            error: {
+                                message: string;
+                                code: string;
+                                traceId: string;
+                                details?: {
+                                    [key: string]: unknown;
+                                };
+                            };
+                        };
+                    };
+                };
+                /** @description Not Found - Document does not exist */
+                404: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            error: {
+                                message: string;
+                                code: string;
+                                traceId: string;
+                                details?: {
+                                    [key: string]: unknown;
+                                };
+                            };
+                        };
+                    };
+                };
+                /** @description Too Many Requests - Daily summary budget spent or summaries disabled */
+                429: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            error: {
+                                message: string;
+                                code: string;
+                                traceId: string;
+                                details?: {
+                                    [key: string]: unknown;
+                                };
+                            };
+                        };
+                    };
+                };
+                /** @description Internal Server Error */
+                500: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            error: {
+                                message: string;
+                                code: string;
+                                traceId: string;
+                                details?: {
+                                    [key: string]: unknown;
+                                };
+                            };
+                        };
+                    };
+                };
+            };
+        };
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/v1/documents/{id}/tags": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description OK */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            tags: {
+                                /**
+                                 * @description A unique identifier string
+                                 * @example abc123
+                                 */
+                                id: string;
+                                name: string;
+                                color: string | null;
+                                description?: string | null;
+                                documentCount?: number;
+                            }[];
+                        };
+                    };
+                };
+                /** @description Bad Request - Validation error */
+                400: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            error: {
+                                message: string;
+                                code: string;
+                                traceId: string;
+                                details?: {
+                                    [key: string]: unknown;
+                                };
+                            };
+                        };
+                    };
+                };
+                /** @description Unauthorized - Authentication required */
+                401: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            error: {
+                                message: string;
+                                code: string;
+                                traceId: string;
+                                details?: {
+                                    [key: string]: unknown;
+                                };
+                            };
+                        };
+                    };
+                };
+                /** @description Forbidden - Access denied */
+                403: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            error: {
+                                message: string;
+                                code: string;
+                                traceId: string;
+                                details?: {
+                                    [key: string]: unknown;
+                                };
+                            };
+                        };
+                    };
+                };
+                /** @description Not Found - Document does not exist */
+                404: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            error: {
+                                message: string;
+                                code: string;
+                                traceId: string;
+                                details?: {
+                                    [key: string]: unknown;
+                                };
+                            };
+                        };
+                    };
+                };
+                /** @description Internal Server Error */
+                500: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            error: {
+                                message: string;
+                                code: string;
+                                traceId: string;
+                                details?: {
+                                    [key: string]: unknown;
+                                };
+                            };
+                        };
+                    };
+                };
+            };
+        };
+        put?: never;
+        post: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody: {
+                content: {
+                    "application/json": {
+                        tagIds: string[];
+                    };
+                };
+            };
+            responses: {
+                /** @description Tags added to document */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            added: {
+                                /**
+                                 * @description A unique identifier string
+                                 * @example abc123
+                                 */
+                                id: string;
+                                name: string;
+                                color: string | null;
+                                description?: string | null;
+                                documentCount?: number;
+                            }[];
+                            alreadyExists?: string[] | null;
+                            notFound?: string[] | null;
+                        };
+                    };
+                };
+                /** @description Bad Request - Validation error */
+                400: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            error: {
+                                message: string;
+                                code: string;
+                                traceId: string;
+                                details?: {
+                                    [key: string]: unknown;
+                                };
+                            };
+                        };
+                    };
+                };
+                /** @description Unauthorized - Authentication required */
+                401: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            error: {
+                                message: string;
+                                code: string;
+                                traceId: string;
+                                details?: {
+                                    [key: string]: unknown;
+                                };
+                            };
+                        };
+                    };
+                };
+                /** @description Forbidden - Access denied */
+                403: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            error: {
+                                message: string;
+                                code: string;
+                                traceId: string;
+                                details?: {
+                                    [key: string]: unknown;
+                                };
+                            };
+                        };
+                    };
+                };
+                /** @description Not Found - Document does not exist */
+                404: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            error: {
+                                message: string;
+                                code: string;
+                                traceId: string;
+                                details?: {
+                                    [key: string]: unknown;
+                                };
+                            };
+                        };
+                    };
+                };
+                /** @description Internal Server Error */
+                500: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            error: {
+                                message: string;
+                                code: string;
+                                traceId: string;
+                                details?: {
+                                    [key: string]: unknown;
+                                };
+                            };
+                        };
+                    };
+                };
+            };
+        };
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/v1/documents/{id}/tags/{tagId}": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        post?: never;
+        delete: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description Tag removed from document */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            message: string;
+                        };
+                    };
+                };
+                /** @description Bad Request - Validation error */
+                400: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            error: {
+                                message: string;
+                                code: string;
+                                traceId: string;
+                                details?: {
+                                    [key: string]: unknown;
+                                };
+                            };
+                        };
+                    };
+                };
+                /** @description Unauthorized - Authentication required */
+                401: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            error: {
+                                message: string;
+                                code: string;
+                                traceId: string;
+                                details?: {
+                                    [key: string]: unknown;
+                                };
+                            };
+                        };
+                    };
+                };
+                /** @description Forbidden - Access denied */
+                403: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            error: {
+                                message: string;
+                                code: string;
+                                traceId: string;
+                                details?: {
+                                    [key: string]: unknown;
+                                };
+                            };
+                        };
+                    };
+                };
+                /** @description Not Found - Document or tag not found */
+                404: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            error: {
+                                message: string;
+                                code: string;
+                                traceId: string;
+                                details?: {
+                                    [key: string]: unknown;
+                                };
+                            };
+                        };
+                    };
+                };
+                /** @description Internal Server Error */
+                500: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            error: {
+                                message: string;
+                                code: string;
+                                traceId: string;
+                                details?: {
+                                    [key: string]: unknown;
+                                };
+                            };
+                        };
+                    };
+                };
+            };
+        };
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/v1/documents/{id}/favorite": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        post: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description Document favorited */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            message: string;
+                        };
+                    };
+                };
+                /** @description Bad Request - Validation error */
+                400: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            error: {
+                                message: string;
+                                code: string;
+                                traceId: string;
+                                details?: {
+                                    [key: string]: unknown;
+                                };
+                            };
+                        };
+                    };
+                };
+                /** @description Unauthorized - Authentication required */
+                401: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            error: {
+                                message: string;
+                                code: string;
+                                traceId: string;
+                                details?: {
+                                    [key: string]: unknown;
+                                };
+                            };
+                        };
+                    };
+                };
+                /** @description Forbidden - Access denied */
+                403: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            error: {
+                                message: string;
+                                code: string;
+                                traceId: string;
+                                details?: {
+                                    [key: string]: unknown;
+                                };
+                            };
+                        };
+                    };
+                };
+                /** @description Not Found - Document does not exist */
+                404: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            error: {
+                                message: string;
+                                code: string;
+                                traceId: string;
+                                details?: {
+                                    [key: string]: unknown;
+                                };
+                            };
+                        };
+                    };
+                };
+                /** @description Internal Server Error */
+                500: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            error: {
+                                message: string;
+                                code: string;
+                                traceId: string;
+                                details?: {
+                                    [key: string]: unknown;
+                                };
+                            };
+                        };
+                    };
+                };
+            };
+        };
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/v1/documents/{id}/unfavorite": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        post: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description Document unfavorited */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            message: string;
+                        };
+                    };
+                };
+                /** @description Bad Request - Validation error */
+                400: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            error: {
+                                message: string;
+                                code: string;
+                                traceId: string;
+                                details?: {
+                                    [key: string]: unknown;
+                                };
+                            };
+                        };
+                    };
+                };
+                /** @description Unauthorized - Authentication required */
+                401: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            error: {
+                                message: string;
+                                code: string;
+                                traceId: string;
+                                details?: {
+                                    [key: string]: unknown;
+                                };
+                            };
+                        };
+                    };
+                };
+                /** @description Forbidden - Access denied */
+                403: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            error: {
+                                message: string;
+                                code: string;
+                                traceId: string;
+                                details?: {
+                                    [key: string]: unknown;
+                                };
+                            };
+                        };
+                    };
+                };
+                /** @description Not Found - Document does not exist */
+                404: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            error: {
+                                message: string;
+                                code: string;
+                                traceId: string;
+                                details?: {
+                                    [key: string]: unknown;
+                                };
+                            };
+                        };
+                    };
+                };
+                /** @description Internal Server Error */
+                500: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            error: {
+                                message: string;
+                                code: string;
+                                traceId: string;
+                                details?: {
+                                    [key: string]: unknown;
+                                };
+                            };
+                        };
+                    };
+                };
+            };
+        };
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/v1/tags": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get: {
+            parameters: {
+                query?: {
+                    includeCount?: "true" | "false";
+                    sortBy?: "name" | "createdAt" | "documentCount";
+                    order?: "asc" | "desc";
+                };
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description OK */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            tags: {
+                                /**
+                                 * @description A unique identifier string
+                                 * @example abc123
+                                 */
+                                id: string;
+                                name: string;
+                                color: string | null;
+                                description?: string | null;
+                                documentCount?: number;
+                            }[];
+                            total: number;
+                        };
+                    };
+                };
+                /** @description Bad Request - Validation error */
+                400: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            error: {
+                                message: string;
+                                code: string;
+                                traceId: string;
+                                details?: {
+                                    [key: string]: unknown;
+                                };
+                            };
+                        };
+                    };
+                };
+                /** @description Unauthorized - Authentication required */
+                401: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            error: {
+                                message: string;
+                                code: string;
+                                traceId: string;
+                                details?: {
+                                    [key: string]: unknown;
+                                };
+                            };
+                        };
+                    };
+                };
+                /** @description Forbidden - Access denied */
+                403: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            error: {
+                                message: string;
+                                code: string;
+                                traceId: string;
+                                details?: {
+                                    [key: string]: unknown;
+                                };
+                            };
+                        };
+                    };
+                };
+                /** @description Internal Server Error */
+                500: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            error: {
+                                message: string;
+                                code: string;
+                                traceId: string;
+                                details?: {
+                                    [key: string]: unknown;
+                                };
+                            };
+                        };
+                    };
+                };
+            };
+        };
+        put?: never;
+        post: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody: {
+                content: {
+                    "application/json": {
+                        name: string;
+                        color?: string | null;
+                        description?: string | null;
+                    };
+                };
+            };
+            responses: {
+                /** @description Tag created */
+                201: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            tag: {
+                                /**
+                                 * @description A unique identifier string
+                                 * @example abc123
+                                 */
+                                id: string;
+                                /**
+                                 * @description A unique identifier string
+                                 * @example abc123
+                                 */
+                                tenantId: string;
+                                name: string;
+                                color: string | null;
+                                description: string | null;
+                                /**
+                                 * @description A unique identifier string
+                                 * @example abc123
+                                 */
+                                createdById: string;
+                                /** Format: date-time */
                                 createdAt: string;
+                                /** Format: date-time */
+                                updatedAt: string;
+                            };
+                        };
+                    };
+                };
+                /** @description Bad Request - Validation error */
+                400: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            error: {
+                                message: string;
+                                code: string;
+                                traceId: string;
+                                details?: {
+                                    [key: string]: unknown;
+                                };
+                            };
+                        };
+                    };
+                };
+                /** @description Unauthorized - Authentication required */
+                401: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            error: {
+                                message: string;
+                                code: string;
+                                traceId: string;
+                                details?: {
+                                    [key: string]: unknown;
+                                };
+                            };
+                        };
+                    };
+                };
+                /** @description Forbidden - Access denied */
+                403: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            error: {
+                                message: string;
+                                code: string;
+                                traceId: string;
+                                details?: {
+                                    [key: string]: unknown;
+                                };
+                            };
+                        };
+                    };
+                };
+                /** @description Conflict - Tag already exists */
+                409: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            error: {
+                                message: string;
+                                code: string;
+                                traceId: string;
+                                details?: {
+                                    [key: string]: unknown;
+                                };
+                            };
+                        };
+                    };
+                };
+                /** @description Internal Server Error */
+                500: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            error: {
+                                message: string;
+                                code: string;
+                                traceId: string;
+                                details?: {
+                                    [key: string]: unknown;
+                                };
+                            };
+                        };
+                    };
+                };
+            };
+        };
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/v1/tags/{id}": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description OK */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            tag: {
                                 /**
-                                 * Format: date-time
-                                 * @description Document last update timestamp
+                                 * @description A unique identifier string
+                                 * @example abc123
+                                 */
+                                id: string;
+                                /**
+                                 * @description A unique identifier string
+                                 * @example abc123
+                                 */
+                                tenantId: string;
+                                name: string;
+                                color: string | null;
+                                description: string | null;
+                                /**
+                                 * @description A unique identifier string
+                                 * @example abc123
                                  */
+                                createdById: string;
+                                /** Format: date-time */
+                                createdAt: string;
+                                /** Format: date-time */
                                 updatedAt: string;
-                                /** @description Whether the current user has favorited this document */
-                                isFavorite: boolean;
-                                /** @description Inline commands associated with this document */
-                                commands: {
-                                    /**
-                                     * @description A unique identifier string
-                                     * @example abc123
-                                     */
-                                    id: string;
-                                    body: unknown;
-                                    /** Format: date-time */
-                                    createdAt: string;
-                                    /**
-                                     * @description A unique identifier string
-                                     * @example abc123
-                                     */
-                                    userId: string;
-                                }[];
+                            };
+                            documentCount: number;
+                        };
+                    };
+                };
+                /** @description Bad Request - Validation error */
+                400: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            error: {
+                                message: string;
+                                code: string;
+                                traceId: string;
+                                details?: {
+                                    [key: string]: unknown;
+                                };
+                            };
+                        };
+                    };
+                };
+                /** @description Unauthorized - Authentication required */
+                401: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            error: {
+                                message: string;
+                                code: string;
+                                traceId: string;
+                                details?: {
+                                    [key: string]: unknown;
+                                };
+                            };
+                        };
+                    };
+                };
+                /** @description Forbidden - Access denied */
+                403: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            error: {
+                                message: string;
+                                code: string;
+                                traceId: string;
+                                details?: {
+                                    [key: string]: unknown;
+                                };
+                            };
+                        };
+                    };
+                };
+                /** @description Not Found - Tag does not exist */
+                404: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            error: {
+                                message: string;
+                                code: string;
+                                traceId: string;
+                                details?: {
+                                    [key: string]: unknown;
+                                };
+                            };
+                        };
+                    };
+                };
+                /** @description Internal Server Error */
+                500: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            error: {
+                                message: string;
+                                code: string;
+                                traceId: string;
+                                details?: {
+                                    [key: string]: unknown;
+                                };
                             };
                         };
                     };
                 };
+            };
+        };
+        put?: never;
+        post?: never;
+        delete: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description No Content - Tag deleted successfully */
+                204: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content?: never;
+                };
                 /** @description Bad Request - Validation error */
                 400: {
                     headers: {
@@ -1526,8 +4599,99 @@ export interface paths {
                         };
                     };
                 };
-                /** @description Not Found - Document does not exist */
-                404: {
+                /** @description Not Found - Tag does not exist */
+                404: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            error: {
+                                message: string;
+                                code: string;
+                                traceId: string;
+                                details?: {
+                                    [key: string]: unknown;
+                                };
+                            };
+                        };
+                    };
+                };
+                /** @description Internal Server Error */
+                500: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            error: {
+                                message: string;
+                                code: string;
+                                traceId: string;
+                                details?: {
+                                    [key: string]: unknown;
+                                };
+                            };
+                        };
+                    };
+                };
+            };
+        };
+        options?: never;
+        head?: never;
+        patch: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody: {
+                content: {
+                    "application/json": {
+                        name?: string;
+                        color?: string | null;
+                        description?: string | null;
+                    };
+                };
+            };
+            responses: {
+                /** @description Tag updated */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            tag: {
+                                /**
+                                 * @description A unique identifier string
+                                 * @example abc123
+                                 */
+                                id: string;
+                                /**
+                                 * @description A unique identifier string
+                                 * @example abc123
+                                 */
+                                tenantId: string;
+                                name: string;
+                                color: string | null;
+                                description: string | null;
+                                /**
+                                 * @description A unique identifier string
+                                 * @example abc123
+                                 */
+                                createdById: string;
+                                /** Format: date-time */
+                                createdAt: string;
+                                /** Format: date-time */
+                                updatedAt: string;
+                            };
+                        };
+                    };
+                };
+                /** @description Bad Request - Validation error */
+                400: {
                     headers: {
                         [name: string]: unknown;
                     };
@@ -1544,8 +4708,8 @@ export interface paths {
                         };
                     };
                 };
-                /** @description Internal Server Error */
-                500: {
+                /** @description Unauthorized - Authentication required */
+                401: {
                     headers: {
                         [name: string]: unknown;
                     };
@@ -1562,28 +4726,8 @@ export interface paths {
                         };
                     };
                 };
-            };
-        };
-        put?: never;
-        post?: never;
-        delete: {
-            parameters: {
-                query?: never;
-                header?: never;
-                path?: never;
-                cookie?: never;
-            };
-            requestBody?: never;
-            responses: {
-                /** @description No Content - Document deleted successfully */
-                204: {
-                    headers: {
-                        [name: string]: unknown;
-                    };
-                    content?: never;
-                };
-                /** @description Unauthorized - Authentication required */
-                401: {
+                /** @description Forbidden - Access denied */
+                403: {
                     headers: {
                         [name: string]: unknown;
                     };
@@ -1600,8 +4744,8 @@ export interface paths {
                         };
                     };
                 };
-                /** @description Forbidden - Only owners/admins can delete documents */
-                403: {
+                /** @description Not Found - Tag does not exist */
+                404: {
                     headers: {
                         [name: string]: unknown;
                     };
@@ -1618,8 +4762,8 @@ export interface paths {
                         };
                     };
                 };
-                /** @description Not Found - Document does not exist */
-                404: {
+                /** @description Conflict - Tag already exists */
+                409: {
                     headers: {
                         [name: string]: unknown;
                     };
@@ -1656,59 +4800,78 @@ export interface paths {
                 };
             };
         };
-        options?: never;
-        head?: never;
-        patch?: never;
         trace?: never;
     };
-    "/v1/documents/{id}/title": {
+    "/v1/saved-searches": {
         parameters: {
             query?: never;
             header?: never;
             path?: never;
             cookie?: never;
         };
-        get?: never;
-        put?: never;
-        post?: never;
-        delete?: never;
-        options?: never;
-        head?: never;
-        patch: {
+        /** List the caller's saved searches with new-match counts */
+        get: {
             parameters: {
                 query?: never;
                 header?: never;
                 path?: never;
                 cookie?: never;
             };
-            requestBody: {
-                content: {
-                    "application/json": {
-                        title: string;
-                    };
-                };
-            };
+            requestBody?: never;
             responses: {
-                /** @description Document title updated */
+                /** @description OK */
                 200: {
                     headers: {
                         [name: string]: unknown;
                     };
                     content: {
                         "application/json": {
-                            document: {
+                            savedSearches: {
                                 /**
                                  * @description A unique identifier string
                                  * @example abc123
                                  */
                                 id: string;
-                                title: string;
-                            };
+                                name: string;
+                                q: string;
+                                filters: {
+                                    tagIds?: string[];
+                                    /**
+                                     * @description A unique identifier string
+                                     * @example abc123
+                                     */
+                                    authorId?: string;
+                                    /** Format: date-time */
+                                    updatedAfter?: string;
+                                    /** Format: date-time */
+                                    updatedBefore?: string;
+                                    favoritesOnly?: boolean;
+                                } | null;
+                                /**
+                                 * @description Matches recorded since the saved search was last viewed
+                                 * @example 3
+                                 */
+                                newMatchCount: number;
+                                /**
+                                 * Format: date-time
+                                 * @description Last worker run; null until the first run
+                                 */
+                                lastRunAt: string | null;
+                                /** Format: date-time */
+                                createdAt: string;
+                                /** Format: date-time */
+                                updatedAt: string;
+                            }[];
+                            /**
+                             * @description New matches across all saved searches
+                             * @example 5
+                             */
+                            newMatchCount: number;
                         };
                     };
                 };
-                /** @description Bad Request - Validation error */
-                400: {
+                /** @description Unauthorized - Authentication required */
+                401: {
                     headers: {
                         [name: string]: unknown;
                     };
@@ -1725,8 +4888,8 @@ export interface paths {
                         };
                     };
                 };
-                /** @description Unauthorized - Authentication required */
-                401: {
+                /** @description Internal Server Error */
+                500: {
                     headers: {
                         [name: string]: unknown;
                     };
@@ -1743,8 +4906,116 @@ export interface paths {
                         };
                     };
                 };
-                /** @description Forbidden - Access denied */
-                403: {
+            };
+        };
+        put?: never;
+        /**
+         * Save a search
+         * @description The query is validated and compiled when saved. A background job re-runs it periodically; its first run records the current matches as seen, later runs record newly matching documents.
+         */
+        post: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody: {
+                content: {
+                    "application/json": {
+                        /**
+                         * @description Display name
+                         * @example Incident postmortems
+                         */
+                        name: string;
+                        /**
+                         * @description Search query, same syntax as /v1/search (phrases, -exclusions, OR, field prefixes)
+                         * @example "incident postmortem" -draft
+                         */
+                        q: string;
+                        /** @description Structured filters applied on every run */
+                        filters?: {
+                            /**
+                             * @description Only match documents carrying at least one of these tag ids (comma-separated)
+                             * @example [
+                             *       "tag_123",
+                             *       "tag_456"
+                             *     ]
+                             */
+                            tagIds?: string[];
+                            /**
+                             * @description Only match documents created by this user
+                             * @example user_123
+                             */
+                            authorId?: string;
+                            /**
+                             * @description Only match documents updated at or after this time
+                             * @example 2025-01-01T00:00:00.000Z
+                             */
+                            updatedAfter?: string;
+                            /**
+                             * @description Only match documents updated before this time
+                             * @example 2025-12-31T00:00:00.000Z
+                             */
+                            updatedBefore?: string;
+                            /**
+                             * @description Only match documents in the caller's favorites
+                             * @example false
+                             */
+                            favoritesOnly?: boolean | "true" | "false";
+                        };
+                    };
+                };
+            };
+            responses: {
+                /** @description Saved search created */
+                201: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            savedSearch: {
+                                /**
+                                 * @description A unique identifier string
+                                 * @example abc123
+                                 */
+                                id: string;
+                                name: string;
+                                q: string;
+                                filters: {
+                                    tagIds?: string[];
+                                    /**
+                                     * @description A unique identifier string
+                                     * @example abc123
+                                     */
+                                    authorId?: string;
+                                    /** Format: date-time */
+                                    updatedAfter?: string;
+                                    /** Format: date-time */
+                                    updatedBefore?: string;
+                                    favoritesOnly?: boolean;
+                                } | null;
+                                /**
+                                 * @description Matches recorded since the saved search was last viewed
+                                 * @example 3
+                                 */
+                                newMatchCount: number;
+                                /**
+                                 * Format: date-time
+                                 * @description Last worker run; null until the first run
+                                 */
+                                lastRunAt: string | null;
+                                /** Format: date-time */
+                                createdAt: string;
+                                /** Format: date-time */
+                                updatedAt: string;
+                            };
+                        };
+                    };
+                };
+                /** @description Bad Request - Validation error or invalid query syntax */
+                400: {
                     headers: {
                         [name: string]: unknown;
                     };
@@ -1761,8 +5032,8 @@ export interface paths {
                         };
                     };
                 };
-                /** @description Not Found - Document does not exist */
-                404: {
+                /** @description Unauthorized - Authentication required */
+                401: {
                     headers: {
                         [name: string]: unknown;
                     };
@@ -1799,57 +5070,80 @@ export interface paths {
                 };
             };
         };
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
         trace?: never;
     };
-    "/v1/documents/{id}/content": {
+    "/v1/saved-searches/{id}": {
         parameters: {
             query?: never;
             header?: never;
             path?: never;
             cookie?: never;
         };
-        get?: never;
-        put?: never;
-        post?: never;
-        delete?: never;
-        options?: never;
-        head?: never;
-        patch: {
+        /** Get a saved search */
+        get: {
             parameters: {
                 query?: never;
                 header?: never;
-                path?: never;
-                cookie?: never;
-            };
-            requestBody: {
-                content: {
-                    "application/json": {
-                        content?: string;
-                    };
+                path: {
+                    /** @description A unique identifier string */
+                    id: string;
                 };
+                cookie?: never;
             };
+            requestBody?: never;
             responses: {
-                /** @description Document content updated */
+                /** @description OK */
                 200: {
                     headers: {
                         [name: string]: unknown;
                     };
                     content: {
                         "application/json": {
-                            document: {
+                            savedSearch: {
                                 /**
                                  * @description A unique identifier string
                                  * @example abc123
                                  */
                                 id: string;
+                                name: string;
+                                q: string;
+                                filters: {
+                                    tagIds?: string[];
+                                    /**
+                                     * @description A unique identifier string
+                                     * @example abc123
+                                     */
+                                    authorId?: string;
+                                    /** Format: date-time */
+                                    updatedAfter?: string;
+                                    /** Format: date-time */
+                                    updatedBefore?: string;
+                                    favoritesOnly?: boolean;
+                                } | null;
+                                /**
+                                 * @description Matches recorded since the saved search was last viewed
+                                 * @example 3
+                                 */
+                                newMatchCount: number;
+                                /**
+                                 * Format: date-time
+                                 * @description Last worker run; null until the first run
+                                 */
+                                lastRunAt: string | null;
+                                /** Format: date-time */
+                                createdAt: string;
                                 /** Format: date-time */
                                 updatedAt: string;
                             };
                         };
                     };
                 };
-                /** @description Bad Request - Validation error */
-                400: {
+                /** @description Unauthorized - Authentication required */
+                401: {
                     headers: {
                         [name: string]: unknown;
                     };
@@ -1866,8 +5160,26 @@ export interface paths {
                         };
                     };
                 };
-                /** @description Unauthorized - Authentication required */
-                401: {
+                /** @description Not Found - Saved search does not exist */
+                404: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            error: {
+                                message: string;
+                                code: string;
+                                traceId: string;
+                                details?: {
+                                    [key: string]: unknown;
+                                };
+                            };
+                        };
+                    };
+                };
+                /** @description Internal Server Error */
+                500: {
                     headers: {
                         [name: string]: unknown;
                     };
@@ -1884,8 +5196,32 @@ export interface paths {
                         };
                     };
                 };
-                /** @description Forbidden - Access denied */
-                403: {
+            };
+        };
+        put?: never;
+        post?: never;
+        /** Delete a saved search */
+        delete: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path: {
+                    /** @description A unique identifier string */
+                    id: string;
+                };
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description No Content - Saved search deleted successfully */
+                204: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content?: never;
+                };
+                /** @description Unauthorized - Authentication required */
+                401: {
                     headers: {
                         [name: string]: unknown;
                     };
@@ -1902,7 +5238,7 @@ export interface paths {
                         };
                     };
                 };
-                /** @description Not Found - Document does not exist */
+                /** @description Not Found - Saved search does not exist */
                 404: {
                     headers: {
                         [name: string]: unknown;
@@ -1940,57 +5276,109 @@ export interface paths {
                 };
             };
         };
-        trace?: never;
-    };
-    "/v1/documents/{id}/icon": {
-        parameters: {
-            query?: never;
-            header?: never;
-            path?: never;
-            cookie?: never;
-        };
-        get?: never;
-        put?: never;
-        post?: never;
-        delete?: never;
         options?: never;
         head?: never;
+        /**
+         * Rename a saved search or change its query
+         * @description Changing q or filters clears the recorded matches; the next run records a fresh baseline.
+         */
         patch: {
             parameters: {
                 query?: never;
                 header?: never;
-                path?: never;
+                path: {
+                    /** @description A unique identifier string */
+                    id: string;
+                };
                 cookie?: never;
             };
             requestBody: {
                 content: {
                     "application/json": {
-                        /** @description Emoji used to visually represent a document */
-                        iconEmoji?: string | null;
+                        name?: string;
+                        q?: string;
+                        /** @description Replaces the stored filters; null clears them */
+                        filters?: {
+                            /**
+                             * @description Only match documents carrying at least one of these tag ids (comma-separated)
+                             * @example [
+                             *       "tag_123",
+                             *       "tag_456"
+                             *     ]
+                             */
+                            tagIds?: string[];
+                            /**
+                             * @description Only match documents created by this user
+                             * @example user_123
+                             */
+                            authorId?: string;
+                            /**
+                             * @description Only match documents updated at or after this time
+                             * @example 2025-01-01T00:00:00.000Z
+                             */
+                            updatedAfter?: string;
+                            /**
+                             * @description Only match documents updated before this time
+                             * @example 2025-12-31T00:00:00.000Z
+                             */
+                            updatedBefore?: string;
+                            /**
+                             * @description Only match documents in the caller's favorites
+                             * @example false
+                             */
+                            favoritesOnly?: boolean | "true" | "false";
+                        } | null;
                     };
                 };
             };
             responses: {
-                /** @description Document icon updated */
+                /** @description Saved search updated */
                 200: {
                     headers: {
                         [name: string]: unknown;
                     };
                     content: {
                         "application/json": {
-                            document: {
+                            savedSearch: {
                                 /**
                                  * @description A unique identifier string
                                  * @example abc123
                                  */
                                 id: string;
-                                /** @description Emoji used to visually represent a document */
-                                iconEmoji: string | null;
+                                name: string;
+                                q: string;
+                                filters: {
+                                    tagIds?: string[];
+                                    /**
+                                     * @description A unique identifier string
+                                     * @example abc123
+                                     */
+                                    authorId?: string;
+                                    /** Format: date-time */
+                                    updatedAfter?: string;
+                                    /** Format: date-time */
+                                    updatedBefore?: string;
+                                    favoritesOnly?: boolean;
+                                } | null;
+                                /**
+                                 * @description Matches recorded since the saved search was last viewed
+                                 * @example 3
+                                 */
+                                newMatchCount: number;
+                                /**
+                                 * Format: date-time
+                                 * @description Last worker run; null until the first run
+                                 */
+                                lastRunAt: string | null;
+                                /** Format: date-time */
+                                createdAt: string;
+                                /** Format: date-time */
+                                updatedAt: string;
                             };
                         };
                     };
                 };
-                /** @description Bad Request - Validation error */
+                /** @description Bad Request - Validation error or invalid query syntax */
                 400: {
                     headers: {
                         [name: string]: unknown;
@@ -2026,25 +5414,7 @@ export interface paths {
                         };
                     };
                 };
-                /** @description Forbidden - Access denied */
-                403: {
-                    headers: {
-                        [name: string]: unknown;
-                    };
-                    content: {
-                        "application/json": {
-                            error: {
-                                message: string;
-                                code: string;
-                                traceId: string;
-                                details?: {
-                                    [key: string]: unknown;
-                                };
-                            };
-                        };
-                    };
-                };
-                /** @description Not Found - Document does not exist */
+                /** @description Not Found - Saved search does not exist */
                 404: {
                     headers: {
                         [name: string]: unknown;
@@ -2084,36 +5454,80 @@ export interface paths {
         };
         trace?: never;
     };
-    "/v1/documents/{id}/reindex": {
+    "/v1/saved-searches/{id}/matches": {
         parameters: {
             query?: never;
             header?: never;
             path?: never;
             cookie?: never;
         };
-        get?: never;
-        put?: never;
-        post: {
+        /** List documents matched by a saved search, new ones first */
+        get: {
             parameters: {
-                query?: {
-                    /** @description Force reindex even if checksum matches */
-                    reindex?: boolean;
-                };
+                query?: never;
                 header?: never;
-                path?: never;
+                path: {
+                    /** @description A unique identifier string */
+                    id: string;
+                };
                 cookie?: never;
             };
             requestBody?: never;
             responses: {
-                /** @description Accepted - Re-index job queued successfully */
-                202: {
+                /** @description OK */
+                200: {
                     headers: {
                         [name: string]: unknown;
                     };
                     content: {
                         "application/json": {
-                            message: string;
-                            jobId: string;
+                            savedSearch: {
+                                /**
+                                 * @description A unique identifier string
+                                 * @example abc123
+                                 */
+                                id: string;
+                                name: string;
+                                q: string;
+                                filters: {
+                                    tagIds?: string[];
+                                    /**
+                                     * @description A unique identifier string
+                                     * @example abc123
+                                     */
+                                    authorId?: string;
+                                    /** Format: date-time */
+                                    updatedAfter?: string;
+                                    /** Format: date-time */
+                                    updatedBefore?: string;
+                                    favoritesOnly?: boolean;
+                                } | null;
+                                /**
+                                 * @description Matches recorded since the saved search was last viewed
+                                 * @example 3
+                                 */
+                                newMatchCount: number;
+                                /**
+                                 * Format: date-time
+                                 * @description Last worker run; null until the first run
+                                 */
+                                lastRunAt: string | null;
+                                /** Format: date-time */
+                                createdAt: string;
+                                /** Format: date-time */
+                                updatedAt: string;
+                            };
+                            matches: {
+                                /**
+                                 * @description A unique identifier string
+                                 * @example abc123
+                                 */
+                                documentId: string;
+                                title: string;
+                                /** Format: date-time */
+                                matchedAt: string;
+                                isNew: boolean;
+                            }[];
                         };
                     };
                 };
@@ -2135,25 +5549,7 @@ export interface paths {
                         };
                     };
                 };
-                /** @description Forbidden - Access denied */
-                403: {
-                    headers: {
-                        [name: string]: unknown;
-                    };
-                    content: {
-                        "application/json": {
-                            error: {
-                                message: string;
-                                code: string;
-                                traceId: string;
-                                details?: {
-                                    [key: string]: unknown;
-                                };
-                            };
-                        };
-                    };
-                };
-                /** @description Not Found - Document does not exist */
+                /** @description Not Found - Saved search does not exist */
                 404: {
                     headers: {
                         [name: string]: unknown;
@@ -2191,63 +5587,78 @@ export interface paths {
                 };
             };
         };
+        put?: never;
+        post?: never;
         delete?: never;
         options?: never;
         head?: never;
         patch?: never;
         trace?: never;
     };
-    "/v1/documents/{id}/tags": {
+    "/v1/saved-searches/{id}/seen": {
         parameters: {
             query?: never;
             header?: never;
             path?: never;
             cookie?: never;
         };
-        get: {
+        get?: never;
+        put?: never;
+        /** Mark all matches of a saved search as seen */
+        post: {
             parameters: {
                 query?: never;
                 header?: never;
-                path?: never;
+                path: {
+                    /** @description A unique identifier string */
+                    id: string;
+                };
                 cookie?: never;
             };
             requestBody?: never;
             responses: {
-                /** @description OK */
+                /** @description OK - newMatchCount is reset to 0 */
                 200: {
                     headers: {
                         [name: string]: unknown;
                     };
                     content: {
                         "application/json": {
-                            tags: {
+                            savedSearch: {
                                 /**
                                  * @description A unique identifier string
                                  * @example abc123
                                  */
                                 id: string;
                                 name: string;
-                                color: string | null;
-                                description?: string | null;
-                                documentCount?: number;
-                            }[];
-                        };
-                    };
-                };
-                /** @description Bad Request - Validation error */
-                400: {
-                    headers: {
-                        [name: string]: unknown;
-                    };
-                    content: {
-                        "application/json": {
-                            error: {
-                                message: string;
-                                code: string;
-                                traceId: string;
-                                details?: {
-                                    [key: string]: unknown;
-                                };
+                                q: string;
+                                filters: {
+                                    tagIds?: string[];
+                                    /**
+                                     * @description A unique identifier string
+                                     * @example abc123
+                                     */
+                                    authorId?: string;
+                                    /** Format: date-time */
+                                    updatedAfter?: string;
+                                    /** Format: date-time */
+                                    updatedBefore?: string;
+                                    favoritesOnly?: boolean;
+                                } | null;
+                                /**
+                                 * @description Matches recorded since the saved search was last viewed
+                                 * @example 3
+                                 */
+                                newMatchCount: number;
+                                /**
+                                 * Format: date-time
+                                 * @description Last worker run; null until the first run
+                                 */
+                                lastRunAt: string | null;
+                                /** Format: date-time */
+                                createdAt: string;
+                                /** Format: date-time */
+                                updatedAt: string;
                             };
                         };
                     };
@@ -2270,25 +5681,7 @@ export interface paths {
                         };
                     };
                 };
-                /** @description Forbidden - Access denied */
-                403: {
-                    headers: {
-                        [name: string]: unknown;
-                    };
-                    content: {
-                        "application/json": {
-                            error: {
-                                message: string;
-                                code: string;
-                                traceId: string;
-                                details?: {
-                                    [key: string]: unknown;
-                                };
-                            };
-                        };
-                    };
-                };
-                /** @description Not Found - Document does not exist */
+                /** @description Not Found - Saved search does not exist */
                 404: {
                     headers: {
                         [name: string]: unknown;
@@ -2326,60 +5719,83 @@ export interface paths {
                 };
             };
         };
-        put?: never;
-        post: {
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/v1/duplicates": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /**
+         * List duplicate document pairs in the active workspace
+         * @description Pairs are flagged by a background job, highest similarity first. Owners and admins only.
+         */
+        get: {
             parameters: {
-                query?: never;
+                query?: {
+                    /** @description Review status to list */
+                    status?: "open" | "dismissed" | "resolved";
+                };
                 header?: never;
                 path?: never;
                 cookie?: never;
             };
-            requestBody: {
-                content: {
-                    "application/json": {
-                        tagIds: string[];
-                    };
-                };
-            };
+            requestBody?: never;
             responses: {
-                /** @description Tags added to document */
+                /** @description OK */
                 200: {
                     headers: {
                         [name: string]: unknown;
                     };
                     content: {
                         "application/json": {
-                            added: {
+                            duplicates: {
                                 /**
                                  * @description A unique identifier string
                                  * @example abc123
                                  */
                                 id: string;
-                                name: string;
-                                color: string | null;
-                                description?: string | null;
-                                documentCount?: number;
+                                documents: ({
+                                    /**
+                                     * @description A unique identifier string
+                                     * @example abc123
+                                     */
+                                    id: string;
+                                    title: string;
+                                    /** Format: date-time */
+                                    updatedAt: string;
+                                    createdByName: string | null;
+                                } | {
+                                    /**
+                                     * @description A unique identifier string
+                                     * @example abc123
+                                     */
+                                    id: string;
+                                    title: string;
+                                    /** Format: date-time */
+                                    updatedAt: string;
+                                    createdByName: string | null;
+                                })[];
+                                /**
+                                 * @description Share of passages with a near-identical counterpart in the other document
+                                 * @example 0.92
+                                 */
+                                similarity: number;
+                                /** @description Both documents have identical content */
+                                exactMatch: boolean;
+                                /** @enum {string} */
+                                status: "open" | "dismissed" | "resolved";
+                                /** Format: date-time */
+                                detectedAt: string;
+                                /** Format: date-time */
+                                resolvedAt: string | null;
                             }[];
-                            alreadyExists?: string[] | null;
-                            notFound?: string[] | null;
-                        };
-                    };
-                };
-                /** @description Bad Request - Validation error */
-                400: {
-                    headers: {
-                        [name: string]: unknown;
-                    };
-                    content: {
-                        "application/json": {
-                            error: {
-                                message: string;
-                                code: string;
-                                traceId: string;
-                                details?: {
-                                    [key: string]: unknown;
-                                };
-                            };
                         };
                     };
                 };
@@ -2401,7 +5817,7 @@ export interface paths {
                         };
                     };
                 };
-                /** @description Forbidden - Access denied */
+                /** @description Forbidden - Workspace owner or admin role required */
                 403: {
                     headers: {
                         [name: string]: unknown;
@@ -2419,24 +5835,6 @@ export interface paths {
                         };
                     };
                 };
-                /** @description Not Found - Document does not exist */
-                404: {
-                    headers: {
-                        [name: string]: unknown;
-                    };
-                    content: {
-                        "application/json": {
-                            error: {
-                                message: string;
-                                code: string;
-                                traceId: string;
-                                details?: {
-                                    [key: string]: unknown;
-                                };
-                            };
-                        };
-                    };
-                };
                 /** @description Internal Server Error */
                 500: {
                     headers: {
@@ -2457,13 +5855,15 @@ export interface paths {
                 };
             };
         };
+        put?: never;
+        post?: never;
         delete?: never;
         options?: never;
         head?: never;
         patch?: never;
         trace?: never;
     };
-    "/v1/documents/{id}/tags/{tagId}": {
+    "/v1/duplicates/{id}/dismiss": {
         parameters: {
             query?: never;
             header?: never;
@@ -2472,29 +5872,75 @@ export interface paths {
         };
         get?: never;
         put?: never;
-        post?: never;
-        delete: {
+        /**
+         * Dismiss a duplicate pair
+         * @description Dismissed pairs are not flagged again, even if the documents change.
+         */
+        post: {
             parameters: {
                 query?: never;
                 header?: never;
-                path?: never;
+                path: {
+                    /** @description A unique identifier string */
+                    id: string;
+                };
                 cookie?: never;
             };
             requestBody?: never;
             responses: {
-                /** @description Tag removed from document */
+                /** @description OK */
                 200: {
                     headers: {
                         [name: string]: unknown;
                     };
                     content: {
                         "application/json": {
-                            message: string;
+                            duplicate: {
+                                /**
+                                 * @description A unique identifier string
+                                 * @example abc123
+                                 */
+                                id: string;
+                                documents: ({
+                                    /**
+                                     * @description A unique identifier string
+                                     * @example abc123
+                                     */
+                                    id: string;
+                                    title: string;
+                                    /** Format: date-time */
+                                    updatedAt: string;
+                                    createdByName: string | null;
+                                } | {
+                                    /**
+                                     * @description A unique identifier string
+                                     * @example abc123
+                                     */
+                                    id: string;
+                                    title: string;
+                                    /** Format: date-time */
+                                    updatedAt: string;
+                                    createdByName: string | null;
+                                })[];
+                                /**
+                                 * @description Share of passages with a near-identical counterpart in the other document
+                                 * @example 0.92
+                                 */
+                                similarity: number;
+                                /** @description Both documents have identical content */
+                                exactMatch: boolean;
+                                /** @enum {string} */
+                                status: "open" | "dismissed" | "resolved";
+                                /** Format: date-time */
+                                detectedAt: string;
+                                /** Format: date-time */
+                                resolvedAt: string | null;
+                            };
                         };
                     };
                 };
-                /** @description Bad Request - Validation error */
-                400: {
+                /** @description Unauthorized - Authentication required */
+                401: {
                     headers: {
                         [name: string]: unknown;
                     };
@@ -2511,8 +5957,8 @@ export interface paths {
                         };
                     };
                 };
-                /** @description Unauthorized - Authentication required */
-                401: {
+                /** @description Forbidden - Workspace owner or admin role required */
+                403: {
                     headers: {
                         [name: string]: unknown;
                     };
@@ -2529,8 +5975,8 @@ export interface paths {
                         };
                     };
                 };
-                /** @description Forbidden - Access denied */
-                403: {
+                /** @description Not Found - Duplicate pair does not exist */
+                404: {
                     headers: {
                         [name: string]: unknown;
                     };
@@ -2547,8 +5993,8 @@ export interface paths {
                         };
                     };
                 };
-                /** @description Not Found - Document or tag not found */
-                404: {
+                /** @description Conflict - Pair is no longer open */
+                409: {
                     headers: {
                         [name: string]: unknown;
                     };
@@ -2585,12 +6031,13 @@ export interface paths {
                 };
             };
         };
+        delete?: never;
         options?: never;
         head?: never;
         patch?: never;
         trace?: never;
     };
-    "/v1/documents/{id}/favorite": {
+    "/v1/duplicates/{id}/resolve": {
         parameters: {
             query?: never;
             header?: never;
@@ -2599,27 +6046,90 @@ export interface paths {
         };
         get?: never;
         put?: never;
+        /**
+         * Merge or archive one document of a duplicate pair
+         * @description Archived documents stay reachable by link but are excluded from search, related documents and document lists.
+         */
         post: {
             parameters: {
                 query?: never;
                 header?: never;
-                path?: never;
+                path: {
+                    /** @description A unique identifier string */
+                    id: string;
+                };
                 cookie?: never;
             };
-            requestBody?: never;
+            requestBody: {
+                content: {
+                    "application/json": {
+                        /**
+                         * @description archive: archive the other document. merge: copy its tags and favorites onto the kept document first, then archive it
+                         * @example merge
+                         * @enum {string}
+                         */
+                        action: "merge" | "archive";
+                        /**
+                         * @description The document of the pair that stays active
+                         * @example doc_123
+                         */
+                        keepDocumentId: string;
+                    };
+                };
+            };
             responses: {
-                /** @description Document favorited */
+                /** @description OK */
                 200: {
                     headers: {
                         [name: string]: unknown;
                     };
                     content: {
                         "application/json": {
-                            message: string;
+                            duplicate: {
+                                /**
+                                 * @description A unique identifier string
+                                 * @example abc123
+                                 */
+                                id: string;
+                                documents: ({
+                                    /**
+                                     * @description A unique identifier string
+                                     * @example abc123
+                                     */
+                                    id: string;
+                                    title: string;
+                                    /** Format: date-time */
+                                    updatedAt: string;
+                                    createdByName: string | null;
+                                } | {
+                                    /**
+                                     * @description A unique identifier string
+                                     * @example abc123
+                                     */
+                                    id: string;
+                                    title: string;
+                                    /** Format: date-time */
+                                    updatedAt: string;
+                                    createdByName: string | null;
+                                })[];
+                                /**
+                                 * @description Share of passages with a near-identical counterpart in the other document
+                                 * @example 0.92
+                                 */
+                                similarity: number;
+                                /** @description Both documents have identical content */
+                                exactMatch: boolean;
+                                /** @enum {string} */
+                                status: "open" | "dismissed" | "resolved";
+                                /** Format: date-time */
+                                detectedAt: string;
+                                /** Format: date-time */
+                                resolvedAt: string | null;
+                            };
                         };
                     };
                 };
-                /** @description Bad Request - Validation error */
+                /** @description Bad Request - keepDocumentId is not part of the pair */
                 400: {
                     headers: {
                         [name: string]: unknown;
@@ -2655,7 +6165,7 @@ export interface paths {
                         };
                     };
                 };
-                /** @description Forbidden - Access denied */
+                /** @description Forbidden - Workspace owner or admin role required */
                 403: {
                     headers: {
                         [name: string]: unknown;
@@ -2673,7 +6183,7 @@ export interface paths {
                         };
                     };
                 };
-                /** @description Not Found - Document does not exist */
+                /** @description Not Found - Duplicate pair does not exist */
                 404: {
                     headers: {
                         [name: string]: unknown;
@@ -2691,6 +6201,24 @@ export interface paths {
                         };
                     };
                 };
+                /** @description Conflict - Pair is no longer open */
+                409: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            error: {
+                                message: string;
+                                code: string;
+                                traceId: string;
+                                details?: {
+                                    [key: string]: unknown;
+                                };
+                            };
+                        };
+                    };
+                };
                 /** @description Internal Server Error */
                 500: {
                     headers: {
@@ -2717,7 +6245,7 @@ export interface paths {
         patch?: never;
         trace?: never;
     };
-    "/v1/documents/{id}/unfavorite": {
+    "/v1/qa/stream": {
         parameters: {
             query?: never;
             header?: never;
@@ -2726,6 +6254,10 @@ export interface paths {
         };
         get?: never;
         put?: never;
+        /**
+         * Answer a question from workspace sources, streamed
+         * @description Server-Sent Events: a `sources` event with the retrieved sources, `delta` events with answer text as it is generated, then a `citations` event with the sources the answer cites. Closing the connection cancels generation. Failures after the stream started are sent as an `error` event.
+         */
         post: {
             parameters: {
                 query?: never;
@@ -2733,57 +6265,126 @@ export interface paths {
                 path?: never;
                 cookie?: never;
             };
-            requestBody?: never;
-            responses: {
-                /** @description Document unfavorited */
-                200: {
-                    headers: {
-                        [name: string]: unknown;
-                    };
-                    content: {
-                        "application/json": {
-                            message: string;
-                        };
-                    };
-                };
-                /** @description Bad Request - Validation error */
-                400: {
-                    headers: {
-                        [name: string]: unknown;
-                    };
-                    content: {
-                        "application/json": {
-                            error: {
-                                message: string;
-                                code: string;
-                                traceId: string;
-                                details?: {
-                                    [key: string]: unknown;
-                                };
-                            };
-                        };
+            requestBody: {
+                content: {
+                    "application/json": {
+                        /**
+                         * @description User question to answer with workspace context
+                         * @example When should I use binary search?
+                         */
+                        question: string;
+                        /**
+                         * @description Top reranked results to keep
+                         * @default 5
+                         * @example 5
+                         */
+                        k?: number;
+                        /**
+                         * @description Candidates to retrieve before rerank
+                         * @default 15
+                         * @example 15
+                         */
+                        recall_k?: number;
+                        /**
+                         * @description Upper bound on sources sent to the LLM; usually contextTokens decides how many fit
+                         * @default 10
+                         * @example 10
+                         */
+                        maxSources?: number;
+                        /**
+                         * @description Token budget for the retrieved passages; sources are added best first while they fit
+                         * @default 2000
+                         * @example 2000
+                         */
+                        contextTokens?: number;
                     };
                 };
-                /** @description Unauthorized - Authentication required */
-                401: {
+            };
+            responses: {
+                /** @description OK - Event stream */
+                200: {
                     headers: {
                         [name: string]: unknown;
                     };
                     content: {
-                        "application/json": {
+                        "text/event-stream": {
+                            /** @enum {string} */
+                            type: "sources";
+                            /** @description Retrieved sources, numbered [1], [2]… in order */
+                            sources: {
+                                /**
+                                 * @description A unique identifier string
+                                 * @example abc123
+                                 */
+                                id: string;
+                                title: string;
+                                snippet: string;
+                                score: number;
+                            }[];
+                        } | {
+                            /** @enum {string} */
+                            type: "delta";
+                            /** @description Next piece of the answer */
+                            text: string;
+                        } | {
+                            /** @enum {string} */
+                            type: "citations";
+                            /** @description Sources the answer cites */
+                            sources: {
+                                /**
+                                 * @description A unique identifier string
+                                 * @example abc123
+                                 */
+                                id: string;
+                                title: string;
+                                snippet: string;
+                                score: number;
+                            }[];
+                            noContext: boolean;
+                            claims: {
+                                /** @description Offset of the sentence in the answer */
+                                start: number;
+                                end: number;
+                                /** @description False when no retrieved passage backs the sentence */
+                                supported: boolean;
+                                /**
+                                 * @description Share of the sentence's content words found in `span`
+                                 * @example 0.8
+                                 */
+                                support: number;
+                                span: {
+                                    /**
+                                     * @description A unique identifier string
+                                     * @example abc123
+                                     */
+                                    documentId: string;
+                                    /**
+                                     * @description A unique identifier string
+                                     * @example abc123
+                                     */
+                                    chunkId: string;
+                                    chunkIdx: number;
+                                    start: number;
+                                    end: number;
+                                    text: string;
+                                    /** @description Start of the chunk in the indexed markdown, for the document passage deep link */
+                                    passageStartPos: number | null;
+                                    passageEndPos: number | null;
+                                } | null;
+                            }[];
+                            groundedness: number | null;
+                        } | {
+                            /** @enum {string} */
+                            type: "error";
                             error: {
-                                message: string;
                                 code: string;
-                                traceId: string;
-                                details?: {
-                                    [key: string]: unknown;
-                                };
+                                message: string;
                             };
                         };
                     };
                 };
-                /** @description Forbidden - Access denied */
-                403: {
+                /** @description Bad Request - Validation error or no active tenant */
+                400: {
                     headers: {
                         [name: string]: unknown;
                     };
@@ -2800,8 +6401,8 @@ export interface paths {
                         };
                     };
                 };
-                /** @description Not Found - Document does not exist */
-                404: {
+                /** @description Unauthorized - Authentication required */
+                401: {
                     headers: {
                         [name: string]: unknown;
                     };
@@ -2844,20 +6445,17 @@ export interface paths {
         patch?: never;
         trace?: never;
     };
-    "/v1/tags": {
+    "/v1/qa/threads": {
         parameters: {
             query?: never;
             header?: never;
             path?: never;
             cookie?: never;
         };
+        /** List the caller's Q&A threads, most recently active first */
         get: {
             parameters: {
-                query?: {
-                    includeCount?: "true" | "false";
-                    sortBy?: "name" | "createdAt" | "documentCount";
-                    order?: "asc" | "desc";
-                };
+                query?: never;
                 header?: never;
                 path?: never;
                 cookie?: never;
@@ -2871,22 +6469,23 @@ export interface paths {
                     };
                     content: {
                         "application/json": {
-                            tags: {
+                            threads: {
                                 /**
                                  * @description A unique identifier string
                                  * @example abc123
                                  */
                                 id: string;
-                                name: string;
-                                color: string | null;
-                                description?: string | null;
-                                documentCount?: number;
+                                title: string | null;
+                                messageCount: number;
+                                /** Format: date-time */
+                                createdAt: string;
+                                /** Format: date-time */
+                                updatedAt: string;
                             }[];
-                            total: number;
                         };
                     };
                 };
-                /** @description Bad Request - Validation error */
+                /** @description Bad Request - Validation error or no active tenant */
                 400: {
                     headers: {
                         [name: string]: unknown;
@@ -2922,24 +6521,6 @@ export interface paths {
                         };
                     };
                 };
-                /** @description Forbidden - Access denied */
-                403: {
-                    headers: {
-                        [name: string]: unknown;
-                    };
-                    content: {
-                        "application/json": {
-                            error: {
-                                message: string;
-                                code: string;
-                                traceId: string;
-                                details?: {
-                                    [key: string]: unknown;
-                                };
-                            };
-                        };
-                    };
-                };
                 /** @description Internal Server Error */
                 500: {
                     headers: {
@@ -2961,6 +6542,7 @@ export interface paths {
             };
         };
         put?: never;
+        /** Start a Q&A thread */
         post: {
             parameters: {
                 query?: never;
@@ -2971,39 +6553,30 @@ export interface paths {
             requestBody: {
                 content: {
                     "application/json": {
-                        name: string;
-                        color?: string | null;
-                        description?: string | null;
+                        /**
+                         * @description Defaults to the first question
+                         * @example Deploy rollback
+                         */
+                        title?: string;
                     };
                 };
             };
             responses: {
-                /** @description Tag created */
+                /** @description Thread created */
                 201: {
                     headers: {
                         [name: string]: unknown;
                     };
                     content: {
                         "application/json": {
-                            tag: {
+                            thread: {
                                 /**
                                  * @description A unique identifier string
                                  * @example abc123
                                  */
                                 id: string;
-                                /**
-                                 * @description A unique identifier string
-                                 * @example abc123
-                                 */
-                                tenantId: string;
-                                name: string;
-                                color: string | null;
-                                description: string | null;
-                                /**
-                                 * @description A unique identifier string
-                                 * @example abc123
-                                 */
-                                createdById: string;
+                                title: string | null;
+                                messageCount: number;
                                 /** Format: date-time */
                                 createdAt: string;
                                 /** Format: date-time */
@@ -3012,7 +6585,7 @@ export interface paths {
                         };
                     };
                 };
-                /** @description Bad Request - Validation error */
+                /** @description Bad Request - Validation error or no active tenant */
                 400: {
                     headers: {
                         [name: string]: unknown;
@@ -3048,42 +6621,6 @@ export interface paths {
                         };
                     };
                 };
-                /** @description Forbidden - Access denied */
-                403: {
-                    headers: {
-                        [name: string]: unknown;
-                    };
-                    content: {
-                        "application/json": {
-                            error: {
-                                message: string;
-                                code: string;
-                                traceId: string;
-                                details?: {
-                                    [key: string]: unknown;
-                                };
-                            };
-                        };
-                    };
-                };
-                /** @description Conflict - Tag already exists */
-                409: {
-                    headers: {
-                        [name: string]: unknown;
-                    };
-                    content: {
-                        "application/json": {
-                            error: {
-                                message: string;
-                                code: string;
-                                traceId: string;
-                                details?: {
-                                    [key: string]: unknown;
-                                };
-                            };
-                        };
-                    };
-                };
                 /** @description Internal Server Error */
                 500: {
                     headers: {
@@ -3110,18 +6647,22 @@ export interface paths {
         patch?: never;
         trace?: never;
     };
-    "/v1/tags/{id}": {
+    "/v1/qa/threads/{id}": {
         parameters: {
             query?: never;
             header?: never;
             path?: never;
             cookie?: never;
         };
+        /** Get a Q&A thread with its messages and cited documents */
         get: {
             parameters: {
                 query?: never;
                 header?: never;
-                path?: never;
+                path: {
+                    /** @description A unique identifier string */
+                    id: string;
+                };
                 cookie?: never;
             };
             requestBody?: never;
@@ -3133,49 +6674,64 @@ export interface paths {
                     };
                     content: {
                         "application/json": {
-                            tag: {
+                            thread: {
                                 /**
                                  * @description A unique identifier string
                                  * @example abc123
                                  */
                                 id: string;
+                                title: string | null;
+                                messageCount: number;
+                                /** Format: date-time */
+                                createdAt: string;
+                                /** Format: date-time */
+                                updatedAt: string;
+                            };
+                            messages: {
                                 /**
                                  * @description A unique identifier string
                                  * @example abc123
                                  */
-                                tenantId: string;
-                                name: string;
-                                color: string | null;
-                                description: string | null;
+                                id: string;
+                                /** @enum {string} */
+                                role: "user" | "assistant";
+                                content: string;
                                 /**
-                                 * @description A unique identifier string
-                                 * @example abc123
+                                 * @description Assistant messages: the standalone query the sources were retrieved with
+                                 * @example rollback procedure for the staging deployment
                                  */
-                                createdById: string;
+                                retrievalQuery: string | null;
+                                /** @description Assistant messages: sources the answer cites */
+                                citations: {
+                                    /**
+                                     * @description A unique identifier string
+                                     * @example abc123
+                                     */
+                                    id: string;
+                                    title: string;
+                                    snippet: string;
+                                    score: number;
+                                }[];
+                                noContext: boolean;
                                 /** Format: date-time */
                                 createdAt: string;
+                            }[];
+                            /** @description Cited documents, most recently cited first */
+                            citations: {
+                                /**
+                                 * @description A unique identifier string
+                                 * @example abc123
+                                 */
+                                id: string;
+                                title: string;
+                                /**
+                                 * @description Answers in the thread citing this document
+                                 * @example 2
+                                 */
+                                citedCount: number;
                                 /** Format: date-time */
-                                updatedAt: string;
-                            };
-                            documentCount: number;
-                        };
-                    };
-                };
-                /** @description Bad Request - Validation error */
-                400: {
-                    headers: {
-                        [name: string]: unknown;
-                    };
-                    content: {
-                        "application/json": {
-                            error: {
-                                message: string;
-                                code: string;
-                                traceId: string;
-                                details?: {
-                                    [key: string]: unknown;
-                                };
-                            };
+                                lastCitedAt: string;
+                            }[];
                         };
                     };
                 };
@@ -3197,82 +6753,8 @@ export interface paths {
                         };
                     };
                 };
-                /** @description Forbidden - Access denied */
-                403: {
-                    headers: {
-                        [name: string]: unknown;
-                    };
-                    content: {
-                        "application/json": {
-                            error: {
-                                message: string;
-                                code: string;
-                                traceId: string;
-                                details?: {
-                                    [key: string]: unknown;
-                                };
-                            };
-                        };
-                    };
-                };
-                /** @description Not Found - Tag does not exist */
-                404: {
-                    headers: {
-                        [name: string]: unknown;
-                    };
-                    content: {
-                        "application/json": {
-                            error: {
-                                message: string;
-                                code: string;
-                                traceId: string;
-                                details?: {
-                                    [key: string]: unknown;
-                                };
-                            };
-                        };
-                    };
-                };
-                /** @description Internal Server Error */
-                500: {
-                    headers: {
-                        [name: string]: unknown;
-                    };
-                    content: {
-                        "application/json": {
-                            error: {
-                                message: string;
-                                code: string;
-                                traceId: string;
-                                details?: {
-                                    [key: string]: unknown;
-                                };
-                            };
-                        };
-                    };
-                };
-            };
-        };
-        put?: never;
-        post?: never;
-        delete: {
-            parameters: {
-                query?: never;
-                header?: never;
-                path?: never;
-                cookie?: never;
-            };
-            requestBody?: never;
-            responses: {
-                /** @description No Content - Tag deleted successfully */
-                204: {
-                    headers: {
-                        [name: string]: unknown;
-                    };
-                    content?: never;
-                };
-                /** @description Bad Request - Validation error */
-                400: {
+                /** @description Not Found - Thread does not exist */
+                404: {
                     headers: {
                         [name: string]: unknown;
                     };
@@ -3289,8 +6771,8 @@ export interface paths {
                         };
                     };
                 };
-                /** @description Unauthorized - Authentication required */
-                401: {
+                /** @description Internal Server Error */
+                500: {
                     headers: {
                         [name: string]: unknown;
                     };
@@ -3307,8 +6789,32 @@ export interface paths {
                         };
                     };
                 };
-                /** @description Forbidden - Access denied */
-                403: {
+            };
+        };
+        put?: never;
+        post?: never;
+        /** Delete a Q&A thread */
+        delete: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path: {
+                    /** @description A unique identifier string */
+                    id: string;
+                };
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description Thread deleted */
+                204: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content?: never;
+                };
+                /** @description Unauthorized - Authentication required */
+                401: {
                     headers: {
                         [name: string]: unknown;
                     };
@@ -3325,7 +6831,7 @@ export interface paths {
                         };
                     };
                 };
-                /** @description Not Found - Tag does not exist */
+                /** @description Not Found - Thread does not exist */
                 404: {
                     headers: {
                         [name: string]: unknown;
@@ -3365,58 +6871,137 @@ export interface paths {
         };
         options?: never;
         head?: never;
-        patch: {
+        patch?: never;
+        trace?: never;
+    };
+    "/v1/qa/threads/{id}/messages": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /**
+         * Ask a question in a thread
+         * @description Earlier turns are condensed with the question into a standalone retrieval query, so follow-ups like "and on staging?" retrieve the right sources. Recent turns are also given to the model when answering.
+         */
+        post: {
             parameters: {
                 query?: never;
                 header?: never;
-                path?: never;
+                path: {
+                    /** @description A unique identifier string */
+                    id: string;
+                };
                 cookie?: never;
             };
             requestBody: {
                 content: {
                     "application/json": {
-                        name?: string;
-                        color?: string | null;
-                        description?: string | null;
+                        /**
+                         * @description User question to answer with workspace context
+                         * @example When should I use binary search?
+                         */
+                        question: string;
+                        /**
+                         * @description Top reranked results to keep
+                         * @default 5
+                         * @example 5
+                         */
+                        k?: number;
+                        /**
+                         * @description Candidates to retrieve before rerank
+                         * @default 15
+                         * @example 15
+                         */
+                        recall_k?: number;
+                        /**
+                         * @description Upper bound on sources sent to the LLM; usually contextTokens decides how many fit
+                         * @default 10
+                         * @example 10
+                         */
+                        maxSources?: number;
+                        /**
+                         * @description Token budget for the retrieved passages; sources are added best first while they fit
+                         * @default 2000
+                         * @example 2000
+                         */
+                        contextTokens?: number;
                     };
                 };
             };
             responses: {
-                /** @description Tag updated */
+                /** @description OK - The stored question and answer */
                 200: {
                     headers: {
                         [name: string]: unknown;
                     };
                     content: {
                         "application/json": {
-                            tag: {
+                            question: {
                                 /**
                                  * @description A unique identifier string
                                  * @example abc123
                                  */
                                 id: string;
+                                /** @enum {string} */
+                                role: "user" | "assistant";
+                                content: string;
                                 /**
-                                 * @description A unique identifier string
-                                 * @example abc123
+                                 * @description Assistant messages: the standalone query the sources were retrieved with
+                                 * @example rollback procedure for the staging deployment
                                  */
-                                tenantId: string;
-                                name: string;
-                                color: string | null;
-                                description: string | null;
+                                retrievalQuery: string | null;
+                                /** @description Assistant messages: sources the answer cites */
+                                citations: {
+                                    /**
+                                     * @description A unique identifier string
+                                     * @example abc123
+                                     */
+                                    id: string;
+                                    title: string;
+                                    snippet: string;
+                                    score: number;
+                                }[];
+                                noContext: boolean;
+                                /** Format: date-time */
+                                createdAt: string;
+                            };
+                            answer: {
                                 /**
                                  * @description A unique identifier string
                                  * @example abc123
                                  */
-                                createdById: string;
+                                id: string;
+                                /** @enum {string} */
+                                role: "user" | "assistant";
+                                content: string;
+                                /**
+                                 * @description Assistant messages: the standalone query the sources were retrieved with
+                                 * @example rollback procedure for the staging deployment
+                                 */
+                                retrievalQuery: string | null;
+                                /** @description Assistant messages: sources the answer cites */
+                                citations: {
+                                    /**
+                                     * @description A unique identifier string
+                                     * @example abc123
+                                     */
+                                    id: string;
+                                    title: string;
+                                    snippet: string;
+                                    score: number;
+                                }[];
+                                noContext: boolean;
                                 /** Format: date-time */
                                 createdAt: string;
-                                /** Format: date-time */
-                                updatedAt: string;
                             };
                         };
                     };
                 };
-                /** @description Bad Request - Validation error */
+                /** @description Bad Request - Validation error or no active tenant */
                 400: {
                     headers: {
                         [name: string]: unknown;
@@ -3452,25 +7037,7 @@ export interface paths {
                         };
                     };
                 };
-                /** @description Forbidden - Access denied */
-                403: {
-                    headers: {
-                        [name: string]: unknown;
-                    };
-                    content: {
-                        "application/json": {
-                            error: {
-                                message: string;
-                                code: string;
-                                traceId: string;
-                                details?: {
-                                    [key: string]: unknown;
-                                };
-                            };
-                        };
-                    };
-                };
-                /** @description Not Found - Tag does not exist */
+                /** @description Not Found - Thread does not exist */
                 404: {
                     headers: {
                         [name: string]: unknown;
@@ -3488,24 +7055,6 @@ export interface paths {
                         };
                     };
                 };
-                /** @description Conflict - Tag already exists */
-                409: {
-                    headers: {
-                        [name: string]: unknown;
-                    };
-                    content: {
-                        "application/json": {
-                            error: {
-                                message: string;
-                                code: string;
-                                traceId: string;
-                                details?: {
-                                    [key: string]: unknown;
-                                };
-                            };
-                        };
-                    };
-                };
                 /** @description Internal Server Error */
                 500: {
                     headers: {
@@ -3526,6 +7075,10 @@ export interface paths {
                 };
             };
         };
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
         trace?: never;
     };
     "/v1/reminders/pending": {
@@ -3796,28 +7349,179 @@ export interface paths {
         head?: never;
         patch: {
             parameters: {
-                query?: never;
-                header?: never;
-                path: {
-                    /** @description A unique identifier string */
-                    id: string;
+                query?: never;
+                header?: never;
+                path: {
+                    /** @description A unique identifier string */
+                    id: string;
+                };
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description OK - Reminder marked as done */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            success: boolean;
+                        };
+                    };
+                };
+                /** @description Bad Request - No active tenant */
+                400: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            error: {
+                                message: string;
+                                code: string;
+                                traceId: string;
+                                details?: {
+                                    [key: string]: unknown;
+                                };
+                            };
+                        };
+                    };
+                };
+                /** @description Unauthorized - Authentication required */
+                401: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            error: {
+                                message: string;
+                                code: string;
+                                traceId: string;
+                                details?: {
+                                    [key: string]: unknown;
+                                };
+                            };
+                        };
+                    };
+                };
+                /** @description Forbidden - Not authorized to dismiss this reminder */
+                403: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            error: {
+                                message: string;
+                                code: string;
+                                traceId: string;
+                                details?: {
+                                    [key: string]: unknown;
+                                };
+                            };
+                        };
+                    };
+                };
+                /** @description Not Found - Reminder not found */
+                404: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            error: {
+                                message: string;
+                                code: string;
+                                traceId: string;
+                                details?: {
+                                    [key: string]: unknown;
+                                };
+                            };
+                        };
+                    };
+                };
+                /** @description Internal Server Error */
+                500: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            error: {
+                                message: string;
+                                code: string;
+                                traceId: string;
+                                details?: {
+                                    [key: string]: unknown;
+                                };
+                            };
+                        };
+                    };
+                };
+            };
+        };
+        trace?: never;
+    };
+    "/v1/search/suggest": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /**
+         * Search-as-you-type suggestions
+         * @description Matching document titles, tag names and the caller's recent queries for a prefix. Lexical lookups only, with its own rate limit so typing does not use up the general /v1 budget.
+         */
+        get: {
+            parameters: {
+                query: {
+                    /** @description What the user has typed so far */
+                    prefix: string;
+                    /** @description Maximum suggestions per group */
+                    limit?: number;
                 };
+                header?: never;
+                path?: never;
                 cookie?: never;
             };
             requestBody?: never;
             responses: {
-                /** @description OK - Reminder marked as done */
+                /** @description OK */
                 200: {
                     headers: {
                         [name: string]: unknown;
                     };
                     content: {
                         "application/json": {
-                            success: boolean;
+                            prefix: string;
+                            /** @description Documents whose title has a word starting with the prefix */
+                            documents: {
+                                /**
+                                 * @description A unique identifier string
+                                 * @example abc123
+                                 */
+                                id: string;
+                                title: string;
+                            }[];
+                            /** @description Workspace tags starting with the prefix */
+                            tags: {
+                                /**
+                                 * @description A unique identifier string
+                                 * @example abc123
+                                 */
+                                id: string;
+                                name: string;
+                                color: string | null;
+                            }[];
+                            /** @description The caller's recent successful searches starting with the prefix */
+                            recentQueries: string[];
                         };
                     };
                 };
-                /** @description Bad Request - No active tenant */
+                /** @description Bad Request - Validation error */
                 400: {
                     headers: {
                         [name: string]: unknown;
@@ -3853,26 +7557,8 @@ export interface paths {
                         };
                     };
                 };
-                /** @description Forbidden - Not authorized to dismiss this reminder */
-                403: {
-                    headers: {
-                        [name: string]: unknown;
-                    };
-                    content: {
-                        "application/json": {
-                            error: {
-                                message: string;
-                                code: string;
-                                traceId: string;
-                                details?: {
-                                    [key: string]: unknown;
-                                };
-                            };
-                        };
-                    };
-                };
-                /** @description Not Found - Reminder not found */
-                404: {
+                /** @description Too Many Requests - Rate limit exceeded */
+                429: {
                     headers: {
                         [name: string]: unknown;
                     };
@@ -3909,6 +7595,12 @@ export interface paths {
                 };
             };
         };
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
         trace?: never;
     };
     "/v1/search": {
@@ -3918,14 +7610,43 @@ export interface paths {
             path?: never;
             cookie?: never;
         };
+        /**
+         * Hybrid search with optional structured filters
+         * @description Fuses lexical and semantic retrieval. Tag, author, updatedAt and favorites filters are applied before ranking in both retrieval paths. The query supports "quoted phrases", -exclusions, OR and title:/tag:/author:/before:/after: prefixes. Owners and admins can pass explain=true for per-result lexical ranks, rerank scores, threshold decisions and fused scores.
+         */
         get: {
             parameters: {
                 query: {
+                    /** @description Search query. Supports "quoted phrases", -exclusions, OR, and title:, tag:, author:, before:, after: prefixes */
                     q: string;
                     /** @description Maximum number of results to return */
                     limit?: number;
                     /** @description Number of results to skip for pagination */
                     offset?: number;
+                    /** @description Number of semantic candidates to fuse (defaults to limit) */
+                    semanticK?: number;
+                    /** @description Number of semantic candidates to retrieve before rerank (defaults to semanticK or limit) */
+                    semanticRecall?: number;
+                    /** @description Fusion mode for this request (defaults to the workspace's setting, rrf unless changed) */
+                    fusion?: "rrf" | "minmax" | "zscore" | "semantic_first";
+                    /** @description Weight of the semantic score for minmax/zscore fusion (defaults to the workspace setting, 0.5) */
+                    alpha?: number;
+                    /** @description Reciprocal Rank Fusion constant. Lower values favor top ranks more strongly (defaults to the workspace setting, 60). */
+                    rrfK?: number;
+                    /** @description Include tag, creator and updatedAt facet counts for the full matched set */
+                    includeFacets?: boolean | "true" | "false";
+                    /** @description Return per-result ranking details (workspace owners and admins only) */
+                    explain?: boolean | "true" | "false";
+                    /** @description Only match documents carrying at least one of these tag ids (comma-separated) */
+                    tagIds?: string[];
+                    /** @description Only match documents created by this user */
+                    authorId?: string;
+                    /** @description Only match documents updated at or after this time */
+                    updatedAfter?: string;
+                    /** @description Only match documents updated before this time */
+                    updatedBefore?: string;
+                    /** @description Only match documents in the caller's favorites */
+                    favoritesOnly?: boolean | "true" | "false";
                 };
                 header?: never;
                 path?: never;
@@ -3968,6 +7689,27 @@ export interface paths {
                                  * @example https://www.typescriptlang.org/docs/
                                  */
                                 url?: string;
+                                /** @description Best matching chunk; omitted when the document has no indexed chunks */
+                                passage?: {
+                                    /**
+                                     * @description Heading breadcrumb of the matching passage
+                                     * @example [
+                                     *       "Deployment",
+                                     *       "Rolling updates"
+                                     *     ]
+                                     */
+                                    headingPath: string[];
+                                    /**
+                                     * @description Start offset of the passage in the indexed markdown (trimmed document content)
+                                     * @example 1840
+                                     */
+                                    startPos?: number;
+                                    /**
+                                     * @description End offset (exclusive) of the passage
+                                     * @example 2410
+                                     */
+                                    endPos?: number;
+                                };
                             }[];
                             /**
                              * @description Page number, starting from 1
@@ -3983,6 +7725,129 @@ export interface paths {
                             pageSize: number;
                             /** @description True when results were filtered out due to low confidence */
                             noStrongMatches?: boolean;
+                            /** @description Facet counts, present when includeFacets=true */
+                            facets?: {
+                                tags: {
+                                    /**
+                                     * @description A unique identifier string
+                                     * @example abc123
+                                     */
+                                    id: string;
+                                    /** @example backend */
+                                    name: string;
+                                    color?: string | null;
+                                    /** @example 12 */
+                                    count: number;
+                                }[];
+                                creators: {
+                                    /**
+                                     * @description A unique identifier string
+                                     * @example abc123
+                                     */
+                                    id: string;
+                                    /** @example Ada Lovelace */
+                                    name: string | null;
+                                    /** @example 4 */
+                                    count: number;
+                                }[];
+                                updatedAt: {
+                                    /**
+                                     * @description Window of Document.updatedAt (day = last 24h, week = last 7 days, month = 30, year = 365, older = over a year ago); windows overlap, so a document counts towards each one it falls in
+                                     * @example week
+                                     * @enum {string}
+                                     */
+                                    bucket: "day" | "week" | "month" | "year" | "older";
+                                    /** @example 7 */
+                                    count: number;
+                                }[];
+                            };
+                            /**
+                             * @description Spelling-corrected query built from the workspace's vocabulary, present when the query matched few documents
+                             * @example kubernetes deployment
+                             */
+                            didYouMean?: string;
+                            /** @description Fusion settings hybrid search ranked with, after applying workspace defaults */
+                            fusion?: {
+                                /**
+                                 * @description rrf = Reciprocal Rank Fusion; minmax/zscore = normalized ts_rank and rerank scores blended by alpha; semantic_first = semantic hits first, then lexical-only hits
+                                 * @default rrf
+                                 * @example rrf
+                                 * @enum {string}
+                                 */
+                                mode: "rrf" | "minmax" | "zscore" | "semantic_first";
+                                /**
+                                 * @description Weight of the semantic score in minmax/zscore fusion (0 = lexical only, 1 = semantic only)
+                                 * @default 0.5
+                                 * @example 0.5
+                                 */
+                                alpha: number;
+                                /**
+                                 * @description Reciprocal Rank Fusion constant. Lower values favor top ranks more strongly.
+                                 * @default 60
+                                 * @example 60
+                                 */
+                                rrfK: number;
+                            };
+                            /** @description Ranking details, present when explain=true */
+                            explain?: {
+                                fusion: {
+                                    /**
+                                     * @description rrf = Reciprocal Rank Fusion; minmax/zscore = normalized ts_rank and rerank scores blended by alpha; semantic_first = semantic hits first, then lexical-only hits
+                                     * @default rrf
+                                     * @example rrf
+                                     * @enum {string}
+                                     */
+                                    mode: "rrf" | "minmax" | "zscore" | "semantic_first";
+                                    /**
+                                     * @description Weight of the semantic score in minmax/zscore fusion (0 = lexical only, 1 = semantic only)
+                                     * @default 0.5
+                                     * @example 0.5
+                                     */
+                                    alpha: number;
+                                    /**
+                                     * @description Reciprocal Rank Fusion constant. Lower values favor top ranks more strongly.
+                                     * @default 60
+                                     * @example 60
+                                     */
+                                    rrfK: number;
+                                };
+                                /**
+                                 * @description What happened to the semantic half of the search
+                                 * @enum {string}
+                                 */
+                                semanticStatus: "used" | "skipped" | "unavailable" | "failed" | "no_results" | "top_score_cutoff";
+                                /** @description Whether rerank scores were calibrated; thresholds only apply when true */
+                                calibrated: boolean | null;
+                                semanticRerankThreshold: number;
+                                semanticTopScoreCutoff: number;
+                                topSemanticScore: number | null;
+                                items: {
+                                    /**
+                                     * @description A unique identifier string
+                                     * @example abc123
+                                     */
+                                    id: string;
+                                    /** @description Null when the document had no lexical match */
+                                    lexical: {
+                                        /** @description Position in the lexical ranking (1 = best) */
+                                        rank: number;
+                                        /** @description Weighted ts_rank_cd score */
+                                        tsRank: number;
+                                    } | null;
+                                    /** @description Null when no chunk of the document was retrieved */
+                                    semantic: {
+                                        /** @description Position in the semantic ranking used for fusion; null when filtered out */
+                                        rank: number | null;
+                                        /** @description Index of the best matching chunk */
+                                        chunkIdx: number;
+                                        rerankScore: number;
+                                        /** @description False when the rerank score was below semanticRerankThreshold and the hit did not count */
+                                        passedThreshold: boolean;
+                                    } | null;
+                                    /** @description Score the result was ordered by */
+                                    finalScore: number | null;
+                                }[];
+                            };
                         };
                     };
                 };
@@ -4022,7 +7887,7 @@ export interface paths {
                         };
                     };
                 };
-                /** @description Forbidden - Tenant access denied */
+                /** @description Forbidden - Tenant access denied, or explain=true without owner/admin role */
                 403: {
                     headers: {
                         [name: string]: unknown;
@@ -4040,6 +7905,24 @@ export interface paths {
                         };
                     };
                 };
+                /** @description Unprocessable Entity - Malformed query syntax (INVALID_SEARCH_QUERY) */
+                422: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            error: {
+                                message: string;
+                                code: string;
+                                traceId: string;
+                                details?: {
+                                    [key: string]: unknown;
+                                };
+                            };
+                        };
+                    };
+                };
                 /** @description Too Many Requests - Rate limit exceeded */
                 429: {
                     headers: {
@@ -4965,6 +8848,142 @@ export interface paths {
         patch?: never;
         trace?: never;
     };
+    "/v1/admin/vector-index": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /**
+         * Get vector index health for the current workspace
+         * @description Reports whether semantic search uses a per-workspace HNSW index or exact search, the index size and validity, the configured ef_search, and a recommended action. Large workspaces get their own partial HNSW index; smaller ones are searched exactly.
+         */
+        get: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description OK - Vector index health */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            tenantId: string;
+                            /** @enum {string} */
+                            strategy: "hnsw" | "exact";
+                            chunkCount: number;
+                            threshold: number;
+                            efSearch: number;
+                            tenantIndex: {
+                                name: string;
+                                method: string;
+                                tenantId: string | null;
+                                valid: boolean;
+                                sizeBytes: number;
+                                definition: string;
+                            } | null;
+                            globalIndexes: {
+                                name: string;
+                                method: string;
+                                tenantId: string | null;
+                                valid: boolean;
+                                sizeBytes: number;
+                                definition: string;
+                            }[];
+                            /** @enum {string} */
+                            recommendation: "ok" | "create_tenant_index" | "drop_tenant_index" | "rebuild_invalid_index";
+                        };
+                    };
+                };
+                /** @description Bad Request - No active tenant selected */
+                400: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            error: {
+                                message: string;
+                                code: string;
+                                traceId: string;
+                                details?: {
+                                    [key: string]: unknown;
+                                };
+                            };
+                        };
+                    };
+                };
+                /** @description Unauthorized - Authentication required */
+                401: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            error: {
+                                message: string;
+                                code: string;
+                                traceId: string;
+                                details?: {
+                                    [key: string]: unknown;
+                                };
+                            };
+                        };
+                    };
+                };
+                /** @description Forbidden - Requires admin/owner role */
+                403: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            error: {
+                                message: string;
+                                code: string;
+                                traceId: string;
+                                details?: {
+                                    [key: string]: unknown;
+                                };
+                            };
+                        };
+                    };
+                };
+                /** @description Internal Server Error */
+                500: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            error: {
+                                message: string;
+                                code: string;
+                                traceId: string;
+                                details?: {
+                                    [key: string]: unknown;
+                                };
+                            };
+                        };
+                    };
+                };
+            };
+        };
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
 }
 export type webhooks = Record<string, never>;
 export interface components {